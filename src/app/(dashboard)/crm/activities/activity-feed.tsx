@@ -0,0 +1,191 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { GlassCard, GradientIcon } from "@/components/ui/ui-helpers";
+import { usePageHeader } from "@/components/layout/app-header";
+import { HistoryIcon, PlusIcon } from "lucide-react";
+import { useActivities, useCrmLookups } from "@/lib/react-query/crm";
+import { ACTIVITY_TYPES } from "@/types/crm";
+import type { CrmActivityFilters, CrmActivityType, CrmActivityWithRelations } from "@/types/crm";
+import { ActivityComposer, ActivityTimeline } from "../activity-timeline";
+
+const selectClassName =
+  "flex h-9 rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+interface ActivityFeedProps {
+  canWrite: boolean;
+  canDelete: boolean;
+  initialFollowUps?: CrmActivityFilters["follow_ups"];
+}
+
+export function ActivityFeed({ canWrite, canDelete, initialFollowUps }: ActivityFeedProps) {
+  const [filters, setFilters] = useState<CrmActivityFilters>(() =>
+    // Due follow-ups from My Tasks are the user's own
+    initialFollowUps ? { follow_ups: initialFollowUps, mine: true } : {}
+  );
+  const { data: activities, isLoading } = useActivities(filters);
+  const { data: lookups } = useCrmLookups();
+  const [composerOpen, setComposerOpen] = useState(false);
+
+  const { setContent } = usePageHeader();
+  useEffect(() => {
+    setContent({
+      icon: <GradientIcon icon={<HistoryIcon className="size-4" />} color="slate" size="sm" />,
+      title: "Activity",
+      description: "Calls, meetings, samples and follow-ups across the CRM",
+      actions: canWrite ? (
+        <Button size="sm" onClick={() => setComposerOpen(true)}>
+          <PlusIcon className="size-4 mr-1" />
+          Log Activity
+        </Button>
+      ) : undefined,
+    });
+    return () => setContent({});
+  }, [setContent, canWrite]);
+
+  // Chronological timeline, one block per month
+  const months = useMemo(() => {
+    const groups = new Map<string, CrmActivityWithRelations[]>();
+    for (const activity of activities || []) {
+      const key = activity.activity_date.slice(0, 7);
+      const list = groups.get(key) || [];
+      list.push(activity);
+      groups.set(key, list);
+    }
+    return [...groups.entries()]
+      .sort(([a], [b]) => b.localeCompare(a))
+      .map(([key, list]) => ({ label: format(parseISO(`${key}-01`), "MMMM yyyy"), activities: list }));
+  }, [activities]);
+
+  return (
+    <div className="p-4 md:p-6 space-y-5">
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          className={selectClassName}
+          value={filters.brand_id || ""}
+          onChange={(e) => setFilters((f) => ({ ...f, brand_id: e.target.value || undefined }))}
+        >
+          <option value="">All brands</option>
+          {(lookups?.brands || []).map((b) => (
+            <option key={b.id} value={b.id}>{b.name}</option>
+          ))}
+        </select>
+        <select
+          className={selectClassName}
+          value={filters.architecture_firm_id || ""}
+          onChange={(e) =>
+            setFilters((f) => ({ ...f, architecture_firm_id: e.target.value || undefined }))
+          }
+        >
+          <option value="">All firms</option>
+          {(lookups?.firms || []).map((f) => (
+            <option key={f.id} value={f.id}>{f.name}</option>
+          ))}
+        </select>
+        <select
+          className={selectClassName}
+          value={filters.activity_type || ""}
+          onChange={(e) =>
+            setFilters((f) => ({
+              ...f,
+              activity_type: (e.target.value || undefined) as CrmActivityType | undefined,
+            }))
+          }
+        >
+          <option value="">All types</option>
+          {ACTIVITY_TYPES.map((t) => (
+            <option key={t.value} value={t.value}>{t.label}</option>
+          ))}
+        </select>
+        <select
+          className={selectClassName}
+          value={filters.follow_ups || ""}
+          onChange={(e) =>
+            setFilters((f) => ({
+              ...f,
+              follow_ups: (e.target.value || undefined) as CrmActivityFilters["follow_ups"],
+            }))
+          }
+        >
+          <option value="">All activity</option>
+          <option value="open">Open follow-ups</option>
+          <option value="due">Follow-ups due</option>
+        </select>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="activity-mine"
+            checked={!!filters.mine}
+            onCheckedChange={(checked) => setFilters((f) => ({ ...f, mine: checked === true || undefined }))}
+          />
+          <Label htmlFor="activity-mine" className="text-sm font-normal">Mine only</Label>
+        </div>
+      </div>
+
+      {/* Timeline */}
+      {isLoading ? (
+        <GlassCard>
+          <CardContent className="p-4 space-y-3">
+            {Array.from({ length: 4 }).map((_, i) => (
+              <Skeleton key={`skel-${i}`} className="h-12" />
+            ))}
+          </CardContent>
+        </GlassCard>
+      ) : months.length === 0 ? (
+        <GlassCard>
+          <CardContent className="p-4">
+            <p className="text-sm text-muted-foreground text-center py-8">
+              {filters.follow_ups ? "No follow-ups match these filters." : "No activity logged yet."}
+            </p>
+          </CardContent>
+        </GlassCard>
+      ) : (
+        months.map((month) => (
+          <GlassCard key={month.label}>
+            <CardContent className="p-4 space-y-3">
+              <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                {month.label}
+              </p>
+              <ActivityTimeline
+                activities={month.activities}
+                canWrite={canWrite}
+                canDelete={canDelete}
+                showContext
+              />
+            </CardContent>
+          </GlassCard>
+        ))
+      )}
+
+      <Dialog open={composerOpen} onOpenChange={setComposerOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Log Activity</DialogTitle>
+            <DialogDescription>
+              Record a touchpoint. Add a due date to get it on My Tasks and in the daily reminder.
+            </DialogDescription>
+          </DialogHeader>
+          <ActivityComposer
+            links={{ brand_id: filters.brand_id, architecture_firm_id: filters.architecture_firm_id }}
+            pickParent
+            onLogged={() => setComposerOpen(false)}
+            onCancel={() => setComposerOpen(false)}
+          />
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
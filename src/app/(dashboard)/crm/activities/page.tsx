@@ -0,0 +1,29 @@
+import { redirect } from "next/navigation";
+import { createClient, getUserProfileFromJWT } from "@/lib/supabase/server";
+import { ActivityFeed } from "./activity-feed";
+
+export default async function CrmActivitiesPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ follow_ups?: string }>;
+}) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) redirect("/login");
+
+  const profile = await getUserProfileFromJWT(user, supabase);
+  if (!["admin", "pm", "management"].includes(profile.role)) redirect("/dashboard");
+
+  // My Tasks links here with ?follow_ups=due
+  const params = await searchParams;
+  const followUps = params.follow_ups === "due" || params.follow_ups === "open" ? params.follow_ups : undefined;
+
+  return (
+    <ActivityFeed
+      canWrite={["admin", "pm"].includes(profile.role)}
+      canDelete={profile.role === "admin"}
+      initialFollowUps={followUps}
+    />
+  );
+}
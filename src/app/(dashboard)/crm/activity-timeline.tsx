@@ -0,0 +1,458 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { format, parseISO } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import { Skeleton } from "@/components/ui/skeleton";
+import { BellRingIcon, CheckIcon, PlusIcon, TrashIcon } from "lucide-react";
+import { activitySchema } from "@/lib/validations/crm";
+import type { ActivityFormData } from "@/lib/validations/crm";
+import {
+  useActivities,
+  useCompleteFollowUp,
+  useCreateActivity,
+  useCrmLookups,
+  useDeleteActivity,
+} from "@/lib/react-query/crm";
+import { ACTIVITY_TYPES } from "@/types/crm";
+import type { CrmActivityFilters, CrmActivityWithRelations } from "@/types/crm";
+import { getOptionLabel } from "./crm-option-badge";
+
+const selectClassName =
+  "flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+type ActivityLinks = Partial<
+  Pick<ActivityFormData, "brand_id" | "architecture_firm_id" | "contact_id" | "opportunity_id">
+>;
+
+// ============================================================================
+// Follow-up status
+// ============================================================================
+
+export type FollowUpStatus = "done" | "overdue" | "due" | "upcoming";
+
+/** Follow-up state of an activity, or null when it has no follow-up date */
+export function getFollowUpStatus(
+  activity: Pick<CrmActivityWithRelations, "next_action_date" | "follow_up_completed_at">,
+  today: string
+): FollowUpStatus | null {
+  if (!activity.next_action_date) return null;
+  if (activity.follow_up_completed_at) return "done";
+  if (activity.next_action_date < today) return "overdue";
+  if (activity.next_action_date === today) return "due";
+  return "upcoming";
+}
+
+const FOLLOW_UP_STYLES: Record<FollowUpStatus, { label: string; className: string }> = {
+  done: { label: "Done", className: "bg-emerald-50 text-emerald-700 border-emerald-200" },
+  overdue: { label: "Overdue", className: "bg-rose-50 text-rose-700 border-rose-200" },
+  due: { label: "Due today", className: "bg-amber-50 text-amber-700 border-amber-200" },
+  upcoming: { label: "Upcoming", className: "bg-sky-50 text-sky-700 border-sky-200" },
+};
+
+function formatDay(date: string) {
+  return format(parseISO(date), "d MMM yyyy");
+}
+
+// ============================================================================
+// Composer
+// ============================================================================
+
+interface ActivityComposerProps {
+  /** Entity links fixed by the page the composer sits on */
+  links: ActivityLinks;
+  /** Optional pickers for narrowing the activity to a contact / opportunity */
+  contacts?: { id: string; first_name: string; last_name: string }[];
+  opportunities?: { id: string; title: string; opportunity_code: string }[];
+  /** Show brand + firm pickers (timeline page, where nothing is fixed) */
+  pickParent?: boolean;
+  onLogged?: () => void;
+  onCancel?: () => void;
+}
+
+export function ActivityComposer({
+  links,
+  contacts,
+  opportunities,
+  pickParent = false,
+  onLogged,
+  onCancel,
+}: ActivityComposerProps) {
+  const createActivity = useCreateActivity();
+  const { data: lookups } = useCrmLookups();
+
+  const emptyForm = (): ActivityFormData => ({
+    activity_type: "call",
+    title: "",
+    description: null,
+    activity_date: format(new Date(), "yyyy-MM-dd"),
+    brand_id: links.brand_id ?? null,
+    architecture_firm_id: links.architecture_firm_id ?? null,
+    contact_id: links.contact_id ?? null,
+    opportunity_id: links.opportunity_id ?? null,
+    outcome: null,
+    next_action: null,
+    next_action_date: null,
+  });
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setValue,
+    watch,
+    formState: { errors },
+  } = useForm<ActivityFormData>({
+    resolver: zodResolver(activitySchema),
+    defaultValues: emptyForm(),
+  });
+
+  const activityType = watch("activity_type");
+  const isFollowUp = activityType === "follow_up";
+
+  const onSubmit = (data: ActivityFormData) => {
+    createActivity.mutate(data, {
+      onSuccess: () => {
+        reset(emptyForm());
+        onLogged?.();
+      },
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-3">
+      {/* Type + Date */}
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1.5">
+          <Label>Type</Label>
+          <select
+            className={selectClassName}
+            value={activityType}
+            onChange={(e) =>
+              setValue("activity_type", e.target.value as ActivityFormData["activity_type"])
+            }
+          >
+            {ACTIVITY_TYPES.map((t) => (
+              <option key={t.value} value={t.value}>{t.label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="activity_date">Date</Label>
+          <Input id="activity_date" type="date" {...register("activity_date")} />
+          {errors.activity_date && (
+            <p className="text-xs text-destructive">{errors.activity_date.message}</p>
+          )}
+        </div>
+      </div>
+
+      {/* Title */}
+      <div className="space-y-1.5">
+        <Label htmlFor="activity_title">Title *</Label>
+        <Input
+          id="activity_title"
+          {...register("title")}
+          placeholder={isFollowUp ? "e.g. Chase sample feedback" : "e.g. Intro call with store design team"}
+        />
+        {errors.title && <p className="text-xs text-destructive">{errors.title.message}</p>}
+      </div>
+
+      {/* Brand + Firm (timeline page only) */}
+      {pickParent && (
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1.5">
+            <Label>Brand</Label>
+            <select
+              className={selectClassName}
+              value={watch("brand_id") || ""}
+              onChange={(e) => setValue("brand_id", e.target.value || null)}
+            >
+              <option value="">No brand</option>
+              {(lookups?.brands || []).map((b) => (
+                <option key={b.id} value={b.id}>{b.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1.5">
+            <Label>Architecture Firm</Label>
+            <select
+              className={selectClassName}
+              value={watch("architecture_firm_id") || ""}
+              onChange={(e) => setValue("architecture_firm_id", e.target.value || null)}
+            >
+              <option value="">No firm</option>
+              {(lookups?.firms || []).map((f) => (
+                <option key={f.id} value={f.id}>{f.name}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      )}
+
+      {/* Contact + Opportunity (brand / firm pages) */}
+      {(contacts || opportunities) && (
+        <div className="grid grid-cols-2 gap-3">
+          {contacts && (
+            <div className="space-y-1.5">
+              <Label>Contact</Label>
+              <select
+                className={selectClassName}
+                value={watch("contact_id") || ""}
+                onChange={(e) => setValue("contact_id", e.target.value || null)}
+              >
+                <option value="">No contact</option>
+                {contacts.map((c) => (
+                  <option key={c.id} value={c.id}>{c.first_name} {c.last_name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          {opportunities && (
+            <div className="space-y-1.5">
+              <Label>Opportunity</Label>
+              <select
+                className={selectClassName}
+                value={watch("opportunity_id") || ""}
+                onChange={(e) => setValue("opportunity_id", e.target.value || null)}
+              >
+                <option value="">No opportunity</option>
+                {opportunities.map((o) => (
+                  <option key={o.id} value={o.id}>{o.opportunity_code} · {o.title}</option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Notes + Outcome */}
+      <div className="space-y-1.5">
+        <Label htmlFor="activity_description">Notes</Label>
+        <Textarea
+          id="activity_description"
+          {...register("description")}
+          placeholder="What was discussed?"
+          rows={2}
+        />
+      </div>
+      <div className="space-y-1.5">
+        <Label htmlFor="activity_outcome">Outcome</Label>
+        <Input id="activity_outcome" {...register("outcome")} placeholder="e.g. Asked for a quote" />
+      </div>
+
+      {/* Follow-up — feeds My Tasks and the daily reminder email */}
+      <div className="rounded-lg border border-base-200 p-3 space-y-3">
+        <p className="text-xs font-medium text-muted-foreground flex items-center gap-1.5">
+          <BellRingIcon className="size-3.5" />
+          Follow-up {isFollowUp ? "(required)" : "(optional)"}
+        </p>
+        <div className="grid grid-cols-5 gap-3">
+          <div className="col-span-3 space-y-1.5">
+            <Label htmlFor="next_action">Next action</Label>
+            <Input id="next_action" {...register("next_action")} placeholder="e.g. Send revised quote" />
+          </div>
+          <div className="col-span-2 space-y-1.5">
+            <Label htmlFor="next_action_date">Due</Label>
+            <Input
+              id="next_action_date"
+              type="date"
+              {...register("next_action_date", { setValueAs: (v) => v || null })}
+            />
+            {errors.next_action_date && (
+              <p className="text-xs text-destructive">{errors.next_action_date.message}</p>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button type="button" variant="outline" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button type="submit" size="sm" disabled={createActivity.isPending}>
+          {createActivity.isPending ? "Logging..." : "Log Activity"}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+// ============================================================================
+// Timeline
+// ============================================================================
+
+interface ActivityTimelineProps {
+  activities: CrmActivityWithRelations[];
+  canWrite: boolean;
+  canDelete?: boolean;
+  /** Show which brand / firm / opportunity each entry belongs to */
+  showContext?: boolean;
+  emptyMessage?: string;
+}
+
+export function ActivityTimeline({
+  activities,
+  canWrite,
+  canDelete = false,
+  showContext = false,
+  emptyMessage = "No activity logged yet.",
+}: ActivityTimelineProps) {
+  const completeFollowUp = useCompleteFollowUp();
+  const deleteActivity = useDeleteActivity();
+  const today = format(new Date(), "yyyy-MM-dd");
+
+  if (activities.length === 0) {
+    return <p className="text-sm text-muted-foreground">{emptyMessage}</p>;
+  }
+
+  // Newest first; same-day entries keep the order they were logged in
+  const sorted = [...activities].sort(
+    (a, b) =>
+      b.activity_date.localeCompare(a.activity_date) ||
+      (b.created_at || "").localeCompare(a.created_at || "")
+  );
+
+  return (
+    <div className="space-y-3">
+      {sorted.map((activity) => {
+        const followUp = getFollowUpStatus(activity, today);
+        return (
+          <div key={activity.id} className="group border-l-2 border-base-200 pl-3">
+            <div className="flex items-start gap-2">
+              <p className="text-sm font-medium flex-1 min-w-0">{activity.title}</p>
+              {canDelete && (
+                <button
+                  type="button"
+                  onClick={() => deleteActivity.mutate(activity.id)}
+                  className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-rose-600 transition-opacity"
+                  aria-label="Delete activity"
+                >
+                  <TrashIcon className="size-3.5" />
+                </button>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {getOptionLabel(ACTIVITY_TYPES, activity.activity_type)} · {formatDay(activity.activity_date)}
+              {activity.user && ` · ${activity.user.name}`}
+              {activity.contact && ` · with ${activity.contact.first_name} ${activity.contact.last_name}`}
+            </p>
+            {showContext && (activity.brand || activity.architecture_firm || activity.opportunity) && (
+              <p className="text-xs text-muted-foreground flex flex-wrap gap-x-2">
+                {activity.brand && (
+                  <Link href={`/crm/brands/${activity.brand.id}`} className="hover:text-foreground hover:underline">
+                    {activity.brand.name}
+                  </Link>
+                )}
+                {activity.architecture_firm && (
+                  <Link
+                    href={`/crm/firms/${activity.architecture_firm.id}`}
+                    className="hover:text-foreground hover:underline"
+                  >
+                    {activity.architecture_firm.name}
+                  </Link>
+                )}
+                {activity.opportunity && (
+                  <Link
+                    href={`/crm?opportunity=${activity.opportunity.id}`}
+                    className="font-mono hover:text-foreground hover:underline"
+                  >
+                    {activity.opportunity.opportunity_code}
+                  </Link>
+                )}
+              </p>
+            )}
+            {activity.description && (
+              <p className="text-xs mt-0.5 whitespace-pre-line">{activity.description}</p>
+            )}
+            {activity.outcome && (
+              <p className="text-xs mt-0.5">
+                <span className="text-muted-foreground">Outcome:</span> {activity.outcome}
+              </p>
+            )}
+            {followUp && (
+              <div
+                className={cn(
+                  "mt-1.5 flex items-center gap-2 rounded-md border px-2 py-1 text-xs",
+                  FOLLOW_UP_STYLES[followUp].className
+                )}
+              >
+                <BellRingIcon className="size-3.5 shrink-0" />
+                <span className="flex-1 min-w-0 truncate">
+                  {activity.next_action || "Follow up"} · {formatDay(activity.next_action_date!)}
+                </span>
+                <span className="font-medium shrink-0">{FOLLOW_UP_STYLES[followUp].label}</span>
+                {followUp !== "done" && canWrite && (
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    className="h-6 px-1.5 text-xs"
+                    disabled={completeFollowUp.isPending}
+                    onClick={() => completeFollowUp.mutate(activity.id)}
+                  >
+                    <CheckIcon className="size-3.5 mr-0.5" />
+                    Done
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// ============================================================================
+// Panel — composer + timeline for one contact / opportunity (sheet tabs)
+// ============================================================================
+
+export function ActivityPanel({
+  filters,
+  links,
+  canWrite,
+}: {
+  filters: CrmActivityFilters;
+  links: ActivityLinks;
+  canWrite: boolean;
+}) {
+  const { data: activities, isLoading } = useActivities(filters);
+  const [composing, setComposing] = useState(false);
+
+  return (
+    <div className="space-y-4">
+      {canWrite &&
+        (composing ? (
+          <div className="rounded-lg border border-base-200 bg-base-50/50 p-3">
+            <ActivityComposer
+              links={links}
+              onLogged={() => setComposing(false)}
+              onCancel={() => setComposing(false)}
+            />
+          </div>
+        ) : (
+          <Button size="sm" variant="outline" className="w-full" onClick={() => setComposing(true)}>
+            <PlusIcon className="size-4 mr-1" />
+            Log Activity
+          </Button>
+        ))}
+      {isLoading ? (
+        <div className="space-y-3">
+          <Skeleton className="h-12" />
+          <Skeleton className="h-12" />
+        </div>
+      ) : (
+        <ActivityTimeline activities={activities || []} canWrite={canWrite} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { GlassCard, GradientIcon } from "@/components/ui/ui-helpers";
+import { usePageHeader } from "@/components/layout/app-header";
+import { ArrowLeftIcon, GemIcon, PencilIcon, TrashIcon } from "lucide-react";
+import { useBrand, useCrmLookups, useDeleteBrand } from "@/lib/react-query/crm";
+import { BRAND_TIERS, CRM_PRIORITIES } from "@/types/crm";
+import { CrmOptionBadge, getOptionLabel } from "../../crm-option-badge";
+import {
+  ActivitiesCard,
+  ContactsCard,
+  DetailRow,
+  LinksCard,
+  OpportunitiesCard,
+} from "../../crm-detail-cards";
+import { BrandSheet } from "../brand-sheet";
+
+interface BrandDetailProps {
+  id: string;
+  canWrite: boolean;
+  canDelete: boolean;
+}
+
+export function BrandDetail({ id, canWrite, canDelete }: BrandDetailProps) {
+  const router = useRouter();
+  const { data: brand, isLoading } = useBrand(id);
+  const { data: lookups } = useCrmLookups();
+  const deleteBrand = useDeleteBrand();
+
+  const [sheetOpen, setSheetOpen] = useState(false);
+  const [deleteOpen, setDeleteOpen] = useState(false);
+  const parent = useMemo(() => ({ kind: "brand" as const, id }), [id]);
+
+  const { setContent } = usePageHeader();
+  useEffect(() => {
+    if (brand) {
+      setContent({
+        icon: (
+          <Link href="/crm/brands" className="hover:opacity-70">
+            <ArrowLeftIcon className="size-5" />
+          </Link>
+        ),
+        title: brand.name,
+        description: `${brand.brand_code} · ${getOptionLabel(BRAND_TIERS, brand.tier)}`,
+        actions: (
+          <div className="flex gap-2">
+            {canWrite && (
+              <Button size="sm" variant="outline" onClick={() => setSheetOpen(true)}>
+                <PencilIcon className="size-4 mr-1" />
+                Edit
+              </Button>
+            )}
+            {canDelete && (
+              <Button
+                size="sm"
+                variant="outline"
+                className="text-rose-600 hover:text-rose-700"
+                onClick={() => setDeleteOpen(true)}
+              >
+                <TrashIcon className="size-4 mr-1" />
+                Delete
+              </Button>
+            )}
+          </div>
+        ),
+      });
+    }
+    return () => setContent({});
+  }, [setContent, brand, canWrite, canDelete]);
+
+  const handleDelete = () => {
+    deleteBrand.mutate(id, {
+      onSuccess: () => router.push("/crm/brands"),
+    });
+  };
+
+  if (isLoading || !brand) {
+    return (
+      <div className="p-4 md:p-6 space-y-5">
+        <div className="grid gap-5 lg:grid-cols-3">
+          <div className="lg:col-span-2 space-y-5">
+            <GlassCard><CardContent className="p-6"><Skeleton className="h-40" /></CardContent></GlassCard>
+            <GlassCard><CardContent className="p-6"><Skeleton className="h-32" /></CardContent></GlassCard>
+          </div>
+          <GlassCard><CardContent className="p-6"><Skeleton className="h-60" /></CardContent></GlassCard>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 md:p-6 space-y-5">
+      <div className="grid gap-5 lg:grid-cols-3">
+        {/* LEFT COLUMN */}
+        <div className="lg:col-span-2 space-y-5">
+          {/* Details Card */}
+          <GlassCard>
+            <CardHeader className="pb-2 pt-4 px-4">
+              <CardTitle className="text-sm font-semibold flex items-center gap-2">
+                <GradientIcon icon={<GemIcon className="size-3.5" />} color="violet" size="xs" />
+                Brand Details
+                <CrmOptionBadge options={CRM_PRIORITIES} value={brand.priority} className="ml-auto" />
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="px-4 pb-4">
+              <div className="grid grid-cols-2 gap-x-6 gap-y-3">
+                <DetailRow label="Parent Group" value={brand.parent_group || "—"} />
+                <DetailRow label="Segment" value={brand.segment || "—"} />
+                <DetailRow label="Store Count" value={brand.store_count?.toString() || "—"} />
+                <DetailRow label="Expansion Rate" value={brand.expansion_rate || "—"} />
+                <div>
+                  <p className="text-xs text-muted-foreground">Creative Director</p>
+                  <p className="text-sm font-medium">
+                    {brand.creative_director || "—"}
+                    {brand.cd_changed_recently && (
+                      <Badge variant="secondary" className="ml-1.5 text-[10px] px-1.5 py-0">New CD</Badge>
+                    )}
+                  </p>
+                </div>
+                <DetailRow label="Headquarters" value={brand.headquarters || "—"} />
+                <DetailRow label="Annual Revenue" value={brand.annual_revenue || "—"} />
+                <div>
+                  <p className="text-xs text-muted-foreground">Website</p>
+                  {brand.website ? (
+                    <a
+                      href={brand.website}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-sm font-medium text-primary hover:underline break-all"
+                    >
+                      {brand.website}
+                    </a>
+                  ) : (
+                    <p className="text-sm font-medium">—</p>
+                  )}
+                </div>
+                {brand.notes && (
+                  <div className="col-span-2">
+                    <DetailRow label="Notes" value={brand.notes} />
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </GlassCard>
+
+          <OpportunitiesCard parent={parent} opportunities={brand.opportunities} canWrite={canWrite} />
+          <ContactsCard parent={parent} contacts={brand.contacts} canWrite={canWrite} />
+        </div>
+
+        {/* RIGHT COLUMN */}
+        <div className="space-y-5">
+          <LinksCard
+            parent={parent}
+            links={brand.firm_links}
+            options={lookups?.firms || []}
+            canWrite={canWrite}
+            canDelete={canDelete}
+          />
+          <ActivitiesCard
+            parent={parent}
+            activities={brand.activities}
+            contacts={brand.contacts}
+            opportunities={brand.opportunities}
+            canWrite={canWrite}
+            canDelete={canDelete}
+          />
+        </div>
+      </div>
+
+      <BrandSheet open={sheetOpen} onOpenChange={setSheetOpen} brand={brand} />
+
+      <AlertDialog open={deleteOpen} onOpenChange={setDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Brand</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete <strong>{brand.name}</strong>?
+              This will soft-delete the brand record.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={handleDelete}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+"use client";
+
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetDescription,
+} from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { brandSchema } from "@/lib/validations/crm";
+import type { BrandFormData } from "@/lib/validations/crm";
+import { useCreateBrand, useUpdateBrand } from "@/lib/react-query/crm";
+import { BRAND_TIERS, CRM_PRIORITIES } from "@/types/crm";
+import type { CrmBrand } from "@/types/crm";
+
+const selectClassName =
+  "flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+interface BrandSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  brand: CrmBrand | null;
+}
+
+export function BrandSheet({ open, onOpenChange, brand }: BrandSheetProps) {
+  const isEditing = !!brand;
+  const createBrand = useCreateBrand();
+  const updateBrand = useUpdateBrand();
+  const isPending = createBrand.isPending || updateBrand.isPending;
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setValue,
+    watch,
+    formState: { errors },
+  } = useForm<BrandFormData>({
+    resolver: zodResolver(brandSchema),
+    mode: "onChange",
+  });
+
+  useEffect(() => {
+    if (open && brand) {
+      reset({
+        name: brand.name,
+        tier: brand.tier,
+        parent_group: brand.parent_group,
+        segment: brand.segment,
+        store_count: brand.store_count,
+        expansion_rate: brand.expansion_rate,
+        creative_director: brand.creative_director,
+        cd_changed_recently: brand.cd_changed_recently,
+        headquarters: brand.headquarters,
+        website: brand.website,
+        annual_revenue: brand.annual_revenue,
+        priority: brand.priority || "medium",
+        notes: brand.notes,
+      });
+    } else if (open) {
+      reset({
+        name: "",
+        tier: "luxury",
+        parent_group: null,
+        segment: null,
+        store_count: null,
+        expansion_rate: null,
+        creative_director: null,
+        cd_changed_recently: false,
+        headquarters: null,
+        website: null,
+        annual_revenue: null,
+        priority: "medium",
+        notes: null,
+      });
+    }
+  }, [open, brand, reset]);
+
+  const onSubmit = (data: BrandFormData) => {
+    if (isEditing) {
+      updateBrand.mutate(
+        { id: brand.id, ...data },
+        { onSuccess: () => onOpenChange(false) }
+      );
+    } else {
+      createBrand.mutate(data, {
+        onSuccess: () => onOpenChange(false),
+      });
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-lg flex flex-col">
+        <SheetHeader>
+          <SheetTitle>{isEditing ? "Edit Brand" : "New Brand"}</SheetTitle>
+          <SheetDescription>
+            {isEditing
+              ? `Update ${brand.name} details`
+              : "Add a retail brand to target for business development"}
+          </SheetDescription>
+        </SheetHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="flex-1 flex flex-col overflow-hidden mt-4">
+          <div className="flex-1 overflow-y-auto px-4 space-y-4 pb-2">
+          {/* Name */}
+          <div className="space-y-1.5">
+            <Label htmlFor="name">Brand Name *</Label>
+            <Input id="name" {...register("name")} placeholder="e.g. Maison Example" />
+            {errors.name && <p className="text-xs text-destructive">{errors.name.message}</p>}
+          </div>
+
+          {/* Tier + Priority */}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label>Tier *</Label>
+              <select
+                className={selectClassName}
+                value={watch("tier") || "luxury"}
+                onChange={(e) => setValue("tier", e.target.value as BrandFormData["tier"])}
+              >
+                {BRAND_TIERS.map((t) => (
+                  <option key={t.value} value={t.value}>{t.label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1.5">
+              <Label>Priority</Label>
+              <select
+                className={selectClassName}
+                value={watch("priority") || "medium"}
+                onChange={(e) => setValue("priority", e.target.value as BrandFormData["priority"])}
+              >
+                {CRM_PRIORITIES.map((p) => (
+                  <option key={p.value} value={p.value}>{p.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {/* Parent Group + Segment */}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="parent_group">Parent Group</Label>
+              <Input id="parent_group" {...register("parent_group")} placeholder="e.g. LVMH, Kering" />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="segment">Segment</Label>
+              <Input id="segment" {...register("segment")} placeholder="e.g. Fashion, Jewellery" />
+            </div>
+          </div>
+
+          {/* Stores + Expansion */}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="store_count">Store Count</Label>
+              <Input
+                id="store_count"
+                type="number"
+                min={0}
+                {...register("store_count", { setValueAs: (v) => (v === "" || v === null ? null : Number(v)) })}
+              />
+              {errors.store_count && <p className="text-xs text-destructive">{errors.store_count.message}</p>}
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="expansion_rate">Expansion Rate</Label>
+              <Input id="expansion_rate" {...register("expansion_rate")} placeholder="e.g. 10 stores/yr" />
+            </div>
+          </div>
+
+          {/* Creative Director */}
+          <div className="space-y-1.5">
+            <Label htmlFor="creative_director">Creative Director</Label>
+            <Input id="creative_director" {...register("creative_director")} placeholder="Full name" />
+            <label className="flex items-center gap-2 text-xs text-muted-foreground pt-1">
+              <Checkbox
+                checked={!!watch("cd_changed_recently")}
+                onCheckedChange={(checked) => setValue("cd_changed_recently", checked === true)}
+              />
+              Creative director changed recently (store concept refresh likely)
+            </label>
+          </div>
+
+          {/* HQ + Revenue */}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="headquarters">Headquarters</Label>
+              <Input id="headquarters" {...register("headquarters")} placeholder="City, country" />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="annual_revenue">Annual Revenue</Label>
+              <Input id="annual_revenue" {...register("annual_revenue")} placeholder="e.g. €2.1B" />
+            </div>
+          </div>
+
+          {/* Website */}
+          <div className="space-y-1.5">
+            <Label htmlFor="website">Website</Label>
+            <Input id="website" {...register("website")} placeholder="https://..." />
+          </div>
+
+          {/* Notes */}
+          <div className="space-y-1.5">
+            <Label htmlFor="notes">Notes</Label>
+            <Textarea id="notes" {...register("notes")} placeholder="Internal notes..." rows={3} />
+          </div>
+
+          </div>
+          {/* Submit — pinned at bottom */}
+          <div className="flex justify-end gap-2 py-3 px-4 border-t border-base-200 shrink-0">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isPending}>
+              {isPending
+                ? isEditing
+                  ? "Saving..."
+                  : "Creating..."
+                : isEditing
+                  ? "Save Changes"
+                  : "Create Brand"}
+            </Button>
+          </div>
+        </form>
+      </SheetContent>
+    </Sheet>
+  );
+}
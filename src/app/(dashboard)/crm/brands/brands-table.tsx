@@ -0,0 +1,313 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import { useRouter } from "next/navigation";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { GlassCard, GradientIcon } from "@/components/ui/ui-helpers";
+import { usePageHeader } from "@/components/layout/app-header";
+import {
+  GemIcon,
+  PlusIcon,
+  SearchIcon,
+  PencilIcon,
+  TrashIcon,
+} from "lucide-react";
+import { useBreakpoint } from "@/hooks/use-media-query";
+import { useBrands, useDeleteBrand } from "@/lib/react-query/crm";
+import { BRAND_TIERS, CRM_PRIORITIES } from "@/types/crm";
+import type { CrmBrandWithStats } from "@/types/crm";
+import { CrmOptionBadge, getOptionLabel } from "../crm-option-badge";
+import { BrandSheet } from "./brand-sheet";
+
+const selectClassName =
+  "flex h-9 rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+interface BrandsTableProps {
+  canWrite: boolean;
+  canDelete: boolean;
+}
+
+export function BrandsTable({ canWrite, canDelete }: BrandsTableProps) {
+  const router = useRouter();
+  const { data: brands, isLoading } = useBrands();
+  const deleteBrand = useDeleteBrand();
+  const { isMobile } = useBreakpoint();
+
+  const [search, setSearch] = useState("");
+  const [tierFilter, setTierFilter] = useState("");
+  const [sheetOpen, setSheetOpen] = useState(false);
+  const [editingBrand, setEditingBrand] = useState<CrmBrandWithStats | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<CrmBrandWithStats | null>(null);
+
+  const { setContent } = usePageHeader();
+  useEffect(() => {
+    setContent({
+      icon: <GradientIcon icon={<GemIcon className="size-4" />} color="violet" size="sm" />,
+      title: "Brands",
+      description: "Retail brands targeted for business development",
+      actions: canWrite ? (
+        <Button size="sm" onClick={() => { setEditingBrand(null); setSheetOpen(true); }}>
+          <PlusIcon className="size-4 mr-1" />
+          New Brand
+        </Button>
+      ) : undefined,
+    });
+    return () => setContent({});
+  }, [setContent, canWrite]);
+
+  const filtered = useMemo(() => {
+    if (!brands) return [];
+    const q = search.toLowerCase();
+    return brands.filter((b) => {
+      if (tierFilter && b.tier !== tierFilter) return false;
+      if (!q) return true;
+      return (
+        b.name.toLowerCase().includes(q) ||
+        b.brand_code.toLowerCase().includes(q) ||
+        b.parent_group?.toLowerCase().includes(q) ||
+        b.segment?.toLowerCase().includes(q)
+      );
+    });
+  }, [brands, search, tierFilter]);
+
+  const handleEdit = (brand: CrmBrandWithStats) => {
+    setEditingBrand(brand);
+    setSheetOpen(true);
+  };
+
+  const handleDelete = (id: string) => {
+    deleteBrand.mutate(id, {
+      onSuccess: () => setDeleteTarget(null),
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-4 md:p-6 space-y-5">
+        <div className="flex gap-3">
+          <Skeleton className="h-9 flex-1" />
+        </div>
+        <GlassCard className="overflow-hidden">
+          <div className="divide-y divide-base-100">
+            {Array.from({ length: 5 }).map((_, i) => (
+              <div key={`skel-${i}`} className="flex gap-4 p-4">
+                <Skeleton className="h-4 w-20" />
+                <Skeleton className="h-4 w-40" />
+                <Skeleton className="h-4 w-24" />
+                <Skeleton className="h-4 w-32" />
+              </div>
+            ))}
+          </div>
+        </GlassCard>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 md:p-6 space-y-5">
+      {/* Search + Tier */}
+      <div className="flex gap-3">
+        <div className="relative flex-1">
+          <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 size-4 text-muted-foreground" />
+          <Input
+            placeholder="Search brands..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+        <select
+          className={selectClassName}
+          value={tierFilter}
+          onChange={(e) => setTierFilter(e.target.value)}
+        >
+          <option value="">All tiers</option>
+          {BRAND_TIERS.map((t) => (
+            <option key={t.value} value={t.value}>{t.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Mobile Cards */}
+      {isMobile ? (
+        <div className="space-y-3">
+          {filtered.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No brands found.</p>
+          ) : (
+            filtered.map((brand) => (
+              <GlassCard
+                key={brand.id}
+                hover="subtle"
+                className="p-4 cursor-pointer"
+                onClick={() => router.push(`/crm/brands/${brand.id}`)}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-semibold truncate">{brand.name}</span>
+                      <Badge variant="outline" className="text-xs shrink-0">
+                        {brand.brand_code}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-0.5">
+                      {getOptionLabel(BRAND_TIERS, brand.tier)}
+                      {brand.parent_group && ` · ${brand.parent_group}`}
+                    </p>
+                  </div>
+                  <CrmOptionBadge options={CRM_PRIORITIES} value={brand.priority} className="shrink-0" />
+                </div>
+                <div className="flex items-center gap-4 mt-3 text-xs text-muted-foreground">
+                  <span>{brand.contact_count} contacts</span>
+                  <span>{brand.opportunity_count} opportunities</span>
+                </div>
+              </GlassCard>
+            ))
+          )}
+        </div>
+      ) : (
+        /* Desktop Table */
+        <GlassCard className="py-0 overflow-hidden">
+          <div className="overflow-x-auto">
+          <Table
+            style={{ tableLayout: "fixed", minWidth: 800 }}
+            className="[&_th]:border-r [&_th]:border-base-200 [&_th:last-child]:border-r-0 [&_td]:border-r [&_td]:border-base-200 [&_td:last-child]:border-r-0 [&_td]:align-middle"
+          >
+            <TableHeader>
+              <TableRow className="hover:bg-transparent bg-base-50/60 border-b-2 border-base-200">
+                <TableHead className="py-2.5 text-xs font-semibold text-muted-foreground" style={{ width: 80 }}>Code</TableHead>
+                <TableHead className="py-2.5 text-xs font-semibold text-muted-foreground" style={{ width: 180 }}>Name</TableHead>
+                <TableHead className="py-2.5 text-xs font-semibold text-muted-foreground" style={{ width: 100 }}>Tier</TableHead>
+                <TableHead className="py-2.5 text-xs font-semibold text-muted-foreground" style={{ width: 130 }}>Group</TableHead>
+                <TableHead className="py-2.5 text-xs font-semibold text-muted-foreground" style={{ width: 100 }}>Priority</TableHead>
+                <TableHead className="py-2.5 text-xs font-semibold text-muted-foreground text-center" style={{ width: 70 }}>Stores</TableHead>
+                <TableHead className="py-2.5 text-xs font-semibold text-muted-foreground text-center" style={{ width: 80 }}>Contacts</TableHead>
+                <TableHead className="py-2.5 text-xs font-semibold text-muted-foreground text-center" style={{ width: 80 }}>Opps</TableHead>
+                <TableHead className="py-2.5 text-xs font-semibold text-muted-foreground" style={{ width: 70 }} />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filtered.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={9} className="text-center py-8 text-muted-foreground">
+                    No brands found.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                filtered.map((brand, idx) => (
+                  <TableRow
+                    key={brand.id}
+                    className={cn(
+                      "cursor-pointer hover:bg-primary/[0.04] border-b border-base-200 transition-colors",
+                      idx % 2 === 1 ? "bg-base-50/50" : "bg-white"
+                    )}
+                    onClick={() => router.push(`/crm/brands/${brand.id}`)}
+                  >
+                    <TableCell className="font-mono text-xs">{brand.brand_code}</TableCell>
+                    <TableCell className="font-medium text-sm truncate">
+                      {brand.name}
+                      {brand.cd_changed_recently && (
+                        <Badge variant="secondary" className="ml-1.5 text-[10px] px-1.5 py-0">New CD</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground text-xs">
+                      {getOptionLabel(BRAND_TIERS, brand.tier)}
+                    </TableCell>
+                    <TableCell className="text-sm truncate">{brand.parent_group || "—"}</TableCell>
+                    <TableCell>
+                      <CrmOptionBadge options={CRM_PRIORITIES} value={brand.priority} />
+                    </TableCell>
+                    <TableCell className="text-center text-sm">{brand.store_count ?? "—"}</TableCell>
+                    <TableCell className="text-center text-sm">{brand.contact_count}</TableCell>
+                    <TableCell className="text-center">
+                      {brand.opportunity_count > 0 ? (
+                        <Badge variant="secondary">{brand.opportunity_count}</Badge>
+                      ) : (
+                        <span className="text-muted-foreground text-xs">0</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div
+                        role="presentation"
+                        className="flex gap-1"
+                        onClick={(e) => e.stopPropagation()}
+                        onKeyDown={(e) => e.stopPropagation()}
+                      >
+                        {canWrite && (
+                          <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => handleEdit(brand)}>
+                            <PencilIcon className="size-3.5" />
+                          </Button>
+                        )}
+                        {canDelete && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 w-7 p-0 text-muted-foreground hover:text-destructive"
+                            onClick={() => setDeleteTarget(brand)}
+                          >
+                            <TrashIcon className="size-3.5" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+          </div>
+        </GlassCard>
+      )}
+
+      {/* Brand Sheet */}
+      <BrandSheet
+        open={sheetOpen}
+        onOpenChange={setSheetOpen}
+        brand={editingBrand}
+      />
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={!!deleteTarget} onOpenChange={() => setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Brand</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete <strong>{deleteTarget?.name}</strong>?
+              This will soft-delete the brand record.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => deleteTarget && handleDelete(deleteTarget.id)}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
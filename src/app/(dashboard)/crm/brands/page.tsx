@@ -0,0 +1,20 @@
+import { redirect } from "next/navigation";
+import { createClient, getUserProfileFromJWT } from "@/lib/supabase/server";
+import { BrandsTable } from "./brands-table";
+
+export default async function CrmBrandsPage() {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) redirect("/login");
+
+  const profile = await getUserProfileFromJWT(user, supabase);
+  if (!["admin", "pm", "management"].includes(profile.role)) redirect("/dashboard");
+
+  return (
+    <BrandsTable
+      canWrite={["admin", "pm"].includes(profile.role)}
+      canDelete={profile.role === "admin"}
+    />
+  );
+}
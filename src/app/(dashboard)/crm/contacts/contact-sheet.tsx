@@ -0,0 +1,268 @@
+"use client";
+
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetDescription,
+} from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { contactSchema } from "@/lib/validations/crm";
+import type { ContactFormData } from "@/lib/validations/crm";
+import { useCrmLookups, useCreateContact, useUpdateContact } from "@/lib/react-query/crm";
+import { RELATIONSHIP_STATUSES } from "@/types/crm";
+import type { CrmContact } from "@/types/crm";
+import { ActivityPanel } from "../activity-timeline";
+
+const selectClassName =
+  "flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+interface ContactSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  contact: CrmContact | null;
+  /** Prefill for new contacts created from a brand or firm page */
+  defaults?: Partial<Pick<ContactFormData, "brand_id" | "architecture_firm_id">>;
+}
+
+export function ContactSheet({ open, onOpenChange, contact, defaults }: ContactSheetProps) {
+  const isEditing = !!contact;
+  const { data: lookups } = useCrmLookups();
+  const createContact = useCreateContact();
+  const updateContact = useUpdateContact();
+  const isPending = createContact.isPending || updateContact.isPending;
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setValue,
+    watch,
+    formState: { errors },
+  } = useForm<ContactFormData>({
+    resolver: zodResolver(contactSchema),
+    mode: "onChange",
+  });
+
+  useEffect(() => {
+    if (open && contact) {
+      reset({
+        first_name: contact.first_name,
+        last_name: contact.last_name,
+        title: contact.title,
+        company: contact.company,
+        email: contact.email,
+        phone: contact.phone,
+        linkedin_url: contact.linkedin_url,
+        brand_id: contact.brand_id,
+        architecture_firm_id: contact.architecture_firm_id,
+        relationship_status: contact.relationship_status || "identified",
+        source: contact.source,
+        last_interaction_date: contact.last_interaction_date,
+        notes: contact.notes,
+      });
+    } else if (open) {
+      reset({
+        first_name: "",
+        last_name: "",
+        title: null,
+        company: null,
+        email: null,
+        phone: null,
+        linkedin_url: null,
+        brand_id: defaults?.brand_id ?? null,
+        architecture_firm_id: defaults?.architecture_firm_id ?? null,
+        relationship_status: "identified",
+        source: null,
+        last_interaction_date: null,
+        notes: null,
+      });
+    }
+  }, [open, contact, defaults, reset]);
+
+  const onSubmit = (data: ContactFormData) => {
+    if (isEditing) {
+      updateContact.mutate(
+        { id: contact.id, ...data },
+        { onSuccess: () => onOpenChange(false) }
+      );
+    } else {
+      createContact.mutate(data, {
+        onSuccess: () => onOpenChange(false),
+      });
+    }
+  };
+
+  const detailsForm = (
+    <form onSubmit={handleSubmit(onSubmit)} className="flex-1 flex flex-col overflow-hidden mt-4">
+      <div className="flex-1 overflow-y-auto px-4 space-y-4 pb-2">
+      {/* Name */}
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1.5">
+          <Label htmlFor="first_name">First Name *</Label>
+          <Input id="first_name" {...register("first_name")} />
+          {errors.first_name && <p className="text-xs text-destructive">{errors.first_name.message}</p>}
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="last_name">Last Name *</Label>
+          <Input id="last_name" {...register("last_name")} />
+          {errors.last_name && <p className="text-xs text-destructive">{errors.last_name.message}</p>}
+        </div>
+      </div>
+
+      {/* Title + Company */}
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1.5">
+          <Label htmlFor="title">Title</Label>
+          <Input id="title" {...register("title")} placeholder="e.g. Head of Store Design" />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="company">Company</Label>
+          <Input id="company" {...register("company")} placeholder="If not a tracked brand/firm" />
+        </div>
+      </div>
+
+      {/* Brand + Firm */}
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1.5">
+          <Label>Brand</Label>
+          <select
+            className={selectClassName}
+            value={watch("brand_id") || ""}
+            onChange={(e) => setValue("brand_id", e.target.value || null)}
+          >
+            <option value="">No brand</option>
+            {(lookups?.brands || []).map((b) => (
+              <option key={b.id} value={b.id}>{b.name}</option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1.5">
+          <Label>Architecture Firm</Label>
+          <select
+            className={selectClassName}
+            value={watch("architecture_firm_id") || ""}
+            onChange={(e) => setValue("architecture_firm_id", e.target.value || null)}
+          >
+            <option value="">No firm</option>
+            {(lookups?.firms || []).map((f) => (
+              <option key={f.id} value={f.id}>{f.name}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* Email + Phone */}
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1.5">
+          <Label htmlFor="email">Email</Label>
+          <Input id="email" type="email" {...register("email")} placeholder="name@company.com" />
+          {errors.email && <p className="text-xs text-destructive">{errors.email.message}</p>}
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="phone">Phone</Label>
+          <Input id="phone" {...register("phone")} placeholder="+90 ..." />
+        </div>
+      </div>
+
+      {/* LinkedIn */}
+      <div className="space-y-1.5">
+        <Label htmlFor="linkedin_url">LinkedIn</Label>
+        <Input id="linkedin_url" {...register("linkedin_url")} placeholder="https://linkedin.com/in/..." />
+      </div>
+
+      {/* Relationship + Source */}
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1.5">
+          <Label>Relationship</Label>
+          <select
+            className={selectClassName}
+            value={watch("relationship_status") || "identified"}
+            onChange={(e) =>
+              setValue("relationship_status", e.target.value as ContactFormData["relationship_status"])
+            }
+          >
+            {RELATIONSHIP_STATUSES.map((s) => (
+              <option key={s.value} value={s.value}>{s.label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="source">Source</Label>
+          <Input id="source" {...register("source")} placeholder="e.g. Trade show" />
+        </div>
+      </div>
+
+      {/* Notes */}
+      <div className="space-y-1.5">
+        <Label htmlFor="notes">Notes</Label>
+        <Textarea id="notes" {...register("notes")} placeholder="Internal notes..." rows={3} />
+      </div>
+
+      </div>
+      {/* Submit — pinned at bottom */}
+      <div className="flex justify-end gap-2 py-3 px-4 border-t border-base-200 shrink-0">
+        <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isPending}>
+          {isPending
+            ? isEditing
+              ? "Saving..."
+              : "Creating..."
+            : isEditing
+              ? "Save Changes"
+              : "Create Contact"}
+        </Button>
+      </div>
+    </form>
+  );
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-lg flex flex-col">
+        <SheetHeader>
+          <SheetTitle>{isEditing ? "Edit Contact" : "New Contact"}</SheetTitle>
+          <SheetDescription>
+            {isEditing
+              ? `Update ${contact.first_name} ${contact.last_name}`
+              : "Add a person at a brand or architecture firm"}
+          </SheetDescription>
+        </SheetHeader>
+
+        {isEditing ? (
+          <Tabs defaultValue="details" className="flex-1 flex flex-col min-h-0 mt-4">
+            <TabsList className="mx-4 shrink-0 grid grid-cols-2">
+              <TabsTrigger value="details">Details</TabsTrigger>
+              <TabsTrigger value="activity">Activity</TabsTrigger>
+            </TabsList>
+            <TabsContent value="details" className="flex-1 flex flex-col min-h-0 mt-0">
+              {detailsForm}
+            </TabsContent>
+            <TabsContent value="activity" className="flex-1 overflow-y-auto px-4 py-4 mt-0">
+              <ActivityPanel
+                filters={{ contact_id: contact.id }}
+                links={{
+                  contact_id: contact.id,
+                  brand_id: contact.brand_id,
+                  architecture_firm_id: contact.architecture_firm_id,
+                }}
+                canWrite
+              />
+            </TabsContent>
+          </Tabs>
+        ) : (
+          detailsForm
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,372 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import Link from "next/link";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { GlassCard, GradientIcon } from "@/components/ui/ui-helpers";
+import { usePageHeader } from "@/components/layout/app-header";
+import {
+  ContactIcon,
+  PlusIcon,
+  SearchIcon,
+  PencilIcon,
+  TrashIcon,
+  PhoneIcon,
+  MailIcon,
+  LinkedinIcon,
+} from "lucide-react";
+import { useBreakpoint } from "@/hooks/use-media-query";
+import { useContacts, useCrmLookups, useDeleteContact } from "@/lib/react-query/crm";
+import { RELATIONSHIP_STATUSES } from "@/types/crm";
+import type { CrmContactFilters, CrmContactWithRelations, CrmRelationshipStatus } from "@/types/crm";
+import { CrmOptionBadge } from "../crm-option-badge";
+import { ContactSheet } from "./contact-sheet";
+
+const selectClassName =
+  "flex h-9 rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+interface ContactsTableProps {
+  canWrite: boolean;
+  canDelete: boolean;
+}
+
+export function ContactsTable({ canWrite, canDelete }: ContactsTableProps) {
+  const [filters, setFilters] = useState<CrmContactFilters>({});
+  const { data: contacts, isLoading } = useContacts(filters);
+  const { data: lookups } = useCrmLookups();
+  const deleteContact = useDeleteContact();
+  const { isMobile } = useBreakpoint();
+
+  const [search, setSearch] = useState("");
+  const [sheetOpen, setSheetOpen] = useState(false);
+  const [editingContact, setEditingContact] = useState<CrmContactWithRelations | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<CrmContactWithRelations | null>(null);
+
+  const { setContent } = usePageHeader();
+  useEffect(() => {
+    setContent({
+      icon: <GradientIcon icon={<ContactIcon className="size-4" />} color="violet" size="sm" />,
+      title: "Contacts",
+      description: "People at brands and architecture firms",
+      actions: canWrite ? (
+        <Button size="sm" onClick={() => { setEditingContact(null); setSheetOpen(true); }}>
+          <PlusIcon className="size-4 mr-1" />
+          New Contact
+        </Button>
+      ) : undefined,
+    });
+    return () => setContent({});
+  }, [setContent, canWrite]);
+
+  const filtered = useMemo(() => {
+    if (!contacts) return [];
+    if (!search) return contacts;
+    const q = search.toLowerCase();
+    return contacts.filter(
+      (c) =>
+        `${c.first_name} ${c.last_name}`.toLowerCase().includes(q) ||
+        c.contact_code.toLowerCase().includes(q) ||
+        c.title?.toLowerCase().includes(q) ||
+        c.company?.toLowerCase().includes(q) ||
+        c.email?.toLowerCase().includes(q) ||
+        c.brand?.name.toLowerCase().includes(q) ||
+        c.architecture_firm?.name.toLowerCase().includes(q)
+    );
+  }, [contacts, search]);
+
+  const handleEdit = (contact: CrmContactWithRelations) => {
+    if (!canWrite) return;
+    setEditingContact(contact);
+    setSheetOpen(true);
+  };
+
+  const handleDelete = (id: string) => {
+    deleteContact.mutate(id, {
+      onSuccess: () => setDeleteTarget(null),
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-4 md:p-6 space-y-5">
+        <div className="flex gap-3">
+          <Skeleton className="h-9 flex-1" />
+        </div>
+        <GlassCard className="overflow-hidden">
+          <div className="divide-y divide-base-100">
+            {Array.from({ length: 5 }).map((_, i) => (
+              <div key={`skel-${i}`} className="flex gap-4 p-4">
+                <Skeleton className="h-4 w-20" />
+                <Skeleton className="h-4 w-40" />
+                <Skeleton className="h-4 w-24" />
+                <Skeleton className="h-4 w-32" />
+              </div>
+            ))}
+          </div>
+        </GlassCard>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 md:p-6 space-y-5">
+      {/* Search + Filters */}
+      <div className="flex flex-wrap gap-3">
+        <div className="relative flex-1 min-w-[200px]">
+          <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 size-4 text-muted-foreground" />
+          <Input
+            placeholder="Search contacts..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+        <select
+          className={selectClassName}
+          value={filters.brand_id || ""}
+          onChange={(e) => setFilters((f) => ({ ...f, brand_id: e.target.value || undefined }))}
+        >
+          <option value="">All brands</option>
+          {(lookups?.brands || []).map((b) => (
+            <option key={b.id} value={b.id}>{b.name}</option>
+          ))}
+        </select>
+        <select
+          className={selectClassName}
+          value={filters.architecture_firm_id || ""}
+          onChange={(e) =>
+            setFilters((f) => ({ ...f, architecture_firm_id: e.target.value || undefined }))
+          }
+        >
+          <option value="">All firms</option>
+          {(lookups?.firms || []).map((f) => (
+            <option key={f.id} value={f.id}>{f.name}</option>
+          ))}
+        </select>
+        <select
+          className={selectClassName}
+          value={filters.relationship_status || ""}
+          onChange={(e) =>
+            setFilters((f) => ({
+              ...f,
+              relationship_status: (e.target.value || undefined) as CrmRelationshipStatus | undefined,
+            }))
+          }
+        >
+          <option value="">All relationships</option>
+          {RELATIONSHIP_STATUSES.map((s) => (
+            <option key={s.value} value={s.value}>{s.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Mobile Cards */}
+      {isMobile ? (
+        <div className="space-y-3">
+          {filtered.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No contacts found.</p>
+          ) : (
+            filtered.map((contact) => (
+              <GlassCard key={contact.id} hover="subtle" className="p-4" onClick={() => handleEdit(contact)}>
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <span className="text-sm font-semibold truncate">
+                      {contact.first_name} {contact.last_name}
+                    </span>
+                    <p className="text-xs text-muted-foreground mt-0.5 truncate">
+                      {[contact.title, contactCompany(contact)].filter(Boolean).join(" · ") || "—"}
+                    </p>
+                  </div>
+                  <CrmOptionBadge
+                    options={RELATIONSHIP_STATUSES}
+                    value={contact.relationship_status}
+                    className="shrink-0"
+                  />
+                </div>
+                <div className="flex items-center gap-4 mt-3 text-xs text-muted-foreground">
+                  {contact.phone && (
+                    <span className="flex items-center gap-1">
+                      <PhoneIcon className="size-3" />
+                      {contact.phone}
+                    </span>
+                  )}
+                  {contact.email && (
+                    <span className="flex items-center gap-1 truncate">
+                      <MailIcon className="size-3" />
+                      {contact.email}
+                    </span>
+                  )}
+                </div>
+              </GlassCard>
+            ))
+          )}
+        </div>
+      ) : (
+        /* Desktop Table */
+        <GlassCard className="py-0 overflow-hidden">
+          <div className="overflow-x-auto">
+          <Table
+            style={{ tableLayout: "fixed", minWidth: 900 }}
+            className="[&_th]:border-r [&_th]:border-base-200 [&_th:last-child]:border-r-0 [&_td]:border-r [&_td]:border-base-200 [&_td:last-child]:border-r-0 [&_td]:align-middle"
+          >
+            <TableHeader>
+              <TableRow className="hover:bg-transparent bg-base-50/60 border-b-2 border-base-200">
+                <TableHead className="py-2.5 text-xs font-semibold text-muted-foreground" style={{ width: 80 }}>Code</TableHead>
+                <TableHead className="py-2.5 text-xs font-semibold text-muted-foreground" style={{ width: 160 }}>Name</TableHead>
+                <TableHead className="py-2.5 text-xs font-semibold text-muted-foreground" style={{ width: 150 }}>Title</TableHead>
+                <TableHead className="py-2.5 text-xs font-semibold text-muted-foreground" style={{ width: 160 }}>Brand / Firm</TableHead>
+                <TableHead className="py-2.5 text-xs font-semibold text-muted-foreground" style={{ width: 170 }}>Email / Phone</TableHead>
+                <TableHead className="py-2.5 text-xs font-semibold text-muted-foreground" style={{ width: 140 }}>Relationship</TableHead>
+                <TableHead className="py-2.5 text-xs font-semibold text-muted-foreground" style={{ width: 100 }}>Last Contact</TableHead>
+                <TableHead className="py-2.5 text-xs font-semibold text-muted-foreground" style={{ width: 90 }} />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filtered.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center py-8 text-muted-foreground">
+                    No contacts found.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                filtered.map((contact, idx) => (
+                  <TableRow
+                    key={contact.id}
+                    className={cn(
+                      "border-b border-base-200 transition-colors",
+                      canWrite && "cursor-pointer hover:bg-primary/[0.04]",
+                      idx % 2 === 1 ? "bg-base-50/50" : "bg-white"
+                    )}
+                    onClick={() => handleEdit(contact)}
+                  >
+                    <TableCell className="font-mono text-xs">{contact.contact_code}</TableCell>
+                    <TableCell className="font-medium text-sm truncate">
+                      {contact.first_name} {contact.last_name}
+                    </TableCell>
+                    <TableCell className="text-sm truncate">{contact.title || "—"}</TableCell>
+                    <TableCell className="text-sm truncate">
+                      <div
+                        role="presentation"
+                        onClick={(e) => e.stopPropagation()}
+                        onKeyDown={(e) => e.stopPropagation()}
+                      >
+                        {contact.brand ? (
+                          <Link href={`/crm/brands/${contact.brand.id}`} className="hover:underline">
+                            {contact.brand.name}
+                          </Link>
+                        ) : contact.architecture_firm ? (
+                          <Link href={`/crm/firms/${contact.architecture_firm.id}`} className="hover:underline">
+                            {contact.architecture_firm.name}
+                          </Link>
+                        ) : (
+                          contact.company || "—"
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      <div className="truncate">{contact.email || "—"}</div>
+                      {contact.phone && <div className="text-muted-foreground truncate">{contact.phone}</div>}
+                    </TableCell>
+                    <TableCell>
+                      <CrmOptionBadge options={RELATIONSHIP_STATUSES} value={contact.relationship_status} />
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">
+                      {contact.last_interaction_date || "—"}
+                    </TableCell>
+                    <TableCell>
+                      <div
+                        role="presentation"
+                        className="flex gap-1"
+                        onClick={(e) => e.stopPropagation()}
+                        onKeyDown={(e) => e.stopPropagation()}
+                      >
+                        {contact.linkedin_url && (
+                          <Button variant="ghost" size="sm" className="h-7 w-7 p-0" asChild>
+                            <a href={contact.linkedin_url} target="_blank" rel="noopener noreferrer">
+                              <LinkedinIcon className="size-3.5" />
+                            </a>
+                          </Button>
+                        )}
+                        {canWrite && (
+                          <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => handleEdit(contact)}>
+                            <PencilIcon className="size-3.5" />
+                          </Button>
+                        )}
+                        {canDelete && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 w-7 p-0 text-muted-foreground hover:text-destructive"
+                            onClick={() => setDeleteTarget(contact)}
+                          >
+                            <TrashIcon className="size-3.5" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+          </div>
+        </GlassCard>
+      )}
+
+      {/* Contact Sheet */}
+      <ContactSheet
+        open={sheetOpen}
+        onOpenChange={setSheetOpen}
+        contact={editingContact}
+      />
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={!!deleteTarget} onOpenChange={() => setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Contact</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete{" "}
+              <strong>{deleteTarget?.first_name} {deleteTarget?.last_name}</strong>?
+              This will soft-delete the contact record.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => deleteTarget && handleDelete(deleteTarget.id)}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+function contactCompany(contact: CrmContactWithRelations): string | null {
+  return contact.brand?.name || contact.architecture_firm?.name || contact.company;
+}
@@ -0,0 +1,199 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { formatCurrency } from "@/lib/utils";
+import { useContacts, useConvertOpportunity, useCrmLookups } from "@/lib/react-query/crm";
+import type { CrmOpportunityWithRelations } from "@/types/crm";
+
+const selectClassName =
+  "flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+interface ConvertOpportunityDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  opportunity: CrmOpportunityWithRelations;
+  onConverted?: () => void;
+}
+
+export function ConvertOpportunityDialog({
+  open,
+  onOpenChange,
+  opportunity,
+  onConverted,
+}: ConvertOpportunityDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Convert to Project</DialogTitle>
+          <DialogDescription>
+            Creates a tender project for {opportunity.opportunity_code} with a contract value of{" "}
+            {formatCurrency(opportunity.estimated_value, opportunity.currency || "USD")}.
+          </DialogDescription>
+        </DialogHeader>
+        {/* Mounted with the dialog content, so the form re-initialises on every open */}
+        <ConvertOpportunityForm
+          opportunity={opportunity}
+          onCancel={() => onOpenChange(false)}
+          onConverted={() => {
+            onOpenChange(false);
+            onConverted?.();
+          }}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ConvertOpportunityForm({
+  opportunity,
+  onCancel,
+  onConverted,
+}: {
+  opportunity: CrmOpportunityWithRelations;
+  onCancel: () => void;
+  onConverted: () => void;
+}) {
+  const router = useRouter();
+  const { data: lookups } = useCrmLookups();
+  const { data: contacts } = useContacts(
+    opportunity.brand_id
+      ? { brand_id: opportunity.brand_id }
+      : opportunity.architecture_firm_id
+        ? { architecture_firm_id: opportunity.architecture_firm_id }
+        : undefined
+  );
+  const convertOpportunity = useConvertOpportunity();
+  const clients = lookups?.clients;
+
+  // Prefill from the opportunity; prefer an existing client with the brand's name
+  const suggestedName = opportunity.brand?.name || opportunity.architecture_firm?.name || "";
+  const [match] = useState(() =>
+    (clients || []).find((c) => c.company_name.toLowerCase() === suggestedName.toLowerCase())
+  );
+  const [clientMode, setClientMode] = useState<"existing" | "new">(match ? "existing" : "new");
+  const [clientId, setClientId] = useState(match?.id || "");
+  const [companyName, setCompanyName] = useState(suggestedName);
+  const [contactId, setContactId] = useState("");
+  const [projectName, setProjectName] = useState(opportunity.title);
+
+  const canSubmit =
+    projectName.trim().length > 0 &&
+    (clientMode === "existing" ? !!clientId : companyName.trim().length > 0);
+
+  const handleConvert = () => {
+    convertOpportunity.mutate(
+      {
+        id: opportunity.id,
+        project_name: projectName,
+        ...(clientMode === "existing"
+          ? { client_id: clientId }
+          : { company_name: companyName, contact_id: contactId || null }),
+      },
+      {
+        onSuccess: (data) => {
+          onConverted();
+          router.push(`/projects/${data.projectId}`);
+        },
+      }
+    );
+  };
+
+  return (
+    <>
+      <div className="space-y-4">
+        {/* Project name */}
+        <div className="space-y-1.5">
+          <Label htmlFor="project_name">Project Name *</Label>
+          <Input
+            id="project_name"
+            value={projectName}
+            onChange={(e) => setProjectName(e.target.value)}
+          />
+        </div>
+
+        {/* Client */}
+        <div className="space-y-2">
+          <Label>Client</Label>
+          <div className="flex gap-4 text-sm">
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                checked={clientMode === "existing"}
+                onChange={() => setClientMode("existing")}
+              />
+              Existing client
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                checked={clientMode === "new"}
+                onChange={() => setClientMode("new")}
+              />
+              New client
+            </label>
+          </div>
+
+          {clientMode === "existing" ? (
+            <select
+              className={selectClassName}
+              value={clientId}
+              onChange={(e) => setClientId(e.target.value)}
+            >
+              <option value="">Select client...</option>
+              {(clients || []).map((c) => (
+                <option key={c.id} value={c.id}>{c.company_name}</option>
+              ))}
+            </select>
+          ) : (
+            <div className="space-y-3">
+              <Input
+                value={companyName}
+                onChange={(e) => setCompanyName(e.target.value)}
+                placeholder="Company name"
+              />
+              <div className="space-y-1.5">
+                <Label className="text-xs text-muted-foreground">Contact person</Label>
+                <select
+                  className={selectClassName}
+                  value={contactId}
+                  onChange={(e) => setContactId(e.target.value)}
+                >
+                  <option value="">No contact</option>
+                  {(contacts || []).map((c) => (
+                    <option key={c.id} value={c.id}>
+                      {c.first_name} {c.last_name}
+                      {c.title ? ` — ${c.title}` : ""}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                An existing client with the same name is reused instead of creating a duplicate.
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onCancel}>Cancel</Button>
+        <Button onClick={handleConvert} disabled={!canSubmit || convertOpportunity.isPending}>
+          {convertOpportunity.isPending ? "Converting..." : "Create Project"}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
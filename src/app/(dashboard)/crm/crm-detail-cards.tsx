@@ -0,0 +1,424 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { GlassCard, GradientIcon } from "@/components/ui/ui-helpers";
+import {
+  ContactIcon,
+  KanbanSquareIcon,
+  HistoryIcon,
+  LinkIcon,
+  PlusIcon,
+  TrashIcon,
+} from "lucide-react";
+import { formatCurrency } from "@/lib/utils";
+import { useLinkBrandToFirm, useUnlinkBrandFromFirm } from "@/lib/react-query/crm";
+import { OPPORTUNITY_STAGES, RELATIONSHIP_STATUSES } from "@/types/crm";
+import type {
+  CrmActivityWithRelations,
+  CrmBrandFirmLinkWithRelations,
+  CrmContact,
+  CrmOpportunityWithRelations,
+} from "@/types/crm";
+import { CrmOptionBadge } from "./crm-option-badge";
+import { ActivityComposer, ActivityTimeline } from "./activity-timeline";
+import { ContactSheet } from "./contacts/contact-sheet";
+import { OpportunitySheet } from "./opportunity-sheet";
+
+const selectClassName =
+  "flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+/** Which side of the brand ↔ firm relation a detail page is showing */
+type CrmParent = { kind: "brand"; id: string } | { kind: "firm"; id: string };
+
+function parentDefaults(parent: CrmParent) {
+  return parent.kind === "brand" ? { brand_id: parent.id } : { architecture_firm_id: parent.id };
+}
+
+export function DetailRow({ label, value }: { label: string; value: string }) {
+  return (
+    <div>
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className="text-sm font-medium">{value}</p>
+    </div>
+  );
+}
+
+// ============================================================================
+// Contacts
+// ============================================================================
+
+export function ContactsCard({
+  parent,
+  contacts,
+  canWrite,
+}: {
+  parent: CrmParent;
+  contacts: CrmContact[];
+  canWrite: boolean;
+}) {
+  const [sheetOpen, setSheetOpen] = useState(false);
+  const [editingContact, setEditingContact] = useState<CrmContact | null>(null);
+  const defaults = useMemo(() => parentDefaults(parent), [parent]);
+
+  return (
+    <GlassCard>
+      <CardHeader className="pb-2 pt-4 px-4">
+        <CardTitle className="text-sm font-semibold flex items-center gap-2">
+          <GradientIcon icon={<ContactIcon className="size-3.5" />} color="violet" size="xs" />
+          Contacts ({contacts.length})
+          {canWrite && (
+            <Button
+              size="sm"
+              variant="outline"
+              className="ml-auto h-7"
+              onClick={() => { setEditingContact(null); setSheetOpen(true); }}
+            >
+              <PlusIcon className="size-3.5 mr-1" />
+              Add Contact
+            </Button>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="px-4 pb-4">
+        {contacts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No contacts yet.</p>
+        ) : (
+          <div className="divide-y divide-base-100">
+            {contacts.map((contact) => (
+              <button
+                key={contact.id}
+                type="button"
+                disabled={!canWrite}
+                className="w-full flex items-center justify-between gap-3 py-2 text-left disabled:cursor-default"
+                onClick={() => { setEditingContact(contact); setSheetOpen(true); }}
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">
+                    {contact.first_name} {contact.last_name}
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {[contact.title, contact.email, contact.phone].filter(Boolean).join(" · ") || "—"}
+                  </p>
+                </div>
+                <CrmOptionBadge
+                  options={RELATIONSHIP_STATUSES}
+                  value={contact.relationship_status}
+                  className="shrink-0"
+                />
+              </button>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <ContactSheet
+        open={sheetOpen}
+        onOpenChange={setSheetOpen}
+        contact={editingContact}
+        defaults={defaults}
+      />
+    </GlassCard>
+  );
+}
+
+// ============================================================================
+// Opportunities
+// ============================================================================
+
+export function OpportunitiesCard({
+  parent,
+  opportunities,
+  canWrite,
+}: {
+  parent: CrmParent;
+  opportunities: CrmOpportunityWithRelations[];
+  canWrite: boolean;
+}) {
+  const [sheetOpen, setSheetOpen] = useState(false);
+  const [editingOpportunity, setEditingOpportunity] = useState<CrmOpportunityWithRelations | null>(null);
+  const defaults = useMemo(() => parentDefaults(parent), [parent]);
+
+  return (
+    <GlassCard>
+      <CardHeader className="pb-2 pt-4 px-4">
+        <CardTitle className="text-sm font-semibold flex items-center gap-2">
+          <GradientIcon icon={<KanbanSquareIcon className="size-3.5" />} color="amber" size="xs" />
+          Opportunities ({opportunities.length})
+          {canWrite && (
+            <Button
+              size="sm"
+              variant="outline"
+              className="ml-auto h-7"
+              onClick={() => { setEditingOpportunity(null); setSheetOpen(true); }}
+            >
+              <PlusIcon className="size-3.5 mr-1" />
+              Add Opportunity
+            </Button>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="px-4 pb-4">
+        {opportunities.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No opportunities yet.</p>
+        ) : (
+          <div className="divide-y divide-base-100">
+            {opportunities.map((opp) => (
+              <button
+                key={opp.id}
+                type="button"
+                className="w-full flex items-center justify-between gap-3 py-2 text-left"
+                onClick={() => { setEditingOpportunity(opp); setSheetOpen(true); }}
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">
+                    <span className="font-mono text-xs text-muted-foreground mr-1.5">
+                      {opp.opportunity_code}
+                    </span>
+                    {opp.title}
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {formatCurrency(opp.estimated_value, opp.currency || "USD")}
+                    {opp.probability !== null && ` · ${opp.probability}%`}
+                    {opp.expected_close_date && ` · closes ${opp.expected_close_date}`}
+                  </p>
+                </div>
+                <CrmOptionBadge options={OPPORTUNITY_STAGES} value={opp.stage} className="shrink-0" />
+              </button>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <OpportunitySheet
+        open={sheetOpen}
+        onOpenChange={setSheetOpen}
+        opportunity={editingOpportunity}
+        defaults={defaults}
+        canWrite={canWrite}
+      />
+    </GlassCard>
+  );
+}
+
+// ============================================================================
+// Brand ↔ Firm Links
+// ============================================================================
+
+export function LinksCard({
+  parent,
+  links,
+  options,
+  canWrite,
+  canDelete,
+}: {
+  parent: CrmParent;
+  links: CrmBrandFirmLinkWithRelations[];
+  /** Brands (on a firm page) or firms (on a brand page) available to link */
+  options: { id: string; name: string }[];
+  canWrite: boolean;
+  canDelete: boolean;
+}) {
+  const linkBrandToFirm = useLinkBrandToFirm();
+  const unlinkBrandFromFirm = useUnlinkBrandFromFirm();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [targetId, setTargetId] = useState("");
+  const [relationshipType, setRelationshipType] = useState("");
+
+  const isBrand = parent.kind === "brand";
+  const otherLabel = isBrand ? "Firm" : "Brand";
+  const linkedIds = new Set(links.map((l) => (isBrand ? l.architecture_firm_id : l.brand_id)));
+  const available = options.filter((o) => !linkedIds.has(o.id));
+
+  const handleLink = () => {
+    if (!targetId) return;
+    linkBrandToFirm.mutate(
+      {
+        brand_id: isBrand ? parent.id : targetId,
+        architecture_firm_id: isBrand ? targetId : parent.id,
+        relationship_type: relationshipType,
+      },
+      {
+        onSuccess: () => {
+          setDialogOpen(false);
+          setTargetId("");
+          setRelationshipType("");
+        },
+      }
+    );
+  };
+
+  return (
+    <GlassCard>
+      <CardHeader className="pb-2 pt-4 px-4">
+        <CardTitle className="text-sm font-semibold flex items-center gap-2">
+          <GradientIcon icon={<LinkIcon className="size-3.5" />} color="teal" size="xs" />
+          {isBrand ? "Architecture Firms" : "Brands"}
+          {canWrite && (
+            <Button
+              size="sm"
+              variant="outline"
+              className="ml-auto h-7"
+              onClick={() => setDialogOpen(true)}
+            >
+              <PlusIcon className="size-3.5 mr-1" />
+              Link
+            </Button>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="px-4 pb-4">
+        {links.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No linked {isBrand ? "firms" : "brands"}.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {links.map((link) => {
+              const other = isBrand ? link.architecture_firm : link.brand;
+              return (
+                <div key={link.id} className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    {other ? (
+                      <Link
+                        href={isBrand ? `/crm/firms/${other.id}` : `/crm/brands/${other.id}`}
+                        className="text-sm font-medium hover:underline truncate block"
+                      >
+                        {other.name}
+                      </Link>
+                    ) : (
+                      <span className="text-sm text-muted-foreground">—</span>
+                    )}
+                    {link.relationship_type && (
+                      <p className="text-xs text-muted-foreground truncate">{link.relationship_type}</p>
+                    )}
+                  </div>
+                  {canDelete && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0 text-muted-foreground hover:text-destructive shrink-0"
+                      onClick={() => unlinkBrandFromFirm.mutate(link.id)}
+                      disabled={unlinkBrandFromFirm.isPending}
+                    >
+                      <TrashIcon className="size-3.5" />
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Link {otherLabel}</DialogTitle>
+            <DialogDescription>
+              {isBrand
+                ? "Record an architecture firm that designs stores for this brand."
+                : "Record a brand this firm designs stores for."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-1.5">
+              <Label>{otherLabel} *</Label>
+              <select
+                className={selectClassName}
+                value={targetId}
+                onChange={(e) => setTargetId(e.target.value)}
+              >
+                <option value="">Select {otherLabel.toLowerCase()}...</option>
+                {available.map((o) => (
+                  <option key={o.id} value={o.id}>{o.name}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="relationship_type">Relationship</Label>
+              <Input
+                id="relationship_type"
+                value={relationshipType}
+                onChange={(e) => setRelationshipType(e.target.value)}
+                placeholder="e.g. Store concept architect"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleLink} disabled={!targetId || linkBrandToFirm.isPending}>
+              {linkBrandToFirm.isPending ? "Linking..." : "Link"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </GlassCard>
+  );
+}
+
+// ============================================================================
+// Activities
+// ============================================================================
+
+export function ActivitiesCard({
+  parent,
+  activities,
+  contacts,
+  opportunities,
+  canWrite,
+  canDelete,
+}: {
+  parent: CrmParent;
+  activities: CrmActivityWithRelations[];
+  contacts: CrmContact[];
+  opportunities: CrmOpportunityWithRelations[];
+  canWrite: boolean;
+  canDelete: boolean;
+}) {
+  const [composing, setComposing] = useState(false);
+  const links = useMemo(() => parentDefaults(parent), [parent]);
+
+  return (
+    <GlassCard>
+      <CardHeader className="pb-2 pt-4 px-4">
+        <CardTitle className="text-sm font-semibold flex items-center gap-2">
+          <GradientIcon icon={<HistoryIcon className="size-3.5" />} color="slate" size="xs" />
+          Activity
+          {canWrite && !composing && (
+            <Button size="sm" variant="ghost" className="ml-auto h-7" onClick={() => setComposing(true)}>
+              <PlusIcon className="size-3.5 mr-1" />
+              Log
+            </Button>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="px-4 pb-4 space-y-4">
+        {composing && (
+          <div className="rounded-lg border border-base-200 bg-base-50/50 p-3">
+            <ActivityComposer
+              links={links}
+              contacts={contacts}
+              opportunities={opportunities}
+              onLogged={() => setComposing(false)}
+              onCancel={() => setComposing(false)}
+            />
+          </div>
+        )}
+        <ActivityTimeline activities={activities} canWrite={canWrite} canDelete={canDelete} />
+      </CardContent>
+    </GlassCard>
+  );
+}
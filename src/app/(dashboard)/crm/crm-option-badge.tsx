@@ -0,0 +1,27 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+
+interface CrmOptionBadgeProps {
+  options: { value: string; label: string; color: string }[];
+  value: string | null;
+  className?: string;
+}
+
+/** Outline badge with a colored dot for any CRM enum (stage, status, priority...) */
+export function CrmOptionBadge({ options, value, className }: CrmOptionBadgeProps) {
+  const option = options.find((o) => o.value === value);
+  if (!option) return <span className="text-muted-foreground text-xs">—</span>;
+
+  return (
+    <Badge variant="outline" className={cn("text-[11px] px-2 py-0.5 gap-1.5 font-medium", className)}>
+      <span className="size-1.5 rounded-full shrink-0" style={{ backgroundColor: option.color }} />
+      {option.label}
+    </Badge>
+  );
+}
+
+export function getOptionLabel(options: { value: string; label: string }[], value: string | null): string {
+  return options.find((o) => o.value === value)?.label || value || "—";
+}
@@ -0,0 +1,60 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import {
+  KanbanSquareIcon,
+  GemIcon,
+  PencilRulerIcon,
+  ContactIcon,
+  HistoryIcon,
+  LineChartIcon,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+
+const tabs = [
+  { label: "Pipeline", href: "/crm", icon: KanbanSquareIcon, exact: true },
+  { label: "Brands", href: "/crm/brands", icon: GemIcon },
+  { label: "Firms", href: "/crm/firms", icon: PencilRulerIcon },
+  { label: "Contacts", href: "/crm/contacts", icon: ContactIcon },
+  { label: "Activity", href: "/crm/activities", icon: HistoryIcon },
+  { label: "Forecast", href: "/crm/forecast", icon: LineChartIcon },
+];
+
+export function CrmTabBar() {
+  const pathname = usePathname();
+
+  // Don't render on detail pages (brands/[id], firms/[id])
+  const isDetailPage = /\/crm\/(brands|firms)\/[^/]+/.test(pathname);
+  if (isDetailPage) return null;
+
+  return (
+    <div className="border-b border-base-200 bg-card/80 backdrop-blur-sm">
+      <div className="flex gap-1 px-4 overflow-x-auto">
+        {tabs.map((tab) => {
+          const isActive = tab.exact
+            ? pathname === tab.href
+            : pathname.startsWith(tab.href);
+
+          const Icon = tab.icon;
+
+          return (
+            <Link
+              key={tab.href}
+              href={tab.href}
+              className={cn(
+                "flex items-center gap-1.5 px-3 py-2.5 text-sm font-medium whitespace-nowrap transition-colors border-b-2 -mb-px",
+                isActive
+                  ? "border-primary text-primary"
+                  : "border-transparent text-muted-foreground hover:text-foreground hover:border-base-300"
+              )}
+            >
+              <Icon className="size-4" />
+              {tab.label}
+            </Link>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { GlassCard, GradientIcon } from "@/components/ui/ui-helpers";
+import { usePageHeader } from "@/components/layout/app-header";
+import { ArrowLeftIcon, PencilRulerIcon, PencilIcon, TrashIcon } from "lucide-react";
+import { useCrmLookups, useDeleteFirm, useFirm } from "@/lib/react-query/crm";
+import { CONNECTION_STRENGTHS, CRM_PRIORITIES, VENDOR_LIST_STATUSES } from "@/types/crm";
+import { CrmOptionBadge } from "../../crm-option-badge";
+import {
+  ActivitiesCard,
+  ContactsCard,
+  DetailRow,
+  LinksCard,
+  OpportunitiesCard,
+} from "../../crm-detail-cards";
+import { FirmSheet } from "../firm-sheet";
+
+interface FirmDetailProps {
+  id: string;
+  canWrite: boolean;
+  canDelete: boolean;
+}
+
+export function FirmDetail({ id, canWrite, canDelete }: FirmDetailProps) {
+  const router = useRouter();
+  const { data: firm, isLoading } = useFirm(id);
+  const { data: lookups } = useCrmLookups();
+  const deleteFirm = useDeleteFirm();
+
+  const [sheetOpen, setSheetOpen] = useState(false);
+  const [deleteOpen, setDeleteOpen] = useState(false);
+  const parent = useMemo(() => ({ kind: "firm" as const, id }), [id]);
+
+  const { setContent } = usePageHeader();
+  useEffect(() => {
+    if (firm) {
+      setContent({
+        icon: (
+          <Link href="/crm/firms" className="hover:opacity-70">
+            <ArrowLeftIcon className="size-5" />
+          </Link>
+        ),
+        title: firm.name,
+        description: [firm.firm_code, firm.location].filter(Boolean).join(" · "),
+        actions: (
+          <div className="flex gap-2">
+            {canWrite && (
+              <Button size="sm" variant="outline" onClick={() => setSheetOpen(true)}>
+                <PencilIcon className="size-4 mr-1" />
+                Edit
+              </Button>
+            )}
+            {canDelete && (
+              <Button
+                size="sm"
+                variant="outline"
+                className="text-rose-600 hover:text-rose-700"
+                onClick={() => setDeleteOpen(true)}
+              >
+                <TrashIcon className="size-4 mr-1" />
+                Delete
+              </Button>
+            )}
+          </div>
+        ),
+      });
+    }
+    return () => setContent({});
+  }, [setContent, firm, canWrite, canDelete]);
+
+  const handleDelete = () => {
+    deleteFirm.mutate(id, {
+      onSuccess: () => router.push("/crm/firms"),
+    });
+  };
+
+  if (isLoading || !firm) {
+    return (
+      <div className="p-4 md:p-6 space-y-5">
+        <div className="grid gap-5 lg:grid-cols-3">
+          <div className="lg:col-span-2 space-y-5">
+            <GlassCard><CardContent className="p-6"><Skeleton className="h-40" /></CardContent></GlassCard>
+            <GlassCard><CardContent className="p-6"><Skeleton className="h-32" /></CardContent></GlassCard>
+          </div>
+          <GlassCard><CardContent className="p-6"><Skeleton className="h-60" /></CardContent></GlassCard>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 md:p-6 space-y-5">
+      <div className="grid gap-5 lg:grid-cols-3">
+        {/* LEFT COLUMN */}
+        <div className="lg:col-span-2 space-y-5">
+          {/* Details Card */}
+          <GlassCard>
+            <CardHeader className="pb-2 pt-4 px-4">
+              <CardTitle className="text-sm font-semibold flex items-center gap-2">
+                <GradientIcon icon={<PencilRulerIcon className="size-3.5" />} color="teal" size="xs" />
+                Firm Details
+                <CrmOptionBadge options={CRM_PRIORITIES} value={firm.priority} className="ml-auto" />
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="px-4 pb-4">
+              <div className="grid grid-cols-2 gap-x-6 gap-y-3">
+                <DetailRow label="Location" value={firm.location || "—"} />
+                <DetailRow label="Specialty" value={firm.specialty || "—"} />
+                <div>
+                  <p className="text-xs text-muted-foreground">Vendor List</p>
+                  <CrmOptionBadge options={VENDOR_LIST_STATUSES} value={firm.vendor_list_status} />
+                </div>
+                <DetailRow label="Applied On" value={firm.vendor_application_date || "—"} />
+                <div>
+                  <p className="text-xs text-muted-foreground">Connection</p>
+                  <CrmOptionBadge options={CONNECTION_STRENGTHS} value={firm.connection_strength} />
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground">Website</p>
+                  {firm.website ? (
+                    <a
+                      href={firm.website}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-sm font-medium text-primary hover:underline break-all"
+                    >
+                      {firm.website}
+                    </a>
+                  ) : (
+                    <p className="text-sm font-medium">—</p>
+                  )}
+                </div>
+                {firm.key_clients && (
+                  <div className="col-span-2">
+                    <DetailRow label="Key Clients" value={firm.key_clients} />
+                  </div>
+                )}
+                {firm.connection_notes && (
+                  <div className="col-span-2">
+                    <DetailRow label="Connection Notes" value={firm.connection_notes} />
+                  </div>
+                )}
+                {firm.notes && (
+                  <div className="col-span-2">
+                    <DetailRow label="Notes" value={firm.notes} />
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </GlassCard>
+
+          <OpportunitiesCard parent={parent} opportunities={firm.opportunities} canWrite={canWrite} />
+          <ContactsCard parent={parent} contacts={firm.contacts} canWrite={canWrite} />
+        </div>
+
+        {/* RIGHT COLUMN */}
+        <div className="space-y-5">
+          <LinksCard
+            parent={parent}
+            links={firm.brand_links}
+            options={lookups?.brands || []}
+            canWrite={canWrite}
+            canDelete={canDelete}
+          />
+          <ActivitiesCard
+            parent={parent}
+            activities={firm.activities}
+            contacts={firm.contacts}
+            opportunities={firm.opportunities}
+            canWrite={canWrite}
+            canDelete={canDelete}
+          />
+        </div>
+      </div>
+
+      <FirmSheet open={sheetOpen} onOpenChange={setSheetOpen} firm={firm} />
+
+      <AlertDialog open={deleteOpen} onOpenChange={setDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Firm</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete <strong>{firm.name}</strong>?
+              This will soft-delete the firm record.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={handleDelete}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
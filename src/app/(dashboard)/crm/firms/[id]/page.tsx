@@ -0,0 +1,26 @@
+import { redirect } from "next/navigation";
+import { createClient, getUserProfileFromJWT } from "@/lib/supabase/server";
+import { FirmDetail } from "./firm-detail";
+
+interface FirmDetailPageProps {
+  params: Promise<{ id: string }>;
+}
+
+export default async function FirmDetailPage({ params }: FirmDetailPageProps) {
+  const { id } = await params;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) redirect("/login");
+
+  const profile = await getUserProfileFromJWT(user, supabase);
+  if (!["admin", "pm", "management"].includes(profile.role)) redirect("/dashboard");
+
+  return (
+    <FirmDetail
+      id={id}
+      canWrite={["admin", "pm"].includes(profile.role)}
+      canDelete={profile.role === "admin"}
+    />
+  );
+}
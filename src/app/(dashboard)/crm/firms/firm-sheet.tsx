@@ -0,0 +1,232 @@
+"use client";
+
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetDescription,
+} from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { firmSchema } from "@/lib/validations/crm";
+import type { FirmFormData } from "@/lib/validations/crm";
+import { useCreateFirm, useUpdateFirm } from "@/lib/react-query/crm";
+import { CONNECTION_STRENGTHS, CRM_PRIORITIES, VENDOR_LIST_STATUSES } from "@/types/crm";
+import type { CrmArchitectureFirm } from "@/types/crm";
+
+const selectClassName =
+  "flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+interface FirmSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  firm: CrmArchitectureFirm | null;
+}
+
+export function FirmSheet({ open, onOpenChange, firm }: FirmSheetProps) {
+  const isEditing = !!firm;
+  const createFirm = useCreateFirm();
+  const updateFirm = useUpdateFirm();
+  const isPending = createFirm.isPending || updateFirm.isPending;
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setValue,
+    watch,
+    formState: { errors },
+  } = useForm<FirmFormData>({
+    resolver: zodResolver(firmSchema),
+    mode: "onChange",
+  });
+
+  useEffect(() => {
+    if (open && firm) {
+      reset({
+        name: firm.name,
+        location: firm.location,
+        specialty: firm.specialty,
+        key_clients: firm.key_clients,
+        vendor_list_status: firm.vendor_list_status || "not_applied",
+        vendor_application_date: firm.vendor_application_date,
+        website: firm.website,
+        connection_strength: firm.connection_strength || "none",
+        connection_notes: firm.connection_notes,
+        priority: firm.priority || "medium",
+        notes: firm.notes,
+      });
+    } else if (open) {
+      reset({
+        name: "",
+        location: null,
+        specialty: null,
+        key_clients: null,
+        vendor_list_status: "not_applied",
+        vendor_application_date: null,
+        website: null,
+        connection_strength: "none",
+        connection_notes: null,
+        priority: "medium",
+        notes: null,
+      });
+    }
+  }, [open, firm, reset]);
+
+  const onSubmit = (data: FirmFormData) => {
+    if (isEditing) {
+      updateFirm.mutate(
+        { id: firm.id, ...data },
+        { onSuccess: () => onOpenChange(false) }
+      );
+    } else {
+      createFirm.mutate(data, {
+        onSuccess: () => onOpenChange(false),
+      });
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-lg flex flex-col">
+        <SheetHeader>
+          <SheetTitle>{isEditing ? "Edit Firm" : "New Architecture Firm"}</SheetTitle>
+          <SheetDescription>
+            {isEditing
+              ? `Update ${firm.name} details`
+              : "Add an architecture firm that specifies retail fit-outs"}
+          </SheetDescription>
+        </SheetHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="flex-1 flex flex-col overflow-hidden mt-4">
+          <div className="flex-1 overflow-y-auto px-4 space-y-4 pb-2">
+          {/* Name */}
+          <div className="space-y-1.5">
+            <Label htmlFor="name">Firm Name *</Label>
+            <Input id="name" {...register("name")} placeholder="Studio name" />
+            {errors.name && <p className="text-xs text-destructive">{errors.name.message}</p>}
+          </div>
+
+          {/* Location + Specialty */}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="location">Location</Label>
+              <Input id="location" {...register("location")} placeholder="City, country" />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="specialty">Specialty</Label>
+              <Input id="specialty" {...register("specialty")} placeholder="e.g. Luxury retail" />
+            </div>
+          </div>
+
+          {/* Key Clients */}
+          <div className="space-y-1.5">
+            <Label htmlFor="key_clients">Key Clients</Label>
+            <Input id="key_clients" {...register("key_clients")} placeholder="Brands they design stores for" />
+          </div>
+
+          {/* Vendor List */}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label>Vendor List Status</Label>
+              <select
+                className={selectClassName}
+                value={watch("vendor_list_status") || "not_applied"}
+                onChange={(e) =>
+                  setValue("vendor_list_status", e.target.value as FirmFormData["vendor_list_status"])
+                }
+              >
+                {VENDOR_LIST_STATUSES.map((s) => (
+                  <option key={s.value} value={s.value}>{s.label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="vendor_application_date">Applied On</Label>
+              <Input
+                id="vendor_application_date"
+                type="date"
+                {...register("vendor_application_date", { setValueAs: (v) => v || null })}
+              />
+            </div>
+          </div>
+
+          {/* Connection + Priority */}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label>Connection</Label>
+              <select
+                className={selectClassName}
+                value={watch("connection_strength") || "none"}
+                onChange={(e) =>
+                  setValue("connection_strength", e.target.value as FirmFormData["connection_strength"])
+                }
+              >
+                {CONNECTION_STRENGTHS.map((c) => (
+                  <option key={c.value} value={c.value}>{c.label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1.5">
+              <Label>Priority</Label>
+              <select
+                className={selectClassName}
+                value={watch("priority") || "medium"}
+                onChange={(e) => setValue("priority", e.target.value as FirmFormData["priority"])}
+              >
+                {CRM_PRIORITIES.map((p) => (
+                  <option key={p.value} value={p.value}>{p.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label htmlFor="connection_notes">Connection Notes</Label>
+            <Textarea
+              id="connection_notes"
+              {...register("connection_notes")}
+              placeholder="Who we know there and how"
+              rows={2}
+            />
+          </div>
+
+          {/* Website */}
+          <div className="space-y-1.5">
+            <Label htmlFor="website">Website</Label>
+            <Input id="website" {...register("website")} placeholder="https://..." />
+          </div>
+
+          {/* Notes */}
+          <div className="space-y-1.5">
+            <Label htmlFor="notes">Notes</Label>
+            <Textarea id="notes" {...register("notes")} placeholder="Internal notes..." rows={3} />
+          </div>
+
+          </div>
+          {/* Submit — pinned at bottom */}
+          <div className="flex justify-end gap-2 py-3 px-4 border-t border-base-200 shrink-0">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isPending}>
+              {isPending
+                ? isEditing
+                  ? "Saving..."
+                  : "Creating..."
+                : isEditing
+                  ? "Save Changes"
+                  : "Create Firm"}
+            </Button>
+          </div>
+        </form>
+      </SheetContent>
+    </Sheet>
+  );
+}
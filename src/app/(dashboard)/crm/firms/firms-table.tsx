@@ -0,0 +1,310 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import { useRouter } from "next/navigation";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { GlassCard, GradientIcon } from "@/components/ui/ui-helpers";
+import { usePageHeader } from "@/components/layout/app-header";
+import {
+  PencilRulerIcon,
+  PlusIcon,
+  SearchIcon,
+  PencilIcon,
+  TrashIcon,
+} from "lucide-react";
+import { useBreakpoint } from "@/hooks/use-media-query";
+import { useFirms, useDeleteFirm } from "@/lib/react-query/crm";
+import { CONNECTION_STRENGTHS, CRM_PRIORITIES, VENDOR_LIST_STATUSES } from "@/types/crm";
+import type { CrmFirmWithStats } from "@/types/crm";
+import { CrmOptionBadge, getOptionLabel } from "../crm-option-badge";
+import { FirmSheet } from "./firm-sheet";
+
+const selectClassName =
+  "flex h-9 rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+interface FirmsTableProps {
+  canWrite: boolean;
+  canDelete: boolean;
+}
+
+export function FirmsTable({ canWrite, canDelete }: FirmsTableProps) {
+  const router = useRouter();
+  const { data: firms, isLoading } = useFirms();
+  const deleteFirm = useDeleteFirm();
+  const { isMobile } = useBreakpoint();
+
+  const [search, setSearch] = useState("");
+  const [statusFilter, setStatusFilter] = useState("");
+  const [sheetOpen, setSheetOpen] = useState(false);
+  const [editingFirm, setEditingFirm] = useState<CrmFirmWithStats | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<CrmFirmWithStats | null>(null);
+
+  const { setContent } = usePageHeader();
+  useEffect(() => {
+    setContent({
+      icon: <GradientIcon icon={<PencilRulerIcon className="size-4" />} color="violet" size="sm" />,
+      title: "Architecture Firms",
+      description: "Firms that specify retail fit-outs",
+      actions: canWrite ? (
+        <Button size="sm" onClick={() => { setEditingFirm(null); setSheetOpen(true); }}>
+          <PlusIcon className="size-4 mr-1" />
+          New Firm
+        </Button>
+      ) : undefined,
+    });
+    return () => setContent({});
+  }, [setContent, canWrite]);
+
+  const filtered = useMemo(() => {
+    if (!firms) return [];
+    const q = search.toLowerCase();
+    return firms.filter((f) => {
+      if (statusFilter && f.vendor_list_status !== statusFilter) return false;
+      if (!q) return true;
+      return (
+        f.name.toLowerCase().includes(q) ||
+        f.firm_code.toLowerCase().includes(q) ||
+        f.location?.toLowerCase().includes(q) ||
+        f.key_clients?.toLowerCase().includes(q)
+      );
+    });
+  }, [firms, search, statusFilter]);
+
+  const handleEdit = (firm: CrmFirmWithStats) => {
+    setEditingFirm(firm);
+    setSheetOpen(true);
+  };
+
+  const handleDelete = (id: string) => {
+    deleteFirm.mutate(id, {
+      onSuccess: () => setDeleteTarget(null),
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-4 md:p-6 space-y-5">
+        <div className="flex gap-3">
+          <Skeleton className="h-9 flex-1" />
+        </div>
+        <GlassCard className="overflow-hidden">
+          <div className="divide-y divide-base-100">
+            {Array.from({ length: 5 }).map((_, i) => (
+              <div key={`skel-${i}`} className="flex gap-4 p-4">
+                <Skeleton className="h-4 w-20" />
+                <Skeleton className="h-4 w-40" />
+                <Skeleton className="h-4 w-24" />
+                <Skeleton className="h-4 w-32" />
+              </div>
+            ))}
+          </div>
+        </GlassCard>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 md:p-6 space-y-5">
+      {/* Search + Vendor Status */}
+      <div className="flex gap-3">
+        <div className="relative flex-1">
+          <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 size-4 text-muted-foreground" />
+          <Input
+            placeholder="Search firms..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+        <select
+          className={selectClassName}
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value)}
+        >
+          <option value="">All vendor statuses</option>
+          {VENDOR_LIST_STATUSES.map((s) => (
+            <option key={s.value} value={s.value}>{s.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Mobile Cards */}
+      {isMobile ? (
+        <div className="space-y-3">
+          {filtered.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No firms found.</p>
+          ) : (
+            filtered.map((firm) => (
+              <GlassCard
+                key={firm.id}
+                hover="subtle"
+                className="p-4 cursor-pointer"
+                onClick={() => router.push(`/crm/firms/${firm.id}`)}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-semibold truncate">{firm.name}</span>
+                      <Badge variant="outline" className="text-xs shrink-0">
+                        {firm.firm_code}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-0.5">
+                      {firm.location || "—"}
+                    </p>
+                  </div>
+                  <CrmOptionBadge options={VENDOR_LIST_STATUSES} value={firm.vendor_list_status} className="shrink-0" />
+                </div>
+                <div className="flex items-center gap-4 mt-3 text-xs text-muted-foreground">
+                  <span>{getOptionLabel(CONNECTION_STRENGTHS, firm.connection_strength)} connection</span>
+                  <span>{firm.contact_count} contacts</span>
+                  <span>{firm.opportunity_count} opportunities</span>
+                </div>
+              </GlassCard>
+            ))
+          )}
+        </div>
+      ) : (
+        /* Desktop Table */
+        <GlassCard className="py-0 overflow-hidden">
+          <div className="overflow-x-auto">
+          <Table
+            style={{ tableLayout: "fixed", minWidth: 800 }}
+            className="[&_th]:border-r [&_th]:border-base-200 [&_th:last-child]:border-r-0 [&_td]:border-r [&_td]:border-base-200 [&_td:last-child]:border-r-0 [&_td]:align-middle"
+          >
+            <TableHeader>
+              <TableRow className="hover:bg-transparent bg-base-50/60 border-b-2 border-base-200">
+                <TableHead className="py-2.5 text-xs font-semibold text-muted-foreground" style={{ width: 80 }}>Code</TableHead>
+                <TableHead className="py-2.5 text-xs font-semibold text-muted-foreground" style={{ width: 180 }}>Name</TableHead>
+                <TableHead className="py-2.5 text-xs font-semibold text-muted-foreground" style={{ width: 130 }}>Location</TableHead>
+                <TableHead className="py-2.5 text-xs font-semibold text-muted-foreground" style={{ width: 120 }}>Vendor List</TableHead>
+                <TableHead className="py-2.5 text-xs font-semibold text-muted-foreground" style={{ width: 100 }}>Connection</TableHead>
+                <TableHead className="py-2.5 text-xs font-semibold text-muted-foreground" style={{ width: 100 }}>Priority</TableHead>
+                <TableHead className="py-2.5 text-xs font-semibold text-muted-foreground text-center" style={{ width: 80 }}>Contacts</TableHead>
+                <TableHead className="py-2.5 text-xs font-semibold text-muted-foreground text-center" style={{ width: 80 }}>Opps</TableHead>
+                <TableHead className="py-2.5 text-xs font-semibold text-muted-foreground" style={{ width: 70 }} />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filtered.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={9} className="text-center py-8 text-muted-foreground">
+                    No firms found.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                filtered.map((firm, idx) => (
+                  <TableRow
+                    key={firm.id}
+                    className={cn(
+                      "cursor-pointer hover:bg-primary/[0.04] border-b border-base-200 transition-colors",
+                      idx % 2 === 1 ? "bg-base-50/50" : "bg-white"
+                    )}
+                    onClick={() => router.push(`/crm/firms/${firm.id}`)}
+                  >
+                    <TableCell className="font-mono text-xs">{firm.firm_code}</TableCell>
+                    <TableCell className="font-medium text-sm truncate">{firm.name}</TableCell>
+                    <TableCell className="text-sm truncate">{firm.location || "—"}</TableCell>
+                    <TableCell>
+                      <CrmOptionBadge options={VENDOR_LIST_STATUSES} value={firm.vendor_list_status} />
+                    </TableCell>
+                    <TableCell>
+                      <CrmOptionBadge options={CONNECTION_STRENGTHS} value={firm.connection_strength} />
+                    </TableCell>
+                    <TableCell>
+                      <CrmOptionBadge options={CRM_PRIORITIES} value={firm.priority} />
+                    </TableCell>
+                    <TableCell className="text-center text-sm">{firm.contact_count}</TableCell>
+                    <TableCell className="text-center">
+                      {firm.opportunity_count > 0 ? (
+                        <Badge variant="secondary">{firm.opportunity_count}</Badge>
+                      ) : (
+                        <span className="text-muted-foreground text-xs">0</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div
+                        role="presentation"
+                        className="flex gap-1"
+                        onClick={(e) => e.stopPropagation()}
+                        onKeyDown={(e) => e.stopPropagation()}
+                      >
+                        {canWrite && (
+                          <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => handleEdit(firm)}>
+                            <PencilIcon className="size-3.5" />
+                          </Button>
+                        )}
+                        {canDelete && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 w-7 p-0 text-muted-foreground hover:text-destructive"
+                            onClick={() => setDeleteTarget(firm)}
+                          >
+                            <TrashIcon className="size-3.5" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+          </div>
+        </GlassCard>
+      )}
+
+      {/* Firm Sheet */}
+      <FirmSheet
+        open={sheetOpen}
+        onOpenChange={setSheetOpen}
+        firm={editingFirm}
+      />
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={!!deleteTarget} onOpenChange={() => setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Firm</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete <strong>{deleteTarget?.name}</strong>?
+              This will soft-delete the firm record.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => deleteTarget && handleDelete(deleteTarget.id)}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Bar, BarChart, XAxis, YAxis, CartesianGrid } from "recharts";
+import { TargetIcon, TrendingUpIcon } from "lucide-react";
+import type { ForecastBucket, LossReasonBucket } from "@/lib/crm-forecast";
+
+const currencySymbols: Record<string, string> = { TRY: "₺", USD: "$", EUR: "€" };
+
+const pipelineConfig = {
+  value: {
+    label: "Pipeline",
+    color: "hsl(217, 91%, 60%)",
+  },
+  weighted: {
+    label: "Weighted",
+    color: "hsl(142, 76%, 36%)",
+  },
+} satisfies ChartConfig;
+
+const lossConfig = {
+  count: {
+    label: "Lost",
+    color: "hsl(0, 72%, 51%)",
+  },
+} satisfies ChartConfig;
+
+// Charts plot thousands, like the finance budget trend
+function toThousands(buckets: ForecastBucket[]) {
+  return buckets.map((b) => ({
+    label: b.label,
+    value: Math.round(b.value / 100) / 10,
+    weighted: Math.round(b.weighted / 100) / 10,
+  }));
+}
+
+function MoneyTooltip({ currency }: { currency: string }) {
+  return (
+    <ChartTooltip
+      content={
+        <ChartTooltipContent
+          formatter={(value, name) => (
+            <div className="flex items-center justify-between gap-8">
+              <span className="text-muted-foreground">{name === "value" ? "Pipeline" : "Weighted"}</span>
+              <span className="font-mono font-medium">
+                {currencySymbols[currency] || currency}
+                {Number(value).toLocaleString()}K
+              </span>
+            </div>
+          )}
+        />
+      }
+    />
+  );
+}
+
+// ============================================================================
+// Weighted forecast by expected close month
+// ============================================================================
+
+export interface ForecastByMonthChartProps {
+  data: ForecastBucket[];
+  currency: string;
+  undatedCount: number;
+}
+
+export function ForecastByMonthChartImpl({ data, currency, undatedCount }: ForecastByMonthChartProps) {
+  const nextQuarter = data.slice(0, 3).reduce((sum, b) => sum + b.weighted, 0);
+  const symbol = currencySymbols[currency] || currency;
+
+  return (
+    <Card className="border border-base-200">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base font-semibold">Forecast by Close Month</CardTitle>
+        <p className="text-sm text-muted-foreground">Pipeline vs probability-weighted value (in thousands)</p>
+      </CardHeader>
+      <CardContent>
+        {data.length === 0 ? (
+          <p className="h-[220px] lg:h-[280px] flex items-center justify-center text-sm text-muted-foreground">
+            No open opportunities with an expected close date.
+          </p>
+        ) : (
+          <ChartContainer config={pipelineConfig} className="h-[220px] w-full lg:h-[280px]">
+            <BarChart data={toThousands(data)} margin={{ top: 10, right: 10, left: 10, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} fontSize={12} />
+              <YAxis
+                tickLine={false}
+                axisLine={false}
+                tickMargin={8}
+                fontSize={12}
+                tickFormatter={(value) => `${value}K`}
+              />
+              <MoneyTooltip currency={currency} />
+              <Bar dataKey="value" fill="var(--color-value)" radius={[4, 4, 0, 0]} maxBarSize={40} />
+              <Bar dataKey="weighted" fill="var(--color-weighted)" radius={[4, 4, 0, 0]} maxBarSize={40} />
+            </BarChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+      <CardFooter className="flex-col items-start gap-2 text-sm border-t pt-4">
+        <div className="flex items-center gap-2 font-medium">
+          <TrendingUpIcon className="size-4 text-emerald-600" />
+          <span className="text-emerald-600">
+            {symbol}
+            {Math.round(nextQuarter).toLocaleString()} weighted in the next 3 close months
+          </span>
+        </div>
+        <p className="text-muted-foreground">
+          Late opportunities count toward the current month
+          {undatedCount > 0 && ` · ${undatedCount} without a close date`}
+        </p>
+      </CardFooter>
+    </Card>
+  );
+}
+
+// ============================================================================
+// Pipeline breakdown (stage / brand tier)
+// ============================================================================
+
+export interface ForecastBreakdownChartProps {
+  title: string;
+  description: string;
+  data: ForecastBucket[];
+  currency: string;
+}
+
+export function ForecastBreakdownChartImpl({ title, description, data, currency }: ForecastBreakdownChartProps) {
+  return (
+    <Card className="border border-base-200">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base font-semibold">{title}</CardTitle>
+        <p className="text-sm text-muted-foreground">{description}</p>
+      </CardHeader>
+      <CardContent>
+        <ChartContainer config={pipelineConfig} className="h-[220px] w-full lg:h-[280px]">
+          <BarChart
+            data={toThousands(data)}
+            layout="vertical"
+            margin={{ top: 10, right: 10, left: 10, bottom: 0 }}
+          >
+            <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+            <XAxis
+              type="number"
+              tickLine={false}
+              axisLine={false}
+              tickMargin={8}
+              fontSize={12}
+              tickFormatter={(value) => `${value}K`}
+            />
+            <YAxis
+              type="category"
+              dataKey="label"
+              tickLine={false}
+              axisLine={false}
+              tickMargin={8}
+              fontSize={12}
+              width={90}
+            />
+            <MoneyTooltip currency={currency} />
+            <Bar dataKey="value" fill="var(--color-value)" radius={[0, 4, 4, 0]} maxBarSize={18} />
+            <Bar dataKey="weighted" fill="var(--color-weighted)" radius={[0, 4, 4, 0]} maxBarSize={18} />
+          </BarChart>
+        </ChartContainer>
+      </CardContent>
+    </Card>
+  );
+}
+
+// ============================================================================
+// Win / loss
+// ============================================================================
+
+export interface WinLossChartProps {
+  lossReasons: LossReasonBucket[];
+  wonCount: number;
+  lostCount: number;
+  winRate: number | null;
+}
+
+export function WinLossChartImpl({ lossReasons, wonCount, lostCount, winRate }: WinLossChartProps) {
+  const data = lossReasons.slice(0, 8).map((r) => ({ reason: r.reason, count: r.count }));
+
+  return (
+    <Card className="border border-base-200">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base font-semibold">Loss Reasons</CardTitle>
+        <p className="text-sm text-muted-foreground">Why lost opportunities were lost</p>
+      </CardHeader>
+      <CardContent>
+        {data.length === 0 ? (
+          <p className="h-[220px] lg:h-[280px] flex items-center justify-center text-sm text-muted-foreground">
+            No lost opportunities yet.
+          </p>
+        ) : (
+          <ChartContainer config={lossConfig} className="h-[220px] w-full lg:h-[280px]">
+            <BarChart data={data} layout="vertical" margin={{ top: 10, right: 10, left: 10, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+              <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} fontSize={12} />
+              <YAxis
+                type="category"
+                dataKey="reason"
+                tickLine={false}
+                axisLine={false}
+                tickMargin={8}
+                fontSize={12}
+                width={120}
+              />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="count" fill="var(--color-count)" radius={[0, 4, 4, 0]} maxBarSize={18} />
+            </BarChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+      <CardFooter className="flex-col items-start gap-2 text-sm border-t pt-4">
+        <div className="flex items-center gap-2 font-medium">
+          <TargetIcon className="size-4 text-primary" />
+          <span>{winRate === null ? "No closed opportunities yet" : `${winRate}% win rate`}</span>
+        </div>
+        <p className="text-muted-foreground">
+          {wonCount} won · {lostCount} lost
+        </p>
+      </CardFooter>
+    </Card>
+  );
+}
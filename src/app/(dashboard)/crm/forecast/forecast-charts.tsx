@@ -0,0 +1,21 @@
+"use client";
+
+import dynamic from "next/dynamic";
+
+// Recharts is ~90KB; lazy load to keep it out of initial bundles.
+const chartLoading = () => <div className="h-[300px] lg:h-[360px] w-full animate-pulse rounded-xl bg-muted/50" />;
+
+export const ForecastByMonthChart = dynamic(
+  () => import("./forecast-charts-impl").then((m) => m.ForecastByMonthChartImpl),
+  { ssr: false, loading: chartLoading }
+);
+
+export const ForecastBreakdownChart = dynamic(
+  () => import("./forecast-charts-impl").then((m) => m.ForecastBreakdownChartImpl),
+  { ssr: false, loading: chartLoading }
+);
+
+export const WinLossChart = dynamic(
+  () => import("./forecast-charts-impl").then((m) => m.WinLossChartImpl),
+  { ssr: false, loading: chartLoading }
+);
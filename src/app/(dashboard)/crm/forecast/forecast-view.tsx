@@ -0,0 +1,210 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { GlassCard, GradientIcon } from "@/components/ui/ui-helpers";
+import { usePageHeader } from "@/components/layout/app-header";
+import {
+  DownloadIcon,
+  LineChartIcon,
+  ScaleIcon,
+  TargetIcon,
+  TrophyIcon,
+  WalletIcon,
+} from "lucide-react";
+import { formatCurrency } from "@/lib/utils";
+import { buildCrmForecast } from "@/lib/crm-forecast";
+import { useExportCrmForecast, useForecastOpportunities } from "@/lib/react-query/crm";
+import { CRM_CURRENCIES } from "@/types/crm";
+import type { CrmCurrency } from "@/types/crm";
+import { ForecastBreakdownChart, ForecastByMonthChart, WinLossChart } from "./forecast-charts";
+
+const selectClassName =
+  "flex h-8 rounded-md border border-input bg-transparent px-2 py-1 text-sm shadow-xs transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+export function ForecastView() {
+  const { data: opportunities, isLoading } = useForecastOpportunities();
+  const exportForecast = useExportCrmForecast();
+  const [currency, setCurrency] = useState<CrmCurrency>("USD");
+
+  const forecast = useMemo(
+    () => buildCrmForecast(opportunities || [], currency),
+    [opportunities, currency]
+  );
+
+  const { setContent } = usePageHeader();
+  useEffect(() => {
+    setContent({
+      icon: <GradientIcon icon={<LineChartIcon className="size-4" />} color="slate" size="sm" />,
+      title: "Forecast",
+      description: "Weighted pipeline and win-rate analytics",
+      actions: (
+        <div className="flex items-center gap-2">
+          <select
+            className={selectClassName}
+            value={currency}
+            onChange={(e) => setCurrency(e.target.value as CrmCurrency)}
+            aria-label="Currency"
+          >
+            {CRM_CURRENCIES.map((c) => (
+              <option key={c} value={c}>{c}</option>
+            ))}
+          </select>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => exportForecast.mutate(currency)}
+            disabled={exportForecast.isPending}
+          >
+            <DownloadIcon className="size-4 mr-1" />
+            {exportForecast.isPending ? "Exporting..." : "Export Excel"}
+          </Button>
+        </div>
+      ),
+    });
+    return () => setContent({});
+  }, [setContent, currency, exportForecast]);
+
+  if (isLoading) {
+    return (
+      <div className="p-4 md:p-6 space-y-6">
+        <div className="grid grid-cols-1 gap-4 lg:grid-cols-2 xl:grid-cols-4">
+          {Array.from({ length: 4 }).map((_, i) => (
+            <Skeleton key={`kpi-${i}`} className="h-28 rounded-xl" />
+          ))}
+        </div>
+        <div className="grid gap-6 lg:grid-cols-2">
+          <Skeleton className="h-[360px] rounded-xl" />
+          <Skeleton className="h-[360px] rounded-xl" />
+        </div>
+      </div>
+    );
+  }
+
+  const { totals } = forecast;
+  const kpis = [
+    {
+      label: "Pipeline Value",
+      value: formatCurrency(totals.pipelineValue, currency),
+      note: `${totals.openCount} open opportunities`,
+      icon: <WalletIcon className="size-5 rounded-md border p-1 text-blue-600" />,
+    },
+    {
+      label: "Weighted Forecast",
+      value: formatCurrency(totals.weightedValue, currency),
+      note:
+        totals.pipelineValue > 0
+          ? `${Math.round((totals.weightedValue / totals.pipelineValue) * 100)}% of pipeline`
+          : "Value × probability",
+      icon: <ScaleIcon className="size-5 rounded-md border p-1 text-emerald-600" />,
+    },
+    {
+      label: "Won",
+      value: formatCurrency(totals.wonValue, currency),
+      note: `${totals.wonCount} won · ${totals.lostCount} lost`,
+      icon: <TrophyIcon className="size-5 rounded-md border p-1 text-amber-600" />,
+    },
+    {
+      label: "Win Rate",
+      value: totals.winRate === null ? "—" : `${totals.winRate}%`,
+      note: `${formatCurrency(totals.lostValue, currency)} lost`,
+      icon: <TargetIcon className="size-5 rounded-md border p-1 text-primary" />,
+    },
+  ];
+
+  return (
+    <div className="p-4 md:p-6 space-y-6">
+      {forecast.excludedCount > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Showing {currency} opportunities only — {forecast.excludedCount} in other currencies are not
+          included. Switch currency above to see them.
+        </p>
+      )}
+
+      {/* KPI Cards Row */}
+      <div className="grid grid-cols-1 gap-4 lg:grid-cols-2 xl:grid-cols-4">
+        {kpis.map((kpi) => (
+          <Card key={kpi.label} className="border border-base-200 overflow-hidden">
+            <CardContent className="pt-5 pb-4">
+              <div className="space-y-1">
+                <p className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+                  {kpi.icon}
+                  {kpi.label}
+                </p>
+                <p className="text-2xl font-bold tracking-tight">{kpi.value}</p>
+                <p className="text-xs text-muted-foreground">{kpi.note}</p>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Charts */}
+      <div className="grid gap-6 lg:grid-cols-2">
+        <ForecastByMonthChart
+          data={forecast.byMonth}
+          currency={currency}
+          undatedCount={totals.undatedCount}
+        />
+        <ForecastBreakdownChart
+          title="Pipeline by Stage"
+          description="Open opportunities (in thousands)"
+          data={forecast.byStage}
+          currency={currency}
+        />
+        <ForecastBreakdownChart
+          title="Pipeline by Brand Tier"
+          description="Open opportunities (in thousands)"
+          data={forecast.byTier}
+          currency={currency}
+        />
+        <WinLossChart
+          lossReasons={forecast.lossReasons}
+          wonCount={totals.wonCount}
+          lostCount={totals.lostCount}
+          winRate={totals.winRate}
+        />
+      </div>
+
+      {/* Loss reason detail */}
+      {forecast.lossReasons.length > 0 && (
+        <GlassCard className="overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Loss Reason</TableHead>
+                <TableHead className="text-right">Lost</TableHead>
+                <TableHead className="text-right">Share</TableHead>
+                <TableHead className="text-right">Lost Value</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {forecast.lossReasons.map((reason) => (
+                <TableRow key={reason.reason}>
+                  <TableCell>{reason.reason}</TableCell>
+                  <TableCell className="text-right">{reason.count}</TableCell>
+                  <TableCell className="text-right">
+                    {Math.round((reason.count / totals.lostCount) * 100)}%
+                  </TableCell>
+                  <TableCell className="text-right font-mono text-sm">
+                    {formatCurrency(reason.value, currency)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </GlassCard>
+      )}
+    </div>
+  );
+}
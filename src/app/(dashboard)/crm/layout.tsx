@@ -0,0 +1,14 @@
+import { CrmTabBar } from "./crm-tab-bar";
+
+export default function CrmLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="flex flex-col min-h-0 flex-1">
+      <CrmTabBar />
+      <div className="flex-1 overflow-auto">{children}</div>
+    </div>
+  );
+}
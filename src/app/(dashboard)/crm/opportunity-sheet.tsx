@@ -0,0 +1,378 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetDescription,
+} from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ArrowRightIcon, FolderKanbanIcon } from "lucide-react";
+import { opportunitySchema } from "@/lib/validations/crm";
+import type { OpportunityFormData } from "@/lib/validations/crm";
+import {
+  useCrmLookups,
+  useCreateOpportunity,
+  useUpdateOpportunity,
+} from "@/lib/react-query/crm";
+import { CRM_CURRENCIES, CRM_PRIORITIES, OPPORTUNITY_STAGES } from "@/types/crm";
+import type { CrmOpportunityWithRelations } from "@/types/crm";
+import { ConvertOpportunityDialog } from "./convert-opportunity-dialog";
+import { ActivityPanel } from "./activity-timeline";
+
+const selectClassName =
+  "flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+const optionalNumber = (v: unknown) => (v === "" || v === null ? null : Number(v));
+
+interface OpportunitySheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  opportunity: CrmOpportunityWithRelations | null;
+  /** Prefill for new opportunities (e.g. created from a brand page or a board column) */
+  defaults?: Partial<Pick<OpportunityFormData, "brand_id" | "architecture_firm_id" | "stage">>;
+  canWrite: boolean;
+}
+
+export function OpportunitySheet({
+  open,
+  onOpenChange,
+  opportunity,
+  defaults,
+  canWrite,
+}: OpportunitySheetProps) {
+  const isEditing = !!opportunity;
+  const { data: lookups } = useCrmLookups();
+  const createOpportunity = useCreateOpportunity();
+  const updateOpportunity = useUpdateOpportunity();
+  const isPending = createOpportunity.isPending || updateOpportunity.isPending;
+  const [convertOpen, setConvertOpen] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setValue,
+    watch,
+    formState: { errors },
+  } = useForm<OpportunityFormData>({
+    resolver: zodResolver(opportunitySchema),
+    mode: "onChange",
+  });
+
+  useEffect(() => {
+    if (open && opportunity) {
+      reset({
+        title: opportunity.title,
+        description: opportunity.description,
+        brand_id: opportunity.brand_id,
+        architecture_firm_id: opportunity.architecture_firm_id,
+        stage: opportunity.stage,
+        estimated_value: opportunity.estimated_value,
+        currency: opportunity.currency || "USD",
+        probability: opportunity.probability,
+        expected_close_date: opportunity.expected_close_date,
+        assigned_to: opportunity.assigned_to,
+        source: opportunity.source,
+        loss_reason: opportunity.loss_reason,
+        priority: opportunity.priority || "medium",
+        notes: opportunity.notes,
+      });
+    } else if (open) {
+      reset({
+        title: "",
+        description: null,
+        brand_id: defaults?.brand_id ?? null,
+        architecture_firm_id: defaults?.architecture_firm_id ?? null,
+        stage: defaults?.stage ?? "researched",
+        estimated_value: null,
+        currency: "USD",
+        probability: null,
+        expected_close_date: null,
+        assigned_to: null,
+        source: null,
+        loss_reason: null,
+        priority: "medium",
+        notes: null,
+      });
+    }
+  }, [open, opportunity, defaults, reset]);
+
+  const onSubmit = (data: OpportunityFormData) => {
+    if (isEditing) {
+      updateOpportunity.mutate(
+        { id: opportunity.id, ...data },
+        { onSuccess: () => onOpenChange(false) }
+      );
+    } else {
+      createOpportunity.mutate(data, {
+        onSuccess: () => onOpenChange(false),
+      });
+    }
+  };
+
+  const stage = watch("stage");
+
+  const detailsForm = (
+    <form onSubmit={handleSubmit(onSubmit)} className="flex-1 flex flex-col overflow-hidden mt-4">
+      <fieldset disabled={!canWrite} className="flex-1 overflow-y-auto px-4 space-y-4 pb-2">
+      {/* Title */}
+      <div className="space-y-1.5">
+        <Label htmlFor="title">Title *</Label>
+        <Input id="title" {...register("title")} placeholder="e.g. Flagship store fit-out, Istanbul" />
+        {errors.title && <p className="text-xs text-destructive">{errors.title.message}</p>}
+      </div>
+
+      {/* Brand + Firm */}
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1.5">
+          <Label>Brand</Label>
+          <select
+            className={selectClassName}
+            value={watch("brand_id") || ""}
+            onChange={(e) => setValue("brand_id", e.target.value || null)}
+          >
+            <option value="">No brand</option>
+            {(lookups?.brands || []).map((b) => (
+              <option key={b.id} value={b.id}>{b.name}</option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1.5">
+          <Label>Architecture Firm</Label>
+          <select
+            className={selectClassName}
+            value={watch("architecture_firm_id") || ""}
+            onChange={(e) => setValue("architecture_firm_id", e.target.value || null)}
+          >
+            <option value="">No firm</option>
+            {(lookups?.firms || []).map((f) => (
+              <option key={f.id} value={f.id}>{f.name}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* Stage + Priority */}
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1.5">
+          <Label>Stage</Label>
+          <select
+            className={selectClassName}
+            value={stage || "researched"}
+            onChange={(e) => setValue("stage", e.target.value as OpportunityFormData["stage"])}
+          >
+            {OPPORTUNITY_STAGES.map((s) => (
+              <option key={s.value} value={s.value}>{s.label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1.5">
+          <Label>Priority</Label>
+          <select
+            className={selectClassName}
+            value={watch("priority") || "medium"}
+            onChange={(e) => setValue("priority", e.target.value as OpportunityFormData["priority"])}
+          >
+            {CRM_PRIORITIES.map((p) => (
+              <option key={p.value} value={p.value}>{p.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* Loss reason (lost only) */}
+      {stage === "lost" && (
+        <div className="space-y-1.5">
+          <Label htmlFor="loss_reason">Loss Reason</Label>
+          <Textarea id="loss_reason" {...register("loss_reason")} placeholder="Why was this lost?" rows={2} />
+        </div>
+      )}
+
+      {/* Value + Currency + Probability */}
+      <div className="grid grid-cols-5 gap-3">
+        <div className="col-span-2 space-y-1.5">
+          <Label htmlFor="estimated_value">Estimated Value</Label>
+          <Input
+            id="estimated_value"
+            type="number"
+            step="0.01"
+            {...register("estimated_value", { setValueAs: optionalNumber })}
+            placeholder="0.00"
+          />
+          {errors.estimated_value && (
+            <p className="text-xs text-destructive">{errors.estimated_value.message}</p>
+          )}
+        </div>
+        <div className="space-y-1.5">
+          <Label>Currency</Label>
+          <select
+            className={selectClassName}
+            value={watch("currency") || "USD"}
+            onChange={(e) => setValue("currency", e.target.value as OpportunityFormData["currency"])}
+          >
+            {CRM_CURRENCIES.map((c) => (
+              <option key={c} value={c}>{c}</option>
+            ))}
+          </select>
+        </div>
+        <div className="col-span-2 space-y-1.5">
+          <Label htmlFor="probability">Probability %</Label>
+          <Input
+            id="probability"
+            type="number"
+            min={0}
+            max={100}
+            {...register("probability", { setValueAs: optionalNumber })}
+            placeholder="0–100"
+          />
+          {errors.probability && (
+            <p className="text-xs text-destructive">{errors.probability.message}</p>
+          )}
+        </div>
+      </div>
+
+      {/* Close date + Owner */}
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1.5">
+          <Label htmlFor="expected_close_date">Expected Close</Label>
+          <Input
+            id="expected_close_date"
+            type="date"
+            {...register("expected_close_date", { setValueAs: (v) => v || null })}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label>Owner</Label>
+          <select
+            className={selectClassName}
+            value={watch("assigned_to") || ""}
+            onChange={(e) => setValue("assigned_to", e.target.value || null)}
+          >
+            <option value="">Unassigned</option>
+            {(lookups?.users || []).map((u) => (
+              <option key={u.id} value={u.id}>{u.name}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* Source */}
+      <div className="space-y-1.5">
+        <Label htmlFor="source">Source</Label>
+        <Input id="source" {...register("source")} placeholder="e.g. Referral, trade show, LinkedIn" />
+      </div>
+
+      {/* Description */}
+      <div className="space-y-1.5">
+        <Label htmlFor="description">Description</Label>
+        <Textarea id="description" {...register("description")} placeholder="Scope, locations, timing..." rows={3} />
+      </div>
+
+      {/* Notes */}
+      <div className="space-y-1.5">
+        <Label htmlFor="notes">Notes</Label>
+        <Textarea id="notes" {...register("notes")} placeholder="Internal notes..." rows={2} />
+      </div>
+      </fieldset>
+
+      {/* Submit — pinned at bottom */}
+      <div className="flex justify-end gap-2 py-3 px-4 border-t border-base-200 shrink-0">
+        <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+          {canWrite ? "Cancel" : "Close"}
+        </Button>
+        {canWrite && (
+          <Button type="submit" disabled={isPending}>
+            {isPending
+              ? isEditing
+                ? "Saving..."
+                : "Creating..."
+              : isEditing
+                ? "Save Changes"
+                : "Create Opportunity"}
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-lg flex flex-col">
+        <SheetHeader>
+          <SheetTitle>
+            {isEditing ? opportunity.opportunity_code : "New Opportunity"}
+          </SheetTitle>
+          <SheetDescription>
+            {isEditing ? opportunity.title : "Add a lead to the business development pipeline"}
+          </SheetDescription>
+        </SheetHeader>
+
+        {/* Conversion — linked project, or the convert action once won */}
+        {isEditing && opportunity.project && (
+          <Link
+            href={`/projects/${opportunity.project.slug || opportunity.project.id}`}
+            className="mx-4 flex items-center gap-2 rounded-lg border border-emerald-200 bg-emerald-50 p-3 text-sm text-emerald-800 hover:bg-emerald-100 transition-colors"
+          >
+            <FolderKanbanIcon className="size-4 shrink-0" />
+            <span className="truncate">
+              Project <span className="font-mono">{opportunity.project.project_code}</span> · {opportunity.project.name}
+            </span>
+            <ArrowRightIcon className="size-4 ml-auto shrink-0" />
+          </Link>
+        )}
+        {isEditing && !opportunity.project && opportunity.stage === "won" && canWrite && (
+          <div className="mx-4 flex items-center gap-3 rounded-lg border border-emerald-200 bg-emerald-50 p-3">
+            <p className="text-sm text-emerald-800 flex-1">Won — ready to become a tender project.</p>
+            <Button size="sm" onClick={() => setConvertOpen(true)}>
+              Convert to Project
+            </Button>
+          </div>
+        )}
+
+        {isEditing ? (
+          <Tabs defaultValue="details" className="flex-1 flex flex-col min-h-0 mt-4">
+            <TabsList className="mx-4 shrink-0 grid grid-cols-2">
+              <TabsTrigger value="details">Details</TabsTrigger>
+              <TabsTrigger value="activity">Activity</TabsTrigger>
+            </TabsList>
+            <TabsContent value="details" className="flex-1 flex flex-col min-h-0 mt-0">
+              {detailsForm}
+            </TabsContent>
+            <TabsContent value="activity" className="flex-1 overflow-y-auto px-4 py-4 mt-0">
+              <ActivityPanel
+                filters={{ opportunity_id: opportunity.id }}
+                links={{
+                  opportunity_id: opportunity.id,
+                  brand_id: opportunity.brand_id,
+                  architecture_firm_id: opportunity.architecture_firm_id,
+                }}
+                canWrite={canWrite}
+              />
+            </TabsContent>
+          </Tabs>
+        ) : (
+          detailsForm
+        )}
+      </SheetContent>
+
+      {isEditing && (
+        <ConvertOpportunityDialog
+          open={convertOpen}
+          onOpenChange={setConvertOpen}
+          opportunity={opportunity}
+          onConverted={() => onOpenChange(false)}
+        />
+      )}
+    </Sheet>
+  );
+}
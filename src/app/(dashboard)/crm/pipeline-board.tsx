@@ -0,0 +1,412 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import { useSearchParams } from "next/navigation";
+import type { DragEndEvent, DragStartEvent } from "@dnd-kit/core";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  KanbanBoard,
+  KanbanColumn,
+  KanbanColumnHeader,
+  KanbanCard,
+  KanbanOverlay,
+} from "@/components/ui/kanban";
+import { GradientIcon } from "@/components/ui/ui-helpers";
+import { usePageHeader } from "@/components/layout/app-header";
+import {
+  HandshakeIcon,
+  PlusIcon,
+  SearchIcon,
+  TrashIcon,
+  CalendarIcon,
+  UserIcon,
+  FolderKanbanIcon,
+} from "lucide-react";
+import {
+  useOpportunities,
+  useCrmLookups,
+  useUpdateOpportunityStage,
+  useDeleteOpportunity,
+} from "@/lib/react-query/crm";
+import { CRM_PRIORITIES, OPPORTUNITY_STAGES } from "@/types/crm";
+import type { CrmOpportunityStage, CrmOpportunityWithRelations } from "@/types/crm";
+import { formatCurrency } from "@/lib/utils";
+import { OpportunitySheet } from "./opportunity-sheet";
+
+const selectClassName =
+  "flex h-9 rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+interface PipelineBoardProps {
+  canWrite: boolean;
+  canDelete: boolean;
+}
+
+export function PipelineBoard({ canWrite, canDelete }: PipelineBoardProps) {
+  const { data: opportunities, isLoading } = useOpportunities();
+  const { data: lookups } = useCrmLookups();
+  const updateStage = useUpdateOpportunityStage();
+  const deleteOpportunity = useDeleteOpportunity();
+
+  const [search, setSearch] = useState("");
+  const [ownerFilter, setOwnerFilter] = useState("");
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [sheetOpen, setSheetOpen] = useState(false);
+  const [editing, setEditing] = useState<CrmOpportunityWithRelations | null>(null);
+  const [newStage, setNewStage] = useState<CrmOpportunityStage>("researched");
+  const [lostTarget, setLostTarget] = useState<CrmOpportunityWithRelations | null>(null);
+  const [lossReason, setLossReason] = useState("");
+  const [deleteTarget, setDeleteTarget] = useState<CrmOpportunityWithRelations | null>(null);
+
+  // ?opportunity=<id> (e.g. from a converted project's header) opens that card once loaded
+  const searchParams = useSearchParams();
+  const [deepLinkId, setDeepLinkId] = useState(searchParams.get("opportunity"));
+  if (deepLinkId && opportunities) {
+    const target = opportunities.find((o) => o.id === deepLinkId);
+    setDeepLinkId(null);
+    if (target) {
+      setEditing(target);
+      setSheetOpen(true);
+    }
+  }
+
+  const openNew = (stage: CrmOpportunityStage = "researched") => {
+    setEditing(null);
+    setNewStage(stage);
+    setSheetOpen(true);
+  };
+
+  const { setContent } = usePageHeader();
+  useEffect(() => {
+    setContent({
+      icon: <GradientIcon icon={<HandshakeIcon className="size-4" />} color="violet" size="sm" />,
+      title: "CRM Pipeline",
+      description: "Business development opportunities by stage",
+      actions: canWrite ? (
+        <Button size="sm" onClick={() => { setEditing(null); setNewStage("researched"); setSheetOpen(true); }}>
+          <PlusIcon className="size-4 mr-1" />
+          New Opportunity
+        </Button>
+      ) : undefined,
+    });
+    return () => setContent({});
+  }, [setContent, canWrite]);
+
+  const filtered = useMemo(() => {
+    if (!opportunities) return [];
+    const q = search.toLowerCase();
+    return opportunities.filter((o) => {
+      if (ownerFilter && o.assigned_to !== ownerFilter) return false;
+      if (!q) return true;
+      return (
+        o.title.toLowerCase().includes(q) ||
+        o.opportunity_code.toLowerCase().includes(q) ||
+        o.brand?.name.toLowerCase().includes(q) ||
+        o.architecture_firm?.name.toLowerCase().includes(q)
+      );
+    });
+  }, [opportunities, search, ownerFilter]);
+
+  const byStage = useMemo(() => {
+    const groups = Object.fromEntries(
+      OPPORTUNITY_STAGES.map((s) => [s.value, [] as CrmOpportunityWithRelations[]])
+    ) as Record<CrmOpportunityStage, CrmOpportunityWithRelations[]>;
+    for (const opp of filtered) groups[opp.stage]?.push(opp);
+    return groups;
+  }, [filtered]);
+
+  // Stable identity so the sheet doesn't reset its form on every board render
+  const sheetDefaults = useMemo(() => ({ stage: newStage }), [newStage]);
+
+  const activeOpportunity = activeId ? opportunities?.find((o) => o.id === activeId) : null;
+
+  const handleDragStart = (event: DragStartEvent) => {
+    setActiveId(String(event.active.id));
+  };
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    setActiveId(null);
+    if (!over) return;
+
+    const opportunity = opportunities?.find((o) => o.id === active.id);
+    if (!opportunity) return;
+
+    // Dropped on a column, or on another card inside a column
+    const overId = String(over.id);
+    const targetStage = OPPORTUNITY_STAGES.some((s) => s.value === overId)
+      ? (overId as CrmOpportunityStage)
+      : opportunities?.find((o) => o.id === overId)?.stage;
+
+    if (!targetStage || targetStage === opportunity.stage) return;
+
+    if (targetStage === "lost") {
+      setLossReason("");
+      setLostTarget(opportunity);
+      return;
+    }
+
+    updateStage.mutate({ id: opportunity.id, stage: targetStage });
+  };
+
+  const confirmLost = () => {
+    if (!lostTarget) return;
+    updateStage.mutate(
+      { id: lostTarget.id, stage: "lost", lossReason },
+      { onSuccess: () => setLostTarget(null) }
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-4 md:p-6 space-y-5">
+        <Skeleton className="h-9 w-full" />
+        <div className="flex gap-3 overflow-hidden">
+          {Array.from({ length: 5 }).map((_, i) => (
+            <Skeleton key={`skel-${i}`} className="h-96 w-72 shrink-0" />
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 md:p-6 space-y-5">
+      {/* Filters */}
+      <div className="flex gap-3">
+        <div className="relative flex-1">
+          <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 size-4 text-muted-foreground" />
+          <Input
+            placeholder="Search opportunities, brands, firms..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+        <select
+          className={selectClassName}
+          value={ownerFilter}
+          onChange={(e) => setOwnerFilter(e.target.value)}
+        >
+          <option value="">All owners</option>
+          {(lookups?.users || []).map((u) => (
+            <option key={u.id} value={u.id}>{u.name}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Board */}
+      <KanbanBoard
+        onDragStart={handleDragStart}
+        onDragEnd={handleDragEnd}
+        overlay={activeOpportunity ? (
+          <KanbanOverlay>
+            <OpportunityCardBody opportunity={activeOpportunity} />
+          </KanbanOverlay>
+        ) : null}
+      >
+        <div className="flex gap-3 overflow-x-auto pb-2">
+          {OPPORTUNITY_STAGES.map((stage) => {
+            const items = byStage[stage.value];
+            return (
+              <KanbanColumn
+                key={stage.value}
+                id={stage.value}
+                items={items.map((o) => o.id)}
+                className="w-72 shrink-0"
+              >
+                <KanbanColumnHeader title={stage.label} count={items.length} color={stage.color}>
+                  {canWrite && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0 text-muted-foreground"
+                      onClick={() => openNew(stage.value)}
+                      aria-label={`Add opportunity to ${stage.label}`}
+                    >
+                      <PlusIcon className="size-3.5" />
+                    </Button>
+                  )}
+                </KanbanColumnHeader>
+                <div className="flex flex-col gap-2">
+                  {items.map((opp) => (
+                    <KanbanCard key={opp.id} id={opp.id} disabled={!canWrite}>
+                      <div
+                        role="button"
+                        tabIndex={0}
+                        className="cursor-pointer"
+                        onClick={() => { setEditing(opp); setSheetOpen(true); }}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") { setEditing(opp); setSheetOpen(true); }
+                        }}
+                      >
+                        <OpportunityCardBody opportunity={opp} />
+                      </div>
+                      {canDelete && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="absolute right-1 top-1 h-6 w-6 p-0 opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive"
+                          onClick={() => setDeleteTarget(opp)}
+                          aria-label="Delete opportunity"
+                        >
+                          <TrashIcon className="size-3" />
+                        </Button>
+                      )}
+                    </KanbanCard>
+                  ))}
+                  {items.length === 0 && (
+                    <p className="text-xs text-muted-foreground text-center py-6">No opportunities</p>
+                  )}
+                </div>
+              </KanbanColumn>
+            );
+          })}
+        </div>
+      </KanbanBoard>
+
+      {/* Opportunity Sheet */}
+      <OpportunitySheet
+        open={sheetOpen}
+        onOpenChange={setSheetOpen}
+        opportunity={editing}
+        defaults={sheetDefaults}
+        canWrite={canWrite}
+      />
+
+      {/* Loss Reason */}
+      <Dialog open={!!lostTarget} onOpenChange={(open) => !open && setLostTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Mark as Lost</DialogTitle>
+            <DialogDescription>
+              Record why <strong>{lostTarget?.title}</strong> was lost. This feeds win/loss reporting.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-1.5">
+            <Label htmlFor="loss_reason">Loss Reason</Label>
+            <Textarea
+              id="loss_reason"
+              value={lossReason}
+              onChange={(e) => setLossReason(e.target.value)}
+              placeholder="e.g. Went with local joinery, budget cut..."
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setLostTarget(null)}>
+              Cancel
+            </Button>
+            <Button onClick={confirmLost} disabled={updateStage.isPending}>
+              Mark as Lost
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={!!deleteTarget} onOpenChange={() => setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Opportunity</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete <strong>{deleteTarget?.title}</strong>?
+              This will soft-delete the opportunity record.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() =>
+                deleteTarget &&
+                deleteOpportunity.mutate(deleteTarget.id, { onSuccess: () => setDeleteTarget(null) })
+              }
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+function OpportunityCardBody({ opportunity }: { opportunity: CrmOpportunityWithRelations }) {
+  const priority = CRM_PRIORITIES.find((p) => p.value === opportunity.priority);
+  const company = [opportunity.brand?.name, opportunity.architecture_firm?.name]
+    .filter(Boolean)
+    .join(" · ");
+
+  return (
+    <div className="space-y-1.5 min-w-0">
+      <div className="flex items-center gap-1.5">
+        {priority && (
+          <span
+            className="size-1.5 rounded-full shrink-0"
+            style={{ backgroundColor: priority.color }}
+            title={`${priority.label} priority`}
+          />
+        )}
+        <span className="font-mono text-[10px] text-muted-foreground">{opportunity.opportunity_code}</span>
+        {opportunity.project && (
+          <span
+            className="ml-auto flex items-center gap-0.5 text-[10px] font-medium text-emerald-700"
+            title={`Converted to project ${opportunity.project.project_code}`}
+          >
+            <FolderKanbanIcon className="size-3" />
+            {opportunity.project.project_code}
+          </span>
+        )}
+      </div>
+      <p className="text-sm font-medium leading-snug line-clamp-2">{opportunity.title}</p>
+      {company && <p className="text-xs text-muted-foreground truncate">{company}</p>}
+      <div className="flex items-center justify-between gap-2 text-xs">
+        <span className="font-semibold">
+          {opportunity.estimated_value !== null
+            ? formatCurrency(opportunity.estimated_value, opportunity.currency || "USD")
+            : "—"}
+        </span>
+        {opportunity.probability !== null && (
+          <span className="text-muted-foreground">{opportunity.probability}%</span>
+        )}
+      </div>
+      {(opportunity.expected_close_date || opportunity.assigned_user) && (
+        <div className="flex items-center gap-3 text-[11px] text-muted-foreground">
+          {opportunity.expected_close_date && (
+            <span className="flex items-center gap-1">
+              <CalendarIcon className="size-3" />
+              {opportunity.expected_close_date}
+            </span>
+          )}
+          {opportunity.assigned_user && (
+            <span className="flex items-center gap-1 truncate">
+              <UserIcon className="size-3" />
+              {opportunity.assigned_user.name}
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -112,7 +112,7 @@ export default async function DashboardPage() {
   // For PM role, pass assignedProjectIds to filter data; for admin/management, pass undefined (all projects)
   const projectFilter = isOperationalRole ? assignedProjectIds : undefined;
 
-  const emptyTasks = { pendingMaterialApprovals: 0, rejectedDrawings: 0, draftReports: 0, overdueMilestones: 0, total: 0 };
+  const emptyTasks = { pendingMaterialApprovals: 0, rejectedDrawings: 0, draftReports: 0, overdueMilestones: 0, crmFollowUps: 0, total: 0 };
   const emptyProductionQueue = { inProduction: [], readyForProduction: [], pendingInstallation: [], totalInProduction: 0, totalReady: 0, totalPendingInstall: 0 };
   const emptyProcurementQueue = { needsMaterials: [], pendingApproval: [], totalNeedsMaterials: 0, totalPendingApproval: 0 };
   const emptyFinancial = { totalContractValue: 0, byStatus: { tender: 0, active: 0, completed: 0 }, currency: "TRY", projectCount: 0 };
@@ -39,12 +39,22 @@ const typeConfig: Record<string, { icon: React.ReactNode; color: GradientColor;
   drawing_rejected: { icon: <AlertCircleIcon className="size-3.5" />, color: "rose", label: "Drawing Rejected" },
   drawing_uploaded: { icon: <FileIcon className="size-3.5" />, color: "sky", label: "Drawing Uploaded" },
   drawing_sent: { icon: <ClockIcon className="size-3.5" />, color: "amber", label: "Drawing Sent" },
+  drawing_review_requested: { icon: <ClockIcon className="size-3.5" />, color: "violet", label: "Drawing Check Requested" },
+  drawing_review_rejected: { icon: <AlertCircleIcon className="size-3.5" />, color: "rose", label: "Drawing Check Rejected" },
+  drawing_review_completed: { icon: <CheckCircleIcon className="size-3.5" />, color: "teal", label: "Drawing Checks Passed" },
   material_approved: { icon: <CheckCircleIcon className="size-3.5" />, color: "teal", label: "Material Approved" },
   material_rejected: { icon: <AlertCircleIcon className="size-3.5" />, color: "rose", label: "Material Rejected" },
   project_assigned: { icon: <FileIcon className="size-3.5" />, color: "primary", label: "Project Assigned" },
   milestone_due: { icon: <ClockIcon className="size-3.5" />, color: "coral", label: "Milestone Due" },
   milestone_overdue: { icon: <AlertCircleIcon className="size-3.5" />, color: "rose", label: "Milestone Overdue" },
   report_published: { icon: <FileIcon className="size-3.5" />, color: "teal", label: "Report Published" },
+  snag_reported: { icon: <AlertCircleIcon className="size-3.5" />, color: "amber", label: "Snag Reported" },
+  snag_assigned: { icon: <AlertCircleIcon className="size-3.5" />, color: "coral", label: "Snag Assigned" },
+  snag_resolved: { icon: <CheckCircleIcon className="size-3.5" />, color: "emerald", label: "Snag Resolved" },
+  snag_reopened: { icon: <AlertCircleIcon className="size-3.5" />, color: "rose", label: "Snag Reopened" },
+  snag_escalated: { icon: <ClockIcon className="size-3.5" />, color: "rose", label: "Snag Overdue" },
+  approval_reminder: { icon: <ClockIcon className="size-3.5" />, color: "amber", label: "Approval Reminder" },
+  approval_escalated: { icon: <AlertCircleIcon className="size-3.5" />, color: "rose", label: "Approval Overdue" },
   finance_weekly_digest: { icon: <FileIcon className="size-3.5" />, color: "amber", label: "Finance Digest" },
   finance_manual_summary: { icon: <FileIcon className="size-3.5" />, color: "amber", label: "Payment Summary" },
   finance_urgent_notify: { icon: <AlertCircleIcon className="size-3.5" />, color: "rose", label: "Urgent Payment" },
@@ -59,11 +69,16 @@ const NOTIFICATION_TYPES = [
   { value: "drawing_rejected", label: "Drawing Rejected" },
   { value: "drawing_uploaded", label: "Drawing Uploaded" },
   { value: "drawing_sent", label: "Drawing Sent" },
+  { value: "drawing_review_requested", label: "Drawing Check Requested" },
+  { value: "drawing_review_rejected", label: "Drawing Check Rejected" },
+  { value: "drawing_review_completed", label: "Drawing Checks Passed" },
   { value: "material_approved", label: "Material Approved" },
   { value: "material_rejected", label: "Material Rejected" },
   { value: "project_assigned", label: "Project Assigned" },
   { value: "milestone_due", label: "Milestone Due" },
   { value: "report_published", label: "Report Published" },
+  { value: "snag_assigned", label: "Snag Assigned" },
+  { value: "snag_resolved", label: "Snag Resolved" },
 ];
 
 export default function NotificationsPage() {
@@ -116,12 +131,14 @@ export default function NotificationsPage() {
 
     if (notification.project_id) {
       const type = notification.type;
-      if (type === "drawing_approved" || type === "drawing_rejected" || type === "drawing_uploaded" || type === "drawing_sent") {
+      if (type.startsWith("drawing_")) {
         router.push(`/projects/${notification.project_id}?tab=drawings`);
       } else if (type === "material_approved" || type === "material_rejected") {
         router.push(`/projects/${notification.project_id}?tab=materials`);
       } else if (type === "milestone_due" || type === "milestone_overdue") {
         router.push(`/projects/${notification.project_id}?tab=milestones`);
+      } else if (type.startsWith("snag_")) {
+        router.push(`/projects/${notification.project_id}?tab=snagging`);
       } else if (notification.report_id || type === "report_published") {
         router.push(`/projects/${notification.project_id}?tab=reports`);
       } else {
@@ -49,6 +49,7 @@ import {
   TrashIcon,
   XIcon,
   ArrowUpDownIcon,
+  FileStackIcon,
 } from "lucide-react";
 import {
   DropdownMenu,
@@ -57,8 +58,17 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { DrawingUploadSheet } from "@/components/drawings/drawing-upload-sheet";
+import { IssueTransmittalDialog } from "@/components/drawings/issue-transmittal-dialog";
+import { TransmittalsSheet } from "@/components/drawings/transmittals-sheet";
+import { DrawingApprovalChainSettings } from "@/components/drawings/drawing-approval-chain-settings";
 import { ScopeItemSheet } from "@/components/scope-items/scope-item-sheet";
-import { sendDrawingsToClient, getDrawingDownloadUrls, deleteDrawing } from "@/lib/actions/drawings";
+import { getDrawingDownloadUrls, deleteDrawing } from "@/lib/actions/drawings";
+import { drawingKeys } from "@/lib/react-query/drawings";
+import type { TransmittalPurpose } from "@/lib/drawing-transmittals";
+import { isReadyForClient, type InternalReviewState } from "@/lib/drawing-approval-chain";
+import { DEFAULT_APPROVAL_CADENCE, type ApprovalReminderCadence } from "@/lib/approval-reminders";
+import { ApprovalAgeingBadge } from "@/components/projects/approval-ageing-badge";
+import { ApprovalReminderSettings } from "@/components/projects/approval-reminder-settings";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
 import { format, formatDistanceToNow } from "date-fns";
@@ -74,10 +84,13 @@ interface Drawing {
   status: string;
   current_revision: string | null;
   sent_to_client_at: string | null;
+  approval_reminder_stage?: number;
   created_at: string | null;
   updated_at: string | null;
   uploaded_by_name: string | null;
   uploaded_revision_at: string | null;
+  /** Internal approval chain state of the current revision, for uploaded drawings */
+  internal_review?: InternalReviewState | null;
 }
 
 interface ProductionItem {
@@ -95,6 +108,9 @@ interface DrawingsOverviewProps {
   projectCurrency?: string;
   isClient?: boolean;
   isAdmin?: boolean;
+  approvalCadence?: ApprovalReminderCadence;
+  /** Reminder cadence and internal approval chain settings */
+  canManageApprovals?: boolean;
 }
 
 type StatusVariant = "info" | "success" | "warning" | "default" | "danger";
@@ -109,7 +125,29 @@ const statusConfig: Record<string, { variant: StatusVariant; label: string }> =
   not_required: { variant: "default", label: "Not Required" },
 };
 
-export function DrawingsOverview({ projectId, projectCode, projectName, productionItems, drawings: propDrawings, projectCurrency = "TRY", isClient = false, isAdmin = false }: DrawingsOverviewProps) {
+// Uploaded drawings still in the internal approval chain
+const internalReviewConfig: Partial<Record<InternalReviewState["status"], { variant: StatusVariant; label: string }>> = {
+  pending: { variant: "warning", label: "Internal Check" },
+  rejected: { variant: "danger", label: "Check Rejected" },
+};
+
+function getStatusConfig(
+  drawing: Drawing | null | undefined,
+  showInternalReview: boolean
+): { variant: StatusVariant; label: string } {
+  const status = drawing?.status || "not_uploaded";
+  const chainConfig = showInternalReview && status === "uploaded" && drawing?.internal_review
+    ? internalReviewConfig[drawing.internal_review.status]
+    : undefined;
+  return chainConfig ?? statusConfig[status] ?? { variant: "default", label: status };
+}
+
+/** Uploaded and cleared (or not subject to) the internal approval chain */
+function isReadyToSend(drawing: Drawing | null | undefined): boolean {
+  return drawing?.status === "uploaded" && (!drawing.internal_review || isReadyForClient(drawing.internal_review));
+}
+
+export function DrawingsOverview({ projectId, projectCode, projectName, productionItems, drawings: propDrawings, projectCurrency = "TRY", isClient = false, isAdmin = false, approvalCadence = DEFAULT_APPROVAL_CADENCE, canManageApprovals = false }: DrawingsOverviewProps) {
   const { data: fetchedDrawings, isLoading: hookLoading } = useProjectDrawings(projectId);
   const drawings = (propDrawings ?? fetchedDrawings ?? []) as Drawing[];
 
@@ -134,8 +172,11 @@ export function DrawingsOverview({ projectId, projectCode, projectName, producti
   const [pendingNewRevItemId, setPendingNewRevItemId] = useState<string | null>(null);
 
   // Bulk send state
-  const [bulkSendDialogOpen, setBulkSendDialogOpen] = useState(false);
-  const [isSending, setIsSending] = useState(false);
+  const [transmittalDraft, setTransmittalDraft] = useState<{
+    drawings: { id: string; item_code: string; name: string }[];
+    purpose: TransmittalPurpose;
+  } | null>(null);
+  const [transmittalsSheetOpen, setTransmittalsSheetOpen] = useState(false);
 
   // Download all state
   const [isDownloading, setIsDownloading] = useState(false);
@@ -148,7 +189,7 @@ export function DrawingsOverview({ projectId, projectCode, projectName, producti
   const [statusFilter, setStatusFilter] = useState<string>("all");
 
   // Sort state
-  const [sortBy, setSortBy] = useState<"code" | "name" | "status" | "uploaded">("code");
+  const [sortBy, setSortBy] = useState<"code" | "name" | "status" | "uploaded" | "waiting">("code");
   const [sortDir, setSortDir] = useState<"asc" | "desc">("asc");
 
   // Delete drawing state
@@ -244,36 +285,38 @@ export function DrawingsOverview({ projectId, projectCode, projectName, producti
         if (!ta && !tb) return 0;
         return dir * ta.localeCompare(tb);
       }
+      case "waiting": {
+        // Longest wait first when ascending; items not with the client at the bottom
+        const wa = a.drawing?.status === "sent_to_client" ? a.drawing.sent_to_client_at || "" : "";
+        const wb = b.drawing?.status === "sent_to_client" ? b.drawing.sent_to_client_at || "" : "";
+        if (!wa && wb) return 1;
+        if (wa && !wb) return -1;
+        if (!wa && !wb) return 0;
+        return dir * wa.localeCompare(wb);
+      }
       default:
         return 0;
     }
   });
 
-  // Compute "ready to send" count (uploaded but not yet sent)
-  const readyToSendCount = itemsWithDrawings.filter(
-    (i) => i.drawing?.status === "uploaded"
-  ).length;
-
-  const handleBulkSend = async () => {
-    const drawingIds = itemsWithDrawings
-      .filter((i) => i.drawing?.status === "uploaded")
-      .map((i) => i.drawing!.id);
+  // Compute "ready to send" count (uploaded, through internal checks, not yet sent)
+  const readyToSendCount = itemsWithDrawings.filter((i) => isReadyToSend(i.drawing)).length;
 
-    setIsSending(true);
-    try {
-      const result = await sendDrawingsToClient(projectId, drawingIds);
-      if (result.success) {
-        toast.success(`${result.sentCount} drawing${result.sentCount !== 1 ? "s" : ""} sent to client`);
-        setBulkSendDialogOpen(false);
-        invalidateDrawingCaches();
-      } else {
-        toast.error(result.error || "Failed to send drawings");
-      }
-    } catch {
-      toast.error("Failed to send drawings");
-    } finally {
-      setIsSending(false);
+  // Open the transmittal dialog for a set of items. A selection that is all
+  // approved is most likely being issued for construction.
+  const openTransmittal = (items: typeof itemsWithDrawings) => {
+    const withDrawings = items.filter((i) => i.drawing && i.drawing.status !== "not_uploaded");
+    if (withDrawings.length === 0) {
+      toast.info("No drawings available for selected items");
+      return;
     }
+    const allApproved = withDrawings.every(
+      (i) => i.drawing!.status === "approved" || i.drawing!.status === "approved_with_comments"
+    );
+    setTransmittalDraft({
+      drawings: withDrawings.map((i) => ({ id: i.drawing!.id, item_code: i.item_code, name: i.name })),
+      purpose: allApproved ? "for_construction" : "for_approval",
+    });
   };
 
   const handleDeleteDrawing = async () => {
@@ -535,6 +578,17 @@ export function DrawingsOverview({ projectId, projectCode, projectName, producti
                 <DownloadIcon className="size-3.5 mr-1" />
                 {isDownloading ? "Downloading..." : `Download (${selectedIds.size})`}
               </Button>
+              {!isClient && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-8 px-2.5 text-xs md:h-9 md:px-3 md:text-sm"
+                  onClick={() => openTransmittal(itemsWithDrawings.filter((i) => selectedIds.has(i.id)))}
+                >
+                  <SendIcon className="size-3.5" />
+                  Send ({selectedIds.size})
+                </Button>
+              )}
             </>
           ) : (
             visibleItems.some((i) => i.drawing) && (
@@ -561,15 +615,36 @@ export function DrawingsOverview({ projectId, projectCode, projectName, producti
               </Button>
             )
           )}
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 px-2.5 text-xs md:h-9 md:px-3 md:text-sm"
+            onClick={() => setTransmittalsSheetOpen(true)}
+          >
+            <FileStackIcon className="size-3.5" />
+            Transmittals
+          </Button>
+        {canManageApprovals && (
+          <>
+            <DrawingApprovalChainSettings
+              projectId={projectId}
+              className="h-8 px-2.5 text-xs md:h-9 md:px-3 md:text-sm"
+            />
+            <ApprovalReminderSettings
+              projectId={projectId}
+              cadence={approvalCadence}
+              className="h-8 px-2.5 text-xs md:h-9 md:px-3 md:text-sm"
+            />
+          </>
+        )}
         {!isClient && (
           <>
-            {readyToSendCount > 0 && (
+            {readyToSendCount > 0 && selectedIds.size === 0 && (
               <Button
                 variant="outline"
                 size="sm"
                 className="h-8 px-2.5 text-xs md:h-9 md:px-3 md:text-sm"
-                onClick={() => setBulkSendDialogOpen(true)}
-                disabled={isSending}
+                onClick={() => openTransmittal(itemsWithDrawings.filter((i) => isReadyToSend(i.drawing)))}
               >
                 <SendIcon className="size-3.5" />
                 Send ({readyToSendCount})
@@ -634,6 +709,11 @@ export function DrawingsOverview({ projectId, projectCode, projectName, producti
                       Status <ArrowUpDownIcon className={cn("size-2.5", sortBy === "status" ? "opacity-100" : "opacity-30")} />
                     </button>
                   </TableHead>
+                  <TableHead className="w-16 px-2 text-center">
+                    <button className="flex items-center gap-0.5 hover:text-foreground transition-colors text-xs mx-auto" onClick={() => { setSortBy("waiting"); setSortDir(sortBy === "waiting" && sortDir === "asc" ? "desc" : "asc"); }} title="Days waiting on the client">
+                      Waiting <ArrowUpDownIcon className={cn("size-2.5", sortBy === "waiting" ? "opacity-100" : "opacity-30")} />
+                    </button>
+                  </TableHead>
                   <TableHead className="w-32 px-2">
                     <button className="flex items-center gap-0.5 hover:text-foreground transition-colors text-xs" onClick={() => { setSortBy("uploaded"); setSortDir(sortBy === "uploaded" && sortDir === "asc" ? "desc" : "asc"); }}>
                       Uploaded <ArrowUpDownIcon className={cn("size-2.5", sortBy === "uploaded" ? "opacity-100" : "opacity-30")} />
@@ -645,7 +725,7 @@ export function DrawingsOverview({ projectId, projectCode, projectName, producti
               <TableBody>
                 {visibleItems.map((item, index) => {
                   const status = item.drawing?.status || "not_uploaded";
-                  const config = statusConfig[status] || { variant: "default" as StatusVariant, label: status };
+                  const config = getStatusConfig(item.drawing, !isClient);
                   return (
                     <TableRow key={item.id} className="hover:bg-primary/5 transition-colors">
                       <TableCell onClick={(e) => e.stopPropagation()}>
@@ -680,6 +760,13 @@ export function DrawingsOverview({ projectId, projectCode, projectName, producti
                           {config.label}
                         </StatusBadge>
                       </TableCell>
+                      <TableCell className="text-center px-2 text-xs">
+                        <ApprovalAgeingBadge
+                          sentAt={status === "sent_to_client" ? item.drawing?.sent_to_client_at ?? null : null}
+                          cadence={approvalCadence}
+                          stage={item.drawing?.approval_reminder_stage}
+                        />
+                      </TableCell>
                       <TableCell className="text-xs px-2">
                         {item.drawing?.uploaded_revision_at ? (
                           <div>
@@ -762,7 +849,7 @@ export function DrawingsOverview({ projectId, projectCode, projectName, producti
         )}
         renderCard={(item, index) => {
           const status = item.drawing?.status || "not_uploaded";
-          const config = statusConfig[status] || { variant: "default" as StatusVariant, label: status };
+          const config = getStatusConfig(item.drawing, !isClient);
           const isApproved = item.drawing?.status === "approved" || item.drawing?.status === "approved_with_comments";
           return (
             <GlassCard key={item.id} className="p-2.5 space-y-1.5">
@@ -815,6 +902,14 @@ export function DrawingsOverview({ projectId, projectCode, projectName, producti
                 <StatusBadge variant={config.variant} className="h-5 px-2 text-[11px]">
                   {config.label}
                 </StatusBadge>
+                {status === "sent_to_client" && item.drawing?.sent_to_client_at && (
+                  <ApprovalAgeingBadge
+                    sentAt={item.drawing.sent_to_client_at}
+                    cadence={approvalCadence}
+                    stage={item.drawing.approval_reminder_stage}
+                    className="h-5"
+                  />
+                )}
               </div>
             </GlassCard>
           );
@@ -886,55 +981,32 @@ export function DrawingsOverview({ projectId, projectCode, projectName, producti
         </AlertDialogContent>
       </AlertDialog>
 
-      {/* Bulk send confirmation dialog */}
-      <AlertDialog open={bulkSendDialogOpen} onOpenChange={setBulkSendDialogOpen}>
-        <AlertDialogContent>
-          <AlertDialogHeader>
-            <AlertDialogTitle className="flex items-center gap-2">
-              <SendIcon className="size-5 text-blue-500" />
-              Send {readyToSendCount} Drawing{readyToSendCount !== 1 ? "s" : ""} to Client?
-            </AlertDialogTitle>
-            <AlertDialogDescription asChild>
-              <div className="space-y-3">
-                <p>
-                  This will send all uploaded drawings to the client for review. They will receive an email notification.
-                </p>
-                <div className="max-h-32 overflow-y-auto rounded-md bg-gray-50 p-2 space-y-1">
-                  {itemsWithDrawings
-                    .filter((i) => i.drawing?.status === "uploaded")
-                    .map((item) => (
-                      <div key={item.id} className="text-sm font-mono text-gray-700">
-                        {item.item_code} — {item.name}
-                      </div>
-                    ))}
-                </div>
-              </div>
-            </AlertDialogDescription>
-          </AlertDialogHeader>
-          <AlertDialogFooter>
-            <AlertDialogCancel disabled={isSending}>Cancel</AlertDialogCancel>
-            <AlertDialogAction
-              onClick={(e) => {
-                e.preventDefault();
-                handleBulkSend();
-              }}
-              disabled={isSending}
-            >
-              {isSending ? (
-                <>
-                  <Spinner className="size-4" />
-                  Sending...
-                </>
-              ) : (
-                <>
-                  <SendIcon className="size-4" />
-                  Send All
-                </>
-              )}
-            </AlertDialogAction>
-          </AlertDialogFooter>
-        </AlertDialogContent>
-      </AlertDialog>
+      {/* Issue drawings to the client under a new transmittal */}
+      <IssueTransmittalDialog
+        key={transmittalDraft?.purpose ?? "closed"}
+        projectId={projectId}
+        drawings={transmittalDraft?.drawings ?? []}
+        defaultPurpose={transmittalDraft?.purpose}
+        open={!!transmittalDraft}
+        onOpenChange={(open) => {
+          if (!open) setTransmittalDraft(null);
+        }}
+        onIssued={() => {
+          setSelectedIds(new Set());
+          invalidateDrawingCaches();
+          queryClient.invalidateQueries({ queryKey: drawingKeys.transmittals(projectId) });
+        }}
+      />
+
+      {/* Transmittal log + drawing register */}
+      <TransmittalsSheet
+        projectId={projectId}
+        projectName={projectName || "Project"}
+        projectCode={projectCode || ""}
+        open={transmittalsSheetOpen}
+        onOpenChange={setTransmittalsSheetOpen}
+        isClient={isClient}
+      />
 
       {/* Delete drawing confirmation dialog — admin only */}
       <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
@@ -51,6 +51,8 @@ const MaterialSheet = dynamic(
 import { Skeleton } from "@/components/ui/skeleton";
 import { useMaterials } from "@/lib/react-query/materials";
 import { MaterialsExcelImport, MaterialsExcelExport, MaterialsTemplateButton } from "@/components/materials";
+import { ApprovalReminderSettings } from "@/components/projects/approval-reminder-settings";
+import { DEFAULT_APPROVAL_CADENCE, type ApprovalReminderCadence } from "@/lib/approval-reminders";
 
 interface ScopeItem {
   id: string;
@@ -69,6 +71,7 @@ interface MaterialsOverviewProps {
   materials?: MaterialWithAssignments[];
   scopeItems: ScopeItem[];
   userRole?: string;
+  approvalCadence?: ApprovalReminderCadence;
 }
 
 export function MaterialsOverview({
@@ -78,6 +81,7 @@ export function MaterialsOverview({
   materials: propMaterials,
   scopeItems,
   userRole = "pm",
+  approvalCadence = DEFAULT_APPROVAL_CADENCE,
 }: MaterialsOverviewProps) {
   // Self-fetch via React Query when prop not provided
   const { data: fetchedRaw, isLoading: hookLoading } = useMaterials(projectId);
@@ -93,6 +97,9 @@ export function MaterialsOverview({
       status: m.status,
       assignedItemsCount: itemIds.length,
       assignedItemIds: itemIds,
+      // Pending materials are with the client from the moment they are added
+      awaitingSince: m.status === "pending" ? m.sent_to_client_at ?? m.created_at : null,
+      approvalReminderStage: m.approval_reminder_stage,
     };
   });
 
@@ -309,6 +316,13 @@ export function MaterialsOverview({
             compact
             className="h-8 px-2.5 text-xs md:h-9 md:px-3 md:text-sm"
           />
+          {canManageMaterials && (
+            <ApprovalReminderSettings
+              projectId={projectId}
+              cadence={approvalCadence}
+              className="h-8 px-2.5 text-xs md:h-9 md:px-3 md:text-sm"
+            />
+          )}
           {canManageMaterials && (
             <Button
               onClick={handleAddMaterial}
@@ -334,6 +348,7 @@ export function MaterialsOverview({
               onApprove={canApproveMaterials ? handleApprove : undefined}
               onReject={canApproveMaterials ? handleReject : undefined}
               disabled={isLoading}
+              approvalCadence={approvalCadence}
             />
           ))}
         </div>
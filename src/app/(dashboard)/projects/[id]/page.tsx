@@ -41,7 +41,11 @@ interface Project {
   installation_date: string | null;
   contract_value_manual: number | null;
   currency: string;
+  approval_reminder_days: number | null;
+  approval_escalation_days: number | null;
   client: ProjectClient | null;
+  // Originating CRM opportunity — RLS returns null for roles without CRM access
+  crm_opportunity: { id: string; opportunity_code: string; title: string } | null;
 }
 
 interface ScopeItem {
@@ -152,7 +156,9 @@ export default async function ProjectDetailPage({
         .from("projects")
         .select(`
           id, project_code, name, slug, description, status, installation_date, contract_value_manual, currency, gantt_working_days,
-          client:clients(id, company_name, contact_person, email, phone)
+          approval_reminder_days, approval_escalation_days,
+          client:clients(id, company_name, contact_person, email, phone),
+          crm_opportunity:crm_opportunities!projects_crm_opportunity_id_fkey(id, opportunity_code, title)
         `)
         .eq("id", projectId)
         .single();
@@ -219,6 +225,12 @@ export default async function ProjectDetailPage({
   // All scope items can have drawings (both production and procurement)
   const drawableItems = scopeItems;
 
+  // Drives the ageing column colours on the drawings and materials tabs
+  const approvalCadence = {
+    reminderDays: project.approval_reminder_days,
+    escalationDays: project.approval_escalation_days,
+  };
+
   return (
     <div className="px-4 md:px-6 pt-2 pb-6 flex flex-col min-h-full">
       {/* Header - renders into the App Header bar via context */}
@@ -227,6 +239,7 @@ export default async function ProjectDetailPage({
         projectName={project.name}
         projectCode={project.project_code}
         status={project.status}
+        originOpportunity={project.crm_opportunity}
       />
 
       {/* Tabs - responsive with "More" dropdown on mobile */}
@@ -351,6 +364,8 @@ export default async function ProjectDetailPage({
             projectCurrency={project.currency}
             isClient={isClient}
             isAdmin={userRole === "admin"}
+            approvalCadence={approvalCadence}
+            canManageApprovals={canEdit}
           />
         </TabsContent>
 
@@ -366,6 +381,7 @@ export default async function ProjectDetailPage({
               name: item.name,
             }))}
             userRole={userRole}
+            approvalCadence={approvalCadence}
           />
         </TabsContent>
 
@@ -373,6 +389,8 @@ export default async function ProjectDetailPage({
         <TabsContent value="snagging">
           <SnaggingOverview
             projectId={projectId}
+            projectName={project.name}
+            projectCode={project.project_code}
             scopeItems={scopeItems.map((item) => ({
               id: item.id,
               item_code: item.item_code,
@@ -423,6 +441,8 @@ export default async function ProjectDetailPage({
         <TabsContent value="timeline" className="flex-1 flex flex-col">
           <TimelineOverview
             projectId={projectId}
+            projectName={project.name}
+            projectCode={project.project_code}
             scopeItems={scopeItems.map((item) => ({
               id: item.id,
               item_code: item.item_code,
@@ -430,7 +450,12 @@ export default async function ProjectDetailPage({
               production_percentage: item.production_percentage,
             }))}
             canEdit={canEdit}
+            canEditCompanyCalendar={userRole === "admin"}
             workingDaysMask={(project as any)?.gantt_working_days ?? 62}
+            currentUser={{
+              id: user.id,
+              name: (user.user_metadata?.name as string | undefined) || user.email?.split("@")[0] || "You",
+            }}
           />
         </TabsContent>
 
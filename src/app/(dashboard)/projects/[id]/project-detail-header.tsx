@@ -2,7 +2,7 @@
 
 import { useEffect, useState, useCallback } from "react";
 import Link from "next/link";
-import { ChevronRightIcon, FileBarChartIcon } from "lucide-react";
+import { ChevronRightIcon, FileBarChartIcon, HandshakeIcon } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
@@ -45,6 +45,7 @@ interface ProjectDetailHeaderProps {
   projectName: string;
   projectCode: string;
   status: string;
+  originOpportunity?: { id: string; opportunity_code: string; title: string } | null;
 }
 
 export function ProjectDetailHeader({
@@ -52,6 +53,7 @@ export function ProjectDetailHeader({
   projectName,
   projectCode,
   status,
+  originOpportunity,
 }: ProjectDetailHeaderProps) {
   const { setContent } = usePageHeader();
   const config = statusConfig[status] || { variant: "default" as StatusVariant, label: status };
@@ -136,11 +138,21 @@ export function ProjectDetailHeader({
           <StatusBadge variant={config.variant} dot>
             {config.label}
           </StatusBadge>
+          {originOpportunity && (
+            <Link
+              href={`/crm?opportunity=${originOpportunity.id}`}
+              className="hidden md:flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors shrink-0"
+              title={`Converted from CRM opportunity: ${originOpportunity.title}`}
+            >
+              <HandshakeIcon className="size-3.5" />
+              <span className="font-mono">{originOpportunity.opportunity_code}</span>
+            </Link>
+          )}
         </nav>
       ),
     });
     return () => setContent({});
-  }, [projectName, projectCode, status, projectId, setContent, config.variant, config.label]);
+  }, [projectName, projectCode, status, projectId, setContent, config.variant, config.label, originOpportunity]);
 
   // Dialog renders here — the header button opens it
   return (
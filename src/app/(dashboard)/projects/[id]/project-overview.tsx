@@ -2,6 +2,7 @@
 import Link from "next/link";
 import { format, isPast, differenceInDays } from "date-fns";
 import { cn } from "@/lib/utils";
+import { isSnagOverdue, type SnagSeverity } from "@/lib/snagging";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { GlassCard, GradientIcon } from "@/components/ui/ui-helpers";
@@ -84,6 +85,8 @@ interface Snagging {
   id: string;
   is_resolved: boolean;
   description?: string; // For tooltip display
+  severity?: SnagSeverity;
+  target_fix_date?: string | null;
 }
 
 interface Assignment {
@@ -132,6 +135,10 @@ const activityDescriptions: Record<string, string> = {
   drawing_approved: "approved a drawing",
   drawing_rejected: "rejected a drawing",
   drawing_pm_override: "overrode drawing status",
+  drawing_transmittal_acknowledged: "acknowledged a drawing transmittal",
+  drawing_internal_approved: "signed off a drawing check",
+  drawing_internal_rejected: "rejected a drawing check",
+  drawing_approval_chain_updated: "updated the drawing approval chain",
   material_created: "added a material",
   material_updated: "updated a material",
   material_sent_to_client: "sent material to client",
@@ -148,6 +155,9 @@ const activityDescriptions: Record<string, string> = {
   snagging_created: "reported a snag",
   snagging_updated: "updated a snag",
   snagging_resolved: "resolved a snag",
+  snagging_assigned: "assigned a snag",
+  snagging_reopened: "reopened a snag",
+  snagging_deleted: "deleted a snag",
 };
 
 const getActivityDescription = (action: string): string => {
@@ -281,6 +291,9 @@ export function ProjectOverview({
   // Snagging stats
   const openIssues = snaggingItems.filter((s) => !s.is_resolved).length;
   const openSnaggingList = snaggingItems.filter((s) => !s.is_resolved);
+  const overdueSnaggingList = openSnaggingList.filter((s) =>
+    isSnagOverdue({ is_resolved: s.is_resolved, target_fix_date: s.target_fix_date ?? null })
+  );
 
   // Get specific items for tooltips
   const overdueMilestonesList = milestones.filter((m) => !m.is_completed && isPast(new Date(m.due_date)));
@@ -315,6 +328,18 @@ export function ProjectOverview({
     });
   }
 
+  if (overdueSnaggingList.length > 0) {
+    attentionItems.push({
+      label: "Snag past SLA",
+      count: overdueSnaggingList.length,
+      color: "text-rose-600",
+      tab: "snagging",
+      details: overdueSnaggingList.slice(0, 5).map((s) =>
+        `${s.severity === "critical" ? "[Critical] " : ""}${s.description?.slice(0, 40) || "Issue"}`
+      ),
+    });
+  }
+
   // === WARNING (Amber) - Things that need action ===
   if (pendingMaterialsList.length > 0) {
     attentionItems.push({
@@ -650,6 +675,11 @@ export function ProjectOverview({
                       {openIssues > 0 && (
                         <span className="text-xs text-amber-600 font-medium">({openIssues} open)</span>
                       )}
+                      {overdueSnaggingList.length > 0 && (
+                        <span className="text-xs text-rose-600 font-medium">
+                          {overdueSnaggingList.length} past SLA
+                        </span>
+                      )}
                     </button>
                   </TooltipTrigger>
                   <TooltipContent>Click to view Snagging tab</TooltipContent>
@@ -23,6 +23,7 @@ import {
   ExternalLinkIcon,
 } from "lucide-react";
 import { DrawingUpload, DrawingsList, DrawingApproval } from "@/components/drawings";
+import { CHAIN_APPROVER_ROLES } from "@/lib/drawing-approval-chain";
 import { ProductionProgressEditor, InstallationStatusEditor, ProcurementStatusEditor } from "@/components/scope-items";
 import { ItemMaterialsSection } from "@/components/materials";
 import { ScopeItemHeader } from "./scope-item-header";
@@ -96,9 +97,11 @@ interface DrawingRevision {
   file_size: number | null;
   cad_file_url: string | null;
   cad_file_name: string | null;
+  client_markup_url: string | null;
   notes: string | null;
   created_at: string;
   uploaded_by: string | null;
+  uploader: { name: string } | null;
 }
 
 interface Material {
@@ -248,8 +251,8 @@ export default async function ScopeItemDetailPage({
           .from("drawing_revisions")
           .select(`
             id, revision, file_url, file_name, file_size,
-            cad_file_url, cad_file_name, notes, created_at,
-            uploaded_by
+            cad_file_url, cad_file_name, client_markup_url, notes, created_at,
+            uploaded_by, uploader:users!drawing_revisions_uploaded_by_fkey(name)
           `)
           .eq("drawing_id", drawing.id)
           .order("created_at", { ascending: false })
@@ -279,7 +282,8 @@ export default async function ScopeItemDetailPage({
   // Role-based permissions
   const canEdit = ["admin", "pm"].includes(userRole);
   const canUploadDrawings = ["admin", "pm", "production"].includes(userRole);
-  const canApproveDrawings = ["admin", "pm", "client"].includes(userRole);
+  // Internal approval chain steps are signed off here as well as client responses
+  const canApproveDrawings = ["client", ...CHAIN_APPROVER_ROLES].includes(userRole);
   const canEditProgress = ["admin", "pm", "production"].includes(userRole);
   const canManageMaterials = ["admin", "pm"].includes(userRole);
   const canToggleInstallation = ["admin", "pm"].includes(userRole);
@@ -542,6 +546,7 @@ export default async function ScopeItemDetailPage({
                     currentRevision={drawing?.current_revision || null}
                     hasDrawing={!!drawing}
                     drawingStatus={drawing?.status}
+                    itemCode={scopeItem.item_code}
                   />
                 )}
               </div>
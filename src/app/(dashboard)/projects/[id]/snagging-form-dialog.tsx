@@ -1,10 +1,28 @@
 "use client";
 
 import { useState, useRef } from "react";
-import { useRouter } from "next/navigation";
 import Image from "next/image";
+import { useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
 import { createClient } from "@/lib/supabase/client";
+import { projectTabKeys } from "@/lib/react-query/project-tabs";
+import {
+  createSnaggingItem,
+  updateSnaggingItem,
+  assignSnaggingItem,
+} from "@/lib/actions/snagging";
+import {
+  SNAG_SEVERITIES,
+  SNAG_CATEGORIES,
+  SNAG_SEVERITY_LABELS,
+  SNAG_CATEGORY_LABELS,
+  SNAG_SLA_DAYS,
+  defaultTargetFixDate,
+  type SnagSeverity,
+  type SnagCategory,
+} from "@/lib/snagging";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Spinner } from "@/components/ui/spinner";
@@ -31,11 +49,28 @@ interface ScopeItem {
   name: string;
 }
 
+interface AreaOption {
+  id: string;
+  area_code: string;
+  name: string;
+  floor: string;
+}
+
+interface AssigneeOption {
+  id: string;
+  name: string;
+}
+
 interface Snagging {
   id: string;
   project_id: string;
   item_id: string | null;
+  area_id: string | null;
+  assigned_to: string | null;
   description: string;
+  severity: SnagSeverity;
+  category: SnagCategory | null;
+  target_fix_date: string | null;
   photos: string[] | null;
   is_resolved: boolean;
   resolution_notes: string | null;
@@ -44,19 +79,56 @@ interface Snagging {
 interface SnaggingFormDialogProps {
   projectId: string;
   scopeItems: ScopeItem[];
+  areas: AreaOption[];
+  assignees: AssigneeOption[];
   open: boolean;
   onOpenChange: (open: boolean) => void;
   editItem: Snagging | null;
 }
 
+/**
+ * Upload snag photos to the `snagging` storage bucket and return their public URLs.
+ * Failed files are skipped (logged) so one bad image doesn't block the rest.
+ */
+export async function uploadSnaggingPhotos(projectId: string, files: File[]): Promise<string[]> {
+  const supabase = createClient();
+  const urls: string[] = [];
+
+  for (const file of files) {
+    const fileExt = file.name.split(".").pop();
+    const fileName = `${projectId}/snagging/${Date.now()}_${Math.random().toString(36).substring(7)}.${fileExt}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from("snagging")
+      .upload(fileName, file);
+
+    if (uploadError) {
+      console.error("Upload error:", uploadError);
+      continue;
+    }
+
+    const { data: urlData } = supabase.storage
+      .from("snagging")
+      .getPublicUrl(fileName);
+
+    if (urlData?.publicUrl) {
+      urls.push(urlData.publicUrl);
+    }
+  }
+
+  return urls;
+}
+
 export function SnaggingFormDialog({
   projectId,
   scopeItems,
+  areas,
+  assignees,
   open,
   onOpenChange,
   editItem,
 }: SnaggingFormDialogProps) {
-  const router = useRouter();
+  const queryClient = useQueryClient();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [uploadingImages, setUploadingImages] = useState(false);
@@ -64,6 +136,12 @@ export function SnaggingFormDialog({
   // Form state — initialized from editItem. Parent passes `key={editItem?.id ?? "new-snagging"}`.
   const [description, setDescription] = useState(() => editItem?.description ?? "");
   const [itemId, setItemId] = useState<string>(() => editItem?.item_id ?? "none");
+  const [areaId, setAreaId] = useState<string>(() => editItem?.area_id ?? "none");
+  const [assigneeId, setAssigneeId] = useState<string>(() => editItem?.assigned_to ?? "none");
+  const [severity, setSeverity] = useState<SnagSeverity>(() => editItem?.severity ?? "minor");
+  const [category, setCategory] = useState<string>(() => editItem?.category ?? "none");
+  // Empty = server applies the severity SLA on create
+  const [targetFixDate, setTargetFixDate] = useState(() => editItem?.target_fix_date ?? "");
   const [photos, setPhotos] = useState<string[]>(() => editItem?.photos ?? []);
   const [resolutionNotes, setResolutionNotes] = useState(() => editItem?.resolution_notes ?? "");
 
@@ -78,35 +156,13 @@ export function SnaggingFormDialog({
     if (!files || files.length === 0) return;
 
     setUploadingImages(true);
-    const supabase = createClient();
-    const newPhotos: string[] = [];
 
     try {
-      for (const file of Array.from(files)) {
-        const fileExt = file.name.split(".").pop();
-        const fileName = `${projectId}/snagging/${Date.now()}_${Math.random().toString(36).substring(7)}.${fileExt}`;
-
-        const { error: uploadError } = await supabase.storage
-          .from("snagging")
-          .upload(fileName, file);
-
-        if (uploadError) {
-          console.error("Upload error:", uploadError);
-          continue;
-        }
-
-        const { data: urlData } = supabase.storage
-          .from("snagging")
-          .getPublicUrl(fileName);
-
-        if (urlData?.publicUrl) {
-          newPhotos.push(urlData.publicUrl);
-        }
-      }
-
+      const newPhotos = await uploadSnaggingPhotos(projectId, Array.from(files));
       setPhotos([...photos, ...newPhotos]);
     } catch (error) {
       console.error("Failed to upload images:", error);
+      toast.error("Failed to upload photos");
     } finally {
       setUploadingImages(false);
       if (fileInputRef.current) {
@@ -123,36 +179,47 @@ export function SnaggingFormDialog({
     if (!description.trim()) return;
 
     setIsLoading(true);
-    const supabase = createClient();
 
     try {
       const data = {
-        project_id: projectId,
-        item_id: itemId !== "none" ? itemId : null,
         description: description.trim(),
-        photos: photos.length > 0 ? photos : null,
-        resolution_notes: resolutionNotes.trim() || null,
+        item_id: itemId !== "none" ? itemId : null,
+        area_id: areaId !== "none" ? areaId : null,
+        severity,
+        category: category !== "none" ? (category as SnagCategory) : null,
+        photos,
       };
+      const nextAssignee = assigneeId !== "none" ? assigneeId : null;
 
+      let result;
       if (isEditing && editItem) {
-        const { error } = await supabase
-          .from("snagging")
-          .update(data)
-          .eq("id", editItem.id);
-
-        if (error) throw error;
+        result = await updateSnaggingItem(editItem.id, {
+          ...data,
+          ...(targetFixDate !== (editItem.target_fix_date ?? "") ? { target_fix_date: targetFixDate || null } : {}),
+          ...(editItem.is_resolved ? { resolution_notes: resolutionNotes.trim() || null } : {}),
+        });
+        if (result.success && nextAssignee !== editItem.assigned_to) {
+          result = await assignSnaggingItem(editItem.id, nextAssignee);
+        }
       } else {
-        const { error } = await supabase
-          .from("snagging")
-          .insert(data);
+        result = await createSnaggingItem(projectId, {
+          ...data,
+          assigned_to: nextAssignee,
+          target_fix_date: targetFixDate || null,
+        });
+      }
 
-        if (error) throw error;
+      if (!result.success) {
+        toast.error(result.error || "Failed to save issue");
+        return;
       }
 
+      toast.success(isEditing ? "Issue updated" : "Issue reported");
+      queryClient.invalidateQueries({ queryKey: projectTabKeys.snagging(projectId) });
       handleClose();
-      router.refresh();
     } catch (error) {
       console.error("Failed to save snagging item:", error);
+      toast.error("Failed to save issue");
     } finally {
       setIsLoading(false);
     }
@@ -183,6 +250,56 @@ export function SnaggingFormDialog({
             />
           </div>
 
+          {/* Severity + Category + Target Fix Date */}
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="severity">Severity</Label>
+              <Select value={severity} onValueChange={(v) => setSeverity(v as SnagSeverity)}>
+                <SelectTrigger id="severity" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SNAG_SEVERITIES.map((level) => (
+                    <SelectItem key={level} value={level}>
+                      {SNAG_SEVERITY_LABELS[level]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="category">Category</Label>
+              <Select value={category} onValueChange={setCategory}>
+                <SelectTrigger id="category" className="w-full">
+                  <SelectValue placeholder="Category" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Uncategorized</SelectItem>
+                  {SNAG_CATEGORIES.map((cat) => (
+                    <SelectItem key={cat} value={cat}>
+                      {SNAG_CATEGORY_LABELS[cat]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="target_fix_date">Fix By</Label>
+              <Input
+                id="target_fix_date"
+                type="date"
+                value={targetFixDate}
+                onChange={(e) => setTargetFixDate(e.target.value)}
+              />
+            </div>
+          </div>
+          {!isEditing && !targetFixDate && (
+            <p className="text-xs text-muted-foreground -mt-2">
+              Defaults to {SNAG_SLA_DAYS[severity]} days for {SNAG_SEVERITY_LABELS[severity].toLowerCase()} issues
+              ({defaultTargetFixDate(severity)})
+            </p>
+          )}
+
           {/* Related Item */}
           <div className="space-y-2">
             <Label htmlFor="item">Related Scope Item</Label>
@@ -202,6 +319,43 @@ export function SnaggingFormDialog({
             </Select>
           </div>
 
+          {/* Area + Assignee */}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="area">Area</Label>
+              <Select value={areaId} onValueChange={setAreaId}>
+                <SelectTrigger id="area" className="w-full">
+                  <SelectValue placeholder="Select area (optional)" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No specific area</SelectItem>
+                  {areas.map((area) => (
+                    <SelectItem key={area.id} value={area.id}>
+                      <span className="font-mono text-xs mr-2">{area.area_code}</span>
+                      {area.floor} · {area.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="assignee">Responsible</Label>
+              <Select value={assigneeId} onValueChange={setAssigneeId}>
+                <SelectTrigger id="assignee" className="w-full">
+                  <SelectValue placeholder="Unassigned" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Unassigned</SelectItem>
+                  {assignees.map((user) => (
+                    <SelectItem key={user.id} value={user.id}>
+                      {user.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
           {/* Photos */}
           <div className="space-y-2">
             <Label>Photos</Label>
@@ -246,7 +400,7 @@ export function SnaggingFormDialog({
               />
             </div>
             <p className="text-xs text-muted-foreground">
-              Add photos to document the issue
+              Add &quot;before&quot; photos to document the issue
             </p>
           </div>
 
@@ -1,10 +1,19 @@
 "use client";
 
-import { useState } from "react";
-import { useRouter } from "next/navigation";
+import { useState, useMemo } from "react";
 import Image from "next/image";
-import { createClient } from "@/lib/supabase/client";
+import { useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -24,11 +33,36 @@ import {
   TrashIcon,
   CheckIcon,
   BugIcon,
+  RotateCcwIcon,
+  UserIcon,
+  MapPinIcon,
+  XIcon,
+  AlarmClockIcon,
+  PrinterIcon,
 } from "lucide-react";
-import { format } from "date-fns";
+import { format, differenceInDays } from "date-fns";
 import { Skeleton } from "@/components/ui/skeleton";
-import { useProjectSnagging } from "@/lib/react-query/project-tabs";
+import {
+  projectTabKeys,
+  useProjectSnagging,
+  useProjectAreas,
+  useProjectAssignments,
+} from "@/lib/react-query/project-tabs";
+import {
+  deleteSnaggingItem,
+  reopenSnaggingItem,
+  type Snagging,
+} from "@/lib/actions/snagging";
+import {
+  SNAG_SEVERITIES,
+  SNAG_SEVERITY_LABELS,
+  SNAG_CATEGORY_LABELS,
+  snagDaysOverdue,
+  type SnagSeverity,
+} from "@/lib/snagging";
+import { downloadSnagListPdf } from "@/lib/pdf/generate-snag-list-pdf";
 import { SnaggingFormDialog } from "./snagging-form-dialog";
+import { SnaggingResolveDialog } from "./snagging-resolve-dialog";
 
 interface ScopeItem {
   id: string;
@@ -36,55 +70,83 @@ interface ScopeItem {
   name: string;
 }
 
-interface Snagging {
-  id: string;
-  project_id: string;
-  item_id: string | null;
-  description: string;
-  photos: string[] | null;
-  is_resolved: boolean;
-  resolved_at: string | null;
-  resolved_by: string | null;
-  resolution_notes: string | null;
-  created_by: string | null;
-  created_at: string;
-  item?: {
-    item_code: string;
-    name: string;
-  } | null;
-  creator?: {
-    name: string;
-  } | null;
-  resolver?: {
-    name: string;
-  } | null;
-}
-
 interface SnaggingOverviewProps {
   projectId: string;
+  projectName: string;
+  projectCode: string;
   snaggingItems?: Snagging[];
   scopeItems: ScopeItem[];
 }
 
-type FilterType = "all" | "open" | "resolved";
+type FilterType = "all" | "open" | "overdue" | "resolved";
+type AgeFilter = "all" | "week" | "month" | "older";
+
+const AGE_FILTERS: { value: AgeFilter; label: string }[] = [
+  { value: "all", label: "Any age" },
+  { value: "week", label: "< 7 days" },
+  { value: "month", label: "7–30 days" },
+  { value: "older", label: "> 30 days" },
+];
+
+/** Days a snag has been open (or was open, for resolved snags) */
+function snagAgeDays(item: Snagging): number {
+  const end = item.is_resolved && item.resolved_at ? new Date(item.resolved_at) : new Date();
+  return Math.max(0, differenceInDays(end, new Date(item.created_at)));
+}
+
+const SEVERITY_BADGE: Record<SnagSeverity, "default" | "warning" | "danger"> = {
+  minor: "default",
+  major: "warning",
+  critical: "danger",
+};
+
+function matchesAge(days: number, age: AgeFilter): boolean {
+  if (age === "week") return days < 7;
+  if (age === "month") return days >= 7 && days <= 30;
+  if (age === "older") return days > 30;
+  return true;
+}
 
 export function SnaggingOverview({
   projectId,
+  projectName,
+  projectCode,
   snaggingItems: propItems,
   scopeItems,
 }: SnaggingOverviewProps) {
   const { data: fetchedItems, isLoading: hookLoading } = useProjectSnagging(projectId);
   const snaggingItems = (propItems ?? fetchedItems ?? []) as Snagging[];
 
-  const router = useRouter();
+  const { data: areas = [] } = useProjectAreas(projectId);
+  const { data: assignments = [] } = useProjectAssignments(projectId);
+
+  const queryClient = useQueryClient();
   const [isLoading, setIsLoading] = useState(false);
+  const [isPrinting, setIsPrinting] = useState(false);
   const [formDialogOpen, setFormDialogOpen] = useState(false);
   const [editItem, setEditItem] = useState<Snagging | null>(null);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [deleteItemId, setDeleteItemId] = useState<string | null>(null);
   const [resolveDialogOpen, setResolveDialogOpen] = useState(false);
   const [resolveItem, setResolveItem] = useState<Snagging | null>(null);
+  const [reopenDialogOpen, setReopenDialogOpen] = useState(false);
+  const [reopenItem, setReopenItem] = useState<Snagging | null>(null);
+  const [reopenReason, setReopenReason] = useState("");
   const [filter, setFilter] = useState<FilterType>("all");
+  const [areaFilter, setAreaFilter] = useState("all");
+  const [scopeItemFilter, setScopeItemFilter] = useState("all");
+  const [assigneeFilter, setAssigneeFilter] = useState("all");
+  const [ageFilter, setAgeFilter] = useState<AgeFilter>("all");
+  const [severityFilter, setSeverityFilter] = useState("all");
+
+  // Team members who can be made responsible for a fix (clients excluded)
+  const assignees = useMemo(
+    () =>
+      assignments
+        .filter((a) => a.user.role !== "client")
+        .map((a) => ({ id: a.user.id, name: a.user.name })),
+    [assignments]
+  );
 
   if (hookLoading && !propItems) {
     return <div className="space-y-4"><Skeleton className="h-10 w-full" /><Skeleton className="h-48 w-full" /></div>;
@@ -95,15 +157,64 @@ export function SnaggingOverview({
     total: snaggingItems.length,
     open: snaggingItems.filter((s) => !s.is_resolved).length,
     resolved: snaggingItems.filter((s) => s.is_resolved).length,
+    overdue: snaggingItems.filter((s) => snagDaysOverdue(s) > 0).length,
   };
 
-  // Filter items based on selected filter
+  const matchesAttributeFilters = (item: Snagging) => {
+    if (severityFilter !== "all" && item.severity !== severityFilter) return false;
+    if (areaFilter !== "all" && item.area_id !== areaFilter) return false;
+    if (scopeItemFilter !== "all" && item.item_id !== scopeItemFilter) return false;
+    if (assigneeFilter === "unassigned" && item.assigned_to) return false;
+    if (assigneeFilter !== "all" && assigneeFilter !== "unassigned" && item.assigned_to !== assigneeFilter) {
+      return false;
+    }
+    return matchesAge(snagAgeDays(item), ageFilter);
+  };
+
+  // Filter items based on status tab + attribute filters
   const filteredItems = snaggingItems.filter((item) => {
-    if (filter === "open") return !item.is_resolved;
-    if (filter === "resolved") return item.is_resolved;
-    return true;
+    if (filter === "open" && item.is_resolved) return false;
+    if (filter === "resolved" && !item.is_resolved) return false;
+    if (filter === "overdue" && snagDaysOverdue(item) === 0) return false;
+    return matchesAttributeFilters(item);
   });
 
+  const hasAttributeFilters =
+    areaFilter !== "all" || scopeItemFilter !== "all" || assigneeFilter !== "all" || ageFilter !== "all" ||
+    severityFilter !== "all";
+
+  const clearAttributeFilters = () => {
+    setAreaFilter("all");
+    setScopeItemFilter("all");
+    setAssigneeFilter("all");
+    setAgeFilter("all");
+    setSeverityFilter("all");
+  };
+
+  // Print open snags matching the attribute filters (status tab is ignored)
+  const handlePrint = async () => {
+    const printable = snaggingItems.filter((item) => !item.is_resolved && matchesAttributeFilters(item));
+    if (printable.length === 0) {
+      toast.error("No open issues to print");
+      return;
+    }
+
+    setIsPrinting(true);
+    try {
+      const success = await downloadSnagListPdf({
+        projectName,
+        projectCode,
+        snags: printable,
+        areas,
+      });
+      if (!success) {
+        toast.error("Failed to generate snag list PDF");
+      }
+    } finally {
+      setIsPrinting(false);
+    }
+  };
+
   const handleAdd = () => {
     setEditItem(null);
     setFormDialogOpen(true);
@@ -123,18 +234,20 @@ export function SnaggingOverview({
     if (!deleteItemId) return;
 
     setIsLoading(true);
-    const supabase = createClient();
 
     try {
-      const { error } = await supabase
-        .from("snagging")
-        .delete()
-        .eq("id", deleteItemId);
+      const result = await deleteSnaggingItem(deleteItemId);
 
-      if (error) throw error;
-      router.refresh();
+      if (!result.success) {
+        toast.error(result.error || "Failed to delete issue");
+        return;
+      }
+
+      toast.success("Issue deleted");
+      queryClient.invalidateQueries({ queryKey: projectTabKeys.snagging(projectId) });
     } catch (error) {
       console.error("Failed to delete snagging item:", error);
+      toast.error("Failed to delete issue");
     } finally {
       setIsLoading(false);
       setDeleteDialogOpen(false);
@@ -147,29 +260,34 @@ export function SnaggingOverview({
     setResolveDialogOpen(true);
   };
 
-  const handleResolveConfirm = async () => {
-    if (!resolveItem) return;
+  const handleReopenClick = (item: Snagging) => {
+    setReopenItem(item);
+    setReopenReason("");
+    setReopenDialogOpen(true);
+  };
+
+  const handleReopenConfirm = async () => {
+    if (!reopenItem) return;
 
     setIsLoading(true);
-    const supabase = createClient();
 
     try {
-      const { error } = await supabase
-        .from("snagging")
-        .update({
-          is_resolved: true,
-          resolved_at: new Date().toISOString(),
-        })
-        .eq("id", resolveItem.id);
-
-      if (error) throw error;
-      router.refresh();
+      const result = await reopenSnaggingItem(reopenItem.id, reopenReason.trim() || undefined);
+
+      if (!result.success) {
+        toast.error(result.error || "Failed to reopen issue");
+        return;
+      }
+
+      toast.success("Issue reopened");
+      queryClient.invalidateQueries({ queryKey: projectTabKeys.snagging(projectId) });
     } catch (error) {
-      console.error("Failed to resolve snagging item:", error);
+      console.error("Failed to reopen snagging item:", error);
+      toast.error("Failed to reopen issue");
     } finally {
       setIsLoading(false);
-      setResolveDialogOpen(false);
-      setResolveItem(null);
+      setReopenDialogOpen(false);
+      setReopenItem(null);
     }
   };
 
@@ -190,13 +308,24 @@ export function SnaggingOverview({
                   {stats.resolved > 0 && <span className="text-emerald-600">{stats.resolved} resolved</span>})
                 </>
               )}
+              {stats.overdue > 0 && (
+                <span className="text-rose-600 font-medium"> · {stats.overdue} past SLA</span>
+              )}
             </p>
           </div>
         </div>
-        <Button onClick={handleAdd}>
-          <PlusIcon className="size-4" />
-          Report Issue
-        </Button>
+        <div className="flex items-center gap-2">
+          {stats.open > 0 && (
+            <Button variant="outline" onClick={handlePrint} disabled={isPrinting}>
+              {isPrinting ? <Spinner className="size-4" /> : <PrinterIcon className="size-4" />}
+              Print Snag List
+            </Button>
+          )}
+          <Button onClick={handleAdd}>
+            <PlusIcon className="size-4" />
+            Report Issue
+          </Button>
+        </div>
       </div>
 
       {/* Filter Tabs */}
@@ -222,6 +351,18 @@ export function SnaggingOverview({
           >
             Open ({stats.open})
           </button>
+          {stats.overdue > 0 && (
+            <button
+              onClick={() => setFilter("overdue")}
+              className={`px-3 py-1.5 text-sm font-medium rounded-md transition-all ${
+                filter === "overdue"
+                  ? "bg-white text-rose-600 shadow-sm"
+                  : "text-muted-foreground hover:text-foreground"
+              }`}
+            >
+              Overdue ({stats.overdue})
+            </button>
+          )}
           <button
             onClick={() => setFilter("resolved")}
             className={`px-3 py-1.5 text-sm font-medium rounded-md transition-all ${
@@ -235,115 +376,270 @@ export function SnaggingOverview({
         </div>
       )}
 
+      {/* Attribute Filters */}
+      {snaggingItems.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={severityFilter} onValueChange={setSeverityFilter}>
+            <SelectTrigger size="sm" className="w-[130px]">
+              <SelectValue placeholder="Severity" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Any severity</SelectItem>
+              {SNAG_SEVERITIES.map((level) => (
+                <SelectItem key={level} value={level}>
+                  {SNAG_SEVERITY_LABELS[level]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {areas.length > 0 && (
+            <Select value={areaFilter} onValueChange={setAreaFilter}>
+              <SelectTrigger size="sm" className="w-[170px]">
+                <SelectValue placeholder="Area" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All areas</SelectItem>
+                {areas.map((area) => (
+                  <SelectItem key={area.id} value={area.id}>
+                    {area.floor} · {area.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Select value={scopeItemFilter} onValueChange={setScopeItemFilter}>
+            <SelectTrigger size="sm" className="w-[170px]">
+              <SelectValue placeholder="Scope item" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All items</SelectItem>
+              {scopeItems.map((item) => (
+                <SelectItem key={item.id} value={item.id}>
+                  <span className="font-mono text-xs mr-2">{item.item_code}</span>
+                  {item.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={assigneeFilter} onValueChange={setAssigneeFilter}>
+            <SelectTrigger size="sm" className="w-[160px]">
+              <SelectValue placeholder="Assignee" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Anyone</SelectItem>
+              <SelectItem value="unassigned">Unassigned</SelectItem>
+              {assignees.map((user) => (
+                <SelectItem key={user.id} value={user.id}>
+                  {user.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={ageFilter} onValueChange={(v) => setAgeFilter(v as AgeFilter)}>
+            <SelectTrigger size="sm" className="w-[130px]">
+              <SelectValue placeholder="Age" />
+            </SelectTrigger>
+            <SelectContent>
+              {AGE_FILTERS.map((age) => (
+                <SelectItem key={age.value} value={age.value}>
+                  {age.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {hasAttributeFilters && (
+            <Button size="sm" variant="ghost" onClick={clearAttributeFilters}>
+              <XIcon className="size-3 mr-1" />
+              Clear
+            </Button>
+          )}
+        </div>
+      )}
+
       {/* Items List */}
       {filteredItems.length > 0 ? (
         <div className="space-y-3">
-          {filteredItems.map((item) => (
-            <GlassCard key={item.id} className={`p-4 ${item.is_resolved ? "opacity-60" : ""}`}>
-              <div className="flex gap-4">
-                {/* Photo thumbnail */}
-                <div className="shrink-0">
-                  {item.photos && item.photos.length > 0 ? (
-                    <div className="relative size-16 rounded-lg overflow-hidden bg-muted ring-1 ring-black/5">
-                      <Image
-                        src={item.photos[0]}
-                        alt="Issue photo"
-                        fill
-                        sizes="64px"
-                        className="object-cover"
-                      />
-                      {item.photos.length > 1 && (
-                        <div className="absolute bottom-1 right-1 bg-black/60 text-white text-xs px-1.5 py-0.5 rounded-md font-medium">
-                          +{item.photos.length - 1}
-                        </div>
-                      )}
-                    </div>
-                  ) : (
-                    <div className="size-16 rounded-lg bg-gradient-to-br from-slate-100 to-slate-50 flex items-center justify-center ring-1 ring-black/5">
-                      <ImageIcon className="size-6 text-slate-400" />
+          {filteredItems.map((item) => {
+            const daysOverdue = snagDaysOverdue(item);
+            return (
+              <GlassCard
+                key={item.id}
+                className={`p-4 ${item.is_resolved ? "opacity-60" : ""} ${daysOverdue > 0 ? "ring-1 ring-rose-300" : ""}`}
+              >
+                <div className="flex gap-4">
+                  {/* Photo thumbnail */}
+                  <div className="shrink-0">
+                    {item.photos && item.photos.length > 0 ? (
+                      <div className="relative size-16 rounded-lg overflow-hidden bg-muted ring-1 ring-black/5">
+                        <Image
+                          src={item.photos[0]}
+                          alt="Issue photo"
+                          fill
+                          sizes="64px"
+                          className="object-cover"
+                        />
+                        {item.photos.length > 1 && (
+                          <div className="absolute bottom-1 right-1 bg-black/60 text-white text-xs px-1.5 py-0.5 rounded-md font-medium">
+                            +{item.photos.length - 1}
+                          </div>
+                        )}
+                      </div>
+                    ) : (
+                      <div className="size-16 rounded-lg bg-gradient-to-br from-slate-100 to-slate-50 flex items-center justify-center ring-1 ring-black/5">
+                        <ImageIcon className="size-6 text-slate-400" />
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Content */}
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-start justify-between gap-2 mb-1">
+                      <div className="flex items-center gap-2">
+                        <StatusBadge variant={item.is_resolved ? "success" : "danger"}>
+                          {item.is_resolved ? "Resolved" : "Open"}
+                        </StatusBadge>
+                        <StatusBadge variant={SEVERITY_BADGE[item.severity]}>
+                          {SNAG_SEVERITY_LABELS[item.severity]}
+                        </StatusBadge>
+                        {item.category && (
+                          <span className="text-xs text-muted-foreground">
+                            {SNAG_CATEGORY_LABELS[item.category]}
+                          </span>
+                        )}
+                        {item.item && (
+                          <span className="text-xs text-muted-foreground font-mono bg-slate-100 px-1.5 py-0.5 rounded">
+                            {item.item.item_code}
+                          </span>
+                        )}
+                      </div>
+                      <span className="text-xs text-muted-foreground">
+                        {format(new Date(item.created_at), "MMM d, yyyy")}
+                        {!item.is_resolved && (
+                          <span className={snagAgeDays(item) > 30 ? "text-rose-600" : snagAgeDays(item) >= 7 ? "text-amber-600" : ""}>
+                            {" "}· {snagAgeDays(item)}d open
+                          </span>
+                        )}
+                      </span>
                     </div>
-                  )}
-                </div>
 
-                {/* Content */}
-                <div className="flex-1 min-w-0">
-                  <div className="flex items-start justify-between gap-2 mb-1">
-                    <div className="flex items-center gap-2">
-                      <StatusBadge variant={item.is_resolved ? "success" : "danger"}>
-                        {item.is_resolved ? "Resolved" : "Open"}
-                      </StatusBadge>
-                      {item.item && (
-                        <span className="text-xs text-muted-foreground font-mono bg-slate-100 px-1.5 py-0.5 rounded">
-                          {item.item.item_code}
+                    <p className="text-sm mb-2">{item.description}</p>
+
+                    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-muted-foreground mb-2">
+                      {item.item && <span>Related to: {item.item.name}</span>}
+                      {item.area && (
+                        <span className="flex items-center gap-1">
+                          <MapPinIcon className="size-3" />
+                          {item.area.floor} · {item.area.name}
+                        </span>
+                      )}
+                      <span className="flex items-center gap-1">
+                        <UserIcon className="size-3" />
+                        {item.assignee?.name ?? "Unassigned"}
+                      </span>
+                      {item.target_fix_date && !item.is_resolved && (
+                        <span className={`flex items-center gap-1 ${daysOverdue > 0 ? "text-rose-600 font-medium" : ""}`}>
+                          <AlarmClockIcon className="size-3" />
+                          {daysOverdue > 0
+                            ? `${daysOverdue}d past SLA (fix by ${format(new Date(item.target_fix_date), "MMM d")})`
+                            : `Fix by ${format(new Date(item.target_fix_date), "MMM d, yyyy")}`}
+                        </span>
+                      )}
+                      {item.reopen_count > 0 && (
+                        <span className="text-rose-600">
+                          Reopened {item.reopen_count}×
                         </span>
                       )}
                     </div>
-                    <span className="text-xs text-muted-foreground">
-                      {format(new Date(item.created_at), "MMM d, yyyy")}
-                    </span>
-                  </div>
 
-                  <p className="text-sm mb-2">{item.description}</p>
-
-                  {item.item && (
-                    <p className="text-xs text-muted-foreground mb-2">
-                      Related to: {item.item.name}
-                    </p>
-                  )}
-
-                  {item.is_resolved && item.resolution_notes && (
-                    <div className="p-2.5 rounded-lg bg-gradient-to-br from-emerald-50 to-teal-50 dark:from-emerald-900/20 dark:to-teal-900/20 mb-2 ring-1 ring-emerald-200/50">
-                      <p className="text-xs font-medium text-emerald-700 dark:text-emerald-400">
-                        Resolution: {item.resolution_notes}
-                      </p>
-                    </div>
-                  )}
+                    {item.is_resolved && (item.resolution_notes || (item.resolution_photos?.length ?? 0) > 0) && (
+                      <div className="p-2.5 rounded-lg bg-gradient-to-br from-emerald-50 to-teal-50 dark:from-emerald-900/20 dark:to-teal-900/20 mb-2 ring-1 ring-emerald-200/50">
+                        {item.resolution_notes && (
+                          <p className="text-xs font-medium text-emerald-700 dark:text-emerald-400">
+                            Resolution: {item.resolution_notes}
+                          </p>
+                        )}
+                        {item.resolution_photos && item.resolution_photos.length > 0 && (
+                          <div className="flex gap-1.5 mt-2">
+                            {item.resolution_photos.map((url, index) => (
+                              <div key={url} className="relative size-10 rounded-md overflow-hidden ring-1 ring-emerald-200">
+                                <Image src={url} alt={`After ${index + 1}`} fill sizes="40px" className="object-cover" />
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                        {item.resolver && (
+                          <p className="text-[11px] text-emerald-700/70 mt-1">
+                            by {item.resolver.name}
+                            {item.resolved_at && ` on ${format(new Date(item.resolved_at), "MMM d, yyyy")}`}
+                          </p>
+                        )}
+                      </div>
+                    )}
 
-                  {/* Actions */}
-                  <div className="flex items-center gap-2">
-                    {!item.is_resolved && (
+                    {/* Actions */}
+                    <div className="flex items-center gap-2">
+                      {!item.is_resolved && (
+                        <Button
+                          size="sm"
+                          onClick={() => handleResolveClick(item)}
+                          disabled={isLoading}
+                        >
+                          <CheckIcon className="size-3 mr-1" />
+                          Resolve
+                        </Button>
+                      )}
+                      {item.is_resolved && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleReopenClick(item)}
+                          disabled={isLoading}
+                        >
+                          <RotateCcwIcon className="size-3 mr-1" />
+                          Reopen
+                        </Button>
+                      )}
                       <Button
                         size="sm"
-                        onClick={() => handleResolveClick(item)}
+                        variant="ghost"
+                        onClick={() => handleEdit(item)}
                         disabled={isLoading}
                       >
-                        <CheckIcon className="size-3 mr-1" />
-                        Resolve
+                        <PencilIcon className="size-3 mr-1" />
+                        Edit
                       </Button>
-                    )}
-                    <Button
-                      size="sm"
-                      variant="ghost"
-                      onClick={() => handleEdit(item)}
-                      disabled={isLoading}
-                    >
-                      <PencilIcon className="size-3 mr-1" />
-                      Edit
-                    </Button>
-                    <Button
-                      size="sm"
-                      variant="ghost"
-                      onClick={() => handleDeleteClick(item.id)}
-                      disabled={isLoading}
-                      className="text-rose-600 hover:text-rose-700 hover:bg-rose-50"
-                    >
-                      <TrashIcon className="size-3 mr-1" />
-                      Delete
-                    </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleDeleteClick(item.id)}
+                        disabled={isLoading}
+                        className="text-rose-600 hover:text-rose-700 hover:bg-rose-50"
+                      >
+                        <TrashIcon className="size-3 mr-1" />
+                        Delete
+                      </Button>
+                    </div>
                   </div>
                 </div>
-              </div>
-            </GlassCard>
-          ))}
+              </GlassCard>
+            );
+          })}
         </div>
       ) : snaggingItems.length > 0 ? (
         // Items exist but none match current filter
         <EmptyState
           icon={<BugIcon className="size-6" />}
-          title={filter === "open" ? "No open issues" : "No resolved issues"}
-          description={filter === "open"
-            ? "All issues have been resolved. Great job!"
-            : "No issues have been resolved yet."}
+          title={hasAttributeFilters
+            ? "No matching issues"
+            : filter === "open" ? "No open issues"
+              : filter === "overdue" ? "No overdue issues" : "No resolved issues"}
+          description={hasAttributeFilters
+            ? "No issues match the selected filters."
+            : filter === "open"
+              ? "All issues have been resolved. Great job!"
+              : filter === "overdue"
+                ? "All open issues are within their target fix dates."
+                : "No issues have been resolved yet."}
         />
       ) : (
         // No items at all
@@ -365,6 +661,8 @@ export function SnaggingOverview({
         key={editItem?.id ?? "new-snagging"}
         projectId={projectId}
         scopeItems={scopeItems}
+        areas={areas}
+        assignees={assignees}
         open={formDialogOpen}
         onOpenChange={setFormDialogOpen}
         editItem={editItem}
@@ -376,7 +674,7 @@ export function SnaggingOverview({
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Issue</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete this snagging item? This action cannot be undone.
+              Are you sure you want to delete this snagging item? It will be removed from the list but kept in the project history.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -403,30 +701,52 @@ export function SnaggingOverview({
       </AlertDialog>
 
       {/* Resolve Dialog */}
-      <AlertDialog open={resolveDialogOpen} onOpenChange={setResolveDialogOpen}>
+      <SnaggingResolveDialog
+        key={resolveItem?.id ?? "resolve-snagging"}
+        projectId={projectId}
+        snag={resolveItem}
+        open={resolveDialogOpen}
+        onOpenChange={(open) => {
+          setResolveDialogOpen(open);
+          if (!open) setResolveItem(null);
+        }}
+      />
+
+      {/* Reopen Dialog */}
+      <AlertDialog open={reopenDialogOpen} onOpenChange={setReopenDialogOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Resolve Issue</AlertDialogTitle>
+            <AlertDialogTitle>Reopen Issue</AlertDialogTitle>
             <AlertDialogDescription>
-              Mark this issue as resolved? This indicates the defect has been fixed.
+              The resolution will be cleared and the assignee notified.
             </AlertDialogDescription>
           </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="reopen-reason">Reason</Label>
+            <Textarea
+              id="reopen-reason"
+              placeholder="Why is this issue being reopened?"
+              value={reopenReason}
+              onChange={(e) => setReopenReason(e.target.value)}
+              rows={2}
+            />
+          </div>
           <AlertDialogFooter>
             <AlertDialogCancel disabled={isLoading}>Cancel</AlertDialogCancel>
             <AlertDialogAction
               onClick={(e) => {
                 e.preventDefault();
-                handleResolveConfirm();
+                handleReopenConfirm();
               }}
               disabled={isLoading}
             >
               {isLoading ? (
                 <>
                   <Spinner className="size-4 mr-2" />
-                  Resolving...
+                  Reopening...
                 </>
               ) : (
-                "Mark as Resolved"
+                "Reopen"
               )}
             </AlertDialogAction>
           </AlertDialogFooter>
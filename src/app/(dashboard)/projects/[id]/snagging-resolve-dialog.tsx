@@ -0,0 +1,186 @@
+"use client";
+
+import { useState, useRef } from "react";
+import Image from "next/image";
+import { useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { projectTabKeys } from "@/lib/react-query/project-tabs";
+import { resolveSnaggingItem } from "@/lib/actions/snagging";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Spinner } from "@/components/ui/spinner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { PlusIcon, XIcon } from "lucide-react";
+import { uploadSnaggingPhotos } from "./snagging-form-dialog";
+
+interface SnaggingResolveDialogProps {
+  projectId: string;
+  snag: { id: string; description: string; photos: string[] | null } | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Resolve a snag with notes and "after" photos.
+ * The snag's original photos are shown as the "before" reference.
+ */
+export function SnaggingResolveDialog({
+  projectId,
+  snag,
+  open,
+  onOpenChange,
+}: SnaggingResolveDialogProps) {
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [uploadingImages, setUploadingImages] = useState(false);
+
+  // Parent passes `key={snag?.id}` so state resets per snag
+  const [notes, setNotes] = useState("");
+  const [afterPhotos, setAfterPhotos] = useState<string[]>([]);
+
+  const beforePhotos = snag?.photos ?? [];
+
+  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (!files || files.length === 0) return;
+
+    setUploadingImages(true);
+    try {
+      const uploaded = await uploadSnaggingPhotos(projectId, Array.from(files));
+      setAfterPhotos([...afterPhotos, ...uploaded]);
+    } catch (error) {
+      console.error("Failed to upload images:", error);
+      toast.error("Failed to upload photos");
+    } finally {
+      setUploadingImages(false);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
+    }
+  };
+
+  const handleResolve = async () => {
+    if (!snag) return;
+
+    setIsLoading(true);
+    try {
+      const result = await resolveSnaggingItem(snag.id, {
+        resolution_notes: notes.trim() || null,
+        resolution_photos: afterPhotos,
+      });
+
+      if (!result.success) {
+        toast.error(result.error || "Failed to resolve issue");
+        return;
+      }
+
+      toast.success("Issue resolved");
+      queryClient.invalidateQueries({ queryKey: projectTabKeys.snagging(projectId) });
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Failed to resolve snagging item:", error);
+      toast.error("Failed to resolve issue");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Resolve Issue</DialogTitle>
+          <DialogDescription className="line-clamp-2">
+            {snag?.description}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {beforePhotos.length > 0 && (
+            <div className="space-y-2">
+              <Label>Before</Label>
+              <div className="flex flex-wrap gap-2">
+                {beforePhotos.map((url, index) => (
+                  <div key={url} className="relative size-16 rounded-md overflow-hidden ring-1 ring-black/5">
+                    <Image src={url} alt={`Before ${index + 1}`} fill sizes="64px" className="object-cover" />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>After</Label>
+            <div className="flex flex-wrap gap-2">
+              {afterPhotos.map((url, index) => (
+                <div key={url} className="relative size-20 rounded-md overflow-hidden group">
+                  <Image src={url} alt={`After ${index + 1}`} fill sizes="80px" className="object-cover" />
+                  <button
+                    type="button"
+                    onClick={() => setAfterPhotos(afterPhotos.filter((_, i) => i !== index))}
+                    className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center"
+                  >
+                    <XIcon className="size-4 text-white" />
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={uploadingImages}
+                className="size-20 rounded-md border-2 border-dashed flex items-center justify-center hover:bg-muted transition-colors"
+              >
+                {uploadingImages ? (
+                  <Spinner className="size-4" />
+                ) : (
+                  <PlusIcon className="size-5 text-muted-foreground" />
+                )}
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/*"
+                multiple
+                onChange={handleImageUpload}
+                className="hidden"
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Photograph the fixed defect from the same angle as the original
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="resolve-notes">Resolution Notes</Label>
+            <Textarea
+              id="resolve-notes"
+              placeholder="How was this issue resolved?"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button onClick={handleResolve} disabled={isLoading || uploadingImages}>
+            {isLoading && <Spinner className="size-4 mr-2" />}
+            Mark as Resolved
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
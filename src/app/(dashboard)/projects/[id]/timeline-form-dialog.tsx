@@ -9,6 +9,8 @@ import { Spinner } from "@/components/ui/spinner";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
 import {
   Sheet,
   SheetContent,
@@ -39,15 +41,21 @@ import {
   useUpdateTimelineDependency,
   useDeleteTimelineDependency,
 } from "@/lib/react-query/timelines";
+import { useGanttResources } from "@/lib/react-query/resources";
+import { RESOURCE_TYPE_LABELS } from "@/lib/resource-loading";
+import { describeProgressSource } from "@/lib/gantt-progress";
 import {
   type GanttItem as TimelineItem,
+  type GanttResourceAllocation,
   type GanttItemType,
   type Priority,
   type DependencyType,
   type GanttDependency as TimelineDependency,
   type PhaseKey,
+  type ConstraintType,
 } from "@/lib/actions/timelines";
 import { PHASE_ORDER, PHASE_LABELS, PHASE_COLORS } from "@/components/gantt/gantt-types";
+import { CONSTRAINT_LABELS } from "@/components/gantt/gantt-constraints";
 import {
   ListTodoIcon,
   LinkIcon,
@@ -128,6 +136,8 @@ export function TimelineFormDialog({
   const updateDepMutation = useUpdateTimelineDependency(projectId);
   const deleteDepMutation = useDeleteTimelineDependency(projectId);
 
+  const { data: resources = [] } = useGanttResources();
+
   const isLoading = createMutation.isPending || updateMutation.isPending;
 
   // Form state
@@ -138,6 +148,12 @@ export function TimelineFormDialog({
   const [startDate, setStartDate] = useState("");
   const [endDate, setEndDate] = useState("");
   const [linkedScopeItemIds, setLinkedScopeItemIds] = useState<string[]>([]);
+  const [resourceAllocations, setResourceAllocations] = useState<GanttResourceAllocation[]>([]);
+  /** null = computed from linked items / subtasks */
+  const [manualProgress, setManualProgress] = useState<number | null>(null);
+  // Fixed-date rule — the date is only kept while a type is chosen
+  const [constraintType, setConstraintType] = useState<ConstraintType | "">("");
+  const [constraintDate, setConstraintDate] = useState("");
   // Phase is a LABEL (phase_key), not a parent relationship. A task keeps its
   // parent_id hierarchy independent of phase labeling.
   const [phaseKey, setPhaseKey] = useState<PhaseKey | "">("");
@@ -197,6 +213,13 @@ export function TimelineFormDialog({
     );
   }, [scopeItems, scopeSearch]);
 
+  const resourceById = useMemo(() => new Map(resources.map((r) => [r.id, r])), [resources]);
+  // Active resources not yet on this task
+  const availableResources = useMemo(
+    () => resources.filter((r) => r.is_active && !resourceAllocations.some((a) => a.resource_id === r.id)),
+    [resources, resourceAllocations]
+  );
+
   const itemById = useMemo(() => {
     return new Map(timelineItems.map((i) => [i.id, i]));
   }, [timelineItems]);
@@ -234,6 +257,12 @@ export function TimelineFormDialog({
     return dependencies.filter((d) => d.source_id === editItem.id);
   }, [dependencies, editItem]);
 
+  // A link as the user sees it, so edits to a link someone else changed are rejected
+  const depSnapshot = (depId: string) => {
+    const dep = dependencies.find((d) => d.id === depId);
+    return dep && { dependency_type: dep.dependency_type, lag_days: dep.lag_days };
+  };
+
   // Tasks that have children (parents/summary tasks). Dependencies should
   // connect leaf tasks only — parent dates come from aggregation, so a dep
   // pointing at a parent silently has no effect.
@@ -281,6 +310,10 @@ export function TimelineFormDialog({
         setLinkedScopeItemIds(
           editItem.linked_scope_item_ids || []
         );
+        setResourceAllocations(editItem.resource_allocations || []);
+        setManualProgress(editItem.progress_override ?? null);
+        setConstraintType(editItem.constraint_type ?? "");
+        setConstraintDate(editItem.constraint_date?.slice(0, 10) ?? "");
         if (editItem.item_type === "task") {
           const directParent = editItem.parent_id ? itemById.get(editItem.parent_id) : null;
           setPhaseKey(derivePhaseKey(editItem));
@@ -299,6 +332,10 @@ export function TimelineFormDialog({
         setStartDate("");
         setEndDate("");
         setLinkedScopeItemIds([]);
+        setResourceAllocations([]);
+        setManualProgress(null);
+        setConstraintType("");
+        setConstraintDate("");
         setPhaseKey("");
         setParentTaskId("");
         setUseDuration(false);
@@ -323,12 +360,29 @@ export function TimelineFormDialog({
     onOpenChange(false);
   };
 
+  const setAllocation = (resourceId: string, percent: number) => {
+    setResourceAllocations((prev) =>
+      prev.map((a) => (a.resource_id === resourceId ? { ...a, allocation_percent: percent } : a))
+    );
+  };
+
   const toggleScopeItem = (id: string) => {
     setLinkedScopeItemIds((prev) =>
       prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]
     );
   };
 
+  const computedProgressHint =
+    editItem && editItem.progress_source !== "override"
+      ? `${Math.round(editItem.progress ?? 0)}% — ${
+          describeProgressSource(editItem.progress_source, {
+            phaseKey: editItem.phase_key,
+            linkedCount: editItem.linked_scope_item_ids?.length,
+            childCount: timelineItems.filter((t) => t.parent_id === editItem.id).length,
+          }) ?? "no linked items or subtasks yet"
+        }`
+      : "Calculated from linked scope items, or the average of subtasks";
+
   const handleSubmit = async () => {
     if (!name.trim() || !startDate || !endDate) return;
 
@@ -337,6 +391,10 @@ export function TimelineFormDialog({
       toast.error("End date must be on or after start date");
       return;
     }
+    if (constraintType && !constraintDate) {
+      toast.error("Pick a date for the constraint");
+      return;
+    }
 
     const data = {
       project_id: projectId,
@@ -351,12 +409,17 @@ export function TimelineFormDialog({
       // Phase is a label — completely independent of parent_id.
       phase_key: itemType === "task" ? (phaseKey || null) : null,
       linked_scope_item_ids: itemType === "task" ? linkedScopeItemIds : [],
+      resource_allocations: itemType === "task" ? resourceAllocations : [],
+      progress_override: itemType === "task" ? manualProgress : null,
       is_completed: itemType === "milestone" ? false : undefined,
+      constraint_type: constraintType || null,
+      constraint_date: constraintType ? constraintDate : null,
     };
 
     if (isEditing && editItem) {
       updateMutation.mutate(
-        { timelineId: editItem.id, input: data },
+        // Compared against the row as it was when the dialog opened
+        { timelineId: editItem.id, input: data, expectedUpdatedAt: editItem.updated_at },
         { onSuccess: () => handleClose() }
       );
     } else {
@@ -634,6 +697,92 @@ export function TimelineFormDialog({
                 </p>
               )}
             </div>
+
+            {/* Date constraint — fixed dates dependencies can't move */}
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label className="text-xs">Constraint</Label>
+                <Select
+                  value={constraintType || NO_PARENT_VALUE}
+                  onValueChange={(v) => {
+                    const next = v === NO_PARENT_VALUE ? "" : (v as ConstraintType);
+                    setConstraintType(next);
+                    if (next && !constraintDate) {
+                      setConstraintDate(next === "finish_no_later_than" ? endDate : startDate);
+                    }
+                  }}
+                >
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_PARENT_VALUE}>None (as soon as possible)</SelectItem>
+                    {(Object.keys(CONSTRAINT_LABELS) as ConstraintType[]).map((key) => (
+                      <SelectItem key={key} value={key}>
+                        {CONSTRAINT_LABELS[key]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {constraintType && (
+                <div className="space-y-1.5">
+                  <Label htmlFor="constraint_date" className="text-xs">
+                    {constraintType === "finish_no_later_than" ? "Deadline" : "Constraint date"}
+                  </Label>
+                  <Input
+                    id="constraint_date"
+                    type="date"
+                    className="h-8"
+                    value={constraintDate}
+                    onChange={(e) => setConstraintDate(e.target.value)}
+                  />
+                </div>
+              )}
+            </div>
+
+            {/* Progress — computed unless the PM opts out with a manual value */}
+            {itemType === "task" && (
+              <div className="space-y-1.5">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="manual_progress">Progress</Label>
+                  <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                    Set manually
+                    <Switch
+                      checked={manualProgress !== null}
+                      onCheckedChange={(checked) =>
+                        setManualProgress(checked ? Math.round(editItem?.progress ?? 0) : null)
+                      }
+                    />
+                  </label>
+                </div>
+                {manualProgress !== null ? (
+                  <div className="flex items-center gap-3">
+                    <Slider
+                      value={[manualProgress]}
+                      min={0}
+                      max={100}
+                      step={5}
+                      onValueChange={([value]) => setManualProgress(value)}
+                      className="flex-1"
+                    />
+                    <Input
+                      id="manual_progress"
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={manualProgress}
+                      onChange={(e) =>
+                        setManualProgress(Math.min(100, Math.max(0, Math.round(Number(e.target.value)) || 0)))
+                      }
+                      className="w-20 h-8"
+                    />
+                  </div>
+                ) : (
+                  <p className="text-xs text-muted-foreground">{computedProgressHint}</p>
+                )}
+              </div>
+            )}
           </TabsContent>
 
           {/* Links Tab */}
@@ -648,7 +797,8 @@ export function TimelineFormDialog({
                 </span>
               </div>
               <p className="text-xs text-muted-foreground">
-                Progress will be calculated from linked items' production percentage
+                Progress follows each linked item&apos;s status for this task&apos;s phase — drawing approval,
+                production %, procurement, shipment or installation
               </p>
               <div className="relative">
                 <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 size-4 text-muted-foreground" />
@@ -691,6 +841,95 @@ export function TimelineFormDialog({
               </ScrollArea>
             </div>
             )}
+
+            {/* Crews & Resources Section */}
+            {itemType === "task" && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Crews &amp; Resources</Label>
+                  <span className="text-xs text-muted-foreground">
+                    {resourceAllocations.length} assigned
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Allocation is the share of the crew&apos;s working day this task uses
+                </p>
+                {resourceAllocations.length > 0 && (
+                  <div className="space-y-1 rounded-md border p-2">
+                    {resourceAllocations.map((allocation) => {
+                      const resource = resourceById.get(allocation.resource_id);
+                      return (
+                        <div key={allocation.resource_id} className="flex items-center gap-2">
+                          <span className="text-sm truncate flex-1">
+                            {resource?.name ?? "Unknown resource"}
+                            {resource && !resource.is_active && (
+                              <span className="ml-1 text-xs text-muted-foreground">(inactive)</span>
+                            )}
+                          </span>
+                          <Input
+                            type="number"
+                            min={1}
+                            max={100}
+                            step={5}
+                            value={allocation.allocation_percent}
+                            onChange={(e) =>
+                              setAllocation(
+                                allocation.resource_id,
+                                Math.min(100, Math.max(1, Number(e.target.value) || 1))
+                              )
+                            }
+                            className="h-7 w-20 text-xs"
+                            aria-label={`Allocation for ${resource?.name ?? "resource"}`}
+                          />
+                          <span className="text-xs text-muted-foreground">%</span>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            className="size-7"
+                            onClick={() =>
+                              setResourceAllocations((prev) =>
+                                prev.filter((a) => a.resource_id !== allocation.resource_id)
+                              )
+                            }
+                          >
+                            <XIcon className="size-3.5" />
+                          </Button>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+                {availableResources.length > 0 ? (
+                  <Select
+                    value=""
+                    onValueChange={(resourceId) =>
+                      setResourceAllocations((prev) => [...prev, { resource_id: resourceId, allocation_percent: 100 }])
+                    }
+                  >
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue placeholder="Assign a crew or resource..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {availableResources.map((resource) => (
+                        <SelectItem key={resource.id} value={resource.id}>
+                          {resource.name}
+                          <span className="ml-2 text-muted-foreground">
+                            {RESOURCE_TYPE_LABELS[resource.resource_type]}
+                          </span>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  resources.length === 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      No crews defined yet — add them on the Resource Loading page.
+                    </p>
+                  )
+                )}
+              </div>
+            )}
           </TabsContent>
 
           {/* Dependencies Tab */}
@@ -732,9 +971,9 @@ export function TimelineFormDialog({
                     });
                   }}
                   onUpdate={(depId, updates) => {
-                    updateDepMutation.mutate({ dependencyId: depId, updates });
+                    updateDepMutation.mutate({ dependencyId: depId, updates, expected: depSnapshot(depId) });
                   }}
-                  onDelete={(depId) => deleteDepMutation.mutate(depId)}
+                  onDelete={(depId) => deleteDepMutation.mutate({ dependencyId: depId, expected: depSnapshot(depId) })}
                 />
 
                 <DepSection
@@ -756,9 +995,9 @@ export function TimelineFormDialog({
                     });
                   }}
                   onUpdate={(depId, updates) => {
-                    updateDepMutation.mutate({ dependencyId: depId, updates });
+                    updateDepMutation.mutate({ dependencyId: depId, updates, expected: depSnapshot(depId) });
                   }}
-                  onDelete={(depId) => deleteDepMutation.mutate(depId)}
+                  onDelete={(depId) => deleteDepMutation.mutate({ dependencyId: depId, expected: depSnapshot(depId) })}
                 />
               </>
             )}
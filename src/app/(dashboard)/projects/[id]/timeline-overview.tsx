@@ -11,24 +11,36 @@ interface ScopeItem {
 
 interface TimelineOverviewProps {
   projectId: string;
+  projectName?: string;
+  projectCode?: string;
   scopeItems: ScopeItem[];
   canEdit?: boolean;
+  canEditCompanyCalendar?: boolean;
   workingDaysMask?: number;
+  currentUser?: { id: string; name: string };
 }
 
 export function TimelineOverview({
   projectId,
+  projectName,
+  projectCode,
   scopeItems,
   canEdit = false,
+  canEditCompanyCalendar = false,
   workingDaysMask,
+  currentUser,
 }: TimelineOverviewProps) {
   return (
     <div className="flex-1 h-full min-h-[500px]">
       <TimelineClient
         projectId={projectId}
+        projectName={projectName}
+        projectCode={projectCode}
         scopeItems={scopeItems}
         canEdit={canEdit}
+        canEditCompanyCalendar={canEditCompanyCalendar}
         workingDaysMask={workingDaysMask}
+        currentUser={currentUser}
       />
     </div>
   );
@@ -0,0 +1,89 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Spinner } from "@/components/ui/spinner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface BaselineSaveDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  isSaving: boolean;
+  onSave: (input: { name: string; description: string | null }) => void;
+}
+
+/**
+ * Name a schedule baseline before snapshotting the current task dates.
+ * Parent remounts via `key` when reopened so the fields start fresh.
+ */
+export function BaselineSaveDialog({ open, onOpenChange, isSaving, onSave }: BaselineSaveDialogProps) {
+  const [name, setName] = useState(() => `Baseline ${format(new Date(), "dd MMM yyyy")}`);
+  const [description, setDescription] = useState("");
+
+  const trimmed = name.trim();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!trimmed) return;
+    onSave({ name: trimmed, description: description.trim() || null });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Save Baseline</DialogTitle>
+            <DialogDescription>
+              Snapshot the start and end date of every task so later changes can be compared against it.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="baseline-name">Name</Label>
+              <Input
+                id="baseline-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={100}
+                autoFocus
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="baseline-description">Note (optional)</Label>
+              <Textarea
+                id="baseline-description"
+                placeholder="e.g. Approved by client at kick-off"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={2}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || !trimmed}>
+              {isSaving && <Spinner className="size-4 mr-2" />}
+              Save Baseline
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
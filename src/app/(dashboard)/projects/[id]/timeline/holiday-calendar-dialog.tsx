@@ -0,0 +1,301 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import { CalendarPlusIcon, Trash2Icon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Spinner } from "@/components/ui/spinner";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  HOLIDAY_CATEGORY_LABELS,
+  TURKISH_RELIGIOUS_HOLIDAY_YEARS,
+  turkishPublicHolidays,
+  type HolidayCategory,
+  type HolidayPeriod,
+} from "@/lib/holiday-calendar";
+import type { GanttHoliday, ProjectHolidayCalendar } from "@/lib/actions/timelines";
+
+type HolidayScope = "company" | "project";
+
+interface HolidayCalendarDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  calendar: ProjectHolidayCalendar | undefined;
+  /** PM/Admin — may edit the project calendar and the company toggle */
+  canEdit: boolean;
+  /** Admin only — may edit the company calendar */
+  canEditCompany: boolean;
+  isSaving: boolean;
+  onAdd: (input: { scope: HolidayScope; periods: HolidayPeriod[] }) => void;
+  onDelete: (holidayId: string) => void;
+  onUseCompanyChange: (enabled: boolean) => void;
+}
+
+function formatPeriod(holiday: Pick<HolidayPeriod, "start_date" | "end_date">): string {
+  const start = new Date(`${holiday.start_date}T00:00:00`);
+  if (holiday.start_date === holiday.end_date) return format(start, "EEE d MMM yyyy");
+  const end = new Date(`${holiday.end_date}T00:00:00`);
+  const days = Math.round((end.getTime() - start.getTime()) / 86400000) + 1;
+  return `${format(start, "d MMM")} – ${format(end, "d MMM yyyy")} (${days}d)`;
+}
+
+/**
+ * Company + project holiday calendars for the timeline. Company holidays
+ * (public holidays, Bayram) are Admin-managed and shared by every project;
+ * each project can opt out and add its own closures.
+ * Parent remounts via `key` when reopened so the form starts fresh.
+ */
+export function HolidayCalendarDialog({
+  open,
+  onOpenChange,
+  calendar,
+  canEdit,
+  canEditCompany,
+  isSaving,
+  onAdd,
+  onDelete,
+  onUseCompanyChange,
+}: HolidayCalendarDialogProps) {
+  const currentYear = new Date().getFullYear();
+  const presetYears = Array.from(new Set([currentYear, currentYear + 1, ...TURKISH_RELIGIOUS_HOLIDAY_YEARS]))
+    .filter((y) => y >= currentYear - 1)
+    .sort((a, b) => a - b);
+
+  const [scope, setScope] = useState<HolidayScope>("project");
+  const [name, setName] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [category, setCategory] = useState<HolidayCategory>("shutdown");
+  const [presetYear, setPresetYear] = useState(String(currentYear));
+  const [includeEves, setIncludeEves] = useState(false);
+
+  const trimmed = name.trim();
+  const effectiveEnd = endDate || startDate;
+  const canSubmit = !!trimmed && !!startDate && effectiveEnd >= startDate;
+  const useCompany = calendar?.useCompanyHolidays ?? true;
+  const presetHasReligious = TURKISH_RELIGIOUS_HOLIDAY_YEARS.includes(Number(presetYear));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+    onAdd({
+      scope,
+      periods: [{ name: trimmed, start_date: startDate, end_date: effectiveEnd, category }],
+    });
+    setName("");
+    setStartDate("");
+    setEndDate("");
+  };
+
+  const handleAddPreset = () => {
+    onAdd({ scope, periods: turkishPublicHolidays(Number(presetYear), { includeEves }) });
+  };
+
+  const renderList = (holidays: GanttHoliday[], editable: boolean, emptyText: string) => (
+    <div className="divide-y rounded-md border">
+      {holidays.length === 0 && <p className="px-3 py-4 text-center text-xs text-muted-foreground">{emptyText}</p>}
+      {holidays.map((holiday) => (
+        <div key={holiday.id} className="flex items-center gap-2 px-3 py-1.5 text-xs">
+          <span className="flex-1 min-w-0 truncate font-medium">{holiday.name}</span>
+          <Badge variant="outline" className="text-[10px] font-normal">
+            {HOLIDAY_CATEGORY_LABELS[holiday.category] ?? holiday.category}
+          </Badge>
+          <span className="w-44 text-right text-muted-foreground tabular-nums">{formatPeriod(holiday)}</span>
+          {editable && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="size-6"
+              onClick={() => onDelete(holiday.id)}
+              disabled={isSaving}
+              aria-label={`Remove ${holiday.name}`}
+            >
+              <Trash2Icon className="size-3.5" />
+            </Button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Holidays & Shutdowns</DialogTitle>
+          <DialogDescription>
+            Dates here are non-working on top of the weekly working days. Linked tasks are re-scheduled around
+            them; existing task dates are not moved.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!calendar ? (
+          <div className="flex justify-center py-10">
+            <Spinner className="size-6" />
+          </div>
+        ) : (
+          <ScrollArea className="max-h-[60vh] pr-3">
+            <div className="space-y-4 py-2">
+              <section className="space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <h3 className="text-sm font-medium">Company calendar</h3>
+                  <Label className="flex items-center gap-2 text-xs font-normal">
+                    Apply to this project
+                    <Switch
+                      checked={useCompany}
+                      onCheckedChange={onUseCompanyChange}
+                      disabled={!canEdit || isSaving}
+                    />
+                  </Label>
+                </div>
+                <div className={useCompany ? undefined : "opacity-50"}>
+                  {renderList(calendar.company, canEditCompany, "No company holidays yet")}
+                </div>
+              </section>
+
+              <section className="space-y-2">
+                <h3 className="text-sm font-medium">Project calendar</h3>
+                {renderList(calendar.project, canEdit, "No project-specific closures")}
+              </section>
+
+              {canEdit && (
+                <section className="space-y-3 rounded-md border p-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <h3 className="text-sm font-medium">Add</h3>
+                    {canEditCompany && (
+                      <Select value={scope} onValueChange={(v) => setScope(v as HolidayScope)}>
+                        <SelectTrigger className="h-7 w-44 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="project">To this project</SelectItem>
+                          <SelectItem value="company">To company calendar</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    )}
+                  </div>
+
+                  <form onSubmit={handleSubmit} className="grid grid-cols-[1fr_auto_auto_auto_auto] items-end gap-2">
+                    <div className="space-y-1">
+                      <Label htmlFor="holiday-name" className="text-xs">Name</Label>
+                      <Input
+                        id="holiday-name"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        placeholder="e.g. Factory summer shutdown"
+                        maxLength={100}
+                        className="h-8 text-xs"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="holiday-start" className="text-xs">From</Label>
+                      <Input
+                        id="holiday-start"
+                        type="date"
+                        value={startDate}
+                        onChange={(e) => setStartDate(e.target.value)}
+                        className="h-8 text-xs"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="holiday-end" className="text-xs">To</Label>
+                      <Input
+                        id="holiday-end"
+                        type="date"
+                        value={endDate}
+                        min={startDate || undefined}
+                        onChange={(e) => setEndDate(e.target.value)}
+                        className="h-8 text-xs"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Type</Label>
+                      <Select value={category} onValueChange={(v) => setCategory(v as HolidayCategory)}>
+                        <SelectTrigger className="h-8 w-36 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(HOLIDAY_CATEGORY_LABELS) as HolidayCategory[]).map((key) => (
+                            <SelectItem key={key} value={key}>
+                              {HOLIDAY_CATEGORY_LABELS[key]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <Button type="submit" size="sm" className="h-8" disabled={!canSubmit || isSaving}>
+                      Add
+                    </Button>
+                  </form>
+
+                  <div className="flex flex-wrap items-center gap-2 border-t pt-3">
+                    <span className="text-xs text-muted-foreground">Turkish public holidays</span>
+                    <Select value={presetYear} onValueChange={setPresetYear}>
+                      <SelectTrigger className="h-7 w-24 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {presetYears.map((year) => (
+                          <SelectItem key={year} value={String(year)}>
+                            {year}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Label className="flex items-center gap-1.5 text-xs font-normal">
+                      <Checkbox checked={includeEves} onCheckedChange={(v) => setIncludeEves(v === true)} />
+                      Include eves (arife)
+                    </Label>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      className="ml-auto h-7 gap-1.5 text-xs"
+                      onClick={handleAddPreset}
+                      disabled={isSaving}
+                    >
+                      <CalendarPlusIcon className="size-3.5" />
+                      Add {presetYear} holidays
+                    </Button>
+                    {!presetHasReligious && (
+                      <p className="w-full text-[11px] text-amber-700 dark:text-amber-400">
+                        Bayram dates for {presetYear} are not published yet — only fixed-date holidays will be added.
+                      </p>
+                    )}
+                  </div>
+                </section>
+              )}
+            </div>
+          </ScrollArea>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,75 @@
+"use client";
+
+import { format } from "date-fns";
+import { FlaskConicalIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { formatVariance, type ScenarioDiff } from "@/components/gantt";
+
+interface ScenarioBannerProps {
+  diff: ScenarioDiff;
+  isApplying: boolean;
+  onReview: () => void;
+  onDiscard: () => void;
+}
+
+/** Later than live reads as a slip, earlier as a gain */
+export function shiftClassName(shift: number | null): string {
+  if (!shift) return "text-muted-foreground";
+  return shift > 0 ? "text-red-600 dark:text-red-400" : "text-emerald-600 dark:text-emerald-400";
+}
+
+/**
+ * Strip above the chart while a what-if scenario is open: how much moved,
+ * where the installation date and project finish land, and the exits.
+ */
+export function ScenarioBanner({ diff, isApplying, onReview, onDiscard }: ScenarioBannerProps) {
+  const movedCount = diff.items.filter((c) => c.stored).length;
+  const changeCount = movedCount + diff.dependencies.length;
+  const { installation } = diff;
+
+  return (
+    <div className="flex items-center gap-4 px-4 py-2 border-b border-violet-500/30 bg-violet-500/5 text-xs">
+      <span className="flex items-center gap-1.5 font-medium text-violet-700 dark:text-violet-400">
+        <FlaskConicalIcon className="size-3.5" />
+        What-if scenario
+      </span>
+      <span className="text-muted-foreground">
+        {changeCount === 0
+          ? "No changes yet — open a task to move it"
+          : `${movedCount} task${movedCount !== 1 ? "s" : ""} moved` +
+            (diff.dependencies.length > 0
+              ? `, ${diff.dependencies.length} link${diff.dependencies.length !== 1 ? "s" : ""} changed`
+              : "")}
+      </span>
+      {installation?.draft && (
+        <span>
+          {installation.label}: {format(installation.draft, "dd MMM yyyy")}{" "}
+          {installation.shift !== null && (
+            <span className={cn("font-medium", shiftClassName(installation.shift))}>
+              ({formatVariance(installation.shift)})
+            </span>
+          )}
+        </span>
+      )}
+      {diff.draftFinish && (
+        <span>
+          Finish: {format(diff.draftFinish, "dd MMM yyyy")}{" "}
+          {diff.finishShift !== null && (
+            <span className={cn("font-medium", shiftClassName(diff.finishShift))}>
+              ({formatVariance(diff.finishShift)})
+            </span>
+          )}
+        </span>
+      )}
+      <div className="ml-auto flex items-center gap-2">
+        <Button variant="outline" size="sm" className="h-7 text-xs" onClick={onDiscard} disabled={isApplying}>
+          Discard
+        </Button>
+        <Button size="sm" className="h-7 text-xs" onClick={onReview} disabled={isApplying || changeCount === 0}>
+          Review &amp; Apply
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+"use client";
+
+import { useState } from "react";
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface ScenarioItemDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  item: { name: string; item_type: string; start_date: string; end_date: string };
+  onSave: (startDate: string, endDate: string) => void;
+}
+
+/**
+ * Move a task inside a what-if scenario. Only the draft changes; moving the
+ * start keeps the task's length so successors can be checked quickly.
+ * Parent remounts per open so the fields start from the draft dates.
+ */
+export function ScenarioItemDialog({ open, onOpenChange, item, onSave }: ScenarioItemDialogProps) {
+  const isMilestone = item.item_type === "milestone";
+  const [startDate, setStartDate] = useState(item.start_date.slice(0, 10));
+  const [endDate, setEndDate] = useState(item.end_date.slice(0, 10));
+
+  const handleStartChange = (value: string) => {
+    if (!value) return;
+    const span = differenceInCalendarDays(parseISO(endDate), parseISO(startDate));
+    setStartDate(value);
+    setEndDate(format(addDays(parseISO(value), Math.max(0, span)), "yyyy-MM-dd"));
+  };
+
+  const isValid = !!startDate && !!endDate && endDate >= startDate;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+    onSave(startDate, isMilestone ? startDate : endDate);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle className="truncate">{item.name}</DialogTitle>
+            <DialogDescription>
+              Scenario only — linked successors move with it. The live schedule is untouched until you apply.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-4 py-4">
+            <div className="space-y-1">
+              <Label htmlFor="scenario-start" className="text-xs">{isMilestone ? "Date" : "Start"}</Label>
+              <Input
+                id="scenario-start"
+                type="date"
+                value={startDate}
+                onChange={(e) => handleStartChange(e.target.value)}
+                className="h-8 text-sm"
+              />
+            </div>
+            {!isMilestone && (
+              <div className="space-y-1">
+                <Label htmlFor="scenario-end" className="text-xs">Finish</Label>
+                <Input
+                  id="scenario-end"
+                  type="date"
+                  value={endDate}
+                  min={startDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                  className="h-8 text-sm"
+                />
+              </div>
+            )}
+          </div>
+          {!isValid && <p className="-mt-2 mb-2 text-xs text-destructive">Finish must be on or after the start.</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!isValid}>
+              Move in Scenario
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,143 @@
+"use client";
+
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Spinner } from "@/components/ui/spinner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import { DEPENDENCY_SHORT_LABELS, formatVariance, type ScenarioDiff } from "@/components/gantt";
+import { shiftClassName } from "./scenario-banner";
+
+interface ScenarioReviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  diff: ScenarioDiff;
+  isApplying: boolean;
+  onApply: () => void;
+}
+
+const day = (date: Date | null) => (date ? format(date, "dd MMM yyyy") : "—");
+
+function formatLink(type: number, lagDays: number): string {
+  const label = DEPENDENCY_SHORT_LABELS[type as keyof typeof DEPENDENCY_SHORT_LABELS];
+  return lagDays === 0 ? label : `${label} ${lagDays > 0 ? "+" : ""}${lagDays}d`;
+}
+
+/**
+ * Scenario vs live, row by row, before it's written. Summary rows are shown
+ * for context but their dates follow their subtasks, so only the moved
+ * tasks and the changed links are saved.
+ */
+export function ScenarioReviewDialog({ open, onOpenChange, diff, isApplying, onApply }: ScenarioReviewDialogProps) {
+  const milestones = [
+    diff.installation && {
+      label: diff.installation.label,
+      live: diff.installation.live,
+      draft: diff.installation.draft,
+      shift: diff.installation.shift,
+    },
+    { label: "Project finish", live: diff.liveFinish, draft: diff.draftFinish, shift: diff.finishShift },
+  ].filter((m): m is NonNullable<typeof m> => !!m);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Apply Scenario</DialogTitle>
+          <DialogDescription>
+            All changes are written together. If someone edited one of these tasks since the scenario started,
+            nothing is saved.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-2 gap-2">
+            {milestones.map((m) => (
+              <div key={m.label} className="rounded-md border p-3">
+                <p className="text-xs text-muted-foreground truncate">{m.label}</p>
+                <p className="text-sm">
+                  {day(m.live)} → <span className="font-medium">{day(m.draft)}</span>
+                  {m.shift !== null && (
+                    <span className={cn("ml-1.5 text-xs font-medium", shiftClassName(m.shift))}>
+                      {formatVariance(m.shift)}
+                    </span>
+                  )}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          <ScrollArea className="h-64 rounded-md border">
+            <table className="w-full text-xs">
+              <thead className="sticky top-0 bg-background">
+                <tr className="border-b text-left text-muted-foreground">
+                  <th className="px-3 py-2 font-medium">Task</th>
+                  <th className="px-3 py-2 font-medium w-44">Live</th>
+                  <th className="px-3 py-2 font-medium w-44">Scenario</th>
+                  <th className="px-3 py-2 font-medium w-16 text-right">Finish</th>
+                </tr>
+              </thead>
+              <tbody>
+                {diff.items.map((change) => (
+                  <tr key={change.id} className="border-b last:border-0">
+                    <td className={cn("px-3 py-1.5 truncate max-w-60", !change.stored && "text-muted-foreground")}>
+                      {change.name}
+                      {!change.stored && " (summary)"}
+                    </td>
+                    <td className="px-3 py-1.5 text-muted-foreground">
+                      {format(change.liveStart, "dd MMM")} – {format(change.liveEnd, "dd MMM yyyy")}
+                    </td>
+                    <td className="px-3 py-1.5">
+                      {format(change.draftStart, "dd MMM")} – {format(change.draftEnd, "dd MMM yyyy")}
+                    </td>
+                    <td className={cn("px-3 py-1.5 text-right font-medium", shiftClassName(change.finishShift))}>
+                      {formatVariance(change.finishShift)}
+                    </td>
+                  </tr>
+                ))}
+                {diff.dependencies.map((change) => (
+                  <tr key={change.id} className="border-b last:border-0">
+                    <td className="px-3 py-1.5 truncate max-w-60">
+                      {change.sourceName} → {change.targetName}
+                    </td>
+                    <td className="px-3 py-1.5 text-muted-foreground">
+                      {formatLink(change.from.type, change.from.lagDays)}
+                    </td>
+                    <td className="px-3 py-1.5" colSpan={2}>
+                      {formatLink(change.to.type, change.to.lagDays)}
+                    </td>
+                  </tr>
+                ))}
+                {diff.items.length === 0 && diff.dependencies.length === 0 && (
+                  <tr>
+                    <td colSpan={4} className="px-3 py-6 text-center text-muted-foreground">
+                      Nothing differs from the live schedule.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </ScrollArea>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isApplying}>
+            Keep Editing
+          </Button>
+          <Button type="button" onClick={onApply} disabled={isApplying}>
+            {isApplying && <Spinner className="size-4 mr-2" />}
+            Apply to Live Schedule
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
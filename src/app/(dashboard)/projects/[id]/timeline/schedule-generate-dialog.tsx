@@ -0,0 +1,254 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import { AlertTriangleIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Spinner } from "@/components/ui/spinner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useDebounce } from "@/hooks/use-debounce";
+import { SCHEDULE_PHASES } from "@/lib/schedule-interchange";
+import {
+  DEFAULT_PHASE_DURATIONS,
+  PHASE_DURATION_MAX,
+  type PhaseDurations,
+  type ScheduleGrouping,
+} from "@/lib/schedule-generator";
+import type { PhaseKey, TimelineGenerationOptions } from "@/lib/actions/timelines";
+import { useProjectPhaseDurations, useTimelineGenerationPreview } from "@/lib/react-query/timelines";
+
+interface ScheduleGenerateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+  isGenerating: boolean;
+  onGenerate: (options: TimelineGenerationOptions) => void;
+}
+
+const PREVIEW_ROWS = 100;
+
+/**
+ * Draft tasks from the project's scope items: pick a start date, phase
+ * durations and grouping, check the preview, then append to the timeline.
+ * Parent remounts on open so edits from a previous run aren't kept.
+ */
+export function ScheduleGenerateDialog({
+  open,
+  onOpenChange,
+  projectId,
+  isGenerating,
+  onGenerate,
+}: ScheduleGenerateDialogProps) {
+  const { data: savedDurations } = useProjectPhaseDurations(projectId, open);
+  const [editedDurations, setEditedDurations] = useState<PhaseDurations | null>(null);
+  const [startDate, setStartDate] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [grouping, setGrouping] = useState<ScheduleGrouping>("item");
+
+  const durations = editedDurations ?? savedDurations ?? DEFAULT_PHASE_DURATIONS;
+  const options = useMemo<TimelineGenerationOptions>(
+    () => ({ startDate, durations, grouping }),
+    [startDate, durations, grouping]
+  );
+  const debouncedOptions = useDebounce(options, 400);
+  const { data: preview, isFetching, error } = useTimelineGenerationPreview(
+    projectId,
+    debouncedOptions,
+    open && !!startDate
+  );
+
+  const setDuration = (key: PhaseKey, value: string) => {
+    const days = Math.round(Number(value));
+    setEditedDurations({
+      ...durations,
+      [key]: Number.isFinite(days) ? Math.min(PHASE_DURATION_MAX, Math.max(1, days)) : 1,
+    });
+  };
+
+  const taskNames = useMemo(
+    () => new Map((preview?.tasks ?? []).map((t) => [t.key, t.name])),
+    [preview]
+  );
+  const isStale = isFetching || debouncedOptions !== options;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Generate Schedule</DialogTitle>
+          <DialogDescription>
+            Builds phase tasks from the project&apos;s scope items and links them finish-to-start. Existing tasks are
+            kept; items already on the timeline are skipped.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-[auto_1fr] items-end gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="generate-start" className="text-xs">Start date</Label>
+              <Input
+                id="generate-start"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className="h-8 w-40 text-sm"
+              />
+            </div>
+            <div className="grid grid-cols-5 gap-2">
+              {SCHEDULE_PHASES.map((phase) => (
+                <div key={phase.key} className="space-y-1">
+                  <Label htmlFor={`duration-${phase.key}`} className="text-xs truncate block" title={phase.label}>
+                    {phase.label}
+                  </Label>
+                  <Input
+                    id={`duration-${phase.key}`}
+                    type="number"
+                    min={1}
+                    max={PHASE_DURATION_MAX}
+                    value={durations[phase.key]}
+                    onChange={(e) => setDuration(phase.key, e.target.value)}
+                    className="h-8 text-sm"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+          <p className="-mt-2 text-xs text-muted-foreground">
+            Durations are working days. Procurement ends on each item&apos;s expected delivery date when one is set,
+            and installation never starts before the project&apos;s installation date.
+          </p>
+
+          <RadioGroup
+            value={grouping}
+            onValueChange={(v) => setGrouping(v as ScheduleGrouping)}
+            className="grid grid-cols-2 gap-2"
+          >
+            <Label className="flex items-start gap-2 rounded-md border p-3 font-normal cursor-pointer">
+              <RadioGroupItem value="item" className="mt-0.5" />
+              <span>
+                <span className="block text-sm font-medium">Task per item</span>
+                <span className="block text-xs text-muted-foreground">
+                  A summary per phase with one subtask for each scope item.
+                </span>
+              </span>
+            </Label>
+            <Label className="flex items-start gap-2 rounded-md border p-3 font-normal cursor-pointer">
+              <RadioGroupItem value="phase" className="mt-0.5" />
+              <span>
+                <span className="block text-sm font-medium">Task per phase</span>
+                <span className="block text-xs text-muted-foreground">
+                  One task per phase, linked to every item it covers.
+                </span>
+              </span>
+            </Label>
+          </RadioGroup>
+
+          {error && <p className="text-sm text-destructive">{error.message}</p>}
+
+          {preview && (
+            <>
+              <div className="flex flex-wrap items-center gap-1.5">
+                <Badge variant="secondary">{preview.tasks.length} tasks</Badge>
+                <Badge variant="secondary">{preview.links.length} FS links</Badge>
+                {preview.skipped.length > 0 && <Badge variant="outline">{preview.skipped.length} items skipped</Badge>}
+                {isStale && <Spinner className="size-3.5 ml-1" />}
+              </div>
+
+              <ScrollArea className="h-64 rounded-md border">
+                <table className="w-full text-xs">
+                  <thead className="sticky top-0 bg-background">
+                    <tr className="border-b text-left text-muted-foreground">
+                      <th className="px-3 py-2 font-medium">Task</th>
+                      <th className="px-3 py-2 font-medium w-48">Dates</th>
+                      <th className="px-3 py-2 font-medium w-40">After</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.tasks.slice(0, PREVIEW_ROWS).map((task) => {
+                      const predecessors = preview.links.filter((l) => l.targetKey === task.key);
+                      return (
+                        <tr key={task.key} className="border-b last:border-0">
+                          <td className={task.parentKey ? "px-3 py-1.5 pl-7" : "px-3 py-1.5 font-medium"}>
+                            {task.name}
+                          </td>
+                          <td className="px-3 py-1.5 text-muted-foreground">
+                            {task.start} → {task.end}
+                          </td>
+                          <td className="px-3 py-1.5 text-muted-foreground truncate max-w-40">
+                            {predecessors
+                              .map((l) => `${taskNames.get(l.sourceKey)}${l.lagDays > 0 ? ` +${l.lagDays}d` : ""}`)
+                              .join(", ")}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                    {preview.tasks.length > PREVIEW_ROWS && (
+                      <tr>
+                        <td colSpan={3} className="px-3 py-2 text-center text-muted-foreground">
+                          …and {preview.tasks.length - PREVIEW_ROWS} more
+                        </td>
+                      </tr>
+                    )}
+                    {preview.tasks.length === 0 && (
+                      <tr>
+                        <td colSpan={3} className="px-3 py-6 text-center text-muted-foreground">
+                          No scope items left to schedule.
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </ScrollArea>
+
+              {(preview.warnings.length > 0 || preview.skipped.length > 0) && (
+                <div className="rounded-md border border-amber-500/30 bg-amber-500/5 p-3 space-y-1">
+                  {preview.warnings.map((w) => (
+                    <p key={w} className="flex items-start gap-2 text-xs text-amber-700 dark:text-amber-400">
+                      <AlertTriangleIcon className="size-3.5 shrink-0 mt-0.5" />
+                      {w}
+                    </p>
+                  ))}
+                  {preview.skipped.length > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      Skipped: {preview.skipped.map((s) => `${s.itemCode} (${s.reason.toLowerCase()})`).join(", ")}
+                    </p>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+          {!preview && !error && (
+            <div className="flex h-24 items-center justify-center">
+              <Spinner className="size-5" />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isGenerating}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            disabled={isGenerating || isStale || !preview || preview.tasks.length === 0}
+            onClick={() => onGenerate(options)}
+          >
+            {isGenerating && <Spinner className="size-4 mr-2" />}
+            Add to Timeline
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,298 @@
+"use client";
+
+import { useMemo, useRef, useState } from "react";
+import { AlertTriangleIcon, FileUpIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Spinner } from "@/components/ui/spinner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { formatWorkingDaysMask } from "@/components/gantt";
+import {
+  formatLink,
+  parseMspdiXml,
+  parseXer,
+  planScheduleImport,
+  type InterchangeSchedule,
+  type ScheduleFileFormat,
+  type ScheduleImportMode,
+} from "@/lib/schedule-interchange";
+import type { GanttDependency, GanttItem } from "@/lib/actions/timelines";
+
+interface ScheduleImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  items: GanttItem[];
+  dependencies: GanttDependency[];
+  workingDaysMask: number;
+  isImporting: boolean;
+  onImport: (input: { schedule: InterchangeSchedule; mode: ScheduleImportMode; applyCalendar: boolean }) => void;
+}
+
+const MAX_FILE_SIZE = 20 * 1024 * 1024;
+const PREVIEW_ROWS = 50;
+
+/** XER files from P6 are often ANSI-encoded; fall back when UTF-8 decoding fails */
+function decodeScheduleFile(buffer: ArrayBuffer): string {
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder("windows-1254").decode(buffer);
+  }
+}
+
+function detectFormat(fileName: string, text: string): ScheduleFileFormat | null {
+  if (/\.xer$/i.test(fileName) || text.startsWith("ERMHDR")) return "xer";
+  if (/\.xml$/i.test(fileName) || text.trimStart().startsWith("<")) return "mspdi";
+  return null;
+}
+
+/**
+ * Pick an MS Project XML / Primavera XER file, preview what it will change
+ * and apply it as a merge (default) or a full replace.
+ * Parent remounts via `key` when reopened so the file state starts fresh.
+ */
+export function ScheduleImportDialog({
+  open,
+  onOpenChange,
+  items,
+  dependencies,
+  workingDaysMask,
+  isImporting,
+  onImport,
+}: ScheduleImportDialogProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [schedule, setSchedule] = useState<InterchangeSchedule | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [mode, setMode] = useState<ScheduleImportMode>("merge");
+  const [applyCalendar, setApplyCalendar] = useState(true);
+
+  const plan = useMemo(
+    () =>
+      schedule
+        ? planScheduleImport(items, dependencies, schedule, {
+            mode,
+            currentWorkingDays: workingDaysMask,
+            applyCalendar,
+          })
+        : null,
+    [schedule, items, dependencies, mode, workingDaysMask, applyCalendar]
+  );
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setSchedule(null);
+    setParseError(null);
+    if (file.size > MAX_FILE_SIZE) {
+      setParseError("File is larger than 20 MB");
+      return;
+    }
+    try {
+      const text = decodeScheduleFile(await file.arrayBuffer());
+      const format = detectFormat(file.name, text);
+      if (!format) {
+        setParseError("Unsupported file — choose an MS Project .xml or Primavera .xer export");
+        return;
+      }
+      const parsed = format === "xer" ? parseXer(text) : parseMspdiXml(text);
+      if (parsed.tasks.length === 0) {
+        setParseError("The file contains no dated tasks");
+        return;
+      }
+      setSchedule(parsed);
+    } catch (error) {
+      setParseError(error instanceof Error ? error.message : "Could not read the file");
+    }
+  };
+
+  const hasChanges =
+    !!plan &&
+    (plan.creates.length > 0 ||
+      plan.updates.length > 0 ||
+      plan.deletes.length > 0 ||
+      plan.links.create.length > 0 ||
+      plan.links.update.length > 0 ||
+      plan.links.remove.length > 0 ||
+      !!plan.calendar);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Schedule</DialogTitle>
+          <DialogDescription>
+            Microsoft Project XML (.xml) or Primavera P6 (.xer). Review the changes before they are applied.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".xml,.xer"
+            className="hidden"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            className="w-full justify-start gap-2"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isImporting}
+          >
+            <FileUpIcon className="size-4" />
+            <span className="truncate">{fileName ?? "Choose file…"}</span>
+          </Button>
+
+          {parseError && <p className="text-sm text-destructive">{parseError}</p>}
+
+          {plan && schedule && (
+            <>
+              <RadioGroup
+                value={mode}
+                onValueChange={(v) => setMode(v as ScheduleImportMode)}
+                className="grid grid-cols-2 gap-2"
+              >
+                <Label className="flex items-start gap-2 rounded-md border p-3 font-normal cursor-pointer">
+                  <RadioGroupItem value="merge" className="mt-0.5" />
+                  <span>
+                    <span className="block text-sm font-medium">Merge</span>
+                    <span className="block text-xs text-muted-foreground">
+                      Update matching tasks and add new ones. Nothing is deleted.
+                    </span>
+                  </span>
+                </Label>
+                <Label className="flex items-start gap-2 rounded-md border p-3 font-normal cursor-pointer">
+                  <RadioGroupItem value="replace" className="mt-0.5" />
+                  <span>
+                    <span className="block text-sm font-medium">Replace</span>
+                    <span className="block text-xs text-muted-foreground">
+                      Also remove tasks and links that are not in the file.
+                    </span>
+                  </span>
+                </Label>
+              </RadioGroup>
+
+              {schedule.workingDaysMask !== null && schedule.workingDaysMask !== workingDaysMask && (
+                <Label className="flex items-center gap-2 text-sm font-normal">
+                  <Checkbox checked={applyCalendar} onCheckedChange={(v) => setApplyCalendar(v === true)} />
+                  Use the file&apos;s working days ({formatWorkingDaysMask(schedule.workingDaysMask)} instead of{" "}
+                  {formatWorkingDaysMask(workingDaysMask)})
+                </Label>
+              )}
+
+              <div className="flex flex-wrap gap-1.5">
+                <Badge variant="secondary">{plan.creates.length} new</Badge>
+                <Badge variant="secondary">{plan.updates.length} changed</Badge>
+                <Badge variant="outline">{plan.unchanged} unchanged</Badge>
+                {plan.deletes.length > 0 && <Badge variant="destructive">{plan.deletes.length} removed</Badge>}
+                <Badge variant="secondary">
+                  {plan.links.create.length} new / {plan.links.update.length} changed links
+                </Badge>
+                {plan.links.remove.length > 0 && (
+                  <Badge variant="destructive">{plan.links.remove.length} links removed</Badge>
+                )}
+              </div>
+
+              <ScrollArea className="h-64 rounded-md border">
+                <table className="w-full text-xs">
+                  <thead className="sticky top-0 bg-background">
+                    <tr className="border-b text-left text-muted-foreground">
+                      <th className="px-3 py-2 font-medium w-20">Action</th>
+                      <th className="px-3 py-2 font-medium">Task</th>
+                      <th className="px-3 py-2 font-medium">Details</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {plan.creates.slice(0, PREVIEW_ROWS).map((t) => (
+                      <tr key={`c-${t.uid}`} className="border-b last:border-0">
+                        <td className="px-3 py-1.5 text-emerald-600">Add</td>
+                        <td className="px-3 py-1.5">{t.name}</td>
+                        <td className="px-3 py-1.5 text-muted-foreground">
+                          {t.type === "milestone" ? `Milestone ${t.start}` : `${t.start} → ${t.end}`}
+                        </td>
+                      </tr>
+                    ))}
+                    {plan.updates.slice(0, PREVIEW_ROWS).map((u) => (
+                      <tr key={`u-${u.itemId}`} className="border-b last:border-0">
+                        <td className="px-3 py-1.5 text-blue-600">Update</td>
+                        <td className="px-3 py-1.5">{u.name}</td>
+                        <td className="px-3 py-1.5 text-muted-foreground">
+                          {u.changes.map((c) => `${c.field}: ${c.from} → ${c.to}`).join("; ")}
+                        </td>
+                      </tr>
+                    ))}
+                    {plan.deletes.slice(0, PREVIEW_ROWS).map((d) => (
+                      <tr key={`d-${d.id}`} className="border-b last:border-0">
+                        <td className="px-3 py-1.5 text-destructive">Remove</td>
+                        <td className="px-3 py-1.5">{d.name}</td>
+                        <td className="px-3 py-1.5 text-muted-foreground">Not in file</td>
+                      </tr>
+                    ))}
+                    {plan.links.update.slice(0, PREVIEW_ROWS).map((l) => (
+                      <tr key={`l-${l.dependencyId}`} className="border-b last:border-0">
+                        <td className="px-3 py-1.5 text-blue-600">Link</td>
+                        <td className="px-3 py-1.5">
+                          {schedule.tasks.find((t) => t.uid === l.link.sourceUid)?.name} →{" "}
+                          {schedule.tasks.find((t) => t.uid === l.link.targetUid)?.name}
+                        </td>
+                        <td className="px-3 py-1.5 text-muted-foreground">
+                          {formatLink(l.from.type, l.from.lagDays)} → {formatLink(l.link.type, l.link.lagDays)}
+                        </td>
+                      </tr>
+                    ))}
+                    {!hasChanges && (
+                      <tr>
+                        <td colSpan={3} className="px-3 py-6 text-center text-muted-foreground">
+                          The timeline already matches this file.
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </ScrollArea>
+
+              {plan.warnings.length > 0 && (
+                <div className="rounded-md border border-amber-500/30 bg-amber-500/5 p-3 space-y-1">
+                  {plan.warnings.map((w) => (
+                    <p key={w} className="flex items-start gap-2 text-xs text-amber-700 dark:text-amber-400">
+                      <AlertTriangleIcon className="size-3.5 shrink-0 mt-0.5" />
+                      {w}
+                    </p>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isImporting}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            disabled={isImporting || !schedule || !hasChanges}
+            variant={mode === "replace" && (plan?.deletes.length ?? 0) > 0 ? "destructive" : "default"}
+            onClick={() => schedule && onImport({ schedule, mode, applyCalendar })}
+          >
+            {isImporting && <Spinner className="size-4 mr-2" />}
+            {mode === "replace" ? "Replace Timeline" : "Merge into Timeline"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,8 +3,18 @@
 import * as React from "react";
 import { format } from "date-fns";
 import { toast } from "sonner";
+import { useQueryClient } from "@tanstack/react-query";
 import { useBreakpoint } from "@/hooks/use-media-query";
-import { GanttChart, type GanttItem, type GanttDependency } from "@/components/gantt";
+import {
+  GanttChart,
+  compareWithBaseline,
+  useScenarioDraft,
+  useGanttCollaboration,
+  type GanttItem,
+  type GanttDependency,
+  type GanttBaseline,
+  type GanttBaselineItem,
+} from "@/components/gantt";
 import { GlassCard, EmptyState } from "@/components/ui/ui-helpers";
 import { Spinner } from "@/components/ui/spinner";
 import {
@@ -19,6 +29,15 @@ import {
 } from "@/components/ui/alert-dialog";
 import { CalendarIcon } from "lucide-react";
 import { TimelineFormDialog } from "../timeline-form-dialog";
+import { BaselineSaveDialog } from "./baseline-save-dialog";
+import { ScheduleImportDialog } from "./schedule-import-dialog";
+import { ScheduleGenerateDialog } from "./schedule-generate-dialog";
+import { HolidayCalendarDialog } from "./holiday-calendar-dialog";
+import { ScenarioBanner } from "./scenario-banner";
+import { ScenarioItemDialog } from "./scenario-item-dialog";
+import { ScenarioReviewDialog } from "./scenario-review-dialog";
+import { TimelineHistorySheet } from "./timeline-history-sheet";
+import { downloadBaselineReportPdf } from "@/lib/pdf/generate-baseline-report-pdf";
 import {
   useTimelineItems,
   useTimelineDependencies,
@@ -30,9 +49,25 @@ import {
   useDeleteTimelineDependency,
   useSetTaskPhase,
   useSetProjectWorkingDays,
+  useTimelineBaselines,
+  useTimelineBaselineItems,
+  useCreateTimelineBaseline,
+  useDeleteTimelineBaseline,
+  useExportTimelineSchedule,
+  useImportTimelineSchedule,
+  useGenerateTimelineFromScope,
+  useProjectHolidayCalendar,
+  useCreateGanttHolidays,
+  useDeleteGanttHoliday,
+  useSetProjectUsesCompanyHolidays,
+  useApplyTimelineScenario,
+  timelineKeys,
 } from "@/lib/react-query/timelines";
+import { expandHolidayDates, type HolidayPeriod } from "@/lib/holiday-calendar";
+import { describeProgressSource } from "@/lib/gantt-progress";
+import type { InterchangeSchedule, ScheduleImportMode } from "@/lib/schedule-interchange";
 import type { GanttItem as TimelineItem, DependencyType, PhaseKey } from "@/lib/actions/timelines";
-import { UndoRedoProvider, useUndoRedo } from "@/hooks/use-undo-redo";
+import { UndoRedoProvider } from "@/hooks/use-undo-redo";
 
 // ============================================================================
 // CONSTANTS
@@ -63,10 +98,17 @@ interface ScopeItem {
 
 interface TimelineClientProps {
   projectId: string;
+  /** Used in the baseline comparison PDF header */
+  projectName?: string;
+  projectCode?: string;
   scopeItems: ScopeItem[];
   canEdit?: boolean;
+  /** Admin — may also edit the company holiday calendar */
+  canEditCompanyCalendar?: boolean;
   /** Per-project working-days bitmask (bit 0 = Sun..bit 6 = Sat). Defaults to 62 (Mon-Fri). */
   workingDaysMask?: number;
+  /** Announced to others on the timeline while editing a row */
+  currentUser?: { id: string; name: string };
   /** @deprecated Kept for backwards compat — header is now inside GanttChart */
   showHeader?: boolean;
   /** @deprecated Kept for backwards compat */
@@ -77,27 +119,20 @@ interface TimelineClientProps {
 // COMPONENT
 // ============================================================================
 
-export function TimelineClient(props: TimelineClientProps) {
-  // UndoRedoProvider wraps the actual logic so handlers inside can call
-  // useUndoRedo() to record inverse actions.
-  return (
-    <UndoRedoProvider>
-      <TimelineClientInner {...props} />
-    </UndoRedoProvider>
-  );
-}
-
-function TimelineClientInner({
+export function TimelineClient({
   projectId,
+  projectName = "",
+  projectCode = "",
   scopeItems,
   canEdit = false,
+  canEditCompanyCalendar = false,
   workingDaysMask: initialMask = 62,
+  currentUser,
 }: TimelineClientProps) {
   // Optimistic local copy so the toolbar toggles feel instant; server reconciles via invalidate.
   const [workingDaysMask, setWorkingDaysMask] = React.useState<number>(initialMask);
   React.useEffect(() => setWorkingDaysMask(initialMask), [initialMask]);
   const { isMobile } = useBreakpoint();
-  const { record } = useUndoRedo();
   // React Query hooks for timeline data
   const { data: timelineItems = [], isLoading: isLoadingItems } = useTimelineItems(projectId);
   const { data: timelineDependencies = [], isLoading: isLoadingDeps } = useTimelineDependencies(projectId);
@@ -121,10 +156,126 @@ function TimelineClientInner({
     [canEdit, setWorkingDays]
   );
 
+  // Baselines — saved list + snapshot rows of the one being compared
+  const [activeBaselineId, setActiveBaselineId] = React.useState<string | null>(null);
+  const [baselineDialogOpen, setBaselineDialogOpen] = React.useState(false);
+  const [baselineToDelete, setBaselineToDelete] = React.useState<GanttBaseline | null>(null);
+  const { data: timelineBaselines = [] } = useTimelineBaselines(projectId);
+  const { data: activeBaselineRows } = useTimelineBaselineItems(activeBaselineId);
+  const createBaseline = useCreateTimelineBaseline(projectId);
+  const deleteBaseline = useDeleteTimelineBaseline(projectId);
+
+  // MS Project / Primavera interchange
+  const [importDialogOpen, setImportDialogOpen] = React.useState(false);
+  const exportSchedule = useExportTimelineSchedule(projectId);
+  const importSchedule = useImportTimelineSchedule(projectId);
+  const [generateDialogOpen, setGenerateDialogOpen] = React.useState(false);
+  const generateSchedule = useGenerateTimelineFromScope(projectId);
+
+  // Change history panel — undo / redo state lives in UndoRedoProvider
+  const [historyOpen, setHistoryOpen] = React.useState(false);
+
+  // Holiday calendars — company (unless opted out) + project closures
+  const [holidayDialogOpen, setHolidayDialogOpen] = React.useState(false);
+  const { data: holidayCalendar } = useProjectHolidayCalendar(projectId);
+  const createHolidays = useCreateGanttHolidays(projectId);
+  const deleteHoliday = useDeleteGanttHoliday(projectId);
+  const setUseCompanyHolidays = useSetProjectUsesCompanyHolidays(projectId);
+
+  const ganttHolidays = React.useMemo<HolidayPeriod[]>(() => {
+    if (!holidayCalendar) return [];
+    return holidayCalendar.useCompanyHolidays
+      ? [...holidayCalendar.company, ...holidayCalendar.project]
+      : holidayCalendar.project;
+  }, [holidayCalendar]);
+  const holidayDates = React.useMemo(() => expandHolidayDates(ganttHolidays), [ganttHolidays]);
+
+  // What-if scenario — while active the chart renders the draft and only
+  // date moves and link edits are allowed; everything else waits for apply/discard.
+  const scenario = useScenarioDraft(timelineItems, timelineDependencies, workingDaysMask, holidayDates);
+  const applyScenario = useApplyTimelineScenario(projectId);
+  const [scenarioEditId, setScenarioEditId] = React.useState<string | null>(null);
+  const [scenarioReviewOpen, setScenarioReviewOpen] = React.useState(false);
+  const scenarioEditItem = scenario.active ? scenario.items.find((i) => i.id === scenarioEditId) : undefined;
+  const canEditLive = canEdit && !scenario.active;
+  const displayItems = scenario.items;
+  const displayDependencies = scenario.dependencies;
+
+  const ganttBaselines = React.useMemo<GanttBaseline[]>(
+    () =>
+      timelineBaselines.map((b) => ({
+        id: b.id,
+        name: b.name,
+        description: b.description,
+        createdAt: new Date(b.created_at),
+        createdByName: b.creator?.name ?? null,
+        itemCount: b.item_count,
+      })),
+    [timelineBaselines]
+  );
+
+  const ganttBaselineItems = React.useMemo<GanttBaselineItem[] | undefined>(
+    () =>
+      activeBaselineRows?.map((row) => ({
+        itemId: row.gantt_item_id,
+        name: row.item_name,
+        type: row.item_type,
+        startDate: new Date(row.start_date),
+        endDate: new Date(row.end_date),
+      })),
+    [activeBaselineRows]
+  );
+
   // Form dialog state
   const [formOpen, setFormOpen] = React.useState(false);
   const [editItem, setEditItem] = React.useState<TimelineItem | null>(null);
 
+  // Live collaboration — refetch on anyone's change (batched, since one save
+  // plus dependency propagation arrives as a burst), show who edits which row
+  const queryClient = useQueryClient();
+  const refetchTimer = React.useRef<ReturnType<typeof setTimeout> | null>(null);
+  const pendingTables = React.useRef(new Set<string>());
+  const handleRemoteChange = React.useCallback(
+    (table: "gantt_items" | "gantt_dependencies") => {
+      pendingTables.current.add(table);
+      if (refetchTimer.current) clearTimeout(refetchTimer.current);
+      refetchTimer.current = setTimeout(() => {
+        if (pendingTables.current.has("gantt_items")) {
+          queryClient.invalidateQueries({ queryKey: timelineKeys.list(projectId) });
+        }
+        if (pendingTables.current.has("gantt_dependencies")) {
+          queryClient.invalidateQueries({ queryKey: timelineKeys.dependencyList(projectId) });
+        }
+        // Someone else's write is also someone else's history entry
+        queryClient.invalidateQueries({ queryKey: timelineKeys.history(projectId) });
+        pendingTables.current.clear();
+      }, 300);
+    },
+    [queryClient, projectId]
+  );
+  React.useEffect(
+    () => () => {
+      if (refetchTimer.current) clearTimeout(refetchTimer.current);
+    },
+    []
+  );
+  const loadedIds = React.useMemo(
+    () => ({
+      gantt_items: new Set(timelineItems.map((item) => item.id)),
+      gantt_dependencies: new Set(timelineDependencies.map((dep) => dep.id)),
+    }),
+    [timelineItems, timelineDependencies]
+  );
+  const hasLoadedRow = React.useCallback(
+    (table: "gantt_items" | "gantt_dependencies", id: string) => loadedIds[table].has(id),
+    [loadedIds]
+  );
+  const collaboration = useGanttCollaboration(projectId, currentUser ?? null, handleRemoteChange, hasLoadedRow);
+  const { setEditing } = collaboration;
+  React.useEffect(() => {
+    setEditing(formOpen && editItem ? editItem.id : null);
+  }, [formOpen, editItem, setEditing]);
+
   // Delete dialog state
   const [deleteDialogOpen, setDeleteDialogOpen] = React.useState(false);
   const [deleteItemIds, setDeleteItemIds] = React.useState<string[]>([]);
@@ -135,27 +286,27 @@ function TimelineClientInner({
 
     // Build child count map
     const childrenMap = new Map<string, number>();
-    timelineItems.forEach((i) => {
+    displayItems.forEach((i) => {
       if (i.parent_id) {
         childrenMap.set(i.parent_id, (childrenMap.get(i.parent_id) || 0) + 1);
       }
     });
 
     const parentIds = new Set(
-      timelineItems.filter((i) => (childrenMap.get(i.id) || 0) > 0).map((i) => i.id)
+      displayItems.filter((i) => (childrenMap.get(i.id) || 0) > 0).map((i) => i.id)
     );
 
     // Show a phase item only when at least one task in the project carries
     // its phase_key as a label. Phases are labels now (not parents), so
     // parent_id-based filtering would always exclude them.
     const phaseKeysInUse = new Set<string>();
-    timelineItems.forEach((i) => {
+    displayItems.forEach((i) => {
       if (i.item_type !== "phase" && i.phase_key) phaseKeysInUse.add(i.phase_key);
     });
 
     // Convert flat items to GanttItem (without children first)
     const itemById = new Map<string, GanttItem>();
-    const allItems: GanttItem[] = timelineItems
+    const allItems: GanttItem[] = displayItems
       .filter((item) => {
         if (item.item_type !== "phase") return true;
         // Phase: include if any task labels this phase, OR if it still has
@@ -190,6 +341,11 @@ function TimelineClientInner({
           startDate: new Date(item.start_date),
           endDate: new Date(item.end_date),
           progress: item.progress || 0,
+          progressSource: describeProgressSource(item.progress_source, {
+            phaseKey: item.phase_key,
+            linkedCount: item.linked_scope_item_ids?.length,
+            childCount: childrenMap.get(item.id),
+          }),
           // For milestones, display color is status-based (completed/overdue/upcoming).
           // For tasks & phases, preserve the raw DB color (null if user hasn't set one)
           // so rendering can fall back to the phase-inherited color.
@@ -202,6 +358,10 @@ function TimelineClientInner({
           children: [],
           description: (item as any).description || null,
           isCompleted: item.is_completed || false,
+          constraint:
+            item.constraint_type && item.constraint_date
+              ? { type: item.constraint_type, date: new Date(item.constraint_date) }
+              : null,
         };
 
         itemById.set(item.id, ganttItem);
@@ -219,11 +379,11 @@ function TimelineClientInner({
     }
 
     return roots;
-  }, [timelineItems, canEdit]);
+  }, [displayItems, canEdit]);
 
   // Convert dependencies to Gantt format
   const ganttDependencies = React.useMemo<GanttDependency[]>(() => {
-    return timelineDependencies.map((dep) => ({
+    return displayDependencies.map((dep) => ({
       id: dep.id,
       projectId: dep.project_id,
       sourceId: dep.source_id,
@@ -231,11 +391,23 @@ function TimelineClientInner({
       type: dep.dependency_type as 0 | 1 | 2 | 3,
       lagDays: dep.lag_days,
     }));
-  }, [timelineDependencies]);
+  }, [displayDependencies]);
+
+  // Row versions as last loaded, sent with each edit so the server rejects
+  // writes over a change someone else made in the meantime
+  const updatedAtOf = (timelineId: string) => timelineItems.find((t) => t.id === timelineId)?.updated_at;
+  const depSnapshot = (dependencyId: string) => {
+    const dep = timelineDependencies.find((d) => d.id === dependencyId);
+    return dep && { dependency_type: dep.dependency_type, lag_days: dep.lag_days };
+  };
 
   // Handle indent/outdent (change parent)
   const handleParentChange = (timelineId: string, newParentId: string | null) => {
-    updateItem.mutate({ timelineId, input: { parent_id: newParentId } });
+    updateItem.mutate({
+      timelineId,
+      input: { parent_id: newParentId },
+      expectedUpdatedAt: updatedAtOf(timelineId),
+    });
   };
 
   // Handle create dependency
@@ -260,15 +432,20 @@ function TimelineClientInner({
     type: DependencyType,
     lagDays: number
   ) => {
+    if (scenario.active) {
+      scenario.updateDependency(dependencyId, type, lagDays);
+      return;
+    }
     updateDependency.mutate({
       dependencyId,
       updates: { dependency_type: type, lag_days: lagDays },
+      expected: depSnapshot(dependencyId),
     });
   };
 
   // Handle delete dependency
   const handleDeleteDependency = async (dependencyId: string) => {
-    deleteDependency.mutate(dependencyId);
+    deleteDependency.mutate({ dependencyId, expected: depSnapshot(dependencyId) });
   };
 
   // Auto-increment "New Task" / "New Subtask" names to avoid collisions
@@ -317,10 +494,6 @@ function TimelineClientInner({
   const isPending = (id?: string | null) => !id || id.startsWith("temp-");
   const PENDING_MSG = "Still saving this task — give it a second and try again";
 
-  const priorityLabel = (p: 1 | 2 | 3 | 4): string => {
-    return ["", "Low", "Normal", "High", "Critical"][p];
-  };
-
   // Handle edit item
   const handleEditItem = (ganttItem: GanttItem) => {
     if (!ganttItem.timelineId) return;
@@ -329,6 +502,15 @@ function TimelineClientInner({
       return;
     }
 
+    if (scenario.active) {
+      if (ganttItem.children.length > 0) {
+        toast.info("Summary dates follow their subtasks — move a subtask instead");
+        return;
+      }
+      setScenarioEditId(ganttItem.timelineId);
+      return;
+    }
+
     const timeline = timelineItems.find((t) => t.id === ganttItem.timelineId);
     if (timeline) {
       setEditItem(timeline);
@@ -372,81 +554,55 @@ function TimelineClientInner({
         end_date: startDate,
         is_completed: false,
       },
+      expectedUpdatedAt: updatedAtOf(ganttItem.timelineId),
     });
   };
 
-  // Handle set priority — recorded for undo
+  // Handle set priority
   const handleSetPriority = (ganttItem: GanttItem, priority: number) => {
     if (!ganttItem.timelineId) return;
     if (isPending(ganttItem.timelineId)) {
       toast.info(PENDING_MSG);
       return;
     }
-    const timelineId = ganttItem.timelineId;
-    const oldPriority = ganttItem.priority;
-    const newPriority = priority as 1 | 2 | 3 | 4;
-    updateItem.mutate({ timelineId, input: { priority: newPriority } });
-    record({
-      description: `Set priority to ${priorityLabel(newPriority)}`,
-      forward: async () => {
-        await updateItem.mutateAsync({ timelineId, input: { priority: newPriority } });
-      },
-      inverse: async () => {
-        await updateItem.mutateAsync({ timelineId, input: { priority: oldPriority } });
-      },
+    updateItem.mutate({
+      timelineId: ganttItem.timelineId,
+      input: { priority: priority as 1 | 2 | 3 | 4 },
+      expectedUpdatedAt: updatedAtOf(ganttItem.timelineId),
     });
   };
 
-  // Handle set phase — records undo WITHOUT cascading restoration (descendants stay)
+  // Handle set phase — cascades to descendants; undo restores each one's phase
   const handleSetPhase = (ganttItem: GanttItem, phase: PhaseKey) => {
     if (!ganttItem.timelineId) return;
     if (isPending(ganttItem.timelineId)) {
       toast.info(PENDING_MSG);
       return;
     }
-    const taskId = ganttItem.timelineId;
-    const oldPhase = (ganttItem.phaseKey as PhaseKey | undefined) ?? null;
-    setPhaseMutation.mutate({ taskId, phaseKey: phase });
-    record({
-      description: `Changed phase`,
-      forward: async () => {
-        await setPhaseMutation.mutateAsync({ taskId, phaseKey: phase });
-      },
-      inverse: async () => {
-        if (oldPhase) {
-          await setPhaseMutation.mutateAsync({ taskId, phaseKey: oldPhase });
-        } else {
-          // Clear phase_key entirely via updateItem
-          await updateItem.mutateAsync({ timelineId: taskId, input: { phase_key: null } });
-        }
-      },
+    setPhaseMutation.mutate({
+      taskId: ganttItem.timelineId,
+      phaseKey: phase,
+      expectedUpdatedAt: updatedAtOf(ganttItem.timelineId),
     });
   };
 
-  // Handle set color — recorded for undo
+  // Handle set color
   const handleSetColor = (ganttItem: GanttItem, color: string | null) => {
     if (!ganttItem.timelineId) return;
     if (isPending(ganttItem.timelineId)) {
       toast.info(PENDING_MSG);
       return;
     }
-    const timelineId = ganttItem.timelineId;
-    const oldColor = ganttItem.color;
-    updateItem.mutate({ timelineId, input: { color } });
-    record({
-      description: color ? `Changed color` : `Reset color`,
-      forward: async () => {
-        await updateItem.mutateAsync({ timelineId, input: { color } });
-      },
-      inverse: async () => {
-        await updateItem.mutateAsync({ timelineId, input: { color: oldColor } });
-      },
+    updateItem.mutate({
+      timelineId: ganttItem.timelineId,
+      input: { color },
+      expectedUpdatedAt: updatedAtOf(ganttItem.timelineId),
     });
   };
 
   // Single-item delete (from context menu or double-click → delete)
   const handleDeleteClick = (ganttItem: GanttItem) => {
-    if (!ganttItem.timelineId) return;
+    if (!ganttItem.timelineId || scenario.active) return;
     if (isPending(ganttItem.timelineId)) {
       toast.info(PENDING_MSG);
       return;
@@ -480,6 +636,102 @@ function TimelineClientInner({
     setDeleteItemIds([]);
   };
 
+  const handleSaveBaseline = (input: { name: string; description: string | null }) => {
+    createBaseline.mutate(input, {
+      onSuccess: (baseline) => {
+        setBaselineDialogOpen(false);
+        setActiveBaselineId(baseline.id);
+      },
+    });
+  };
+
+  const handleDeleteBaselineConfirm = () => {
+    if (!baselineToDelete) return;
+    const id = baselineToDelete.id;
+    deleteBaseline.mutate(id, {
+      onSuccess: () => {
+        if (activeBaselineId === id) setActiveBaselineId(null);
+      },
+    });
+    setBaselineToDelete(null);
+  };
+
+  const handleExportBaselineReport = async () => {
+    const baseline = ganttBaselines.find((b) => b.id === activeBaselineId);
+    if (!baseline || !ganttBaselineItems) {
+      toast.info("Baseline is still loading — try again in a moment");
+      return;
+    }
+    const comparison = compareWithBaseline(ganttItems, ganttBaselineItems, workingDaysMask, holidayDates);
+    const success = await downloadBaselineReportPdf({
+      projectName,
+      projectCode,
+      baselineName: baseline.name,
+      baselineCreatedAt: baseline.createdAt,
+      rows: comparison.rows,
+      summary: comparison.summary,
+    });
+    if (!success) {
+      toast.error("Failed to generate baseline report PDF");
+    }
+  };
+
+  const handleImportSchedule = (input: {
+    schedule: InterchangeSchedule;
+    mode: ScheduleImportMode;
+    applyCalendar: boolean;
+  }) => {
+    importSchedule.mutate(input, {
+      onSuccess: () => {
+        setImportDialogOpen(false);
+        if (input.applyCalendar && input.schedule.workingDaysMask !== null) {
+          setWorkingDaysMask(input.schedule.workingDaysMask);
+        }
+      },
+    });
+  };
+
+  const handleStartScenario = () => {
+    if (timelineItems.some((i) => isPending(i.id))) {
+      toast.info(PENDING_MSG);
+      return;
+    }
+    scenario.start();
+  };
+
+  // Only stored leaf dates are written — parent and phase spans are derived on read
+  const handleApplyScenario = () => {
+    if (!scenario.diff || !scenario.base) return;
+    const liveItems = new Map(scenario.base.items.map((i) => [i.id, i]));
+    const draftItems = new Map(scenario.items.map((i) => [i.id, i]));
+    applyScenario.mutate(
+      {
+        items: scenario.diff.items
+          .filter((c) => c.stored)
+          .map((c) => ({
+            id: c.id,
+            start_date: draftItems.get(c.id)!.start_date,
+            end_date: draftItems.get(c.id)!.end_date,
+            expected_start: liveItems.get(c.id)!.start_date,
+            expected_end: liveItems.get(c.id)!.end_date,
+          })),
+        dependencies: scenario.diff.dependencies.map((c) => ({
+          id: c.id,
+          dependency_type: c.to.type as DependencyType,
+          lag_days: c.to.lagDays,
+          expected_type: c.from.type as DependencyType,
+          expected_lag: c.from.lagDays,
+        })),
+      },
+      {
+        onSuccess: () => {
+          setScenarioReviewOpen(false);
+          scenario.discard();
+        },
+      }
+    );
+  };
+
   // Loading state
   if (isLoadingItems || isLoadingDeps) {
     return (
@@ -520,83 +772,211 @@ function TimelineClientInner({
   }
 
   return (
-    <div className="flex flex-col h-full">
-      {/* Gantt Chart - fills entire space */}
-      <div className="flex-1 min-h-0">
-        <GanttChart
-          items={ganttItems}
-          dependencies={ganttDependencies}
-          showAddButton={canEdit}
-          onAddItem={canEdit ? handleAddItem : undefined}
-          onAddMilestone={canEdit ? handleAddMilestone : undefined}
-          onItemEdit={handleEditItem}
-          onItemDelete={handleDeleteClick}
-          onDeleteMany={canEdit ? handleDeleteMany : undefined}
-          onAddSubtask={canEdit ? handleAddSubtask : undefined}
-          onConvertToMilestone={canEdit ? handleConvertToMilestone : undefined}
-          onSetPriority={canEdit ? handleSetPriority : undefined}
-          onSetPhase={canEdit ? handleSetPhase : undefined}
-          onSetColor={canEdit ? handleSetColor : undefined}
-          onItemParentChange={canEdit ? handleParentChange : undefined}
-          onCreateDependency={canEdit ? handleCreateDependency : undefined}
-          onUpdateDependency={canEdit ? handleUpdateDependency : undefined}
-          onDeleteDependency={canEdit ? handleDeleteDependency : undefined}
-          workingDaysMask={workingDaysMask}
-          onWorkingDaysChange={canEdit ? handleWorkingDaysChange : undefined}
-          className="h-full"
+    <UndoRedoProvider projectId={projectId} disabled={!canEditLive}>
+      <div className="flex flex-col h-full">
+        {scenario.diff && (
+          <ScenarioBanner
+            diff={scenario.diff}
+            isApplying={applyScenario.isPending}
+            onReview={() => setScenarioReviewOpen(true)}
+            onDiscard={scenario.discard}
+          />
+        )}
+
+        {/* Gantt Chart - fills entire space */}
+        <div className="flex-1 min-h-0">
+          <GanttChart
+            items={ganttItems}
+            dependencies={ganttDependencies}
+            projectTitle={projectName}
+            projectSubtitle={projectCode}
+            showAddButton={canEditLive}
+            onAddItem={canEditLive ? handleAddItem : undefined}
+            onAddMilestone={canEditLive ? handleAddMilestone : undefined}
+            onItemEdit={handleEditItem}
+            onItemDelete={handleDeleteClick}
+            onDeleteMany={canEditLive ? handleDeleteMany : undefined}
+            onAddSubtask={canEditLive ? handleAddSubtask : undefined}
+            onConvertToMilestone={canEditLive ? handleConvertToMilestone : undefined}
+            onSetPriority={canEditLive ? handleSetPriority : undefined}
+            onSetPhase={canEditLive ? handleSetPhase : undefined}
+            onSetColor={canEditLive ? handleSetColor : undefined}
+            onItemParentChange={canEditLive ? handleParentChange : undefined}
+            onCreateDependency={canEditLive ? handleCreateDependency : undefined}
+            onUpdateDependency={canEdit ? handleUpdateDependency : undefined}
+            onDeleteDependency={canEditLive ? handleDeleteDependency : undefined}
+            workingDaysMask={workingDaysMask}
+            onWorkingDaysChange={canEditLive ? handleWorkingDaysChange : undefined}
+            holidays={ganttHolidays}
+            onManageHolidays={canEditLive ? () => setHolidayDialogOpen(true) : undefined}
+            baselines={ganttBaselines}
+            activeBaselineId={activeBaselineId}
+            baselineItems={ganttBaselineItems}
+            onActiveBaselineChange={setActiveBaselineId}
+            onSaveBaseline={canEditLive ? () => setBaselineDialogOpen(true) : undefined}
+            onDeleteBaseline={canEditLive ? setBaselineToDelete : undefined}
+            onExportBaselineReport={handleExportBaselineReport}
+            onExportSchedule={(format) => exportSchedule.mutate(format)}
+            onImportSchedule={canEditLive ? () => setImportDialogOpen(true) : undefined}
+            onGenerateSchedule={canEditLive ? () => setGenerateDialogOpen(true) : undefined}
+            onStartScenario={canEditLive ? handleStartScenario : undefined}
+            scenarioActive={scenario.active}
+            onShowHistory={() => setHistoryOpen(true)}
+            editorsById={collaboration.editorsById}
+            className="h-full"
+          />
+        </div>
+
+        {/* Scenario — move a task in the draft; remount per task so fields reset */}
+        {scenarioEditItem && (
+          <ScenarioItemDialog
+            key={scenarioEditItem.id}
+            open
+            onOpenChange={(open) => !open && setScenarioEditId(null)}
+            item={scenarioEditItem}
+            onSave={(startDate, endDate) => {
+              scenario.moveItem(scenarioEditItem.id, startDate, endDate);
+              setScenarioEditId(null);
+            }}
+          />
+        )}
+
+        {scenario.diff && (
+          <ScenarioReviewDialog
+            open={scenarioReviewOpen}
+            onOpenChange={setScenarioReviewOpen}
+            diff={scenario.diff}
+            isApplying={applyScenario.isPending}
+            onApply={handleApplyScenario}
+          />
+        )}
+
+        <TimelineHistorySheet projectId={projectId} open={historyOpen} onOpenChange={setHistoryOpen} />
+
+        {/* Form Dialog */}
+        <TimelineFormDialog
+          projectId={projectId}
+          open={formOpen}
+          onOpenChange={setFormOpen}
+          editItem={editItem}
+          scopeItems={scopeItems}
+          timelineItems={timelineItems}
+          dependencies={timelineDependencies}
         />
-      </div>
 
-      {/* Form Dialog */}
-      <TimelineFormDialog
-        projectId={projectId}
-        open={formOpen}
-        onOpenChange={setFormOpen}
-        editItem={editItem}
-        scopeItems={scopeItems}
-        timelineItems={timelineItems}
-        dependencies={timelineDependencies}
-      />
-
-      {/* Delete Confirmation Dialog */}
-      <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
-        <AlertDialogContent>
-          <AlertDialogHeader>
-            <AlertDialogTitle>
-              {deleteItemIds.length === 1
-                ? "Delete Timeline Item"
-                : `Delete ${deleteItemIds.length} Timeline Items`}
-            </AlertDialogTitle>
-            <AlertDialogDescription>
-              {deleteItemIds.length === 1
-                ? "Are you sure you want to delete this item? This action cannot be undone."
-                : `Are you sure you want to delete all ${deleteItemIds.length} selected items? This action cannot be undone.`}
-            </AlertDialogDescription>
-          </AlertDialogHeader>
-          <AlertDialogFooter>
-            <AlertDialogCancel disabled={deleteItem.isPending}>Cancel</AlertDialogCancel>
-            <AlertDialogAction
-              onClick={(e) => {
-                e.preventDefault();
-                handleDeleteConfirm();
-              }}
-              disabled={deleteItem.isPending}
-              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-            >
-              {deleteItem.isPending ? (
-                <>
-                  <Spinner className="size-4 mr-2" />
-                  Deleting...
-                </>
-              ) : deleteItemIds.length === 1 ? (
-                "Delete"
-              ) : (
-                `Delete ${deleteItemIds.length}`
-              )}
-            </AlertDialogAction>
-          </AlertDialogFooter>
-        </AlertDialogContent>
-      </AlertDialog>
-    </div>
+        {/* Save Baseline Dialog — remount per open so the default name is fresh */}
+        {baselineDialogOpen && (
+          <BaselineSaveDialog
+            open={baselineDialogOpen}
+            onOpenChange={setBaselineDialogOpen}
+            isSaving={createBaseline.isPending}
+            onSave={handleSaveBaseline}
+          />
+        )}
+
+        {/* Schedule Import — remount per open so a previous file isn't kept */}
+        {importDialogOpen && (
+          <ScheduleImportDialog
+            open={importDialogOpen}
+            onOpenChange={setImportDialogOpen}
+            items={timelineItems}
+            dependencies={timelineDependencies}
+            workingDaysMask={workingDaysMask}
+            isImporting={importSchedule.isPending}
+            onImport={handleImportSchedule}
+          />
+        )}
+
+        {/* Generate from Scope Items — remount per open so durations reload */}
+        {generateDialogOpen && (
+          <ScheduleGenerateDialog
+            open={generateDialogOpen}
+            onOpenChange={setGenerateDialogOpen}
+            projectId={projectId}
+            isGenerating={generateSchedule.isPending}
+            onGenerate={(options) =>
+              generateSchedule.mutate(options, { onSuccess: () => setGenerateDialogOpen(false) })
+            }
+          />
+        )}
+
+        {/* Holiday Calendars — remount per open so the add form is empty */}
+        {holidayDialogOpen && (
+          <HolidayCalendarDialog
+            open={holidayDialogOpen}
+            onOpenChange={setHolidayDialogOpen}
+            calendar={holidayCalendar}
+            canEdit={canEdit}
+            canEditCompany={canEditCompanyCalendar}
+            isSaving={createHolidays.isPending || deleteHoliday.isPending || setUseCompanyHolidays.isPending}
+            onAdd={(input) => createHolidays.mutate(input)}
+            onDelete={(holidayId) => deleteHoliday.mutate(holidayId)}
+            onUseCompanyChange={(enabled) => setUseCompanyHolidays.mutate(enabled)}
+          />
+        )}
+
+        {/* Delete Baseline Confirmation */}
+        <AlertDialog open={!!baselineToDelete} onOpenChange={(open) => !open && setBaselineToDelete(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete Baseline</AlertDialogTitle>
+              <AlertDialogDescription>
+                Delete &ldquo;{baselineToDelete?.name}&rdquo; and its snapshot of task dates? The schedule
+                itself is not affected. This action cannot be undone.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={handleDeleteBaselineConfirm}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                Delete
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
+        {/* Delete Confirmation Dialog */}
+        <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>
+                {deleteItemIds.length === 1
+                  ? "Delete Timeline Item"
+                  : `Delete ${deleteItemIds.length} Timeline Items`}
+              </AlertDialogTitle>
+              <AlertDialogDescription>
+                {deleteItemIds.length === 1
+                  ? "Are you sure you want to delete this item? You can restore it from the change history."
+                  : `Are you sure you want to delete all ${deleteItemIds.length} selected items? You can restore them from the change history.`}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={deleteItem.isPending}>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={(e) => {
+                  e.preventDefault();
+                  handleDeleteConfirm();
+                }}
+                disabled={deleteItem.isPending}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                {deleteItem.isPending ? (
+                  <>
+                    <Spinner className="size-4 mr-2" />
+                    Deleting...
+                  </>
+                ) : deleteItemIds.length === 1 ? (
+                  "Delete"
+                ) : (
+                  `Delete ${deleteItemIds.length}`
+                )}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </UndoRedoProvider>
   );
 }
@@ -0,0 +1,103 @@
+"use client";
+
+import { formatDistanceToNow } from "date-fns";
+import { HistoryIcon, Redo2Icon, Undo2Icon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Spinner } from "@/components/ui/spinner";
+import { cn } from "@/lib/utils";
+import { useUndoRedo } from "@/hooks/use-undo-redo";
+import { useTimelineHistory } from "@/lib/react-query/timelines";
+import { HISTORY_LIMIT } from "@/lib/gantt-history";
+
+interface TimelineHistorySheetProps {
+  projectId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Who changed what on the timeline, newest first. Undo and redo act on the
+ * top of the list — the same entries Ctrl+Z / Ctrl+Shift+Z reach.
+ */
+export function TimelineHistorySheet({ projectId, open, onOpenChange }: TimelineHistorySheetProps) {
+  const { data: history = [], isLoading } = useTimelineHistory(projectId);
+  const { undo, redo, canUndo, canRedo, isPending } = useUndoRedo();
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-md p-0 gap-0 flex flex-col">
+        <SheetHeader className="px-6 pt-5 pb-3 shrink-0 border-b">
+          <SheetTitle className="text-base flex items-center gap-2">
+            <HistoryIcon className="size-4" />
+            Change History
+          </SheetTitle>
+          <SheetDescription className="text-xs">
+            The last {HISTORY_LIMIT} timeline edits. Undo takes back an edit together with the dependent
+            dates it moved.
+          </SheetDescription>
+          <div className="flex gap-2 pt-1">
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 gap-1.5 text-xs"
+              disabled={!canUndo || isPending}
+              onClick={() => void undo()}
+            >
+              <Undo2Icon className="size-3.5" />
+              Undo
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 gap-1.5 text-xs"
+              disabled={!canRedo || isPending}
+              onClick={() => void redo()}
+            >
+              <Redo2Icon className="size-3.5" />
+              Redo
+            </Button>
+            {isPending && <Spinner className="size-4 self-center" />}
+          </div>
+        </SheetHeader>
+
+        <div className="flex-1 overflow-y-auto px-6 py-3">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Spinner className="size-5" />
+            </div>
+          ) : history.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-8 text-center">No timeline changes recorded yet.</p>
+          ) : (
+            <ol className="space-y-3">
+              {history.map((entry) => (
+                <li key={entry.id} className="text-sm">
+                  <p className={cn(entry.undoneAt && "line-through text-muted-foreground")}>
+                    {entry.description}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {entry.user?.name ?? "Unknown"} ·{" "}
+                    {formatDistanceToNow(new Date(entry.createdAt), { addSuffix: true })}
+                    {entry.rowCount > 1 && ` · ${entry.rowCount} rows`}
+                  </p>
+                  {entry.undoneAt && (
+                    <p className="text-xs text-amber-600 dark:text-amber-400">
+                      Undone by {entry.undoneBy ?? "Unknown"}{" "}
+                      {formatDistanceToNow(new Date(entry.undoneAt), { addSuffix: true })}
+                    </p>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
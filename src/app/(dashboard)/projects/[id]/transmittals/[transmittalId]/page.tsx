@@ -0,0 +1,52 @@
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import { ArrowLeftIcon } from "lucide-react";
+import { createClient } from "@/lib/supabase/server";
+import { resolveProjectIdentifier } from "@/lib/slug";
+import { getDrawingTransmittal } from "@/lib/actions/drawing-transmittals";
+import { Button } from "@/components/ui/button";
+import { TransmittalDetail } from "@/components/drawings";
+
+interface PageProps {
+  params: Promise<{ id: string; transmittalId: string }>;
+}
+
+// Landing page for the link in the drawing transmittal email.
+// RLS on drawing_transmittals already limits reads to users on the project.
+export default async function TransmittalPage({ params }: PageProps) {
+  const { id: projectIdOrSlug, transmittalId } = await params;
+  const supabase = await createClient();
+
+  const resolved = await resolveProjectIdentifier(supabase, projectIdOrSlug);
+  if (!resolved) notFound();
+  const { projectId, projectSlug } = resolved;
+  const projectUrlId = projectSlug || projectId;
+
+  const [transmittal, { data: project }] = await Promise.all([
+    getDrawingTransmittal(transmittalId),
+    supabase.from("projects").select("name, project_code").eq("id", projectId).single(),
+  ]);
+
+  if (!transmittal || transmittal.projectId !== projectId || !project) {
+    notFound();
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50/50 via-white to-gray-50/50 p-6">
+      <div className="max-w-4xl space-y-4">
+        <Button variant="ghost" size="sm" asChild className="-ml-2">
+          <Link href={`/projects/${projectUrlId}?tab=drawings`}>
+            <ArrowLeftIcon className="size-4" />
+            {project.name}
+          </Link>
+        </Button>
+        <TransmittalDetail
+          transmittal={transmittal}
+          projectId={projectId}
+          projectName={project.name}
+          projectCode={project.project_code}
+        />
+      </div>
+    </div>
+  );
+}
@@ -99,6 +99,11 @@ export default async function TimelineDetailPage({
     switcherProjects = switcherProjects.filter((p) => assignedIds.has(p.id));
   }
 
+  const currentUser = {
+    id: user.id,
+    name: (user.user_metadata?.name as string | undefined) || user.email?.split("@")[0] || "You",
+  };
+
   return (
     <div className="flex flex-col h-full">
       <TimelineDetailHeader
@@ -108,19 +113,20 @@ export default async function TimelineDetailPage({
         clientName={project.client?.company_name || null}
         status={project.status}
         switcherProjects={switcherProjects}
-        currentUser={{
-          id: user.id,
-          name: (user.user_metadata?.name as string | undefined) || user.email?.split("@")[0] || "You",
-        }}
+        currentUser={currentUser}
       />
 
       <div className="flex-1 overflow-hidden px-3 md:px-4 pt-4 pb-2">
         <TimelineClient
           projectId={projectId}
+          projectName={project.name}
+          projectCode={project.project_code}
           scopeItems={scopeItems}
           canEdit={canEdit}
+          canEditCompanyCalendar={userRole === "admin"}
           showHeader={false}
           workingDaysMask={project.gantt_working_days ?? 62}
+          currentUser={currentUser}
         />
       </div>
     </div>
@@ -14,7 +14,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
-import { useProjectViewers } from "@/hooks/use-project-viewers";
+import { useProjectViewers, viewerColor, viewerInitials } from "@/hooks/use-project-viewers";
 import { cn } from "@/lib/utils";
 
 type StatusVariant = "info" | "success" | "warning" | "default" | "danger";
@@ -46,25 +46,6 @@ interface TimelineDetailHeaderProps {
   currentUser: { id: string; name: string };
 }
 
-// Palette for viewer-avatar backgrounds. Deterministic per user id.
-const AVATAR_BG_COLORS = [
-  "#0d9488", "#3b82f6", "#6366f1", "#a855f7", "#ec4899",
-  "#f97316", "#f59e0b", "#16a34a", "#ef4444", "#64748b",
-];
-
-function hashToColor(id: string): string {
-  let h = 0;
-  for (let i = 0; i < id.length; i++) h = (h * 31 + id.charCodeAt(i)) | 0;
-  return AVATAR_BG_COLORS[Math.abs(h) % AVATAR_BG_COLORS.length];
-}
-
-function initials(name: string): string {
-  const parts = name.trim().split(/\s+/).filter(Boolean);
-  if (parts.length === 0) return "?";
-  if (parts.length === 1) return parts[0][0].toUpperCase();
-  return (parts[0][0] + parts[parts.length - 1][0]).toUpperCase();
-}
-
 export function TimelineDetailHeader({
   projectId,
   projectName,
@@ -92,9 +73,9 @@ export function TimelineDetailHeader({
                   className={cn(
                     "inline-flex items-center justify-center size-7 rounded-full text-[10px] font-semibold text-white border-2 border-background"
                   )}
-                  style={{ backgroundColor: hashToColor(v.userId) }}
+                  style={{ backgroundColor: viewerColor(v.userId) }}
                 >
-                  {initials(v.name)}
+                  {viewerInitials(v.name)}
                 </div>
               </TooltipTrigger>
               <TooltipContent>{v.name} is viewing</TooltipContent>
@@ -0,0 +1,152 @@
+import { redirect } from "next/navigation";
+import { getRequestContext } from "@/lib/supabase/server";
+import type { PortfolioProject, PortfolioScheduleItem } from "@/components/gantt";
+import { PortfolioTimelineClient } from "./portfolio-timeline-client";
+import { PortfolioTimelineHeader } from "./portfolio-timeline-header";
+
+// Responses are capped at 1000 rows, so project-wide reads go page by page
+const PAGE_SIZE = 1000;
+
+async function fetchAllRows<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>
+): Promise<{ data: T[]; error: { message: string } | null }> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) return { data: rows, error };
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) return { data: rows, error: null };
+  }
+}
+
+function LoadError({ title, message }: { title: string; message: string }) {
+  return (
+    <div className="p-6">
+      <PortfolioTimelineHeader />
+      <div className="rounded-lg border border-destructive/50 bg-destructive/5 p-6 text-center">
+        <h3 className="font-medium text-destructive">{title}</h3>
+        <p className="text-sm text-muted-foreground mt-1">{message}</p>
+      </div>
+    </div>
+  );
+}
+
+export default async function PortfolioTimelinePage() {
+  const ctx = await getRequestContext();
+  if (!ctx) redirect("/login");
+
+  const { supabase, user, role: userRole } = ctx;
+
+  // Same audience as the timeline section
+  if (userRole === "client") redirect("/dashboard");
+
+  const [
+    { data: assignments },
+    { data: allProjects, error },
+  ] = await Promise.all([
+    supabase.from("project_assignments").select("project_id").eq("user_id", user.id),
+    supabase
+      .from("projects")
+      .select(`id, project_code, name, status, client:clients(company_name)`)
+      .eq("is_deleted", false),
+  ]);
+
+  if (error) {
+    return <LoadError title="Failed to load projects" message={error.message} />;
+  }
+
+  const canSeeAll = ["admin", "management"].includes(userRole);
+  const assignedIds = new Set((assignments || []).map((a) => a.project_id));
+
+  let visibleProjects = (allProjects || []) as unknown as Array<{
+    id: string;
+    project_code: string;
+    name: string;
+    status: string;
+    client: { company_name: string } | null;
+  }>;
+  if (!canSeeAll) {
+    visibleProjects = visibleProjects.filter((p) => assignedIds.has(p.id));
+  }
+
+  const visibleIds = visibleProjects.map((p) => p.id);
+  const pmNames = new Map<string, string[]>();
+  let schedule: PortfolioScheduleItem[] = [];
+
+  if (visibleIds.length > 0) {
+    const [teamResult, spansResult, milestonesResult] = await Promise.all([
+      fetchAllRows((from, to) =>
+        supabase
+          .from("project_assignments")
+          .select("project_id, user:users!project_assignments_user_id_fkey(name, role)")
+          .in("project_id", visibleIds)
+          .order("id")
+          .range(from, to)
+      ),
+      // Phase bars come pre-aggregated: one row per project and phase
+      fetchAllRows((from, to) =>
+        supabase
+          .from("gantt_phase_spans_view")
+          .select("project_id, phase_key, start_date, end_date, task_count")
+          .in("project_id", visibleIds)
+          .order("project_id")
+          .order("phase_key")
+          .range(from, to)
+      ),
+      fetchAllRows((from, to) =>
+        supabase
+          .from("gantt_items")
+          .select("id, project_id, name, item_type, phase_key, start_date, end_date, is_completed")
+          .in("project_id", visibleIds)
+          .eq("item_type", "milestone")
+          .order("id")
+          .range(from, to)
+      ),
+    ]);
+
+    const scheduleError = teamResult.error ?? spansResult.error ?? milestonesResult.error;
+    if (scheduleError) {
+      return <LoadError title="Failed to load project schedules" message={scheduleError.message} />;
+    }
+
+    for (const row of teamResult.data as unknown as Array<{
+      project_id: string;
+      user: { name: string; role: string } | null;
+    }>) {
+      if (row.user?.role !== "pm") continue;
+      pmNames.set(row.project_id, [...(pmNames.get(row.project_id) ?? []), row.user.name]);
+    }
+    schedule = [
+      ...spansResult.data.map((span) => ({
+        id: `span:${span.project_id}:${span.phase_key}`,
+        project_id: span.project_id!,
+        name: span.phase_key!,
+        item_type: "task",
+        phase_key: span.phase_key,
+        start_date: span.start_date!,
+        end_date: span.end_date!,
+        is_completed: null,
+        task_count: span.task_count ?? 0,
+      })),
+      ...(milestonesResult.data as PortfolioScheduleItem[]),
+    ];
+  }
+
+  const projects: PortfolioProject[] = visibleProjects.map((p) => ({
+    id: p.id,
+    project_code: p.project_code,
+    name: p.name,
+    status: p.status,
+    client_name: p.client?.company_name ?? null,
+    pm_names: pmNames.get(p.id) ?? [],
+  }));
+
+  return (
+    <div className="flex flex-col h-full">
+      <PortfolioTimelineHeader />
+      <div className="flex-1 overflow-hidden px-3 md:px-4 pt-4 pb-2">
+        <PortfolioTimelineClient projects={projects} schedule={schedule} />
+      </div>
+    </div>
+  );
+}
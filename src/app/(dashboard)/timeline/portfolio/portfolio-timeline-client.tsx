@@ -0,0 +1,161 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { ChevronDownIcon, GanttChartIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { EmptyState, GlassCard } from "@/components/ui/ui-helpers";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  GanttChart,
+  PHASE_LABELS,
+  PHASE_ORDER,
+  buildPortfolioItems,
+  type PhaseKey,
+  type PortfolioGrouping,
+  type PortfolioProject,
+  type PortfolioScheduleItem,
+} from "@/components/gantt";
+
+const STATUS_LABELS: Record<string, string> = {
+  tender: "Tender",
+  active: "Active",
+  on_hold: "On Hold",
+  completed: "Completed",
+  cancelled: "Cancelled",
+  not_awarded: "Not Awarded",
+};
+
+// Management's default view — work that is actually being delivered
+const DEFAULT_STATUSES = ["active"];
+
+interface PortfolioTimelineClientProps {
+  projects: PortfolioProject[];
+  schedule: PortfolioScheduleItem[];
+}
+
+export function PortfolioTimelineClient({ projects, schedule }: PortfolioTimelineClientProps) {
+  const [grouping, setGrouping] = React.useState<PortfolioGrouping>("client");
+  const [statuses, setStatuses] = React.useState<string[]>(DEFAULT_STATUSES);
+  const [phase, setPhase] = React.useState<PhaseKey | "all">("all");
+
+  const view = React.useMemo(
+    () => buildPortfolioItems(projects, schedule, { grouping, statuses, phase, statusLabels: STATUS_LABELS }),
+    [projects, schedule, grouping, statuses, phase]
+  );
+
+  const toggleStatus = (status: string, checked: boolean) => {
+    setStatuses((prev) => (checked ? [...prev, status] : prev.filter((s) => s !== status)));
+  };
+
+  const statusSummary =
+    statuses.length === 0
+      ? "No statuses"
+      : statuses.length === 1
+      ? STATUS_LABELS[statuses[0]] ?? statuses[0]
+      : `${statuses.length} statuses`;
+
+  if (projects.length === 0) {
+    return (
+      <GlassCard>
+        <EmptyState
+          icon={<GanttChartIcon className="size-8" />}
+          title="No projects available"
+          description="Projects you can access will appear here once they have a schedule."
+        />
+      </GlassCard>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full gap-3">
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex items-center gap-2">
+          <Label className="text-xs text-muted-foreground">Group by</Label>
+          <Select value={grouping} onValueChange={(v) => setGrouping(v as PortfolioGrouping)}>
+            <SelectTrigger size="sm" className="h-8 w-32 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="client">Client</SelectItem>
+              <SelectItem value="pm">Project manager</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="h-8 text-xs gap-1.5">
+              Status: {statusSummary}
+              <ChevronDownIcon className="size-3 opacity-50" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" className="w-44">
+            {Object.entries(STATUS_LABELS).map(([value, label]) => (
+              <DropdownMenuCheckboxItem
+                key={value}
+                checked={statuses.includes(value)}
+                onCheckedChange={(checked) => toggleStatus(value, checked === true)}
+                onSelect={(e) => e.preventDefault()}
+              >
+                {label}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <Select value={phase} onValueChange={(v) => setPhase(v as PhaseKey | "all")}>
+          <SelectTrigger size="sm" className="h-8 w-44 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All phases</SelectItem>
+            {PHASE_ORDER.map((key) => (
+              <SelectItem key={key} value={key}>
+                {PHASE_LABELS[key]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <p className="ml-auto text-xs text-muted-foreground">
+          {view.projectCount} project{view.projectCount !== 1 ? "s" : ""}
+          {view.unscheduledCount > 0 && (
+            <>
+              {" · "}
+              {view.unscheduledCount} without {phase === "all" ? "a schedule" : `a ${PHASE_LABELS[phase]} phase`}
+              {" — "}
+              <Link href="/timeline" prefetch={false} className="text-primary hover:underline">
+                open timelines
+              </Link>
+            </>
+          )}
+        </p>
+      </div>
+
+      {/* Read-only chart — schedules are edited from each project's timeline */}
+      <div className="flex-1 min-h-0">
+        <GanttChart
+          items={view.items}
+          projectTitle={`Portfolio by ${grouping === "client" ? "client" : "PM"}`}
+          projectSubtitle={`Status: ${statusSummary}${phase === "all" ? "" : ` · ${PHASE_LABELS[phase]}`}`}
+          className="h-full"
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+"use client";
+
+import { useEffect } from "react";
+import Link from "next/link";
+import { ArrowLeftIcon, LayersIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { GradientIcon } from "@/components/ui/ui-helpers";
+import { usePageHeader } from "@/components/layout/app-header";
+
+export function PortfolioTimelineHeader() {
+  const { setContent } = usePageHeader();
+
+  useEffect(() => {
+    setContent({
+      backLink: (
+        <Button variant="ghost" size="sm" asChild className="text-muted-foreground hover:text-foreground">
+          <Link href="/timeline" prefetch={false}>
+            <ArrowLeftIcon className="size-4 mr-1" />
+            Timelines
+          </Link>
+        </Button>
+      ),
+      icon: <GradientIcon icon={<LayersIcon className="size-4" />} color="primary" size="sm" />,
+      title: "Portfolio",
+      description: "Phases and milestones of every project on one timeline",
+    });
+    return () => setContent({});
+  }, [setContent]);
+
+  return null;
+}
@@ -0,0 +1,23 @@
+import { redirect } from "next/navigation";
+import { getRequestContext } from "@/lib/supabase/server";
+import { ResourceLoadingClient } from "./resource-loading-client";
+import { ResourceLoadingHeader } from "./resource-loading-header";
+
+export default async function ResourceLoadingPage() {
+  const ctx = await getRequestContext();
+  if (!ctx) redirect("/login");
+
+  const { role: userRole } = ctx;
+
+  // Same audience as the timeline section
+  if (userRole === "client") redirect("/dashboard");
+
+  return (
+    <div className="flex flex-col h-full">
+      <ResourceLoadingHeader />
+      <div className="flex-1 overflow-auto px-6 py-4">
+        <ResourceLoadingClient canManage={["admin", "pm"].includes(userRole)} />
+      </div>
+    </div>
+  );
+}
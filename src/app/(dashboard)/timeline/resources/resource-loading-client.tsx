@@ -0,0 +1,462 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { addDays, addWeeks, format, startOfWeek } from "date-fns";
+import {
+  AlertTriangleIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  ExternalLinkIcon,
+  SettingsIcon,
+  UsersIcon,
+  XIcon,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Spinner } from "@/components/ui/spinner";
+import { EmptyState, GlassCard } from "@/components/ui/ui-helpers";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { expandHolidayDates, type HolidayDates } from "@/lib/holiday-calendar";
+import {
+  RESOURCE_TYPE_LABELS,
+  bucketResourceLoad,
+  computeResourceLoad,
+  type ResourceLoadBucket,
+  type ResourceType,
+} from "@/lib/resource-loading";
+import { useGanttResources, useResourceLoad } from "@/lib/react-query/resources";
+import { cn } from "@/lib/utils";
+import { ResourceManageDialog } from "./resource-manage-dialog";
+
+const SPAN_OPTIONS = [4, 8, 12, 26] as const;
+const DAY_CELL_WIDTH = 28;
+const WEEK_CELL_WIDTH = 56;
+const BAR_HEIGHT = 40;
+/** Bars are drawn up to 150% of capacity; the capacity line sits at 2/3 height */
+const BAR_SCALE = 1.5;
+
+interface ResourceLoadingClientProps {
+  canManage: boolean;
+}
+
+interface Selection {
+  resourceId: string;
+  bucket: ResourceLoadBucket;
+}
+
+function loadTone(peak: number, capacity: number): string {
+  if (peak > capacity) return "bg-red-500";
+  if (peak >= capacity * 0.8) return "bg-amber-500";
+  return "bg-teal-500";
+}
+
+export function ResourceLoadingClient({ canManage }: ResourceLoadingClientProps) {
+  const [rangeStart, setRangeStart] = React.useState(() => startOfWeek(new Date(), { weekStartsOn: 1 }));
+  const [weeks, setWeeks] = React.useState<number>(8);
+  const [unit, setUnit] = React.useState<"day" | "week">("day");
+  const [typeFilter, setTypeFilter] = React.useState<ResourceType | "all">("all");
+  const [includeTenders, setIncludeTenders] = React.useState(false);
+  const [onlyOverAllocated, setOnlyOverAllocated] = React.useState(false);
+  const [selection, setSelection] = React.useState<Selection | null>(null);
+  const [manageOpen, setManageOpen] = React.useState(false);
+
+  const from = format(rangeStart, "yyyy-MM-dd");
+  const to = format(addDays(addWeeks(rangeStart, weeks), -1), "yyyy-MM-dd");
+  const range = React.useMemo(() => ({ from, to }), [from, to]);
+
+  const { data: resources = [], isLoading: isLoadingResources } = useGanttResources();
+  const { data: loadData, isLoading: isLoadingLoad, error } = useResourceLoad(from, to);
+
+  const rows = React.useMemo(
+    () => (loadData?.rows ?? []).filter((r) => includeTenders || r.project_status !== "tender"),
+    [loadData, includeTenders]
+  );
+  const rowById = React.useMemo(() => new Map(rows.map((r) => [r.allocation_id, r])), [rows]);
+
+  const calendars = React.useMemo(() => {
+    const projectHolidays = new Map<string, HolidayDates>();
+    for (const [projectId, periods] of Object.entries(loadData?.projectHolidays ?? {})) {
+      projectHolidays.set(projectId, expandHolidayDates(periods));
+    }
+    return { companyHolidays: expandHolidayDates(loadData?.companyHolidays ?? []), projectHolidays };
+  }, [loadData]);
+
+  const visibleResources = React.useMemo(
+    () => resources.filter((r) => r.is_active && (typeFilter === "all" || r.resource_type === typeFilter)),
+    [resources, typeFilter]
+  );
+
+  const loads = React.useMemo(
+    () => computeResourceLoad(visibleResources, rows, range, calendars),
+    [visibleResources, rows, range, calendars]
+  );
+
+  const histogram = React.useMemo(
+    () =>
+      visibleResources
+        .map((resource) => {
+          const load = loads.get(resource.id)!;
+          return { resource, load, buckets: bucketResourceLoad(load, range, unit) };
+        })
+        .filter((r) => !onlyOverAllocated || r.load.overAllocatedDays.length > 0),
+    [visibleResources, loads, range, unit, onlyOverAllocated]
+  );
+
+  const overAllocatedCount = React.useMemo(
+    () => [...loads.values()].filter((l) => l.overAllocatedDays.length > 0).length,
+    [loads]
+  );
+
+  const columns = histogram[0]?.buckets ?? bucketResourceLoad(
+    { resourceId: "", capacity: 100, days: new Map(), peak: 0, overAllocatedDays: [] },
+    range,
+    unit
+  );
+  const cellWidth = unit === "day" ? DAY_CELL_WIDTH : WEEK_CELL_WIDTH;
+
+  const shiftRange = (direction: 1 | -1) => {
+    setRangeStart((prev) => addWeeks(prev, direction * Math.max(1, Math.floor(weeks / 2))));
+    setSelection(null);
+  };
+
+  const selectedResource = selection ? resources.find((r) => r.id === selection.resourceId) : undefined;
+  const selectedLoad = selection ? loads.get(selection.resourceId) : undefined;
+  const selectedRows = selection
+    ? selection.bucket.allocationIds
+        .map((id) => rowById.get(id))
+        .filter((r): r is NonNullable<typeof r> => !!r)
+        .sort(
+          (a, b) =>
+            (a.project_code ?? "\uffff").localeCompare(b.project_code ?? "\uffff") ||
+            a.start_date.localeCompare(b.start_date)
+        )
+    : [];
+  const selectedOverDays = selection && selectedLoad
+    ? selectedLoad.overAllocatedDays.filter(
+        (d) => d >= format(selection.bucket.start, "yyyy-MM-dd") && d <= format(selection.bucket.end, "yyyy-MM-dd")
+      )
+    : [];
+
+  if (isLoadingResources) {
+    return (
+      <div className="flex justify-center py-20">
+        <Spinner className="size-8" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Controls */}
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex items-center gap-1">
+          <Button variant="outline" size="icon" className="size-8" onClick={() => shiftRange(-1)} aria-label="Earlier">
+            <ChevronLeftIcon className="size-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 text-xs"
+            onClick={() => {
+              setRangeStart(startOfWeek(new Date(), { weekStartsOn: 1 }));
+              setSelection(null);
+            }}
+          >
+            This week
+          </Button>
+          <Button variant="outline" size="icon" className="size-8" onClick={() => shiftRange(1)} aria-label="Later">
+            <ChevronRightIcon className="size-4" />
+          </Button>
+        </div>
+        <span className="text-sm font-medium tabular-nums">
+          {format(rangeStart, "d MMM")} – {format(new Date(`${to}T00:00:00`), "d MMM yyyy")}
+        </span>
+
+        <div className="ml-auto flex flex-wrap items-center gap-2">
+          <Select value={String(weeks)} onValueChange={(v) => { setWeeks(Number(v)); setSelection(null); }}>
+            <SelectTrigger className="h-8 w-28 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SPAN_OPTIONS.map((n) => (
+                <SelectItem key={n} value={String(n)}>
+                  {n} weeks
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={unit} onValueChange={(v) => { setUnit(v as "day" | "week"); setSelection(null); }}>
+            <SelectTrigger className="h-8 w-24 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="day">Daily</SelectItem>
+              <SelectItem value="week">Weekly</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={typeFilter} onValueChange={(v) => setTypeFilter(v as ResourceType | "all")}>
+            <SelectTrigger className="h-8 w-40 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All resources</SelectItem>
+              {(Object.keys(RESOURCE_TYPE_LABELS) as ResourceType[]).map((type) => (
+                <SelectItem key={type} value={type}>
+                  {RESOURCE_TYPE_LABELS[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Label className="flex items-center gap-1.5 text-xs font-normal">
+            <Checkbox checked={includeTenders} onCheckedChange={(v) => setIncludeTenders(v === true)} />
+            Include tenders
+          </Label>
+          <Label className="flex items-center gap-1.5 text-xs font-normal">
+            <Checkbox checked={onlyOverAllocated} onCheckedChange={(v) => setOnlyOverAllocated(v === true)} />
+            Over-allocated only
+          </Label>
+          {canManage && (
+            <Button variant="outline" size="sm" className="h-8 text-xs gap-1.5" onClick={() => setManageOpen(true)}>
+              <SettingsIcon className="size-3.5" />
+              Manage crews
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {overAllocatedCount > 0 && (
+        <div className="flex items-center gap-2 rounded-md border border-red-500/30 bg-red-500/5 px-3 py-2 text-sm text-red-700 dark:text-red-400">
+          <AlertTriangleIcon className="size-4 shrink-0" />
+          {overAllocatedCount} resource{overAllocatedCount !== 1 ? "s are" : " is"} over-allocated in this period.
+          Click a red bar to see the clashing tasks.
+        </div>
+      )}
+
+      {error && <p className="text-sm text-destructive">{(error as Error).message}</p>}
+
+      {visibleResources.length === 0 ? (
+        <GlassCard>
+          <EmptyState
+            icon={<UsersIcon className="size-8" />}
+            title="No crews defined"
+            description={
+              canManage
+                ? "Add production and installation crews, then assign them to tasks from each project's timeline."
+                : "Ask a PM or Admin to set up crews and assign them to timeline tasks."
+            }
+            action={
+              canManage ? (
+                <Button size="sm" onClick={() => setManageOpen(true)}>
+                  Manage crews
+                </Button>
+              ) : undefined
+            }
+          />
+        </GlassCard>
+      ) : (
+        <GlassCard className="p-0 overflow-hidden">
+          <div className="overflow-x-auto">
+            <div className="min-w-max">
+              {/* Column header */}
+              <div className="flex border-b bg-muted/40 text-[10px] text-muted-foreground">
+                <div className="sticky left-0 z-10 w-56 shrink-0 bg-muted/40 px-3 py-1.5 font-medium backdrop-blur">
+                  Resource
+                </div>
+                {columns.map((col) => (
+                  <div
+                    key={col.start.toISOString()}
+                    className={cn(
+                      "shrink-0 border-l py-1.5 text-center tabular-nums",
+                      unit === "day" && (col.start.getDay() === 0 || col.start.getDay() === 6) && "bg-muted/60"
+                    )}
+                    style={{ width: cellWidth }}
+                    title={unit === "day" ? format(col.start, "EEE d MMM") : `Week of ${format(col.start, "d MMM")}`}
+                  >
+                    {unit === "day" ? (
+                      <>
+                        <div>{format(col.start, "EEEEE")}</div>
+                        <div className="font-medium">{format(col.start, "d")}</div>
+                      </>
+                    ) : (
+                      <>
+                        <div>W{format(col.start, "I")}</div>
+                        <div className="font-medium">{format(col.start, "d MMM")}</div>
+                      </>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              {isLoadingLoad ? (
+                <div className="flex justify-center py-10">
+                  <Spinner className="size-6" />
+                </div>
+              ) : histogram.length === 0 ? (
+                <p className="py-10 text-center text-sm text-muted-foreground">
+                  No over-allocated resources in this period.
+                </p>
+              ) : (
+                histogram.map(({ resource, load, buckets }) => (
+                  <div key={resource.id} className="flex border-b last:border-0">
+                    <div className="sticky left-0 z-10 w-56 shrink-0 bg-background px-3 py-2">
+                      <div className="flex items-center gap-1.5">
+                        {resource.color && (
+                          <span className="size-2.5 rounded-full shrink-0" style={{ backgroundColor: resource.color }} />
+                        )}
+                        <span className="truncate text-sm font-medium">{resource.name}</span>
+                      </div>
+                      <div className="flex items-center gap-1.5 text-[11px] text-muted-foreground">
+                        <span>{RESOURCE_TYPE_LABELS[resource.resource_type]}</span>
+                        <span>·</span>
+                        <span className="tabular-nums">cap {resource.capacity_percent}%</span>
+                        {load.overAllocatedDays.length > 0 && (
+                          <Badge variant="destructive" className="h-4 px-1 text-[10px]">
+                            {load.overAllocatedDays.length}d over
+                          </Badge>
+                        )}
+                      </div>
+                    </div>
+                    {buckets.map((bucket) => {
+                      const value = unit === "day" ? bucket.peak : bucket.average;
+                      const height = Math.min(value / (load.capacity * BAR_SCALE), 1) * BAR_HEIGHT;
+                      const isSelected =
+                        selection?.resourceId === resource.id &&
+                        selection.bucket.start.getTime() === bucket.start.getTime();
+                      return (
+                        <button
+                          key={bucket.start.toISOString()}
+                          type="button"
+                          disabled={bucket.allocationIds.length === 0}
+                          onClick={() => setSelection({ resourceId: resource.id, bucket })}
+                          className={cn(
+                            "relative shrink-0 border-l flex items-end justify-center px-0.5 pb-1 pt-2",
+                            bucket.allocationIds.length > 0 && "hover:bg-muted/60 cursor-pointer",
+                            isSelected && "bg-muted ring-1 ring-inset ring-foreground/30"
+                          )}
+                          style={{ width: cellWidth, height: BAR_HEIGHT + 12 }}
+                          title={
+                            bucket.allocationIds.length > 0
+                              ? unit === "day"
+                                ? `${format(bucket.start, "EEE d MMM")}: ${bucket.peak}% of ${load.capacity}%`
+                                : `Week of ${format(bucket.start, "d MMM")}: avg ${bucket.average}%, peak ${bucket.peak}% of ${load.capacity}%`
+                              : undefined
+                          }
+                        >
+                          {/* Capacity line */}
+                          <span
+                            className="pointer-events-none absolute inset-x-0 border-t border-dashed border-foreground/20"
+                            style={{ bottom: 4 + BAR_HEIGHT / BAR_SCALE }}
+                          />
+                          {value > 0 && (
+                            <span
+                              className={cn(
+                                "w-full rounded-sm",
+                                loadTone(unit === "day" ? bucket.peak : bucket.average, load.capacity),
+                                unit === "week" && bucket.overAllocated && "ring-2 ring-red-500"
+                              )}
+                              style={{ height: Math.max(2, height) }}
+                            />
+                          )}
+                        </button>
+                      );
+                    })}
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        </GlassCard>
+      )}
+
+      {/* Drill-down */}
+      {selection && selectedResource && (
+        <GlassCard className="p-4 space-y-3">
+          <div className="flex items-start justify-between gap-2">
+            <div>
+              <h3 className="text-sm font-semibold">
+                {selectedResource.name} ·{" "}
+                {unit === "day"
+                  ? format(selection.bucket.start, "EEE d MMM yyyy")
+                  : `${format(selection.bucket.start, "d MMM")} – ${format(selection.bucket.end, "d MMM yyyy")}`}
+              </h3>
+              <p className="text-xs text-muted-foreground">
+                Peak {selection.bucket.peak}% of {selectedResource.capacity_percent}% capacity
+                {selectedOverDays.length > 0 &&
+                  ` · over on ${selectedOverDays.map((d) => format(new Date(`${d}T00:00:00`), "EEE d")).join(", ")}`}
+              </p>
+            </div>
+            <Button variant="ghost" size="icon" className="size-7" onClick={() => setSelection(null)} aria-label="Close">
+              <XIcon className="size-4" />
+            </Button>
+          </div>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b text-left text-muted-foreground">
+                <th className="py-1.5 pr-3 font-medium">Project</th>
+                <th className="py-1.5 pr-3 font-medium">Task</th>
+                <th className="py-1.5 pr-3 font-medium">Dates</th>
+                <th className="py-1.5 pr-3 font-medium text-right">Allocation</th>
+                <th className="py-1.5 w-8" />
+              </tr>
+            </thead>
+            <tbody>
+              {selectedRows.map((row) => (
+                <tr key={row.allocation_id} className="border-b last:border-0">
+                  <td className="py-1.5 pr-3">
+                    {row.is_assigned ? (
+                      <>
+                        <span className="font-mono text-muted-foreground">{row.project_code}</span>{" "}
+                        {row.project_name}
+                      </>
+                    ) : (
+                      <span className="text-muted-foreground">Other project</span>
+                    )}
+                    {row.project_status === "tender" && (
+                      <Badge variant="outline" className="ml-1.5 h-4 px-1 text-[10px]">
+                        Tender
+                      </Badge>
+                    )}
+                  </td>
+                  <td className="py-1.5 pr-3 font-medium">
+                    {row.item_name ?? <span className="font-normal text-muted-foreground">—</span>}
+                  </td>
+                  <td className="py-1.5 pr-3 tabular-nums text-muted-foreground">
+                    {format(new Date(`${row.start_date}T00:00:00`), "d MMM")} –{" "}
+                    {format(new Date(`${row.end_date}T00:00:00`), "d MMM")}
+                  </td>
+                  <td className="py-1.5 pr-3 text-right tabular-nums">{row.allocation_percent}%</td>
+                  <td className="py-1.5">
+                    {row.is_assigned && (
+                      <Button variant="ghost" size="icon" className="size-6" asChild>
+                        <Link
+                          href={`/timeline/${row.project_slug || row.project_id}`}
+                          prefetch={false}
+                          aria-label={`Open ${row.project_code} timeline`}
+                        >
+                          <ExternalLinkIcon className="size-3.5" />
+                        </Link>
+                      </Button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </GlassCard>
+      )}
+
+      {manageOpen && (
+        <ResourceManageDialog open={manageOpen} onOpenChange={setManageOpen} resources={resources} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+"use client";
+
+import { useState } from "react";
+import { Trash2Icon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { RESOURCE_TYPE_LABELS, type ResourceType } from "@/lib/resource-loading";
+import type { GanttResource } from "@/lib/actions/resources";
+import {
+  useCreateGanttResource,
+  useDeleteGanttResource,
+  useUpdateGanttResource,
+} from "@/lib/react-query/resources";
+
+interface ResourceManageDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  resources: GanttResource[];
+}
+
+const RESOURCE_TYPES = Object.keys(RESOURCE_TYPE_LABELS) as ResourceType[];
+
+/**
+ * Add, rename, resize and retire crews. Edits save as soon as a field is
+ * left; inactive crews keep their allocations but drop off the histogram.
+ */
+export function ResourceManageDialog({ open, onOpenChange, resources }: ResourceManageDialogProps) {
+  const createResource = useCreateGanttResource();
+  const updateResource = useUpdateGanttResource();
+  const deleteResource = useDeleteGanttResource();
+
+  const [name, setName] = useState("");
+  const [resourceType, setResourceType] = useState<ResourceType>("installation");
+  const [capacity, setCapacity] = useState(100);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  const trimmed = name.trim();
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!trimmed) return;
+    createResource.mutate(
+      { name: trimmed, resource_type: resourceType, capacity_percent: capacity },
+      {
+        onSuccess: () => {
+          setName("");
+          setCapacity(100);
+        },
+      }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Crews &amp; Resources</DialogTitle>
+          <DialogDescription>
+            Capacity is how much work a resource takes per working day — 100% for one crew, 200% for two
+            interchangeable crews.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[50vh]">
+          <div className="divide-y rounded-md border">
+            {resources.length === 0 && (
+              <p className="px-3 py-6 text-center text-sm text-muted-foreground">No crews yet</p>
+            )}
+            {resources.map((resource) => (
+              <div key={resource.id} className="flex items-center gap-2 px-3 py-2">
+                <Input
+                  defaultValue={resource.name}
+                  maxLength={80}
+                  className="h-8 flex-1 text-sm"
+                  aria-label="Resource name"
+                  onBlur={(e) => {
+                    const value = e.target.value.trim();
+                    if (value && value !== resource.name) {
+                      updateResource.mutate({ resourceId: resource.id, input: { name: value } });
+                    }
+                  }}
+                />
+                <Select
+                  value={resource.resource_type}
+                  onValueChange={(v) =>
+                    updateResource.mutate({ resourceId: resource.id, input: { resource_type: v as ResourceType } })
+                  }
+                >
+                  <SelectTrigger className="h-8 w-40 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RESOURCE_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {RESOURCE_TYPE_LABELS[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min={1}
+                  max={1000}
+                  step={50}
+                  defaultValue={resource.capacity_percent}
+                  className="h-8 w-20 text-xs"
+                  aria-label="Capacity %"
+                  onBlur={(e) => {
+                    const value = Math.round(Number(e.target.value));
+                    if (value >= 1 && value <= 1000 && value !== resource.capacity_percent) {
+                      updateResource.mutate({ resourceId: resource.id, input: { capacity_percent: value } });
+                    }
+                  }}
+                />
+                <span className="text-xs text-muted-foreground">%</span>
+                <Switch
+                  checked={resource.is_active}
+                  onCheckedChange={(checked) =>
+                    updateResource.mutate({ resourceId: resource.id, input: { is_active: checked } })
+                  }
+                  aria-label="Active"
+                />
+                {confirmDeleteId === resource.id ? (
+                  <Button
+                    type="button"
+                    variant="destructive"
+                    size="sm"
+                    className="h-7 text-xs"
+                    disabled={deleteResource.isPending}
+                    onClick={() => deleteResource.mutate(resource.id, { onSettled: () => setConfirmDeleteId(null) })}
+                  >
+                    Delete?
+                  </Button>
+                ) : (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="size-7"
+                    onClick={() => setConfirmDeleteId(resource.id)}
+                    aria-label={`Delete ${resource.name}`}
+                  >
+                    <Trash2Icon className="size-3.5" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+
+        <form onSubmit={handleAdd} className="grid grid-cols-[1fr_auto_auto_auto] items-end gap-2 rounded-md border p-3">
+          <div className="space-y-1">
+            <Label htmlFor="resource-name" className="text-xs">New crew or resource</Label>
+            <Input
+              id="resource-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Installation Team A"
+              maxLength={80}
+              className="h-8 text-sm"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Type</Label>
+            <Select value={resourceType} onValueChange={(v) => setResourceType(v as ResourceType)}>
+              <SelectTrigger className="h-8 w-40 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RESOURCE_TYPES.map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {RESOURCE_TYPE_LABELS[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="resource-capacity" className="text-xs">Capacity %</Label>
+            <Input
+              id="resource-capacity"
+              type="number"
+              min={1}
+              max={1000}
+              step={50}
+              value={capacity}
+              onChange={(e) => setCapacity(Math.min(1000, Math.max(1, Math.round(Number(e.target.value)) || 1)))}
+              className="h-8 w-20 text-xs"
+            />
+          </div>
+          <Button type="submit" size="sm" className="h-8" disabled={!trimmed || createResource.isPending}>
+            Add
+          </Button>
+        </form>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
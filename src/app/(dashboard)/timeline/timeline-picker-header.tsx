@@ -1,7 +1,9 @@
 "use client";
 
 import { useEffect } from "react";
-import { GanttChartIcon } from "lucide-react";
+import Link from "next/link";
+import { BarChart3Icon, GanttChartIcon, LayersIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import { GradientIcon } from "@/components/ui/ui-helpers";
 import { usePageHeader } from "@/components/layout/app-header";
 
@@ -13,6 +15,22 @@ export function TimelinePickerHeader() {
       icon: <GradientIcon icon={<GanttChartIcon className="size-4" />} color="primary" size="sm" />,
       title: "Timeline",
       description: "Pick a project to view or edit its schedule",
+      actions: (
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" asChild className="h-8 text-xs gap-1.5">
+            <Link href="/timeline/portfolio" prefetch={false}>
+              <LayersIcon className="size-3.5" />
+              Portfolio
+            </Link>
+          </Button>
+          <Button variant="outline" size="sm" asChild className="h-8 text-xs gap-1.5">
+            <Link href="/timeline/resources" prefetch={false}>
+              <BarChart3Icon className="size-3.5" />
+              Resource loading
+            </Link>
+          </Button>
+        </div>
+      ),
     });
     return () => setContent({});
   }, [setContent]);
@@ -0,0 +1,459 @@
+/**
+ * Approval Reminder Cron Job
+ *
+ * Runs daily and chases drawings and materials that are waiting on the client.
+ * Ageing is measured from sent_to_client_at (materials fall back to created_at,
+ * since they are in front of the client from the moment they are added).
+ * Each project sets its own cadence: a nudge after approval_reminder_days and
+ * an escalation after approval_escalation_days. Client contacts get one email
+ * per project with the PMs copied; escalations also notify the PMs in-app.
+ * approval_reminder_stage is claimed per item, so each stage is sent once per
+ * round of review.
+ *
+ * Schedule: Every day at 7:15 AM UTC (configured in vercel.json)
+ */
+
+import { createClient } from "@supabase/supabase-js";
+import { ApprovalReminderEmail } from "@/emails/approval-reminder-email";
+import { NextResponse } from "next/server";
+import { getSiteUrl } from "@/lib/platform/env";
+import { getResendClient } from "@/lib/platform/mail";
+import { logger } from "@/lib/platform/logger";
+import {
+  approvalAgeDays,
+  dueReminderStage,
+  type ApprovalReminderCadence,
+  type ApprovalReminderStage,
+} from "@/lib/approval-reminders";
+
+const JOB_NAME = "approval_reminders";
+const AREA = "cron";
+
+// Use service role key for cron jobs (bypasses RLS)
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const resend = getResendClient();
+const siteUrl = getSiteUrl();
+
+type ReminderTable = "drawings" | "materials";
+
+interface AwaitingDrawing {
+  id: string;
+  sent_to_client_at: string;
+  approval_reminder_stage: number;
+  item: { item_code: string; name: string; project_id: string; is_deleted: boolean } | null;
+}
+
+interface AwaitingMaterial {
+  id: string;
+  material_code: string;
+  name: string;
+  project_id: string;
+  sent_to_client_at: string | null;
+  created_at: string;
+  approval_reminder_stage: number;
+}
+
+interface ReminderProject {
+  id: string;
+  slug: string | null;
+  name: string;
+  project_code: string;
+  approval_reminder_days: number | null;
+  approval_escalation_days: number | null;
+}
+
+/** An item whose next reminder stage is due */
+interface DueReminder {
+  table: ReminderTable;
+  id: string;
+  projectId: string;
+  code: string;
+  name: string;
+  sentAt: string;
+  ageDays: number;
+  fromStage: number;
+  toStage: ApprovalReminderStage;
+}
+
+interface ProjectMember {
+  user_id: string;
+  user: {
+    id: string;
+    name: string;
+    email: string;
+    role: string;
+    email_notifications: boolean;
+  } | null;
+}
+
+export async function GET(request: Request) {
+  const startedAt = Date.now();
+
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    logger.error("Cron secret not configured", {
+      area: AREA,
+      jobName: JOB_NAME,
+      event: "cron.approval_reminders.misconfigured",
+      errorClass: "logic_error",
+    });
+    return NextResponse.json(
+      { error: "Server misconfigured" },
+      { status: 500 },
+    );
+  }
+
+  const authHeader = request.headers.get("authorization");
+  if (authHeader !== `Bearer ${cronSecret}`) {
+    logger.warn("Cron unauthorized invocation", {
+      area: AREA,
+      jobName: JOB_NAME,
+      event: "cron.approval_reminders.unauthorized",
+      status: 401,
+    });
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  logger.info("Cron job started", {
+    area: AREA,
+    jobName: JOB_NAME,
+    event: "cron.approval_reminders.started",
+  });
+
+  try {
+    const now = new Date();
+
+    // 1. Everything still waiting on the client that hasn't been escalated yet
+    const [drawingsResult, materialsResult] = await Promise.all([
+      supabase
+        .from("drawings")
+        .select(
+          `
+          id,
+          sent_to_client_at,
+          approval_reminder_stage,
+          item:scope_items!inner(item_code, name, project_id, is_deleted)
+        `
+        )
+        .eq("status", "sent_to_client")
+        .not("sent_to_client_at", "is", null)
+        .lt("approval_reminder_stage", 2),
+      supabase
+        .from("materials")
+        .select("id, material_code, name, project_id, sent_to_client_at, created_at, approval_reminder_stage")
+        .in("status", ["pending", "sent_to_client"])
+        .eq("is_deleted", false)
+        .lt("approval_reminder_stage", 2),
+    ]);
+
+    const fetchError = drawingsResult.error || materialsResult.error;
+    if (fetchError) {
+      logger.error("Failed to load items awaiting approval", {
+        area: AREA,
+        jobName: JOB_NAME,
+        event: "cron.approval_reminders.failed",
+        durationMs: Date.now() - startedAt,
+        err: fetchError,
+        errorClass: "database_error",
+      });
+      return NextResponse.json(
+        { error: "Failed to load awaiting items" },
+        { status: 500 }
+      );
+    }
+
+    const awaiting = [
+      ...((drawingsResult.data || []) as unknown as AwaitingDrawing[])
+        .filter((d) => d.item && !d.item.is_deleted)
+        .map((d) => ({
+          table: "drawings" as const,
+          id: d.id,
+          projectId: d.item!.project_id,
+          code: d.item!.item_code,
+          name: d.item!.name,
+          sentAt: d.sent_to_client_at,
+          stage: d.approval_reminder_stage,
+        })),
+      ...((materialsResult.data || []) as unknown as AwaitingMaterial[]).map((m) => ({
+        table: "materials" as const,
+        id: m.id,
+        projectId: m.project_id,
+        code: m.material_code,
+        name: m.name,
+        sentAt: m.sent_to_client_at ?? m.created_at,
+        stage: m.approval_reminder_stage,
+      })),
+    ];
+
+    // 2. Cadence of every live project involved
+    const projectIds = [...new Set(awaiting.map((a) => a.projectId))];
+    const { data: projectRows } = projectIds.length > 0
+      ? await supabase
+          .from("projects")
+          .select("id, slug, name, project_code, approval_reminder_days, approval_escalation_days")
+          .in("id", projectIds)
+          .eq("is_deleted", false)
+          .not("status", "in", "(completed,cancelled,not_awarded)")
+      : { data: [] };
+    const projects = new Map(
+      ((projectRows || []) as ReminderProject[]).map((p) => [p.id, p])
+    );
+
+    // 3. Work out which items have crossed their next threshold
+    const due: DueReminder[] = [];
+    for (const item of awaiting) {
+      const project = projects.get(item.projectId);
+      if (!project) continue;
+      const cadence: ApprovalReminderCadence = {
+        reminderDays: project.approval_reminder_days,
+        escalationDays: project.approval_escalation_days,
+      };
+      const ageDays = approvalAgeDays(item.sentAt, now) ?? 0;
+      const toStage = dueReminderStage(ageDays, cadence);
+      if (toStage <= item.stage) continue;
+      due.push({
+        table: item.table,
+        id: item.id,
+        projectId: item.projectId,
+        code: item.code,
+        name: item.name,
+        sentAt: item.sentAt,
+        ageDays,
+        fromStage: item.stage,
+        toStage,
+      });
+    }
+
+    // 4. Atomically claim each stage transition. The UPDATE re-checks the
+    // current stage under the row lock, so overlapping runs never send the
+    // same reminder twice.
+    const claimedAt = now.toISOString();
+    const claimed: DueReminder[] = [];
+    const batches = new Map<string, DueReminder[]>();
+    for (const reminder of due) {
+      const key = `${reminder.table}:${reminder.fromStage}:${reminder.toStage}`;
+      const list = batches.get(key) || [];
+      list.push(reminder);
+      batches.set(key, list);
+    }
+
+    for (const batch of batches.values()) {
+      const { table, fromStage, toStage } = batch[0];
+      const { data: claimedRows, error: claimError } = await supabase
+        .from(table)
+        .update({ approval_reminder_stage: toStage, approval_reminded_at: claimedAt })
+        .in("id", batch.map((r) => r.id))
+        .eq("approval_reminder_stage", fromStage)
+        .select("id");
+
+      if (claimError) {
+        logger.warn("Failed to claim approval reminders", {
+          area: AREA,
+          jobName: JOB_NAME,
+          event: "cron.approval_reminders.claim_failed",
+          table,
+          err: claimError,
+          errorClass: "database_error",
+        });
+        continue;
+      }
+
+      const claimedIds = new Set((claimedRows || []).map((r: { id: string }) => r.id));
+      claimed.push(...batch.filter((r) => claimedIds.has(r.id)));
+    }
+
+    if (claimed.length === 0) {
+      logger.info("Cron job completed (no work)", {
+        area: AREA,
+        jobName: JOB_NAME,
+        event: "cron.approval_reminders.completed",
+        durationMs: Date.now() - startedAt,
+        processed: 0,
+      });
+      return NextResponse.json({
+        success: true,
+        message: "No approvals need a reminder",
+        processed: 0,
+      });
+    }
+
+    // 5. One email per project to the client contacts, PMs copied
+    const remindersByProject = new Map<string, DueReminder[]>();
+    for (const reminder of claimed) {
+      const list = remindersByProject.get(reminder.projectId) || [];
+      list.push(reminder);
+      remindersByProject.set(reminder.projectId, list);
+    }
+
+    let emailsSent = 0;
+    let notificationsCreated = 0;
+
+    for (const [projectId, reminders] of remindersByProject) {
+      const project = projects.get(projectId)!;
+
+      // Use explicit FK reference since project_assignments has two FKs to users (user_id, assigned_by)
+      const { data: assignments, error: teamError } = await supabase
+        .from("project_assignments")
+        .select(
+          `
+          user_id,
+          user:users!project_assignments_user_id_fkey(id, name, email, role, email_notifications)
+        `
+        )
+        .eq("project_id", projectId);
+
+      if (teamError) {
+        logger.warn("Failed to fetch project team for approval reminders", {
+          area: AREA,
+          jobName: JOB_NAME,
+          event: "cron.approval_reminders.team_fetch_failed",
+          projectId,
+          err: teamError,
+          errorClass: "database_error",
+        });
+        continue;
+      }
+
+      const members = ((assignments || []) as unknown as ProjectMember[]).filter((a) => a.user);
+      const clients = members.filter((m) => m.user!.role === "client");
+      const pms = members.filter((m) => ["pm", "admin"].includes(m.user!.role));
+
+      const escalated = reminders.filter((r) => r.toStage === 2);
+      const countText = `${reminders.length} item${reminders.length !== 1 ? "s" : ""}`;
+      const title = escalated.length > 0
+        ? `${escalated.length} approval${escalated.length !== 1 ? "s" : ""} overdue`
+        : `Reminder: ${countText} awaiting your approval`;
+
+      // In-app: clients see every reminder, PMs only the escalations
+      const notifications = [
+        ...clients.map((c) => ({
+          user_id: c.user_id,
+          type: "approval_reminder",
+          title,
+          message: `Project: ${project.name}`,
+          project_id: projectId,
+        })),
+        ...(escalated.length > 0
+          ? pms.map((pm) => ({
+              user_id: pm.user_id,
+              type: "approval_escalated",
+              title: `${escalated.length} client approval${escalated.length !== 1 ? "s" : ""} overdue`,
+              message: `Project: ${project.name}`,
+              project_id: projectId,
+            }))
+          : []),
+      ];
+
+      if (notifications.length > 0) {
+        const { error: notifError } = await supabase
+          .from("notifications")
+          .insert(notifications);
+
+        if (notifError) {
+          logger.warn("Failed to create approval reminder notifications", {
+            area: AREA,
+            jobName: JOB_NAME,
+            event: "cron.approval_reminders.notification_insert_failed",
+            projectId,
+            err: notifError,
+            errorClass: "database_error",
+          });
+        } else {
+          notificationsCreated += notifications.length;
+        }
+      }
+
+      if (!resend) continue;
+
+      const emailable = (list: ProjectMember[]) =>
+        list.filter((m) => m.user!.email_notifications && m.user!.email);
+      const clientRecipients = emailable(clients);
+      const pmRecipients = emailable(pms);
+
+      // With no client contact to chase, the escalation still reaches the PMs
+      const to = clientRecipients.length > 0
+        ? clientRecipients
+        : escalated.length > 0 ? pmRecipients : [];
+      if (to.length === 0) continue;
+      const cc = to === clientRecipients ? pmRecipients : [];
+
+      const projectUrlId = project.slug || projectId;
+
+      try {
+        await resend.emails.send({
+          from: "Formula Contract <noreply@formulacontractpm.com>",
+          to: to.map((m) => m.user!.email),
+          cc: cc.length > 0 ? cc.map((m) => m.user!.email) : undefined,
+          subject: `${title} - ${project.project_code}`,
+          react: ApprovalReminderEmail({
+            recipientName: to.map((m) => m.user!.name).join(", "),
+            projectName: project.name,
+            projectCode: project.project_code,
+            items: reminders
+              .sort((a, b) => b.ageDays - a.ageDays)
+              .map((r) => ({
+                kind: r.table === "drawings" ? "drawing" as const : "material" as const,
+                code: r.code,
+                name: r.name,
+                sentOn: new Date(r.sentAt).toLocaleDateString("en-US", {
+                  year: "numeric",
+                  month: "long",
+                  day: "numeric",
+                }),
+                daysWaiting: r.ageDays,
+                escalated: r.toStage === 2,
+              })),
+            drawingsUrl: `${siteUrl}/projects/${projectUrlId}?tab=drawings`,
+            materialsUrl: `${siteUrl}/projects/${projectUrlId}?tab=materials`,
+          }),
+        });
+        emailsSent++;
+      } catch (emailError) {
+        logger.warn("Failed to send approval reminder email", {
+          area: AREA,
+          jobName: JOB_NAME,
+          event: "cron.approval_reminders.email_send_failed",
+          projectId,
+          err: emailError,
+          errorClass: "integration_error",
+        });
+      }
+    }
+
+    const durationMs = Date.now() - startedAt;
+    logger.info("Cron job completed", {
+      area: AREA,
+      jobName: JOB_NAME,
+      event: "cron.approval_reminders.completed",
+      durationMs,
+      processed: claimed.length,
+      emailsSent,
+      notificationsCreated,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `Sent reminders for ${claimed.length} items`,
+      processed: claimed.length,
+      emailsSent,
+      notificationsCreated,
+    });
+  } catch (error) {
+    logger.error("Cron job threw exception", {
+      area: AREA,
+      jobName: JOB_NAME,
+      event: "cron.approval_reminders.failed",
+      durationMs: Date.now() - startedAt,
+      err: error,
+      errorClass: "job_error",
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,236 @@
+/**
+ * CRM Follow-up Reminder Cron Job
+ *
+ * Runs daily and emails each user one digest of their CRM follow-ups
+ * (activity next_action_date) that are due today or overdue and not done.
+ * reminder_sent_on is claimed per follow-up, so a user gets at most one
+ * reminder per follow-up per day until it is completed.
+ *
+ * Schedule: Every day at 7:45 AM UTC (configured in vercel.json)
+ */
+
+import { createClient } from "@supabase/supabase-js";
+import { CrmFollowUpReminderEmail } from "@/emails/crm-follow-up-reminder-email";
+import { NextResponse } from "next/server";
+import { getSiteUrl } from "@/lib/platform/env";
+import { getResendClient } from "@/lib/platform/mail";
+import { logger } from "@/lib/platform/logger";
+
+const JOB_NAME = "crm_follow_ups";
+const AREA = "cron";
+
+// Use service role key for cron jobs (bypasses RLS)
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const resend = getResendClient();
+const siteUrl = getSiteUrl();
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+interface DueFollowUp {
+  id: string;
+  title: string;
+  next_action: string | null;
+  next_action_date: string;
+  user_id: string;
+  user: {
+    id: string;
+    name: string;
+    email: string;
+    email_notifications: boolean;
+  } | null;
+  brand: { name: string } | null;
+  architecture_firm: { name: string } | null;
+  contact: { first_name: string; last_name: string } | null;
+}
+
+export async function GET(request: Request) {
+  const startedAt = Date.now();
+
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    logger.error("Cron secret not configured", {
+      area: AREA,
+      jobName: JOB_NAME,
+      event: "cron.crm_follow_ups.misconfigured",
+      errorClass: "logic_error",
+    });
+    return NextResponse.json(
+      { error: "Server misconfigured" },
+      { status: 500 },
+    );
+  }
+
+  const authHeader = request.headers.get("authorization");
+  if (authHeader !== `Bearer ${cronSecret}`) {
+    logger.warn("Cron unauthorized invocation", {
+      area: AREA,
+      jobName: JOB_NAME,
+      event: "cron.crm_follow_ups.unauthorized",
+      status: 401,
+    });
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  logger.info("Cron job started", {
+    area: AREA,
+    jobName: JOB_NAME,
+    event: "cron.crm_follow_ups.started",
+  });
+
+  try {
+    const todayStr = new Date().toISOString().split("T")[0];
+
+    // Atomically claim today's reminders. The UPDATE re-checks reminder_sent_on
+    // under the row lock, so overlapping runs never remind about the same follow-up twice.
+    const { data: claimed, error: claimError } = await supabase
+      .from("crm_activities")
+      .update({ reminder_sent_on: todayStr })
+      .eq("is_deleted", false)
+      .is("follow_up_completed_at", null)
+      .not("user_id", "is", null)
+      .lte("next_action_date", todayStr)
+      .or(`reminder_sent_on.is.null,reminder_sent_on.lt.${todayStr}`)
+      .select(
+        `
+        id,
+        title,
+        next_action,
+        next_action_date,
+        user_id,
+        user:users!crm_activities_user_id_fkey(id, name, email, email_notifications),
+        brand:crm_brands!crm_activities_brand_id_fkey(name),
+        architecture_firm:crm_architecture_firms!crm_activities_architecture_firm_id_fkey(name),
+        contact:crm_contacts!crm_activities_contact_id_fkey(first_name, last_name)
+      `
+      );
+
+    if (claimError) {
+      logger.error("Failed to claim due follow-ups", {
+        area: AREA,
+        jobName: JOB_NAME,
+        event: "cron.crm_follow_ups.failed",
+        durationMs: Date.now() - startedAt,
+        err: claimError,
+        errorClass: "database_error",
+      });
+      return NextResponse.json(
+        { error: "Failed to claim follow-ups" },
+        { status: 500 }
+      );
+    }
+
+    const followUps = (claimed || []) as unknown as DueFollowUp[];
+
+    if (followUps.length === 0) {
+      logger.info("Cron job completed (no work)", {
+        area: AREA,
+        jobName: JOB_NAME,
+        event: "cron.crm_follow_ups.completed",
+        durationMs: Date.now() - startedAt,
+        processed: 0,
+      });
+      return NextResponse.json({
+        success: true,
+        message: "No follow-ups due",
+        processed: 0,
+      });
+    }
+
+    // One digest per owner, oldest due date first
+    const followUpsByUser = new Map<string, DueFollowUp[]>();
+    for (const followUp of followUps) {
+      const list = followUpsByUser.get(followUp.user_id) || [];
+      list.push(followUp);
+      followUpsByUser.set(followUp.user_id, list);
+    }
+
+    let emailsSent = 0;
+
+    if (resend) {
+      for (const [userId, userFollowUps] of followUpsByUser) {
+        const owner = userFollowUps[0].user;
+        if (!owner?.email || !owner.email_notifications) continue;
+
+        const rows = [...userFollowUps]
+          .sort((a, b) => a.next_action_date.localeCompare(b.next_action_date))
+          .map((f) => ({
+            nextAction: f.next_action || f.title,
+            activityTitle: f.title,
+            counterpart:
+              [
+                f.brand?.name ?? f.architecture_firm?.name,
+                f.contact ? `${f.contact.first_name} ${f.contact.last_name}` : null,
+              ]
+                .filter(Boolean)
+                .join(" · ") || null,
+            dueDate: new Date(f.next_action_date).toLocaleDateString("en-US", {
+              year: "numeric",
+              month: "long",
+              day: "numeric",
+            }),
+            daysOverdue: Math.round(
+              (Date.parse(todayStr) - Date.parse(f.next_action_date)) / MS_PER_DAY
+            ),
+          }));
+
+        try {
+          await resend.emails.send({
+            from: "Formula Contract <noreply@formulacontractpm.com>",
+            to: owner.email,
+            subject: `CRM follow-ups due: ${rows.length}`,
+            react: CrmFollowUpReminderEmail({
+              userName: owner.name,
+              followUps: rows,
+              activityUrl: `${siteUrl}/crm/activities?follow_ups=due`,
+            }),
+          });
+          emailsSent++;
+        } catch (emailError) {
+          logger.warn("Failed to send follow-up reminder email", {
+            area: AREA,
+            jobName: JOB_NAME,
+            event: "cron.crm_follow_ups.email_send_failed",
+            userId,
+            err: emailError,
+            errorClass: "integration_error",
+          });
+        }
+      }
+    }
+
+    const durationMs = Date.now() - startedAt;
+    logger.info("Cron job completed", {
+      area: AREA,
+      jobName: JOB_NAME,
+      event: "cron.crm_follow_ups.completed",
+      durationMs,
+      processed: followUps.length,
+      users: followUpsByUser.size,
+      emailsSent,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `Reminded ${followUpsByUser.size} users about ${followUps.length} follow-ups`,
+      processed: followUps.length,
+      emailsSent,
+    });
+  } catch (error) {
+    logger.error("Cron job threw exception", {
+      area: AREA,
+      jobName: JOB_NAME,
+      event: "cron.crm_follow_ups.failed",
+      durationMs: Date.now() - startedAt,
+      err: error,
+      errorClass: "job_error",
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,328 @@
+/**
+ * Snag Escalation Cron Job
+ *
+ * Runs daily to escalate critical snags that passed their target fix date.
+ * Sends email + in-app notifications to the project's PMs.
+ * Each snag is escalated once (escalated_at); changing its target fix date
+ * or reopening it clears the marker so a missed deadline escalates again.
+ * Snags on projects with no PM to tell stay unmarked until one is assigned.
+ *
+ * Schedule: Every day at 7:30 AM UTC (configured in vercel.json)
+ */
+
+import { createClient } from "@supabase/supabase-js";
+import { SnagEscalationEmail } from "@/emails/snag-escalation-email";
+import { NextResponse } from "next/server";
+import { getSiteUrl } from "@/lib/platform/env";
+import { getResendClient } from "@/lib/platform/mail";
+import { logger } from "@/lib/platform/logger";
+import { snagDaysOverdue } from "@/lib/snagging";
+
+const JOB_NAME = "snag_escalation";
+const AREA = "cron";
+
+// Use service role key for cron jobs (bypasses RLS)
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const resend = getResendClient();
+const siteUrl = getSiteUrl();
+
+interface EscalatedSnag {
+  id: string;
+  description: string;
+  target_fix_date: string;
+  project_id: string;
+  project: {
+    name: string;
+    project_code: string;
+  };
+  area: { name: string; floor: string } | null;
+  assignee: { name: string } | null;
+}
+
+interface ProjectPM {
+  user_id: string;
+  user: {
+    id: string;
+    name: string;
+    email: string;
+    role: string;
+    email_notifications: boolean;
+  };
+}
+
+/**
+ * Hand claimed snags back when their project has no one to escalate to, so
+ * the next run picks them up instead of marking them escalated unseen.
+ */
+async function releaseClaims(projectId: string, snags: EscalatedSnag[]) {
+  const { error } = await supabase
+    .from("snagging")
+    .update({ escalated_at: null })
+    .in("id", snags.map((s) => s.id));
+
+  if (error) {
+    logger.error("Failed to release snag escalation claims", {
+      area: AREA,
+      jobName: JOB_NAME,
+      event: "cron.snag_escalation.release_failed",
+      projectId,
+      err: error,
+      errorClass: "database_error",
+    });
+  }
+}
+
+export async function GET(request: Request) {
+  const startedAt = Date.now();
+
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    logger.error("Cron secret not configured", {
+      area: AREA,
+      jobName: JOB_NAME,
+      event: "cron.snag_escalation.misconfigured",
+      errorClass: "logic_error",
+    });
+    return NextResponse.json(
+      { error: "Server misconfigured" },
+      { status: 500 },
+    );
+  }
+
+  const authHeader = request.headers.get("authorization");
+  if (authHeader !== `Bearer ${cronSecret}`) {
+    logger.warn("Cron unauthorized invocation", {
+      area: AREA,
+      jobName: JOB_NAME,
+      event: "cron.snag_escalation.unauthorized",
+      status: 401,
+    });
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  logger.info("Cron job started", {
+    area: AREA,
+    jobName: JOB_NAME,
+    event: "cron.snag_escalation.started",
+  });
+
+  try {
+    const today = new Date();
+    const todayStr = today.toISOString().split("T")[0];
+
+    // Atomically claim overdue critical snags that haven't been escalated.
+    // Same pattern as check-milestones: the UPDATE re-checks the predicate
+    // under the row lock, so parallel runs never escalate the same snag twice.
+    const { data: claimed, error: claimError } = await supabase
+      .from("snagging")
+      .update({ escalated_at: new Date().toISOString() })
+      .eq("severity", "critical")
+      .eq("is_resolved", false)
+      .eq("is_deleted", false)
+      .is("escalated_at", null)
+      .lt("target_fix_date", todayStr)
+      .select(
+        `
+        id,
+        description,
+        target_fix_date,
+        project_id,
+        project:projects!inner(name, project_code),
+        area:project_areas!snagging_area_id_fkey(name, floor),
+        assignee:users!snagging_assigned_to_fkey(name)
+      `
+      );
+
+    if (claimError) {
+      logger.error("Failed to claim overdue snags", {
+        area: AREA,
+        jobName: JOB_NAME,
+        event: "cron.snag_escalation.failed",
+        durationMs: Date.now() - startedAt,
+        err: claimError,
+        errorClass: "database_error",
+      });
+      return NextResponse.json(
+        { error: "Failed to claim snags" },
+        { status: 500 }
+      );
+    }
+
+    const snagsToEscalate = (claimed || []) as unknown as EscalatedSnag[];
+
+    if (snagsToEscalate.length === 0) {
+      logger.info("Cron job completed (no work)", {
+        area: AREA,
+        jobName: JOB_NAME,
+        event: "cron.snag_escalation.completed",
+        durationMs: Date.now() - startedAt,
+        processed: 0,
+      });
+      return NextResponse.json({
+        success: true,
+        message: "No snags need escalation",
+        processed: 0,
+      });
+    }
+
+    // One escalation (notification + email) per project, listing all its snags
+    const snagsByProject = new Map<string, EscalatedSnag[]>();
+    for (const snag of snagsToEscalate) {
+      const list = snagsByProject.get(snag.project_id) || [];
+      list.push(snag);
+      snagsByProject.set(snag.project_id, list);
+    }
+
+    let emailsSent = 0;
+    let notificationsCreated = 0;
+
+    for (const [projectId, snags] of snagsByProject) {
+      const project = snags[0].project;
+
+      // Use explicit FK reference since project_assignments has two FKs to users (user_id, assigned_by)
+      const { data: assignments, error: teamError } = await supabase
+        .from("project_assignments")
+        .select(
+          `
+          user_id,
+          user:users!project_assignments_user_id_fkey(id, name, email, role, email_notifications)
+        `
+        )
+        .eq("project_id", projectId);
+
+      if (teamError) {
+        logger.warn("Failed to fetch PMs for snag escalation", {
+          area: AREA,
+          jobName: JOB_NAME,
+          event: "cron.snag_escalation.team_fetch_failed",
+          projectId,
+          err: teamError,
+          errorClass: "database_error",
+        });
+        await releaseClaims(projectId, snags);
+        continue;
+      }
+
+      const pms = ((assignments || []) as unknown as ProjectPM[]).filter(
+        (a) => a.user && ["pm", "admin"].includes(a.user.role)
+      );
+      if (pms.length === 0) {
+        await releaseClaims(projectId, snags);
+        continue;
+      }
+
+      const title =
+        snags.length === 1
+          ? `Critical snag overdue: ${snags[0].description.slice(0, 60)}`
+          : `${snags.length} critical snags overdue`;
+
+      const notifications = pms.map((pm) => ({
+        user_id: pm.user_id,
+        type: "snag_escalated",
+        title,
+        message: `Project: ${project.name}`,
+        project_id: projectId,
+      }));
+
+      const { error: notifError } = await supabase
+        .from("notifications")
+        .insert(notifications);
+
+      if (notifError) {
+        logger.warn("Failed to create snag escalation notifications", {
+          area: AREA,
+          jobName: JOB_NAME,
+          event: "cron.snag_escalation.notification_insert_failed",
+          projectId,
+          err: notifError,
+          errorClass: "database_error",
+        });
+      } else {
+        notificationsCreated += notifications.length;
+      }
+
+      if (resend) {
+        const emailSnags = snags.map((snag) => ({
+          description: snag.description,
+          areaLabel: snag.area ? `${snag.area.floor} · ${snag.area.name}` : null,
+          assigneeName: snag.assignee?.name ?? null,
+          targetFixDate: new Date(snag.target_fix_date).toLocaleDateString("en-US", {
+            year: "numeric",
+            month: "long",
+            day: "numeric",
+          }),
+          daysOverdue: snagDaysOverdue(
+            { is_resolved: false, target_fix_date: snag.target_fix_date },
+            today
+          ),
+        }));
+
+        for (const pm of pms) {
+          if (!pm.user.email_notifications || !pm.user.email) continue;
+
+          try {
+            await resend.emails.send({
+              from: "Formula Contract <noreply@formulacontractpm.com>",
+              to: pm.user.email,
+              subject: `${title} - ${project.project_code}`,
+              react: SnagEscalationEmail({
+                userName: pm.user.name,
+                projectName: project.name,
+                projectCode: project.project_code,
+                snags: emailSnags,
+                projectUrl: `${siteUrl}/projects/${projectId}?tab=snagging`,
+              }),
+            });
+            emailsSent++;
+          } catch (emailError) {
+            logger.warn("Failed to send snag escalation email", {
+              area: AREA,
+              jobName: JOB_NAME,
+              event: "cron.snag_escalation.email_send_failed",
+              projectId,
+              userId: pm.user.id,
+              err: emailError,
+              errorClass: "integration_error",
+            });
+          }
+        }
+      }
+    }
+
+    const durationMs = Date.now() - startedAt;
+    logger.info("Cron job completed", {
+      area: AREA,
+      jobName: JOB_NAME,
+      event: "cron.snag_escalation.completed",
+      durationMs,
+      processed: snagsToEscalate.length,
+      emailsSent,
+      notificationsCreated,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `Escalated ${snagsToEscalate.length} snags`,
+      processed: snagsToEscalate.length,
+      emailsSent,
+      notificationsCreated,
+    });
+  } catch (error) {
+    logger.error("Cron job threw exception", {
+      area: AREA,
+      jobName: JOB_NAME,
+      event: "cron.snag_escalation.failed",
+      durationMs: Date.now() - startedAt,
+      err: error,
+      errorClass: "job_error",
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
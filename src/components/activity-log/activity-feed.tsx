@@ -140,6 +140,27 @@ const actionConfig: Record<string, { icon: React.ReactNode; gradientColor: Gradi
     gradientColor: "coral",
     verb: "PM override approved drawing for",
   },
+  [ACTIVITY_ACTIONS.DRAWING_TRANSMITTAL_ACKNOWLEDGED]: {
+    icon: <CheckCircleIcon className="size-3.5" />,
+    gradientColor: "emerald",
+    verb: "acknowledged transmittal",
+  },
+  [ACTIVITY_ACTIONS.DRAWING_INTERNAL_APPROVED]: {
+    icon: <CheckCircleIcon className="size-3.5" />,
+    gradientColor: "teal",
+    verb: "signed off internal check for",
+  },
+  [ACTIVITY_ACTIONS.DRAWING_INTERNAL_REJECTED]: {
+    icon: <XCircleIcon className="size-3.5" />,
+    gradientColor: "rose",
+    verb: "rejected internal check for",
+  },
+  [ACTIVITY_ACTIONS.DRAWING_APPROVAL_CHAIN_UPDATED]: {
+    icon: <EditIcon className="size-3.5" />,
+    gradientColor: "sky",
+    verb: "updated the drawing approval chain of",
+    entityLabel: "project",
+  },
 
   // Material actions
   [ACTIVITY_ACTIONS.MATERIAL_CREATED]: {
@@ -14,6 +14,7 @@ import {
   WalletIcon,
   BanknoteIcon,
   GanttChartIcon,
+  HandshakeIcon,
 } from "lucide-react";
 import { getVersionDisplay } from "@/lib/version";
 
@@ -46,6 +47,7 @@ const routePermissions: Record<string, string[]> = {
   "/projects": ["admin", "pm", "production", "procurement", "management", "client"], // Clients see assigned projects
   "/timeline": ["admin", "pm", "production", "procurement", "management"], // Hidden for clients
   "/clients": ["admin", "pm"],
+  "/crm": ["admin", "pm", "management"],
   "/finance": ["admin", "management"],
   "/payments": ["admin", "pm", "management"], // PM access controlled by finance_access whitelist on the page
   "/users": ["admin"],
@@ -59,6 +61,7 @@ const navItemColors: Record<string, string> = {
   "/projects": "teal",
   "/timeline": "teal",
   "/clients": "slate",
+  "/crm": "slate",
   "/finance": "teal",
   "/payments": "amber",
   "/users": "coral",
@@ -87,6 +90,11 @@ const mainNavItems = [
     href: "/clients",
     icon: BuildingIcon,
   },
+  {
+    title: "CRM",
+    href: "/crm",
+    icon: HandshakeIcon,
+  },
   {
     title: "Finance",
     href: "/finance",
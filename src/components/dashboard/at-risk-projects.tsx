@@ -6,6 +6,7 @@ import { Badge } from "@/components/ui/badge";
 import {
   AlertTriangleIcon,
   ArrowRightIcon,
+  BugIcon,
   ClockIcon,
   FileX2Icon,
   ShieldAlertIcon,
@@ -116,6 +117,15 @@ export function AtRiskProjects({ projects }: AtRiskProjectsProps) {
                     </span>
                   </div>
                 )}
+                {project.overdueSnagsCount > 0 && (
+                  <div className="flex items-center gap-1 text-xs">
+                    <BugIcon className="size-3 text-rose-500" />
+                    <span className="text-rose-700">
+                      {project.overdueSnagsCount} snag{project.overdueSnagsCount !== 1 ? "s" : ""} past SLA
+                      {project.criticalOverdueSnagsCount > 0 && ` (${project.criticalOverdueSnagsCount} critical)`}
+                    </span>
+                  </div>
+                )}
               </div>
             </Link>
           );
@@ -9,6 +9,7 @@ import {
   FileTextIcon,
   AlertTriangleIcon,
   ArrowRightIcon,
+  HandshakeIcon,
 } from "lucide-react";
 import type { TaskSummary } from "@/lib/actions/dashboard";
 
@@ -49,6 +50,14 @@ const taskItems = [
     href: "/projects?filter=overdue",
     color: "text-orange-600 bg-orange-50",
   },
+  {
+    key: "crmFollowUps",
+    label: "CRM Follow-ups",
+    description: "Due today or overdue",
+    icon: HandshakeIcon,
+    href: "/crm/activities?follow_ups=due",
+    color: "text-slate-600 bg-slate-100",
+  },
 ];
 
 export function MyTasksWidget({ tasks }: MyTasksWidgetProps) {
@@ -0,0 +1,184 @@
+"use client";
+
+import { useState } from "react";
+import { ArrowDownIcon, ArrowUpIcon, ListChecksIcon, PlusIcon, TrashIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Spinner } from "@/components/ui/spinner";
+import { useDrawingApprovalChain, useUpdateDrawingApprovalChain } from "@/lib/react-query/drawings";
+import {
+  CHAIN_APPROVER_ROLES,
+  CHAIN_APPROVER_ROLE_LABELS,
+  MAX_APPROVAL_CHAIN_STEPS,
+  validateApprovalChain,
+  type ChainApproverRole,
+} from "@/lib/drawing-approval-chain";
+
+interface DrawingApprovalChainSettingsProps {
+  projectId: string;
+  className?: string;
+}
+
+interface DraftStep {
+  name: string;
+  approverRole: ChainApproverRole;
+}
+
+/**
+ * PM/Admin editor for the internal checks a drawing revision passes, in
+ * order, before it can be sent to the client. An empty chain sends straight
+ * from upload.
+ */
+export function DrawingApprovalChainSettings({ projectId, className }: DrawingApprovalChainSettingsProps) {
+  const [open, setOpen] = useState(false);
+  // null until the user edits, so the saved chain shows once it loads
+  const [draft, setDraft] = useState<DraftStep[] | null>(null);
+  const { data: chain, isLoading } = useDrawingApprovalChain(projectId, open);
+  const updateChain = useUpdateDrawingApprovalChain(projectId);
+
+  const steps: DraftStep[] = draft ?? (chain ?? []).map(({ name, approverRole }) => ({ name, approverRole }));
+  const validationError = validateApprovalChain(steps);
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) setDraft(null);
+    setOpen(next);
+  };
+
+  const updateStep = (index: number, patch: Partial<DraftStep>) =>
+    setDraft(steps.map((step, i) => (i === index ? { ...step, ...patch } : step)));
+
+  const moveStep = (index: number, offset: -1 | 1) => {
+    const next = [...steps];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setDraft(next);
+  };
+
+  const handleSave = () => {
+    updateChain.mutate(steps, { onSuccess: () => setOpen(false) });
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className={className}>
+          <ListChecksIcon className="size-3.5" />
+          Approval Chain
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 space-y-3">
+        <div>
+          <p className="text-sm font-medium">Internal approval chain</p>
+          <p className="text-xs text-muted-foreground">
+            Checks each new revision passes, in order, before it can be sent to the client.
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Spinner className="size-4" />
+          </div>
+        ) : steps.length === 0 ? (
+          <p className="rounded-md border border-dashed p-3 text-center text-xs text-muted-foreground">
+            No internal checks — uploaded drawings can be sent straight to the client.
+          </p>
+        ) : (
+          <ol className="space-y-2">
+            {steps.map((step, index) => (
+              <li key={index} className="flex items-center gap-1.5">
+                <span className="w-4 text-xs font-medium text-muted-foreground tabular-nums">{index + 1}</span>
+                <Input
+                  value={step.name}
+                  onChange={(e) => updateStep(index, { name: e.target.value })}
+                  placeholder="e.g. Production check"
+                  aria-label={`Step ${index + 1} name`}
+                  className="h-8 flex-1 text-xs"
+                />
+                <Select
+                  value={step.approverRole}
+                  onValueChange={(value) => updateStep(index, { approverRole: value as ChainApproverRole })}
+                >
+                  <SelectTrigger className="h-8 w-32 text-xs" aria-label={`Step ${index + 1} approver`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CHAIN_APPROVER_ROLES.map((role) => (
+                      <SelectItem key={role} value={role}>
+                        {CHAIN_APPROVER_ROLE_LABELS[role]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="size-7"
+                  disabled={index === 0}
+                  onClick={() => moveStep(index, -1)}
+                  aria-label="Move step up"
+                >
+                  <ArrowUpIcon className="size-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="size-7"
+                  disabled={index === steps.length - 1}
+                  onClick={() => moveStep(index, 1)}
+                  aria-label="Move step down"
+                >
+                  <ArrowDownIcon className="size-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="size-7"
+                  onClick={() => setDraft(steps.filter((_, i) => i !== index))}
+                  aria-label="Remove step"
+                >
+                  <TrashIcon className="size-3.5" />
+                </Button>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full"
+          disabled={isLoading || steps.length >= MAX_APPROVAL_CHAIN_STEPS}
+          onClick={() => setDraft([...steps, { name: "", approverRole: "production" }])}
+        >
+          <PlusIcon className="size-3.5" />
+          Add Step
+        </Button>
+
+        <p className="text-xs text-muted-foreground">The client approves last, once every step has signed off.</p>
+
+        {validationError && <p className="text-xs text-destructive">{validationError}</p>}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" size="sm" onClick={() => setOpen(false)} disabled={updateChain.isPending}>
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            onClick={handleSave}
+            disabled={updateChain.isPending || isLoading || draft === null || !!validationError}
+          >
+            {updateChain.isPending && <Spinner className="size-3.5" />}
+            Save
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -15,6 +15,12 @@ import { ACTIVITY_ACTIONS } from "@/lib/activity-log/constants";
 import { sendDrawingsToClient, overrideDrawingApproval, approveOrRejectDrawing } from "@/lib/actions/drawings";
 import { toast } from "sonner";
 import { validateFile, DRAWING_CONFIG, CAD_CONFIG, sanitizeFileName } from "@/lib/file-validation";
+import { useDrawingInternalReview, useDrawingMarkups } from "@/lib/react-query/drawings";
+import { isReadyForClient } from "@/lib/drawing-approval-chain";
+import { flattenDrawingMarkup } from "@/lib/pdf/drawing-markup-pdf";
+import type { MarkupStamp } from "@/lib/drawing-markup";
+import { DrawingMarkupDialog } from "./drawing-markup-dialog";
+import { DrawingInternalReview } from "./drawing-internal-review";
 import {
   Dialog,
   DialogContent,
@@ -44,6 +50,7 @@ import {
   UploadIcon,
   FileIcon,
   XIcon,
+  PencilRulerIcon,
 } from "lucide-react";
 import type { DrawingUpdate, DrawingInsert, ScopeItemUpdate, DrawingStatus } from "@/types/database";
 
@@ -95,6 +102,20 @@ export function DrawingApproval({
   const [markupFile, setMarkupFile] = useState<File | null>(null);
   const markupInputRef = useRef<HTMLInputElement>(null);
 
+  // In-browser markup — flattened into the response PDF when no file is attached
+  const [isMarkupDialogOpen, setIsMarkupDialogOpen] = useState(false);
+  const { data: markupRevisions } = useDrawingMarkups(isApprovalDialogOpen ? drawingId : null);
+  const responseMarkupRevision = markupRevisions?.find((r) => r.revision === currentRevision) ?? null;
+  // The client's comments, plus the responder's own when a PM records them
+  const responseMarkups = (responseMarkupRevision?.layers ?? [])
+    .filter((l) => l.isMine || l.authorRole === "client")
+    .flatMap((l) => l.annotations);
+
+  // Internal approval chain — an uploaded revision can't go to the client until it clears
+  const inInternalReview = !!drawingId && drawingStatus === "uploaded" && !isClient;
+  const { data: internalReview } = useDrawingInternalReview(inInternalReview ? drawingId : null);
+  const awaitingInternalReview = !!internalReview && !isReadyForClient(internalReview.state);
+
   // PM Override dialog
   const [isOverrideDialogOpen, setIsOverrideDialogOpen] = useState(false);
   const [overrideReason, setOverrideReason] = useState("");
@@ -168,6 +189,16 @@ export function DrawingApproval({
           data: `data:${markupFile.type};base64,${base64}`,
           type: markupFile.type,
         };
+      } else if (responseMarkupRevision && responseMarkups.length > 0) {
+        markupFileData = {
+          name: sanitizeFileName(`${itemCode || "drawing"}_Rev${currentRevision}_markup.pdf`),
+          data: await flattenDrawingMarkup({
+            fileUrl: responseMarkupRevision.fileUrl,
+            fileName: responseMarkupRevision.fileName,
+            markups: responseMarkups,
+          }),
+          type: "application/pdf",
+        };
       }
 
       const result = await approveOrRejectDrawing({
@@ -469,13 +500,17 @@ export function DrawingApproval({
 
   // Show different actions based on current status and user role
   // Actions that require an existing drawing record need drawingId check
-  const showSendToClient = drawingId && drawingStatus === "uploaded" && canSendToClient;
-  const showApprovalOptions = drawingId && drawingStatus === "sent_to_client";
+  const showSendToClient = drawingId && drawingStatus === "uploaded" && canSendToClient && !awaitingInternalReview;
+  const showApprovalOptions = drawingId && drawingStatus === "sent_to_client" && (isClient || canOverride);
   const showOverride = drawingId && (drawingStatus === "sent_to_client" || drawingStatus === "rejected") && canOverride;
   // Not Required can work without existing drawing (will create one)
   const showNotRequired = drawingStatus === "not_uploaded" && canOverride;
   // Replace file: PM/Admin can replace before approval, and also after rejection
   const showReplaceFile = drawingId && currentRevision && ["uploaded", "sent_to_client", "rejected"].includes(drawingStatus) && canSendToClient;
+  // Markup: clients draw while a revision awaits them; PMs can always annotate and see earlier comments
+  const showMarkup = drawingId && currentRevision && drawingStatus !== "not_uploaded" && (isClient || canOverride);
+  const canEditMarkup = isClient ? drawingStatus === "sent_to_client" : canOverride;
+  const markupStamp: MarkupStamp = approvalType;
 
   // For "not required" action, we don't need a revision
   if (!currentRevision && !showNotRequired) {
@@ -490,6 +525,11 @@ export function DrawingApproval({
         </div>
       )}
 
+      {/* Internal approval chain */}
+      {inInternalReview && drawingId && (
+        <DrawingInternalReview drawingId={drawingId} projectId={projectId} itemCode={itemCode} />
+      )}
+
       {/* Send to Client */}
       {showSendToClient && (
         <Dialog open={isSendDialogOpen} onOpenChange={setIsSendDialogOpen}>
@@ -599,6 +639,24 @@ export function DrawingApproval({
                 />
               </div>
 
+              {/* In-browser markup — flattened to a PDF unless a file is attached below */}
+              <div className="space-y-2">
+                <Label>Mark Up Drawing (optional)</Label>
+                <div className="flex items-center gap-3">
+                  <Button type="button" variant="outline" size="sm" onClick={() => setIsMarkupDialogOpen(true)}>
+                    <PencilRulerIcon className="size-4" />
+                    Open Markup
+                  </Button>
+                  <span className="text-xs text-muted-foreground">
+                    {responseMarkups.length > 0
+                      ? markupFile
+                        ? "The attached file is used instead of the markup"
+                        : `${responseMarkups.length} markup${responseMarkups.length !== 1 ? "s" : ""} will be attached as a PDF`
+                      : "Clouds, arrows, callouts, dimensions and stamps"}
+                  </span>
+                </div>
+              </div>
+
               {/* Markup file upload — shown for Approved and Approved with Comments */}
               {approvalType !== "rejected" && (
                 <div className="space-y-2">
@@ -673,6 +731,24 @@ export function DrawingApproval({
         </Dialog>
       )}
 
+      {/* Markup viewer — opened from its own button or from the approval dialog */}
+      {showMarkup && (
+        <Button size="sm" variant="outline" onClick={() => setIsMarkupDialogOpen(true)}>
+          <PencilRulerIcon className="size-4" />
+          Markup
+        </Button>
+      )}
+      {drawingId && currentRevision && (
+        <DrawingMarkupDialog
+          drawingId={drawingId}
+          currentRevision={currentRevision}
+          open={isMarkupDialogOpen}
+          onOpenChange={setIsMarkupDialogOpen}
+          canEdit={canEditMarkup}
+          defaultStamp={markupStamp}
+        />
+      )}
+
       {/* PM Override */}
       {showOverride && (
         <AlertDialog open={isOverrideDialogOpen} onOpenChange={setIsOverrideDialogOpen}>
@@ -0,0 +1,573 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { format } from "date-fns";
+import {
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  ColumnsIcon,
+  LayersIcon,
+  ZoomInIcon,
+  ZoomOutIcon,
+} from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Spinner } from "@/components/ui/spinner";
+import { cn } from "@/lib/utils";
+import { changedRegions, diffDrawings } from "@/lib/drawing-compare";
+import { loadDrawingDocument, type DrawingDocument } from "@/lib/pdf/drawing-markup-pdf";
+
+export interface DrawingCompareRevision {
+  id: string;
+  revision: string;
+  file_url: string;
+  file_name: string;
+  notes: string | null;
+  created_at: string;
+  uploader?: { name: string } | null;
+}
+
+interface DrawingCompareDialogProps {
+  /** Newest first, as listed in DrawingsList */
+  revisions: DrawingCompareRevision[];
+  /** Revision shown on the right; compared with the one before it */
+  initialRevisionId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type CompareMode = "side" | "overlay";
+
+const ZOOM_LEVELS = [1, 1.5, 2, 3];
+
+/** Overlay renders are capped so the pixel diff stays responsive */
+const MAX_OVERLAY_PIXELS = 12_000_000;
+
+/**
+ * Compare two revisions of a drawing: side by side with pan and zoom kept in
+ * step, or overlaid with the differences coloured and boxed. The revision
+ * history alongside shows who uploaded each one and their notes.
+ */
+export function DrawingCompareDialog({
+  revisions,
+  initialRevisionId,
+  open,
+  onOpenChange,
+}: DrawingCompareDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-7xl h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Compare Revisions</DialogTitle>
+          <DialogDescription>
+            Drag to pan; both sides follow. Overlay shows removed linework in red and added linework in blue.
+          </DialogDescription>
+        </DialogHeader>
+        {open && <ComparePanel key={initialRevisionId} revisions={revisions} initialRevisionId={initialRevisionId} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function useDrawingDocument(revision: DrawingCompareRevision | undefined) {
+  const [state, setState] = useState<{ url: string; drawing: DrawingDocument | null; error: boolean } | null>(null);
+  const url = revision?.file_url;
+  const fileName = revision?.file_name;
+
+  useEffect(() => {
+    if (!url || !fileName) return;
+    let cancelled = false;
+    let loaded: DrawingDocument | null = null;
+    loadDrawingDocument(url, fileName)
+      .then((doc) => {
+        if (cancelled) {
+          doc.destroy();
+          return;
+        }
+        loaded = doc;
+        setState({ url, drawing: doc, error: false });
+      })
+      .catch((err) => {
+        console.error("[DrawingCompareDialog] Failed to load drawing:", err);
+        if (!cancelled) setState({ url, drawing: null, error: true });
+      });
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+    };
+  }, [url, fileName]);
+
+  // Ignore a document left over from the previously selected revision
+  if (!state || state.url !== url) return { drawing: null, error: false };
+  return state;
+}
+
+/** Render `page` at `width` device px, or null when the file has no such page */
+async function renderPageAtWidth(
+  drawing: DrawingDocument,
+  page: number,
+  canvas: HTMLCanvasElement,
+  width: number
+): Promise<boolean> {
+  if (page > drawing.pageCount) return false;
+  const size = await drawing.pageSize(page);
+  await drawing.renderPage(page, canvas, width / size.width);
+  return true;
+}
+
+function ComparePanel({
+  revisions,
+  initialRevisionId,
+}: {
+  revisions: DrawingCompareRevision[];
+  initialRevisionId: string;
+}) {
+  const initialIndex = Math.max(0, revisions.findIndex((r) => r.id === initialRevisionId));
+  const [afterId, setAfterId] = useState(revisions[initialIndex]?.id);
+  const [beforeId, setBeforeId] = useState((revisions[initialIndex + 1] ?? revisions[initialIndex])?.id);
+  const [mode, setMode] = useState<CompareMode>("side");
+  const [page, setPage] = useState(1);
+  const [zoomIndex, setZoomIndex] = useState(0);
+  const [containerWidth, setContainerWidth] = useState(0);
+
+  const before = revisions.find((r) => r.id === beforeId);
+  const after = revisions.find((r) => r.id === afterId);
+  const beforeDoc = useDrawingDocument(before);
+  const afterDoc = useDrawingDocument(after);
+  const pageCount = Math.max(beforeDoc.drawing?.pageCount ?? 1, afterDoc.drawing?.pageCount ?? 1);
+  const zoom = ZOOM_LEVELS[zoomIndex];
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setContainerWidth(Math.floor(entry.contentRect.width));
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const selectFromHistory = (index: number) => {
+    setAfterId(revisions[index].id);
+    setBeforeId((revisions[index + 1] ?? revisions[index]).id);
+    setPage(1);
+  };
+
+  const isLoading = !beforeDoc.drawing || !afterDoc.drawing;
+  const hasError = beforeDoc.error || afterDoc.error;
+
+  return (
+    <div className="flex-1 min-h-0 flex gap-4">
+      <div className="flex-1 min-w-0 flex flex-col gap-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <RevisionSelect label="A" value={beforeId} revisions={revisions} onChange={setBeforeId} />
+          <RevisionSelect label="B" value={afterId} revisions={revisions} onChange={setAfterId} />
+          <div className="flex items-center rounded-md border p-0.5">
+            <Button
+              variant={mode === "side" ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => setMode("side")}
+            >
+              <ColumnsIcon className="size-4" />
+              Side by side
+            </Button>
+            <Button
+              variant={mode === "overlay" ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => setMode("overlay")}
+            >
+              <LayersIcon className="size-4" />
+              Overlay
+            </Button>
+          </div>
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="icon-sm"
+              onClick={() => setZoomIndex((z) => Math.max(0, z - 1))}
+              disabled={zoomIndex === 0}
+            >
+              <ZoomOutIcon className="size-4" />
+            </Button>
+            <span className="w-12 text-center text-xs tabular-nums">{Math.round(zoom * 100)}%</span>
+            <Button
+              variant="ghost"
+              size="icon-sm"
+              onClick={() => setZoomIndex((z) => Math.min(ZOOM_LEVELS.length - 1, z + 1))}
+              disabled={zoomIndex === ZOOM_LEVELS.length - 1}
+            >
+              <ZoomInIcon className="size-4" />
+            </Button>
+          </div>
+          {pageCount > 1 && (
+            <div className="ml-auto flex items-center gap-1">
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                onClick={() => setPage((p) => Math.max(1, p - 1))}
+                disabled={page <= 1}
+              >
+                <ChevronLeftIcon className="size-4" />
+              </Button>
+              <span className="text-xs tabular-nums">
+                Page {page} / {pageCount}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                onClick={() => setPage((p) => Math.min(pageCount, p + 1))}
+                disabled={page >= pageCount}
+              >
+                <ChevronRightIcon className="size-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+
+        <div ref={containerRef} className="flex-1 min-h-0">
+          {hasError ? (
+            <p className="text-sm text-muted-foreground">Could not open one of these revisions in the browser.</p>
+          ) : isLoading || containerWidth === 0 ? (
+            <div className="flex h-full items-center justify-center">
+              <Spinner className="size-6" />
+            </div>
+          ) : mode === "side" ? (
+            <SideBySide
+              before={beforeDoc.drawing!}
+              after={afterDoc.drawing!}
+              beforeLabel={`Rev ${before?.revision}`}
+              afterLabel={`Rev ${after?.revision}`}
+              page={page}
+              width={Math.floor(((containerWidth - 8) / 2) * zoom)}
+            />
+          ) : (
+            <Overlay
+              before={beforeDoc.drawing!}
+              after={afterDoc.drawing!}
+              page={page}
+              width={Math.floor(containerWidth * zoom)}
+            />
+          )}
+        </div>
+      </div>
+
+      <RevisionHistory
+        revisions={revisions}
+        beforeId={beforeId}
+        afterId={afterId}
+        onSelect={selectFromHistory}
+      />
+    </div>
+  );
+}
+
+function RevisionSelect({
+  label,
+  value,
+  revisions,
+  onChange,
+}: {
+  label: string;
+  value: string | undefined;
+  revisions: DrawingCompareRevision[];
+  onChange: (id: string) => void;
+}) {
+  return (
+    <div className="flex items-center gap-1.5">
+      <span className="text-xs font-medium text-muted-foreground">{label}</span>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger size="sm" className="w-24">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {revisions.map((r) => (
+            <SelectItem key={r.id} value={r.id}>
+              Rev {r.revision}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+/** Drag-to-pan for a scroll container */
+function usePan() {
+  const drag = useRef<{ x: number; y: number; left: number; top: number } | null>(null);
+  return {
+    onPointerDown: (e: React.PointerEvent<HTMLDivElement>) => {
+      const el = e.currentTarget;
+      drag.current = { x: e.clientX, y: e.clientY, left: el.scrollLeft, top: el.scrollTop };
+      el.setPointerCapture(e.pointerId);
+    },
+    onPointerMove: (e: React.PointerEvent<HTMLDivElement>) => {
+      if (!drag.current) return;
+      e.currentTarget.scrollLeft = drag.current.left - (e.clientX - drag.current.x);
+      e.currentTarget.scrollTop = drag.current.top - (e.clientY - drag.current.y);
+    },
+    onPointerUp: () => {
+      drag.current = null;
+    },
+  };
+}
+
+function SideBySide({
+  before,
+  after,
+  beforeLabel,
+  afterLabel,
+  page,
+  width,
+}: {
+  before: DrawingDocument;
+  after: DrawingDocument;
+  beforeLabel: string;
+  afterLabel: string;
+  page: number;
+  width: number;
+}) {
+  const beforePane = useRef<HTMLDivElement>(null);
+  const afterPane = useRef<HTMLDivElement>(null);
+  /** Pane whose next scroll event we caused ourselves */
+  const echo = useRef<HTMLDivElement | null>(null);
+  const pan = usePan();
+
+  // Scroll positions are mirrored as fractions so sheets of different sizes still line up
+  const mirror = (source: HTMLDivElement | null, target: HTMLDivElement | null) => {
+    if (!source || !target) return;
+    if (echo.current === source) {
+      echo.current = null;
+      return;
+    }
+    const fx = source.scrollLeft / Math.max(1, source.scrollWidth - source.clientWidth);
+    const fy = source.scrollTop / Math.max(1, source.scrollHeight - source.clientHeight);
+    const left = Math.round(fx * (target.scrollWidth - target.clientWidth));
+    const top = Math.round(fy * (target.scrollHeight - target.clientHeight));
+    if (left === Math.round(target.scrollLeft) && top === Math.round(target.scrollTop)) return;
+    echo.current = target;
+    target.scrollLeft = left;
+    target.scrollTop = top;
+  };
+
+  return (
+    <div className="grid h-full grid-cols-2 gap-2">
+      {[
+        { drawing: before, label: beforeLabel, ref: beforePane, other: afterPane },
+        { drawing: after, label: afterLabel, ref: afterPane, other: beforePane },
+      ].map(({ drawing, label, ref, other }) => (
+        <div key={label} className="relative min-h-0 rounded-md border bg-muted/30">
+          <Badge variant="secondary" className="absolute left-2 top-2 z-10 font-mono">
+            {label}
+          </Badge>
+          <div
+            ref={ref}
+            className="h-full overflow-auto cursor-grab active:cursor-grabbing"
+            onScroll={() => mirror(ref.current, other.current)}
+            {...pan}
+          >
+            <PageCanvas drawing={drawing} page={page} width={width} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function PageCanvas({ drawing, page, width }: { drawing: DrawingDocument; page: number; width: number }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [missing, setMissing] = useState(false);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    let cancelled = false;
+    const dpr = window.devicePixelRatio || 1;
+    renderPageAtWidth(drawing, page, canvas, width * dpr)
+      .then((found) => {
+        if (cancelled) return;
+        setMissing(!found);
+        canvas.style.width = `${width}px`;
+        canvas.style.height = `${Math.floor(canvas.height / dpr)}px`;
+      })
+      .catch((err) => console.error("[DrawingCompareDialog] Failed to render page:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [drawing, page, width]);
+
+  return (
+    <>
+      {missing && <p className="p-4 pt-10 text-sm text-muted-foreground">This revision has no page {page}.</p>}
+      <canvas ref={canvasRef} className={cn("bg-white", missing && "hidden")} />
+    </>
+  );
+}
+
+function Overlay({
+  before,
+  after,
+  page,
+  width,
+}: {
+  before: DrawingDocument;
+  after: DrawingDocument;
+  page: number;
+  width: number;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [regionCount, setRegionCount] = useState<number | null>(null);
+  const pan = usePan();
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    let cancelled = false;
+
+    (async () => {
+      const sheet = page <= after.pageCount ? after : before;
+      const size = await sheet.pageSize(page);
+      const dpr = window.devicePixelRatio || 1;
+      let pixelWidth = width * dpr;
+      let pixelHeight = (pixelWidth * size.height) / size.width;
+      const shrink = Math.min(1, Math.sqrt(MAX_OVERLAY_PIXELS / (pixelWidth * pixelHeight)));
+      pixelWidth = Math.floor(pixelWidth * shrink);
+      pixelHeight = Math.floor(pixelHeight * shrink);
+
+      // Both pages drawn onto the same white sheet so pixels line up
+      const snapshot = async (drawing: DrawingDocument) => {
+        const rendered = document.createElement("canvas");
+        const found = await renderPageAtWidth(drawing, page, rendered, pixelWidth);
+        const sheetCanvas = document.createElement("canvas");
+        sheetCanvas.width = pixelWidth;
+        sheetCanvas.height = pixelHeight;
+        const ctx = sheetCanvas.getContext("2d")!;
+        ctx.fillStyle = "#ffffff";
+        ctx.fillRect(0, 0, pixelWidth, pixelHeight);
+        if (found) ctx.drawImage(rendered, 0, 0);
+        return ctx.getImageData(0, 0, pixelWidth, pixelHeight).data;
+      };
+
+      const [beforePixels, afterPixels] = await Promise.all([snapshot(before), snapshot(after)]);
+      if (cancelled) return;
+
+      const diff = diffDrawings(beforePixels, afterPixels, pixelWidth, pixelHeight);
+      const regions = changedRegions(diff.mask, pixelWidth, pixelHeight);
+
+      canvas.width = pixelWidth;
+      canvas.height = pixelHeight;
+      canvas.style.width = `${width}px`;
+      canvas.style.height = `${Math.floor(pixelHeight / dpr / shrink)}px`;
+      const ctx = canvas.getContext("2d");
+      if (!ctx) return;
+      const image = ctx.createImageData(pixelWidth, pixelHeight);
+      image.data.set(diff.pixels);
+      ctx.putImageData(image, 0, 0);
+
+      const pad = 4 * dpr;
+      ctx.strokeStyle = "#f59e0b"; // amber-500
+      ctx.lineWidth = 2 * dpr;
+      ctx.setLineDash([6 * dpr, 4 * dpr]);
+      for (const r of regions) {
+        ctx.strokeRect(r.x - pad, r.y - pad, r.width + pad * 2, r.height + pad * 2);
+      }
+      setRegionCount(regions.length);
+    })().catch((err) => console.error("[DrawingCompareDialog] Failed to build overlay:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [before, after, page, width]);
+
+  return (
+    <div className="flex h-full flex-col gap-2">
+      <div className="flex items-center gap-4 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1.5">
+          <span className="size-2.5 rounded-sm bg-red-600" /> Only in A
+        </span>
+        <span className="flex items-center gap-1.5">
+          <span className="size-2.5 rounded-sm bg-blue-600" /> Only in B
+        </span>
+        {regionCount === null ? (
+          <Spinner className="size-3" />
+        ) : (
+          <span className="font-medium text-foreground">
+            {regionCount === 0
+              ? "No changes found on this page"
+              : `${regionCount} changed ${regionCount === 1 ? "region" : "regions"}`}
+          </span>
+        )}
+      </div>
+      <div
+        className="min-h-0 flex-1 overflow-auto rounded-md border bg-muted/30 cursor-grab active:cursor-grabbing"
+        {...pan}
+      >
+        <canvas ref={canvasRef} />
+      </div>
+    </div>
+  );
+}
+
+function RevisionHistory({
+  revisions,
+  beforeId,
+  afterId,
+  onSelect,
+}: {
+  revisions: DrawingCompareRevision[];
+  beforeId: string | undefined;
+  afterId: string | undefined;
+  onSelect: (index: number) => void;
+}) {
+  return (
+    <div className="w-64 shrink-0 flex flex-col min-h-0">
+      <p className="text-sm font-medium mb-2">Revision History</p>
+      <ol className="flex-1 overflow-y-auto border-l pl-4 space-y-4">
+        {revisions.map((r, index) => (
+          <li key={r.id} className="relative">
+            <span
+              className={cn(
+                "absolute -left-[21px] top-1.5 size-2.5 rounded-full border-2 border-background",
+                r.id === afterId || r.id === beforeId ? "bg-primary" : "bg-muted-foreground/40"
+              )}
+            />
+            <button
+              type="button"
+              className="w-full rounded-md p-1.5 text-left hover:bg-muted"
+              onClick={() => onSelect(index)}
+              title={index < revisions.length - 1 ? "Compare with the previous revision" : undefined}
+            >
+              <div className="flex items-center gap-2">
+                <Badge variant={r.id === afterId ? "default" : "secondary"} className="font-mono">
+                  {r.revision}
+                </Badge>
+                {r.id === beforeId && <span className="text-xs text-muted-foreground">A</span>}
+                {r.id === afterId && <span className="text-xs text-muted-foreground">B</span>}
+              </div>
+              <p className="mt-1 text-xs text-muted-foreground">
+                {r.uploader?.name ?? "Unknown"} · {format(new Date(r.created_at), "MMM d, yyyy HH:mm")}
+              </p>
+              <p className={cn("mt-1 text-xs", !r.notes && "italic text-muted-foreground")}>
+                {r.notes || "No notes"}
+              </p>
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
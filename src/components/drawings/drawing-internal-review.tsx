@@ -0,0 +1,185 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { CheckCircleIcon, CircleIcon, ClockIcon, XCircleIcon } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Spinner } from "@/components/ui/spinner";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useDrawingInternalReview, useReviewDrawingStep } from "@/lib/react-query/drawings";
+import { CHAIN_APPROVER_ROLE_LABELS, type InternalReview } from "@/lib/drawing-approval-chain";
+
+interface DrawingInternalReviewProps {
+  drawingId: string;
+  projectId?: string;
+  itemCode?: string;
+}
+
+/**
+ * The project's internal approval chain for a drawing's current revision:
+ * each step's sign-off, and approve/reject for whoever holds the pending step.
+ * Renders nothing when the project has no chain.
+ */
+export function DrawingInternalReview({ drawingId, projectId, itemCode }: DrawingInternalReviewProps) {
+  const { data: summary } = useDrawingInternalReview(drawingId);
+  const reviewStep = useReviewDrawingStep(drawingId, projectId);
+  const [decision, setDecision] = useState<"approved" | "rejected" | null>(null);
+  const [comments, setComments] = useState("");
+
+  if (!summary || summary.steps.length === 0) return null;
+
+  const { state, reviews, revision } = summary;
+  const currentStep = state.currentStep;
+
+  // Latest decision per step — earlier ones only exist if the chain was edited
+  const latestByStep = new Map<number, InternalReview>();
+  for (const review of reviews) latestByStep.set(review.stepOrder, review);
+
+  const closeDialog = () => {
+    setDecision(null);
+    setComments("");
+  };
+
+  const handleSubmit = () => {
+    if (!decision) return;
+    reviewStep.mutate(
+      { decision, comments: comments.trim() || undefined },
+      {
+        onSuccess: (next) => {
+          toast.success(
+            decision === "rejected"
+              ? "Drawing sent back to the drafter"
+              : next.status === "complete"
+                ? "Internal approval complete — ready for client"
+                : `Signed off, waiting on ${next.currentStep?.name}`
+          );
+          closeDialog();
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="w-full rounded-md border bg-muted/30 p-2.5 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs font-medium">Internal approval · Rev {revision}</span>
+        <span
+          className={cn(
+            "text-[11px] font-medium",
+            state.status === "complete" && "text-emerald-700",
+            state.status === "rejected" && "text-rose-700",
+            state.status === "pending" && "text-amber-700"
+          )}
+        >
+          {state.status === "complete"
+            ? "Ready for client"
+            : state.status === "rejected"
+              ? "Rejected"
+              : `Awaiting ${currentStep?.name}`}
+        </span>
+      </div>
+
+      <ol className="space-y-1.5">
+        {summary.steps.map((step) => {
+          const review = latestByStep.get(step.stepOrder);
+          const isCurrent = currentStep?.stepOrder === step.stepOrder;
+          return (
+            <li key={step.stepOrder} className="flex items-start gap-2 text-xs">
+              {review?.decision === "approved" ? (
+                <CheckCircleIcon className="size-3.5 mt-0.5 shrink-0 text-emerald-600" />
+              ) : review?.decision === "rejected" ? (
+                <XCircleIcon className="size-3.5 mt-0.5 shrink-0 text-rose-600" />
+              ) : isCurrent ? (
+                <ClockIcon className="size-3.5 mt-0.5 shrink-0 text-amber-600" />
+              ) : (
+                <CircleIcon className="size-3.5 mt-0.5 shrink-0 text-muted-foreground/50" />
+              )}
+              <div className="min-w-0">
+                <p>
+                  <span className="font-medium">{step.name}</span>
+                  <span className="text-muted-foreground"> · {CHAIN_APPROVER_ROLE_LABELS[step.approverRole]}</span>
+                </p>
+                {review && (
+                  <p className="text-muted-foreground">
+                    {review.decision === "approved" ? "Signed off" : "Rejected"}
+                    {review.reviewedByName && ` by ${review.reviewedByName}`}
+                    {` on ${format(new Date(review.reviewedAt), "MMM d, yyyy")}`}
+                  </p>
+                )}
+                {review?.comments && (
+                  <p className="text-muted-foreground italic break-words">&ldquo;{review.comments}&rdquo;</p>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+
+      {state.status === "rejected" && (
+        <p className="text-xs text-muted-foreground">Upload a new revision to restart the chain.</p>
+      )}
+
+      {summary.canReview && currentStep && (
+        <div className="flex gap-2 pt-1">
+          <Button size="sm" onClick={() => setDecision("approved")}>
+            <CheckCircleIcon className="size-4" />
+            Sign Off
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => setDecision("rejected")}>
+            <XCircleIcon className="size-4" />
+            Reject
+          </Button>
+        </div>
+      )}
+
+      <Dialog open={decision !== null} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {decision === "rejected" ? "Reject" : "Sign Off"} {currentStep?.name}
+            </DialogTitle>
+            <DialogDescription>
+              {decision === "rejected"
+                ? `Send revision ${revision}${itemCode ? ` of ${itemCode}` : ""} back to the drafter. The PMs and the drafter are notified.`
+                : `Approve revision ${revision}${itemCode ? ` of ${itemCode}` : ""} at this step. The next approver is notified.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="internal-review-comments">
+              {decision === "rejected" ? "What needs to change? *" : "Comments (optional)"}
+            </Label>
+            <Textarea
+              id="internal-review-comments"
+              value={comments}
+              onChange={(e) => setComments(e.target.value)}
+              rows={3}
+            />
+          </div>
+          <div className="flex gap-3 pt-2">
+            <Button
+              variant={decision === "rejected" ? "destructive" : "default"}
+              onClick={handleSubmit}
+              disabled={reviewStep.isPending || (decision === "rejected" && !comments.trim())}
+            >
+              {reviewStep.isPending && <Spinner className="size-4" />}
+              {decision === "rejected" ? "Reject" : "Sign Off"}
+            </Button>
+            <Button variant="outline" onClick={closeDialog} disabled={reviewStep.isPending}>
+              Cancel
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Spinner } from "@/components/ui/spinner";
+import { useDrawingMarkups, useSaveDrawingMarkup } from "@/lib/react-query/drawings";
+import type { DrawingMarkupRevision } from "@/lib/actions/drawings";
+import type { DrawingMarkup, MarkupStamp } from "@/lib/drawing-markup";
+import { DrawingMarkupViewer, type MarkupOverlayLayer } from "./drawing-markup-viewer";
+
+interface DrawingMarkupDialogProps {
+  drawingId: string;
+  currentRevision: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** False shows everyone's markups without a pen */
+  canEdit: boolean;
+  defaultStamp?: MarkupStamp;
+}
+
+/**
+ * Mark up the current revision in the browser. Other people's markups on the
+ * same revision, and all markups from the revision before it, are shown as
+ * layers that can be toggled — so a PM opening Rev B sees the client's Rev A
+ * comments over the new sheet.
+ */
+export function DrawingMarkupDialog({
+  drawingId,
+  currentRevision,
+  open,
+  onOpenChange,
+  canEdit,
+  defaultStamp,
+}: DrawingMarkupDialogProps) {
+  const { data: revisions, isLoading } = useDrawingMarkups(open ? drawingId : null);
+  const index = revisions?.findIndex((r) => r.revision === currentRevision) ?? -1;
+  const revision = index >= 0 ? revisions![index] : null;
+  const previous = index >= 0 ? revisions![index + 1] ?? null : null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-5xl h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Markup — Rev {currentRevision}</DialogTitle>
+          <DialogDescription>
+            {canEdit
+              ? "Draw clouds, arrows, callouts, dimensions and stamps on the drawing. Only your own markups can be changed."
+              : "Markups on this revision and the one before it."}
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading || !revisions ? (
+          <div className="flex flex-1 items-center justify-center">
+            <Spinner className="size-6" />
+          </div>
+        ) : !revision ? (
+          <p className="text-sm text-muted-foreground">Revision {currentRevision} was not found.</p>
+        ) : (
+          <MarkupEditor
+            key={revision.id}
+            drawingId={drawingId}
+            revision={revision}
+            previous={previous}
+            canEdit={canEdit}
+            defaultStamp={defaultStamp}
+            onClose={() => onOpenChange(false)}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function MarkupEditor({
+  drawingId,
+  revision,
+  previous,
+  canEdit,
+  defaultStamp,
+  onClose,
+}: {
+  drawingId: string;
+  revision: DrawingMarkupRevision;
+  previous: DrawingMarkupRevision | null;
+  canEdit: boolean;
+  defaultStamp?: MarkupStamp;
+  onClose: () => void;
+}) {
+  const saveMarkup = useSaveDrawingMarkup(drawingId);
+  const ownLayer = revision.layers.find((l) => l.isMine);
+  const [markups, setMarkups] = useState<DrawingMarkup[]>(ownLayer?.annotations ?? []);
+  const [isDirty, setIsDirty] = useState(false);
+
+  const layers: MarkupOverlayLayer[] = [
+    ...revision.layers
+      .filter((l) => !l.isMine)
+      .map((l) => ({ key: `${revision.id}:${l.authorId}`, label: l.authorName, markups: l.annotations })),
+    ...(previous?.layers ?? []).map((l) => ({
+      key: `${previous!.id}:${l.authorId}`,
+      label: `Rev ${previous!.revision} · ${l.authorName}`,
+      markups: l.annotations,
+      faded: true,
+    })),
+  ];
+
+  // Without a pen, your own saved layer is just another overlay
+  if (!canEdit && ownLayer) {
+    layers.push({ key: `${revision.id}:own`, label: "You", markups: ownLayer.annotations });
+  }
+
+  const handleSave = async () => {
+    try {
+      await saveMarkup.mutateAsync({ revision: revision.revision, annotations: markups });
+      toast.success("Markup saved");
+      onClose();
+    } catch {
+      // Toasted by the mutation
+    }
+  };
+
+  return (
+    <>
+      <div className="flex-1 min-h-0 flex flex-col">
+        <DrawingMarkupViewer
+          fileUrl={revision.fileUrl}
+          fileName={revision.fileName}
+          markups={canEdit ? markups : []}
+          onChange={
+            canEdit
+              ? (next) => {
+                  setMarkups(next);
+                  setIsDirty(true);
+                }
+              : undefined
+          }
+          layers={layers}
+          defaultStamp={defaultStamp}
+        />
+      </div>
+      <div className="flex justify-end gap-3 pt-2">
+        <Button variant="outline" onClick={onClose} disabled={saveMarkup.isPending}>
+          {canEdit ? "Cancel" : "Close"}
+        </Button>
+        {canEdit && (
+          <Button onClick={handleSave} disabled={!isDirty || saveMarkup.isPending}>
+            {saveMarkup.isPending ? (
+              <>
+                <Spinner className="size-4" />
+                Saving...
+              </>
+            ) : (
+              "Save Markup"
+            )}
+          </Button>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,491 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { format } from "date-fns";
+import {
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  CloudIcon,
+  MessageSquareTextIcon,
+  MousePointer2Icon,
+  MoveUpRightIcon,
+  RulerIcon,
+  StampIcon,
+  Trash2Icon,
+  Undo2Icon,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Spinner } from "@/components/ui/spinner";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import {
+  MARKUP_COLORS,
+  MARKUP_STAMP_LABELS,
+  MARKUP_TOOL_LABELS,
+  OVERLAY_OPACITY,
+  hitTestMarkup,
+  paintMarkups,
+  toFraction,
+  type DrawingMarkup,
+  type MarkupPoint,
+  type MarkupStamp,
+  type MarkupTool,
+} from "@/lib/drawing-markup";
+import { loadDrawingDocument, type DrawingDocument } from "@/lib/pdf/drawing-markup-pdf";
+
+/** Someone else's markups, or an earlier revision's, drawn read-only */
+export interface MarkupOverlayLayer {
+  key: string;
+  label: string;
+  markups: DrawingMarkup[];
+  /** Earlier revisions are faded so they read as context */
+  faded?: boolean;
+}
+
+interface DrawingMarkupViewerProps {
+  fileUrl: string;
+  fileName: string;
+  /** The editable layer */
+  markups: DrawingMarkup[];
+  /** Omit for a read-only view */
+  onChange?: (markups: DrawingMarkup[]) => void;
+  layers?: MarkupOverlayLayer[];
+  defaultStamp?: MarkupStamp;
+}
+
+type ViewerTool = MarkupTool | "select";
+
+const TOOL_ICONS: Record<MarkupTool, React.ComponentType<{ className?: string }>> = {
+  cloud: CloudIcon,
+  arrow: MoveUpRightIcon,
+  text: MessageSquareTextIcon,
+  dimension: RulerIcon,
+  stamp: StampIcon,
+};
+
+/** Drags shorter than this (canvas px) are treated as clicks */
+const MIN_DRAG = 6;
+
+/**
+ * In-browser PDF/image viewer with a markup layer. The page is drawn on one
+ * canvas and the markups on a second one above it, repainted on every change.
+ * Remount (key) per revision file.
+ */
+export function DrawingMarkupViewer({
+  fileUrl,
+  fileName,
+  markups,
+  onChange,
+  layers = [],
+  defaultStamp = "reviewed",
+}: DrawingMarkupViewerProps) {
+  const readOnly = !onChange;
+  const containerRef = useRef<HTMLDivElement>(null);
+  const pageCanvasRef = useRef<HTMLCanvasElement>(null);
+  const overlayCanvasRef = useRef<HTMLCanvasElement>(null);
+
+  const [drawing, setDrawing] = useState<DrawingDocument | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [page, setPage] = useState(1);
+  const [containerWidth, setContainerWidth] = useState(0);
+  /** Canvas size in device px once the page has rendered */
+  const [rendered, setRendered] = useState<{ page: number; width: number; height: number } | null>(null);
+
+  const [tool, setTool] = useState<ViewerTool>(readOnly ? "select" : "cloud");
+  const [color, setColor] = useState(MARKUP_COLORS[0]);
+  const [stamp, setStamp] = useState<MarkupStamp>(defaultStamp);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [hiddenLayers, setHiddenLayers] = useState<Set<string>>(new Set());
+  const [draft, setDraft] = useState<DrawingMarkup | null>(null);
+  /** Callout or dimension waiting for its text */
+  const [pendingText, setPendingText] = useState<{ markup: DrawingMarkup; value: string } | null>(null);
+
+  // Load the revision file
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: DrawingDocument | null = null;
+    loadDrawingDocument(fileUrl, fileName)
+      .then((doc) => {
+        if (cancelled) {
+          doc.destroy();
+          return;
+        }
+        loaded = doc;
+        setDrawing(doc);
+      })
+      .catch((err) => {
+        console.error("[DrawingMarkupViewer] Failed to load drawing:", err);
+        if (!cancelled) setLoadError("Could not open this drawing in the browser");
+      });
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+    };
+  }, [fileUrl, fileName]);
+
+  // Fit the page to the available width
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setContainerWidth(Math.floor(entry.contentRect.width));
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Render the current page
+  useEffect(() => {
+    const canvas = pageCanvasRef.current;
+    if (!drawing || !canvas || containerWidth === 0) return;
+    let cancelled = false;
+    (async () => {
+      const size = await drawing.pageSize(page);
+      const dpr = window.devicePixelRatio || 1;
+      const scale = (containerWidth / size.width) * dpr;
+      await drawing.renderPage(page, canvas, scale);
+      if (cancelled) return;
+      canvas.style.width = `${containerWidth}px`;
+      canvas.style.height = `${Math.floor(canvas.height / dpr)}px`;
+      setRendered({ page, width: canvas.width, height: canvas.height });
+    })().catch((err) => console.error("[DrawingMarkupViewer] Failed to render page:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [drawing, page, containerWidth]);
+
+  // Repaint the markup layer
+  useEffect(() => {
+    const canvas = overlayCanvasRef.current;
+    const pageCanvas = pageCanvasRef.current;
+    if (!canvas || !pageCanvas || !rendered) return;
+    canvas.width = rendered.width;
+    canvas.height = rendered.height;
+    canvas.style.width = pageCanvas.style.width;
+    canvas.style.height = pageCanvas.style.height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    for (const layer of layers) {
+      if (hiddenLayers.has(layer.key)) continue;
+      paintMarkups(ctx, layer.markups, rendered.page, canvas.width, canvas.height, {
+        opacity: layer.faded ? OVERLAY_OPACITY : 1,
+      });
+    }
+    paintMarkups(ctx, draft ? [...markups, draft] : markups, rendered.page, canvas.width, canvas.height, {
+      selectedId,
+    });
+  }, [rendered, markups, layers, hiddenLayers, draft, selectedId]);
+
+  const canvasPoint = (e: React.PointerEvent<HTMLCanvasElement>): MarkupPoint => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+    };
+  };
+
+  const commit = (markup: DrawingMarkup) => {
+    onChange?.([...markups, markup]);
+  };
+
+  const removeSelected = () => {
+    if (!selectedId) return;
+    onChange?.(markups.filter((m) => m.id !== selectedId));
+    setSelectedId(null);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!rendered || pendingText) return;
+    const point = canvasPoint(e);
+    const at = toFraction(point, rendered.width, rendered.height);
+
+    if (tool === "select" || readOnly) {
+      setSelectedId(hitTestMarkup(markups, page, point, rendered.width, rendered.height)?.id ?? null);
+      return;
+    }
+
+    const base = { id: crypto.randomUUID(), page, color };
+    if (tool === "stamp") {
+      commit({ ...base, type: "stamp", at, stamp, date: format(new Date(), "dd.MM.yyyy") });
+      return;
+    }
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDraft(
+      tool === "text" || tool === "dimension"
+        ? { ...base, type: tool, from: at, to: at, text: "" }
+        : { ...base, type: tool, from: at, to: at }
+    );
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!draft || !rendered || draft.type === "stamp") return;
+    const to = toFraction(canvasPoint(e), rendered.width, rendered.height);
+    setDraft({ ...draft, to });
+  };
+
+  const handlePointerUp = () => {
+    if (!draft || !rendered || draft.type === "stamp") return;
+    const dx = (draft.to.x - draft.from.x) * rendered.width;
+    const dy = (draft.to.y - draft.from.y) * rendered.height;
+    const isClick = Math.hypot(dx, dy) < MIN_DRAG;
+    setDraft(null);
+    if (draft.type === "text") {
+      // A click drops a callout without a leader; nudge the text off the point
+      const markup = isClick ? { ...draft, to: { x: Math.min(1, draft.from.x + 0.04), y: draft.from.y } } : draft;
+      setPendingText({ markup, value: "" });
+    } else if (!isClick) {
+      if (draft.type === "dimension") setPendingText({ markup: draft, value: "" });
+      else commit(draft);
+    }
+  };
+
+  const confirmText = () => {
+    if (!pendingText) return;
+    const { markup, value } = pendingText;
+    setPendingText(null);
+    if (markup.type === "text") {
+      if (value.trim()) commit({ ...markup, text: value.trim() });
+    } else if (markup.type === "dimension") {
+      commit({ ...markup, text: value.trim() });
+    }
+  };
+
+  const pageCount = drawing?.pageCount ?? 1;
+  const ownOnPage = markups.filter((m) => m.page === page).length;
+
+  return (
+    <div className="flex flex-col gap-2 min-h-0">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-2">
+        {!readOnly && (
+          <>
+            <div className="inline-flex items-center rounded-md border p-0.5 gap-0.5">
+              <ToolButton label="Select" active={tool === "select"} onClick={() => setTool("select")}>
+                <MousePointer2Icon className="size-4" />
+              </ToolButton>
+              {(Object.keys(TOOL_ICONS) as MarkupTool[]).map((key) => {
+                const Icon = TOOL_ICONS[key];
+                return (
+                  <ToolButton
+                    key={key}
+                    label={MARKUP_TOOL_LABELS[key]}
+                    active={tool === key}
+                    onClick={() => {
+                      setTool(key);
+                      setSelectedId(null);
+                    }}
+                  >
+                    <Icon className="size-4" />
+                  </ToolButton>
+                );
+              })}
+            </div>
+
+            {tool === "stamp" ? (
+              <Select value={stamp} onValueChange={(value) => setStamp(value as MarkupStamp)}>
+                <SelectTrigger size="sm" className="w-[190px] text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(MARKUP_STAMP_LABELS) as MarkupStamp[]).map((key) => (
+                    <SelectItem key={key} value={key} className="text-xs">
+                      {MARKUP_STAMP_LABELS[key]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <div className="flex items-center gap-1">
+                {MARKUP_COLORS.map((c) => (
+                  <button
+                    key={c}
+                    type="button"
+                    aria-label={`Colour ${c}`}
+                    onClick={() => setColor(c)}
+                    className={cn(
+                      "size-5 rounded-full border-2",
+                      color === c ? "border-foreground" : "border-transparent"
+                    )}
+                    style={{ backgroundColor: c }}
+                  />
+                ))}
+              </div>
+            )}
+
+            <Button
+              variant="ghost"
+              size="icon-sm"
+              aria-label="Undo last markup"
+              disabled={markups.length === 0}
+              onClick={() => onChange?.(markups.slice(0, -1))}
+            >
+              <Undo2Icon className="size-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon-sm"
+              aria-label="Delete selected markup"
+              disabled={!selectedId}
+              onClick={removeSelected}
+            >
+              <Trash2Icon className="size-4" />
+            </Button>
+          </>
+        )}
+
+        <div className="flex-1" />
+
+        {pageCount > 1 && (
+          <div className="flex items-center gap-1 text-xs text-muted-foreground">
+            <Button
+              variant="ghost"
+              size="icon-sm"
+              aria-label="Previous page"
+              disabled={page <= 1}
+              onClick={() => setPage((p) => p - 1)}
+            >
+              <ChevronLeftIcon className="size-4" />
+            </Button>
+            <span className="tabular-nums">
+              Page {page} / {pageCount}
+            </span>
+            <Button
+              variant="ghost"
+              size="icon-sm"
+              aria-label="Next page"
+              disabled={page >= pageCount}
+              onClick={() => setPage((p) => p + 1)}
+            >
+              <ChevronRightIcon className="size-4" />
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* Overlay layers — toggle each author / earlier revision */}
+      {layers.length > 0 && (
+        <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+          {layers.map((layer) => (
+            <label key={layer.key} className="flex items-center gap-1.5 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={!hiddenLayers.has(layer.key)}
+                onChange={(e) => {
+                  const next = new Set(hiddenLayers);
+                  if (e.target.checked) next.delete(layer.key);
+                  else next.add(layer.key);
+                  setHiddenLayers(next);
+                }}
+              />
+              {layer.label} ({layer.markups.length})
+            </label>
+          ))}
+        </div>
+      )}
+
+      {/* Callout / dimension text */}
+      {pendingText && (
+        <form
+          className="flex items-center gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            confirmText();
+          }}
+        >
+          <Input
+            autoFocus
+            value={pendingText.value}
+            onChange={(e) => setPendingText({ ...pendingText, value: e.target.value })}
+            onKeyDown={(e) => e.key === "Escape" && setPendingText(null)}
+            placeholder={pendingText.markup.type === "dimension" ? "Dimension, e.g. 1200 mm (optional)" : "Callout text"}
+            className="h-8 text-sm"
+            maxLength={pendingText.markup.type === "dimension" ? 50 : 500}
+          />
+          <Button type="submit" size="sm">
+            Add
+          </Button>
+          <Button type="button" size="sm" variant="ghost" onClick={() => setPendingText(null)}>
+            Cancel
+          </Button>
+        </form>
+      )}
+
+      {/* Page + markup canvases */}
+      <div
+        ref={containerRef}
+        tabIndex={0}
+        onKeyDown={(e) => {
+          if (!readOnly && (e.key === "Delete" || e.key === "Backspace")) removeSelected();
+        }}
+        className="relative flex-1 min-h-0 overflow-auto rounded-md border bg-muted/30 outline-none"
+      >
+        {loadError ? (
+          <p className="p-8 text-center text-sm text-muted-foreground">{loadError}</p>
+        ) : (
+          !rendered && (
+            <div className="flex justify-center p-8">
+              <Spinner className="size-6" />
+            </div>
+          )
+        )}
+        <canvas ref={pageCanvasRef} className="block" />
+        <canvas
+          ref={overlayCanvasRef}
+          className={cn("absolute left-0 top-0", !readOnly && tool !== "select" && "cursor-crosshair")}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+        />
+      </div>
+
+      {!readOnly && (
+        <p className="text-xs text-muted-foreground">
+          {ownOnPage} markup{ownOnPage !== 1 ? "s" : ""} on this page · drag to draw, click to place stamps and
+          callouts
+        </p>
+      )}
+    </div>
+  );
+}
+
+function ToolButton({
+  label,
+  active,
+  onClick,
+  children,
+}: {
+  label: string;
+  active: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Button
+          type="button"
+          variant={active ? "default" : "ghost"}
+          size="icon-sm"
+          aria-label={label}
+          aria-pressed={active}
+          onClick={onClick}
+          className="size-7"
+        >
+          {children}
+        </Button>
+      </TooltipTrigger>
+      <TooltipContent>{label}</TooltipContent>
+    </Tooltip>
+  );
+}
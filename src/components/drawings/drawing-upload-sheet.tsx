@@ -253,12 +253,13 @@ export function DrawingUploadSheet({
         .eq("id", selectedItemId)
         .eq("status", "pending");
 
-      // Notify other PMs about the upload (fire-and-forget)
+      // Notify other PMs and the first chain step about the upload (fire-and-forget)
       if (selectedItem) {
         notifyDrawingUploaded({
           projectId,
           itemCode: selectedItem.item_code,
           revision: nextRevision,
+          drawingId,
         });
       }
 
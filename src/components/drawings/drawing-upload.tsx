@@ -32,6 +32,7 @@ import {
 import { UploadIcon, FileIcon, XIcon, AlertTriangleIcon } from "lucide-react";
 import { validateFile, DRAWING_CONFIG, CAD_CONFIG, formatFileSize, sanitizeFileName } from "@/lib/file-validation";
 import { sanitizeText } from "@/lib/sanitize";
+import { notifyDrawingUploaded } from "@/lib/actions/drawings";
 import type { DrawingInsert, DrawingUpdate, DrawingRevisionInsert, ScopeItemUpdate } from "@/types/database";
 
 interface DrawingUploadProps {
@@ -41,6 +42,8 @@ interface DrawingUploadProps {
   hasDrawing: boolean;
   /** Current drawing status — used to show confirmation when uploading a new revision on an approved drawing */
   drawingStatus?: string;
+  /** Used in the upload notification sent to PMs and the internal approval chain */
+  itemCode?: string;
 }
 
 function getNextRevision(current: string | null): string {
@@ -58,7 +61,7 @@ function getNextRevision(current: string | null): string {
   return current.slice(0, -1) + String.fromCharCode(lastChar.charCodeAt(0) + 1);
 }
 
-export function DrawingUpload({ projectId, scopeItemId, currentRevision, hasDrawing, drawingStatus }: DrawingUploadProps) {
+export function DrawingUpload({ projectId, scopeItemId, currentRevision, hasDrawing, drawingStatus, itemCode }: DrawingUploadProps) {
   const router = useRouter();
   const queryClient = useQueryClient();
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -228,6 +231,16 @@ export function DrawingUpload({ projectId, scopeItemId, currentRevision, hasDraw
         .eq("id", scopeItemId)
         .eq("status", "pending");
 
+      // Notify other PMs and the first chain step about the upload (fire-and-forget)
+      if (itemCode) {
+        notifyDrawingUploaded({
+          projectId,
+          itemCode,
+          revision: nextRevision,
+          drawingId,
+        });
+      }
+
       // Reset form and close dialog
       setPdfFile(null);
       setCadFile(null);
@@ -1,5 +1,6 @@
 "use client";
 
+import { useState } from "react";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
@@ -21,8 +22,10 @@ import {
   DownloadIcon,
   MoreHorizontalIcon,
   ExternalLinkIcon,
+  GitCompareIcon,
 } from "lucide-react";
 import { format } from "date-fns";
+import { DrawingCompareDialog } from "./drawing-compare-dialog";
 
 interface DrawingRevision {
   id: string;
@@ -32,9 +35,12 @@ interface DrawingRevision {
   file_size: number | null;
   cad_file_url: string | null;
   cad_file_name: string | null;
+  /** Client's marked-up copy — uploaded, or flattened from in-app markup */
+  client_markup_url?: string | null;
   notes: string | null;
   created_at: string;
   uploaded_by: string | null;
+  uploader?: { name: string } | null;
 }
 
 interface DrawingsListProps {
@@ -43,6 +49,9 @@ interface DrawingsListProps {
 }
 
 export function DrawingsList({ revisions, currentRevision }: DrawingsListProps) {
+  /** Revision shown as "B" in the compare dialog */
+  const [compareRevisionId, setCompareRevisionId] = useState<string | null>(null);
+
   const formatFileSize = (bytes: number | null): string => {
     if (!bytes) return "-";
     if (bytes < 1024) return `${bytes} B`;
@@ -83,90 +92,126 @@ export function DrawingsList({ revisions, currentRevision }: DrawingsListProps)
   }
 
   return (
-    <div className="border rounded-lg">
-      <Table>
-        <TableHeader>
-          <TableRow>
-            <TableHead>Rev</TableHead>
-            <TableHead>File</TableHead>
-            <TableHead>Size</TableHead>
-            <TableHead>Uploaded By</TableHead>
-            <TableHead>Date</TableHead>
-            <TableHead>Notes</TableHead>
-            <TableHead className="w-[50px]"></TableHead>
-          </TableRow>
-        </TableHeader>
-        <TableBody>
-          {revisions.map((revision) => (
-            <TableRow key={revision.id}>
-              <TableCell>
-                <div className="flex items-center gap-2">
-                  <Badge
-                    variant={revision.revision === currentRevision ? "default" : "secondary"}
-                    className="font-mono"
-                  >
-                    {revision.revision}
-                  </Badge>
-                  {revision.revision === currentRevision && (
-                    <span className="text-xs text-muted-foreground">(Current)</span>
-                  )}
-                </div>
-              </TableCell>
-              <TableCell>
-                <div className="flex items-center gap-2">
-                  <FileIcon className="size-4 text-muted-foreground" />
-                  <span className="text-sm truncate max-w-[200px]" title={revision.file_name}>
-                    {revision.file_name}
-                  </span>
-                </div>
-              </TableCell>
-              <TableCell className="text-sm text-muted-foreground">
-                {formatFileSize(revision.file_size)}
-              </TableCell>
-              <TableCell className="text-sm text-muted-foreground">
-                {revision.uploaded_by ? "User" : "-"}
-              </TableCell>
-              <TableCell className="text-sm text-muted-foreground">
-                {format(new Date(revision.created_at), "MMM d, yyyy HH:mm")}
-              </TableCell>
-              <TableCell className="text-sm text-muted-foreground max-w-[150px] truncate">
-                {revision.notes || "-"}
-              </TableCell>
-              <TableCell>
-                <DropdownMenu>
-                  <DropdownMenuTrigger asChild>
-                    <Button variant="ghost" size="icon-sm">
-                      <MoreHorizontalIcon className="size-4" />
-                    </Button>
-                  </DropdownMenuTrigger>
-                  <DropdownMenuContent align="end">
-                    <DropdownMenuItem
-                      onClick={() => window.open(revision.file_url, "_blank")}
-                    >
-                      <ExternalLinkIcon className="size-4 mr-2" />
-                      View in New Tab
-                    </DropdownMenuItem>
-                    <DropdownMenuItem
-                      onClick={() => handleDownload(revision.file_url, revision.file_name)}
+    <div className="space-y-2">
+      {revisions.length > 1 && (
+        <div className="flex justify-end">
+          <Button variant="outline" size="sm" onClick={() => setCompareRevisionId(revisions[0].id)}>
+            <GitCompareIcon className="size-4" />
+            Compare Revisions
+          </Button>
+        </div>
+      )}
+      <div className="border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Rev</TableHead>
+              <TableHead>File</TableHead>
+              <TableHead>Size</TableHead>
+              <TableHead>Uploaded By</TableHead>
+              <TableHead>Date</TableHead>
+              <TableHead>Notes</TableHead>
+              <TableHead className="w-[50px]"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {revisions.map((revision, index) => (
+              <TableRow key={revision.id}>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    <Badge
+                      variant={revision.revision === currentRevision ? "default" : "secondary"}
+                      className="font-mono"
                     >
-                      <DownloadIcon className="size-4 mr-2" />
-                      Download PDF
-                    </DropdownMenuItem>
-                    {revision.cad_file_url && revision.cad_file_name && (
+                      {revision.revision}
+                    </Badge>
+                    {revision.revision === currentRevision && (
+                      <span className="text-xs text-muted-foreground">(Current)</span>
+                    )}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    <FileIcon className="size-4 text-muted-foreground" />
+                    <span className="text-sm truncate max-w-[200px]" title={revision.file_name}>
+                      {revision.file_name}
+                    </span>
+                  </div>
+                </TableCell>
+                <TableCell className="text-sm text-muted-foreground">
+                  {formatFileSize(revision.file_size)}
+                </TableCell>
+                <TableCell className="text-sm text-muted-foreground">
+                  {revision.uploader?.name || (revision.uploaded_by ? "Unknown" : "-")}
+                </TableCell>
+                <TableCell className="text-sm text-muted-foreground">
+                  {format(new Date(revision.created_at), "MMM d, yyyy HH:mm")}
+                </TableCell>
+                <TableCell className="text-sm text-muted-foreground max-w-[150px] truncate">
+                  {revision.notes || "-"}
+                </TableCell>
+                <TableCell>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="icon-sm">
+                        <MoreHorizontalIcon className="size-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
                       <DropdownMenuItem
-                        onClick={() => handleDownload(revision.cad_file_url!, revision.cad_file_name!)}
+                        onClick={() => window.open(revision.file_url, "_blank")}
+                      >
+                        <ExternalLinkIcon className="size-4 mr-2" />
+                        View in New Tab
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        onClick={() => handleDownload(revision.file_url, revision.file_name)}
                       >
                         <DownloadIcon className="size-4 mr-2" />
-                        Download CAD
+                        Download PDF
                       </DropdownMenuItem>
-                    )}
-                  </DropdownMenuContent>
-                </DropdownMenu>
-              </TableCell>
-            </TableRow>
-          ))}
-        </TableBody>
-      </Table>
+                      {revision.cad_file_url && revision.cad_file_name && (
+                        <DropdownMenuItem
+                          onClick={() => handleDownload(revision.cad_file_url!, revision.cad_file_name!)}
+                        >
+                          <DownloadIcon className="size-4 mr-2" />
+                          Download CAD
+                        </DropdownMenuItem>
+                      )}
+                      {index < revisions.length - 1 && (
+                        <DropdownMenuItem onClick={() => setCompareRevisionId(revision.id)}>
+                          <GitCompareIcon className="size-4 mr-2" />
+                          Compare with Previous
+                        </DropdownMenuItem>
+                      )}
+                      {revision.client_markup_url && (
+                        <DropdownMenuItem
+                          onClick={() =>
+                            handleDownload(
+                              revision.client_markup_url!,
+                              decodeURIComponent(revision.client_markup_url!.split("/").pop() || "client_markup")
+                            )
+                          }
+                        >
+                          <DownloadIcon className="size-4 mr-2" />
+                          Download Client Markup
+                        </DropdownMenuItem>
+                      )}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <DrawingCompareDialog
+        revisions={revisions}
+        initialRevisionId={compareRevisionId ?? revisions[0].id}
+        open={compareRevisionId !== null}
+        onOpenChange={(open) => !open && setCompareRevisionId(null)}
+      />
     </div>
   );
 }
@@ -1,3 +1,8 @@
 export { DrawingUpload } from "./drawing-upload";
 export { DrawingsList } from "./drawings-list";
 export { DrawingApproval } from "./drawing-approval";
+export { IssueTransmittalDialog } from "./issue-transmittal-dialog";
+export { TransmittalDetail } from "./transmittal-detail";
+export { TransmittalsSheet } from "./transmittals-sheet";
+export { DrawingInternalReview } from "./drawing-internal-review";
+export { DrawingApprovalChainSettings } from "./drawing-approval-chain-settings";
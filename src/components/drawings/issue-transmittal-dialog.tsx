@@ -0,0 +1,162 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { SendIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Spinner } from "@/components/ui/spinner";
+import { Textarea } from "@/components/ui/textarea";
+import { sendDrawingsToClient } from "@/lib/actions/drawings";
+import {
+  TRANSMITTAL_PURPOSES,
+  TRANSMITTAL_PURPOSE_LABELS,
+  type TransmittalPurpose,
+} from "@/lib/drawing-transmittals";
+
+interface IssueTransmittalDialogProps {
+  projectId: string;
+  drawings: { id: string; item_code: string; name: string }[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  defaultPurpose?: TransmittalPurpose;
+  onIssued?: () => void;
+}
+
+const PURPOSE_HINTS: Record<TransmittalPurpose, string> = {
+  for_approval: "Drawings move to Awaiting Client until the client responds.",
+  for_construction: "Issued to build from. Drawing status is not changed.",
+  for_information: "For the client's records only. Drawing status is not changed.",
+};
+
+/**
+ * Send drawings to the client under a new numbered transmittal. The client
+ * gets an email with the transmittal number and a link to acknowledge receipt.
+ */
+export function IssueTransmittalDialog({
+  projectId,
+  drawings,
+  open,
+  onOpenChange,
+  defaultPurpose = "for_approval",
+  onIssued,
+}: IssueTransmittalDialogProps) {
+  const [purpose, setPurpose] = useState<TransmittalPurpose>(defaultPurpose);
+  const [notes, setNotes] = useState("");
+  const [isSending, setIsSending] = useState(false);
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setPurpose(defaultPurpose);
+      setNotes("");
+    }
+    onOpenChange(next);
+  };
+
+  const handleIssue = async () => {
+    setIsSending(true);
+    try {
+      const result = await sendDrawingsToClient(
+        projectId,
+        drawings.map((d) => d.id),
+        { purpose, notes }
+      );
+      if (result.success) {
+        const count = `${result.sentCount} drawing${result.sentCount !== 1 ? "s" : ""}`;
+        toast.success(
+          result.transmittalCode
+            ? `${result.transmittalCode} issued — ${count} ${TRANSMITTAL_PURPOSE_LABELS[purpose].toLowerCase()}`
+            : `${count} sent to client`
+        );
+        handleOpenChange(false);
+        onIssued?.();
+      } else {
+        toast.error(result.error || "Failed to send drawings");
+      }
+    } catch {
+      toast.error("Failed to send drawings");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <SendIcon className="size-5 text-blue-500" />
+            Send {drawings.length} Drawing{drawings.length !== 1 ? "s" : ""} to Client
+          </DialogTitle>
+          <DialogDescription>
+            A numbered transmittal is recorded and the client receives an email asking them to acknowledge receipt.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="max-h-32 overflow-y-auto rounded-md bg-gray-50 p-2 space-y-1">
+            {drawings.map((d) => (
+              <div key={d.id} className="text-sm font-mono text-gray-700">
+                {d.item_code} — {d.name}
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Purpose</Label>
+            <RadioGroup value={purpose} onValueChange={(v) => setPurpose(v as TransmittalPurpose)}>
+              {TRANSMITTAL_PURPOSES.map((p) => (
+                <label key={p} className="flex items-start gap-2 cursor-pointer">
+                  <RadioGroupItem value={p} className="mt-0.5" />
+                  <span>
+                    <span className="text-sm font-medium">{TRANSMITTAL_PURPOSE_LABELS[p]}</span>
+                    <span className="block text-xs text-muted-foreground">{PURPOSE_HINTS[p]}</span>
+                  </span>
+                </label>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="transmittal-notes">Notes (optional)</Label>
+            <Textarea
+              id="transmittal-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Printed on the transmittal sheet and included in the email"
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isSending}>
+            Cancel
+          </Button>
+          <Button onClick={handleIssue} disabled={isSending || drawings.length === 0}>
+            {isSending ? (
+              <>
+                <Spinner className="size-4" />
+                Sending...
+              </>
+            ) : (
+              <>
+                <SendIcon className="size-4" />
+                Send
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
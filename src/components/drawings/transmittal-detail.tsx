@@ -0,0 +1,214 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { CheckCircle2Icon, Clock3Icon, FileDownIcon } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Spinner } from "@/components/ui/spinner";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { GlassCard } from "@/components/ui/ui-helpers";
+import { useAcknowledgeTransmittal } from "@/lib/react-query/drawings";
+import { TRANSMITTAL_PURPOSE_LABELS } from "@/lib/drawing-transmittals";
+import type { DrawingTransmittal } from "@/lib/actions/drawing-transmittals";
+
+interface TransmittalProject {
+  projectId: string;
+  projectName: string;
+  projectCode: string;
+}
+
+/** Download the transmittal sheet as a PDF */
+export function TransmittalPdfButton({
+  transmittal,
+  projectName,
+  projectCode,
+  size = "sm",
+}: Omit<TransmittalProject, "projectId"> & {
+  transmittal: DrawingTransmittal;
+  size?: "sm" | "icon-sm";
+}) {
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const handleDownload = async () => {
+    setIsGenerating(true);
+    try {
+      const { downloadTransmittalPdf } = await import("@/lib/pdf/generate-transmittal-pdf");
+      const success = await downloadTransmittalPdf({ projectName, projectCode, transmittal });
+      if (!success) toast.error("Failed to generate transmittal PDF");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <Button variant="outline" size={size} onClick={handleDownload} disabled={isGenerating} title="Download PDF">
+      {isGenerating ? <Spinner className="size-4" /> : <FileDownIcon className="size-4" />}
+      {size === "sm" && "PDF"}
+    </Button>
+  );
+}
+
+/** Acknowledge button for the current user, or when they acknowledged */
+export function TransmittalAcknowledgement({
+  transmittal,
+  projectId,
+  onAcknowledged,
+}: {
+  transmittal: DrawingTransmittal;
+  projectId: string;
+  onAcknowledged?: (acknowledgedAt: string) => void;
+}) {
+  const acknowledge = useAcknowledgeTransmittal(projectId);
+  const me = transmittal.recipients.find((r) => r.isMe);
+  if (!me) return null;
+
+  if (me.acknowledgedAt) {
+    return (
+      <span className="inline-flex items-center gap-1.5 text-xs text-emerald-700">
+        <CheckCircle2Icon className="size-3.5" />
+        You acknowledged on {format(new Date(me.acknowledgedAt), "MMM d, yyyy HH:mm")}
+      </span>
+    );
+  }
+
+  return (
+    <Button
+      size="sm"
+      disabled={acknowledge.isPending}
+      onClick={async () => {
+        try {
+          const { acknowledgedAt } = await acknowledge.mutateAsync(transmittal.id);
+          toast.success(`Receipt of ${transmittal.code} acknowledged`);
+          onAcknowledged?.(acknowledgedAt);
+        } catch {
+          // Toasted by the mutation
+        }
+      }}
+    >
+      {acknowledge.isPending ? <Spinner className="size-4" /> : <CheckCircle2Icon className="size-4" />}
+      Acknowledge Receipt
+    </Button>
+  );
+}
+
+/**
+ * Full transmittal: details, drawing schedule and who has acknowledged.
+ * This is where the transmittal email's link lands.
+ */
+export function TransmittalDetail({
+  transmittal: initialTransmittal,
+  projectId,
+  projectName,
+  projectCode,
+}: TransmittalProject & { transmittal: DrawingTransmittal }) {
+  const [transmittal, setTransmittal] = useState(initialTransmittal);
+
+  const markAcknowledged = (acknowledgedAt: string) => {
+    setTransmittal((prev) => ({
+      ...prev,
+      recipients: prev.recipients.map((r) => (r.isMe ? { ...r, acknowledgedAt } : r)),
+    }));
+  };
+
+  const acknowledgedCount = transmittal.recipients.filter((r) => r.acknowledgedAt).length;
+
+  return (
+    <div className="space-y-4">
+      <GlassCard className="p-5 space-y-4">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div>
+            <p className="text-xs uppercase tracking-wider text-muted-foreground">Drawing Transmittal</p>
+            <h1 className="text-xl font-semibold font-mono">{transmittal.code}</h1>
+            <p className="text-sm text-muted-foreground">
+              {projectName} · Issued {format(new Date(transmittal.sentAt), "MMM d, yyyy HH:mm")}
+              {transmittal.sentByName && ` by ${transmittal.sentByName}`}
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge variant="secondary">{TRANSMITTAL_PURPOSE_LABELS[transmittal.purpose]}</Badge>
+            <TransmittalPdfButton transmittal={transmittal} projectName={projectName} projectCode={projectCode} />
+            <TransmittalAcknowledgement
+              transmittal={transmittal}
+              projectId={projectId}
+              onAcknowledged={markAcknowledged}
+            />
+          </div>
+        </div>
+        {transmittal.notes && (
+          <p className="text-sm whitespace-pre-wrap rounded-md bg-muted/50 p-3">{transmittal.notes}</p>
+        )}
+      </GlassCard>
+
+      <GlassCard className="py-0 gap-0">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-12">No.</TableHead>
+              <TableHead>Item</TableHead>
+              <TableHead>Description</TableHead>
+              <TableHead>Rev</TableHead>
+              <TableHead>File</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {transmittal.items.map((item, index) => (
+              <TableRow key={item.id}>
+                <TableCell className="text-muted-foreground tabular-nums">{index + 1}</TableCell>
+                <TableCell className="font-mono text-sm">{item.itemCode}</TableCell>
+                <TableCell>{item.itemName}</TableCell>
+                <TableCell>
+                  <Badge variant="secondary" className="font-mono">
+                    {item.revision ?? "-"}
+                  </Badge>
+                </TableCell>
+                <TableCell className="text-sm text-muted-foreground truncate max-w-[220px]">
+                  {item.fileName ?? "-"}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </GlassCard>
+
+      <GlassCard className="p-5 space-y-3">
+        <p className="text-sm font-medium">
+          Recipients · {acknowledgedCount}/{transmittal.recipients.length} acknowledged
+        </p>
+        {transmittal.recipients.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No client users were assigned to the project when this was sent.</p>
+        ) : (
+          <ul className="space-y-2">
+            {transmittal.recipients.map((r) => (
+              <li key={r.id} className="flex items-center justify-between gap-3 text-sm">
+                <span>
+                  {r.name}
+                  {r.email && <span className="text-muted-foreground"> · {r.email}</span>}
+                </span>
+                {r.acknowledgedAt ? (
+                  <span className="inline-flex items-center gap-1 text-xs text-emerald-700">
+                    <CheckCircle2Icon className="size-3.5" />
+                    {format(new Date(r.acknowledgedAt), "MMM d, yyyy HH:mm")}
+                  </span>
+                ) : (
+                  <span className="inline-flex items-center gap-1 text-xs text-amber-700">
+                    <Clock3Icon className="size-3.5" />
+                    Awaiting acknowledgement
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </GlassCard>
+    </div>
+  );
+}
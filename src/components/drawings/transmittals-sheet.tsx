@@ -0,0 +1,161 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { ExternalLinkIcon, FileSpreadsheetIcon, FileStackIcon } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Spinner } from "@/components/ui/spinner";
+import { useDrawingTransmittals } from "@/lib/react-query/drawings";
+import { exportDrawingRegister } from "@/lib/actions/drawing-transmittals";
+import { TRANSMITTAL_PURPOSE_LABELS } from "@/lib/drawing-transmittals";
+import { TransmittalAcknowledgement, TransmittalPdfButton } from "./transmittal-detail";
+
+interface TransmittalsSheetProps {
+  projectId: string;
+  projectName: string;
+  projectCode: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Clients see transmittals but not the register export */
+  isClient?: boolean;
+}
+
+/**
+ * The project's transmittal log, newest first, with PDF download,
+ * acknowledgement status and the drawing register export.
+ */
+export function TransmittalsSheet({
+  projectId,
+  projectName,
+  projectCode,
+  open,
+  onOpenChange,
+  isClient = false,
+}: TransmittalsSheetProps) {
+  const { data: transmittals = [], isLoading } = useDrawingTransmittals(projectId, open);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExportRegister = async () => {
+    setIsExporting(true);
+    try {
+      const result = await exportDrawingRegister(projectId);
+      if (!result.success || !result.data) {
+        toast.error(result.error || "Failed to export drawing register");
+        return;
+      }
+      const bytes = Uint8Array.from(atob(result.data.base64), (c) => c.charCodeAt(0));
+      const blob = new Blob([bytes], {
+        type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = result.data.fileName;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch {
+      toast.error("Failed to export drawing register");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-lg p-0 gap-0 flex flex-col">
+        <SheetHeader className="px-6 pt-5 pb-3 shrink-0 border-b">
+          <SheetTitle className="text-base flex items-center gap-2">
+            <FileStackIcon className="size-4" />
+            Transmittals
+          </SheetTitle>
+          <SheetDescription className="text-xs">
+            Every issue of drawings to the client, with the revisions sent and who has acknowledged receipt.
+          </SheetDescription>
+          {!isClient && (
+            <div className="flex gap-2 pt-1">
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7 gap-1.5 text-xs"
+                disabled={isExporting}
+                onClick={handleExportRegister}
+              >
+                {isExporting ? <Spinner className="size-3.5" /> : <FileSpreadsheetIcon className="size-3.5" />}
+                Export Drawing Register
+              </Button>
+            </div>
+          )}
+        </SheetHeader>
+
+        <div className="flex-1 overflow-y-auto px-6 py-3">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Spinner className="size-5" />
+            </div>
+          ) : transmittals.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-8 text-center">No transmittals issued yet.</p>
+          ) : (
+            <ol className="space-y-3">
+              {transmittals.map((t) => {
+                const acknowledged = t.recipients.filter((r) => r.acknowledgedAt).length;
+                return (
+                  <li key={t.id} className="rounded-lg border p-3 space-y-2">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className="font-mono text-sm font-semibold">{t.code}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {format(new Date(t.sentAt), "MMM d, yyyy HH:mm")}
+                          {t.sentByName && ` · ${t.sentByName}`}
+                        </p>
+                      </div>
+                      <Badge variant="secondary" className="shrink-0">
+                        {TRANSMITTAL_PURPOSE_LABELS[t.purpose]}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {t.items.length} drawing{t.items.length !== 1 ? "s" : ""}:{" "}
+                      {t.items.map((i) => `${i.itemCode}${i.revision ? ` (${i.revision})` : ""}`).join(", ")}
+                    </p>
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <span className="text-xs">
+                        {t.recipients.length === 0
+                          ? "No recipients"
+                          : `${acknowledged}/${t.recipients.length} acknowledged`}
+                      </span>
+                      <div className="flex items-center gap-1.5">
+                        <TransmittalAcknowledgement transmittal={t} projectId={projectId} />
+                        <TransmittalPdfButton
+                          transmittal={t}
+                          projectName={projectName}
+                          projectCode={projectCode}
+                          size="icon-sm"
+                        />
+                        <Button variant="ghost" size="icon-sm" asChild title="Open transmittal">
+                          <Link href={`/projects/${projectId}/transmittals/${t.id}`}>
+                            <ExternalLinkIcon className="size-4" />
+                          </Link>
+                        </Button>
+                      </div>
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import {
+  baselineVariance,
+  compareWithBaseline,
+  formatVariance,
+  type GanttBaselineItem,
+} from "@/components/gantt/gantt-baseline";
+import type { GanttItem } from "@/components/gantt/gantt-types";
+
+const EVERY_DAY = 127;
+const MON_FRI = 62;
+
+function day(value: string): Date {
+  const [y, m, d] = value.split("-").map(Number);
+  return new Date(y, m - 1, d);
+}
+
+function task(id: string, start: string, end: string, overrides: Partial<GanttItem> = {}): GanttItem {
+  return {
+    id,
+    name: id,
+    type: "task",
+    startDate: day(start),
+    endDate: day(end),
+    progress: 0,
+    color: null,
+    priority: 2,
+    isEditable: true,
+    parentId: null,
+    children: [],
+    isCompleted: false,
+    ...overrides,
+  };
+}
+
+function snapshot(itemId: string | null, start: string, end: string, name = itemId ?? "gone"): GanttBaselineItem {
+  return { itemId, name, type: "task", startDate: day(start), endDate: day(end) };
+}
+
+describe("baselineVariance", () => {
+  it("counts slips in working days under the project mask", () => {
+    // Baseline Fri Mar 6 → moved to Mon Mar 9: one working day, three calendar days
+    const current = { startDate: day("2026-03-09"), endDate: day("2026-03-13") };
+    const baseline = { startDate: day("2026-03-06"), endDate: day("2026-03-12") };
+
+    expect(baselineVariance(current, baseline, MON_FRI)).toEqual({ startVariance: 1, finishVariance: 1 });
+    expect(baselineVariance(current, baseline, EVERY_DAY)).toEqual({ startVariance: 3, finishVariance: 1 });
+  });
+
+  it("is negative when the task moved earlier", () => {
+    const current = { startDate: day("2026-03-02"), endDate: day("2026-03-04") };
+    const baseline = { startDate: day("2026-03-04"), endDate: day("2026-03-06") };
+    expect(baselineVariance(current, baseline, EVERY_DAY)).toEqual({ startVariance: -2, finishVariance: -2 });
+  });
+});
+
+describe("compareWithBaseline", () => {
+  it("classifies tasks and appends ones deleted since the baseline", () => {
+    const items = [
+      task("a", "2026-03-02", "2026-03-06"),
+      task("b", "2026-03-09", "2026-03-12"),
+      task("c", "2026-03-02", "2026-03-03"),
+      task("new", "2026-03-10", "2026-03-11"),
+    ];
+    const baseline = [
+      snapshot("a", "2026-03-02", "2026-03-06"),
+      snapshot("b", "2026-03-09", "2026-03-10"),
+      snapshot("c", "2026-03-03", "2026-03-04"),
+      snapshot(null, "2026-03-01", "2026-03-02", "Site survey"),
+    ];
+
+    const { rows, summary } = compareWithBaseline(items, baseline, EVERY_DAY);
+
+    expect(rows.map((r) => [r.name, r.status])).toEqual([
+      ["a", "on-baseline"],
+      ["b", "slipped"],
+      ["c", "ahead"],
+      ["new", "added"],
+      ["Site survey", "removed"],
+    ]);
+    expect(rows[1].finishVariance).toBe(2);
+    expect(rows[3].finishVariance).toBeNull();
+    expect(summary).toMatchObject({ compared: 3, slipped: 1, ahead: 1, added: 1, removed: 1, maxSlip: 2 });
+  });
+
+  it("skips phases but keeps their tasks, with depth for nested children", () => {
+    const child = task("child", "2026-03-03", "2026-03-04", { parentId: "parent" });
+    const parent = task("parent", "2026-03-02", "2026-03-04", { children: [child] });
+    const phase = task("phase", "2026-03-02", "2026-03-04", { type: "phase", children: [parent] });
+
+    const { rows } = compareWithBaseline(
+      [phase],
+      [snapshot("parent", "2026-03-02", "2026-03-04"), snapshot("child", "2026-03-03", "2026-03-04")],
+      EVERY_DAY
+    );
+
+    expect(rows.map((r) => [r.id, r.depth])).toEqual([
+      ["parent", 0],
+      ["child", 1],
+    ]);
+  });
+
+  it("reports the shift of the overall finish", () => {
+    const items = [task("a", "2026-03-02", "2026-03-05"), task("b", "2026-03-06", "2026-03-16")];
+    const baseline = [snapshot("a", "2026-03-02", "2026-03-05"), snapshot("b", "2026-03-06", "2026-03-12")];
+
+    const { summary } = compareWithBaseline(items, baseline, MON_FRI);
+
+    expect(summary.baselineFinish).toEqual(day("2026-03-12"));
+    expect(summary.currentFinish).toEqual(day("2026-03-16"));
+    // Thu Mar 12 → Mon Mar 16 = Fri + Mon
+    expect(summary.finishVariance).toBe(2);
+  });
+});
+
+describe("formatVariance", () => {
+  it("signs late and early variance", () => {
+    expect(formatVariance(3)).toBe("+3d");
+    expect(formatVariance(-2)).toBe("-2d");
+    expect(formatVariance(0)).toBe("0d");
+  });
+});
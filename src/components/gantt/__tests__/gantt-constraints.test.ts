@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { findConstraintViolations } from "@/components/gantt/gantt-constraints";
+import type { GanttDependency, GanttItem } from "@/components/gantt/gantt-types";
+
+const MON_FRI = 62;
+
+function item(id: string, start: string, end: string, overrides: Partial<GanttItem> = {}): GanttItem {
+  return {
+    id,
+    name: id,
+    type: "task",
+    startDate: new Date(`${start}T00:00:00`),
+    endDate: new Date(`${end}T00:00:00`),
+    progress: 0,
+    color: null,
+    priority: 2,
+    isEditable: true,
+    parentId: null,
+    children: [],
+    isCompleted: false,
+    ...overrides,
+  };
+}
+
+const on = (date: string) => new Date(`${date}T00:00:00`);
+
+function fs(sourceId: string, targetId: string, lagDays = 0): GanttDependency {
+  return { id: `${sourceId}->${targetId}`, projectId: "p", sourceId, targetId, type: 0, lagDays };
+}
+
+describe("findConstraintViolations", () => {
+  it("reports nothing when every constraint is met", () => {
+    const items = [
+      item("A", "2026-03-02", "2026-03-06", { constraint: { type: "finish_no_later_than", date: on("2026-03-06") } }),
+      item("B", "2026-03-09", "2026-03-11", { constraint: { type: "start_no_earlier_than", date: on("2026-03-09") } }),
+      item("M", "2026-03-12", "2026-03-12", { type: "milestone", constraint: { type: "must_start_on", date: on("2026-03-12") } }),
+    ];
+    expect(findConstraintViolations(items, [fs("A", "B"), fs("B", "M")], MON_FRI)).toEqual([]);
+  });
+
+  it("counts a missed deadline in working days", () => {
+    // Ends Tue Mar 10 against a Fri Mar 6 deadline — the weekend doesn't count
+    const items = [
+      item("A", "2026-03-02", "2026-03-10", { constraint: { type: "finish_no_later_than", date: on("2026-03-06") } }),
+    ];
+    const [violation] = findConstraintViolations(items, [], MON_FRI);
+    expect(violation).toMatchObject({ itemId: "A", type: "finish_no_later_than", days: 2 });
+    expect(violation.message).toBe("Finishes 2 working days after the deadline");
+  });
+
+  it("flags a predecessor overrunning a must-start-on date", () => {
+    // Handover fixed on Mon Mar 9, but the fit-out it follows ends Wed Mar 11
+    const items = [
+      item("fitout", "2026-03-02", "2026-03-11"),
+      item("handover", "2026-03-09", "2026-03-09", {
+        type: "milestone",
+        constraint: { type: "must_start_on", date: on("2026-03-09") },
+      }),
+    ];
+    const [violation] = findConstraintViolations(items, [fs("fitout", "handover")], MON_FRI);
+    expect(violation).toMatchObject({ itemId: "handover", type: "must_start_on", days: 2 });
+  });
+
+  it("finds constraints on nested items and ignores phases", () => {
+    const child = item("child", "2026-03-02", "2026-03-03", {
+      parentId: "parent",
+      constraint: { type: "start_no_earlier_than", date: on("2026-03-04") },
+    });
+    const items = [
+      item("parent", "2026-03-02", "2026-03-03", { children: [child] }),
+      item("phase", "2026-03-02", "2026-03-20", {
+        type: "phase",
+        constraint: { type: "finish_no_later_than", date: on("2026-03-03") },
+      }),
+    ];
+    const violations = findConstraintViolations(items, [], MON_FRI);
+    expect(violations.map((v) => v.itemId)).toEqual(["child"]);
+    expect(violations[0].days).toBe(2);
+  });
+});
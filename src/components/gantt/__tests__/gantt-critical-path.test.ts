@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { computeCriticalPath, workingDayOffset } from "@/components/gantt/gantt-critical-path";
+import type { GanttDependency, GanttItem } from "@/components/gantt/gantt-types";
+
+const EVERY_DAY = 127;
+const MON_FRI = 62;
+
+function task(id: string, start: string, end: string, overrides: Partial<GanttItem> = {}): GanttItem {
+  const [sy, sm, sd] = start.split("-").map(Number);
+  const [ey, em, ed] = end.split("-").map(Number);
+  return {
+    id,
+    name: id,
+    type: "task",
+    startDate: new Date(sy, sm - 1, sd),
+    endDate: new Date(ey, em - 1, ed),
+    progress: 0,
+    color: null,
+    priority: 2,
+    isEditable: true,
+    parentId: null,
+    children: [],
+    isCompleted: false,
+    ...overrides,
+  };
+}
+
+function dep(sourceId: string, targetId: string, type: 0 | 1 | 2 | 3 = 0, lagDays = 0): GanttDependency {
+  return { id: `${sourceId}->${targetId}`, projectId: "p1", sourceId, targetId, type, lagDays };
+}
+
+describe("workingDayOffset", () => {
+  it("counts working days in either direction", () => {
+    // Fri Mar 6 2026 → Mon Mar 9 2026
+    expect(workingDayOffset(new Date(2026, 2, 6), new Date(2026, 2, 9), MON_FRI)).toBe(1);
+    expect(workingDayOffset(new Date(2026, 2, 9), new Date(2026, 2, 6), MON_FRI)).toBe(-1);
+    expect(workingDayOffset(new Date(2026, 2, 6), new Date(2026, 2, 9), EVERY_DAY)).toBe(3);
+  });
+});
+
+describe("computeCriticalPath", () => {
+  it("marks the longest FS chain critical and gives parallel work float", () => {
+    const items = [
+      task("a", "2026-03-02", "2026-03-05"),
+      task("b", "2026-03-05", "2026-03-10"),
+      task("c", "2026-03-02", "2026-03-03"),
+    ];
+    const result = computeCriticalPath(items, [dep("a", "b")], EVERY_DAY);
+
+    expect(result.floatById.get("a")).toBe(0);
+    expect(result.floatById.get("b")).toBe(0);
+    expect(result.floatById.get("c")).toBe(7);
+    expect([...result.criticalIds].sort()).toEqual(["a", "b"]);
+    expect(result.criticalDependencyIds.has("a->b")).toBe(true);
+  });
+
+  it("honours lag on the dependency", () => {
+    const items = [task("a", "2026-03-02", "2026-03-03"), task("b", "2026-03-08", "2026-03-10")];
+    // a must finish 5 days before b starts → a can end no later than Mar 3
+    const result = computeCriticalPath(items, [dep("a", "b", 0, 5)], EVERY_DAY);
+    expect(result.floatById.get("a")).toBe(0);
+  });
+
+  it("supports SS, FF and SF links", () => {
+    const items = [
+      task("a", "2026-03-02", "2026-03-04"),
+      task("b", "2026-03-02", "2026-03-10"),
+    ];
+    // SS: a may start as late as b's late start
+    expect(computeCriticalPath(items, [dep("a", "b", 1)], EVERY_DAY).floatById.get("a")).toBe(0);
+    // FF: a may finish as late as b's late finish
+    expect(computeCriticalPath(items, [dep("a", "b", 2)], EVERY_DAY).floatById.get("a")).toBe(6);
+    // SF: a must start 7 days before b's late finish → start by Mar 3
+    expect(computeCriticalPath(items, [dep("a", "b", 3, 7)], EVERY_DAY).floatById.get("a")).toBe(1);
+  });
+
+  it("counts float in working days under the mask", () => {
+    // Fri Mar 6 end vs Mon Mar 9 project finish: 1 working day, 3 calendar days
+    const items = [task("a", "2026-03-02", "2026-03-06"), task("b", "2026-03-02", "2026-03-09")];
+    expect(computeCriticalPath(items, [], MON_FRI).floatById.get("a")).toBe(1);
+    expect(computeCriticalPath(items, [], EVERY_DAY).floatById.get("a")).toBe(3);
+  });
+
+  it("does not count holidays as float", () => {
+    // Mon Mar 9 closed: Fri Mar 6 → Tue Mar 10 is one working day apart
+    const items = [task("a", "2026-03-02", "2026-03-06"), task("b", "2026-03-02", "2026-03-10")];
+    const holidays = new Set(["2026-03-09"]);
+    expect(computeCriticalPath(items, [], MON_FRI, holidays).floatById.get("a")).toBe(1);
+    expect(computeCriticalPath(items, [], MON_FRI).floatById.get("a")).toBe(2);
+  });
+
+  it("rolls float up to parent tasks and skips phases", () => {
+    const child1 = task("c1", "2026-03-02", "2026-03-10", { parentId: "p" });
+    const child2 = task("c2", "2026-03-02", "2026-03-04", { parentId: "p" });
+    const parent = task("p", "2026-03-02", "2026-03-10", { children: [child1, child2] });
+    const phase = task("ph", "2026-03-01", "2026-03-20", { type: "phase" });
+
+    const result = computeCriticalPath([phase, parent], [], EVERY_DAY);
+    expect(result.floatById.get("p")).toBe(0);
+    expect(result.criticalIds.has("p")).toBe(true);
+    expect(result.floatById.has("ph")).toBe(false);
+  });
+
+  it("survives dependency cycles", () => {
+    const items = [task("a", "2026-03-02", "2026-03-03"), task("b", "2026-03-04", "2026-03-05")];
+    const result = computeCriticalPath(items, [dep("a", "b"), dep("b", "a")], EVERY_DAY);
+    expect(result.floatById.size).toBe(2);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildPortfolioItems,
+  type PortfolioProject,
+  type PortfolioScheduleItem,
+} from "@/components/gantt/gantt-portfolio";
+
+function project(id: string, overrides: Partial<PortfolioProject> = {}): PortfolioProject {
+  return {
+    id,
+    project_code: id.toUpperCase(),
+    name: `Project ${id}`,
+    status: "active",
+    client_name: null,
+    pm_names: [],
+    ...overrides,
+  };
+}
+
+function row(
+  id: string,
+  projectId: string,
+  start: string,
+  end: string,
+  overrides: Partial<PortfolioScheduleItem> = {}
+): PortfolioScheduleItem {
+  return {
+    id,
+    project_id: projectId,
+    name: id,
+    item_type: "task",
+    phase_key: null,
+    start_date: start,
+    end_date: end,
+    is_completed: false,
+    ...overrides,
+  };
+}
+
+const projects = [
+  project("p1", { client_name: "Zeta Hotels", pm_names: ["Deniz"] }),
+  project("p2", { client_name: "Acme", pm_names: ["Ayla", "Deniz"] }),
+  project("p3", { client_name: "Acme", status: "completed" }),
+  project("p4"),
+];
+
+const schedule = [
+  row("t1", "p1", "2026-03-02", "2026-03-10", { phase_key: "production" }),
+  row("t2", "p1", "2026-03-05", "2026-03-20", { phase_key: "production" }),
+  row("t3", "p1", "2026-04-01", "2026-04-10", { phase_key: "installation" }),
+  row("m1", "p1", "2026-04-10", "2026-04-10", { item_type: "milestone", is_completed: true }),
+  row("t4", "p2", "2026-02-01", "2026-02-15", { phase_key: "design" }),
+  row("t5", "p3", "2026-01-01", "2026-01-31", { phase_key: "design" }),
+];
+
+const today = new Date(2026, 2, 15);
+
+describe("buildPortfolioItems", () => {
+  it("groups projects by client with derived phase spans and milestones", () => {
+    const view = buildPortfolioItems(projects, schedule, {
+      grouping: "client",
+      statuses: ["active"],
+      phase: "all",
+      today,
+    });
+
+    expect(view.items.map((g) => [g.name, g.children.map((p) => p.name)])).toEqual([
+      ["Acme", ["P2 — Project p2"]],
+      ["Zeta Hotels", ["P1 — Project p1"]],
+    ]);
+    expect(view.projectCount).toBe(2);
+    expect(view.unscheduledCount).toBe(1); // p4 has no phase tasks or milestones
+
+    const p1 = view.items[1].children[0];
+    expect(p1.children.map((c) => [c.id, c.type])).toEqual([
+      ["phase:p1:production", "phase"],
+      ["phase:p1:installation", "phase"],
+      ["m1", "milestone"],
+    ]);
+    expect(p1.children[0].startDate).toEqual(new Date(2026, 2, 2));
+    expect(p1.children[0].endDate).toEqual(new Date(2026, 2, 20));
+    expect(p1.startDate).toEqual(new Date(2026, 2, 2));
+    expect(p1.endDate).toEqual(new Date(2026, 3, 10));
+    expect(p1.children[2].status).toBe("Completed");
+    expect([p1, ...p1.children].every((item) => !item.isEditable)).toBe(true);
+  });
+
+  it("counts the tasks behind pre-aggregated phase spans", () => {
+    const view = buildPortfolioItems(
+      [project("p1")],
+      [
+        row("span:p1:design", "p1", "2026-01-05", "2026-01-30", { phase_key: "design", task_count: 4 }),
+        row("t9", "p1", "2026-02-01", "2026-02-10", { phase_key: "design" }),
+      ],
+      { grouping: "client", statuses: ["active"], phase: "all", today }
+    );
+    const design = view.items[0].children[0].children[0];
+    expect(design.status).toBe("5 tasks");
+    expect(design.endDate).toEqual(new Date(2026, 1, 10));
+  });
+
+  it("groups by PM, keeping unassigned projects last", () => {
+    const view = buildPortfolioItems(projects, schedule, {
+      grouping: "pm",
+      statuses: ["active", "completed"],
+      phase: "all",
+      today,
+    });
+    expect(view.items.map((g) => g.name)).toEqual(["Ayla, Deniz", "Deniz", "No PM assigned"]);
+  });
+
+  it("narrows to one phase, dropping projects without it", () => {
+    const view = buildPortfolioItems(projects, schedule, {
+      grouping: "client",
+      statuses: ["active", "completed"],
+      phase: "design",
+      today,
+    });
+    const rows = view.items.flatMap((g) => g.children.flatMap((p) => p.children.map((c) => c.id)));
+    // Earliest project first within a group; p1 keeps its phase-less milestone, so it still shows
+    expect(rows).toEqual(["phase:p3:design", "phase:p2:design", "m1"]);
+    expect(view.unscheduledCount).toBe(1);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import {
+  PRINT_SIDEBAR_WIDTH,
+  buildGanttPrintLayout,
+  drawGanttTile,
+  tileGanttPrintLayout,
+  tint,
+  type GanttPainter,
+} from "@/components/gantt/gantt-print";
+import { BASE_COLUMN_WIDTHS, HEADER_HEIGHT, buildGanttRows, type GanttItem } from "@/components/gantt/gantt-types";
+
+function item(id: string, start: string, end: string, overrides: Partial<GanttItem> = {}): GanttItem {
+  return {
+    id,
+    name: `Task ${id}`,
+    type: "task",
+    startDate: new Date(`${start}T00:00:00`),
+    endDate: new Date(`${end}T00:00:00`),
+    progress: 0,
+    color: "#3b82f6",
+    priority: 2,
+    isEditable: true,
+    parentId: null,
+    children: [],
+    isCompleted: false,
+    ...overrides,
+  };
+}
+
+// January in day view, 40 rows tall
+const dateRange = { start: new Date("2026-01-01T00:00:00"), end: new Date("2026-01-31T00:00:00") };
+const items = Array.from({ length: 40 }, (_, i) => item(`t${i}`, "2026-01-05", "2026-01-16"));
+const rows = buildGanttRows(items, new Set());
+
+function layoutFor(columnWidth = BASE_COLUMN_WIDTHS.day) {
+  return buildGanttPrintLayout({
+    rows,
+    dependencies: [{ id: "d1", projectId: "p", sourceId: "t0", targetId: "t1", type: 0, lagDays: 0 }],
+    dateRange,
+    viewMode: "day",
+    columnWidth,
+    showPhases: true,
+    showDependencies: true,
+    today: new Date("2026-01-10T00:00:00"),
+  });
+}
+
+describe("buildGanttPrintLayout", () => {
+  it("keeps the on-screen column width and trims to whole columns around the bars", () => {
+    const layout = layoutFor();
+    expect(layout.columnWidth).toBe(52);
+    expect(layout.bottomHeader).toHaveLength(31);
+    // Bars run 5 → 16 Jan (columns 4..15); one spare column each side
+    expect(layout.startX).toBe(3 * 52);
+    expect(layout.endX).toBe(17 * 52);
+    expect(layout.links).toHaveLength(1);
+    expect(layout.todayX).not.toBeNull();
+    expect(layout.shaded.length).toBeGreaterThan(0); // weekends in day view
+  });
+
+  it("groups the top header tier into weeks in day view", () => {
+    const layout = layoutFor();
+    const widths = layout.topHeader.reduce((sum, cell) => sum + cell.width, 0);
+    expect(widths).toBe(31 * 52);
+    expect(layout.topHeader[0].label).toMatch(/^Week \d+ · Jan 2026$/);
+  });
+});
+
+describe("tileGanttPrintLayout", () => {
+  it("cuts pages on whole columns and rows, dates first then the next row band", () => {
+    const layout = layoutFor();
+    // 5 columns across, 15 rows down per page
+    const tiles = tileGanttPrintLayout(layout, 5 * 52 + 30, 15 * 28 + 10);
+    const across = Math.ceil((layout.endX - layout.startX) / (5 * 52));
+    expect(tiles).toHaveLength(across * 3);
+    expect(tiles.every((t) => (t.x - layout.startX) % 52 === 0)).toBe(true);
+    expect(tiles.slice(0, across).every((t) => t.rowStart === 0 && t.rowEnd === 15)).toBe(true);
+    expect(tiles[across]).toMatchObject({ pageRow: 1, pageColumn: 0, rowStart: 15, rowEnd: 30 });
+    expect(tiles[tiles.length - 1]).toMatchObject({ rowStart: 30, rowEnd: 40 });
+  });
+});
+
+describe("drawGanttTile", () => {
+  it("repeats the sidebar and header on every tile", () => {
+    const layout = layoutFor();
+    const tiles = tileGanttPrintLayout(layout, 5 * 52, 15 * 28);
+    const texts: { value: string; x: number; y: number }[] = [];
+    const painter: GanttPainter = {
+      rect: () => {},
+      line: () => {},
+      polygon: () => {},
+      text: (value, x, y) => texts.push({ value, x, y }),
+      measure: (value, size) => value.length * size * 0.5,
+      clip: (_x, _y, _w, _h, draw) => draw(),
+    };
+
+    for (const tile of tiles) {
+      texts.length = 0;
+      drawGanttTile(painter, layout, tile);
+      expect(texts.some((t) => t.value === "Task" && t.y < HEADER_HEIGHT)).toBe(true);
+      expect(texts.some((t) => t.value === `Task t${tile.rowStart}` && t.x < PRINT_SIDEBAR_WIDTH)).toBe(true);
+      expect(texts.some((t) => t.y < HEADER_HEIGHT && t.x > PRINT_SIDEBAR_WIDTH)).toBe(true);
+    }
+  });
+});
+
+describe("tint", () => {
+  it("blends a colour toward white", () => {
+    expect(tint("#000000", 0.5)).toBe("#808080");
+    expect(tint("#3b82f6", 1)).toBe("#3b82f6");
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import {
+  diffScenario,
+  propagateScenario,
+  type ScenarioDependency,
+  type ScenarioItem,
+} from "@/components/gantt/gantt-scenario";
+
+const MON_FRI = 62;
+
+function item(
+  id: string,
+  start: string,
+  end: string,
+  overrides: Partial<ScenarioItem> = {}
+): ScenarioItem {
+  return { id, name: id, item_type: "task", parent_id: null, phase_key: null, start_date: start, end_date: end, ...overrides };
+}
+
+function dep(sourceId: string, targetId: string, lagDays = 0): ScenarioDependency {
+  return { id: `${sourceId}->${targetId}`, source_id: sourceId, target_id: targetId, dependency_type: 0, lag_days: lagDays };
+}
+
+// Mon Mar 2 2026 onwards. FS lag 0 = successor starts on the predecessor's end day.
+const live: ScenarioItem[] = [
+  item("phase-install", "2026-03-06", "2026-03-10", { item_type: "phase", phase_key: "installation" }),
+  item("A", "2026-03-02", "2026-03-06"),
+  item("P", "2026-03-06", "2026-03-10"),
+  item("B", "2026-03-06", "2026-03-10", { parent_id: "P", phase_key: "installation" }),
+  item("M", "2026-03-10", "2026-03-10", { item_type: "milestone", name: "Site installation" }),
+];
+const links = [dep("A", "B"), dep("B", "M")];
+
+const move = (items: ScenarioItem[], id: string, start: string, end: string) =>
+  items.map((i) => (i.id === id ? { ...i, start_date: start, end_date: end } : i));
+
+describe("propagateScenario", () => {
+  it("leaves a consistent schedule untouched", () => {
+    const result = propagateScenario(live, links, MON_FRI);
+    result.forEach((row, index) => expect(row).toBe(live[index]));
+  });
+
+  it("pushes successors by working days and rolls up parents and phases", () => {
+    const result = propagateScenario(move(live, "A", "2026-03-09", "2026-03-13"), links, MON_FRI);
+    const byId = new Map(result.map((i) => [i.id, i]));
+
+    // B keeps its 3 working days across the weekend: Fri 13 → Tue 17
+    expect(byId.get("B")).toMatchObject({ start_date: "2026-03-13", end_date: "2026-03-17" });
+    expect(byId.get("M")).toMatchObject({ start_date: "2026-03-17", end_date: "2026-03-17" });
+    expect(byId.get("P")).toMatchObject({ start_date: "2026-03-13", end_date: "2026-03-17" });
+    expect(byId.get("phase-install")).toMatchObject({ start_date: "2026-03-13", end_date: "2026-03-17" });
+  });
+
+  it("applies a changed lag", () => {
+    const result = propagateScenario(live, [dep("A", "B", 2), dep("B", "M")], MON_FRI);
+    expect(result.find((i) => i.id === "B")).toMatchObject({ start_date: "2026-03-10", end_date: "2026-03-12" });
+  });
+
+  it("holds a start-no-earlier-than task back and pins a must-start-on task", () => {
+    const constrained = live.map((i) =>
+      i.id === "B"
+        ? { ...i, constraint_type: "start_no_earlier_than", constraint_date: "2026-03-11" }
+        : i.id === "M"
+        ? { ...i, constraint_type: "must_start_on", constraint_date: "2026-03-20" }
+        : i
+    );
+    const byId = new Map(propagateScenario(constrained, links, MON_FRI).map((i) => [i.id, i]));
+    expect(byId.get("B")).toMatchObject({ start_date: "2026-03-11", end_date: "2026-03-13" });
+    expect(byId.get("M")).toMatchObject({ start_date: "2026-03-20", end_date: "2026-03-20" });
+  });
+});
+
+describe("diffScenario", () => {
+  it("reports moved rows, the installation milestone and finish shift", () => {
+    const draft = propagateScenario(move(live, "A", "2026-03-09", "2026-03-13"), links, MON_FRI);
+    const diff = diffScenario(live, draft, links, links, MON_FRI);
+
+    expect(diff.items.map((c) => [c.id, c.stored])).toEqual([
+      ["phase-install", false],
+      ["A", true],
+      ["P", false],
+      ["B", true],
+      ["M", true],
+    ]);
+    expect(diff.items.find((c) => c.id === "B")?.finishShift).toBe(5);
+    expect(diff.installation).toMatchObject({ label: "Site installation", shift: 5 });
+    expect(diff.finishShift).toBe(5);
+    expect(diff.dependencies).toEqual([]);
+  });
+
+  it("falls back to installation-phase tasks and lists link changes", () => {
+    const withoutMilestone = live.filter((i) => i.id !== "M");
+    const draftLinks = [dep("A", "B", 2)];
+    const draft = propagateScenario(withoutMilestone, draftLinks, MON_FRI);
+    const diff = diffScenario(withoutMilestone, draft, [dep("A", "B")], draftLinks, MON_FRI);
+
+    expect(diff.installation).toMatchObject({ label: "Installation finish", shift: 2 });
+    expect(diff.dependencies).toEqual([
+      { id: "A->B", sourceName: "A", targetName: "B", from: { type: 0, lagDays: 0 }, to: { type: 0, lagDays: 2 } },
+    ]);
+  });
+});
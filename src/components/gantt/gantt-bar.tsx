@@ -11,8 +11,10 @@ import {
   type GanttItem,
   TASK_BAR_HEIGHT,
   ROW_HEIGHT,
+  CRITICAL_PATH_COLOR,
   formatDuration,
 } from "./gantt-types";
+import type { HolidayDates } from "@/lib/holiday-calendar";
 
 // ============================================================================
 // GANTT BAR — Three shapes: phase (thick rounded), rectangle (task), diamond (milestone)
@@ -38,6 +40,14 @@ export interface GanttBarProps {
   linkMode?: boolean;
   isLinkSource?: boolean;
   workingDaysMask?: number;
+  /** Holiday dates excluded from the duration tooltip */
+  holidays?: HolidayDates;
+  /** Holiday spans crossing this bar, in bar-local px — drawn as hatched gaps */
+  nonWorkingSegments?: Array<{ left: number; width: number }>;
+  /** Highlight as on the critical path (critical-path toggle on + zero float) */
+  isCritical?: boolean;
+  /** Total float in working days, shown in the tooltip when known */
+  totalFloat?: number;
 }
 
 export function GanttBar({
@@ -57,6 +67,10 @@ export function GanttBar({
   linkMode,
   isLinkSource,
   workingDaysMask,
+  holidays,
+  nonWorkingSegments,
+  isCritical,
+  totalFloat,
 }: GanttBarProps) {
   const barTop = y + (ROW_HEIGHT - TASK_BAR_HEIGHT) / 2;
 
@@ -116,7 +130,10 @@ export function GanttBar({
           >
             <div
               className="size-2.5 rotate-45"
-              style={{ backgroundColor: color }}
+              style={{
+                backgroundColor: color,
+                outline: isCritical ? `1.5px solid ${CRITICAL_PATH_COLOR}` : undefined,
+              }}
             />
             <span
               className="text-[9px] font-medium italic whitespace-nowrap"
@@ -135,6 +152,7 @@ export function GanttBar({
               year: "numeric",
             })}
           </p>
+          {totalFloat !== undefined && <FloatLine totalFloat={totalFloat} />}
         </TooltipContent>
       </Tooltip>
     );
@@ -191,7 +209,7 @@ export function GanttBar({
             {" → "}
             {item.endDate.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })}
             {" · "}
-            {formatDuration(item, workingDaysMask ?? 127)}
+            {formatDuration(item, workingDaysMask ?? 127, holidays)}
           </p>
         </TooltipContent>
       </Tooltip>
@@ -238,6 +256,9 @@ export function GanttBar({
               width,
               height: TASK_BAR_HEIGHT,
               backgroundColor: `${color}${bgAlpha}`,
+              // outline, not box-shadow — rings (selection/link) use box-shadow
+              outline: isCritical ? `1.5px solid ${CRITICAL_PATH_COLOR}` : undefined,
+              outlineOffset: isCritical ? 1 : undefined,
             }}
             onClick={handleClick}
             onDoubleClick={() => onDoubleClick?.(item)}
@@ -254,6 +275,20 @@ export function GanttBar({
               }}
             />
 
+            {/* Holidays inside the bar — no work happens on these days */}
+            {nonWorkingSegments?.map((seg) => (
+              <div
+                key={seg.left}
+                className="absolute top-0 h-full pointer-events-none"
+                style={{
+                  left: seg.left,
+                  width: seg.width,
+                  backgroundImage:
+                    "repeating-linear-gradient(135deg, rgba(255,255,255,0.55) 0 2px, transparent 2px 5px)",
+                }}
+              />
+            ))}
+
             {/* Date range inside bar (wide bars only) */}
             {showDateInside && (
               <span
@@ -294,7 +329,9 @@ export function GanttBar({
         <TooltipContent side="top" align="start" alignOffset={mouseX - 40} sideOffset={8} className="text-xs">
           <p className="font-medium">{item.name}</p>
           <p className="text-muted-foreground">{dateLabel}</p>
-          <p className="text-muted-foreground">{formatDuration(item, workingDaysMask ?? 127)} · {Math.round(progress)}%</p>
+          <p className="text-muted-foreground">{formatDuration(item, workingDaysMask ?? 127, holidays)} · {Math.round(progress)}%</p>
+          {item.progressSource && <p className="text-muted-foreground">Progress: {item.progressSource}</p>}
+          {totalFloat !== undefined && <FloatLine totalFloat={totalFloat} />}
         </TooltipContent>
       </Tooltip>
 
@@ -303,3 +340,9 @@ export function GanttBar({
   );
 }
 
+function FloatLine({ totalFloat }: { totalFloat: number }) {
+  if (totalFloat <= 0) {
+    return <p className="font-medium text-red-500">Critical path · {totalFloat}d float</p>;
+  }
+  return <p className="text-muted-foreground">{totalFloat}d float</p>;
+}
@@ -0,0 +1,202 @@
+// ============================================================================
+// GANTT BASELINES — Variance between the live schedule and a saved snapshot
+//
+// Variance is counted in working days under the project mask and holidays:
+//   positive = later than the baseline (slipped), negative = ahead.
+// ============================================================================
+
+import { type GanttItem, type GanttItemType } from "./gantt-types";
+import { workingDayOffset } from "./gantt-critical-path";
+import type { HolidayDates } from "@/lib/holiday-calendar";
+
+export interface GanttBaseline {
+  id: string;
+  name: string;
+  description?: string | null;
+  createdAt: Date;
+  createdByName?: string | null;
+  itemCount?: number;
+}
+
+/** One snapshot row. `itemId` is null when the live task has since been deleted. */
+export interface GanttBaselineItem {
+  itemId: string | null;
+  name: string;
+  type: GanttItemType;
+  startDate: Date;
+  endDate: Date;
+}
+
+export interface BaselineVariance {
+  startVariance: number;
+  finishVariance: number;
+}
+
+export type BaselineRowStatus = "slipped" | "ahead" | "on-baseline" | "added" | "removed";
+
+export interface BaselineComparisonRow {
+  id: string;
+  name: string;
+  type: GanttItemType;
+  depth: number;
+  baselineStart: Date | null;
+  baselineEnd: Date | null;
+  currentStart: Date | null;
+  currentEnd: Date | null;
+  startVariance: number | null;
+  finishVariance: number | null;
+  status: BaselineRowStatus;
+}
+
+export interface BaselineComparison {
+  rows: BaselineComparisonRow[];
+  summary: {
+    compared: number;
+    slipped: number;
+    ahead: number;
+    added: number;
+    removed: number;
+    /** Largest finish slip across compared items (working days) */
+    maxSlip: number;
+    baselineFinish: Date | null;
+    currentFinish: Date | null;
+    /** Shift of the overall schedule finish (working days) */
+    finishVariance: number | null;
+  };
+}
+
+export function baselineVariance(
+  current: { startDate: Date; endDate: Date },
+  baseline: { startDate: Date; endDate: Date },
+  mask: number,
+  holidays?: HolidayDates
+): BaselineVariance {
+  return {
+    startVariance: workingDayOffset(baseline.startDate, current.startDate, mask, holidays),
+    finishVariance: workingDayOffset(baseline.endDate, current.endDate, mask, holidays),
+  };
+}
+
+/** Snapshot rows keyed by live item id (deleted tasks are left out) */
+export function indexBaselineItems(items: GanttBaselineItem[]): Map<string, GanttBaselineItem> {
+  const map = new Map<string, GanttBaselineItem>();
+  for (const item of items) {
+    if (item.itemId) map.set(item.itemId, item);
+  }
+  return map;
+}
+
+function latestEnd(dates: Date[]): Date | null {
+  if (dates.length === 0) return null;
+  return dates.reduce((max, d) => (d > max ? d : max));
+}
+
+/**
+ * Compare the live item tree with a baseline snapshot.
+ * Rows follow the Gantt order (phases skipped); tasks deleted since the
+ * baseline are appended with status "removed".
+ */
+export function compareWithBaseline(
+  items: GanttItem[],
+  baselineItems: GanttBaselineItem[],
+  mask: number,
+  holidays?: HolidayDates
+): BaselineComparison {
+  const byItemId = indexBaselineItems(baselineItems);
+  const rows: BaselineComparisonRow[] = [];
+  const seen = new Set<string>();
+
+  const walk = (list: GanttItem[], depth: number) => {
+    for (const item of list) {
+      if (item.type === "phase") {
+        walk(item.children, depth);
+        continue;
+      }
+      seen.add(item.id);
+      const snapshot = byItemId.get(item.id);
+      if (!snapshot) {
+        rows.push({
+          id: item.id,
+          name: item.name,
+          type: item.type,
+          depth,
+          baselineStart: null,
+          baselineEnd: null,
+          currentStart: item.startDate,
+          currentEnd: item.endDate,
+          startVariance: null,
+          finishVariance: null,
+          status: "added",
+        });
+      } else {
+        const variance = baselineVariance(item, snapshot, mask, holidays);
+        rows.push({
+          id: item.id,
+          name: item.name,
+          type: item.type,
+          depth,
+          baselineStart: snapshot.startDate,
+          baselineEnd: snapshot.endDate,
+          currentStart: item.startDate,
+          currentEnd: item.endDate,
+          ...variance,
+          status:
+            variance.finishVariance > 0
+              ? "slipped"
+              : variance.finishVariance < 0
+              ? "ahead"
+              : "on-baseline",
+        });
+      }
+      walk(item.children, depth + 1);
+    }
+  };
+  walk(items, 0);
+
+  baselineItems.forEach((snapshot, i) => {
+    if (snapshot.type === "phase") return;
+    if (snapshot.itemId && seen.has(snapshot.itemId)) return;
+    rows.push({
+      id: snapshot.itemId ?? `removed-${i}`,
+      name: snapshot.name,
+      type: snapshot.type,
+      depth: 0,
+      baselineStart: snapshot.startDate,
+      baselineEnd: snapshot.endDate,
+      currentStart: null,
+      currentEnd: null,
+      startVariance: null,
+      finishVariance: null,
+      status: "removed",
+    });
+  });
+
+  const compared = rows.filter((r) => r.finishVariance !== null);
+  const baselineFinish = latestEnd(
+    baselineItems.filter((b) => b.type !== "phase").map((b) => b.endDate)
+  );
+  const currentFinish = latestEnd(
+    rows.filter((r) => r.currentEnd).map((r) => r.currentEnd as Date)
+  );
+
+  return {
+    rows,
+    summary: {
+      compared: compared.length,
+      slipped: rows.filter((r) => r.status === "slipped").length,
+      ahead: rows.filter((r) => r.status === "ahead").length,
+      added: rows.filter((r) => r.status === "added").length,
+      removed: rows.filter((r) => r.status === "removed").length,
+      maxSlip: compared.reduce((max, r) => Math.max(max, r.finishVariance ?? 0), 0),
+      baselineFinish,
+      currentFinish,
+      finishVariance:
+        baselineFinish && currentFinish ? workingDayOffset(baselineFinish, currentFinish, mask, holidays) : null,
+    },
+  };
+}
+
+/** "+3d" / "-2d" / "0d" */
+export function formatVariance(days: number): string {
+  return days > 0 ? `+${days}d` : `${days}d`;
+}
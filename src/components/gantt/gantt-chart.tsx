@@ -17,7 +17,20 @@ import {
   computeDateRange,
   BASE_COLUMN_WIDTHS,
 } from "./gantt-types";
-import { useGanttState } from "./use-gantt-state";
+import { computeCriticalPath } from "./gantt-critical-path";
+import { findConstraintViolations } from "./gantt-constraints";
+import {
+  type GanttBaseline,
+  type GanttBaselineItem,
+  type BaselineVariance,
+  compareWithBaseline,
+  indexBaselineItems,
+} from "./gantt-baseline";
+import type { ScheduleFileFormat } from "@/lib/schedule-interchange";
+import { type HolidayPeriod, expandHolidayDates } from "@/lib/holiday-calendar";
+import { type GanttCollaborator, useGanttState } from "./use-gantt-state";
+import { type GanttExportFormat, buildGanttPrintLayout, downloadGanttPng } from "./gantt-print";
+import { downloadGanttPdf } from "@/lib/pdf/generate-gantt-pdf";
 import { GanttToolbar } from "./gantt-toolbar";
 import { GanttSidebar } from "./gantt-sidebar";
 import { GanttTimeline } from "./gantt-timeline";
@@ -70,6 +83,29 @@ export interface GanttChartProps {
    *  duration labels show calendar days; when provided they show working days. */
   workingDaysMask?: number;
   onWorkingDaysChange?: (mask: number) => void;
+  /** Company + project holiday periods. Excluded from working-day counts and
+   *  shaded on the timeline. */
+  holidays?: HolidayPeriod[];
+  onManageHolidays?: () => void;
+  /** Saved schedule baselines. The toolbar menu appears when these and
+   *  onActiveBaselineChange are provided. */
+  baselines?: GanttBaseline[];
+  activeBaselineId?: string | null;
+  /** Snapshot rows of the active baseline — drives ghost bars and variance */
+  baselineItems?: GanttBaselineItem[];
+  onActiveBaselineChange?: (baselineId: string | null) => void;
+  onSaveBaseline?: () => void;
+  onDeleteBaseline?: (baseline: GanttBaseline) => void;
+  onExportBaselineReport?: () => void;
+  onExportSchedule?: (format: ScheduleFileFormat) => void;
+  onImportSchedule?: () => void;
+  onGenerateSchedule?: () => void;
+  /** Starts a what-if scenario; scenarioActive marks the toolbar button while one is open */
+  onStartScenario?: () => void;
+  scenarioActive?: boolean;
+  onShowHistory?: () => void;
+  /** From useGanttCollaboration — shown as avatars on the rows being edited */
+  editorsById?: Map<string, GanttCollaborator[]>;
   className?: string;
   showAddButton?: boolean;
 }
@@ -96,6 +132,22 @@ export function GanttChart({
   onExport,
   workingDaysMask,
   onWorkingDaysChange,
+  holidays,
+  onManageHolidays,
+  baselines,
+  activeBaselineId,
+  baselineItems,
+  onActiveBaselineChange,
+  onSaveBaseline,
+  onDeleteBaseline,
+  onExportBaselineReport,
+  onExportSchedule,
+  onImportSchedule,
+  onGenerateSchedule,
+  onStartScenario,
+  scenarioActive = false,
+  onShowHistory,
+  editorsById,
   className,
   showAddButton = false,
 }: GanttChartProps) {
@@ -118,11 +170,13 @@ export function GanttChart({
     collapsedIds,
     scrollTop,
     showPhases,
+    showCriticalPath,
     setPanel,
     setViewMode,
     toggleGrid,
     toggleDependencies,
     togglePhases,
+    toggleCriticalPath,
     toggleLinkMode,
     setLinkSourceId,
     exitLinkMode,
@@ -181,6 +235,39 @@ export function GanttChart({
 
   const stats = React.useMemo(() => computeStats(allGanttRows), [allGanttRows]);
 
+  const holidayDates = React.useMemo(() => expandHolidayDates(holidays ?? []), [holidays]);
+
+  /** Total float for every task; highlighting is gated by the toolbar toggle */
+  const criticalPath = React.useMemo(
+    () => computeCriticalPath(items, dependencies, workingDaysMask ?? 127, holidayDates),
+    [items, dependencies, workingDaysMask, holidayDates]
+  );
+
+  /** Date constraints the current dates break — red markers + status bar list */
+  const constraintViolations = React.useMemo(
+    () => findConstraintViolations(items, dependencies, workingDaysMask ?? 127, holidayDates),
+    [items, dependencies, workingDaysMask, holidayDates]
+  );
+  const violationById = React.useMemo(
+    () => new Map(constraintViolations.map((v) => [v.itemId, v])),
+    [constraintViolations]
+  );
+
+  // Baseline comparison — only while a baseline is active and its rows loaded
+  const baselineView = React.useMemo(() => {
+    if (!activeBaselineId || !baselineItems) return null;
+    const comparison = compareWithBaseline(items, baselineItems, workingDaysMask ?? 127, holidayDates);
+    const varianceById = new Map<string, BaselineVariance>();
+    for (const row of comparison.rows) {
+      if (row.startVariance === null || row.finishVariance === null) continue;
+      varianceById.set(row.id, {
+        startVariance: row.startVariance,
+        finishVariance: row.finishVariance,
+      });
+    }
+    return { dates: indexBaselineItems(baselineItems), varianceById };
+  }, [activeBaselineId, baselineItems, items, workingDaysMask, holidayDates]);
+
   const dateRange = React.useMemo(
     () => computeDateRange(items, viewMode),
     [items, viewMode]
@@ -475,6 +562,53 @@ export function GanttChart({
     scrollToToday();
   }, [scrollToToday]);
 
+  // Print / share — what is on screen: visible rows, view mode, zoom, toggles
+  const [isExportingView, setIsExportingView] = React.useState(false);
+  const handleExportView = React.useCallback(
+    async (format: GanttExportFormat) => {
+      if (ganttRows.length === 0) {
+        toast.info("Nothing to export — no rows are visible");
+        return;
+      }
+      setIsExportingView(true);
+      const layout = buildGanttPrintLayout({
+        rows: ganttRows,
+        dependencies,
+        dateRange,
+        viewMode,
+        columnWidth,
+        showPhases,
+        showDependencies,
+        workingDaysMask,
+        holidays: holidayDates,
+      });
+      const title = projectTitle || "Timeline";
+      const viewLabel = `${viewMode[0].toUpperCase()}${viewMode.slice(1)} view · ${Math.round(zoomLevel * 100)}%`;
+      const fileBaseName = title;
+      const pngName = `${fileBaseName.replace(/[^a-zA-Z0-9-_]+/g, "_")}_${new Date().toISOString().split("T")[0]}.png`;
+      const ok =
+        format === "png"
+          ? await downloadGanttPng(layout, [title, projectSubtitle].filter(Boolean).join(" · "), pngName)
+          : await downloadGanttPdf({
+              layout,
+              paper: format === "pdf-a3" ? "a3" : "a4",
+              title,
+              subtitle: projectSubtitle,
+              viewLabel,
+              fileBaseName,
+            });
+      setIsExportingView(false);
+      if (!ok) {
+        toast.error(
+          format === "png"
+            ? "Failed to create the image — large charts export better as PDF"
+            : "Failed to generate the PDF"
+        );
+      }
+    },
+    [ganttRows, dependencies, dateRange, viewMode, columnWidth, showPhases, showDependencies, workingDaysMask, holidayDates, projectTitle, projectSubtitle, zoomLevel]
+  );
+
   // Double-click handler
   const handleDoubleClick = React.useCallback(
     (item: GanttItem) => {
@@ -531,6 +665,8 @@ export function GanttChart({
           onDependenciesToggle={toggleDependencies}
           showPhases={showPhases}
           onPhasesToggle={togglePhases}
+          showCriticalPath={showCriticalPath}
+          onCriticalPathToggle={toggleCriticalPath}
           linkMode={linkMode}
           onLinkModeToggle={onCreateDependency ? toggleLinkMode : undefined}
           linkSourceId={linkSourceId}
@@ -553,6 +689,22 @@ export function GanttChart({
           rowCount={ganttRows.length}
           workingDaysMask={workingDaysMask}
           onWorkingDaysChange={onWorkingDaysChange}
+          onManageHolidays={onManageHolidays}
+          holidayCount={holidayDates.size}
+          baselines={baselines}
+          activeBaselineId={activeBaselineId}
+          onActiveBaselineChange={onActiveBaselineChange}
+          onSaveBaseline={onSaveBaseline}
+          onDeleteBaseline={onDeleteBaseline}
+          onExportBaselineReport={onExportBaselineReport}
+          onExportSchedule={onExportSchedule}
+          onImportSchedule={onImportSchedule}
+          onGenerateSchedule={onGenerateSchedule}
+          onStartScenario={onStartScenario}
+          scenarioActive={scenarioActive}
+          onShowHistory={onShowHistory}
+          onExportView={items.length > 0 ? handleExportView : undefined}
+          isExportingView={isExportingView}
         />
 
         {/* Main content — either empty state or the active panel, never both */}
@@ -590,6 +742,8 @@ export function GanttChart({
               onAddItem={onAddItem}
               onAddMilestone={onAddMilestone}
               workingDaysMask={workingDaysMask}
+              holidays={holidayDates}
+              editorsById={editorsById}
             />
             <GanttTimeline
               rows={ganttRows}
@@ -609,6 +763,13 @@ export function GanttChart({
               scrollRef={scrollRef}
               onScroll={handleTimelineScroll}
               workingDaysMask={workingDaysMask}
+              holidayPeriods={holidays}
+              holidays={holidayDates}
+              floatById={criticalPath.floatById}
+              criticalIds={showCriticalPath ? criticalPath.criticalIds : undefined}
+              criticalDependencyIds={showCriticalPath ? criticalPath.criticalDependencyIds : undefined}
+              baselineDates={baselineView?.dates}
+              constraintViolations={violationById}
             />
           </div>
         ) : (
@@ -619,11 +780,19 @@ export function GanttChart({
             onSelectItem={handleSelectItem}
             onDoubleClickItem={handleDoubleClick}
             workingDaysMask={workingDaysMask}
+            holidays={holidayDates}
+            floatById={criticalPath.floatById}
+            showCriticalPath={showCriticalPath}
+            baselineVariance={baselineView?.varianceById}
           />
         )}
 
         {/* Status bar */}
-        <GanttStatusBar stats={stats} />
+        <GanttStatusBar
+          stats={stats}
+          criticalCount={showCriticalPath ? criticalPath.criticalIds.size : undefined}
+          violations={constraintViolations}
+        />
 
         {/* Dependency dialog */}
         <GanttDependencyDialog
@@ -0,0 +1,141 @@
+// ============================================================================
+// GANTT CONSTRAINTS — Fixed-date rules and the schedule's violations of them
+//
+//   must_start_on          start pinned to the date
+//   start_no_earlier_than  start on or after the date
+//   finish_no_later_than   end on or before the date (a deadline)
+//
+// propagateDependencyDates (lib/actions/timelines.ts) pins and holds starts
+// back while rescheduling, but it never breaks a chain to hit a deadline and
+// it lets a predecessor overrun a pinned start. Those leftovers, and dates
+// edited before propagation ran, are reported here from the current dates.
+// ============================================================================
+
+import {
+  type ConstraintType,
+  type GanttDependency,
+  type GanttItem,
+  addWorkingDays,
+} from "./gantt-types";
+import { workingDayOffset } from "./gantt-critical-path";
+import type { HolidayDates } from "@/lib/holiday-calendar";
+
+export const CONSTRAINT_LABELS: Record<ConstraintType, string> = {
+  must_start_on: "Must start on",
+  start_no_earlier_than: "Start no earlier than",
+  finish_no_later_than: "Finish no later than",
+};
+
+export const CONSTRAINT_SHORT_LABELS: Record<ConstraintType, string> = {
+  must_start_on: "MSO",
+  start_no_earlier_than: "SNET",
+  finish_no_later_than: "FNLT",
+};
+
+export const CONSTRAINT_VIOLATION_COLOR = "#ef4444"; // red-500
+
+export interface ConstraintViolation {
+  itemId: string;
+  itemName: string;
+  type: ConstraintType;
+  date: Date;
+  /** Working days the schedule misses the constraint by (always > 0) */
+  days: number;
+  message: string;
+}
+
+function startOfDay(date: Date): Date {
+  const d = new Date(date);
+  d.setHours(0, 0, 0, 0);
+  return d;
+}
+
+function plural(days: number): string {
+  return `${days} working day${days !== 1 ? "s" : ""}`;
+}
+
+/** Latest start any start-driving predecessor (FS/SS) allows */
+function requiredStart(
+  incoming: GanttDependency[],
+  byId: Map<string, GanttItem>,
+  mask: number,
+  holidays?: HolidayDates
+): Date | null {
+  let latest: Date | null = null;
+  for (const dep of incoming) {
+    if (dep.type !== 0 && dep.type !== 1) continue;
+    const source = byId.get(dep.sourceId);
+    if (!source) continue;
+    const anchor = startOfDay(dep.type === 0 ? source.endDate : source.startDate);
+    const date = addWorkingDays(anchor, dep.lagDays || 0, mask, holidays);
+    if (!latest || date > latest) latest = date;
+  }
+  return latest;
+}
+
+/**
+ * Every constraint the current dates break, in schedule order. Phases and
+ * items without a constraint are ignored.
+ */
+export function findConstraintViolations(
+  items: GanttItem[],
+  dependencies: GanttDependency[],
+  mask: number,
+  holidays?: HolidayDates
+): ConstraintViolation[] {
+  const byId = new Map<string, GanttItem>();
+  const walk = (list: GanttItem[]) => {
+    for (const item of list) {
+      byId.set(item.id, item);
+      walk(item.children);
+    }
+  };
+  walk(items);
+
+  const incoming = new Map<string, GanttDependency[]>();
+  for (const dep of dependencies) {
+    incoming.set(dep.targetId, [...(incoming.get(dep.targetId) ?? []), dep]);
+  }
+
+  const violations: ConstraintViolation[] = [];
+  byId.forEach((item) => {
+    const constraint = item.constraint;
+    if (!constraint || item.type === "phase") return;
+    const date = startOfDay(constraint.date);
+    const start = startOfDay(item.startDate);
+    const end = startOfDay(item.endDate);
+    const base = { itemId: item.id, itemName: item.name, type: constraint.type, date };
+
+    switch (constraint.type) {
+      case "must_start_on": {
+        const required = requiredStart(incoming.get(item.id) ?? [], byId, mask, holidays);
+        if (required && required > date) {
+          const days = workingDayOffset(date, required, mask, holidays);
+          violations.push({ ...base, days, message: `Predecessor runs ${plural(days)} past the fixed start` });
+        } else if (start.getTime() !== date.getTime()) {
+          const days = Math.abs(workingDayOffset(date, start, mask, holidays)) || 1;
+          violations.push({
+            ...base,
+            days,
+            message: `Starts ${plural(days)} ${start > date ? "after" : "before"} its fixed date`,
+          });
+        }
+        break;
+      }
+      case "start_no_earlier_than":
+        if (start < date) {
+          const days = workingDayOffset(start, date, mask, holidays) || 1;
+          violations.push({ ...base, days, message: `Starts ${plural(days)} too early` });
+        }
+        break;
+      case "finish_no_later_than":
+        if (end > date) {
+          const days = workingDayOffset(date, end, mask, holidays) || 1;
+          violations.push({ ...base, days, message: `Finishes ${plural(days)} after the deadline` });
+        }
+        break;
+    }
+  });
+
+  return violations.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
@@ -0,0 +1,239 @@
+// ============================================================================
+// GANTT CRITICAL PATH — Total float per task from the dependency network
+//
+// Backward pass over the scheduled dates: every task's late finish is the
+// latest date it can end without pushing a successor past its own late dates
+// (or the project finish, for tasks with no successors). Total float is the
+// working-day gap between the scheduled end and that late finish.
+//
+// Mirrors propagateDependencyDates in lib/actions/timelines.ts:
+//   FS: target.start >= source.end   + lag
+//   SS: target.start >= source.start + lag
+//   FF: target.end   >= source.end   + lag
+//   SF: target.end   >= source.start + lag
+// with lag and durations counted in working days under the project mask
+// and holiday calendar.
+// ============================================================================
+
+import {
+  type GanttItem,
+  type GanttDependency,
+  addWorkingDays,
+  isFullCalendar,
+  isWorkingDay,
+  workingDaysBetween,
+} from "./gantt-types";
+import type { HolidayDates } from "@/lib/holiday-calendar";
+
+export interface CriticalPathResult {
+  /** Total float in working days — leaf tasks/milestones, plus parent tasks
+   *  rolled up as the minimum float of their children. Phases are excluded. */
+  floatById: Map<string, number>;
+  /** Items with zero (or negative) float — they drive the project finish */
+  criticalIds: Set<string>;
+  /** Dependencies between two critical items whose constraint is binding */
+  criticalDependencyIds: Set<string>;
+  /** Latest scheduled end across the network (null when there are no tasks) */
+  projectFinish: Date | null;
+}
+
+interface NetworkNode {
+  start: Date;
+  end: Date;
+  duration: number; // working days, >= 1
+}
+
+function startOfDay(date: Date): Date {
+  const d = new Date(date);
+  d.setHours(0, 0, 0, 0);
+  return d;
+}
+
+/** Signed number of working-day steps from `from` to `to` — the inverse of
+ *  addWorkingDays, so addWorkingDays(from, offset) lands on `to` (or the
+ *  nearest working day before it). */
+export function workingDayOffset(from: Date, to: Date, mask: number, holidays?: HolidayDates): number {
+  const a = startOfDay(from);
+  const b = startOfDay(to);
+  if (a.getTime() === b.getTime()) return 0;
+  if (isFullCalendar(mask, holidays)) {
+    return Math.round((b.getTime() - a.getTime()) / 86400000);
+  }
+  const direction = b > a ? 1 : -1;
+  let count = 0;
+  const cursor = new Date(a);
+  while (cursor.getTime() !== b.getTime()) {
+    cursor.setDate(cursor.getDate() + direction);
+    if (isWorkingDay(cursor, mask, holidays)) count += direction;
+  }
+  return count;
+}
+
+/** Late finish the source can have without violating one outgoing dependency */
+function lateFinishFor(
+  dep: GanttDependency,
+  source: NetworkNode,
+  targetLateStart: Date,
+  targetLateFinish: Date,
+  mask: number,
+  holidays?: HolidayDates
+): Date {
+  const lag = dep.lagDays || 0;
+  switch (dep.type) {
+    case 0: // FS: source.end <= target.LS - lag
+      return addWorkingDays(targetLateStart, -lag, mask, holidays);
+    case 1: // SS: source.start <= target.LS - lag
+      return addWorkingDays(addWorkingDays(targetLateStart, -lag, mask, holidays), source.duration - 1, mask, holidays);
+    case 2: // FF: source.end <= target.LF - lag
+      return addWorkingDays(targetLateFinish, -lag, mask, holidays);
+    case 3: // SF: source.start <= target.LF - lag
+      return addWorkingDays(addWorkingDays(targetLateFinish, -lag, mask, holidays), source.duration - 1, mask, holidays);
+    default:
+      return targetLateFinish;
+  }
+}
+
+/** Working days between the constraint a dependency puts on its target and
+ *  the target's scheduled date. 0 (or less) means the link is driving. */
+function linkFloat(dep: GanttDependency, source: NetworkNode, target: NetworkNode, mask: number, holidays?: HolidayDates): number {
+  const lag = dep.lagDays || 0;
+  switch (dep.type) {
+    case 0:
+      return workingDayOffset(addWorkingDays(source.end, lag, mask, holidays), target.start, mask, holidays);
+    case 1:
+      return workingDayOffset(addWorkingDays(source.start, lag, mask, holidays), target.start, mask, holidays);
+    case 2:
+      return workingDayOffset(addWorkingDays(source.end, lag, mask, holidays), target.end, mask, holidays);
+    case 3:
+      return workingDayOffset(addWorkingDays(source.start, lag, mask, holidays), target.end, mask, holidays);
+    default:
+      return Infinity;
+  }
+}
+
+/**
+ * Compute total float and the critical path for a Gantt item tree.
+ * Dependencies only connect leaf work items (link mode enforces this), so the
+ * network is built from tasks/milestones without children.
+ */
+export function computeCriticalPath(
+  items: GanttItem[],
+  dependencies: GanttDependency[],
+  mask: number,
+  holidays?: HolidayDates
+): CriticalPathResult {
+  const nodes = new Map<string, NetworkNode>();
+  const parents: GanttItem[] = [];
+
+  const walk = (list: GanttItem[]) => {
+    for (const item of list) {
+      if (item.children.length > 0) {
+        if (item.type !== "phase") parents.push(item);
+        walk(item.children);
+        continue;
+      }
+      if (item.type === "phase") continue;
+      const start = startOfDay(item.startDate);
+      const end = startOfDay(item.endDate);
+      nodes.set(item.id, {
+        start,
+        end,
+        duration: Math.max(1, workingDaysBetween(start, end, mask, holidays)),
+      });
+    }
+  };
+  walk(items);
+
+  const result: CriticalPathResult = {
+    floatById: new Map(),
+    criticalIds: new Set(),
+    criticalDependencyIds: new Set(),
+    projectFinish: null,
+  };
+  if (nodes.size === 0) return result;
+
+  let projectFinish = new Date(0);
+  nodes.forEach((n) => {
+    if (n.end > projectFinish) projectFinish = n.end;
+  });
+  result.projectFinish = projectFinish;
+
+  // Only dependencies between network nodes count
+  const deps = dependencies.filter(
+    (d) => d.sourceId !== d.targetId && nodes.has(d.sourceId) && nodes.has(d.targetId)
+  );
+  const outgoing = new Map<string, GanttDependency[]>();
+  const inDegree = new Map<string, number>();
+  nodes.forEach((_, id) => inDegree.set(id, 0));
+  for (const dep of deps) {
+    const list = outgoing.get(dep.sourceId) || [];
+    list.push(dep);
+    outgoing.set(dep.sourceId, list);
+    inDegree.set(dep.targetId, (inDegree.get(dep.targetId) || 0) + 1);
+  }
+
+  // Kahn's algorithm — items caught in a cycle are appended at the end so
+  // they still get a float value (computed against whatever is resolved).
+  const order: string[] = [];
+  const queue = [...nodes.keys()].filter((id) => inDegree.get(id) === 0);
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    order.push(id);
+    for (const dep of outgoing.get(id) || []) {
+      const deg = (inDegree.get(dep.targetId) || 1) - 1;
+      inDegree.set(dep.targetId, deg);
+      if (deg === 0) queue.push(dep.targetId);
+    }
+  }
+  if (order.length < nodes.size) {
+    const seen = new Set(order);
+    nodes.forEach((_, id) => {
+      if (!seen.has(id)) order.push(id);
+    });
+  }
+
+  // Backward pass — successors before predecessors
+  const lateStart = new Map<string, Date>();
+  const lateFinish = new Map<string, Date>();
+  for (let i = order.length - 1; i >= 0; i--) {
+    const id = order[i];
+    const node = nodes.get(id)!;
+    let lf = projectFinish;
+    for (const dep of outgoing.get(id) || []) {
+      const ls = lateStart.get(dep.targetId);
+      const tf = lateFinish.get(dep.targetId);
+      if (!ls || !tf) continue; // cycle member not resolved yet
+      const candidate = lateFinishFor(dep, node, ls, tf, mask, holidays);
+      if (candidate < lf) lf = candidate;
+    }
+    lateFinish.set(id, lf);
+    lateStart.set(id, addWorkingDays(lf, -(node.duration - 1), mask, holidays));
+
+    const float = workingDayOffset(node.end, lf, mask, holidays);
+    result.floatById.set(id, float);
+    if (float <= 0) result.criticalIds.add(id);
+  }
+
+  for (const dep of deps) {
+    if (!result.criticalIds.has(dep.sourceId) || !result.criticalIds.has(dep.targetId)) continue;
+    const source = nodes.get(dep.sourceId)!;
+    const target = nodes.get(dep.targetId)!;
+    if (linkFloat(dep, source, target, mask, holidays) <= 0) result.criticalDependencyIds.add(dep.id);
+  }
+
+  // Summary tasks take the float of their most critical child. `parents` is
+  // in pre-order, so walk it backwards to resolve nested summaries first.
+  for (let i = parents.length - 1; i >= 0; i--) {
+    const parent = parents[i];
+    let min: number | null = null;
+    for (const child of parent.children) {
+      const f = result.floatById.get(child.id);
+      if (f !== undefined && (min === null || f < min)) min = f;
+    }
+    if (min === null) continue;
+    result.floatById.set(parent.id, min);
+    if (min <= 0) result.criticalIds.add(parent.id);
+  }
+
+  return result;
+}
@@ -6,6 +6,7 @@ import {
   type DependencyType,
   type BarPosition,
   DEPENDENCY_COLORS,
+  CRITICAL_PATH_COLOR,
   ROW_HEIGHT,
   TASK_BAR_HEIGHT,
 } from "./gantt-types";
@@ -21,6 +22,8 @@ interface GanttDependencyArrowsProps {
   containerWidth: number;
   containerHeight: number;
   onDependencyClick?: (dep: GanttDependency) => void;
+  /** Driving dependencies on the critical path — drawn red and thicker */
+  criticalIds?: Set<string>;
 }
 
 const ARROW_SIZE = 5;
@@ -36,6 +39,7 @@ export function GanttDependencyArrows({
   containerWidth,
   containerHeight,
   onDependencyClick,
+  criticalIds,
 }: GanttDependencyArrowsProps) {
   // Pre-compute fan-out index per dependency.
   // Arrows from the same source are sorted by target Y (top to bottom) and
@@ -127,6 +131,20 @@ export function GanttDependencyArrows({
             fill={DEPENDENCY_COLORS[0]}
           />
         </marker>
+        <marker
+          id="gantt-arrow-critical"
+          markerWidth={ARROW_SIZE}
+          markerHeight={ARROW_SIZE}
+          refX={1}
+          refY={ARROW_SIZE / 2}
+          orient="auto"
+          markerUnits="strokeWidth"
+        >
+          <path
+            d={`M0,0 L${ARROW_SIZE},${ARROW_SIZE / 2} L0,${ARROW_SIZE} Z`}
+            fill={CRITICAL_PATH_COLOR}
+          />
+        </marker>
       </defs>
 
       {dependencies.map((dep) => {
@@ -138,7 +156,8 @@ export function GanttDependencyArrows({
         const path = buildPath(dep.type, source, target, offsetIdx, barPositions);
         if (!path) return null;
 
-        const color = DEPENDENCY_COLORS[dep.type];
+        const isCritical = criticalIds?.has(dep.id) ?? false;
+        const color = isCritical ? CRITICAL_PATH_COLOR : DEPENDENCY_COLORS[dep.type];
         const pathLength = estimatePathLength(dep.type, source, target);
 
         return (
@@ -161,10 +180,10 @@ export function GanttDependencyArrows({
               d={path}
               fill="none"
               stroke={color}
-              strokeWidth={1.5}
+              strokeWidth={isCritical ? 2 : 1.5}
               strokeLinecap="round"
               strokeLinejoin="round"
-              markerEnd="url(#gantt-arrow)"
+              markerEnd={isCritical ? "url(#gantt-arrow-critical)" : "url(#gantt-arrow)"}
               className="pointer-events-none gantt-arrow-path gantt-arrow-visible"
               style={{ "--path-length": pathLength } as React.CSSProperties}
             />
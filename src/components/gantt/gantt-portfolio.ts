@@ -0,0 +1,209 @@
+// ============================================================================
+// GANTT PORTFOLIO — Every project's phases and milestones on one canvas
+//
+// Builds the GanttItem tree GanttChart already lays out:
+//   group (client or PM) → project → phase spans + milestones
+// Phase spans are derived from the tasks labelled with each phase, the same
+// way a single project's timeline rolls them up on read. The result is
+// read-only; ids are namespaced so rows from different projects never clash.
+// ============================================================================
+
+import { PHASE_LABELS, PHASE_ORDER, type GanttItem, type PhaseKey } from "./gantt-types";
+
+export type PortfolioGrouping = "client" | "pm";
+
+export interface PortfolioProject {
+  id: string;
+  project_code: string;
+  name: string;
+  status: string;
+  client_name: string | null;
+  /** Assigned users with the PM role */
+  pm_names: string[];
+}
+
+/**
+ * Non-phase gantt_items rows — tasks carrying a phase label, and milestones.
+ * A task row can stand for a pre-aggregated phase span (task_count tasks).
+ */
+export interface PortfolioScheduleItem {
+  id: string;
+  project_id: string;
+  name: string;
+  item_type: string;
+  phase_key: PhaseKey | null;
+  /** yyyy-MM-dd */
+  start_date: string;
+  end_date: string;
+  is_completed: boolean | null;
+  /** Tasks this row spans when rolled up per phase; 1 when omitted */
+  task_count?: number;
+}
+
+export interface PortfolioOptions {
+  grouping: PortfolioGrouping;
+  statuses: string[];
+  /** Show one phase only; milestones without a phase stay visible */
+  phase: PhaseKey | "all";
+  /** Display names for project statuses, shown on project rows */
+  statusLabels?: Record<string, string>;
+  today?: Date;
+}
+
+export interface PortfolioView {
+  items: GanttItem[];
+  projectCount: number;
+  /** Projects that passed the status filter but have nothing to draw */
+  unscheduledCount: number;
+}
+
+const GROUP_COLOR = "#64748b"; // slate-500
+
+const MILESTONE_COLORS = {
+  completed: "#10b981", // emerald-500
+  upcoming: "#3b82f6", // blue-500
+  overdue: "#ef4444", // red-500
+};
+
+function parseDay(value: string): Date {
+  const [y, m, d] = value.slice(0, 10).split("-").map(Number);
+  return new Date(y, m - 1, d);
+}
+
+function span(ranges: { startDate: Date; endDate: Date }[]): { startDate: Date; endDate: Date } {
+  return {
+    startDate: new Date(Math.min(...ranges.map((r) => r.startDate.getTime()))),
+    endDate: new Date(Math.max(...ranges.map((r) => r.endDate.getTime()))),
+  };
+}
+
+function readOnlyRow(
+  row: Pick<GanttItem, "id" | "name" | "type" | "startDate" | "endDate" | "parentId" | "children"> &
+    Partial<GanttItem>
+): GanttItem {
+  return { progress: 0, color: null, priority: 2, isEditable: false, isCompleted: false, ...row };
+}
+
+function groupLabel(project: PortfolioProject, grouping: PortfolioGrouping): string {
+  if (grouping === "client") return project.client_name || "No client";
+  return project.pm_names.length > 0 ? [...project.pm_names].sort().join(", ") : "No PM assigned";
+}
+
+function projectRows(
+  project: PortfolioProject,
+  schedule: PortfolioScheduleItem[],
+  options: PortfolioOptions,
+  today: Date
+): GanttItem[] {
+  const projectId = `project:${project.id}`;
+  const children: GanttItem[] = [];
+
+  for (const phaseKey of PHASE_ORDER) {
+    if (options.phase !== "all" && options.phase !== phaseKey) continue;
+    const tasks = schedule.filter((i) => i.item_type !== "milestone" && i.phase_key === phaseKey);
+    if (tasks.length === 0) continue;
+    const taskCount = tasks.reduce((sum, t) => sum + (t.task_count ?? 1), 0);
+    children.push(
+      readOnlyRow({
+        id: `phase:${project.id}:${phaseKey}`,
+        name: PHASE_LABELS[phaseKey],
+        type: "phase",
+        phaseKey,
+        ...span(tasks.map((t) => ({ startDate: parseDay(t.start_date), endDate: parseDay(t.end_date) }))),
+        status: `${taskCount} task${taskCount !== 1 ? "s" : ""}`,
+        parentId: projectId,
+        children: [],
+      })
+    );
+  }
+
+  const milestones = schedule
+    .filter((i) => i.item_type === "milestone")
+    .filter((i) => options.phase === "all" || !i.phase_key || i.phase_key === options.phase)
+    .sort((a, b) => a.start_date.localeCompare(b.start_date));
+  for (const m of milestones) {
+    const date = parseDay(m.start_date);
+    const overdue = !m.is_completed && date < today;
+    children.push(
+      readOnlyRow({
+        id: m.id,
+        name: m.name,
+        type: "milestone",
+        startDate: date,
+        endDate: date,
+        color: m.is_completed
+          ? MILESTONE_COLORS.completed
+          : overdue
+          ? MILESTONE_COLORS.overdue
+          : MILESTONE_COLORS.upcoming,
+        isCompleted: !!m.is_completed,
+        status: m.is_completed ? "Completed" : overdue ? "Overdue" : "Upcoming",
+        phaseKey: m.phase_key ?? undefined,
+        parentId: projectId,
+        children: [],
+      })
+    );
+  }
+
+  return children;
+}
+
+export function buildPortfolioItems(
+  projects: PortfolioProject[],
+  schedule: PortfolioScheduleItem[],
+  options: PortfolioOptions
+): PortfolioView {
+  const today = new Date(options.today ?? new Date());
+  today.setHours(0, 0, 0, 0);
+  const statuses = new Set(options.statuses);
+  const byProject = new Map<string, PortfolioScheduleItem[]>();
+  for (const item of schedule) {
+    byProject.set(item.project_id, [...(byProject.get(item.project_id) ?? []), item]);
+  }
+
+  const groups = new Map<string, GanttItem[]>();
+  let projectCount = 0;
+  let unscheduledCount = 0;
+  for (const project of projects) {
+    if (!statuses.has(project.status)) continue;
+    const children = projectRows(project, byProject.get(project.id) ?? [], options, today);
+    if (children.length === 0) {
+      unscheduledCount++;
+      continue;
+    }
+    const label = groupLabel(project, options.grouping);
+    groups.set(label, [
+      ...(groups.get(label) ?? []),
+      readOnlyRow({
+        id: `project:${project.id}`,
+        name: `${project.project_code} — ${project.name}`,
+        type: "task",
+        ...span(children),
+        status: options.statusLabels?.[project.status] ?? project.status,
+        parentId: `group:${label}`,
+        children,
+      }),
+    ]);
+    projectCount++;
+  }
+
+  // Named groups alphabetically, the "No client" / "No PM" bucket last
+  const unassigned = options.grouping === "client" ? "No client" : "No PM assigned";
+  const items = [...groups.entries()]
+    .sort(([a], [b]) => (a === unassigned ? 1 : b === unassigned ? -1 : a.localeCompare(b)))
+    .map(([label, rows]) => {
+      const sorted = rows.sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+      return readOnlyRow({
+        id: `group:${label}`,
+        name: label,
+        type: "phase",
+        color: GROUP_COLOR,
+        ...span(sorted),
+        status: `${sorted.length} project${sorted.length !== 1 ? "s" : ""}`,
+        parentId: null,
+        children: sorted,
+      });
+    });
+
+  return { items, projectCount, unscheduledCount };
+}
@@ -0,0 +1,579 @@
+// ============================================================================
+// GANTT PRINT — Static layout of the current view for PDF / PNG export
+//
+// Uses the same rows, columns and date→x mapping as the on-screen timeline,
+// so an export matches the chosen view mode and zoom. The layout is drawn
+// through a small painter interface (jsPDF pages or a canvas); PDF export
+// cuts it into tiles that each repeat the sidebar and the date header.
+// ============================================================================
+
+import {
+  HEADER_HEIGHT,
+  ROW_HEIGHT,
+  TASK_BAR_HEIGHT,
+  calculateBarPosition,
+  dateToX,
+  formatDuration,
+  generateColumns,
+  getWeekNumber,
+  isWorkingDay,
+  type GanttDateRange,
+  type GanttDependency,
+  type GanttRow,
+  type GanttViewMode,
+} from "./gantt-types";
+import type { HolidayDates } from "@/lib/holiday-calendar";
+
+export type GanttExportFormat = "pdf-a3" | "pdf-a4" | "png";
+
+/** Fixed print sidebar: name + start / finish / duration */
+export const PRINT_SIDEBAR_WIDTH = 360;
+const SIDEBAR_DATE_WIDTH = 56;
+const SIDEBAR_DURATION_WIDTH = 40;
+const INDENT = 12;
+const PHASE_BAR_HEIGHT = TASK_BAR_HEIGHT + 6;
+const FONT_SIZE = 10;
+const SMALL_FONT_SIZE = 9;
+
+const COLORS = {
+  text: "#1f2937",
+  muted: "#6b7280",
+  light: "#9ca3af",
+  grid: "#e5e7eb",
+  headerFill: "#f3f4f6",
+  weekend: "#f6f7f9",
+  holiday: "#fdf3e1",
+  today: "#14b8a6",
+  link: "#94a3b8",
+  white: "#ffffff",
+};
+
+export interface GanttPrintOptions {
+  /** Visible rows (collapse + search already applied) */
+  rows: GanttRow[];
+  dependencies: GanttDependency[];
+  dateRange: GanttDateRange;
+  viewMode: GanttViewMode;
+  /** BASE_COLUMN_WIDTHS[viewMode] × zoom */
+  columnWidth: number;
+  showPhases: boolean;
+  showDependencies: boolean;
+  workingDaysMask?: number;
+  holidays?: HolidayDates;
+  today?: Date;
+}
+
+export interface PrintHeaderCell {
+  label: string;
+  x: number;
+  width: number;
+  highlight?: boolean;
+}
+
+export interface PrintBar {
+  kind: "phase" | "task" | "milestone";
+  left: number;
+  width: number;
+  color: string;
+  progress: number;
+  depth: number;
+}
+
+export interface PrintLink {
+  fromRow: number;
+  fromX: number;
+  /** +1 leaves the source to the right, −1 to the left */
+  fromSide: 1 | -1;
+  toRow: number;
+  toX: number;
+  toSide: 1 | -1;
+}
+
+export interface GanttPrintLayout {
+  rows: GanttRow[];
+  /** One entry per row; null when the row draws no bar */
+  bars: (PrintBar | null)[];
+  sidebar: { name: string; start: string; finish: string; duration: string; depth: number; bold: boolean }[];
+  links: PrintLink[];
+  topHeader: PrintHeaderCell[];
+  bottomHeader: PrintHeaderCell[];
+  /** Non-working day columns (day view) and holidays, in timeline px */
+  shaded: { x: number; width: number; color: string }[];
+  columnWidth: number;
+  todayX: number | null;
+  /** Printed extent in timeline px — whole columns around the scheduled work */
+  startX: number;
+  endX: number;
+  /** Row i spans [rowTops[i], rowTops[i + 1]) */
+  rowTops: number[];
+}
+
+export interface GanttPrintTile {
+  x: number;
+  width: number;
+  rowStart: number;
+  /** Exclusive */
+  rowEnd: number;
+  pageRow: number;
+  pageColumn: number;
+}
+
+const MONTH_SHORT = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+const DAY_INITIALS = ["S", "M", "T", "W", "T", "F", "S"];
+
+function shortDate(date: Date): string {
+  return `${date.getDate()} ${MONTH_SHORT[date.getMonth()]}`;
+}
+
+/** Solid equivalent of `color` at `alpha` over white — PDF has no cheap transparency */
+export function tint(color: string, alpha: number): string {
+  const hex = color.replace("#", "");
+  if (!/^[0-9a-f]{6}$/i.test(hex)) return color;
+  const channel = (i: number) => {
+    const value = parseInt(hex.slice(i, i + 2), 16);
+    return Math.round(255 - (255 - value) * alpha)
+      .toString(16)
+      .padStart(2, "0");
+  };
+  return `#${channel(0)}${channel(2)}${channel(4)}`;
+}
+
+/** Consecutive columns sharing a label become one cell */
+function groupCells(columns: { date: Date }[], columnWidth: number, labelOf: (d: Date) => string): PrintHeaderCell[] {
+  const cells: PrintHeaderCell[] = [];
+  columns.forEach((col, i) => {
+    const label = labelOf(col.date);
+    const last = cells[cells.length - 1];
+    if (last && last.label === label) last.width += columnWidth;
+    else cells.push({ label, x: i * columnWidth, width: columnWidth });
+  });
+  return cells;
+}
+
+export function buildGanttPrintLayout(options: GanttPrintOptions): GanttPrintLayout {
+  const { rows, dateRange, viewMode, columnWidth, workingDaysMask, holidays } = options;
+  const columns = generateColumns(dateRange, viewMode);
+  const totalWidth = columns.length * columnWidth;
+  const today = new Date(options.today ?? new Date());
+  today.setHours(12, 0, 0, 0);
+
+  const bars = rows.map((row): PrintBar | null => {
+    if (row.type === "phase" && !options.showPhases) return null;
+    const { left, width } = calculateBarPosition(row.item, dateRange, totalWidth);
+    return {
+      kind: row.type,
+      left,
+      width,
+      color: row.item.color || row.phaseColor,
+      progress: Math.min(Math.max(row.item.progress, 0), 100),
+      depth: row.depth,
+    };
+  });
+
+  const sidebar = rows.map((row) => ({
+    name: row.item.name,
+    start: row.type === "phase" ? "" : shortDate(row.item.startDate),
+    finish: row.type === "phase" ? "" : shortDate(row.item.endDate),
+    duration: row.type === "phase" ? "" : formatDuration(row.item, workingDaysMask ?? 127, holidays),
+    depth: row.depth,
+    bold: row.type === "phase" || row.hasChildren,
+  }));
+
+  const rowIndexById = new Map(rows.map((row, i) => [row.id, i]));
+  const links: PrintLink[] = [];
+  if (options.showDependencies) {
+    for (const dep of options.dependencies) {
+      const fromRow = rowIndexById.get(dep.sourceId);
+      const toRow = rowIndexById.get(dep.targetId);
+      if (fromRow === undefined || toRow === undefined) continue;
+      const from = bars[fromRow];
+      const to = bars[toRow];
+      if (!from || !to) continue;
+      // FS = 0, SS = 1, FF = 2, SF = 3
+      const fromEnd = dep.type === 0 || dep.type === 2;
+      const toEnd = dep.type === 2 || dep.type === 3;
+      links.push({
+        fromRow,
+        fromX: fromEnd ? from.left + from.width : from.left,
+        fromSide: fromEnd ? 1 : -1,
+        toRow,
+        toX: toEnd ? to.left + to.width : to.left,
+        toSide: toEnd ? 1 : -1,
+      });
+    }
+  }
+
+  let topHeader: PrintHeaderCell[];
+  let bottomHeader: PrintHeaderCell[];
+  if (viewMode === "day") {
+    topHeader = groupCells(columns, columnWidth, (d) => `Week ${getWeekNumber(d)} · ${MONTH_SHORT[d.getMonth()]} ${d.getFullYear()}`);
+    bottomHeader = columns.map((col, i) => ({
+      label: `${DAY_INITIALS[col.date.getDay()]} ${col.date.getDate()}`,
+      x: i * columnWidth,
+      width: columnWidth,
+      highlight: col.isToday,
+    }));
+  } else if (viewMode === "week") {
+    topHeader = groupCells(columns, columnWidth, (d) => `${MONTH_SHORT[d.getMonth()]} ${d.getFullYear()}`);
+    bottomHeader = columns.map((col, i) => {
+      const weekEnd = new Date(col.date);
+      weekEnd.setDate(weekEnd.getDate() + 6);
+      return {
+        label: col.label,
+        x: i * columnWidth,
+        width: columnWidth,
+        highlight: today >= col.date && today <= weekEnd,
+      };
+    });
+  } else {
+    topHeader = groupCells(columns, columnWidth, (d) => String(d.getFullYear()));
+    bottomHeader = columns.map((col, i) => ({
+      label: col.label,
+      x: i * columnWidth,
+      width: columnWidth,
+      highlight: col.date.getMonth() === today.getMonth() && col.date.getFullYear() === today.getFullYear(),
+    }));
+  }
+
+  const shaded: GanttPrintLayout["shaded"] = [];
+  if (viewMode === "day") {
+    columns.forEach((col, i) => {
+      const working = workingDaysMask !== undefined ? isWorkingDay(col.date, workingDaysMask) : !col.isWeekend;
+      const holiday = holidays && !isWorkingDay(col.date, 127, holidays);
+      if (holiday) shaded.push({ x: i * columnWidth, width: columnWidth, color: COLORS.holiday });
+      else if (!working) shaded.push({ x: i * columnWidth, width: columnWidth, color: COLORS.weekend });
+    });
+  }
+
+  // Trim the padding the screen adds for scrolling: print whole columns
+  // from the first to the last bar (one spare column each side)
+  const drawn = bars.filter((b): b is PrintBar => b !== null);
+  let startX = 0;
+  let endX = totalWidth;
+  if (drawn.length > 0) {
+    const minLeft = Math.min(...drawn.map((b) => b.left));
+    const maxRight = Math.max(...drawn.map((b) => (b.kind === "milestone" ? b.left : b.left + b.width)));
+    startX = Math.max(0, (Math.floor(minLeft / columnWidth) - 1) * columnWidth);
+    endX = Math.min(totalWidth, (Math.ceil(maxRight / columnWidth) + 1) * columnWidth);
+  }
+
+  const rowTops = [0];
+  rows.forEach((row) => rowTops.push(rowTops[rowTops.length - 1] + row.height));
+
+  const todayX = today >= dateRange.start && today <= dateRange.end ? dateToX(today, dateRange, totalWidth) : null;
+
+  return { rows, bars, sidebar, links, topHeader, bottomHeader, shaded, columnWidth, todayX, startX, endX, rowTops };
+}
+
+/**
+ * Cut the layout into pages: whole columns across, whole rows down. Pages run
+ * left to right through the dates, then down to the next band of rows.
+ */
+export function tileGanttPrintLayout(
+  layout: GanttPrintLayout,
+  timelineWidth: number,
+  bodyHeight: number
+): GanttPrintTile[] {
+  const step = Math.max(1, Math.floor(timelineWidth / layout.columnWidth)) * layout.columnWidth;
+  const xs: number[] = [];
+  for (let x = layout.startX; x < layout.endX; x += step) xs.push(x);
+  if (xs.length === 0) xs.push(layout.startX);
+
+  const bands: [number, number][] = [];
+  let rowStart = 0;
+  while (rowStart < layout.rows.length || bands.length === 0) {
+    let rowEnd = rowStart + 1;
+    while (
+      rowEnd < layout.rows.length &&
+      layout.rowTops[rowEnd + 1] - layout.rowTops[rowStart] <= bodyHeight
+    ) {
+      rowEnd++;
+    }
+    bands.push([rowStart, Math.min(rowEnd, layout.rows.length)]);
+    rowStart = rowEnd;
+  }
+
+  return bands.flatMap(([start, end], pageRow) =>
+    xs.map((x, pageColumn) => ({
+      x,
+      width: Math.min(step, layout.endX - x),
+      rowStart: start,
+      rowEnd: end,
+      pageRow,
+      pageColumn,
+    }))
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Drawing
+// ---------------------------------------------------------------------------
+
+/** Just enough drawing surface for both jsPDF and canvas. Units are layout px. */
+export interface GanttPainter {
+  rect(x: number, y: number, width: number, height: number, fill: string): void;
+  line(x1: number, y1: number, x2: number, y2: number, color: string, width?: number): void;
+  polygon(points: [number, number][], fill: string): void;
+  /** `y` is the vertical middle of the text */
+  text(
+    value: string,
+    x: number,
+    y: number,
+    style: { size: number; color: string; bold?: boolean; italic?: boolean; align?: "left" | "center" | "right" }
+  ): void;
+  measure(value: string, size: number, bold?: boolean): number;
+  clip(x: number, y: number, width: number, height: number, draw: () => void): void;
+}
+
+function fit(painter: GanttPainter, value: string, size: number, maxWidth: number, bold?: boolean): string {
+  if (maxWidth <= 0) return "";
+  if (painter.measure(value, size, bold) <= maxWidth) return value;
+  let text = value;
+  while (text.length > 1 && painter.measure(`${text}…`, size, bold) > maxWidth) text = text.slice(0, -1);
+  return `${text}…`;
+}
+
+/** Pixel size of a drawn tile */
+export function tileSize(layout: GanttPrintLayout, tile: GanttPrintTile): { width: number; height: number } {
+  return {
+    width: PRINT_SIDEBAR_WIDTH + tile.width,
+    height: HEADER_HEIGHT + layout.rowTops[tile.rowEnd] - layout.rowTops[tile.rowStart],
+  };
+}
+
+/** Sidebar + date header + rows of one tile, with its top-left corner at (0, 0) */
+export function drawGanttTile(painter: GanttPainter, layout: GanttPrintLayout, tile: GanttPrintTile): void {
+  const { width, height } = tileSize(layout, tile);
+  const bodyTop = HEADER_HEIGHT;
+  const rowY = (i: number) => bodyTop + layout.rowTops[i] - layout.rowTops[tile.rowStart];
+  const timeX = (x: number) => PRINT_SIDEBAR_WIDTH + x - tile.x;
+  const half = HEADER_HEIGHT / 2;
+
+  painter.rect(0, 0, width, height, COLORS.white);
+
+  // Timeline: backgrounds, grid, bars, links, today — clipped to this tile's dates
+  painter.clip(PRINT_SIDEBAR_WIDTH, 0, tile.width, height, () => {
+    for (const band of layout.shaded) {
+      painter.rect(timeX(band.x), bodyTop, band.width, height - bodyTop, band.color);
+    }
+
+    painter.rect(timeX(tile.x), 0, tile.width, HEADER_HEIGHT, COLORS.headerFill);
+    for (const cell of layout.topHeader) {
+      painter.line(timeX(cell.x), 0, timeX(cell.x), half, COLORS.grid);
+      // Keep group labels readable when the group started on an earlier page
+      const labelX = Math.max(timeX(cell.x), PRINT_SIDEBAR_WIDTH);
+      const labelWidth = timeX(cell.x + cell.width) - labelX - 8;
+      painter.text(fit(painter, cell.label, SMALL_FONT_SIZE, labelWidth), labelX + 4, half / 2, {
+        size: SMALL_FONT_SIZE,
+        color: COLORS.muted,
+        bold: true,
+      });
+    }
+    for (const cell of layout.bottomHeader) {
+      painter.line(timeX(cell.x), half, timeX(cell.x), height, COLORS.grid, 0.5);
+      painter.text(fit(painter, cell.label, SMALL_FONT_SIZE, cell.width - 4), timeX(cell.x + cell.width / 2), half * 1.5, {
+        size: SMALL_FONT_SIZE,
+        color: cell.highlight ? COLORS.today : COLORS.muted,
+        bold: cell.highlight,
+        align: "center",
+      });
+    }
+    painter.line(timeX(tile.x), half, timeX(tile.x + tile.width), half, COLORS.grid);
+
+    for (let i = tile.rowStart; i < tile.rowEnd; i++) {
+      const bar = layout.bars[i];
+      if (!bar) continue;
+      const top = rowY(i);
+      if (bar.kind === "milestone") {
+        const cx = timeX(bar.left);
+        const cy = top + ROW_HEIGHT / 2;
+        painter.polygon([[cx, cy - 6], [cx + 6, cy], [cx, cy + 6], [cx - 6, cy]], bar.color);
+        painter.text(layout.rows[i].item.name, cx + 10, cy, {
+          size: SMALL_FONT_SIZE,
+          color: bar.color,
+          italic: true,
+        });
+      } else if (bar.kind === "phase") {
+        const barTop = top + (ROW_HEIGHT - PHASE_BAR_HEIGHT) / 2;
+        painter.rect(timeX(bar.left), barTop, bar.width, PHASE_BAR_HEIGHT, tint(bar.color, 0.9));
+        if (bar.width > 120) {
+          painter.text(
+            fit(painter, layout.rows[i].item.name.toUpperCase(), SMALL_FONT_SIZE, bar.width - 8, true),
+            timeX(bar.left + bar.width / 2),
+            top + ROW_HEIGHT / 2,
+            { size: SMALL_FONT_SIZE, color: COLORS.white, bold: true, align: "center" }
+          );
+        }
+      } else {
+        // Same depth fades as the on-screen bar
+        const [background, fill] = bar.depth === 0 ? [0.44, 0.8] : bar.depth === 1 ? [0.31, 0.56] : [0.21, 0.44];
+        const barTop = top + (ROW_HEIGHT - TASK_BAR_HEIGHT) / 2;
+        painter.rect(timeX(bar.left), barTop, bar.width, TASK_BAR_HEIGHT, tint(bar.color, background));
+        if (bar.progress > 0) {
+          painter.rect(timeX(bar.left), barTop, (bar.width * bar.progress) / 100, TASK_BAR_HEIGHT, tint(bar.color, fill));
+        }
+      }
+    }
+
+    for (const link of layout.links) {
+      const inTile = (row: number) => row >= tile.rowStart && row < tile.rowEnd;
+      if (!inTile(link.fromRow) && !inTile(link.toRow)) continue;
+      const y1 = rowY(link.fromRow) + ROW_HEIGHT / 2;
+      const y2 = rowY(link.toRow) + ROW_HEIGHT / 2;
+      const x1 = timeX(link.fromX);
+      const x2 = timeX(link.toX);
+      const elbow = x1 + link.fromSide * 6;
+      const approach = x2 + link.toSide * 6;
+      painter.line(x1, y1, elbow, y1, COLORS.link);
+      painter.line(elbow, y1, elbow, y2, COLORS.link);
+      painter.line(elbow, y2, approach, y2, COLORS.link);
+      painter.line(approach, y2, x2, y2, COLORS.link);
+      const tip = x2;
+      const back = x2 + link.toSide * 5;
+      painter.polygon([[tip, y2], [back, y2 - 3], [back, y2 + 3]], COLORS.link);
+    }
+
+    if (layout.todayX !== null) {
+      painter.rect(timeX(layout.todayX) - 1, bodyTop, 2, height - bodyTop, COLORS.today);
+    }
+  });
+
+  // Sidebar — repeated on every tile
+  painter.rect(0, 0, PRINT_SIDEBAR_WIDTH, HEADER_HEIGHT, COLORS.headerFill);
+  const nameWidth = PRINT_SIDEBAR_WIDTH - SIDEBAR_DATE_WIDTH * 2 - SIDEBAR_DURATION_WIDTH;
+  const columnsX = [nameWidth, nameWidth + SIDEBAR_DATE_WIDTH, nameWidth + SIDEBAR_DATE_WIDTH * 2];
+  const headerStyle = { size: SMALL_FONT_SIZE, color: COLORS.muted, bold: true };
+  painter.text("Task", 8, HEADER_HEIGHT / 2, headerStyle);
+  painter.text("Start", columnsX[0] + 4, HEADER_HEIGHT / 2, headerStyle);
+  painter.text("Finish", columnsX[1] + 4, HEADER_HEIGHT / 2, headerStyle);
+  painter.text("Dur.", columnsX[2] + 4, HEADER_HEIGHT / 2, headerStyle);
+
+  for (let i = tile.rowStart; i < tile.rowEnd; i++) {
+    const cell = layout.sidebar[i];
+    const mid = rowY(i) + ROW_HEIGHT / 2;
+    const indent = 8 + Math.min(cell.depth, 6) * INDENT;
+    painter.text(fit(painter, cell.name, FONT_SIZE, nameWidth - indent - 6, cell.bold), indent, mid, {
+      size: FONT_SIZE,
+      color: COLORS.text,
+      bold: cell.bold,
+    });
+    const detail = { size: SMALL_FONT_SIZE, color: COLORS.muted };
+    painter.text(cell.start, columnsX[0] + 4, mid, detail);
+    painter.text(cell.finish, columnsX[1] + 4, mid, detail);
+    painter.text(cell.duration, columnsX[2] + 4, mid, detail);
+  }
+
+  // Row and frame lines over both panes
+  for (let i = tile.rowStart; i < tile.rowEnd; i++) {
+    painter.line(0, rowY(i + 1), width, rowY(i + 1), COLORS.grid, 0.5);
+  }
+  painter.line(0, HEADER_HEIGHT, width, HEADER_HEIGHT, COLORS.grid);
+  painter.line(PRINT_SIDEBAR_WIDTH, 0, PRINT_SIDEBAR_WIDTH, height, COLORS.light);
+  painter.line(0, 0, width, 0, COLORS.grid);
+  painter.line(0, height, width, height, COLORS.grid);
+  painter.line(0, 0, 0, height, COLORS.grid);
+  painter.line(width, 0, width, height, COLORS.grid);
+}
+
+// ---------------------------------------------------------------------------
+// PNG — the whole printed extent as one image
+// ---------------------------------------------------------------------------
+
+/** Browsers refuse canvases much beyond this on a side */
+const MAX_CANVAS_SIDE = 16000;
+const PNG_TITLE_HEIGHT = 36;
+
+async function renderGanttPng(layout: GanttPrintLayout, title: string): Promise<Blob> {
+  const tile: GanttPrintTile = {
+    x: layout.startX,
+    width: layout.endX - layout.startX,
+    rowStart: 0,
+    rowEnd: layout.rows.length,
+    pageRow: 0,
+    pageColumn: 0,
+  };
+  const size = tileSize(layout, tile);
+  const height = size.height + PNG_TITLE_HEIGHT;
+  const ratio = Math.min(2, MAX_CANVAS_SIDE / Math.max(size.width, height));
+  if (ratio < 1) {
+    throw new Error("The chart is too large for a single image — zoom out, collapse rows, or export a PDF");
+  }
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.ceil(size.width * ratio);
+  canvas.height = Math.ceil(height * ratio);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not available in this browser");
+  ctx.scale(ratio, ratio);
+
+  const font = (size: number, bold?: boolean, italic?: boolean) =>
+    `${italic ? "italic " : ""}${bold ? "600 " : ""}${size}px ui-sans-serif, system-ui, sans-serif`;
+  const painter: GanttPainter = {
+    rect(x, y, w, h, fill) {
+      ctx.fillStyle = fill;
+      ctx.fillRect(x, y, w, h);
+    },
+    line(x1, y1, x2, y2, color, width = 1) {
+      ctx.strokeStyle = color;
+      ctx.lineWidth = width;
+      ctx.beginPath();
+      ctx.moveTo(x1, y1);
+      ctx.lineTo(x2, y2);
+      ctx.stroke();
+    },
+    polygon(points, fill) {
+      ctx.fillStyle = fill;
+      ctx.beginPath();
+      points.forEach(([x, y], i) => (i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y)));
+      ctx.closePath();
+      ctx.fill();
+    },
+    text(value, x, y, style) {
+      ctx.font = font(style.size, style.bold, style.italic);
+      ctx.fillStyle = style.color;
+      ctx.textAlign = style.align ?? "left";
+      ctx.textBaseline = "middle";
+      ctx.fillText(value, x, y);
+    },
+    measure(value, size, bold) {
+      ctx.font = font(size, bold);
+      return ctx.measureText(value).width;
+    },
+    clip(x, y, w, h, draw) {
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(x, y, w, h);
+      ctx.clip();
+      draw();
+      ctx.restore();
+    },
+  };
+
+  painter.rect(0, 0, size.width, PNG_TITLE_HEIGHT, COLORS.white);
+  painter.text(title, 8, PNG_TITLE_HEIGHT / 2, { size: 14, color: COLORS.text, bold: true });
+  ctx.translate(0, PNG_TITLE_HEIGHT);
+  drawGanttTile(painter, layout, tile);
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Failed to encode the image"))), "image/png")
+  );
+}
+
+/** Render the whole chart to one PNG and trigger the browser download */
+export async function downloadGanttPng(layout: GanttPrintLayout, title: string, fileName: string): Promise<boolean> {
+  try {
+    const blob = await renderGanttPng(layout, title);
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+    return true;
+  } catch (error) {
+    console.error("Error generating Gantt PNG:", error);
+    return false;
+  }
+}
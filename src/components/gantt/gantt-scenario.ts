@@ -0,0 +1,298 @@
+// ============================================================================
+// GANTT SCENARIOS — What-if drafts of the schedule
+//
+// A scenario is a client-side copy of the project's items and dependencies.
+// Edits re-run the same dependency propagation the server applies after a
+// save (tightest constraint wins, working-day duration kept), then parent
+// tasks and phases re-derive their span from their children, so the draft
+// shows what the live schedule would become. Shifts are counted in working
+// days: positive = later than live.
+// ============================================================================
+
+import { addWorkingDays, workingDaysBetween } from "./gantt-types";
+import { workingDayOffset } from "./gantt-critical-path";
+import type { HolidayDates } from "@/lib/holiday-calendar";
+
+/** The stored columns a scenario edits (matches gantt_items rows) */
+export interface ScenarioItem {
+  id: string;
+  name: string;
+  item_type: string;
+  parent_id: string | null;
+  phase_key?: string | null;
+  /** yyyy-MM-dd */
+  start_date: string;
+  /** yyyy-MM-dd (inclusive) */
+  end_date: string;
+  /** Start rules are honoured the same way the live propagation does */
+  constraint_type?: string | null;
+  constraint_date?: string | null;
+}
+
+/** Matches gantt_dependencies rows */
+export interface ScenarioDependency {
+  id: string;
+  source_id: string;
+  target_id: string;
+  dependency_type: number;
+  lag_days: number;
+}
+
+export interface ScenarioItemChange {
+  id: string;
+  name: string;
+  liveStart: Date;
+  liveEnd: Date;
+  draftStart: Date;
+  draftEnd: Date;
+  startShift: number;
+  finishShift: number;
+  /** Date stored on the row — false for parents/phases, whose span is derived */
+  stored: boolean;
+}
+
+export interface ScenarioDependencyChange {
+  id: string;
+  sourceName: string;
+  targetName: string;
+  from: { type: number; lagDays: number };
+  to: { type: number; lagDays: number };
+}
+
+export interface ScenarioMilestone {
+  /** "Installation" milestone name, or "Installation finish" when derived from phase tasks */
+  label: string;
+  live: Date | null;
+  draft: Date | null;
+  shift: number | null;
+}
+
+export interface ScenarioDiff {
+  items: ScenarioItemChange[];
+  dependencies: ScenarioDependencyChange[];
+  installation: ScenarioMilestone | null;
+  liveFinish: Date | null;
+  draftFinish: Date | null;
+  finishShift: number | null;
+}
+
+function parseDay(value: string): Date {
+  const [y, m, d] = value.slice(0, 10).split("-").map(Number);
+  return new Date(y, m - 1, d);
+}
+
+function formatDay(date: Date): string {
+  const m = String(date.getMonth() + 1).padStart(2, "0");
+  const d = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${m}-${d}`;
+}
+
+/** Sources before targets; items caught in a cycle keep their position at the end */
+function topologicalOrder(ids: string[], dependencies: ScenarioDependency[]): string[] {
+  const inDegree = new Map(ids.map((id) => [id, 0]));
+  const outgoing = new Map<string, string[]>();
+  for (const dep of dependencies) {
+    if (!inDegree.has(dep.source_id) || !inDegree.has(dep.target_id)) continue;
+    inDegree.set(dep.target_id, inDegree.get(dep.target_id)! + 1);
+    outgoing.set(dep.source_id, [...(outgoing.get(dep.source_id) ?? []), dep.target_id]);
+  }
+  const queue = ids.filter((id) => inDegree.get(id) === 0);
+  const order: string[] = [];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    order.push(id);
+    for (const target of outgoing.get(id) ?? []) {
+      const remaining = inDegree.get(target)! - 1;
+      inDegree.set(target, remaining);
+      if (remaining === 0) queue.push(target);
+    }
+  }
+  const placed = new Set(order);
+  return [...order, ...ids.filter((id) => !placed.has(id))];
+}
+
+/**
+ * Re-derive draft dates after an edit: dependency targets snap to their
+ * tightest constraint, then parents and phases span their children.
+ * Returns new objects only for rows whose dates changed.
+ */
+export function propagateScenario<T extends ScenarioItem>(
+  items: T[],
+  dependencies: ScenarioDependency[],
+  mask: number,
+  holidays?: HolidayDates
+): T[] {
+  const dates = new Map(items.map((i) => [i.id, { start: parseDay(i.start_date), end: parseDay(i.end_date) }]));
+  const byId = new Map(items.map((i) => [i.id, i]));
+  const incoming = new Map<string, ScenarioDependency[]>();
+  for (const dep of dependencies) {
+    incoming.set(dep.target_id, [...(incoming.get(dep.target_id) ?? []), dep]);
+  }
+
+  for (const id of topologicalOrder(items.map((i) => i.id), dependencies)) {
+    const item = byId.get(id)!;
+    const deps = incoming.get(id) ?? [];
+    const pinned =
+      item.constraint_date && (item.constraint_type === "must_start_on" || item.constraint_type === "start_no_earlier_than")
+        ? parseDay(item.constraint_date)
+        : null;
+    if (item.item_type === "phase" || (deps.length === 0 && !pinned)) continue;
+
+    const current = dates.get(id)!;
+    const duration = Math.max(1, workingDaysBetween(current.start, current.end, mask, holidays));
+    let tightestStart: Date | null = null;
+    let tightestEnd: Date | null = null;
+    for (const dep of deps) {
+      const source = dates.get(dep.source_id);
+      if (!source) continue;
+      const anchor = dep.dependency_type === 0 || dep.dependency_type === 2 ? source.end : source.start;
+      const constraint = addWorkingDays(anchor, dep.lag_days, mask, holidays);
+      if (dep.dependency_type <= 1) {
+        if (!tightestStart || constraint > tightestStart) tightestStart = constraint;
+      } else if (!tightestEnd || constraint > tightestEnd) {
+        tightestEnd = constraint;
+      }
+    }
+    if (tightestStart) {
+      dates.set(id, { start: tightestStart, end: addWorkingDays(tightestStart, duration - 1, mask, holidays) });
+    } else if (tightestEnd) {
+      dates.set(id, { start: addWorkingDays(tightestEnd, -(duration - 1), mask, holidays), end: tightestEnd });
+    }
+    if (pinned && (item.constraint_type === "must_start_on" || dates.get(id)!.start < pinned)) {
+      dates.set(id, { start: pinned, end: addWorkingDays(pinned, duration - 1, mask, holidays) });
+    }
+  }
+
+  // Parents span their children (deepest first); phases span their labelled tasks
+  const children = new Map<string, string[]>();
+  for (const item of items) {
+    if (item.parent_id && byId.has(item.parent_id)) {
+      children.set(item.parent_id, [...(children.get(item.parent_id) ?? []), item.id]);
+    }
+  }
+  const rollUp = (id: string, seen: Set<string>): void => {
+    const kids = children.get(id);
+    if (!kids || seen.has(id)) return;
+    seen.add(id);
+    kids.forEach((kid) => rollUp(kid, seen));
+    const spans = kids.map((kid) => dates.get(kid)!);
+    dates.set(id, {
+      start: new Date(Math.min(...spans.map((s) => s.start.getTime()))),
+      end: new Date(Math.max(...spans.map((s) => s.end.getTime()))),
+    });
+  };
+  const seen = new Set<string>();
+  items.forEach((item) => item.item_type !== "phase" && rollUp(item.id, seen));
+  for (const phase of items.filter((i) => i.item_type === "phase" && i.phase_key)) {
+    const spans = items
+      .filter((i) => i.item_type !== "phase" && i.phase_key === phase.phase_key)
+      .map((i) => dates.get(i.id)!);
+    if (spans.length === 0) continue;
+    dates.set(phase.id, {
+      start: new Date(Math.min(...spans.map((s) => s.start.getTime()))),
+      end: new Date(Math.max(...spans.map((s) => s.end.getTime()))),
+    });
+  }
+
+  return items.map((item) => {
+    const next = dates.get(item.id)!;
+    const start = formatDay(next.start);
+    const end = formatDay(next.end);
+    return start === item.start_date.slice(0, 10) && end === item.end_date.slice(0, 10)
+      ? item
+      : { ...item, start_date: start, end_date: end };
+  });
+}
+
+function latest(dates: Date[]): Date | null {
+  return dates.length === 0 ? null : dates.reduce((max, d) => (d > max ? d : max));
+}
+
+/** The date clients ask about: an "install…" milestone, else the end of installation-phase work */
+function installationDate(items: ScenarioItem[]): { label: string; date: Date } | null {
+  const milestone = items
+    .filter((i) => i.item_type === "milestone" && /install|montaj/i.test(i.name))
+    .sort((a, b) => b.end_date.localeCompare(a.end_date))[0];
+  if (milestone) return { label: milestone.name, date: parseDay(milestone.end_date) };
+  const finish = latest(
+    items.filter((i) => i.item_type !== "phase" && i.phase_key === "installation").map((i) => parseDay(i.end_date))
+  );
+  return finish ? { label: "Installation finish", date: finish } : null;
+}
+
+export function diffScenario(
+  live: ScenarioItem[],
+  draft: ScenarioItem[],
+  liveDependencies: ScenarioDependency[],
+  draftDependencies: ScenarioDependency[],
+  mask: number,
+  holidays?: HolidayDates
+): ScenarioDiff {
+  const liveById = new Map(live.map((i) => [i.id, i]));
+  const derived = new Set(draft.filter((i) => i.item_type === "phase").map((i) => i.id));
+  draft.forEach((i) => i.parent_id && derived.add(i.parent_id));
+
+  const items: ScenarioItemChange[] = [];
+  for (const item of draft) {
+    const before = liveById.get(item.id);
+    if (!before || (before.start_date === item.start_date && before.end_date === item.end_date)) continue;
+    const liveStart = parseDay(before.start_date);
+    const liveEnd = parseDay(before.end_date);
+    const draftStart = parseDay(item.start_date);
+    const draftEnd = parseDay(item.end_date);
+    items.push({
+      id: item.id,
+      name: item.name,
+      liveStart,
+      liveEnd,
+      draftStart,
+      draftEnd,
+      startShift: workingDayOffset(liveStart, draftStart, mask, holidays),
+      finishShift: workingDayOffset(liveEnd, draftEnd, mask, holidays),
+      stored: !derived.has(item.id),
+    });
+  }
+
+  const liveDeps = new Map(liveDependencies.map((d) => [d.id, d]));
+  const dependencies: ScenarioDependencyChange[] = [];
+  for (const dep of draftDependencies) {
+    const before = liveDeps.get(dep.id);
+    if (!before || (before.dependency_type === dep.dependency_type && before.lag_days === dep.lag_days)) continue;
+    dependencies.push({
+      id: dep.id,
+      sourceName: liveById.get(dep.source_id)?.name ?? "?",
+      targetName: liveById.get(dep.target_id)?.name ?? "?",
+      from: { type: before.dependency_type, lagDays: before.lag_days },
+      to: { type: dep.dependency_type, lagDays: dep.lag_days },
+    });
+  }
+
+  const liveInstall = installationDate(live);
+  const draftInstall = installationDate(draft);
+  const installation =
+    liveInstall || draftInstall
+      ? {
+          label: (draftInstall ?? liveInstall)!.label,
+          live: liveInstall?.date ?? null,
+          draft: draftInstall?.date ?? null,
+          shift:
+            liveInstall && draftInstall
+              ? workingDayOffset(liveInstall.date, draftInstall.date, mask, holidays)
+              : null,
+        }
+      : null;
+
+  const finishOf = (list: ScenarioItem[]) =>
+    latest(list.filter((i) => i.item_type !== "phase").map((i) => parseDay(i.end_date)));
+  const liveFinish = finishOf(live);
+  const draftFinish = finishOf(draft);
+
+  return {
+    items,
+    dependencies,
+    installation,
+    liveFinish,
+    draftFinish,
+    finishShift: liveFinish && draftFinish ? workingDayOffset(liveFinish, draftFinish, mask, holidays) : null,
+  };
+}
@@ -15,7 +15,10 @@ import {
   HEADER_HEIGHT,
   totalRowsHeight,
 } from "./gantt-types";
+import type { HolidayDates } from "@/lib/holiday-calendar";
 import { GanttContextMenu } from "./gantt-context-menu";
+import type { GanttCollaborator } from "./use-gantt-state";
+import { viewerColor, viewerInitials } from "@/hooks/use-project-viewers";
 import {
   ContextMenu,
   ContextMenuContent,
@@ -53,6 +56,10 @@ interface GanttSidebarProps {
   onAddMilestone?: () => void;
   /** Working-days bitmask for duration labels. Falls back to all-days (127). */
   workingDaysMask?: number;
+  /** Non-working holiday dates, excluded from duration labels */
+  holidays?: HolidayDates;
+  /** Other people with a row open in their edit dialog, by item id */
+  editorsById?: Map<string, GanttCollaborator[]>;
   className?: string;
 }
 
@@ -77,6 +84,8 @@ export function GanttSidebar({
   linkMode,
   linkSourceId,
   workingDaysMask,
+  holidays,
+  editorsById,
   className,
 }: GanttSidebarProps) {
   const contentHeight = totalRowsHeight(rows);
@@ -165,6 +174,8 @@ export function GanttSidebar({
                     isLinkSource={linkMode && linkSourceId === row.id}
                     sidebarWidth={width}
                     workingDaysMask={workingDaysMask}
+                    holidays={holidays}
+                    editors={editorsById?.get(row.id)}
                   />
                 </GanttContextMenu>
               ))}
@@ -215,6 +226,8 @@ function SidebarRow({
   isLinkSource,
   sidebarWidth,
   workingDaysMask,
+  holidays,
+  editors,
 }: {
   row: GanttRow;
   isSelected: boolean;
@@ -225,6 +238,8 @@ function SidebarRow({
   isLinkSource?: boolean;
   sidebarWidth: number;
   workingDaysMask?: number;
+  holidays?: HolidayDates;
+  editors?: GanttCollaborator[];
 }) {
   const { item, depth, hasChildren, isCollapsed, phaseColor, type } = row;
   const isPhase = type === "phase";
@@ -340,6 +355,24 @@ function SidebarRow({
         {item.name}
       </span>
 
+      {/* Someone else has this row open for editing */}
+      {editors && editors.length > 0 && (
+        <span
+          className="flex -space-x-1 shrink-0 pr-1"
+          title={`${editors.map((e) => e.name).join(", ")} editing`}
+        >
+          {editors.slice(0, 2).map((editor) => (
+            <span
+              key={editor.userId}
+              className="size-4 rounded-full ring-1 ring-background flex items-center justify-center text-[8px] font-semibold text-white"
+              style={{ backgroundColor: viewerColor(editor.userId) }}
+            >
+              {viewerInitials(editor.name)}
+            </span>
+          ))}
+        </span>
+      )}
+
       {/* Start date */}
       {sidebarWidth >= 300 && (
         <span className="w-[68px] px-2 text-center text-[10px] tabular-nums shrink-0 text-muted-foreground border-l border-border/30">
@@ -361,7 +394,7 @@ function SidebarRow({
           isPhase ? "font-semibold text-green-600" : "text-muted-foreground"
         )}
       >
-        {formatDuration(item, workingDaysMask ?? 127)}
+        {formatDuration(item, workingDaysMask ?? 127, holidays)}
       </span>
     </div>
   );
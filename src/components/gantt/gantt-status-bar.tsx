@@ -1,7 +1,10 @@
 "use client";
 
+import { AlertTriangleIcon } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import type { GanttStats } from "./gantt-types";
+import { CONSTRAINT_SHORT_LABELS, type ConstraintViolation } from "./gantt-constraints";
 
 // ============================================================================
 // GANTT STATUS BAR — Bottom 34px summary strip
@@ -10,10 +13,14 @@ import type { GanttStats } from "./gantt-types";
 
 interface GanttStatusBarProps {
   stats: GanttStats;
+  /** Zero-float items — shown while the critical-path toggle is on */
+  criticalCount?: number;
+  /** Broken date constraints — listed in a popover when there are any */
+  violations?: ConstraintViolation[];
   className?: string;
 }
 
-export function GanttStatusBar({ stats, className }: GanttStatusBarProps) {
+export function GanttStatusBar({ stats, criticalCount, violations = [], className }: GanttStatusBarProps) {
   const { total, completed, milestones, avgProgress } = stats;
 
   return (
@@ -30,7 +37,19 @@ export function GanttStatusBar({ stats, className }: GanttStatusBarProps) {
         <Sep />
         <span>{milestones} milestones</span>
         <Sep />
+        {criticalCount !== undefined && (
+          <>
+            <span className="text-red-500">{criticalCount} critical</span>
+            <Sep />
+          </>
+        )}
         <span>{avgProgress}% average progress</span>
+        {violations.length > 0 && (
+          <>
+            <Sep />
+            <ViolationList violations={violations} />
+          </>
+        )}
       </div>
       <div className="flex items-center gap-0 text-muted-foreground/60">
         <span>Auto-saved</span>
@@ -41,6 +60,36 @@ export function GanttStatusBar({ stats, className }: GanttStatusBarProps) {
   );
 }
 
+function ViolationList({ violations }: { violations: ConstraintViolation[] }) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button className="inline-flex items-center gap-1 text-red-500 hover:underline">
+          <AlertTriangleIcon className="size-3" />
+          {violations.length} constraint violation{violations.length !== 1 ? "s" : ""}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent side="top" align="start" className="w-80 p-0">
+        <div className="px-3 py-2 border-b text-xs font-medium">Date constraints not met</div>
+        <ul className="max-h-64 overflow-y-auto divide-y">
+          {violations.map((v) => (
+            <li key={v.itemId} className="px-3 py-2 text-xs space-y-0.5">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium truncate">{v.itemName}</span>
+                <span className="shrink-0 text-muted-foreground">
+                  {CONSTRAINT_SHORT_LABELS[v.type]}{" "}
+                  {v.date.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })}
+                </span>
+              </div>
+              <p className="text-red-500">{v.message}</p>
+            </li>
+          ))}
+        </ul>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
 function Sep() {
   return <span className="mx-3" />;
 }
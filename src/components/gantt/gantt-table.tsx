@@ -9,11 +9,14 @@ import {
   daysBetween,
   PHASE_COLORS,
 } from "./gantt-types";
+import type { HolidayDates } from "@/lib/holiday-calendar";
+import { type BaselineVariance, formatVariance } from "./gantt-baseline";
 import { ChevronRightIcon } from "lucide-react";
 
 // ============================================================================
 // GANTT TABLE — Spreadsheet view matching Figma Table View frame
-// Columns: checkbox | Task | Start | End | Duration | Progress | Status | Category | Description
+// Columns: checkbox | Task | Start | End | Duration | Float | [Start Var. | Finish Var.] | Progress | Status | Category | Description
+// Variance columns only appear while a baseline is active
 // Phase rows: 3px left accent bar, bold name, task count, date range + progress
 // ============================================================================
 
@@ -25,6 +28,15 @@ interface GanttTableProps {
   onDoubleClickItem: (item: GanttItem) => void;
   /** Working-days bitmask for duration column. Falls back to all-days (127). */
   workingDaysMask?: number;
+  /** Non-working holiday dates, excluded from the duration column */
+  holidays?: HolidayDates;
+  /** Total float (working days) per item from computeCriticalPath */
+  floatById?: Map<string, number>;
+  /** Highlight zero-float rows (critical-path toggle) */
+  showCriticalPath?: boolean;
+  /** Start/finish variance against the active baseline. Undefined = no baseline;
+   *  an item missing from the map was added after the baseline was saved. */
+  baselineVariance?: Map<string, BaselineVariance>;
   className?: string;
 }
 
@@ -35,11 +47,22 @@ export function GanttTable({
   onSelectItem,
   onDoubleClickItem,
   workingDaysMask,
+  holidays,
+  floatById,
+  showCriticalPath,
+  baselineVariance,
   className,
 }: GanttTableProps) {
+  const showVariance = baselineVariance !== undefined;
+
   return (
     <div className={cn("flex-1 overflow-auto", className)}>
-      <table className="w-full text-[11px] border-collapse min-w-[1100px]">
+      <table
+        className={cn(
+          "w-full text-[11px] border-collapse",
+          showVariance ? "min-w-[1330px]" : "min-w-[1170px]"
+        )}
+      >
         <thead className="sticky top-0 z-10 bg-muted/30">
           <tr className="border-b text-[11px] font-semibold text-muted-foreground h-[30px]">
             <th className="w-[30px] px-2 border-r border-border/30" />
@@ -47,6 +70,28 @@ export function GanttTable({
             <th className="text-left px-3 w-[110px] border-r border-border/30">Start Date</th>
             <th className="text-left px-3 w-[110px] border-r border-border/30">End Date</th>
             <th className="text-left px-3 w-[70px] border-r border-border/30">Duration</th>
+            <th
+              className="text-left px-3 w-[70px] border-r border-border/30"
+              title="Total float — working days a task can slip before it delays the finish"
+            >
+              Float
+            </th>
+            {showVariance && (
+              <>
+                <th
+                  className="text-left px-3 w-[80px] border-r border-border/30"
+                  title="Working days the start has moved since the baseline (+ later, − earlier)"
+                >
+                  Start Var.
+                </th>
+                <th
+                  className="text-left px-3 w-[80px] border-r border-border/30"
+                  title="Working days the finish has moved since the baseline (+ later, − earlier)"
+                >
+                  Finish Var.
+                </th>
+              </>
+            )}
             <th className="text-left px-3 w-[80px] border-r border-border/30">Progress</th>
             <th className="text-left px-3 w-[90px] border-r border-border/30">Status</th>
             <th className="text-left px-3 w-[120px] border-r border-border/30">Category</th>
@@ -63,6 +108,7 @@ export function GanttTable({
                 onToggleCollapse={onToggleCollapse}
                 onSelect={onSelectItem}
                 onDoubleClick={onDoubleClickItem}
+                showVariance={showVariance}
               />
             ) : (
               <TaskRow
@@ -72,6 +118,11 @@ export function GanttTable({
                 onSelect={onSelectItem}
                 onDoubleClick={onDoubleClickItem}
                 workingDaysMask={workingDaysMask}
+                holidays={holidays}
+                totalFloat={floatById?.get(row.id)}
+                showCriticalPath={showCriticalPath}
+                showVariance={showVariance}
+                variance={baselineVariance?.get(row.id)}
               />
             )
           )}
@@ -91,12 +142,14 @@ function PhaseRow({
   onToggleCollapse,
   onSelect,
   onDoubleClick,
+  showVariance,
 }: {
   row: GanttRow;
   isSelected: boolean;
   onToggleCollapse: (id: string) => void;
   onSelect: (id: string, e: React.MouseEvent) => void;
   onDoubleClick: (item: GanttItem) => void;
+  showVariance?: boolean;
 }) {
   const { item, phaseColor, hasChildren, isCollapsed } = row;
   const childCount = item.children.length;
@@ -151,7 +204,7 @@ function PhaseRow({
       </td>
 
       {/* Date range + progress on right */}
-      <td className="px-3 text-right" colSpan={4}>
+      <td className="px-3 text-right" colSpan={showVariance ? 7 : 5}>
         <div className="flex items-center justify-end gap-3">
           <span className="text-[10px] text-muted-foreground">{dateRange}</span>
           <div className="flex items-center gap-1.5">
@@ -181,17 +234,28 @@ function TaskRow({
   onSelect,
   onDoubleClick,
   workingDaysMask,
+  holidays,
+  totalFloat,
+  showCriticalPath,
+  showVariance,
+  variance,
 }: {
   row: GanttRow;
   isSelected: boolean;
   onSelect: (id: string, e: React.MouseEvent) => void;
   onDoubleClick: (item: GanttItem) => void;
   workingDaysMask?: number;
+  holidays?: HolidayDates;
+  totalFloat?: number;
+  showCriticalPath?: boolean;
+  showVariance?: boolean;
+  variance?: BaselineVariance;
 }) {
   const { item, phaseColor } = row;
   const progress = Math.min(Math.max(item.progress, 0), 100);
   // User-set color overrides inherited phase color for task-level visuals
   const dotColor = item.color || phaseColor;
+  const isCritical = totalFloat !== undefined && totalFloat <= 0;
 
   return (
     <tr
@@ -223,7 +287,12 @@ function TaskRow({
                 style={{ backgroundColor: dotColor }}
               />
             )}
-            <span className="font-medium text-xs text-foreground truncate">
+            <span
+              className={cn(
+                "font-medium text-xs truncate",
+                showCriticalPath && isCritical ? "text-red-600" : "text-foreground"
+              )}
+            >
               {item.name}
             </span>
           </div>
@@ -237,11 +306,29 @@ function TaskRow({
       <td className="px-3 text-muted-foreground tabular-nums">{fmtDate(item.endDate)}</td>
 
       {/* Duration */}
-      <td className="px-3 text-muted-foreground tabular-nums">{formatDuration(item, workingDaysMask ?? 127)}</td>
+      <td className="px-3 text-muted-foreground tabular-nums">{formatDuration(item, workingDaysMask ?? 127, holidays)}</td>
+
+      {/* Total float */}
+      <td
+        className={cn(
+          "px-3 tabular-nums",
+          isCritical ? "font-semibold text-red-500" : "text-muted-foreground"
+        )}
+      >
+        {totalFloat === undefined ? "—" : `${totalFloat}d`}
+      </td>
+
+      {/* Baseline variance */}
+      {showVariance && (
+        <>
+          <VarianceCell days={variance?.startVariance} />
+          <VarianceCell days={variance?.finishVariance} />
+        </>
+      )}
 
       {/* Progress */}
       <td className="px-3">
-        <div className="flex items-center gap-1.5">
+        <div className="flex items-center gap-1.5" title={item.progressSource ?? undefined}>
           <span className="font-medium tabular-nums">{Math.round(progress)}%</span>
           <div className="h-1.5 w-[30px] rounded-full bg-muted overflow-hidden">
             <div
@@ -290,6 +377,28 @@ function fmtDate(date: Date): string {
   });
 }
 
+function VarianceCell({ days }: { days: number | undefined }) {
+  if (days === undefined) {
+    return (
+      <td className="px-3">
+        <span className="text-[9px] font-medium text-blue-600 bg-blue-50 border border-blue-200 px-1.5 py-0.5 rounded-full">
+          New
+        </span>
+      </td>
+    );
+  }
+  return (
+    <td
+      className={cn(
+        "px-3 tabular-nums",
+        days > 0 ? "font-semibold text-red-500" : days < 0 ? "font-medium text-green-600" : "text-muted-foreground"
+      )}
+    >
+      {formatVariance(days)}
+    </td>
+  );
+}
+
 function StatusBadge({ progress, isCompleted }: { progress: number; isCompleted: boolean }) {
   let label: string;
   let dotColor: string;
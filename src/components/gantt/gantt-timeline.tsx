@@ -12,16 +12,25 @@ import {
   ROW_HEIGHT,
   TASK_BAR_HEIGHT,
   HEADER_HEIGHT,
+  BASELINE_COLOR,
+  BASELINE_BAR_HEIGHT,
   totalRowsHeight,
   generateColumns,
   calculateBarPosition,
   dateToX,
   isToday,
   isWeekend,
+  isWorkingDay,
   getWeekNumber,
 } from "./gantt-types";
+import { type HolidayDates, type HolidayPeriod, holidayKey } from "@/lib/holiday-calendar";
 import { GanttBar } from "./gantt-bar";
 import { GanttDependencyArrows } from "./gantt-dependency-arrows";
+import {
+  CONSTRAINT_LABELS,
+  CONSTRAINT_VIOLATION_COLOR,
+  type ConstraintViolation,
+} from "./gantt-constraints";
 
 // ============================================================================
 // GANTT TIMELINE — Right panel with header, grid, bars, today line
@@ -47,6 +56,19 @@ interface GanttTimelineProps {
   onScroll: (e: React.UIEvent) => void;
   /** Working-days bitmask for duration tooltips on bars. */
   workingDaysMask?: number;
+  /** Company + project holiday periods — shaded as non-working bands */
+  holidayPeriods?: HolidayPeriod[];
+  /** The same periods expanded to dates, for duration counts */
+  holidays?: HolidayDates;
+  /** Total float per item — shown in bar tooltips */
+  floatById?: Map<string, number>;
+  /** When set, these bars/arrows are highlighted as the critical path */
+  criticalIds?: Set<string>;
+  criticalDependencyIds?: Set<string>;
+  /** Active baseline dates keyed by item id — drawn as ghost bars */
+  baselineDates?: Map<string, { startDate: Date; endDate: Date }>;
+  /** Broken date constraints keyed by item id — their markers turn red */
+  constraintViolations?: Map<string, ConstraintViolation>;
   className?: string;
 }
 
@@ -68,6 +90,13 @@ export function GanttTimeline({
   scrollRef,
   onScroll,
   workingDaysMask,
+  holidayPeriods,
+  holidays,
+  floatById,
+  criticalIds,
+  criticalDependencyIds,
+  baselineDates,
+  constraintViolations,
   className,
 }: GanttTimelineProps) {
   const columns = React.useMemo(
@@ -95,6 +124,33 @@ export function GanttTimeline({
     return map;
   }, [rows, dateRange, totalWidth]);
 
+  // Holiday bands in timeline px (periods are inclusive, so a band ends at
+  // the start of the day after end_date)
+  const holidayBands = React.useMemo(() => {
+    if (!holidayPeriods || holidayPeriods.length === 0) return [];
+    return holidayPeriods
+      .map((period) => {
+        const start = parseDateKey(period.start_date);
+        const end = parseDateKey(period.end_date);
+        end.setDate(end.getDate() + 1);
+        if (end <= dateRange.start || start > dateRange.end) return null;
+        const left = dateToX(start, dateRange, totalWidth);
+        return { period, start, end, left, width: dateToX(end, dateRange, totalWidth) - left };
+      })
+      .filter((b): b is NonNullable<typeof b> => b !== null);
+  }, [holidayPeriods, dateRange, totalWidth]);
+
+  const holidayNames = React.useMemo(() => {
+    const names = new Map<string, string>();
+    for (const { period, start, end } of holidayBands) {
+      for (const d = new Date(start); d < end; d.setDate(d.getDate() + 1)) {
+        const key = holidayKey(d);
+        names.set(key, names.has(key) ? `${names.get(key)} · ${period.name}` : period.name);
+      }
+    }
+    return names;
+  }, [holidayBands]);
+
   // Today line X position — centered in the day column
   const todayX = React.useMemo(() => {
     const today = new Date();
@@ -116,6 +172,7 @@ export function GanttTimeline({
           viewMode={viewMode}
           columnWidth={columnWidth}
           todayX={todayX}
+          holidayNames={holidayNames}
         />
 
         {/* Body */}
@@ -126,7 +183,9 @@ export function GanttTimeline({
               key={`col-${i}`}
               className={cn(
                 "absolute top-0",
-                col.isWeekend && viewMode === "day" && "bg-muted/30",
+                viewMode === "day" &&
+                  (workingDaysMask !== undefined ? !isWorkingDay(col.date, workingDaysMask) : col.isWeekend) &&
+                  "bg-muted/30",
                 // Today column: no background tint — the today LINE is the indicator
                 showGrid && "border-r border-border/60"
               )}
@@ -138,6 +197,20 @@ export function GanttTimeline({
             />
           ))}
 
+          {/* Holiday / shutdown bands — hatched so they read differently from weekends */}
+          {holidayBands.map(({ period, left, width }) => (
+            <div
+              key={`holiday-${period.start_date}-${period.name}`}
+              className="absolute top-0 pointer-events-none bg-amber-500/10"
+              style={{
+                left,
+                width: Math.max(width, 1),
+                height: contentHeight,
+                backgroundImage: HOLIDAY_HATCH,
+              }}
+            />
+          ))}
+
           {/* Horizontal row lines — rendered as border-bottom on row-sized divs, matching sidebar */}
           {rows.map((row) => (
             <div
@@ -163,6 +236,25 @@ export function GanttTimeline({
             />
           ))}
 
+          {/* Baseline ghost bars — under the live bar, below the dependency arrows */}
+          {baselineDates &&
+            rows.map((row) => {
+              if (row.type === "phase") return null;
+              const snapshot = baselineDates.get(row.id);
+              if (!snapshot) return null;
+              const left = dateToX(snapshot.startDate, dateRange, totalWidth);
+              const width = Math.max(dateToX(snapshot.endDate, dateRange, totalWidth) - left, 20);
+              return (
+                <BaselineGhost
+                  key={`baseline-${row.id}`}
+                  isMilestone={row.item.type === "milestone"}
+                  left={left}
+                  width={width}
+                  y={row.y}
+                />
+              );
+            })}
+
           {/* Task bars (and phase bars when showPhases is on) */}
           {rows.map((row) => {
             // Phase rows only render when showPhases is on; computed here
@@ -200,6 +292,31 @@ export function GanttTimeline({
                 linkMode={linkMode}
                 isLinkSource={linkMode && linkSourceId === row.id}
                 workingDaysMask={workingDaysMask}
+                holidays={holidays}
+                nonWorkingSegments={
+                  row.type === "task" && holidayBands.length > 0
+                    ? barHolidaySegments(holidayBands, pos.left, pos.width)
+                    : undefined
+                }
+                isCritical={criticalIds?.has(row.id)}
+                totalFloat={floatById?.get(row.id)}
+              />
+            );
+          })}
+
+          {/* Constraint markers — at the pinned/earliest start or the deadline */}
+          {rows.map((row) => {
+            const constraint = row.item.constraint;
+            if (!constraint || row.type === "phase") return null;
+            return (
+              <ConstraintMarker
+                key={`constraint-${row.id}`}
+                label={CONSTRAINT_LABELS[constraint.type]}
+                date={constraint.date}
+                isDeadline={constraint.type === "finish_no_later_than"}
+                violation={constraintViolations?.get(row.id)}
+                x={dateToX(constraint.date, dateRange, totalWidth)}
+                y={row.y}
               />
             );
           })}
@@ -212,6 +329,7 @@ export function GanttTimeline({
               containerWidth={totalWidth}
               containerHeight={contentHeight}
               onDependencyClick={onDependencyClick}
+              criticalIds={criticalDependencyIds}
             />
           )}
 
@@ -228,6 +346,111 @@ export function GanttTimeline({
   );
 }
 
+// ---------------------------------------------------------------------------
+// Holidays
+// ---------------------------------------------------------------------------
+
+const HOLIDAY_HATCH =
+  "repeating-linear-gradient(135deg, rgba(245,158,11,0.18) 0 2px, transparent 2px 6px)";
+
+function parseDateKey(value: string): Date {
+  const [y, m, d] = value.split("-").map(Number);
+  return new Date(y, m - 1, d);
+}
+
+/** Holiday bands that overlap a bar, in bar-local px */
+function barHolidaySegments(
+  bands: Array<{ left: number; width: number }>,
+  barLeft: number,
+  barWidth: number
+): Array<{ left: number; width: number }> {
+  const segments: Array<{ left: number; width: number }> = [];
+  for (const band of bands) {
+    const from = Math.max(band.left, barLeft);
+    const to = Math.min(band.left + band.width, barLeft + barWidth);
+    if (to > from) segments.push({ left: from - barLeft, width: to - from });
+  }
+  return segments;
+}
+
+// ---------------------------------------------------------------------------
+// Baseline ghost — thin slate bar just below the live task bar
+// ---------------------------------------------------------------------------
+
+function BaselineGhost({
+  isMilestone,
+  left,
+  width,
+  y,
+}: {
+  isMilestone: boolean;
+  left: number;
+  width: number;
+  y: number;
+}) {
+  const top = y + (ROW_HEIGHT + TASK_BAR_HEIGHT) / 2 + 1;
+
+  if (isMilestone) {
+    return (
+      <div
+        className="absolute size-[7px] rotate-45 border bg-background pointer-events-none z-[5]"
+        style={{ left: left - 3.5, top: top - 2, borderColor: BASELINE_COLOR }}
+      />
+    );
+  }
+
+  return (
+    <div
+      className="absolute rounded-[1px] pointer-events-none z-[5]"
+      style={{
+        left,
+        top,
+        width,
+        height: BASELINE_BAR_HEIGHT,
+        backgroundColor: `${BASELINE_COLOR}99`,
+      }}
+    />
+  );
+}
+
+function ConstraintMarker({
+  label,
+  date,
+  isDeadline,
+  violation,
+  x,
+  y,
+}: {
+  label: string;
+  date: Date;
+  isDeadline: boolean;
+  violation?: ConstraintViolation;
+  x: number;
+  y: number;
+}) {
+  const color = violation ? CONSTRAINT_VIOLATION_COLOR : "#64748b"; // slate-500
+  const title = `${label} ${date.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })}${
+    violation ? ` — ${violation.message}` : ""
+  }`;
+
+  return (
+    <div className="absolute z-[15]" style={{ left: x - 1, top: y + 2, height: ROW_HEIGHT - 4 }} title={title}>
+      <div className="w-[2px] h-full" style={{ backgroundColor: color }} />
+      {/* Flag points into the allowed side: right of a start rule, left of a deadline */}
+      <div
+        className={cn("absolute top-0 size-0 border-y-[4px] border-y-transparent", isDeadline ? "right-[2px] border-r-[6px]" : "left-[2px] border-l-[6px]")}
+        style={isDeadline ? { borderRightColor: color } : { borderLeftColor: color }}
+      />
+      {violation && (
+        <div
+          className="absolute -bottom-0.5 -left-[3px] size-2 rounded-full ring-2 ring-background"
+          style={{ backgroundColor: color }}
+        />
+      )}
+    </div>
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Timeline Header — varies by view mode
 // ---------------------------------------------------------------------------
@@ -237,14 +460,16 @@ function TimelineHeader({
   viewMode,
   columnWidth,
   todayX,
+  holidayNames,
 }: {
   columns: ReturnType<typeof generateColumns>;
   viewMode: GanttViewMode;
   columnWidth: number;
   todayX: number | null;
+  holidayNames: Map<string, string>;
 }) {
   if (viewMode === "day") {
-    return <DayHeader columns={columns} columnWidth={columnWidth} todayX={todayX} />;
+    return <DayHeader columns={columns} columnWidth={columnWidth} todayX={todayX} holidayNames={holidayNames} />;
   }
   if (viewMode === "week") {
     return <WeekHeader columns={columns} columnWidth={columnWidth} todayX={todayX} />;
@@ -257,10 +482,12 @@ function DayHeader({
   columns,
   columnWidth,
   todayX,
+  holidayNames,
 }: {
   columns: ReturnType<typeof generateColumns>;
   columnWidth: number;
   todayX: number | null;
+  holidayNames: Map<string, string>;
 }) {
   const dayInitials = ["S", "M", "T", "W", "T", "F", "S"];
 
@@ -307,20 +534,25 @@ function DayHeader({
       </div>
       {/* Bottom row — day initials + numbers */}
       <div className="flex" style={{ height: halfH }}>
-        {columns.map((col, i) => (
-          <div
-            key={`day-${i}`}
-            className={cn(
-              "flex items-center justify-center gap-0.5 text-[10px] border-r border-border/20",
-              col.isToday && "text-teal-600 font-bold",
-              col.isWeekend && !col.isToday && "text-muted-foreground/40"
-            )}
-            style={{ width: columnWidth }}
-          >
-            <span>{dayInitials[col.date.getDay()]}</span>
-            <span className="tabular-nums">{col.date.getDate()}</span>
-          </div>
-        ))}
+        {columns.map((col, i) => {
+          const holidayName = holidayNames.get(holidayKey(col.date));
+          return (
+            <div
+              key={`day-${i}`}
+              title={holidayName}
+              className={cn(
+                "flex items-center justify-center gap-0.5 text-[10px] border-r border-border/20",
+                col.isToday && "text-teal-600 font-bold",
+                col.isWeekend && !col.isToday && "text-muted-foreground/40",
+                holidayName && !col.isToday && "text-amber-600 bg-amber-500/10"
+              )}
+              style={{ width: columnWidth }}
+            >
+              <span>{dayInitials[col.date.getDay()]}</span>
+              <span className="tabular-nums">{col.date.getDate()}</span>
+            </div>
+          );
+        })}
       </div>
       {/* Today badge */}
       {/* Today badge removed — the teal vertical line is sufficient */}
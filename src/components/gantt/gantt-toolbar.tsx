@@ -8,6 +8,9 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import type { GanttViewMode, GanttPanel } from "./gantt-types";
+import type { GanttBaseline } from "./gantt-baseline";
+import type { ScheduleFileFormat } from "@/lib/schedule-interchange";
+import type { GanttExportFormat } from "./gantt-print";
 import { DAY_LABELS, formatWorkingDaysMask } from "./gantt-types";
 import { Input } from "@/components/ui/input";
 import {
@@ -25,6 +28,19 @@ import {
   ChevronDownIcon,
   LayersIcon,
   SettingsIcon,
+  RouteIcon,
+  FlagIcon,
+  SaveIcon,
+  FileTextIcon,
+  ArrowDownUpIcon,
+  DownloadIcon,
+  UploadIcon,
+  CalendarOffIcon,
+  WandSparklesIcon,
+  FlaskConicalIcon,
+  PrinterIcon,
+  ImageIcon,
+  HistoryIcon,
 } from "lucide-react";
 import {
   DropdownMenu,
@@ -33,6 +49,7 @@ import {
   DropdownMenuRadioItem,
   DropdownMenuTrigger,
   DropdownMenuCheckboxItem,
+  DropdownMenuItem,
   DropdownMenuLabel,
   DropdownMenuSeparator,
 } from "@/components/ui/dropdown-menu";
@@ -53,6 +70,8 @@ interface GanttToolbarProps {
   onDependenciesToggle: () => void;
   showPhases?: boolean;
   onPhasesToggle?: () => void;
+  showCriticalPath?: boolean;
+  onCriticalPathToggle?: () => void;
   linkMode?: boolean;
   onLinkModeToggle?: () => void;
   linkSourceId?: string | null;
@@ -75,6 +94,28 @@ interface GanttToolbarProps {
   rowCount?: number;
   workingDaysMask?: number;
   onWorkingDaysChange?: (mask: number) => void;
+  /** Opens the holiday calendar editor from the working-days menu */
+  onManageHolidays?: () => void;
+  /** Non-working dates in the active calendars, shown next to the menu entry */
+  holidayCount?: number;
+  baselines?: GanttBaseline[];
+  activeBaselineId?: string | null;
+  onActiveBaselineChange?: (baselineId: string | null) => void;
+  onSaveBaseline?: () => void;
+  onDeleteBaseline?: (baseline: GanttBaseline) => void;
+  onExportBaselineReport?: () => void;
+  onExportSchedule?: (format: ScheduleFileFormat) => void;
+  onImportSchedule?: () => void;
+  /** Opens the "generate from scope items" dialog in the import/export menu */
+  onGenerateSchedule?: () => void;
+  /** What-if mode: edits go to a draft until applied or discarded */
+  onStartScenario?: () => void;
+  scenarioActive?: boolean;
+  /** Opens the change history panel (undo / redo across reloads) */
+  onShowHistory?: () => void;
+  /** Print the current view and zoom — tiled PDF or one PNG */
+  onExportView?: (format: GanttExportFormat) => void;
+  isExportingView?: boolean;
   className?: string;
 }
 
@@ -89,6 +130,8 @@ export function GanttToolbar({
   onDependenciesToggle,
   showPhases,
   onPhasesToggle,
+  showCriticalPath,
+  onCriticalPathToggle,
   linkMode,
   onLinkModeToggle,
   linkSourceId,
@@ -111,6 +154,22 @@ export function GanttToolbar({
   rowCount,
   workingDaysMask,
   onWorkingDaysChange,
+  onManageHolidays,
+  holidayCount,
+  baselines,
+  activeBaselineId,
+  onActiveBaselineChange,
+  onSaveBaseline,
+  onDeleteBaseline,
+  onExportBaselineReport,
+  onExportSchedule,
+  onImportSchedule,
+  onGenerateSchedule,
+  onStartScenario,
+  scenarioActive = false,
+  onShowHistory,
+  onExportView,
+  isExportingView = false,
   className,
 }: GanttToolbarProps) {
   return (
@@ -284,6 +343,16 @@ export function GanttToolbar({
                 <LayersIcon className="size-3.5" />
               </ToolbarIcon>
             )}
+
+            {onCriticalPathToggle && (
+              <ToolbarIcon
+                active={showCriticalPath}
+                onClick={onCriticalPathToggle}
+                tooltip="Highlight critical path (tasks with zero float)"
+              >
+                <RouteIcon className={cn("size-3.5", showCriticalPath && "text-red-500")} />
+              </ToolbarIcon>
+            )}
           </div>
 
           {/* Zoom controls */}
@@ -316,11 +385,72 @@ export function GanttToolbar({
             <WorkingDaysMenu
               mask={workingDaysMask}
               onChange={onWorkingDaysChange}
+              onManageHolidays={onManageHolidays}
+              holidayCount={holidayCount}
             />
           )}
         </>
       )}
 
+      {/* Baselines — shown in both panels (ghost bars / variance columns) */}
+      {baselines && onActiveBaselineChange && (
+        <BaselineMenu
+          baselines={baselines}
+          activeBaselineId={activeBaselineId ?? null}
+          onActiveChange={onActiveBaselineChange}
+          onSave={onSaveBaseline}
+          onDelete={onDeleteBaseline}
+          onExportReport={onExportBaselineReport}
+        />
+      )}
+
+      {/* MS Project / Primavera interchange */}
+      {(onExportSchedule || onImportSchedule || onGenerateSchedule) && (
+        <ScheduleFileMenu onExport={onExportSchedule} onImport={onImportSchedule} onGenerate={onGenerateSchedule} />
+      )}
+
+      {/* Print the chart as shown — view mode and zoom carry over */}
+      {onExportView && <PrintMenu onExport={onExportView} isExporting={isExportingView} />}
+
+      {/* What-if scenario — the banner above the chart applies or discards it */}
+      {(onStartScenario || scenarioActive) && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onStartScenario}
+              disabled={scenarioActive}
+              className={cn(
+                "h-7 px-2 text-[11px] gap-1.5",
+                scenarioActive && "border-violet-500/50 bg-violet-500/10 disabled:opacity-100"
+              )}
+            >
+              <FlaskConicalIcon className="size-3.5" />
+              <span className="hidden sm:inline">What-if</span>
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent>
+            {scenarioActive
+              ? "Scenario open — changes stay in the draft until applied"
+              : "Try schedule changes in a draft before applying them"}
+          </TooltipContent>
+        </Tooltip>
+      )}
+
+      {/* Change history — who changed what, with undo / redo */}
+      {onShowHistory && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button variant="outline" size="sm" onClick={onShowHistory} className="h-7 px-2 text-[11px] gap-1.5">
+              <HistoryIcon className="size-3.5" />
+              <span className="hidden sm:inline">History</span>
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent>Change history — undo or redo recent edits</TooltipContent>
+        </Tooltip>
+      )}
+
       {/* Search */}
       {onSearchChange && (
         <div className="relative">
@@ -393,9 +523,13 @@ function PillButton({
 function WorkingDaysMenu({
   mask,
   onChange,
+  onManageHolidays,
+  holidayCount,
 }: {
   mask: number;
   onChange: (mask: number) => void;
+  onManageHolidays?: () => void;
+  holidayCount?: number;
 }) {
   // Render days in Mon-Sun order (JS getDay uses 0=Sun; our mask bit 0=Sun,
   // bit 1=Mon, ..., bit 6=Sat). Toggle bit, refuse all-off.
@@ -422,7 +556,7 @@ function WorkingDaysMenu({
         </TooltipTrigger>
         <TooltipContent>Working days — counts toward task duration</TooltipContent>
       </Tooltip>
-      <DropdownMenuContent align="start" className="w-48">
+      <DropdownMenuContent align="start" className="w-52">
         <DropdownMenuLabel className="text-[11px] text-muted-foreground">
           Working days
         </DropdownMenuLabel>
@@ -439,6 +573,199 @@ function WorkingDaysMenu({
             {DAY_LABELS[dayIndex]}
           </DropdownMenuCheckboxItem>
         ))}
+        {onManageHolidays && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={onManageHolidays} className="text-xs">
+              <CalendarOffIcon className="size-3.5" />
+              Holidays & shutdowns…
+              {!!holidayCount && (
+                <span className="ml-auto text-[10px] text-muted-foreground tabular-nums">{holidayCount}d</span>
+              )}
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+function BaselineMenu({
+  baselines,
+  activeBaselineId,
+  onActiveChange,
+  onSave,
+  onDelete,
+  onExportReport,
+}: {
+  baselines: GanttBaseline[];
+  activeBaselineId: string | null;
+  onActiveChange: (baselineId: string | null) => void;
+  onSave?: () => void;
+  onDelete?: (baseline: GanttBaseline) => void;
+  onExportReport?: () => void;
+}) {
+  const active = baselines.find((b) => b.id === activeBaselineId) ?? null;
+
+  return (
+    <DropdownMenu>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="outline"
+              size="sm"
+              className={cn("h-7 px-2 text-[11px] gap-1.5", active && "border-foreground/30 bg-muted")}
+            >
+              <FlagIcon className="size-3.5" />
+              <span className="hidden sm:inline max-w-[120px] truncate">
+                {active ? active.name : "Baseline"}
+              </span>
+              <ChevronDownIcon className="size-3 opacity-50" />
+            </Button>
+          </DropdownMenuTrigger>
+        </TooltipTrigger>
+        <TooltipContent>Compare the schedule against a saved baseline</TooltipContent>
+      </Tooltip>
+      <DropdownMenuContent align="start" className="w-64">
+        <DropdownMenuLabel className="text-[11px] text-muted-foreground">
+          Compare against
+        </DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={activeBaselineId ?? "none"}
+          onValueChange={(v) => onActiveChange(v === "none" ? null : v)}
+        >
+          <DropdownMenuRadioItem value="none" className="text-xs">
+            None
+          </DropdownMenuRadioItem>
+          {baselines.map((b) => (
+            <DropdownMenuRadioItem key={b.id} value={b.id} className="text-xs">
+              <div className="flex flex-col min-w-0">
+                <span className="truncate">{b.name}</span>
+                <span className="text-[10px] text-muted-foreground">
+                  {b.createdAt.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })}
+                  {b.createdByName && ` · ${b.createdByName}`}
+                </span>
+              </div>
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+        {(onSave || (active && (onExportReport || onDelete))) && <DropdownMenuSeparator />}
+        {onSave && (
+          <DropdownMenuItem onClick={onSave} className="text-xs">
+            <SaveIcon className="size-3.5" />
+            Save baseline…
+          </DropdownMenuItem>
+        )}
+        {active && onExportReport && (
+          <DropdownMenuItem onClick={onExportReport} className="text-xs">
+            <FileTextIcon className="size-3.5" />
+            Comparison report (PDF)
+          </DropdownMenuItem>
+        )}
+        {active && onDelete && (
+          <DropdownMenuItem
+            onClick={() => onDelete(active)}
+            className="text-xs text-destructive focus:text-destructive"
+          >
+            <TrashIcon className="size-3.5" />
+            Delete “{active.name}”
+          </DropdownMenuItem>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+function ScheduleFileMenu({
+  onExport,
+  onImport,
+  onGenerate,
+}: {
+  onExport?: (format: ScheduleFileFormat) => void;
+  onImport?: () => void;
+  onGenerate?: () => void;
+}) {
+  return (
+    <DropdownMenu>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="h-7 px-2 text-[11px] gap-1.5">
+              <ArrowDownUpIcon className="size-3.5" />
+              <span className="hidden sm:inline">Import / Export</span>
+              <ChevronDownIcon className="size-3 opacity-50" />
+            </Button>
+          </DropdownMenuTrigger>
+        </TooltipTrigger>
+        <TooltipContent>Exchange the schedule with MS Project or Primavera P6</TooltipContent>
+      </Tooltip>
+      <DropdownMenuContent align="start" className="w-56">
+        {onGenerate && (
+          <DropdownMenuItem onClick={onGenerate} className="text-xs">
+            <WandSparklesIcon className="size-3.5" />
+            Generate from scope items…
+          </DropdownMenuItem>
+        )}
+        {onImport && (
+          <DropdownMenuItem onClick={onImport} className="text-xs">
+            <UploadIcon className="size-3.5" />
+            Import schedule…
+          </DropdownMenuItem>
+        )}
+        {(onImport || onGenerate) && onExport && <DropdownMenuSeparator />}
+        {onExport && (
+          <>
+            <DropdownMenuItem onClick={() => onExport("mspdi")} className="text-xs">
+              <DownloadIcon className="size-3.5" />
+              MS Project XML (.xml)
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => onExport("xer")} className="text-xs">
+              <DownloadIcon className="size-3.5" />
+              Primavera P6 (.xer)
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+function PrintMenu({
+  onExport,
+  isExporting,
+}: {
+  onExport: (format: GanttExportFormat) => void;
+  isExporting: boolean;
+}) {
+  return (
+    <DropdownMenu>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="h-7 px-2 text-[11px] gap-1.5" disabled={isExporting}>
+              <PrinterIcon className="size-3.5" />
+              <span className="hidden sm:inline">{isExporting ? "Exporting…" : "Print"}</span>
+              <ChevronDownIcon className="size-3 opacity-50" />
+            </Button>
+          </DropdownMenuTrigger>
+        </TooltipTrigger>
+        <TooltipContent>Export the chart at the current view and zoom</TooltipContent>
+      </Tooltip>
+      <DropdownMenuContent align="start" className="w-52">
+        <DropdownMenuItem onClick={() => onExport("pdf-a3")} className="text-xs">
+          <FileTextIcon className="size-3.5" />
+          PDF — A3 landscape
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => onExport("pdf-a4")} className="text-xs">
+          <FileTextIcon className="size-3.5" />
+          PDF — A4 landscape
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={() => onExport("png")} className="text-xs">
+          <ImageIcon className="size-3.5" />
+          PNG image (for email)
+        </DropdownMenuItem>
       </DropdownMenuContent>
     </DropdownMenu>
   );
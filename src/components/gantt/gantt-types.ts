@@ -5,6 +5,8 @@
 // Both columns use position:absolute with row.y — alignment is guaranteed.
 // ============================================================================
 
+import { type HolidayDates, isHoliday } from "@/lib/holiday-calendar";
+
 // ---------------------------------------------------------------------------
 // Fixed dimensions (from Figma + implementation guide)
 // ---------------------------------------------------------------------------
@@ -45,6 +47,7 @@ export type GanttItemType = "phase" | "task" | "milestone";
 export type PhaseKey = "design" | "production" | "procurement" | "shipping" | "installation";
 export type DependencyType = 0 | 1 | 2 | 3;
 export type Priority = 1 | 2 | 3 | 4;
+export type ConstraintType = "must_start_on" | "start_no_earlier_than" | "finish_no_later_than";
 
 // ---------------------------------------------------------------------------
 // Phase colors (from Figma design)
@@ -129,6 +132,13 @@ export const DEPENDENCY_COLORS: Record<DependencyType, string> = {
   3: DEPENDENCY_COLOR,
 };
 
+/** Critical-path highlight for bars and driving dependency arrows */
+export const CRITICAL_PATH_COLOR = "#ef4444"; // red-500
+
+/** Ghost bar drawn under each live bar while a baseline is active */
+export const BASELINE_COLOR = "#94a3b8"; // slate-400
+export const BASELINE_BAR_HEIGHT = 4;
+
 // ---------------------------------------------------------------------------
 // Core data interfaces
 // ---------------------------------------------------------------------------
@@ -140,6 +150,8 @@ export interface GanttItem {
   startDate: Date;
   endDate: Date;
   progress: number; // 0-100
+  /** Where progress comes from (manual, linked items, subtasks) — shown in the bar tooltip */
+  progressSource?: string | null;
   /** User-set color override. null means "inherit phase color from hierarchy". */
   color: string | null;
   phaseKey?: PhaseKey;
@@ -151,6 +163,8 @@ export interface GanttItem {
   description?: string | null;
   isCompleted: boolean;
   status?: string;
+  /** Fixed-date rule — see gantt-constraints.ts */
+  constraint?: { type: ConstraintType; date: Date } | null;
 }
 
 export interface GanttDependency {
@@ -310,6 +324,9 @@ export function daysBetween(start: Date, end: Date): number {
 // matches JavaScript Date.getDay():
 //   bit 0 = Sun, bit 1 = Mon, bit 2 = Tue, ..., bit 6 = Sat
 // Default mask 62 (0b0111110) = Mon-Fri.
+//
+// Holidays (company + project calendars) are an optional set of dated
+// exceptions on top of the mask; a date is worked only if both allow it.
 // ---------------------------------------------------------------------------
 
 /** Mon-Fri (0b0111110 = 62). Default when no project setting loaded. */
@@ -317,16 +334,20 @@ export const DEFAULT_WORKING_DAYS_MASK = 62;
 
 export const DAY_LABELS: string[] = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
 
-/** Is the given date a working day under this mask? */
-export function isWorkingDay(date: Date, mask: number): boolean {
-  return (mask & (1 << date.getDay())) !== 0;
+/** Is the given date a working day under this mask (and not a holiday)? */
+export function isWorkingDay(date: Date, mask: number, holidays?: HolidayDates): boolean {
+  return (mask & (1 << date.getDay())) !== 0 && !isHoliday(date, holidays);
+}
+
+/** True when every calendar day is worked, so plain date arithmetic applies */
+export function isFullCalendar(mask: number, holidays?: HolidayDates): boolean {
+  return (mask & 127) === 127 && !holidays?.size;
 }
 
 /** Count working days between two dates (inclusive) under the given mask.
- *  When all 7 bits are set, collapses to daysBetween(start, end). */
-export function workingDaysBetween(start: Date, end: Date, mask: number): number {
-  const fullMask = 127;
-  if ((mask & fullMask) === fullMask) return daysBetween(start, end);
+ *  When all 7 bits are set and there are no holidays, collapses to daysBetween(start, end). */
+export function workingDaysBetween(start: Date, end: Date, mask: number, holidays?: HolidayDates): number {
+  if (isFullCalendar(mask, holidays)) return daysBetween(start, end);
   const a = new Date(start);
   a.setHours(0, 0, 0, 0);
   const b = new Date(end);
@@ -335,7 +356,7 @@ export function workingDaysBetween(start: Date, end: Date, mask: number): number
   let count = 0;
   const cursor = new Date(a);
   while (cursor <= b) {
-    if (isWorkingDay(cursor, mask)) count++;
+    if (isWorkingDay(cursor, mask, holidays)) count++;
     cursor.setDate(cursor.getDate() + 1);
   }
   return count;
@@ -343,12 +364,11 @@ export function workingDaysBetween(start: Date, end: Date, mask: number): number
 
 /** Advance (or rewind) a date by N working days under the given mask.
  *  When days is 0, returns a clone of the input date unchanged.
- *  When mask is all-days, falls back to simple calendar-day arithmetic. */
-export function addWorkingDays(date: Date, days: number, mask: number): Date {
+ *  When every day is worked, falls back to simple calendar-day arithmetic. */
+export function addWorkingDays(date: Date, days: number, mask: number, holidays?: HolidayDates): Date {
   const result = new Date(date);
-  const fullMask = 127;
   if (days === 0) return result;
-  if ((mask & fullMask) === fullMask) {
+  if (isFullCalendar(mask, holidays)) {
     result.setDate(result.getDate() + days);
     return result;
   }
@@ -356,7 +376,7 @@ export function addWorkingDays(date: Date, days: number, mask: number): Date {
   let remaining = Math.abs(days);
   while (remaining > 0) {
     result.setDate(result.getDate() + direction);
-    if (isWorkingDay(result, mask)) remaining--;
+    if (isWorkingDay(result, mask, holidays)) remaining--;
   }
   return result;
 }
@@ -423,9 +443,9 @@ export function getBarHealthColor(item: GanttItem): string | null {
 /** Format duration: "45d" for tasks, "M" for milestones.
  *  Counts working days under the given mask (defaults to every day for
  *  backwards compat — call sites pass the project's mask to respect weekends). */
-export function formatDuration(item: GanttItem, mask: number = 127): string {
+export function formatDuration(item: GanttItem, mask: number = 127, holidays?: HolidayDates): string {
   if (item.type === "milestone") return "M";
-  return `${workingDaysBetween(item.startDate, item.endDate, mask)}d`;
+  return `${workingDaysBetween(item.startDate, item.endDate, mask, holidays)}d`;
 }
 
 // ---------------------------------------------------------------------------
@@ -14,9 +14,12 @@ export type {
   Priority,
   PhaseKey,
   GanttItemType,
+  ConstraintType,
 } from "./gantt-types";
 export {
   PHASE_COLORS,
+  PHASE_LABELS,
+  PHASE_ORDER,
   DEPENDENCY_LABELS,
   DEPENDENCY_SHORT_LABELS,
   DEPENDENCY_COLORS,
@@ -25,10 +28,64 @@ export {
   ROW_HEIGHT,
   CATEGORY_HEIGHT,
   SIDEBAR_WIDTH,
+  CRITICAL_PATH_COLOR,
+  BASELINE_COLOR,
   buildGanttRows,
   computeStats,
   computeDateRange,
   daysBetween,
   formatDuration,
   resolveItemColor,
+  formatWorkingDaysMask,
 } from "./gantt-types";
+export { computeCriticalPath, type CriticalPathResult } from "./gantt-critical-path";
+export {
+  compareWithBaseline,
+  baselineVariance,
+  formatVariance,
+  type GanttBaseline,
+  type GanttBaselineItem,
+  type BaselineVariance,
+  type BaselineComparison,
+  type BaselineComparisonRow,
+  type BaselineRowStatus,
+} from "./gantt-baseline";
+export {
+  diffScenario,
+  propagateScenario,
+  type ScenarioItem,
+  type ScenarioDependency,
+  type ScenarioDiff,
+  type ScenarioItemChange,
+  type ScenarioDependencyChange,
+  type ScenarioMilestone,
+} from "./gantt-scenario";
+export {
+  buildPortfolioItems,
+  type PortfolioGrouping,
+  type PortfolioProject,
+  type PortfolioScheduleItem,
+  type PortfolioOptions,
+  type PortfolioView,
+} from "./gantt-portfolio";
+export {
+  findConstraintViolations,
+  CONSTRAINT_LABELS,
+  CONSTRAINT_SHORT_LABELS,
+  type ConstraintViolation,
+} from "./gantt-constraints";
+export {
+  buildGanttPrintLayout,
+  tileGanttPrintLayout,
+  downloadGanttPng,
+  type GanttExportFormat,
+  type GanttPrintLayout,
+  type GanttPrintTile,
+} from "./gantt-print";
+export {
+  useScenarioDraft,
+  useGanttCollaboration,
+  type ScenarioDraft,
+  type GanttCollaborator,
+  type GanttRealtimeTable,
+} from "./use-gantt-state";
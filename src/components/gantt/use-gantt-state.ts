@@ -3,6 +3,16 @@
 import * as React from "react";
 import type { GanttViewMode, GanttPanel, GanttItem } from "./gantt-types";
 import { ZOOM_LEVELS, DEFAULT_ZOOM_INDEX, SIDEBAR_WIDTH } from "./gantt-types";
+import {
+  diffScenario,
+  propagateScenario,
+  type ScenarioDependency,
+  type ScenarioDiff,
+  type ScenarioItem,
+} from "./gantt-scenario";
+import type { HolidayDates } from "@/lib/holiday-calendar";
+import { createClient } from "@/lib/supabase/client";
+import type { RealtimeChannel } from "@supabase/supabase-js";
 
 // ============================================================================
 // useGanttState — Owns ALL chart UI state
@@ -17,6 +27,7 @@ export interface GanttState {
   showGrid: boolean;
   showDependencies: boolean;
   showPhases: boolean;
+  showCriticalPath: boolean;
   searchQuery: string;
 
   // Link mode (dependency creation)
@@ -42,6 +53,7 @@ export interface GanttActions {
   toggleGrid: () => void;
   toggleDependencies: () => void;
   togglePhases: () => void;
+  toggleCriticalPath: () => void;
   setSearchQuery: (query: string) => void;
 
   // Link mode
@@ -69,6 +81,7 @@ export function useGanttState(
   const [showGrid, setShowGrid] = React.useState(true);
   const [showDependencies, setShowDependencies] = React.useState(true);
   const [showPhases, setShowPhases] = React.useState(false);
+  const [showCriticalPath, setShowCriticalPath] = React.useState(false);
   const [searchQuery, setSearchQuery] = React.useState("");
   const [linkMode, setLinkMode] = React.useState(false);
   const [linkSourceId, setLinkSourceId] = React.useState<string | null>(null);
@@ -151,6 +164,7 @@ export function useGanttState(
     showGrid,
     showDependencies,
     showPhases,
+    showCriticalPath,
     searchQuery,
     linkMode,
     linkSourceId,
@@ -173,6 +187,7 @@ export function useGanttState(
     toggleGrid: React.useCallback(() => setShowGrid((v) => !v), []),
     toggleDependencies: React.useCallback(() => setShowDependencies((v) => !v), []),
     togglePhases: React.useCallback(() => setShowPhases((v) => !v), []),
+    toggleCriticalPath: React.useCallback(() => setShowCriticalPath((v) => !v), []),
     setSearchQuery,
     toggleLinkMode: React.useCallback(() => {
       setLinkMode((v) => {
@@ -194,3 +209,224 @@ export function useGanttState(
     setScrollTop,
   };
 }
+
+// ============================================================================
+// useScenarioDraft — What-if copy of the schedule
+//
+// start() snapshots the live items + dependencies; edits then change only the
+// draft (with dependency propagation) until the caller applies or discards.
+// The snapshot, not the latest live data, is what the diff and the apply's
+// conflict check compare against.
+// ============================================================================
+
+export interface ScenarioDraft<T extends ScenarioItem, D extends ScenarioDependency> {
+  active: boolean;
+  /** Draft rows while active, otherwise the live rows */
+  items: T[];
+  dependencies: D[];
+  /** Snapshot taken when the scenario started */
+  base: { items: T[]; dependencies: D[] } | null;
+  diff: ScenarioDiff | null;
+  start: () => void;
+  discard: () => void;
+  moveItem: (id: string, startDate: string, endDate: string) => void;
+  updateDependency: (id: string, type: number, lagDays: number) => void;
+}
+
+export function useScenarioDraft<T extends ScenarioItem, D extends ScenarioDependency>(
+  liveItems: T[],
+  liveDependencies: D[],
+  mask: number,
+  holidays?: HolidayDates
+): ScenarioDraft<T, D> {
+  const [state, setState] = React.useState<{
+    base: { items: T[]; dependencies: D[] };
+    items: T[];
+    dependencies: D[];
+  } | null>(null);
+
+  const start = React.useCallback(() => {
+    setState({
+      base: { items: liveItems, dependencies: liveDependencies },
+      items: liveItems,
+      dependencies: liveDependencies,
+    });
+  }, [liveItems, liveDependencies]);
+
+  const discard = React.useCallback(() => setState(null), []);
+
+  const moveItem = React.useCallback(
+    (id: string, startDate: string, endDate: string) => {
+      setState((prev) => {
+        if (!prev) return prev;
+        const edited = prev.items.map((i) => (i.id === id ? { ...i, start_date: startDate, end_date: endDate } : i));
+        return { ...prev, items: propagateScenario(edited, prev.dependencies, mask, holidays) };
+      });
+    },
+    [mask, holidays]
+  );
+
+  const updateDependency = React.useCallback(
+    (id: string, type: number, lagDays: number) => {
+      setState((prev) => {
+        if (!prev) return prev;
+        const dependencies = prev.dependencies.map((d) =>
+          d.id === id ? { ...d, dependency_type: type, lag_days: lagDays } : d
+        );
+        return { ...prev, dependencies, items: propagateScenario(prev.items, dependencies, mask, holidays) };
+      });
+    },
+    [mask, holidays]
+  );
+
+  const diff = React.useMemo(
+    () =>
+      state
+        ? diffScenario(state.base.items, state.items, state.base.dependencies, state.dependencies, mask, holidays)
+        : null,
+    [state, mask, holidays]
+  );
+
+  return {
+    active: state !== null,
+    items: state?.items ?? liveItems,
+    dependencies: state?.dependencies ?? liveDependencies,
+    base: state?.base ?? null,
+    diff,
+    start,
+    discard,
+    moveItem,
+    updateDependency,
+  };
+}
+
+// ============================================================================
+// useGanttCollaboration — Live schedule changes and who is editing what
+//
+// One Realtime channel per project timeline carries both:
+//   - postgres_changes on gantt_items / gantt_dependencies → onTableChange,
+//     which the page answers by refetching; the chart re-renders from props.
+//     DELETE events on RLS tables carry only the primary key and cannot be
+//     filtered by project, so a delete counts when its id is on this timeline
+//   - presence with the row each person has open in an edit dialog
+// Saving still goes through the server actions. The updated_at check in
+// updateTimelineItem is what stops two PMs silently overwriting each other.
+// ============================================================================
+
+export type GanttRealtimeTable = "gantt_items" | "gantt_dependencies";
+
+export interface GanttCollaborator {
+  userId: string;
+  name: string;
+  /** Item open in this person's edit dialog */
+  editingId: string | null;
+}
+
+export interface GanttCollaboration {
+  /** Other people on this timeline (excluding the current user) */
+  collaborators: GanttCollaborator[];
+  /** Other people grouped by the item they are editing */
+  editorsById: Map<string, GanttCollaborator[]>;
+  setEditing: (itemId: string | null) => void;
+}
+
+export function useGanttCollaboration(
+  projectId: string,
+  currentUser: { id: string; name: string } | null,
+  onTableChange: (table: GanttRealtimeTable) => void,
+  /** Whether a row id is loaded on this timeline — matches DELETE events */
+  hasRow: (table: GanttRealtimeTable, id: string) => boolean
+): GanttCollaboration {
+  const [collaborators, setCollaborators] = React.useState<GanttCollaborator[]>([]);
+  const channelRef = React.useRef<RealtimeChannel | null>(null);
+  const editingRef = React.useRef<string | null>(null);
+  // Latest callback without resubscribing on every render
+  const onTableChangeRef = React.useRef(onTableChange);
+  const hasRowRef = React.useRef(hasRow);
+  React.useEffect(() => {
+    onTableChangeRef.current = onTableChange;
+    hasRowRef.current = hasRow;
+  }, [onTableChange, hasRow]);
+
+  const userId = currentUser?.id ?? null;
+  const userName = currentUser?.name ?? "";
+
+  React.useEffect(() => {
+    if (!projectId) return;
+
+    const supabase = createClient();
+    const channel = supabase.channel(`timeline:${projectId}`, {
+      config: { presence: { key: userId ?? "" } },
+    });
+
+    const track = () =>
+      userId
+        ? channel.track({ user_id: userId, name: userName, editing_id: editingRef.current })
+        : Promise.resolve();
+
+    const updateFromState = () => {
+      const others: GanttCollaborator[] = [];
+      for (const [key, entries] of Object.entries(channel.presenceState())) {
+        if (key === userId) continue;
+        const latest = entries[entries.length - 1] as { name?: string; editing_id?: string | null } | undefined;
+        if (!latest) continue;
+        others.push({ userId: key, name: latest.name || "Teammate", editingId: latest.editing_id ?? null });
+      }
+      setCollaborators(others);
+    };
+
+    for (const table of ["gantt_items", "gantt_dependencies"] as const) {
+      channel.on(
+        "postgres_changes",
+        { event: "*", schema: "public", table, filter: `project_id=eq.${projectId}` },
+        (payload) => {
+          // DELETE can't be filtered server-side — handled below
+          if (payload.eventType === "DELETE") return;
+          onTableChangeRef.current(table);
+        }
+      );
+      channel.on("postgres_changes", { event: "DELETE", schema: "public", table }, (payload) => {
+        const id = (payload.old as { id?: string }).id;
+        if (id && hasRowRef.current(table, id)) {
+          onTableChangeRef.current(table);
+        }
+      });
+    }
+
+    channel
+      .on("presence", { event: "sync" }, updateFromState)
+      .on("presence", { event: "join" }, updateFromState)
+      .on("presence", { event: "leave" }, updateFromState)
+      .subscribe(async (status) => {
+        if (status === "SUBSCRIBED") await track();
+      });
+    channelRef.current = channel;
+
+    return () => {
+      channelRef.current = null;
+      if (userId) channel.untrack();
+      supabase.removeChannel(channel);
+    };
+  }, [projectId, userId, userName]);
+
+  const setEditing = React.useCallback(
+    (itemId: string | null) => {
+      if (editingRef.current === itemId) return;
+      editingRef.current = itemId;
+      if (userId && channelRef.current) {
+        channelRef.current.track({ user_id: userId, name: userName, editing_id: itemId });
+      }
+    },
+    [userId, userName]
+  );
+
+  const editorsById = React.useMemo(() => {
+    const map = new Map<string, GanttCollaborator[]>();
+    for (const c of collaborators) {
+      if (c.editingId) map.set(c.editingId, [...(map.get(c.editingId) ?? []), c]);
+    }
+    return map;
+  }, [collaborators]);
+
+  return { collaborators, editorsById, setEditing };
+}
@@ -5,6 +5,8 @@ import Image from "next/image";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
+import { ApprovalAgeingBadge } from "@/components/projects/approval-ageing-badge";
+import type { ApprovalReminderCadence } from "@/lib/approval-reminders";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -30,6 +32,9 @@ export interface Material {
   images: string[] | null;
   status: string;
   assignedItemsCount: number;
+  /** When the material went in front of the client; null once they responded */
+  awaitingSince?: string | null;
+  approvalReminderStage?: number;
 }
 
 interface MaterialCardProps {
@@ -39,6 +44,8 @@ interface MaterialCardProps {
   onApprove?: (materialId: string) => void;
   onReject?: (materialId: string) => void;
   disabled?: boolean;
+  /** Project reminder cadence; shows the ageing badge when set */
+  approvalCadence?: ApprovalReminderCadence;
 }
 
 const statusColors: Record<string, string> = {
@@ -67,6 +74,7 @@ export const MaterialCard = memo(function MaterialCard({
   onApprove,
   onReject,
   disabled,
+  approvalCadence,
 }: MaterialCardProps) {
   const images = material.images || [];
   const firstImage = images[0];
@@ -123,9 +131,18 @@ export const MaterialCard = memo(function MaterialCard({
           </div>
 
           <div className="mt-2.5 sm:mt-3 flex items-center justify-between gap-2">
-            <p className="text-[11px] sm:text-xs text-muted-foreground">
-              Used in: {material.assignedItemsCount} item{material.assignedItemsCount !== 1 ? "s" : ""}
-            </p>
+            <div className="flex items-center gap-2">
+              <p className="text-[11px] sm:text-xs text-muted-foreground">
+                Used in: {material.assignedItemsCount} item{material.assignedItemsCount !== 1 ? "s" : ""}
+              </p>
+              {approvalCadence && material.awaitingSince && (
+                <ApprovalAgeingBadge
+                  sentAt={material.awaitingSince}
+                  cadence={approvalCadence}
+                  stage={material.approvalReminderStage}
+                />
+              )}
+            </div>
 
             <div className="flex items-center gap-1 shrink-0">
               {/* Action buttons based on status - PM approval */}
@@ -35,12 +35,22 @@ const typeConfig: Record<string, { icon: React.ReactNode; color: GradientColor }
   drawing_rejected: { icon: <AlertCircleIcon className="size-3.5" />, color: "rose" },
   drawing_uploaded: { icon: <FileIcon className="size-3.5" />, color: "sky" },
   drawing_sent: { icon: <ClockIcon className="size-3.5" />, color: "amber" },
+  drawing_review_requested: { icon: <ClockIcon className="size-3.5" />, color: "violet" },
+  drawing_review_rejected: { icon: <AlertCircleIcon className="size-3.5" />, color: "rose" },
+  drawing_review_completed: { icon: <CheckCircleIcon className="size-3.5" />, color: "teal" },
   material_approved: { icon: <CheckCircleIcon className="size-3.5" />, color: "teal" },
   material_rejected: { icon: <AlertCircleIcon className="size-3.5" />, color: "rose" },
   project_assigned: { icon: <FileIcon className="size-3.5" />, color: "primary" },
   milestone_due: { icon: <ClockIcon className="size-3.5" />, color: "coral" },
   milestone_overdue: { icon: <AlertCircleIcon className="size-3.5" />, color: "rose" },
   report_published: { icon: <FileIcon className="size-3.5" />, color: "teal" },
+  snag_reported: { icon: <AlertCircleIcon className="size-3.5" />, color: "amber" },
+  snag_assigned: { icon: <AlertCircleIcon className="size-3.5" />, color: "coral" },
+  snag_resolved: { icon: <CheckCircleIcon className="size-3.5" />, color: "emerald" },
+  snag_reopened: { icon: <AlertCircleIcon className="size-3.5" />, color: "rose" },
+  snag_escalated: { icon: <ClockIcon className="size-3.5" />, color: "rose" },
+  approval_reminder: { icon: <ClockIcon className="size-3.5" />, color: "amber" },
+  approval_escalated: { icon: <AlertCircleIcon className="size-3.5" />, color: "rose" },
   finance_weekly_digest: { icon: <FileIcon className="size-3.5" />, color: "amber" },
   finance_manual_summary: { icon: <FileIcon className="size-3.5" />, color: "amber" },
   finance_urgent_notify: { icon: <AlertCircleIcon className="size-3.5" />, color: "rose" },
@@ -73,12 +83,14 @@ export function NotificationsDropdown() {
     // Navigate to relevant page based on notification type
     if (notification.project_id) {
       const type = notification.type;
-      if (type === "drawing_approved" || type === "drawing_rejected" || type === "drawing_uploaded" || type === "drawing_sent") {
+      if (type.startsWith("drawing_")) {
         router.push(`/projects/${notification.project_id}?tab=drawings`);
       } else if (type === "material_approved" || type === "material_rejected") {
         router.push(`/projects/${notification.project_id}?tab=materials`);
       } else if (type === "milestone_due" || type === "milestone_overdue") {
         router.push(`/projects/${notification.project_id}?tab=milestones`);
+      } else if (type.startsWith("snag_")) {
+        router.push(`/projects/${notification.project_id}?tab=snagging`);
       } else if (notification.report_id || type === "report_published") {
         router.push(`/projects/${notification.project_id}?tab=reports`);
       } else {
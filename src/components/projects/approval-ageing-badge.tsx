@@ -0,0 +1,66 @@
+"use client";
+
+import { format } from "date-fns";
+import { cn } from "@/lib/utils";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import {
+  approvalAgeDays,
+  approvalAgeingTone,
+  type ApprovalAgeingTone,
+  type ApprovalReminderCadence,
+} from "@/lib/approval-reminders";
+
+const toneClasses: Record<ApprovalAgeingTone, string> = {
+  ok: "bg-gray-50 text-gray-600 border-gray-200",
+  due: "bg-amber-50 text-amber-700 border-amber-200",
+  overdue: "bg-rose-50 text-rose-700 border-rose-200",
+};
+
+const stageLabels: Record<number, string> = {
+  1: "Client reminded",
+  2: "Escalated to PM",
+};
+
+interface ApprovalAgeingBadgeProps {
+  /** When the item went to the client */
+  sentAt: string | null;
+  cadence: ApprovalReminderCadence;
+  /** approval_reminder_stage of the item, shown in the tooltip */
+  stage?: number;
+  className?: string;
+}
+
+/**
+ * Days an item has been waiting on the client, coloured against the
+ * project's reminder cadence. Renders a dash when the item was never sent.
+ */
+export function ApprovalAgeingBadge({ sentAt, cadence, stage = 0, className }: ApprovalAgeingBadgeProps) {
+  const ageDays = approvalAgeDays(sentAt);
+  if (ageDays === null || !sentAt) {
+    return <span className="text-muted-foreground">—</span>;
+  }
+
+  const tone = approvalAgeingTone(ageDays, cadence);
+
+  return (
+    <TooltipProvider delayDuration={200}>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <span
+            className={cn(
+              "inline-flex items-center rounded-md border px-1.5 py-0.5 text-[11px] font-medium tabular-nums cursor-help",
+              toneClasses[tone],
+              className
+            )}
+          >
+            {ageDays}d
+          </span>
+        </TooltipTrigger>
+        <TooltipContent side="top" className="text-xs">
+          Waiting {ageDays} day{ageDays !== 1 ? "s" : ""} since {format(new Date(sentAt), "MMM d, yyyy")}
+          {stageLabels[stage] && ` · ${stageLabels[stage]}`}
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+}
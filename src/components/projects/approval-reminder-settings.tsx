@@ -0,0 +1,156 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { BellRingIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Spinner } from "@/components/ui/spinner";
+import { Switch } from "@/components/ui/switch";
+import { updateApprovalReminderCadence } from "@/lib/actions/projects";
+import {
+  DEFAULT_APPROVAL_CADENCE,
+  MAX_APPROVAL_CADENCE_DAYS,
+  validateApprovalCadence,
+  type ApprovalReminderCadence,
+} from "@/lib/approval-reminders";
+
+interface ApprovalReminderSettingsProps {
+  projectId: string;
+  cadence: ApprovalReminderCadence;
+  className?: string;
+}
+
+interface StepState {
+  enabled: boolean;
+  days: string;
+}
+
+const toStep = (days: number | null, fallback: number | null): StepState => ({
+  enabled: days !== null,
+  days: String(days ?? fallback ?? ""),
+});
+
+const fromStep = (step: StepState): number | null =>
+  step.enabled ? Number(step.days) : null;
+
+/**
+ * PM/Admin control for the project's client approval reminder cadence,
+ * shared by the drawings and materials tabs.
+ */
+export function ApprovalReminderSettings({ projectId, cadence, className }: ApprovalReminderSettingsProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [reminder, setReminder] = useState(() => toStep(cadence.reminderDays, DEFAULT_APPROVAL_CADENCE.reminderDays));
+  const [escalation, setEscalation] = useState(() => toStep(cadence.escalationDays, DEFAULT_APPROVAL_CADENCE.escalationDays));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      setReminder(toStep(cadence.reminderDays, DEFAULT_APPROVAL_CADENCE.reminderDays));
+      setEscalation(toStep(cadence.escalationDays, DEFAULT_APPROVAL_CADENCE.escalationDays));
+    }
+    setOpen(next);
+  };
+
+  const draft: ApprovalReminderCadence = {
+    reminderDays: fromStep(reminder),
+    escalationDays: fromStep(escalation),
+  };
+  const validationError = validateApprovalCadence(draft);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const result = await updateApprovalReminderCadence(projectId, draft);
+      if (result.success) {
+        toast.success("Approval reminders updated");
+        setOpen(false);
+        router.refresh();
+      } else {
+        toast.error(result.error || "Failed to update approval reminders");
+      }
+    } catch {
+      toast.error("Failed to update approval reminders");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const steps: { id: string; label: string; hint: string; step: StepState; set: (s: StepState) => void }[] = [
+    {
+      id: "approval-reminder-days",
+      label: "Remind client after",
+      hint: "Emails the client contacts, PM copied",
+      step: reminder,
+      set: setReminder,
+    },
+    {
+      id: "approval-escalation-days",
+      label: "Escalate after",
+      hint: "Chases the client again and alerts the PM",
+      step: escalation,
+      set: setEscalation,
+    },
+  ];
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className={className}>
+          <BellRingIcon className="size-3.5" />
+          Reminders
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 space-y-3">
+        <div>
+          <p className="text-sm font-medium">Client approval reminders</p>
+          <p className="text-xs text-muted-foreground">
+            Days a drawing or material can wait on the client before it is chased.
+          </p>
+        </div>
+
+        {steps.map(({ id, label, hint, step, set }) => (
+          <div key={id} className="space-y-1.5">
+            <div className="flex items-center justify-between gap-2">
+              <Label htmlFor={id} className="text-xs">{label}</Label>
+              <Switch
+                checked={step.enabled}
+                onCheckedChange={(enabled) => set({ ...step, enabled })}
+                aria-label={`${label} enabled`}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Input
+                id={id}
+                type="number"
+                min={1}
+                max={MAX_APPROVAL_CADENCE_DAYS}
+                value={step.days}
+                disabled={!step.enabled}
+                onChange={(e) => set({ ...step, days: e.target.value })}
+                className="h-8 w-20"
+              />
+              <span className="text-xs text-muted-foreground">days · {hint}</span>
+            </div>
+          </div>
+        ))}
+
+        {validationError && <p className="text-xs text-destructive">{validationError}</p>}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" size="sm" onClick={() => setOpen(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button size="sm" onClick={handleSave} disabled={isSaving || !!validationError}>
+            {isSaving && <Spinner className="size-3.5" />}
+            Save
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
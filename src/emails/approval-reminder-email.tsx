@@ -0,0 +1,127 @@
+/**
+ * Approval Reminder Email Template
+ *
+ * Sent to a project's client contacts (PMs copied) when drawings or materials
+ * have been waiting on their review past the project's reminder cadence.
+ * Escalated items are red, first reminders amber.
+ */
+import { Text, Hr, Section } from "@react-email/components";
+import * as React from "react";
+import {
+  EmailLayout,
+  EmailButton,
+  SecondaryButton,
+  InfoRow,
+} from "./components/email-layout";
+
+interface AwaitingApprovalRow {
+  kind: "drawing" | "material";
+  code: string;
+  name: string;
+  sentOn: string;
+  daysWaiting: number;
+  escalated: boolean;
+}
+
+interface ApprovalReminderEmailProps {
+  recipientName: string;
+  projectName: string;
+  projectCode: string;
+  items: AwaitingApprovalRow[];
+  drawingsUrl: string;
+  materialsUrl: string;
+}
+
+export function ApprovalReminderEmail({
+  recipientName,
+  projectName,
+  projectCode,
+  items,
+  drawingsUrl,
+  materialsUrl,
+}: ApprovalReminderEmailProps) {
+  const escalatedCount = items.filter((i) => i.escalated).length;
+  const hasDrawings = items.some((i) => i.kind === "drawing");
+  const hasMaterials = items.some((i) => i.kind === "material");
+  const countText = `${items.length} item${items.length !== 1 ? "s" : ""}`;
+
+  return (
+    <EmailLayout
+      previewText={`${escalatedCount > 0 ? "Overdue" : "Reminder"}: ${countText} awaiting your approval - ${projectCode}`}
+    >
+      <Text className="text-gray-900 text-[24px] font-semibold m-0 mb-[16px]">
+        {escalatedCount > 0 ? "Approvals Overdue" : "Approvals Awaiting Your Review"}
+      </Text>
+
+      <Text className="text-gray-600 text-[15px] leading-[24px] m-0 mb-[24px]">
+        Hi {recipientName}, the following items were sent to you for approval and are still
+        waiting on a response. Production cannot move ahead on them until they are reviewed.
+      </Text>
+
+      <InfoRow label="Project" value={`${projectName} (${projectCode})`} />
+      <InfoRow label="Awaiting" value={countText} />
+      {escalatedCount > 0 && <InfoRow label="Overdue" value={String(escalatedCount)} />}
+
+      <Section className="my-[24px]">
+        {items.map((item, index) => (
+          <Section
+            key={index}
+            className={`px-[16px] py-[10px] mb-[8px] rounded-[6px] ${
+              item.escalated
+                ? "bg-red-50 border-l-[3px] border-l-red-500"
+                : "bg-amber-50 border-l-[3px] border-l-amber-500"
+            }`}
+          >
+            <Text className={`text-[13px] font-semibold m-0 ${item.escalated ? "text-red-800" : "text-amber-800"}`}>
+              {item.code} — {item.name}
+            </Text>
+            <Text className={`text-[12px] m-0 mt-[2px] ${item.escalated ? "text-red-700" : "text-amber-700"}`}>
+              {item.kind === "drawing" ? "Drawing" : "Material"} · waiting {item.daysWaiting} day
+              {item.daysWaiting !== 1 ? "s" : ""} · sent {item.sentOn}
+            </Text>
+          </Section>
+        ))}
+      </Section>
+
+      <Hr className="border-gray-200 my-[24px]" />
+
+      {hasDrawings && <EmailButton href={drawingsUrl}>Review Drawings</EmailButton>}
+      {hasMaterials &&
+        (hasDrawings ? (
+          <SecondaryButton href={materialsUrl}>Review Materials</SecondaryButton>
+        ) : (
+          <EmailButton href={materialsUrl}>Review Materials</EmailButton>
+        ))}
+
+      <Text className="text-gray-500 text-[13px] leading-[20px] m-0 mt-[24px]">
+        The project manager is copied on this email. Reply to them if anything is blocking your review.
+      </Text>
+    </EmailLayout>
+  );
+}
+
+ApprovalReminderEmail.PreviewProps = {
+  recipientName: "Jane Smith",
+  projectName: "Hilton Hotel Renovation",
+  projectCode: "PRJ-2024-001",
+  items: [
+    {
+      kind: "drawing",
+      code: "ITEM-001",
+      name: "Reception Desk",
+      sentOn: "February 2, 2026",
+      daysWaiting: 9,
+      escalated: true,
+    },
+    {
+      kind: "material",
+      code: "MAT-004",
+      name: "Walnut veneer",
+      sentOn: "February 7, 2026",
+      daysWaiting: 4,
+      escalated: false,
+    },
+  ],
+  drawingsUrl: "https://formulacontractpm.com/projects/abc123?tab=drawings",
+  materialsUrl: "https://formulacontractpm.com/projects/abc123?tab=materials",
+} satisfies ApprovalReminderEmailProps;
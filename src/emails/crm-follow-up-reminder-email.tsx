@@ -0,0 +1,115 @@
+/**
+ * CRM Follow-up Reminder Email Template
+ *
+ * Daily digest of the user's CRM follow-ups that are due today or overdue.
+ * Overdue rows are red, rows due today amber.
+ */
+import { Text, Hr, Section } from "@react-email/components";
+import * as React from "react";
+import {
+  EmailLayout,
+  EmailButton,
+  InfoRow,
+} from "./components/email-layout";
+
+interface FollowUpRow {
+  nextAction: string;
+  activityTitle: string;
+  /** Brand / firm / contact the follow-up is with */
+  counterpart: string | null;
+  dueDate: string;
+  daysOverdue: number; // 0 = due today
+}
+
+interface CrmFollowUpReminderEmailProps {
+  userName: string;
+  followUps: FollowUpRow[];
+  activityUrl: string;
+}
+
+export function CrmFollowUpReminderEmail({
+  userName,
+  followUps,
+  activityUrl,
+}: CrmFollowUpReminderEmailProps) {
+  const overdueCount = followUps.filter((f) => f.daysOverdue > 0).length;
+  const countText = `${followUps.length} follow-up${followUps.length !== 1 ? "s" : ""}`;
+
+  return (
+    <EmailLayout previewText={`CRM: ${countText} due${overdueCount > 0 ? `, ${overdueCount} overdue` : ""}`}>
+      <Text className="text-gray-900 text-[24px] font-semibold m-0 mb-[16px]">
+        Follow-ups Due
+      </Text>
+
+      <Text className="text-gray-600 text-[15px] leading-[24px] m-0 mb-[24px]">
+        Hi {userName}, these business development follow-ups are waiting on you:
+      </Text>
+
+      <InfoRow label="Due" value={countText} />
+      {overdueCount > 0 && <InfoRow label="Overdue" value={String(overdueCount)} />}
+
+      <Section className="my-[24px]">
+        {followUps.map((followUp, index) => {
+          const isOverdue = followUp.daysOverdue > 0;
+          return (
+            <Section
+              key={index}
+              className={`px-[16px] py-[10px] mb-[8px] rounded-[6px] ${
+                isOverdue
+                  ? "bg-red-50 border-l-[3px] border-l-red-500"
+                  : "bg-amber-50 border-l-[3px] border-l-amber-500"
+              }`}
+            >
+              <Text
+                className={`text-[13px] font-semibold m-0 ${
+                  isOverdue ? "text-red-800" : "text-amber-800"
+                }`}
+              >
+                {followUp.nextAction}
+              </Text>
+              <Text className={`text-[12px] m-0 mt-[2px] ${isOverdue ? "text-red-700" : "text-amber-700"}`}>
+                {isOverdue
+                  ? `${followUp.daysOverdue} day${followUp.daysOverdue !== 1 ? "s" : ""} overdue`
+                  : "Due today"}
+                {` · ${followUp.dueDate}`}
+                {followUp.counterpart && ` · ${followUp.counterpart}`}
+              </Text>
+              <Text className="text-gray-500 text-[12px] m-0 mt-[2px]">
+                From: {followUp.activityTitle}
+              </Text>
+            </Section>
+          );
+        })}
+      </Section>
+
+      <Hr className="border-gray-200 my-[24px]" />
+
+      <EmailButton href={activityUrl}>Open CRM Activity</EmailButton>
+
+      <Text className="text-gray-500 text-[13px] leading-[20px] m-0 mt-[24px]">
+        Mark a follow-up as done in the CRM to stop these reminders.
+      </Text>
+    </EmailLayout>
+  );
+}
+
+CrmFollowUpReminderEmail.PreviewProps = {
+  userName: "John Doe",
+  followUps: [
+    {
+      nextAction: "Send revised quote for flagship fit-out",
+      activityTitle: "Meeting with store design team",
+      counterpart: "Maison Lumière",
+      dueDate: "February 12, 2026",
+      daysOverdue: 2,
+    },
+    {
+      nextAction: "Chase sample feedback",
+      activityTitle: "Veneer samples sent",
+      counterpart: "Studio Arc · Elif Kaya",
+      dueDate: "February 14, 2026",
+      daysOverdue: 0,
+    },
+  ],
+  activityUrl: "https://formulacontractpm.com/crm/activities?follow_ups=due",
+} satisfies CrmFollowUpReminderEmailProps;
@@ -1,7 +1,9 @@
 /**
  * Drawing Sent to Client Email Template
  *
- * Sent when drawings are sent to a client for review/approval.
+ * Sent when drawings are sent to a client for review/approval, or issued
+ * for construction / information. Carries the transmittal number and a link
+ * where the client acknowledges receipt.
  */
 import { Text, Hr } from "@react-email/components";
 import * as React from "react";
@@ -9,7 +11,9 @@ import {
   EmailLayout,
   EmailButton,
   CodeBlock,
+  SecondaryButton,
 } from "./components/email-layout";
+import { TRANSMITTAL_PURPOSE_LABELS, type TransmittalPurpose } from "@/lib/drawing-transmittals";
 
 interface DrawingSentToClientEmailProps {
   userName: string;
@@ -20,6 +24,11 @@ interface DrawingSentToClientEmailProps {
   itemNames?: string[];
   senderName: string;
   drawingsPageUrl: string;
+  purpose?: TransmittalPurpose;
+  transmittalCode?: string;
+  /** Transmittal page where the client acknowledges receipt */
+  transmittalUrl?: string;
+  notes?: string;
 }
 
 export function DrawingSentToClientEmail({
@@ -31,22 +40,32 @@ export function DrawingSentToClientEmail({
   itemNames,
   senderName,
   drawingsPageUrl,
+  purpose = "for_approval",
+  transmittalCode,
+  transmittalUrl,
+  notes,
 }: DrawingSentToClientEmailProps) {
+  const forApproval = purpose === "for_approval";
+  const purposeLabel = TRANSMITTAL_PURPOSE_LABELS[purpose];
   const maxDisplay = 10;
   const displayedCodes = itemCodes.slice(0, maxDisplay);
   const remainingCount = itemCodes.length - maxDisplay;
 
   return (
     <EmailLayout
-      previewText={`${drawingCount} drawing${drawingCount !== 1 ? "s" : ""} awaiting your approval for ${projectName}`}
+      previewText={
+        forApproval
+          ? `${drawingCount} drawing${drawingCount !== 1 ? "s" : ""} awaiting your approval for ${projectName}`
+          : `${drawingCount} drawing${drawingCount !== 1 ? "s" : ""} issued ${purposeLabel.toLowerCase()} for ${projectName}`
+      }
     >
       <Text className="text-gray-900 text-[24px] font-semibold m-0 mb-[16px]">
-        Drawings awaiting your approval
+        {forApproval ? "Drawings awaiting your approval" : `Drawings issued ${purposeLabel.toLowerCase()}`}
       </Text>
 
       <Text className="text-gray-600 text-[15px] leading-[24px] m-0 mb-[24px]">
-        Hi {userName}, {senderName} has sent {drawingCount} drawing
-        {drawingCount !== 1 ? "s" : ""} for your review on project{" "}
+        Hi {userName}, {senderName} has {forApproval ? "sent" : "issued"} {drawingCount} drawing
+        {drawingCount !== 1 ? "s" : ""} {forApproval ? "for your review" : purposeLabel.toLowerCase()} on project{" "}
         {projectName}.
       </Text>
 
@@ -64,6 +83,24 @@ export function DrawingSentToClientEmail({
       </Text>
       <CodeBlock>{projectCode}</CodeBlock>
 
+      {transmittalCode && (
+        <>
+          <Text className="text-gray-500 text-[12px] uppercase tracking-wider m-0 mb-[4px] mt-[16px]">
+            Transmittal
+          </Text>
+          <CodeBlock>{transmittalCode}</CodeBlock>
+        </>
+      )}
+
+      {notes && (
+        <>
+          <Text className="text-gray-500 text-[12px] uppercase tracking-wider m-0 mb-[4px] mt-[16px]">
+            Notes
+          </Text>
+          <Text className="text-gray-900 text-[14px] leading-[22px] m-0">{notes}</Text>
+        </>
+      )}
+
       <Text className="text-gray-500 text-[12px] uppercase tracking-wider m-0 mb-[4px] mt-[16px]">
         Items
       </Text>
@@ -86,7 +123,18 @@ export function DrawingSentToClientEmail({
 
       <Hr className="border-gray-200 my-[24px]" />
 
-      <EmailButton href={drawingsPageUrl}>Review drawings</EmailButton>
+      <EmailButton href={forApproval ? drawingsPageUrl : transmittalUrl ?? drawingsPageUrl}>
+        {forApproval ? "Review drawings" : "View drawings"}
+      </EmailButton>
+
+      {transmittalUrl && (
+        <>
+          <Text className="text-gray-500 text-[13px] leading-[20px] m-0">
+            Please acknowledge receipt of {transmittalCode ?? "this transmittal"}.
+          </Text>
+          <SecondaryButton href={transmittalUrl}>Acknowledge receipt</SecondaryButton>
+        </>
+      )}
     </EmailLayout>
   );
 }
@@ -100,5 +148,8 @@ DrawingSentToClientEmail.PreviewProps = {
   itemNames: ["Reception Desk", "Wall Panel A", "Cabinet Unit", "Door Frame", "Ceiling Panel"],
   senderName: "Jane Smith",
   drawingsPageUrl: "https://formulacontractpm.com/projects/abc123?tab=drawings",
+  purpose: "for_approval",
+  transmittalCode: "HA-2026-TR-004",
+  transmittalUrl: "https://formulacontractpm.com/projects/abc123/transmittals/def456",
 } satisfies DrawingSentToClientEmailProps;
 
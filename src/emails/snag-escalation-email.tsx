@@ -0,0 +1,94 @@
+/**
+ * Snag Escalation Email Template
+ *
+ * Sent to project PMs when critical snags pass their target fix date.
+ * Lists every newly escalated snag for the project.
+ */
+import { Text, Hr, Section } from "@react-email/components";
+import * as React from "react";
+import {
+  EmailLayout,
+  EmailButton,
+  InfoRow,
+} from "./components/email-layout";
+
+interface EscalatedSnagRow {
+  description: string;
+  areaLabel: string | null;
+  assigneeName: string | null;
+  targetFixDate: string;
+  daysOverdue: number;
+}
+
+interface SnagEscalationEmailProps {
+  userName: string;
+  projectName: string;
+  projectCode: string;
+  snags: EscalatedSnagRow[];
+  projectUrl: string;
+}
+
+export function SnagEscalationEmail({
+  userName,
+  projectName,
+  projectCode,
+  snags,
+  projectUrl,
+}: SnagEscalationEmailProps) {
+  const countText = `${snags.length} critical snag${snags.length !== 1 ? "s" : ""}`;
+
+  return (
+    <EmailLayout previewText={`Escalation: ${countText} overdue - ${projectCode}`}>
+      <Text className="text-gray-900 text-[24px] font-semibold m-0 mb-[16px]">
+        Critical Snags Overdue
+      </Text>
+
+      <Text className="text-gray-600 text-[15px] leading-[24px] m-0 mb-[24px]">
+        Hi {userName}, the following critical snags have passed their target fix date
+        and may block handover:
+      </Text>
+
+      <InfoRow label="Project" value={`${projectName} (${projectCode})`} />
+
+      <Section className="px-[16px] py-[12px] my-[24px] rounded-[6px] bg-red-50 border-l-[3px] border-l-red-500">
+        {snags.map((snag, index) => (
+          <Section
+            key={index}
+            className={index < snags.length - 1 ? "pb-[8px] mb-[8px] border-b border-red-100" : ""}
+          >
+            <Text className="text-red-800 text-[13px] font-semibold m-0">{snag.description}</Text>
+            <Text className="text-red-700 text-[12px] m-0 mt-[2px]">
+              {snag.daysOverdue} day{snag.daysOverdue !== 1 ? "s" : ""} overdue · fix by {snag.targetFixDate}
+              {snag.areaLabel && ` · ${snag.areaLabel}`}
+              {` · ${snag.assigneeName ?? "Unassigned"}`}
+            </Text>
+          </Section>
+        ))}
+      </Section>
+
+      <Hr className="border-gray-200 my-[24px]" />
+
+      <EmailButton href={projectUrl}>View Snagging List</EmailButton>
+
+      <Text className="text-gray-500 text-[13px] leading-[20px] m-0 mt-[24px]">
+        Please reassign, reschedule or resolve these issues. Each snag is escalated once per target date.
+      </Text>
+    </EmailLayout>
+  );
+}
+
+SnagEscalationEmail.PreviewProps = {
+  userName: "John Doe",
+  projectName: "Hilton Hotel Renovation",
+  projectCode: "PRJ-2024-001",
+  snags: [
+    {
+      description: "Reception desk door hinge broken",
+      areaLabel: "Ground Floor · Lobby",
+      assigneeName: "Ali Yilmaz",
+      targetFixDate: "February 12, 2026",
+      daysOverdue: 3,
+    },
+  ],
+  projectUrl: "https://formulacontractpm.com/projects/abc123?tab=snagging",
+} satisfies SnagEscalationEmailProps;
@@ -10,7 +10,8 @@ import type { RealtimeChannel } from "@supabase/supabase-js";
  * mounts and broadcasts the current user's ID + name; returns the set of
  * OTHER viewers (excluding self).
  *
- * No locking — just awareness. Last-writer-wins semantics unchanged.
+ * Awareness only. Edit conflicts are handled by the updated_at check in
+ * updateTimelineItem; per-row editing presence lives in useGanttCollaboration.
  */
 export interface ProjectViewer {
   userId: string;
@@ -69,3 +70,22 @@ export function useProjectViewers(projectId: string, currentUser: { id: string;
 
   return viewers;
 }
+
+// Palette for viewer-avatar backgrounds. Deterministic per user id.
+const AVATAR_BG_COLORS = [
+  "#0d9488", "#3b82f6", "#6366f1", "#a855f7", "#ec4899",
+  "#f97316", "#f59e0b", "#16a34a", "#ef4444", "#64748b",
+];
+
+export function viewerColor(userId: string): string {
+  let h = 0;
+  for (let i = 0; i < userId.length; i++) h = (h * 31 + userId.charCodeAt(i)) | 0;
+  return AVATAR_BG_COLORS[Math.abs(h) % AVATAR_BG_COLORS.length];
+}
+
+export function viewerInitials(name: string): string {
+  const parts = name.trim().split(/\s+/).filter(Boolean);
+  if (parts.length === 0) return "?";
+  if (parts.length === 1) return parts[0][0].toUpperCase();
+  return (parts[0][0] + parts[parts.length - 1][0]).toUpperCase();
+}
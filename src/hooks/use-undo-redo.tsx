@@ -1,14 +1,21 @@
 "use client";
 
-import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from "react";
+import React, { createContext, useCallback, useContext, useEffect, useMemo } from "react";
 import { toast } from "sonner";
+import {
+  useRedoTimelineChange,
+  useTimelineHistory,
+  useUndoTimelineChange,
+} from "@/lib/react-query/timelines";
+import { findUndoRedoTargets } from "@/lib/gantt-history";
 
 // ============================================================================
-// UNDO / REDO STACKS
+// UNDO / REDO — server-side timeline history
 //
-// Bounded, session-scoped stacks for undoing user actions on the timeline.
-// Each record stores both a forward (redo) and inverse (undo) operation so
-// the stacks behave like a linear timeline the user can traverse.
+// Every tracked timeline write is logged per project (gantt_change_log), so
+// undo survives a reload, covers edits made by teammates, and takes back an
+// edit together with the dependency dates it cascaded. This provider only
+// binds the keys and exposes what the log says can be undone or redone.
 //
 // Keyboard bindings:
 //   Ctrl+Z / ⌘+Z         → undo
@@ -19,106 +26,64 @@ import { toast } from "sonner";
 // or a contenteditable element — so native field undo still works.
 // ============================================================================
 
-/** Maximum combined entries per stack. Beyond this, oldest entry is dropped. */
-const MAX_STACK = 20;
-
-export interface UndoRecord {
-  /** Short human-readable summary shown in the toast, e.g. "Set priority to High" */
-  description: string;
-  /** The action that was originally performed — called again on redo */
-  forward: () => void | Promise<void>;
-  /** The reverse action — called on undo */
-  inverse: () => void | Promise<void>;
-}
-
 interface UndoRedoContextValue {
-  record: (record: UndoRecord) => void;
   undo: () => Promise<void>;
   redo: () => Promise<void>;
   canUndo: boolean;
   canRedo: boolean;
-  clear: () => void;
+  isPending: boolean;
 }
 
 const UndoRedoContext = createContext<UndoRedoContextValue | null>(null);
 
 const NOOP_VALUE: UndoRedoContextValue = {
-  record: () => {},
   undo: async () => {},
   redo: async () => {},
   canUndo: false,
   canRedo: false,
-  clear: () => {},
+  isPending: false,
 };
 
-export function UndoRedoProvider({ children }: { children: React.ReactNode }) {
-  const [undoStack, setUndoStack] = useState<UndoRecord[]>([]);
-  const [redoStack, setRedoStack] = useState<UndoRecord[]>([]);
+export function UndoRedoProvider({
+  projectId,
+  disabled = false,
+  children,
+}: {
+  projectId: string;
+  /** Read-only viewers, or while a what-if scenario is open */
+  disabled?: boolean;
+  children: React.ReactNode;
+}) {
+  const { data: history = [] } = useTimelineHistory(projectId);
+  const undoMutation = useUndoTimelineChange(projectId);
+  const redoMutation = useRedoTimelineChange(projectId);
+  const targets = useMemo(() => findUndoRedoTargets(history), [history]);
   // Guard against concurrent undo/redo (e.g., user hammering the shortcut)
-  const busyRef = useRef(false);
+  const isPending = undoMutation.isPending || redoMutation.isPending;
+  const canUndo = !disabled && !!targets.undoId;
+  const canRedo = !disabled && !!targets.redoId;
 
-  const record = useCallback((r: UndoRecord) => {
-    setUndoStack((s) => {
-      const next = [...s, r];
-      if (next.length > MAX_STACK) next.shift();
-      return next;
-    });
-    // A fresh action invalidates the redo timeline — standard pattern
-    setRedoStack([]);
-  }, []);
+  const { mutateAsync: runUndo } = undoMutation;
+  const { mutateAsync: runRedo } = redoMutation;
 
   const undo = useCallback(async () => {
-    if (busyRef.current) return;
-    const last = undoStack[undoStack.length - 1];
-    if (!last) {
+    if (disabled || isPending) return;
+    if (!targets.undoId) {
       toast.info("Nothing to undo");
       return;
     }
-    busyRef.current = true;
-    try {
-      await last.inverse();
-      setUndoStack((s) => s.slice(0, -1));
-      setRedoStack((s) => {
-        const next = [...s, last];
-        if (next.length > MAX_STACK) next.shift();
-        return next;
-      });
-      toast.success(`Undid: ${last.description}`);
-    } catch (e) {
-      toast.error(`Undo failed: ${(e as Error).message || "Unknown error"}`);
-    } finally {
-      busyRef.current = false;
-    }
-  }, [undoStack]);
+    // The server re-picks the entry; failures are toasted by the mutation
+    await runUndo().catch(() => {});
+  }, [disabled, isPending, targets.undoId, runUndo]);
 
   const redo = useCallback(async () => {
-    if (busyRef.current) return;
-    const last = redoStack[redoStack.length - 1];
-    if (!last) {
+    if (disabled || isPending) return;
+    if (!targets.redoId) {
       toast.info("Nothing to redo");
       return;
     }
-    busyRef.current = true;
-    try {
-      await last.forward();
-      setRedoStack((s) => s.slice(0, -1));
-      setUndoStack((s) => {
-        const next = [...s, last];
-        if (next.length > MAX_STACK) next.shift();
-        return next;
-      });
-      toast.success(`Redid: ${last.description}`);
-    } catch (e) {
-      toast.error(`Redo failed: ${(e as Error).message || "Unknown error"}`);
-    } finally {
-      busyRef.current = false;
-    }
-  }, [redoStack]);
-
-  const clear = useCallback(() => {
-    setUndoStack([]);
-    setRedoStack([]);
-  }, []);
+    await runRedo().catch(() => {});
+  }, [disabled, isPending, targets.redoId, runRedo]);
 
   // Global keyboard listener. Ignored when focus is inside editable text.
   useEffect(() => {
@@ -160,12 +125,11 @@ export function UndoRedoProvider({ children }: { children: React.ReactNode }) {
   return (
     <UndoRedoContext.Provider
       value={{
-        record,
         undo,
         redo,
-        canUndo: undoStack.length > 0,
-        canRedo: redoStack.length > 0,
-        clear,
+        canUndo,
+        canRedo,
+        isPending,
       }}
     >
       {children}
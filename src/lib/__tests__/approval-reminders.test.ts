@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_APPROVAL_CADENCE,
+  approvalAgeDays,
+  approvalAgeingTone,
+  dueReminderStage,
+  validateApprovalCadence,
+} from "@/lib/approval-reminders";
+
+describe("approvalAgeDays", () => {
+  const now = new Date("2026-03-20T09:00:00Z");
+
+  it("counts whole days since sending", () => {
+    expect(approvalAgeDays("2026-03-17T10:00:00Z", now)).toBe(2);
+    expect(approvalAgeDays("2026-03-17T08:00:00Z", now)).toBe(3);
+  });
+
+  it("is null for items never sent", () => {
+    expect(approvalAgeDays(null, now)).toBeNull();
+  });
+
+  it("never goes negative", () => {
+    expect(approvalAgeDays("2026-03-21T00:00:00Z", now)).toBe(0);
+  });
+});
+
+describe("dueReminderStage", () => {
+  it("follows the default 3 / 7 day cadence", () => {
+    expect(dueReminderStage(2, DEFAULT_APPROVAL_CADENCE)).toBe(0);
+    expect(dueReminderStage(3, DEFAULT_APPROVAL_CADENCE)).toBe(1);
+    expect(dueReminderStage(6, DEFAULT_APPROVAL_CADENCE)).toBe(1);
+    expect(dueReminderStage(7, DEFAULT_APPROVAL_CADENCE)).toBe(2);
+  });
+
+  it("skips a step that is switched off", () => {
+    expect(dueReminderStage(10, { reminderDays: null, escalationDays: 7 })).toBe(2);
+    expect(dueReminderStage(5, { reminderDays: null, escalationDays: 7 })).toBe(0);
+    expect(dueReminderStage(30, { reminderDays: 3, escalationDays: null })).toBe(1);
+  });
+
+  it("maps stages to ageing tones", () => {
+    expect(approvalAgeingTone(1, DEFAULT_APPROVAL_CADENCE)).toBe("ok");
+    expect(approvalAgeingTone(4, DEFAULT_APPROVAL_CADENCE)).toBe("due");
+    expect(approvalAgeingTone(9, DEFAULT_APPROVAL_CADENCE)).toBe("overdue");
+  });
+});
+
+describe("validateApprovalCadence", () => {
+  it("accepts the defaults and switched-off steps", () => {
+    expect(validateApprovalCadence(DEFAULT_APPROVAL_CADENCE)).toBeNull();
+    expect(validateApprovalCadence({ reminderDays: null, escalationDays: null })).toBeNull();
+  });
+
+  it("requires escalation after the reminder", () => {
+    expect(validateApprovalCadence({ reminderDays: 5, escalationDays: 5 })).toMatch(/after/);
+  });
+
+  it("rejects fractional and out-of-range days", () => {
+    expect(validateApprovalCadence({ reminderDays: 1.5, escalationDays: 7 })).toMatch(/whole/);
+    expect(validateApprovalCadence({ reminderDays: 0, escalationDays: 7 })).toMatch(/whole/);
+    expect(validateApprovalCadence({ reminderDays: 3, escalationDays: 365 })).toMatch(/whole/);
+  });
+});
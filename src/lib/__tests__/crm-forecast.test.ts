@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildCrmForecast,
+  NO_TIER_KEY,
+  UNSPECIFIED_LOSS_REASON,
+  weightedValue,
+  type ForecastOpportunity,
+} from "@/lib/crm-forecast";
+
+let seq = 0;
+function opp(overrides: Partial<ForecastOpportunity> = {}): ForecastOpportunity {
+  seq += 1;
+  return {
+    id: `opp-${seq}`,
+    opportunity_code: `OPP-${String(seq).padStart(3, "0")}`,
+    title: `Opportunity ${seq}`,
+    stage: "proposal",
+    estimated_value: 100_000,
+    currency: "USD",
+    probability: 50,
+    expected_close_date: null,
+    loss_reason: null,
+    brand: null,
+    architecture_firm: null,
+    ...overrides,
+  };
+}
+
+const today = new Date(2026, 9, 19); // Oct 19, 2026 (local)
+
+describe("weightedValue", () => {
+  it("multiplies value by probability", () => {
+    expect(weightedValue({ estimated_value: 200_000, probability: 25 })).toBe(50_000);
+  });
+
+  it("treats missing values as zero and clamps probability", () => {
+    expect(weightedValue({ estimated_value: null, probability: 80 })).toBe(0);
+    expect(weightedValue({ estimated_value: 1_000, probability: null })).toBe(0);
+    expect(weightedValue({ estimated_value: 1_000, probability: 150 })).toBe(1_000);
+  });
+});
+
+describe("buildCrmForecast", () => {
+  it("weights only open opportunities", () => {
+    const forecast = buildCrmForecast(
+      [
+        opp({ estimated_value: 100_000, probability: 50 }),
+        opp({ stage: "negotiation", estimated_value: 40_000, probability: 75 }),
+        opp({ stage: "won", estimated_value: 500_000, probability: 100 }),
+      ],
+      "USD",
+      today
+    );
+
+    expect(forecast.totals.openCount).toBe(2);
+    expect(forecast.totals.pipelineValue).toBe(140_000);
+    expect(forecast.totals.weightedValue).toBe(80_000);
+    expect(forecast.totals.wonValue).toBe(500_000);
+  });
+
+  it("keeps one currency and counts the rest as excluded", () => {
+    const forecast = buildCrmForecast(
+      [opp({ currency: "EUR" }), opp({ currency: null }), opp({ currency: "TRY" })],
+      "USD",
+      today
+    );
+
+    expect(forecast.totals.openCount).toBe(1);
+    expect(forecast.excludedCount).toBe(2);
+  });
+
+  it("breaks the pipeline down by open stage and brand tier", () => {
+    const forecast = buildCrmForecast(
+      [
+        opp({ stage: "meeting", brand: { name: "A", tier: "luxury" } }),
+        opp({ stage: "meeting", brand: { name: "B", tier: "bridge" } }),
+        opp({ stage: "proposal" }),
+      ],
+      "USD",
+      today
+    );
+
+    expect(forecast.byStage.map((b) => b.key)).not.toContain("won");
+    expect(forecast.byStage.find((b) => b.key === "meeting")?.count).toBe(2);
+    expect(forecast.byTier.find((b) => b.key === "luxury")?.count).toBe(1);
+    expect(forecast.byTier.find((b) => b.key === NO_TIER_KEY)?.count).toBe(1);
+  });
+
+  it("reports late opportunities under the current month", () => {
+    const forecast = buildCrmForecast(
+      [
+        opp({ expected_close_date: "2026-08-15" }),
+        opp({ expected_close_date: "2026-10-30" }),
+        opp({ expected_close_date: "2027-01-10" }),
+        opp({ expected_close_date: null }),
+      ],
+      "USD",
+      today
+    );
+
+    expect(forecast.byMonth.map((b) => [b.key, b.label, b.count])).toEqual([
+      ["2026-10", "Oct 26", 2],
+      ["2027-01", "Jan 27", 1],
+    ]);
+    expect(forecast.totals.undatedCount).toBe(1);
+  });
+
+  it("computes the win rate from closed opportunities", () => {
+    const none = buildCrmForecast([opp()], "USD", today);
+    expect(none.totals.winRate).toBeNull();
+
+    const forecast = buildCrmForecast(
+      [opp({ stage: "won" }), opp({ stage: "lost" }), opp({ stage: "lost" }), opp()],
+      "USD",
+      today
+    );
+    expect(forecast.totals.winRate).toBe(33);
+  });
+
+  it("groups loss reasons case-insensitively, most common first", () => {
+    const forecast = buildCrmForecast(
+      [
+        opp({ stage: "lost", loss_reason: "Price" }),
+        opp({ stage: "lost", loss_reason: " price " }),
+        opp({ stage: "lost", loss_reason: "Timeline" }),
+        opp({ stage: "lost", loss_reason: null }),
+      ],
+      "USD",
+      today
+    );
+
+    expect(forecast.lossReasons[0]).toEqual({ reason: "Price", count: 2, value: 200_000 });
+    expect(forecast.lossReasons.map((r) => r.reason)).toContain(UNSPECIFIED_LOSS_REASON);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import {
+  canReviewStep,
+  canTransitionDrawing,
+  isReadyForClient,
+  resolveInternalReview,
+  validateApprovalChain,
+  type ApprovalChainStep,
+  type InternalReview,
+} from "@/lib/drawing-approval-chain";
+
+const chain: ApprovalChainStep[] = [
+  { stepOrder: 1, name: "Production check", approverRole: "production" },
+  { stepOrder: 2, name: "PM approval", approverRole: "pm" },
+];
+
+const review = (
+  stepOrder: number,
+  decision: InternalReview["decision"],
+  reviewedAt: string
+): InternalReview => ({
+  revision: "B",
+  stepOrder,
+  stepName: chain[stepOrder - 1]?.name ?? "Step",
+  decision,
+  comments: null,
+  reviewedByName: null,
+  reviewedAt,
+});
+
+describe("canTransitionDrawing", () => {
+  it("only sends uploaded drawings to the client, or re-sends ones already there", () => {
+    expect(canTransitionDrawing("uploaded", "sent_to_client")).toBe(true);
+    expect(canTransitionDrawing("sent_to_client", "sent_to_client")).toBe(true);
+    expect(canTransitionDrawing("approved", "sent_to_client")).toBe(false);
+    expect(canTransitionDrawing("rejected", "sent_to_client")).toBe(false);
+  });
+
+  it("only records a client response while the drawing is with the client", () => {
+    expect(canTransitionDrawing("sent_to_client", "approved_with_comments")).toBe(true);
+    expect(canTransitionDrawing("uploaded", "approved")).toBe(false);
+    expect(canTransitionDrawing("not_uploaded", "rejected")).toBe(false);
+  });
+
+  it("lets a PM override a rejection", () => {
+    expect(canTransitionDrawing("rejected", "approved")).toBe(true);
+  });
+});
+
+describe("resolveInternalReview", () => {
+  it("is not required without a chain", () => {
+    const state = resolveInternalReview([], []);
+    expect(state.status).toBe("not_required");
+    expect(isReadyForClient(state)).toBe(true);
+  });
+
+  it("waits on the first unapproved step", () => {
+    expect(resolveInternalReview(chain, []).currentStep?.stepOrder).toBe(1);
+
+    const state = resolveInternalReview(chain, [review(1, "approved", "2026-03-02T10:00:00Z")]);
+    expect(state.status).toBe("pending");
+    expect(state.currentStep?.name).toBe("PM approval");
+    expect(isReadyForClient(state)).toBe(false);
+  });
+
+  it("is complete once every step approved", () => {
+    const state = resolveInternalReview(chain, [
+      review(1, "approved", "2026-03-02T10:00:00Z"),
+      review(2, "approved", "2026-03-03T10:00:00Z"),
+    ]);
+    expect(state.status).toBe("complete");
+    expect(isReadyForClient(state)).toBe(true);
+  });
+
+  it("stops at the latest rejection", () => {
+    const state = resolveInternalReview(chain, [
+      review(1, "approved", "2026-03-02T10:00:00Z"),
+      review(2, "rejected", "2026-03-03T10:00:00Z"),
+    ]);
+    expect(state.status).toBe("rejected");
+    expect(state.rejection?.stepOrder).toBe(2);
+    expect(isReadyForClient(state)).toBe(false);
+  });
+
+  it("asks for sign-off on a step appended after the revision was checked", () => {
+    const longer: ApprovalChainStep[] = [
+      ...chain,
+      { stepOrder: 3, name: "Management sign-off", approverRole: "management" },
+    ];
+    const state = resolveInternalReview(longer, [
+      review(1, "approved", "2026-03-02T10:00:00Z"),
+      review(2, "approved", "2026-03-03T10:00:00Z"),
+    ]);
+    expect(state.currentStep?.stepOrder).toBe(3);
+  });
+});
+
+describe("canReviewStep", () => {
+  it("matches the step's role, with admins covering every step", () => {
+    expect(canReviewStep(chain[0], "production")).toBe(true);
+    expect(canReviewStep(chain[0], "pm")).toBe(false);
+    expect(canReviewStep(chain[0], "admin")).toBe(true);
+  });
+});
+
+describe("validateApprovalChain", () => {
+  it("accepts an empty chain", () => {
+    expect(validateApprovalChain([])).toBeNull();
+  });
+
+  it("rejects unnamed steps and client approvers", () => {
+    expect(validateApprovalChain([{ name: "  ", approverRole: "pm" }])).toMatch(/name/);
+    expect(
+      validateApprovalChain([{ name: "Client", approverRole: "client" as ApprovalChainStep["approverRole"] }])
+    ).toMatch(/role/);
+  });
+
+  it("caps the number of steps", () => {
+    const steps = Array.from({ length: 11 }, () => ({ name: "Check", approverRole: "pm" as const }));
+    expect(validateApprovalChain(steps)).toMatch(/at most 10/);
+  });
+});
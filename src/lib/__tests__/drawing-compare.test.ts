@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { changedRegions, diffDrawings } from "@/lib/drawing-compare";
+
+/** Blank white RGBA sheet with black filled at the given pixel indices */
+function sheet(width: number, height: number, black: number[] = []): Uint8ClampedArray {
+  const data = new Uint8ClampedArray(width * height * 4).fill(255);
+  for (const p of black) data.fill(0, p * 4, p * 4 + 3);
+  return data;
+}
+
+describe("diffDrawings", () => {
+  it("colours removed ink red and added ink blue", () => {
+    const before = sheet(3, 1, [0, 1]);
+    const after = sheet(3, 1, [1, 2]);
+    const { pixels, mask, changedPixels } = diffDrawings(before, after, 3, 1);
+
+    expect(Array.from(mask)).toEqual([1, 0, 1]);
+    expect(changedPixels).toBe(2);
+    expect(Array.from(pixels.slice(0, 3))).toEqual([220, 38, 38]);
+    expect(Array.from(pixels.slice(8, 11))).toEqual([37, 99, 235]);
+    // Common ink stays grey, not coloured
+    expect(pixels[4]).toBe(pixels[5]);
+  });
+
+  it("treats transparent pixels as paper", () => {
+    const before = new Uint8ClampedArray(4); // fully transparent black
+    const after = sheet(1, 1);
+    expect(diffDrawings(before, after, 1, 1).changedPixels).toBe(0);
+  });
+});
+
+describe("changedRegions", () => {
+  const width = 64;
+  const height = 32;
+
+  function maskWith(points: Array<[number, number]>): Uint8Array {
+    const mask = new Uint8Array(width * height);
+    for (const [x, y] of points) mask[y * width + x] = 1;
+    return mask;
+  }
+
+  function block(x0: number, y0: number, size: number): Array<[number, number]> {
+    const points: Array<[number, number]> = [];
+    for (let y = y0; y < y0 + size; y++) for (let x = x0; x < x0 + size; x++) points.push([x, y]);
+    return points;
+  }
+
+  it("merges touching cells into one region", () => {
+    const regions = changedRegions(maskWith([...block(12, 12, 8)]), width, height);
+    expect(regions).toEqual([{ x: 0, y: 0, width: 32, height: 32 }]);
+  });
+
+  it("keeps distant changes apart and drops specks", () => {
+    const regions = changedRegions(
+      maskWith([...block(0, 0, 3), ...block(56, 20, 3), [33, 3]]),
+      width,
+      height
+    );
+    expect(regions).toEqual([
+      { x: 0, y: 0, width: 16, height: 16 },
+      { x: 48, y: 16, width: 16, height: 16 },
+    ]);
+  });
+});
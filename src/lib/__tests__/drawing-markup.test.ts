@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import {
+  arrowHead,
+  cloudScallops,
+  hitTestMarkup,
+  toFraction,
+  type DrawingMarkup,
+} from "@/lib/drawing-markup";
+
+describe("toFraction", () => {
+  it("clamps points dragged off the page", () => {
+    expect(toFraction({ x: -20, y: 450 }, 600, 300)).toEqual({ x: 0, y: 1 });
+    expect(toFraction({ x: 150, y: 75 }, 600, 300)).toEqual({ x: 0.25, y: 0.25 });
+  });
+});
+
+describe("cloudScallops", () => {
+  it("fits whole scallops along each side", () => {
+    // 100 × 40 box with radius 10 → 5 + 2 + 5 + 2 arcs
+    const centers = cloudScallops({ x: 0, y: 0, width: 100, height: 40 }, 10);
+    expect(centers).toHaveLength(14);
+    expect(centers[0]).toEqual({ x: 10, y: 0 });
+    expect(centers[5]).toEqual({ x: 100, y: 10 });
+  });
+});
+
+describe("arrowHead", () => {
+  it("puts both back corners behind the tip", () => {
+    const [left, right] = arrowHead({ x: 0, y: 0 }, { x: 100, y: 0 }, 10);
+    expect(left.x).toBeLessThan(100);
+    expect(right.x).toBeLessThan(100);
+    expect(left.y).toBeCloseTo(-right.y);
+  });
+});
+
+describe("hitTestMarkup", () => {
+  const markups: DrawingMarkup[] = [
+    { id: "cloud", page: 1, color: "#dc2626", type: "cloud", from: { x: 0.1, y: 0.1 }, to: { x: 0.5, y: 0.5 } },
+    { id: "arrow", page: 1, color: "#dc2626", type: "arrow", from: { x: 0.2, y: 0.2 }, to: { x: 0.4, y: 0.4 } },
+    { id: "other-page", page: 2, color: "#dc2626", type: "arrow", from: { x: 0, y: 0 }, to: { x: 1, y: 1 } },
+  ];
+
+  it("prefers the markup drawn last", () => {
+    expect(hitTestMarkup(markups, 1, { x: 180, y: 180 }, 600, 600)?.id).toBe("arrow");
+    expect(hitTestMarkup(markups, 1, { x: 100, y: 250 }, 600, 600)?.id).toBe("cloud");
+  });
+
+  it("ignores other pages and empty space", () => {
+    expect(hitTestMarkup(markups, 1, { x: 500, y: 500 }, 600, 600)).toBeNull();
+    expect(hitTestMarkup(markups, 2, { x: 300, y: 300 }, 600, 600)?.id).toBe("other-page");
+  });
+});
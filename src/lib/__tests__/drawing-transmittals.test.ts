@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { buildDrawingRegister, isTransmittalPurpose } from "@/lib/drawing-transmittals";
+
+describe("isTransmittalPurpose", () => {
+  it("accepts only the known purposes", () => {
+    expect(isTransmittalPurpose("for_construction")).toBe(true);
+    expect(isTransmittalPurpose("for_tender")).toBe(false);
+    expect(isTransmittalPurpose(undefined)).toBe(false);
+  });
+});
+
+describe("buildDrawingRegister", () => {
+  it("orders by item code and summarises revisions and issues", () => {
+    const rows = buildDrawingRegister([
+      {
+        itemCode: "ITEM-10",
+        itemName: "Reception desk",
+        status: "approved",
+        currentRevision: "B",
+        revisions: [
+          { revision: "B", createdAt: "2026-03-10T09:00:00Z" },
+          { revision: "A", createdAt: "2026-03-01T09:00:00Z" },
+        ],
+        issues: [
+          { code: "P1-TR-004", purpose: "for_construction", sentAt: "2026-03-20T09:00:00Z", revision: "B" },
+          { code: "P1-TR-001", purpose: "for_approval", sentAt: "2026-03-02T09:00:00Z", revision: "A" },
+          { code: "P1-TR-002", purpose: "for_approval", sentAt: "2026-03-11T09:00:00Z", revision: "B" },
+        ],
+      },
+      {
+        itemCode: "ITEM-9",
+        itemName: "Wall panel",
+        status: null,
+        currentRevision: null,
+        revisions: [],
+        issues: [],
+      },
+    ]);
+
+    expect(rows.map((r) => r.itemCode)).toEqual(["ITEM-9", "ITEM-10"]);
+    expect(rows[0]).toMatchObject({
+      status: "Not Uploaded",
+      currentRevision: "-",
+      revisionCount: 0,
+      lastTransmittal: "",
+      lastIssuedAt: null,
+    });
+    expect(rows[1]).toMatchObject({
+      status: "Approved",
+      revisionCount: 2,
+      lastUploadedAt: "2026-03-10T09:00:00Z",
+      issuedRevisions: "A, B",
+      lastTransmittal: "P1-TR-004",
+      lastPurpose: "For Construction",
+    });
+  });
+});
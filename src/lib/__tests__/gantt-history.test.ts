@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { describeItemUpdate, diffRow, findUndoRedoTargets } from "@/lib/gantt-history";
+
+describe("diffRow", () => {
+  it("keeps only the columns whose value changed", () => {
+    const row = diffRow(
+      "gantt_items",
+      "t1",
+      { start_date: "2026-01-05", end_date: "2026-01-09", name: "Cut", updated_at: "a" },
+      { start_date: "2026-01-12", end_date: "2026-01-09", name: "Cut", updated_at: "b" }
+    );
+    expect(row).toEqual({
+      table: "gantt_items",
+      op: "update",
+      id: "t1",
+      before: { start_date: "2026-01-05" },
+      after: { start_date: "2026-01-12" },
+    });
+  });
+
+  it("treats missing and null alike and returns null when nothing changed", () => {
+    expect(diffRow("gantt_items", "t1", { color: null }, { color: undefined })).toBeNull();
+  });
+});
+
+describe("describeItemUpdate", () => {
+  it("names the kind of edit", () => {
+    expect(describeItemUpdate("Cut", ["start_date", "end_date"])).toBe('Moved "Cut"');
+    expect(describeItemUpdate("Cut", ["priority"])).toBe('Changed priority of "Cut"');
+    expect(describeItemUpdate("Cut", ["priority", "name"])).toBe('Edited "Cut"');
+  });
+});
+
+describe("findUndoRedoTargets", () => {
+  const entry = (id: string, undone = false) => ({ id, undoneAt: undone ? "2026-01-01T00:00:00Z" : null });
+
+  it("undoes the newest live entry and redoes the last one undone", () => {
+    // Newest first: c and b were undone (c first, then b)
+    expect(findUndoRedoTargets([entry("c", true), entry("b", true), entry("a")])).toEqual({
+      undoId: "a",
+      redoId: "b",
+    });
+  });
+
+  it("drops undone entries that a later edit cut off", () => {
+    expect(findUndoRedoTargets([entry("d"), entry("c", true), entry("b")])).toEqual({
+      undoId: "d",
+      redoId: null,
+    });
+  });
+
+  it("redoes the edit made after an undo, not the entry it cut off", () => {
+    // A, B, undo B, C, undo C — newest first: C undone, B undone, A live
+    const entries = [
+      { id: "c", undoneAt: "2026-01-01T10:04:00Z" },
+      { id: "b", undoneAt: "2026-01-01T10:02:00Z" },
+      { id: "a", undoneAt: null },
+    ];
+    expect(findUndoRedoTargets(entries)).toEqual({ undoId: "a", redoId: "c" });
+  });
+
+  it("redoes in reverse undo order after several undos", () => {
+    // A, B, C, undo C, undo B — B was undone last
+    const entries = [
+      { id: "c", undoneAt: "2026-01-01T10:04:00Z" },
+      { id: "b", undoneAt: "2026-01-01T10:05:00Z" },
+      { id: "a", undoneAt: null },
+    ];
+    expect(findUndoRedoTargets(entries).redoId).toBe("b");
+  });
+
+  it("handles an empty or fully undone history", () => {
+    expect(findUndoRedoTargets([])).toEqual({ undoId: null, redoId: null });
+    expect(findUndoRedoTargets([entry("b", true), entry("a", true)])).toEqual({ undoId: null, redoId: "a" });
+  });
+});
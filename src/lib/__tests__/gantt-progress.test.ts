@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import {
+  averageScopeProgress,
+  describeProgressSource,
+  type LinkedScopeStatus,
+  scopeItemPhaseProgress,
+} from "@/lib/gantt-progress";
+
+function scope(overrides: Partial<LinkedScopeStatus> = {}): LinkedScopeStatus {
+  return {
+    production_percentage: 0,
+    procurement_status: null,
+    is_shipped: false,
+    is_installed: false,
+    drawing: null,
+    ...overrides,
+  };
+}
+
+describe("scopeItemPhaseProgress", () => {
+  it("reads each phase from its own status field", () => {
+    const item = scope({ production_percentage: 60, procurement_status: "ordered" });
+
+    expect(scopeItemPhaseProgress("production", item)).toBe(60);
+    expect(scopeItemPhaseProgress("procurement", item)).toBe(50);
+    expect(scopeItemPhaseProgress("shipping", item)).toBe(0);
+    expect(scopeItemPhaseProgress("installation", item)).toBe(0);
+    expect(scopeItemPhaseProgress(null, item)).toBe(60);
+  });
+
+  it("treats later milestones as finishing the earlier phases", () => {
+    const shipped = scope({ production_percentage: 40, is_shipped: true });
+    expect(scopeItemPhaseProgress("production", shipped)).toBe(100);
+    expect(scopeItemPhaseProgress("shipping", shipped)).toBe(100);
+    expect(scopeItemPhaseProgress("installation", shipped)).toBe(0);
+
+    const installed = scope({ is_installed: true });
+    for (const phase of ["design", "production", "procurement", "shipping", "installation"] as const) {
+      expect(scopeItemPhaseProgress(phase, installed)).toBe(100);
+    }
+  });
+
+  it("scores design by drawing approval, counting not-required and PM overrides as done", () => {
+    const drawing = (status: string, extra: Partial<NonNullable<LinkedScopeStatus["drawing"]>> = {}) =>
+      scope({ drawing: { status, not_required_at: null, pm_override: false, ...extra } });
+
+    expect(scopeItemPhaseProgress("design", scope())).toBe(0);
+    expect(scopeItemPhaseProgress("design", drawing("sent_to_client"))).toBe(50);
+    expect(scopeItemPhaseProgress("design", drawing("approved_with_comments"))).toBe(100);
+    expect(scopeItemPhaseProgress("design", drawing("rejected", { pm_override: true }))).toBe(100);
+    expect(scopeItemPhaseProgress("design", drawing("not_uploaded", { not_required_at: "2026-03-01" }))).toBe(100);
+  });
+});
+
+describe("averageScopeProgress", () => {
+  it("averages linked items for the task's phase", () => {
+    const items = [scope({ is_shipped: true }), scope(), scope({ is_installed: true }), scope()];
+    expect(averageScopeProgress("shipping", items)).toBe(50);
+    expect(averageScopeProgress("shipping", [])).toBe(0);
+  });
+});
+
+describe("describeProgressSource", () => {
+  it("explains computed and manual progress", () => {
+    expect(describeProgressSource("override")).toBe("Set manually");
+    expect(describeProgressSource("scope", { phaseKey: "shipping", linkedCount: 3 })).toBe(
+      "From 3 linked items · shipment"
+    );
+    expect(describeProgressSource("children", { childCount: 1 })).toBe("Average of 1 subtask");
+    expect(describeProgressSource("none")).toBeNull();
+  });
+});
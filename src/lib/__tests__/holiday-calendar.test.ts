@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { expandHolidayDates, isHoliday, turkishPublicHolidays } from "@/lib/holiday-calendar";
+import { addWorkingDays, workingDaysBetween } from "@/components/gantt/gantt-types";
+
+const MON_FRI = 62;
+
+describe("expandHolidayDates", () => {
+  it("expands inclusive periods across month boundaries", () => {
+    const dates = expandHolidayDates([
+      { start_date: "2026-03-30", end_date: "2026-04-02" },
+      { start_date: "2026-05-01", end_date: "2026-05-01" },
+    ]);
+    expect([...dates]).toEqual(["2026-03-30", "2026-03-31", "2026-04-01", "2026-04-02", "2026-05-01"]);
+    expect(isHoliday(new Date(2026, 3, 1), dates)).toBe(true);
+    expect(isHoliday(new Date(2026, 3, 3), dates)).toBe(false);
+  });
+
+  it("ignores periods that end before they start", () => {
+    expect(expandHolidayDates([{ start_date: "2026-05-02", end_date: "2026-05-01" }]).size).toBe(0);
+  });
+});
+
+describe("turkishPublicHolidays", () => {
+  it("lists fixed and religious holidays for a published year", () => {
+    const holidays = turkishPublicHolidays(2026);
+    expect(holidays).toHaveLength(9);
+    expect(holidays.find((h) => h.name.includes("Ramazan"))).toMatchObject({
+      start_date: "2026-03-20",
+      end_date: "2026-03-22",
+      category: "religious",
+    });
+    expect(holidays.find((h) => h.name.includes("Kurban"))).toMatchObject({
+      start_date: "2026-05-27",
+      end_date: "2026-05-30",
+    });
+    expect(holidays.map((h) => h.start_date)).toEqual([...holidays.map((h) => h.start_date)].sort());
+  });
+
+  it("adds eves only when asked", () => {
+    const withEves = turkishPublicHolidays(2026, { includeEves: true });
+    expect(withEves.find((h) => h.name === "Republic Day Eve")?.start_date).toBe("2026-10-28");
+    expect(withEves.find((h) => h.name.includes("Kurban"))?.start_date).toBe("2026-05-26");
+  });
+
+  it("falls back to fixed-date holidays for unpublished years", () => {
+    expect(turkishPublicHolidays(2031).every((h) => h.category === "public")).toBe(true);
+  });
+});
+
+describe("working-day math with holidays", () => {
+  const bayram = expandHolidayDates(turkishPublicHolidays(2026).filter((h) => h.name.includes("Kurban")));
+
+  it("skips holidays when adding working days", () => {
+    // Tue May 26 + 1 working day: Wed 27 – Sat 30 closed → Mon Jun 1
+    const result = addWorkingDays(new Date(2026, 4, 26), 1, MON_FRI, bayram);
+    expect(result.getMonth()).toBe(5);
+    expect(result.getDate()).toBe(1);
+  });
+
+  it("excludes holidays from durations", () => {
+    expect(workingDaysBetween(new Date(2026, 4, 25), new Date(2026, 5, 1), MON_FRI)).toBe(6);
+    expect(workingDaysBetween(new Date(2026, 4, 25), new Date(2026, 5, 1), MON_FRI, bayram)).toBe(3);
+  });
+});
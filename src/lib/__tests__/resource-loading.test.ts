@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import {
+  bucketResourceLoad,
+  computeResourceLoad,
+  type ResourceAllocationRow,
+} from "@/lib/resource-loading";
+
+const MON_FRI = 62;
+const MON_SAT = 126;
+
+function row(
+  id: string,
+  projectId: string,
+  start: string,
+  end: string,
+  percent: number,
+  overrides: Partial<ResourceAllocationRow> = {}
+): ResourceAllocationRow {
+  return {
+    allocation_id: id,
+    resource_id: "crew-a",
+    allocation_percent: percent,
+    gantt_item_id: `task-${id}`,
+    item_name: `Task ${id}`,
+    start_date: start,
+    end_date: end,
+    project_id: projectId,
+    project_code: projectId.toUpperCase(),
+    project_name: projectId,
+    project_slug: null,
+    project_status: "active",
+    working_days: MON_FRI,
+    use_company_holidays: true,
+    is_assigned: true,
+    ...overrides,
+  };
+}
+
+const crew = [{ id: "crew-a", capacity_percent: 100 }];
+// Mon Mar 2 – Sun Mar 15 2026
+const range = { from: "2026-03-02", to: "2026-03-15" };
+
+describe("computeResourceLoad", () => {
+  it("sums allocations across projects and flags days over capacity", () => {
+    const load = computeResourceLoad(
+      crew,
+      [
+        row("1", "p1", "2026-03-02", "2026-03-06", 60),
+        row("2", "p2", "2026-03-05", "2026-03-10", 60),
+      ],
+      range
+    ).get("crew-a")!;
+
+    expect(load.days.get("2026-03-04")?.load).toBe(60);
+    expect(load.days.get("2026-03-05")?.load).toBe(120);
+    expect(load.overAllocatedDays).toEqual(["2026-03-05", "2026-03-06"]);
+    expect(load.peak).toBe(120);
+  });
+
+  it("only loads days the task's own project works", () => {
+    const load = computeResourceLoad(
+      crew,
+      [
+        row("1", "p1", "2026-03-06", "2026-03-09", 100),
+        row("2", "p2", "2026-03-06", "2026-03-09", 50, { working_days: MON_SAT }),
+      ],
+      range,
+      { companyHolidays: new Set(["2026-03-09"]) }
+    ).get("crew-a")!;
+
+    // Sat Mar 7 only counts for the six-day project; Mon Mar 9 is a company holiday
+    expect(load.days.get("2026-03-07")?.load).toBe(50);
+    expect(load.days.has("2026-03-08")).toBe(false);
+    expect(load.days.has("2026-03-09")).toBe(false);
+  });
+
+  it("respects a project opting out of company holidays", () => {
+    const load = computeResourceLoad(
+      crew,
+      [row("1", "p1", "2026-03-09", "2026-03-09", 100, { use_company_holidays: false })],
+      range,
+      { companyHolidays: new Set(["2026-03-09"]), projectHolidays: new Map([["p2", new Set(["2026-03-09"])]]) }
+    ).get("crew-a")!;
+    expect(load.days.get("2026-03-09")?.load).toBe(100);
+  });
+
+  it("clips allocations to the requested range and keeps idle resources", () => {
+    const loads = computeResourceLoad(
+      [...crew, { id: "crew-b", capacity_percent: 200 }],
+      [row("1", "p1", "2026-02-23", "2026-03-03", 100)],
+      range
+    );
+    expect([...loads.get("crew-a")!.days.keys()]).toEqual(["2026-03-02", "2026-03-03"]);
+    expect(loads.get("crew-b")!.days.size).toBe(0);
+  });
+});
+
+describe("bucketResourceLoad", () => {
+  const load = computeResourceLoad(
+    crew,
+    [row("1", "p1", "2026-03-02", "2026-03-06", 100), row("2", "p2", "2026-03-10", "2026-03-10", 50)],
+    range
+  ).get("crew-a")!;
+
+  it("returns one bucket per day", () => {
+    const buckets = bucketResourceLoad(load, range, "day");
+    expect(buckets).toHaveLength(14);
+    expect(buckets[0].peak).toBe(100);
+    expect(buckets[0].allocationIds).toEqual(["1"]);
+  });
+
+  it("groups Monday-based weeks with peak and average", () => {
+    const buckets = bucketResourceLoad(load, range, "week");
+    expect(buckets).toHaveLength(2);
+    expect(buckets[0]).toMatchObject({ peak: 100, average: 71, overAllocated: false });
+    expect(buckets[1].allocationIds).toEqual(["2"]);
+  });
+});
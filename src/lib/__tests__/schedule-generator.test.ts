@@ -0,0 +1,165 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_PHASE_DURATIONS,
+  type GeneratorScopeItem,
+  normalizePhaseDurations,
+  planGeneratedSchedule,
+  type ScheduleGeneratorOptions,
+} from "@/lib/schedule-generator";
+
+const MON_FRI = 62;
+
+function item(id: string, overrides: Partial<GeneratorScopeItem> = {}): GeneratorScopeItem {
+  return {
+    id,
+    item_code: id.toUpperCase(),
+    name: `Item ${id}`,
+    item_path: "production",
+    expected_delivery_date: null,
+    production_percentage: 0,
+    procurement_status: null,
+    is_shipped: false,
+    is_installed: false,
+    drawingDone: false,
+    alreadyScheduled: false,
+    ...overrides,
+  };
+}
+
+// Mon Mar 2 2026; short durations keep the expected dates easy to follow
+const options: ScheduleGeneratorOptions = {
+  startDate: "2026-03-02",
+  durations: { design: 2, production: 3, procurement: 4, shipping: 1, installation: 2 },
+  grouping: "item",
+  workingDays: MON_FRI,
+};
+
+const span = (schedule: ReturnType<typeof planGeneratedSchedule>, key: string) => {
+  const task = schedule.tasks.find((t) => t.key === key);
+  return task ? [task.start, task.end] : null;
+};
+
+describe("planGeneratedSchedule", () => {
+  it("chains a production item through every phase with same-day FS handovers", () => {
+    const schedule = planGeneratedSchedule([item("a")], options);
+
+    expect(schedule.tasks.map((t) => t.key)).toEqual([
+      "phase:design",
+      "design:a",
+      "phase:production",
+      "production:a",
+      "phase:shipping",
+      "shipping:a",
+      "phase:installation",
+      "installation:a",
+    ]);
+    expect(span(schedule, "design:a")).toEqual(["2026-03-02", "2026-03-03"]);
+    expect(span(schedule, "production:a")).toEqual(["2026-03-03", "2026-03-05"]);
+    expect(span(schedule, "shipping:a")).toEqual(["2026-03-05", "2026-03-05"]);
+    expect(span(schedule, "installation:a")).toEqual(["2026-03-05", "2026-03-06"]);
+    expect(schedule.tasks.find((t) => t.key === "production:a")).toMatchObject({
+      parentKey: "phase:production",
+      name: "A — Item a",
+      scopeItemIds: ["a"],
+    });
+    expect(schedule.links).toEqual([
+      { sourceKey: "design:a", targetKey: "production:a", lagDays: 0 },
+      { sourceKey: "production:a", targetKey: "shipping:a", lagDays: 0 },
+      { sourceKey: "shipping:a", targetKey: "installation:a", lagDays: 0 },
+    ]);
+  });
+
+  it("leaves out work that is already done and skips installed or scheduled items", () => {
+    const schedule = planGeneratedSchedule(
+      [
+        item("drawn", { drawingDone: true }),
+        item("built", { production_percentage: 100 }),
+        item("shipped", { is_shipped: true }),
+        item("received", { item_path: "procurement", procurement_status: "received" }),
+        item("done", { is_installed: true }),
+        item("linked", { alreadyScheduled: true }),
+      ],
+      options
+    );
+
+    const phasesOf = (id: string) =>
+      schedule.tasks.filter((t) => t.scopeItemIds.includes(id)).map((t) => t.phaseKey);
+    expect(phasesOf("drawn")).toEqual(["production", "shipping", "installation"]);
+    expect(phasesOf("built")).toEqual(["shipping", "installation"]);
+    expect(phasesOf("shipped")).toEqual(["installation"]);
+    expect(phasesOf("received")).toEqual(["installation"]);
+    expect(span(schedule, "installation:shipped")).toEqual(["2026-03-02", "2026-03-03"]);
+    expect(schedule.skipped.map((s) => [s.itemId, s.reason])).toEqual([
+      ["done", "Already installed"],
+      ["linked", "Already linked to a timeline task"],
+    ]);
+  });
+
+  it("ends procurement on the expected delivery and holds installation for the site date", () => {
+    const schedule = planGeneratedSchedule(
+      // Delivery on Saturday Mar 14 → last working day Friday Mar 13
+      [item("p", { item_path: "procurement", expected_delivery_date: "2026-03-14" })],
+      { ...options, installationDate: "2026-03-18" }
+    );
+
+    expect(span(schedule, "procurement:p")).toEqual(["2026-03-10", "2026-03-13"]);
+    expect(span(schedule, "installation:p")).toEqual(["2026-03-18", "2026-03-19"]);
+    // addWorkingDays(Fri 13, 3) = Wed 18 — propagation keeps the gap
+    expect(schedule.links).toEqual([{ sourceKey: "procurement:p", targetKey: "installation:p", lagDays: 3 }]);
+  });
+
+  it("falls back to the default duration when the delivery date has passed", () => {
+    const schedule = planGeneratedSchedule(
+      [item("p", { item_path: "procurement", expected_delivery_date: "2026-02-20" })],
+      options
+    );
+
+    expect(span(schedule, "procurement:p")).toEqual(["2026-03-02", "2026-03-05"]);
+    expect(schedule.warnings[0]).toContain("P");
+  });
+
+  it("starts on the first working day after weekends and holidays", () => {
+    const schedule = planGeneratedSchedule([item("a")], {
+      ...options,
+      startDate: "2026-02-28", // Saturday
+      holidays: new Set(["2026-03-02"]),
+    });
+
+    expect(span(schedule, "design:a")).toEqual(["2026-03-03", "2026-03-04"]);
+  });
+
+  it("builds one task per phase and waits for both shipping and procurement before installation", () => {
+    const schedule = planGeneratedSchedule(
+      [item("a"), item("p", { item_path: "procurement", expected_delivery_date: "2026-03-20" })],
+      { ...options, grouping: "phase" }
+    );
+
+    expect(schedule.tasks.map((t) => [t.key, t.parentKey, t.start, t.end])).toEqual([
+      ["phase:design", null, "2026-03-02", "2026-03-03"],
+      ["phase:production", null, "2026-03-03", "2026-03-05"],
+      ["phase:procurement", null, "2026-03-02", "2026-03-20"],
+      ["phase:shipping", null, "2026-03-05", "2026-03-05"],
+      ["phase:installation", null, "2026-03-20", "2026-03-23"],
+    ]);
+    expect(schedule.tasks.find((t) => t.key === "phase:installation")?.scopeItemIds).toEqual(["a", "p"]);
+    expect(schedule.links).toEqual([
+      { sourceKey: "phase:design", targetKey: "phase:production", lagDays: 0 },
+      { sourceKey: "phase:production", targetKey: "phase:shipping", lagDays: 0 },
+      { sourceKey: "phase:shipping", targetKey: "phase:installation", lagDays: 11 },
+      { sourceKey: "phase:procurement", targetKey: "phase:installation", lagDays: 0 },
+    ]);
+  });
+});
+
+describe("normalizePhaseDurations", () => {
+  it("keeps valid whole days and falls back to defaults for the rest", () => {
+    expect(
+      normalizePhaseDurations({ design: 7.4, production: 0, shipping: "abc", installation: 9999 })
+    ).toEqual({
+      ...DEFAULT_PHASE_DURATIONS,
+      design: 7,
+      installation: 365,
+    });
+    expect(normalizePhaseDurations(null)).toEqual(DEFAULT_PHASE_DURATIONS);
+  });
+});
@@ -0,0 +1,217 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildInterchangeSchedule,
+  buildMspdiXml,
+  buildXer,
+  parseMspdiXml,
+  parseXer,
+  planScheduleImport,
+  p6GuidToUuid,
+  uuidToP6Guid,
+  type InterchangeSchedule,
+} from "@/lib/schedule-interchange";
+import type { GanttDependency, GanttItem } from "@/lib/actions/timelines";
+
+const MON_FRI = 62;
+const MON_SAT = 126;
+
+const ID = {
+  phase: "00000000-0000-4000-8000-000000000001",
+  design: "11111111-1111-4111-8111-111111111111",
+  sketch: "22222222-2222-4222-8222-222222222222",
+  approve: "33333333-3333-4333-8333-333333333333",
+  produce: "44444444-4444-4444-8444-444444444444",
+  handover: "55555555-5555-4555-8555-555555555555",
+};
+
+function item(id: string, name: string, start: string, end: string, overrides: Partial<GanttItem> = {}): GanttItem {
+  return {
+    id,
+    project_id: "p1",
+    name,
+    item_type: "task",
+    phase_key: null,
+    parent_id: null,
+    sort_order: 1,
+    start_date: start,
+    end_date: end,
+    priority: 2,
+    progress_override: null,
+    is_completed: false,
+    completed_at: null,
+    color: null,
+    created_by: null,
+    created_at: null,
+    updated_at: null,
+    progress: 0,
+    linked_scope_item_ids: [],
+    ...overrides,
+  };
+}
+
+function dep(id: string, source: string, target: string, type = 0, lag = 0): GanttDependency {
+  return {
+    id,
+    project_id: "p1",
+    source_id: source,
+    target_id: target,
+    dependency_type: type,
+    lag_days: lag,
+    created_at: null,
+    created_by: null,
+  };
+}
+
+const items: GanttItem[] = [
+  item(ID.phase, "Design/Shopdrawing", "2026-03-02", "2026-03-13", { item_type: "phase", phase_key: "design" }),
+  item(ID.design, "Design package", "2026-03-02", "2026-03-06", { phase_key: "design", priority: 3 }),
+  item(ID.sketch, "Sketches", "2026-03-02", "2026-03-04", { phase_key: "design", parent_id: ID.design, progress: 50, progress_override: 50 }),
+  item(ID.approve, "Client approval", "2026-03-05", "2026-03-06", { phase_key: "design", parent_id: ID.design }),
+  item(ID.produce, "Cabinet production", "2026-03-09", "2026-03-20", { phase_key: "production", priority: 4 }),
+  item(ID.handover, "Handover", "2026-03-23", "2026-03-23", { item_type: "milestone", is_completed: true }),
+];
+
+const dependencies: GanttDependency[] = [
+  dep("d1", ID.sketch, ID.approve, 0, 0),
+  dep("d2", ID.approve, ID.produce, 1, 2),
+  dep("d3", ID.produce, ID.handover, 2, -1),
+];
+
+const schedule = buildInterchangeSchedule(items, dependencies, MON_SAT, "Villa Kaş");
+
+function strip(s: InterchangeSchedule) {
+  return {
+    tasks: s.tasks.map(({ uid, name, type, phaseKey, parentUid, start, end, priority, progress }) => ({
+      uid,
+      name,
+      type,
+      phaseKey,
+      parentUid,
+      start,
+      end,
+      priority,
+      progress,
+    })),
+    links: s.links,
+    workingDaysMask: s.workingDaysMask,
+  };
+}
+
+describe("buildInterchangeSchedule", () => {
+  it("drops phase items and keeps the phase as a label on every task", () => {
+    expect(schedule.tasks.map((t) => [t.name, t.phaseKey, t.parentUid])).toEqual([
+      ["Design package", "design", null],
+      ["Sketches", "design", ID.design],
+      ["Client approval", "design", ID.design],
+      ["Cabinet production", "production", null],
+      ["Handover", null, null],
+    ]);
+    expect(schedule.tasks.find((t) => t.type === "milestone")?.progress).toBe(100);
+  });
+});
+
+describe("MS Project XML", () => {
+  it("round-trips tasks, hierarchy, links, lags and the calendar", () => {
+    const parsed = parseMspdiXml(buildMspdiXml(schedule));
+    expect(strip(parsed)).toEqual(strip(schedule));
+    expect(parsed.projectName).toBe("Villa Kaş");
+  });
+
+  it("writes MS Project link types and lag in tenths of a minute", () => {
+    const xml = buildMspdiXml(schedule);
+    // Our SS (1) is MSP type 3; 2 days × 8h × 600 = 9600
+    expect(xml).toMatch(/<PredecessorUID>\d+<\/PredecessorUID>\s*<Type>3<\/Type>[\s\S]*?<LinkLag>9600<\/LinkLag>/);
+  });
+
+  it("rejects files that are not MSPDI", () => {
+    expect(() => parseMspdiXml("<html><body/></html>")).toThrow("Not a Microsoft Project XML file");
+  });
+});
+
+describe("Primavera XER", () => {
+  it("round-trips tasks, WBS hierarchy, links, lags and the calendar", () => {
+    const parsed = parseXer(buildXer(schedule, "FC-2026-014"));
+    const expected = strip(schedule);
+    // WBS nodes have no priority in P6
+    expected.tasks[0].priority = 2;
+    expect(strip(parsed)).toEqual(expected);
+  });
+
+  it("converts UUIDs to 22-character P6 GUIDs and back", () => {
+    const guid = uuidToP6Guid(ID.design);
+    expect(guid).toHaveLength(22);
+    expect(p6GuidToUuid(guid)).toBe(ID.design);
+  });
+
+  it("maps P6 relationship types and hour lags", () => {
+    const xer = buildXer(schedule, "FC-2026-014");
+    expect(xer).toContain("\tPR_SS\t16");
+    expect(xer).toContain("\tPR_FF\t-8");
+  });
+});
+
+describe("planScheduleImport", () => {
+  const options = { mode: "merge" as const, currentWorkingDays: MON_FRI, applyCalendar: true };
+
+  it("reports nothing to do when the file matches the timeline", () => {
+    const plan = planScheduleImport(items, dependencies, { ...schedule, workingDaysMask: MON_FRI }, options);
+    expect(plan.creates).toHaveLength(0);
+    expect(plan.updates).toHaveLength(0);
+    expect(plan.links.create).toHaveLength(0);
+    expect(plan.links.update).toHaveLength(0);
+    expect(plan.unchanged).toBe(5);
+    expect(plan.calendar).toBeNull();
+  });
+
+  it("merges by name when ids differ, adding new tasks without deleting", () => {
+    const incoming: InterchangeSchedule = {
+      projectName: null,
+      workingDaysMask: MON_SAT,
+      tasks: [
+        { uid: "7", name: "cabinet  production", type: "task", phaseKey: null, parentUid: null, start: "2026-03-10", end: "2026-03-24", priority: 4, progress: 0, description: null },
+        { uid: "8", name: "Site measure", type: "task", phaseKey: "installation", parentUid: null, start: "2026-03-02", end: "2026-03-03", priority: 2, progress: 0, description: null },
+      ],
+      links: [{ sourceUid: "8", targetUid: "7", type: 0, lagDays: 0 }],
+      warnings: [],
+    };
+
+    const plan = planScheduleImport(items, dependencies, incoming, options);
+
+    expect(plan.matched["7"]).toBe(ID.produce);
+    expect(plan.creates.map((t) => t.name)).toEqual(["Site measure"]);
+    expect(plan.updates).toHaveLength(1);
+    expect(plan.updates[0].patch).toEqual({
+      name: "cabinet  production",
+      start_date: "2026-03-10",
+      end_date: "2026-03-24",
+    });
+    expect(plan.deletes).toHaveLength(0);
+    expect(plan.links.create).toHaveLength(1);
+    expect(plan.links.remove).toHaveLength(0);
+    expect(plan.calendar).toEqual({ from: MON_FRI, to: MON_SAT });
+  });
+
+  it("replace removes tasks and links missing from the file", () => {
+    const subset: InterchangeSchedule = {
+      ...schedule,
+      tasks: schedule.tasks.filter((t) => t.uid !== ID.handover),
+      links: schedule.links.filter((l) => l.targetUid !== ID.produce),
+    };
+
+    const plan = planScheduleImport(items, dependencies, subset, { ...options, mode: "replace" });
+
+    expect(plan.deletes).toEqual([{ id: ID.handover, name: "Handover" }]);
+    // d3 cascades with Handover; only d2 is removed explicitly
+    expect(plan.links.remove).toEqual([{ dependencyId: "d2" }]);
+  });
+
+  it("skips links that touch summary tasks", () => {
+    const withSummaryLink: InterchangeSchedule = {
+      ...schedule,
+      links: [...schedule.links, { sourceUid: ID.design, targetUid: ID.produce, type: 0, lagDays: 0 }],
+    };
+    const plan = planScheduleImport(items, dependencies, withSummaryLink, options);
+    expect(plan.links.skipped).toBe(1);
+    expect(plan.warnings[0]).toMatch(/summary tasks skipped/);
+  });
+});
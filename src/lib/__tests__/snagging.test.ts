@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import {
+  defaultTargetFixDate,
+  groupSnagListByArea,
+  isSnagOverdue,
+  snagDaysOverdue,
+} from "@/lib/snagging";
+
+describe("defaultTargetFixDate", () => {
+  const reported = new Date(2026, 2, 10); // Mar 10, 2026 (local)
+
+  it("applies the severity SLA", () => {
+    expect(defaultTargetFixDate("critical", reported)).toBe("2026-03-12");
+    expect(defaultTargetFixDate("major", reported)).toBe("2026-03-17");
+    expect(defaultTargetFixDate("minor", reported)).toBe("2026-03-24");
+  });
+
+  it("rolls over month boundaries", () => {
+    expect(defaultTargetFixDate("minor", new Date(2026, 0, 25))).toBe("2026-02-08");
+  });
+});
+
+describe("snagDaysOverdue", () => {
+  const today = new Date(2026, 2, 20);
+
+  it("counts days past the target date for open snags", () => {
+    expect(snagDaysOverdue({ is_resolved: false, target_fix_date: "2026-03-17" }, today)).toBe(3);
+  });
+
+  it("is not overdue on the target date itself", () => {
+    expect(snagDaysOverdue({ is_resolved: false, target_fix_date: "2026-03-20" }, today)).toBe(0);
+    expect(isSnagOverdue({ is_resolved: false, target_fix_date: "2026-03-20" }, today)).toBe(false);
+  });
+
+  it("ignores resolved snags and snags without a target date", () => {
+    expect(snagDaysOverdue({ is_resolved: true, target_fix_date: "2026-03-01" }, today)).toBe(0);
+    expect(snagDaysOverdue({ is_resolved: false, target_fix_date: null }, today)).toBe(0);
+  });
+
+  it("flags breached snags as overdue", () => {
+    expect(isSnagOverdue({ is_resolved: false, target_fix_date: "2026-03-01" }, today)).toBe(true);
+  });
+});
+
+describe("groupSnagListByArea", () => {
+  const areas = [
+    { id: "a-lobby", area_code: "GF-01", name: "Lobby", floor: "Ground" },
+    { id: "a-shop", area_code: "GF-02", name: "Shop", floor: "Ground" },
+    { id: "a-office", area_code: "L1-01", name: "Office", floor: "Level 1" },
+  ];
+
+  const snag = (id: string, area_id: string | null, extra: Record<string, unknown> = {}) => ({
+    id,
+    area_id,
+    is_resolved: false,
+    area: null as { area_code: string; name: string; floor: string } | null,
+    ...extra,
+  });
+
+  it("follows the project's area order and keeps snag order within an area", () => {
+    const groups = groupSnagListByArea(
+      [snag("s1", "a-office"), snag("s2", "a-lobby"), snag("s3", "a-office")],
+      areas
+    );
+    expect(groups.map((g) => [g.floor, g.areaLabel, g.snags.map((s) => s.id)])).toEqual([
+      ["Ground", "GF-01 — Lobby", ["s2"]],
+      ["Level 1", "L1-01 — Office", ["s1", "s3"]],
+    ]);
+  });
+
+  it("leaves resolved snags and empty areas off the list", () => {
+    const groups = groupSnagListByArea(
+      [snag("s1", "a-shop", { is_resolved: true }), snag("s2", "a-lobby")],
+      areas
+    );
+    expect(groups.map((g) => g.areaLabel)).toEqual(["GF-01 — Lobby"]);
+  });
+
+  it("labels areas missing from the list from the snag, then puts unassigned snags last", () => {
+    const groups = groupSnagListByArea(
+      [
+        snag("s1", null),
+        snag("s2", "a-gone", { area: { area_code: "B1-01", name: "Store", floor: "Basement" } }),
+        snag("s3", "a-unknown"),
+        snag("s4", "a-lobby"),
+      ],
+      areas
+    );
+    expect(groups.map((g) => [g.floor, g.areaLabel, g.snags.map((s) => s.id)])).toEqual([
+      ["Ground", "GF-01 — Lobby", ["s4"]],
+      ["Basement", "B1-01 — Store", ["s2"]],
+      ["Other", "Unknown area", ["s3"]],
+      ["Unassigned", "No area", ["s1"]],
+    ]);
+  });
+
+  it("returns no groups when every snag is resolved", () => {
+    expect(groupSnagListByArea([snag("s1", "a-lobby", { is_resolved: true })], areas)).toEqual([]);
+  });
+});
@@ -0,0 +1,495 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// ============================================================================
+// Mock Setup — Supabase chainable query builder (results keyed by table)
+// ============================================================================
+
+let mockResults: Record<string, { data: unknown; error: unknown }> = {};
+
+// Per-table results consumed in call order before falling back to mockResults
+let mockQueues: Record<string, { data: unknown; error: unknown }[]> = {};
+
+const mockCalls: { table: string; method: string; args: unknown[] }[] = [];
+
+let mockUser: { id: string; email: string } | null = {
+  id: "test-user-id",
+  email: "pm@test.com",
+};
+
+let mockRole = "pm";
+
+const BRAND_ID = "0b6f1f4e-3c1a-4d2e-9f6a-1a2b3c4d5e6f";
+const FIRM_ID = "1c7a2b5f-4d2b-4e3f-8a7b-2b3c4d5e6f7a";
+const CONTACT_ID = "2d8b3c6a-5e3c-4f4a-9b8c-3c4d5e6f7a8b";
+
+function resultFor(table: string) {
+  const queued = mockQueues[table]?.shift();
+  return queued ?? mockResults[table] ?? { data: null, error: null };
+}
+
+function createChainMock(table: string) {
+  const chain: Record<string, unknown> = {};
+
+  const methods = [
+    "select", "insert", "update", "delete", "eq", "in", "order",
+    "single", "is", "neq", "limit", "maybeSingle", "or", "ilike",
+    "not", "lte",
+  ];
+
+  for (const method of methods) {
+    chain[method] = vi.fn((...args: unknown[]) => {
+      mockCalls.push({ table, method, args });
+      if (method === "single" || method === "maybeSingle") {
+        return Promise.resolve(resultFor(table));
+      }
+      return Object.assign(chain, {
+        then: (resolve: (v: unknown) => void) => resolve(resultFor(table)),
+      });
+    });
+  }
+
+  return chain;
+}
+
+vi.mock("@/lib/supabase/server", () => ({
+  createClient: vi.fn(() =>
+    Promise.resolve({
+      from: vi.fn((table: string) => createChainMock(table)),
+      rpc: vi.fn((fn: string, args: unknown) => {
+        mockCalls.push({ table: "rpc", method: fn, args: [args] });
+        return Promise.resolve({ data: "CODE-0001", error: null });
+      }),
+      auth: {
+        getUser: vi.fn(() => Promise.resolve({ data: { user: mockUser }, error: null })),
+      },
+    })
+  ),
+  getUserRoleFromJWT: vi.fn(() => Promise.resolve(mockRole)),
+}));
+
+vi.mock("@/lib/sanitize", () => ({
+  sanitizeText: vi.fn((v: string) => v),
+}));
+
+const mockLogActivity = vi.fn(() => Promise.resolve({ success: true }));
+vi.mock("@/lib/activity-log/actions", () => ({
+  logActivity: (...args: unknown[]) => mockLogActivity(...(args as [])),
+}));
+
+vi.mock("@/lib/actions/projects", () => ({
+  getNextProjectCode: vi.fn(() => Promise.resolve("2610")),
+}));
+
+vi.mock("next/cache", () => ({
+  revalidatePath: vi.fn(),
+}));
+
+// ============================================================================
+// Import server actions AFTER mocks
+// ============================================================================
+
+import {
+  createBrand,
+  deleteBrand,
+  createFirm,
+  createContact,
+  createOpportunity,
+  updateOpportunityStage,
+  createActivity,
+  updateActivity,
+  deleteActivity,
+  getActivities,
+  completeFollowUp,
+  linkBrandToFirm,
+  unlinkBrandFromFirm,
+  convertOpportunityToProject,
+} from "../crm";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function callsTo(table: string, method: string) {
+  return mockCalls
+    .filter((c) => c.table === table && c.method === method)
+    .map((c) => c.args[0] as Record<string, unknown>);
+}
+
+beforeEach(() => {
+  mockResults = {};
+  mockQueues = {};
+  mockCalls.length = 0;
+  mockUser = { id: "test-user-id", email: "pm@test.com" };
+  mockRole = "pm";
+  mockLogActivity.mockClear();
+});
+
+// ============================================================================
+// Role checks
+// ============================================================================
+
+describe("CRM role checks", () => {
+  it("rejects unauthenticated users", async () => {
+    mockUser = null;
+    const result = await createBrand({ name: "Maison", tier: "luxury" });
+    expect(result).toEqual({ success: false, error: "Not authenticated" });
+  });
+
+  it("does not let management write", async () => {
+    mockRole = "management";
+    const result = await createBrand({ name: "Maison", tier: "luxury" });
+    expect(result).toEqual({ success: false, error: "Insufficient permissions" });
+    expect(callsTo("crm_brands", "insert")).toHaveLength(0);
+  });
+
+  it("does not let a PM delete", async () => {
+    const result = await deleteBrand("brand-1");
+    expect(result).toEqual({ success: false, error: "Insufficient permissions" });
+  });
+
+  it("soft-deletes brands for admins", async () => {
+    mockRole = "admin";
+    const result = await deleteBrand("brand-1");
+    expect(result.success).toBe(true);
+    expect(callsTo("crm_brands", "update")).toEqual([{ is_deleted: true }]);
+    expect(callsTo("crm_brands", "delete")).toHaveLength(0);
+  });
+});
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+describe("CRM payload validation", () => {
+  it("requires a brand name and a known tier", async () => {
+    expect(await createBrand({ name: "  ", tier: "luxury" })).toEqual({
+      success: false,
+      error: "Brand name is required",
+    });
+    expect(await createBrand({ name: "Maison", tier: "budget" as never })).toMatchObject({
+      success: false,
+    });
+    expect(callsTo("crm_brands", "insert")).toHaveLength(0);
+  });
+
+  it("creates a brand and logs it", async () => {
+    mockResults.crm_brands = { data: { id: "brand-1" }, error: null };
+    const result = await createBrand({ name: "Maison", tier: "luxury", store_count: 12 });
+    expect(result).toEqual({ success: true, data: { id: "brand-1" } });
+    expect(callsTo("rpc", "generate_entity_code")).toEqual([{ p_entity_type: "crm_brand" }]);
+    expect(callsTo("crm_brands", "insert")[0]).toMatchObject({
+      brand_code: "CODE-0001",
+      name: "Maison",
+      tier: "luxury",
+      store_count: 12,
+      priority: "medium",
+    });
+    expect(mockLogActivity).toHaveBeenCalledWith(
+      expect.objectContaining({ action: "crm_brand_created", entityId: "brand-1" })
+    );
+  });
+
+  it("requires both contact names", async () => {
+    const result = await createContact({ first_name: "Ada", last_name: "  " });
+    expect(result).toEqual({ success: false, error: "First and last name are required" });
+  });
+
+  it("rejects probabilities outside 0-100", async () => {
+    const result = await createOpportunity({ title: "Flagship", probability: 140 });
+    expect(result).toEqual({ success: false, error: "Probability must be 0–100" });
+  });
+
+  it("rejects unknown activity types", async () => {
+    const result = await createActivity({
+      activity_type: "telegram" as never,
+      title: "Ping",
+      activity_date: "2026-01-10",
+    });
+    expect(result).toMatchObject({ success: false });
+    expect(callsTo("crm_activities", "insert")).toHaveLength(0);
+  });
+
+  it("rejects dates that do not parse and stores cleared dates as null", async () => {
+    expect(await createOpportunity({ title: "Flagship", expected_close_date: "next week" })).toEqual({
+      success: false,
+      error: "Invalid date",
+    });
+
+    mockResults.crm_architecture_firms = { data: { id: "firm-1" }, error: null };
+    await createFirm({ name: "Studio", vendor_application_date: "" });
+    expect(callsTo("crm_architecture_firms", "insert")[0]).toMatchObject({
+      vendor_application_date: null,
+    });
+  });
+});
+
+// ============================================================================
+// Opportunity stage changes
+// ============================================================================
+
+describe("updateOpportunityStage", () => {
+  it("rejects unknown stages", async () => {
+    const result = await updateOpportunityStage("opp-1", "closed" as never);
+    expect(result).toEqual({ success: false, error: "Invalid stage" });
+  });
+
+  it("returns not found for missing opportunities", async () => {
+    mockResults.crm_opportunities = { data: null, error: { message: "no rows" } };
+    const result = await updateOpportunityStage("opp-1", "meeting");
+    expect(result).toEqual({ success: false, error: "Opportunity not found" });
+  });
+
+  it("skips the update when the stage is unchanged", async () => {
+    mockResults.crm_opportunities = {
+      data: { id: "opp-1", stage: "meeting", title: "Flagship" },
+      error: null,
+    };
+    const result = await updateOpportunityStage("opp-1", "meeting");
+    expect(result.success).toBe(true);
+    expect(callsTo("crm_opportunities", "update")).toHaveLength(0);
+  });
+
+  it("sets probability to 100 when won", async () => {
+    mockResults.crm_opportunities = {
+      data: { id: "opp-1", stage: "negotiation", title: "Flagship" },
+      error: null,
+    };
+    await updateOpportunityStage("opp-1", "won");
+    expect(callsTo("crm_opportunities", "update")[0]).toEqual({
+      stage: "won",
+      loss_reason: null,
+      probability: 100,
+    });
+    expect(mockLogActivity).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: "crm_opportunity_stage_changed",
+        details: { title: "Flagship", from: "negotiation", to: "won" },
+      })
+    );
+  });
+
+  it("records the loss reason and zeroes probability when lost", async () => {
+    mockResults.crm_opportunities = {
+      data: { id: "opp-1", stage: "proposal", title: "Flagship" },
+      error: null,
+    };
+    await updateOpportunityStage("opp-1", "lost", "Went with local joinery");
+    expect(callsTo("crm_opportunities", "update")[0]).toEqual({
+      stage: "lost",
+      loss_reason: "Went with local joinery",
+      probability: 0,
+    });
+  });
+});
+
+// ============================================================================
+// Activities + links
+// ============================================================================
+
+describe("createActivity", () => {
+  it("stamps the author and bumps the contact's last interaction date", async () => {
+    mockResults.crm_activities = { data: { id: "act-1" }, error: null };
+    const result = await createActivity({
+      activity_type: "meeting",
+      title: "Store concept review",
+      activity_date: "2026-03-02",
+      contact_id: CONTACT_ID,
+    });
+
+    expect(result.success).toBe(true);
+    expect(callsTo("crm_activities", "insert")[0]).toMatchObject({ user_id: "test-user-id" });
+    expect(callsTo("crm_contacts", "update")).toEqual([{ last_interaction_date: "2026-03-02" }]);
+  });
+
+  it("requires a due date on follow-up activities", async () => {
+    const result = await createActivity({
+      activity_type: "follow_up",
+      title: "Chase sample feedback",
+      activity_date: "2026-03-02",
+    });
+    expect(result).toEqual({ success: false, error: "Follow-ups need a due date" });
+    expect(callsTo("crm_activities", "insert")).toHaveLength(0);
+  });
+});
+
+describe("activity edits", () => {
+  it("logs updates and deletes", async () => {
+    await updateActivity("act-1", { activity_type: "call", title: "Intro call", activity_date: "2026-03-02" });
+    mockRole = "admin";
+    await deleteActivity("act-1");
+
+    expect(mockLogActivity).toHaveBeenCalledWith(
+      expect.objectContaining({ action: "crm_activity_updated", entityId: "act-1" })
+    );
+    expect(mockLogActivity).toHaveBeenCalledWith(
+      expect.objectContaining({ action: "crm_activity_deleted", entityId: "act-1" })
+    );
+  });
+});
+
+describe("CRM follow-ups", () => {
+  it("filters to the user's open follow-ups due today or earlier", async () => {
+    mockResults.crm_activities = { data: [], error: null };
+    await getActivities({ follow_ups: "due", mine: true });
+
+    const eqCalls = mockCalls.filter((c) => c.table === "crm_activities" && c.method === "eq");
+    expect(eqCalls.map((c) => c.args)).toContainEqual(["user_id", "test-user-id"]);
+    expect(callsTo("crm_activities", "is")).toEqual(["follow_up_completed_at"]);
+    expect(callsTo("crm_activities", "lte")).toEqual(["next_action_date"]);
+  });
+
+  it("marks a follow-up done once", async () => {
+    mockResults.crm_activities = {
+      data: { id: "act-1", title: "Intro call", next_action: "Send deck" },
+      error: null,
+    };
+    const result = await completeFollowUp("act-1");
+
+    expect(result.success).toBe(true);
+    expect(callsTo("crm_activities", "update")[0]).toHaveProperty("follow_up_completed_at");
+    expect(mockLogActivity).toHaveBeenCalledWith(
+      expect.objectContaining({ action: "crm_follow_up_completed", entityId: "act-1" })
+    );
+  });
+
+  it("reports follow-ups that are already done", async () => {
+    mockResults.crm_activities = { data: null, error: null };
+    const result = await completeFollowUp("act-1");
+    expect(result).toEqual({ success: false, error: "Follow-up not found or already completed" });
+  });
+
+  it("does not let management complete follow-ups", async () => {
+    mockRole = "management";
+    const result = await completeFollowUp("act-1");
+    expect(result).toEqual({ success: false, error: "Insufficient permissions" });
+  });
+});
+
+describe("brand ↔ firm links", () => {
+  it("reports duplicate links in plain language", async () => {
+    mockResults.crm_brand_firm_links = {
+      data: null,
+      error: { code: "23505", message: "duplicate key value" },
+    };
+    const result = await linkBrandToFirm({ brand_id: BRAND_ID, architecture_firm_id: FIRM_ID });
+    expect(result).toEqual({ success: false, error: "This brand and firm are already linked" });
+  });
+
+  it("requires both sides of the link", async () => {
+    const result = await linkBrandToFirm({ brand_id: BRAND_ID, architecture_firm_id: "" });
+    expect(result).toEqual({ success: false, error: "Firm is required" });
+  });
+
+  it("only lets admins remove links", async () => {
+    const result = await unlinkBrandFromFirm("link-1");
+    expect(result).toEqual({ success: false, error: "Insufficient permissions" });
+  });
+});
+
+// ============================================================================
+// Opportunity → project conversion
+// ============================================================================
+
+describe("convertOpportunityToProject", () => {
+  const wonOpportunity = {
+    id: "opp-1",
+    title: "Flagship fit-out",
+    description: "Ground floor + mezzanine",
+    stage: "won",
+    estimated_value: 250000,
+    currency: "EUR",
+    brand: { name: "Maison" },
+    architecture_firm: null,
+  };
+
+  it("only converts won opportunities", async () => {
+    mockResults.crm_opportunities = { data: { ...wonOpportunity, stage: "proposal" }, error: null };
+    const result = await convertOpportunityToProject("opp-1", {});
+    expect(result).toEqual({ success: false, error: "Only won opportunities can be converted" });
+    expect(callsTo("projects", "insert")).toHaveLength(0);
+  });
+
+  it("refuses a second conversion", async () => {
+    mockResults.crm_opportunities = { data: wonOpportunity, error: null };
+    mockResults.projects = { data: { project_code: "2601" }, error: null };
+    const result = await convertOpportunityToProject("opp-1", {});
+    expect(result).toEqual({
+      success: false,
+      error: "Opportunity already converted to project 2601",
+    });
+  });
+
+  it("creates a client from the brand and a tender project with the opportunity value", async () => {
+    mockResults.crm_opportunities = { data: wonOpportunity, error: null };
+    mockResults.crm_contacts = {
+      data: { first_name: "Ada", last_name: "Lovelace", email: "ada@maison.com", phone: null, company: null },
+      error: null,
+    };
+    mockQueues.clients = [
+      { data: null, error: null }, // no name match
+      { data: { id: "client-new" }, error: null },
+    ];
+    mockQueues.projects = [
+      { data: null, error: null }, // not converted yet
+      { data: { id: "project-1" }, error: null },
+    ];
+
+    const result = await convertOpportunityToProject("opp-1", { contact_id: CONTACT_ID });
+
+    expect(result).toEqual({
+      success: true,
+      data: { projectId: "project-1", projectCode: "2610", clientId: "client-new", clientCreated: true },
+    });
+    expect(callsTo("clients", "insert")[0]).toEqual({
+      company_name: "Maison",
+      contact_person: "Ada Lovelace",
+      email: "ada@maison.com",
+      phone: null,
+    });
+    expect(callsTo("projects", "insert")[0]).toMatchObject({
+      project_code: "2610",
+      name: "Flagship fit-out",
+      client_id: "client-new",
+      status: "tender",
+      contract_value_manual: 250000,
+      currency: "EUR",
+      crm_opportunity_id: "opp-1",
+      created_by: "test-user-id",
+    });
+  });
+
+  it("reuses an existing client with the same name", async () => {
+    mockResults.crm_opportunities = { data: wonOpportunity, error: null };
+    mockQueues.clients = [{ data: { id: "client-existing" }, error: null }];
+    mockQueues.projects = [
+      { data: null, error: null },
+      { data: { id: "project-1" }, error: null },
+    ];
+
+    const result = await convertOpportunityToProject("opp-1", {});
+
+    expect(result.data?.clientId).toBe("client-existing");
+    expect(result.data?.clientCreated).toBe(false);
+    expect(callsTo("clients", "insert")).toHaveLength(0);
+  });
+
+  it("soft-deletes the new client when the project insert fails", async () => {
+    mockResults.crm_opportunities = { data: wonOpportunity, error: null };
+    mockQueues.clients = [
+      { data: null, error: null },
+      { data: { id: "client-new" }, error: null },
+    ];
+    mockQueues.projects = [
+      { data: null, error: null },
+      { data: null, error: { code: "23505", message: "duplicate key projects_project_code_key" } },
+    ];
+
+    const result = await convertOpportunityToProject("opp-1", {});
+
+    expect(result).toEqual({
+      success: false,
+      error: 'Project code "2610" already exists. Please try again.',
+    });
+    expect(callsTo("clients", "update")).toEqual([{ is_deleted: true }]);
+  });
+});
@@ -0,0 +1,330 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// ============================================================================
+// Mock Setup — Supabase chainable query builder (results keyed by table)
+// ============================================================================
+
+let mockResults: Record<string, { data: unknown; error: unknown }> = {};
+
+const mockCalls: { table: string; method: string; args: unknown[] }[] = [];
+
+let mockUser: { id: string; email: string } | null = {
+  id: "test-user-id",
+  email: "pm@test.com",
+};
+
+function resultFor(table: string) {
+  return mockResults[table] ?? { data: null, error: null };
+}
+
+/**
+ * Creates a chainable mock that records method calls per table and returns
+ * itself until a terminal method is called (which returns that table's result).
+ */
+function createChainMock(table: string) {
+  const chain: Record<string, unknown> = {};
+
+  const methods = [
+    "select", "insert", "update", "delete", "eq", "in", "order",
+    "single", "is", "neq", "limit", "maybeSingle",
+  ];
+
+  for (const method of methods) {
+    chain[method] = vi.fn((...args: unknown[]) => {
+      mockCalls.push({ table, method, args });
+      if (method === "single" || method === "maybeSingle") {
+        return Promise.resolve(resultFor(table));
+      }
+      return Object.assign(chain, {
+        then: (resolve: (v: unknown) => void) => resolve(resultFor(table)),
+      });
+    });
+  }
+
+  return chain;
+}
+
+vi.mock("@/lib/supabase/server", () => ({
+  createClient: vi.fn(() =>
+    Promise.resolve({
+      from: vi.fn((table: string) => createChainMock(table)),
+      auth: {
+        getUser: vi.fn(() => Promise.resolve({ data: { user: mockUser }, error: null })),
+      },
+    })
+  ),
+}));
+
+vi.mock("@/lib/sanitize", () => ({
+  sanitizeText: vi.fn((v: string) => v),
+}));
+
+const mockLogActivity = vi.fn(() => Promise.resolve({ success: true }));
+vi.mock("@/lib/activity-log/actions", () => ({
+  logActivity: (...args: unknown[]) => mockLogActivity(...(args as [])),
+}));
+
+const mockCreateNotification = vi.fn(() => Promise.resolve({ success: true }));
+const mockNotifyProjectPMs = vi.fn(() => Promise.resolve());
+vi.mock("@/lib/notifications/actions", () => ({
+  createNotification: (...args: unknown[]) => mockCreateNotification(...(args as [])),
+  notifyProjectPMs: (...args: unknown[]) => mockNotifyProjectPMs(...(args as [])),
+}));
+
+// ============================================================================
+// Import server actions AFTER mocks
+// ============================================================================
+
+import {
+  createSnaggingItem,
+  updateSnaggingItem,
+  assignSnaggingItem,
+  resolveSnaggingItem,
+  reopenSnaggingItem,
+  deleteSnaggingItem,
+} from "../snagging";
+
+// ============================================================================
+// Test Data
+// ============================================================================
+
+const PROJECT_ID = "proj-001";
+const SNAG_ID = "snag-001";
+
+function makeSnag(overrides: Partial<Record<string, unknown>> = {}) {
+  return {
+    id: SNAG_ID,
+    project_id: PROJECT_ID,
+    description: "Scratch on cabinet door",
+    assigned_to: "assignee-id",
+    is_resolved: false,
+    reopen_count: 0,
+    ...overrides,
+  };
+}
+
+function updatesTo(table: string) {
+  return mockCalls
+    .filter((c) => c.table === table && c.method === "update")
+    .map((c) => c.args[0] as Record<string, unknown>);
+}
+
+beforeEach(() => {
+  mockResults = { users: { data: { role: "pm" }, error: null } };
+  mockCalls.length = 0;
+  mockUser = { id: "test-user-id", email: "pm@test.com" };
+  mockLogActivity.mockClear();
+  mockCreateNotification.mockClear();
+  mockNotifyProjectPMs.mockClear();
+});
+
+// ============================================================================
+// createSnaggingItem
+// ============================================================================
+
+describe("createSnaggingItem", () => {
+  it("rejects unauthenticated users", async () => {
+    mockUser = null;
+    const result = await createSnaggingItem(PROJECT_ID, { description: "Chipped edge" });
+    expect(result).toEqual({ success: false, error: "Not authenticated" });
+  });
+
+  it("rejects roles outside admin/pm/production", async () => {
+    mockResults.users = { data: { role: "client" }, error: null };
+    const result = await createSnaggingItem(PROJECT_ID, { description: "Chipped edge" });
+    expect(result).toEqual({ success: false, error: "Insufficient permissions" });
+  });
+
+  it("requires a description", async () => {
+    const result = await createSnaggingItem(PROJECT_ID, { description: "   " });
+    expect(result).toEqual({ success: false, error: "Description is required" });
+  });
+
+  it("creates the snag, logs activity and notifies assignee + PMs", async () => {
+    mockResults.snagging = { data: { id: SNAG_ID }, error: null };
+
+    const result = await createSnaggingItem(PROJECT_ID, {
+      description: "Chipped edge",
+      area_id: "area-1",
+      assigned_to: "assignee-id",
+      photos: ["https://example.com/a.jpg"],
+    });
+
+    expect(result).toEqual({ success: true, data: { id: SNAG_ID } });
+
+    const insert = mockCalls.find((c) => c.table === "snagging" && c.method === "insert");
+    expect(insert?.args[0]).toMatchObject({
+      project_id: PROJECT_ID,
+      area_id: "area-1",
+      assigned_to: "assignee-id",
+      created_by: "test-user-id",
+    });
+    expect(mockLogActivity).toHaveBeenCalledWith(
+      expect.objectContaining({ action: "snagging_created", entityId: SNAG_ID })
+    );
+    expect(mockCreateNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: "assignee-id", type: "snag_assigned" })
+    );
+    expect(mockNotifyProjectPMs).toHaveBeenCalledWith(
+      expect.objectContaining({ projectId: PROJECT_ID, type: "snag_reported" })
+    );
+  });
+
+  it("rejects an unknown severity", async () => {
+    const result = await createSnaggingItem(PROJECT_ID, {
+      description: "Chipped edge",
+      severity: "urgent" as never,
+    });
+    expect(result).toEqual({ success: false, error: "Invalid severity" });
+  });
+
+  it("defaults to minor severity with an SLA target date", async () => {
+    mockResults.snagging = { data: { id: SNAG_ID }, error: null };
+    await createSnaggingItem(PROJECT_ID, { description: "Chipped edge" });
+
+    const insert = mockCalls.find((c) => c.table === "snagging" && c.method === "insert");
+    const payload = insert?.args[0] as Record<string, unknown>;
+    expect(payload.severity).toBe("minor");
+    expect(payload.target_fix_date).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+  });
+
+  it("keeps an explicit target fix date", async () => {
+    mockResults.snagging = { data: { id: SNAG_ID }, error: null };
+    await createSnaggingItem(PROJECT_ID, {
+      description: "Door blocked",
+      severity: "critical",
+      target_fix_date: "2026-05-01",
+    });
+
+    const insert = mockCalls.find((c) => c.table === "snagging" && c.method === "insert");
+    expect(insert?.args[0]).toMatchObject({ severity: "critical", target_fix_date: "2026-05-01" });
+    expect(mockNotifyProjectPMs).toHaveBeenCalledWith(
+      expect.objectContaining({ title: expect.stringContaining("Critical snag reported") })
+    );
+  });
+
+  it("does not notify the creator when they assign the snag to themselves", async () => {
+    mockResults.snagging = { data: { id: SNAG_ID }, error: null };
+    await createSnaggingItem(PROJECT_ID, { description: "Chipped edge", assigned_to: "test-user-id" });
+    expect(mockCreateNotification).not.toHaveBeenCalled();
+  });
+});
+
+// ============================================================================
+// updateSnaggingItem
+// ============================================================================
+
+describe("updateSnaggingItem", () => {
+  it("clears the escalation marker when the target date changes", async () => {
+    mockResults.snagging = { data: makeSnag(), error: null };
+    const result = await updateSnaggingItem(SNAG_ID, { target_fix_date: "2026-06-01" });
+
+    expect(result.success).toBe(true);
+    expect(updatesTo("snagging")[0]).toEqual({ target_fix_date: "2026-06-01", escalated_at: null });
+  });
+});
+
+// ============================================================================
+// assignSnaggingItem
+// ============================================================================
+
+describe("assignSnaggingItem", () => {
+  it("is a no-op when the assignee is unchanged", async () => {
+    mockResults.snagging = { data: makeSnag(), error: null };
+    const result = await assignSnaggingItem(SNAG_ID, "assignee-id");
+    expect(result.success).toBe(true);
+    expect(updatesTo("snagging")).toHaveLength(0);
+    expect(mockLogActivity).not.toHaveBeenCalled();
+  });
+
+  it("reassigns and notifies the new assignee", async () => {
+    mockResults.snagging = { data: makeSnag(), error: null };
+    const result = await assignSnaggingItem(SNAG_ID, "new-user");
+    expect(result.success).toBe(true);
+    expect(updatesTo("snagging")[0]).toEqual({ assigned_to: "new-user" });
+    expect(mockCreateNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: "new-user" })
+    );
+  });
+});
+
+// ============================================================================
+// resolveSnaggingItem / reopenSnaggingItem
+// ============================================================================
+
+describe("resolveSnaggingItem", () => {
+  it("fails when the snag does not exist", async () => {
+    mockResults.snagging = { data: null, error: null };
+    const result = await resolveSnaggingItem(SNAG_ID);
+    expect(result).toEqual({ success: false, error: "Snag not found" });
+  });
+
+  it("fails when the snag is already resolved", async () => {
+    mockResults.snagging = { data: makeSnag({ is_resolved: true }), error: null };
+    const result = await resolveSnaggingItem(SNAG_ID);
+    expect(result).toEqual({ success: false, error: "Snag is already resolved" });
+  });
+
+  it("records resolver, notes and after photos", async () => {
+    mockResults.snagging = { data: makeSnag(), error: null };
+    const result = await resolveSnaggingItem(SNAG_ID, {
+      resolution_notes: "Door re-hung",
+      resolution_photos: ["https://example.com/after.jpg"],
+    });
+
+    expect(result.success).toBe(true);
+    expect(updatesTo("snagging")[0]).toMatchObject({
+      is_resolved: true,
+      resolved_by: "test-user-id",
+      resolution_notes: "Door re-hung",
+      resolution_photos: ["https://example.com/after.jpg"],
+    });
+    expect(mockNotifyProjectPMs).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "snag_resolved" })
+    );
+  });
+});
+
+describe("reopenSnaggingItem", () => {
+  it("fails when the snag is still open", async () => {
+    mockResults.snagging = { data: makeSnag(), error: null };
+    const result = await reopenSnaggingItem(SNAG_ID);
+    expect(result).toEqual({ success: false, error: "Snag is not resolved" });
+  });
+
+  it("clears the resolution and increments reopen_count", async () => {
+    mockResults.snagging = { data: makeSnag({ is_resolved: true, reopen_count: 1 }), error: null };
+    const result = await reopenSnaggingItem(SNAG_ID, "Hinge still loose");
+
+    expect(result.success).toBe(true);
+    expect(updatesTo("snagging")[0]).toMatchObject({
+      is_resolved: false,
+      resolved_at: null,
+      resolved_by: null,
+      resolution_photos: null,
+      reopen_count: 2,
+      escalated_at: null,
+    });
+    expect(mockLogActivity).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: "snagging_reopened",
+        details: expect.objectContaining({ reason: "Hinge still loose" }),
+      })
+    );
+  });
+});
+
+// ============================================================================
+// deleteSnaggingItem
+// ============================================================================
+
+describe("deleteSnaggingItem", () => {
+  it("soft-deletes instead of removing the row", async () => {
+    mockResults.snagging = { data: makeSnag(), error: null };
+    const result = await deleteSnaggingItem(SNAG_ID);
+
+    expect(result.success).toBe(true);
+    expect(updatesTo("snagging")[0]).toEqual({ is_deleted: true });
+    expect(mockCalls.some((c) => c.table === "snagging" && c.method === "delete")).toBe(false);
+  });
+});
@@ -11,6 +11,9 @@ let mockTerminalResult: { data: unknown; error: unknown } = {
 
 const mockCalls: { method: string; args: unknown[] }[] = [];
 
+/** Per-table results for list queries (awaited without .single()), e.g. link tables */
+let mockTableResults: Record<string, { data: unknown; error: unknown }> = {};
+
 let mockUser: { id: string; email: string } | null = {
   id: "test-user-id",
   email: "pm@test.com",
@@ -22,13 +25,14 @@ let mockUser: { id: string; email: string } | null = {
  */
 function createChainMock(
   callLog: typeof mockCalls,
-  terminalResultFn: () => { data: unknown; error: unknown }
+  terminalResultFn: () => { data: unknown; error: unknown },
+  listResultFn: () => { data: unknown; error: unknown } = terminalResultFn
 ) {
   const chain: Record<string, unknown> = {};
 
   const methods = [
     "select", "insert", "update", "delete", "eq", "in", "order",
-    "single", "is", "neq", "limit", "range", "maybeSingle",
+    "single", "is", "neq", "limit", "range", "maybeSingle", "or",
   ];
 
   for (const method of methods) {
@@ -38,7 +42,7 @@ function createChainMock(
         return Promise.resolve(terminalResultFn());
       }
       return Object.assign(chain, {
-        then: (resolve: (v: unknown) => void) => resolve(terminalResultFn()),
+        then: (resolve: (v: unknown) => void) => resolve(listResultFn()),
       });
     });
   }
@@ -53,7 +57,7 @@ function createMockClient(
   return {
     from: vi.fn((_table: string) => {
       callLog.push({ method: "from", args: [_table] });
-      return createChainMock(callLog, terminalResultFn);
+      return createChainMock(callLog, terminalResultFn, () => mockTableResults[_table] ?? terminalResultFn());
     }),
     auth: {
       getUser: vi.fn(() =>
@@ -144,6 +148,7 @@ function makeDependency(overrides: Partial<Record<string, unknown>> = {}) {
 
 beforeEach(() => {
   mockTerminalResult = { data: null, error: null };
+  mockTableResults = {};
   mockCalls.length = 0;
   mockUser = { id: "test-user-id", email: "pm@test.com" };
 });
@@ -306,6 +311,7 @@ describe("createTimelineItem", () => {
   it("inserts scope item links when provided", async () => {
     const created = makeGanttItem({ id: "new-task", role: "pm" });
     mockTerminalResult = { data: created, error: null };
+    mockTableResults.gantt_item_scope_items = { data: [], error: null };
 
     await createTimelineItem({
       project_id: PROJECT_ID,
@@ -361,6 +367,7 @@ describe("updateTimelineItem", () => {
   it("replaces scope item links when provided", async () => {
     const updated = makeGanttItem({ role: "pm" });
     mockTerminalResult = { data: updated, error: null };
+    mockTableResults.gantt_item_scope_items = { data: [], error: null };
 
     await updateTimelineItem(ITEM_ID, {
       linked_scope_item_ids: ["scope-003"],
@@ -371,6 +378,16 @@ describe("updateTimelineItem", () => {
     const scopeLinkCalls = fromCalls.filter((c) => c.args[0] === "gantt_item_scope_items");
     expect(scopeLinkCalls.length).toBeGreaterThanOrEqual(1);
   });
+
+  it("only writes over the version the caller last saw", async () => {
+    const updated = makeGanttItem({ role: "pm" });
+    mockTerminalResult = { data: updated, error: null };
+
+    await updateTimelineItem(ITEM_ID, { name: "Updated" }, { expectedUpdatedAt: "2026-01-01T00:00:00Z" });
+
+    const eqCalls = mockCalls.filter((c) => c.method === "eq");
+    expect(eqCalls.some((c) => c.args[0] === "updated_at" && c.args[1] === "2026-01-01T00:00:00Z")).toBe(true);
+  });
 });
 
 // ============================================================================
@@ -383,6 +400,10 @@ describe("deleteTimelineItem", () => {
       data: { project_id: PROJECT_ID, parent_id: null, item_type: "task", role: "pm" },
       error: null,
     };
+    // No children, links or resources to snapshot for the history entry
+    for (const table of ["gantt_items", "gantt_dependencies", "gantt_item_scope_items", "gantt_item_resources"]) {
+      mockTableResults[table] = { data: [], error: null };
+    }
 
     const result = await deleteTimelineItem(ITEM_ID);
 
@@ -618,6 +639,17 @@ describe("updateTimelineDependency", () => {
     expect(result.success).toBe(false);
     expect(result.error).toBe("Only PM and Admin can update dependencies");
   });
+
+  it("only writes over the link values the caller last saw", async () => {
+    const updated = makeDependency({ lag_days: 3, role: "pm" });
+    mockTerminalResult = { data: updated, error: null };
+
+    await updateTimelineDependency(DEP_ID, { lag_days: 3 }, { expected: { dependency_type: 0, lag_days: 1 } });
+
+    const eqCalls = mockCalls.filter((c) => c.method === "eq");
+    expect(eqCalls.some((c) => c.args[0] === "lag_days" && c.args[1] === 1)).toBe(true);
+    expect(eqCalls.some((c) => c.args[0] === "dependency_type" && c.args[1] === 0)).toBe(true);
+  });
 });
 
 // ============================================================================
@@ -630,6 +662,8 @@ describe("deleteTimelineDependency", () => {
       data: { project_id: PROJECT_ID, role: "pm" },
       error: null,
     };
+    // Task names for the history entry
+    mockTableResults.gantt_items = { data: [], error: null };
 
     const result = await deleteTimelineDependency(DEP_ID);
 
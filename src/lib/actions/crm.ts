@@ -0,0 +1,1419 @@
+"use server";
+
+/**
+ * CRM Server Actions
+ *
+ * Business-development pipeline on top of the crm_* tables (migration 049):
+ * brands, architecture firms, contacts, opportunities, activities and
+ * brand ↔ firm links.
+ *
+ * Role checks mirror the RLS policies:
+ * - read:   admin, pm, management
+ * - write:  admin, pm
+ * - delete: admin (soft delete, or hard delete for links)
+ */
+
+import { revalidatePath } from "next/cache";
+import { format, isValid, parseISO } from "date-fns";
+import { createClient, getUserRoleFromJWT } from "@/lib/supabase/server";
+import { sanitizeText } from "@/lib/sanitize";
+import { logActivity } from "@/lib/activity-log/actions";
+import { ACTIVITY_ACTIONS } from "@/lib/activity-log/constants";
+import { getNextProjectCode } from "@/lib/actions/projects";
+import { buildCrmForecast } from "@/lib/crm-forecast";
+import type { ForecastOpportunity } from "@/lib/crm-forecast";
+import {
+  activitySchema,
+  brandFirmLinkSchema,
+  brandFirmLinkUpdateSchema,
+  brandSchema,
+  contactSchema,
+  convertOpportunitySchema,
+  firmSchema,
+  opportunitySchema,
+  opportunityStageSchema,
+} from "@/lib/validations/crm";
+import type {
+  ActivityFormData,
+  BrandFirmLinkFormData,
+  BrandFirmLinkUpdateData,
+  BrandFormData,
+  ContactFormData,
+  ConvertOpportunityFormData,
+  FirmFormData,
+  OpportunityFormData,
+} from "@/lib/validations/crm";
+import type { TablesInsert, TablesUpdate } from "@/types/database";
+import { CRM_CURRENCIES } from "@/types/crm";
+import type {
+  CrmActivityFilters,
+  CrmActivityWithRelations,
+  CrmArchitectureFirm,
+  CrmBrand,
+  CrmBrandDetail,
+  CrmBrandFirmLinkWithRelations,
+  CrmBrandWithStats,
+  CrmContact,
+  CrmContactFilters,
+  CrmContactWithRelations,
+  CrmCurrency,
+  CrmFirmDetail,
+  CrmFirmWithStats,
+  CrmOpportunityStage,
+  CrmOpportunityWithRelations,
+} from "@/types/crm";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ActionResult<T = void> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+type CrmAccessLevel = "read" | "write" | "delete";
+
+const CRM_ROLES: Record<CrmAccessLevel, string[]> = {
+  read: ["admin", "pm", "management"],
+  write: ["admin", "pm"],
+  delete: ["admin"],
+};
+
+type CrmClient = NonNullable<Awaited<ReturnType<typeof requireCrmAccess>>["supabase"]>;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+async function requireCrmAccess(level: CrmAccessLevel) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated" as const, supabase: null, user: null };
+  }
+
+  const role = await getUserRoleFromJWT(user, supabase);
+  if (!CRM_ROLES[level].includes(role)) {
+    return { error: "Insufficient permissions" as const, supabase: null, user: null };
+  }
+
+  return { error: null, supabase, user };
+}
+
+function cleanText(value: string | null | undefined): string | null {
+  const trimmed = value?.trim();
+  return trimmed ? sanitizeText(trimmed) : null;
+}
+
+/** Cleared selects send "" — store it as NULL */
+function cleanId(value: string | null | undefined): string | null {
+  return value || null;
+}
+
+/** Normalise a validated date input to yyyy-MM-dd; cleared inputs become NULL */
+function cleanDate(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const date = parseISO(value);
+  return isValid(date) ? format(date, "yyyy-MM-dd") : null;
+}
+
+/**
+ * Reserve the next human-readable code (e.g. BRD-0001) so the insert payload
+ * is complete. The tr_crm_*_set_code triggers only fill codes left NULL.
+ */
+async function reserveEntityCode(
+  supabase: CrmClient,
+  entityType: "crm_brand" | "crm_firm" | "crm_contact" | "crm_opportunity"
+): Promise<string | null> {
+  const { data, error } = await supabase.rpc("generate_entity_code", { p_entity_type: entityType });
+  return error ? null : data;
+}
+
+function buildBrandPayload(input: BrandFormData) {
+  const parsed = brandSchema.safeParse(input);
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0]?.message || "Invalid brand" } as const;
+  }
+  const data = parsed.data;
+  const name = cleanText(data.name);
+  if (!name) return { error: "Brand name is required" } as const;
+
+  const payload: Omit<TablesInsert<"crm_brands">, "brand_code"> = {
+    name,
+    tier: data.tier,
+    parent_group: cleanText(data.parent_group),
+    segment: cleanText(data.segment),
+    store_count: data.store_count ?? null,
+    expansion_rate: cleanText(data.expansion_rate),
+    creative_director: cleanText(data.creative_director),
+    cd_changed_recently: !!data.cd_changed_recently,
+    headquarters: cleanText(data.headquarters),
+    website: cleanText(data.website),
+    annual_revenue: cleanText(data.annual_revenue),
+    priority: data.priority,
+    notes: cleanText(data.notes),
+  };
+  return { payload };
+}
+
+function buildFirmPayload(input: FirmFormData) {
+  const parsed = firmSchema.safeParse(input);
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0]?.message || "Invalid firm" } as const;
+  }
+  const data = parsed.data;
+  const name = cleanText(data.name);
+  if (!name) return { error: "Firm name is required" } as const;
+
+  const payload: Omit<TablesInsert<"crm_architecture_firms">, "firm_code"> = {
+    name,
+    location: cleanText(data.location),
+    specialty: cleanText(data.specialty),
+    key_clients: cleanText(data.key_clients),
+    vendor_list_status: data.vendor_list_status,
+    vendor_application_date: cleanDate(data.vendor_application_date),
+    website: cleanText(data.website),
+    connection_strength: data.connection_strength,
+    connection_notes: cleanText(data.connection_notes),
+    priority: data.priority,
+    notes: cleanText(data.notes),
+  };
+  return { payload };
+}
+
+function buildContactPayload(input: ContactFormData) {
+  const parsed = contactSchema.safeParse(input);
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0]?.message || "Invalid contact" } as const;
+  }
+  const data = parsed.data;
+  const firstName = cleanText(data.first_name);
+  const lastName = cleanText(data.last_name);
+  if (!firstName || !lastName) return { error: "First and last name are required" } as const;
+
+  const payload: Omit<TablesInsert<"crm_contacts">, "contact_code"> = {
+    first_name: firstName,
+    last_name: lastName,
+    title: cleanText(data.title),
+    company: cleanText(data.company),
+    email: cleanText(data.email),
+    phone: cleanText(data.phone),
+    linkedin_url: cleanText(data.linkedin_url),
+    brand_id: cleanId(data.brand_id),
+    architecture_firm_id: cleanId(data.architecture_firm_id),
+    relationship_status: data.relationship_status,
+    source: cleanText(data.source),
+    last_interaction_date: cleanDate(data.last_interaction_date),
+    notes: cleanText(data.notes),
+  };
+  return { payload };
+}
+
+function buildOpportunityPayload(input: OpportunityFormData) {
+  const parsed = opportunitySchema.safeParse(input);
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0]?.message || "Invalid opportunity" } as const;
+  }
+  const data = parsed.data;
+  const title = cleanText(data.title);
+  if (!title) return { error: "Title is required" } as const;
+
+  const payload: Omit<TablesInsert<"crm_opportunities">, "opportunity_code"> = {
+    title,
+    description: cleanText(data.description),
+    brand_id: cleanId(data.brand_id),
+    architecture_firm_id: cleanId(data.architecture_firm_id),
+    stage: data.stage,
+    estimated_value: data.estimated_value ?? null,
+    currency: data.currency,
+    probability: data.probability ?? null,
+    expected_close_date: cleanDate(data.expected_close_date),
+    assigned_to: cleanId(data.assigned_to),
+    source: cleanText(data.source),
+    loss_reason: data.stage === "lost" ? cleanText(data.loss_reason) : null,
+    priority: data.priority,
+    notes: cleanText(data.notes),
+  };
+  return { payload };
+}
+
+function buildActivityPayload(input: ActivityFormData) {
+  const parsed = activitySchema.safeParse(input);
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0]?.message || "Invalid activity" } as const;
+  }
+  const data = parsed.data;
+  const title = cleanText(data.title);
+  if (!title) return { error: "Title is required" } as const;
+  const activityDate = cleanDate(data.activity_date);
+  if (!activityDate) return { error: "Activity date is required" } as const;
+
+  const payload: Omit<TablesInsert<"crm_activities">, "user_id"> = {
+    activity_type: data.activity_type,
+    title,
+    description: cleanText(data.description),
+    activity_date: activityDate,
+    brand_id: cleanId(data.brand_id),
+    architecture_firm_id: cleanId(data.architecture_firm_id),
+    contact_id: cleanId(data.contact_id),
+    opportunity_id: cleanId(data.opportunity_id),
+    outcome: cleanText(data.outcome),
+    next_action: cleanText(data.next_action),
+    next_action_date: cleanDate(data.next_action_date),
+  };
+  return { payload };
+}
+
+// Select fragments shared by list + detail queries
+const OPPORTUNITY_SELECT = `
+  *,
+  brand:crm_brands!crm_opportunities_brand_id_fkey(id, name, brand_code),
+  architecture_firm:crm_architecture_firms!crm_opportunities_architecture_firm_id_fkey(id, name, firm_code),
+  assigned_user:users!crm_opportunities_assigned_to_fkey(id, name),
+  project:projects!projects_crm_opportunity_id_fkey(id, project_code, name, slug)
+`;
+
+const CONTACT_SELECT = `
+  *,
+  brand:crm_brands!crm_contacts_brand_id_fkey(id, name, brand_code),
+  architecture_firm:crm_architecture_firms!crm_contacts_architecture_firm_id_fkey(id, name, firm_code)
+`;
+
+const ACTIVITY_SELECT = `
+  *,
+  brand:crm_brands!crm_activities_brand_id_fkey(id, name, brand_code),
+  architecture_firm:crm_architecture_firms!crm_activities_architecture_firm_id_fkey(id, name, firm_code),
+  user:users!crm_activities_user_id_fkey(id, name),
+  contact:crm_contacts!crm_activities_contact_id_fkey(id, first_name, last_name),
+  opportunity:crm_opportunities!crm_activities_opportunity_id_fkey(id, title, opportunity_code)
+`;
+
+const LINK_SELECT = `
+  *,
+  brand:crm_brands!crm_brand_firm_links_brand_id_fkey(id, name, brand_code),
+  architecture_firm:crm_architecture_firms!crm_brand_firm_links_architecture_firm_id_fkey(id, name, firm_code)
+`;
+
+function countBy<T>(rows: T[] | null, key: (row: T) => string | null): Record<string, number> {
+  const counts: Record<string, number> = {};
+  rows?.forEach((row) => {
+    const id = key(row);
+    if (id) counts[id] = (counts[id] || 0) + 1;
+  });
+  return counts;
+}
+
+// ============================================================================
+// Lookups (used by forms across the CRM section)
+// ============================================================================
+
+export async function getCrmLookups(): Promise<
+  ActionResult<{
+    brands: { id: string; name: string }[];
+    firms: { id: string; name: string }[];
+    users: { id: string; name: string }[];
+    clients: { id: string; company_name: string }[];
+  }>
+> {
+  const { error, supabase } = await requireCrmAccess("read");
+  if (error) return { success: false, error };
+
+  const [brandsRes, firmsRes, usersRes, clientsRes] = await Promise.all([
+    supabase!.from("crm_brands").select("id, name").eq("is_deleted", false).order("name"),
+    supabase!.from("crm_architecture_firms").select("id, name").eq("is_deleted", false).order("name"),
+    supabase!
+      .from("users")
+      .select("id, name")
+      .eq("is_active", true)
+      .in("role", ["admin", "pm"])
+      .order("name"),
+    supabase!.from("clients").select("id, company_name").eq("is_deleted", false).order("company_name"),
+  ]);
+
+  const dbError = brandsRes.error || firmsRes.error || usersRes.error || clientsRes.error;
+  if (dbError) return { success: false, error: dbError.message };
+
+  return {
+    success: true,
+    data: {
+      brands: brandsRes.data || [],
+      firms: firmsRes.data || [],
+      users: usersRes.data || [],
+      clients: clientsRes.data || [],
+    },
+  };
+}
+
+// ============================================================================
+// Brands
+// ============================================================================
+
+export async function getBrands(): Promise<ActionResult<CrmBrandWithStats[]>> {
+  const { error, supabase } = await requireCrmAccess("read");
+  if (error) return { success: false, error };
+
+  const { data: brands, error: dbError } = await supabase!
+    .from("crm_brands")
+    .select("*")
+    .eq("is_deleted", false)
+    .order("name");
+
+  if (dbError) return { success: false, error: dbError.message };
+
+  const [{ data: opps }, { data: contacts }] = await Promise.all([
+    supabase!.from("crm_opportunities").select("brand_id").eq("is_deleted", false).not("brand_id", "is", null),
+    supabase!.from("crm_contacts").select("brand_id").eq("is_deleted", false).not("brand_id", "is", null),
+  ]);
+
+  const oppCounts = countBy(opps, (o) => o.brand_id);
+  const contactCounts = countBy(contacts, (c) => c.brand_id);
+
+  const result = (brands as CrmBrand[]).map((b) => ({
+    ...b,
+    opportunity_count: oppCounts[b.id] || 0,
+    contact_count: contactCounts[b.id] || 0,
+  }));
+
+  return { success: true, data: result };
+}
+
+export async function getBrand(id: string): Promise<ActionResult<CrmBrandDetail>> {
+  const { error, supabase } = await requireCrmAccess("read");
+  if (error) return { success: false, error };
+
+  const { data: brand, error: dbError } = await supabase!
+    .from("crm_brands")
+    .select("*")
+    .eq("id", id)
+    .eq("is_deleted", false)
+    .single();
+
+  if (dbError) return { success: false, error: dbError.message };
+
+  const [contactsRes, oppsRes, linksRes, activitiesRes] = await Promise.all([
+    supabase!.from("crm_contacts").select("*").eq("brand_id", id).eq("is_deleted", false).order("last_name"),
+    supabase!
+      .from("crm_opportunities")
+      .select(OPPORTUNITY_SELECT)
+      .eq("brand_id", id)
+      .eq("is_deleted", false)
+      .order("created_at", { ascending: false }),
+    supabase!.from("crm_brand_firm_links").select(LINK_SELECT).eq("brand_id", id),
+    supabase!
+      .from("crm_activities")
+      .select(ACTIVITY_SELECT)
+      .eq("brand_id", id)
+      .eq("is_deleted", false)
+      .order("activity_date", { ascending: false })
+      .limit(50),
+  ]);
+
+  return {
+    success: true,
+    data: {
+      ...(brand as CrmBrand),
+      contacts: (contactsRes.data || []) as CrmContact[],
+      opportunities: (oppsRes.data || []) as unknown as CrmOpportunityWithRelations[],
+      firm_links: (linksRes.data || []) as unknown as CrmBrandFirmLinkWithRelations[],
+      activities: (activitiesRes.data || []) as unknown as CrmActivityWithRelations[],
+    },
+  };
+}
+
+export async function createBrand(
+  input: BrandFormData
+): Promise<ActionResult<{ id: string }>> {
+  const { error, supabase } = await requireCrmAccess("write");
+  if (error) return { success: false, error };
+
+  const built = buildBrandPayload(input);
+  if ("error" in built) return { success: false, error: built.error };
+
+  const brandCode = await reserveEntityCode(supabase!, "crm_brand");
+  if (!brandCode) return { success: false, error: "Could not generate a brand code" };
+
+  const { data, error: dbError } = await supabase!
+    .from("crm_brands")
+    .insert({ ...built.payload, brand_code: brandCode })
+    .select("id")
+    .single();
+
+  if (dbError) return { success: false, error: dbError.message };
+
+  await logActivity({
+    action: ACTIVITY_ACTIONS.CRM_BRAND_CREATED,
+    entityType: "crm_brand",
+    entityId: data.id,
+    details: { name: built.payload.name },
+  });
+
+  revalidatePath("/crm");
+  return { success: true, data: { id: data.id } };
+}
+
+export async function updateBrand(
+  id: string,
+  input: BrandFormData
+): Promise<ActionResult> {
+  const { error, supabase } = await requireCrmAccess("write");
+  if (error) return { success: false, error };
+
+  const built = buildBrandPayload(input);
+  if ("error" in built) return { success: false, error: built.error };
+
+  const { error: dbError } = await supabase!
+    .from("crm_brands")
+    .update(built.payload)
+    .eq("id", id);
+
+  if (dbError) return { success: false, error: dbError.message };
+
+  await logActivity({
+    action: ACTIVITY_ACTIONS.CRM_BRAND_UPDATED,
+    entityType: "crm_brand",
+    entityId: id,
+    details: { name: built.payload.name },
+  });
+
+  revalidatePath("/crm");
+  return { success: true };
+}
+
+export async function deleteBrand(id: string): Promise<ActionResult> {
+  const { error, supabase } = await requireCrmAccess("delete");
+  if (error) return { success: false, error };
+
+  const { error: dbError } = await supabase!
+    .from("crm_brands")
+    .update({ is_deleted: true })
+    .eq("id", id);
+
+  if (dbError) return { success: false, error: dbError.message };
+
+  await logActivity({
+    action: ACTIVITY_ACTIONS.CRM_BRAND_DELETED,
+    entityType: "crm_brand",
+    entityId: id,
+  });
+
+  revalidatePath("/crm");
+  return { success: true };
+}
+
+// ============================================================================
+// Architecture Firms
+// ============================================================================
+
+export async function getFirms(): Promise<ActionResult<CrmFirmWithStats[]>> {
+  const { error, supabase } = await requireCrmAccess("read");
+  if (error) return { success: false, error };
+
+  const { data: firms, error: dbError } = await supabase!
+    .from("crm_architecture_firms")
+    .select("*")
+    .eq("is_deleted", false)
+    .order("name");
+
+  if (dbError) return { success: false, error: dbError.message };
+
+  const [{ data: opps }, { data: contacts }] = await Promise.all([
+    supabase!
+      .from("crm_opportunities")
+      .select("architecture_firm_id")
+      .eq("is_deleted", false)
+      .not("architecture_firm_id", "is", null),
+    supabase!
+      .from("crm_contacts")
+      .select("architecture_firm_id")
+      .eq("is_deleted", false)
+      .not("architecture_firm_id", "is", null),
+  ]);
+
+  const oppCounts = countBy(opps, (o) => o.architecture_firm_id);
+  const contactCounts = countBy(contacts, (c) => c.architecture_firm_id);
+
+  const result = (firms as CrmArchitectureFirm[]).map((f) => ({
+    ...f,
+    opportunity_count: oppCounts[f.id] || 0,
+    contact_count: contactCounts[f.id] || 0,
+  }));
+
+  return { success: true, data: result };
+}
+
+export async function getFirm(id: string): Promise<ActionResult<CrmFirmDetail>> {
+  const { error, supabase } = await requireCrmAccess("read");
+  if (error) return { success: false, error };
+
+  const { data: firm, error: dbError } = await supabase!
+    .from("crm_architecture_firms")
+    .select("*")
+    .eq("id", id)
+    .eq("is_deleted", false)
+    .single();
+
+  if (dbError) return { success: false, error: dbError.message };
+
+  const [contactsRes, oppsRes, linksRes, activitiesRes] = await Promise.all([
+    supabase!
+      .from("crm_contacts")
+      .select("*")
+      .eq("architecture_firm_id", id)
+      .eq("is_deleted", false)
+      .order("last_name"),
+    supabase!
+      .from("crm_opportunities")
+      .select(OPPORTUNITY_SELECT)
+      .eq("architecture_firm_id", id)
+      .eq("is_deleted", false)
+      .order("created_at", { ascending: false }),
+    supabase!.from("crm_brand_firm_links").select(LINK_SELECT).eq("architecture_firm_id", id),
+    supabase!
+      .from("crm_activities")
+      .select(ACTIVITY_SELECT)
+      .eq("architecture_firm_id", id)
+      .eq("is_deleted", false)
+      .order("activity_date", { ascending: false })
+      .limit(50),
+  ]);
+
+  return {
+    success: true,
+    data: {
+      ...(firm as CrmArchitectureFirm),
+      contacts: (contactsRes.data || []) as CrmContact[],
+      opportunities: (oppsRes.data || []) as unknown as CrmOpportunityWithRelations[],
+      brand_links: (linksRes.data || []) as unknown as CrmBrandFirmLinkWithRelations[],
+      activities: (activitiesRes.data || []) as unknown as CrmActivityWithRelations[],
+    },
+  };
+}
+
+export async function createFirm(
+  input: FirmFormData
+): Promise<ActionResult<{ id: string }>> {
+  const { error, supabase } = await requireCrmAccess("write");
+  if (error) return { success: false, error };
+
+  const built = buildFirmPayload(input);
+  if ("error" in built) return { success: false, error: built.error };
+
+  const firmCode = await reserveEntityCode(supabase!, "crm_firm");
+  if (!firmCode) return { success: false, error: "Could not generate a firm code" };
+
+  const { data, error: dbError } = await supabase!
+    .from("crm_architecture_firms")
+    .insert({ ...built.payload, firm_code: firmCode })
+    .select("id")
+    .single();
+
+  if (dbError) return { success: false, error: dbError.message };
+
+  await logActivity({
+    action: ACTIVITY_ACTIONS.CRM_FIRM_CREATED,
+    entityType: "crm_architecture_firm",
+    entityId: data.id,
+    details: { name: built.payload.name },
+  });
+
+  revalidatePath("/crm");
+  return { success: true, data: { id: data.id } };
+}
+
+export async function updateFirm(
+  id: string,
+  input: FirmFormData
+): Promise<ActionResult> {
+  const { error, supabase } = await requireCrmAccess("write");
+  if (error) return { success: false, error };
+
+  const built = buildFirmPayload(input);
+  if ("error" in built) return { success: false, error: built.error };
+
+  const { error: dbError } = await supabase!
+    .from("crm_architecture_firms")
+    .update(built.payload)
+    .eq("id", id);
+
+  if (dbError) return { success: false, error: dbError.message };
+
+  await logActivity({
+    action: ACTIVITY_ACTIONS.CRM_FIRM_UPDATED,
+    entityType: "crm_architecture_firm",
+    entityId: id,
+    details: { name: built.payload.name },
+  });
+
+  revalidatePath("/crm");
+  return { success: true };
+}
+
+export async function deleteFirm(id: string): Promise<ActionResult> {
+  const { error, supabase } = await requireCrmAccess("delete");
+  if (error) return { success: false, error };
+
+  const { error: dbError } = await supabase!
+    .from("crm_architecture_firms")
+    .update({ is_deleted: true })
+    .eq("id", id);
+
+  if (dbError) return { success: false, error: dbError.message };
+
+  await logActivity({
+    action: ACTIVITY_ACTIONS.CRM_FIRM_DELETED,
+    entityType: "crm_architecture_firm",
+    entityId: id,
+  });
+
+  revalidatePath("/crm");
+  return { success: true };
+}
+
+// ============================================================================
+// Contacts
+// ============================================================================
+
+export async function getContacts(
+  filters?: CrmContactFilters
+): Promise<ActionResult<CrmContactWithRelations[]>> {
+  const { error, supabase } = await requireCrmAccess("read");
+  if (error) return { success: false, error };
+
+  let query = supabase!
+    .from("crm_contacts")
+    .select(CONTACT_SELECT)
+    .eq("is_deleted", false)
+    .order("last_name")
+    .order("first_name");
+
+  if (filters?.brand_id) query = query.eq("brand_id", filters.brand_id);
+  if (filters?.architecture_firm_id) {
+    query = query.eq("architecture_firm_id", filters.architecture_firm_id);
+  }
+  if (filters?.relationship_status) {
+    query = query.eq("relationship_status", filters.relationship_status);
+  }
+
+  const { data, error: dbError } = await query;
+
+  if (dbError) return { success: false, error: dbError.message };
+  return { success: true, data: (data || []) as unknown as CrmContactWithRelations[] };
+}
+
+export async function createContact(
+  input: ContactFormData
+): Promise<ActionResult<{ id: string }>> {
+  const { error, supabase } = await requireCrmAccess("write");
+  if (error) return { success: false, error };
+
+  const built = buildContactPayload(input);
+  if ("error" in built) return { success: false, error: built.error };
+
+  const contactCode = await reserveEntityCode(supabase!, "crm_contact");
+  if (!contactCode) return { success: false, error: "Could not generate a contact code" };
+
+  const { data, error: dbError } = await supabase!
+    .from("crm_contacts")
+    .insert({ ...built.payload, contact_code: contactCode })
+    .select("id")
+    .single();
+
+  if (dbError) return { success: false, error: dbError.message };
+
+  await logActivity({
+    action: ACTIVITY_ACTIONS.CRM_CONTACT_CREATED,
+    entityType: "crm_contact",
+    entityId: data.id,
+    details: { name: `${built.payload.first_name} ${built.payload.last_name}` },
+  });
+
+  revalidatePath("/crm");
+  return { success: true, data: { id: data.id } };
+}
+
+export async function updateContact(
+  id: string,
+  input: ContactFormData
+): Promise<ActionResult> {
+  const { error, supabase } = await requireCrmAccess("write");
+  if (error) return { success: false, error };
+
+  const built = buildContactPayload(input);
+  if ("error" in built) return { success: false, error: built.error };
+
+  const { error: dbError } = await supabase!
+    .from("crm_contacts")
+    .update(built.payload)
+    .eq("id", id);
+
+  if (dbError) return { success: false, error: dbError.message };
+
+  await logActivity({
+    action: ACTIVITY_ACTIONS.CRM_CONTACT_UPDATED,
+    entityType: "crm_contact",
+    entityId: id,
+    details: { name: `${built.payload.first_name} ${built.payload.last_name}` },
+  });
+
+  revalidatePath("/crm");
+  return { success: true };
+}
+
+export async function deleteContact(id: string): Promise<ActionResult> {
+  const { error, supabase } = await requireCrmAccess("delete");
+  if (error) return { success: false, error };
+
+  const { error: dbError } = await supabase!
+    .from("crm_contacts")
+    .update({ is_deleted: true })
+    .eq("id", id);
+
+  if (dbError) return { success: false, error: dbError.message };
+
+  await logActivity({
+    action: ACTIVITY_ACTIONS.CRM_CONTACT_DELETED,
+    entityType: "crm_contact",
+    entityId: id,
+  });
+
+  revalidatePath("/crm");
+  return { success: true };
+}
+
+// ============================================================================
+// Opportunities
+// ============================================================================
+
+export async function getOpportunities(): Promise<ActionResult<CrmOpportunityWithRelations[]>> {
+  const { error, supabase } = await requireCrmAccess("read");
+  if (error) return { success: false, error };
+
+  const { data, error: dbError } = await supabase!
+    .from("crm_opportunities")
+    .select(OPPORTUNITY_SELECT)
+    .eq("is_deleted", false)
+    .order("updated_at", { ascending: false });
+
+  if (dbError) return { success: false, error: dbError.message };
+  return { success: true, data: (data || []) as unknown as CrmOpportunityWithRelations[] };
+}
+
+export async function createOpportunity(
+  input: OpportunityFormData
+): Promise<ActionResult<{ id: string }>> {
+  const { error, supabase } = await requireCrmAccess("write");
+  if (error) return { success: false, error };
+
+  const built = buildOpportunityPayload(input);
+  if ("error" in built) return { success: false, error: built.error };
+
+  const opportunityCode = await reserveEntityCode(supabase!, "crm_opportunity");
+  if (!opportunityCode) return { success: false, error: "Could not generate an opportunity code" };
+
+  const { data, error: dbError } = await supabase!
+    .from("crm_opportunities")
+    .insert({ ...built.payload, opportunity_code: opportunityCode })
+    .select("id")
+    .single();
+
+  if (dbError) return { success: false, error: dbError.message };
+
+  await logActivity({
+    action: ACTIVITY_ACTIONS.CRM_OPPORTUNITY_CREATED,
+    entityType: "crm_opportunity",
+    entityId: data.id,
+    details: { title: built.payload.title, stage: built.payload.stage },
+  });
+
+  revalidatePath("/crm");
+  return { success: true, data: { id: data.id } };
+}
+
+export async function updateOpportunity(
+  id: string,
+  input: OpportunityFormData
+): Promise<ActionResult> {
+  const { error, supabase } = await requireCrmAccess("write");
+  if (error) return { success: false, error };
+
+  const built = buildOpportunityPayload(input);
+  if ("error" in built) return { success: false, error: built.error };
+
+  const { error: dbError } = await supabase!
+    .from("crm_opportunities")
+    .update(built.payload)
+    .eq("id", id);
+
+  if (dbError) return { success: false, error: dbError.message };
+
+  await logActivity({
+    action: ACTIVITY_ACTIONS.CRM_OPPORTUNITY_UPDATED,
+    entityType: "crm_opportunity",
+    entityId: id,
+    details: { title: built.payload.title, stage: built.payload.stage },
+  });
+
+  revalidatePath("/crm");
+  return { success: true };
+}
+
+/**
+ * Move an opportunity to another pipeline stage (Kanban drag & drop).
+ * Closing as won/lost pins probability to 100/0; leaving "lost" clears
+ * the loss reason.
+ */
+export async function updateOpportunityStage(
+  id: string,
+  stage: CrmOpportunityStage,
+  lossReason?: string | null
+): Promise<ActionResult> {
+  const { error, supabase } = await requireCrmAccess("write");
+  if (error) return { success: false, error };
+
+  if (!opportunityStageSchema.safeParse(stage).success) {
+    return { success: false, error: "Invalid stage" };
+  }
+
+  const { data: current, error: fetchError } = await supabase!
+    .from("crm_opportunities")
+    .select("id, stage, title")
+    .eq("id", id)
+    .eq("is_deleted", false)
+    .single();
+
+  if (fetchError || !current) return { success: false, error: "Opportunity not found" };
+  if (current.stage === stage) return { success: true };
+
+  const updates: TablesUpdate<"crm_opportunities"> = {
+    stage,
+    loss_reason: stage === "lost" ? cleanText(lossReason) : null,
+  };
+  if (stage === "won") updates.probability = 100;
+  if (stage === "lost") updates.probability = 0;
+
+  const { error: dbError } = await supabase!
+    .from("crm_opportunities")
+    .update(updates)
+    .eq("id", id);
+
+  if (dbError) return { success: false, error: dbError.message };
+
+  await logActivity({
+    action: ACTIVITY_ACTIONS.CRM_OPPORTUNITY_STAGE_CHANGED,
+    entityType: "crm_opportunity",
+    entityId: id,
+    details: { title: current.title, from: current.stage, to: stage },
+  });
+
+  revalidatePath("/crm");
+  return { success: true };
+}
+
+export async function deleteOpportunity(id: string): Promise<ActionResult> {
+  const { error, supabase } = await requireCrmAccess("delete");
+  if (error) return { success: false, error };
+
+  const { error: dbError } = await supabase!
+    .from("crm_opportunities")
+    .update({ is_deleted: true })
+    .eq("id", id);
+
+  if (dbError) return { success: false, error: dbError.message };
+
+  await logActivity({
+    action: ACTIVITY_ACTIONS.CRM_OPPORTUNITY_DELETED,
+    entityType: "crm_opportunity",
+    entityId: id,
+  });
+
+  revalidatePath("/crm");
+  return { success: true };
+}
+
+// ============================================================================
+// Opportunity → Project Conversion
+// ============================================================================
+
+/**
+ * Turn a won opportunity into a tender project.
+ *
+ * The client is either picked explicitly (client_id), matched by name against
+ * existing clients, or created from the brand / contact. The project keeps
+ * crm_opportunity_id so both sides can link to each other.
+ */
+export async function convertOpportunityToProject(
+  id: string,
+  input: ConvertOpportunityFormData
+): Promise<
+  ActionResult<{ projectId: string; projectCode: string; clientId: string; clientCreated: boolean }>
+> {
+  const { error, supabase, user } = await requireCrmAccess("write");
+  if (error) return { success: false, error };
+
+  const parsed = convertOpportunitySchema.safeParse(input);
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0]?.message || "Invalid conversion details" };
+  }
+  const details = parsed.data;
+
+  const { data: opportunity, error: fetchError } = await supabase!
+    .from("crm_opportunities")
+    .select(`
+      id, title, description, stage, estimated_value, currency,
+      brand:crm_brands!crm_opportunities_brand_id_fkey(name),
+      architecture_firm:crm_architecture_firms!crm_opportunities_architecture_firm_id_fkey(name)
+    `)
+    .eq("id", id)
+    .eq("is_deleted", false)
+    .single();
+
+  if (fetchError || !opportunity) return { success: false, error: "Opportunity not found" };
+  if (opportunity.stage !== "won") {
+    return { success: false, error: "Only won opportunities can be converted" };
+  }
+
+  const { data: existingProject } = await supabase!
+    .from("projects")
+    .select("project_code")
+    .eq("crm_opportunity_id", id)
+    .maybeSingle();
+
+  if (existingProject) {
+    return {
+      success: false,
+      error: `Opportunity already converted to project ${existingProject.project_code}`,
+    };
+  }
+
+  // ---- Client: explicit pick → name match → new row ----
+  let clientId = cleanId(details.client_id);
+  let clientCreated = false;
+
+  if (clientId) {
+    const { data: client } = await supabase!
+      .from("clients")
+      .select("id")
+      .eq("id", clientId)
+      .eq("is_deleted", false)
+      .maybeSingle();
+    if (!client) return { success: false, error: "Client not found" };
+  } else {
+    const contactId = cleanId(details.contact_id);
+    const { data: contact } = contactId
+      ? await supabase!
+          .from("crm_contacts")
+          .select("first_name, last_name, email, phone, company")
+          .eq("id", contactId)
+          .maybeSingle()
+      : { data: null };
+
+    const brand = opportunity.brand as { name: string } | null;
+    const firm = opportunity.architecture_firm as { name: string } | null;
+    const companyName =
+      cleanText(details.company_name) || brand?.name || contact?.company || firm?.name || null;
+    if (!companyName) return { success: false, error: "Client name is required" };
+
+    // Escape LIKE wildcards so the match is a case-insensitive equality
+    const { data: match } = await supabase!
+      .from("clients")
+      .select("id")
+      .ilike("company_name", companyName.replace(/[%_\\]/g, "\\$&"))
+      .eq("is_deleted", false)
+      .limit(1)
+      .maybeSingle();
+
+    if (match) {
+      clientId = match.id;
+    } else {
+      const { data: newClient, error: clientError } = await supabase!
+        .from("clients")
+        .insert({
+          company_name: companyName,
+          contact_person: contact ? `${contact.first_name} ${contact.last_name}` : null,
+          email: contact?.email || null,
+          phone: contact?.phone || null,
+        })
+        .select("id")
+        .single();
+
+      if (clientError) return { success: false, error: clientError.message };
+      clientId = newClient.id;
+      clientCreated = true;
+    }
+  }
+
+  // ---- Project ----
+  const projectCode = await getNextProjectCode();
+  const currency = CRM_CURRENCIES.includes(opportunity.currency as CrmCurrency)
+    ? (opportunity.currency as CrmCurrency)
+    : "USD";
+
+  const { data: project, error: projectError } = await supabase!
+    .from("projects")
+    .insert({
+      project_code: projectCode,
+      name: cleanText(details.project_name) || opportunity.title,
+      description: opportunity.description,
+      client_id: clientId,
+      created_by: user!.id,
+      status: "tender",
+      contract_value_manual: opportunity.estimated_value,
+      currency,
+      crm_opportunity_id: id,
+    })
+    .select("id")
+    .single();
+
+  if (projectError) {
+    // Don't leave an orphan client behind when the project insert fails
+    if (clientCreated) {
+      await supabase!.from("clients").update({ is_deleted: true }).eq("id", clientId);
+    }
+    if (projectError.code === "23505") {
+      return {
+        success: false,
+        error: projectError.message.includes("crm_opportunity")
+          ? "Opportunity was already converted"
+          : `Project code "${projectCode}" already exists. Please try again.`,
+      };
+    }
+    return { success: false, error: projectError.message };
+  }
+
+  await logActivity({
+    action: ACTIVITY_ACTIONS.CRM_OPPORTUNITY_CONVERTED,
+    entityType: "crm_opportunity",
+    entityId: id,
+    projectId: project.id,
+    details: {
+      title: opportunity.title,
+      project_code: projectCode,
+      client_id: clientId,
+      client_created: clientCreated,
+    },
+  });
+
+  revalidatePath("/crm");
+  revalidatePath("/projects");
+  revalidatePath("/clients");
+  return {
+    success: true,
+    data: { projectId: project.id, projectCode, clientId: clientId!, clientCreated },
+  };
+}
+
+// ============================================================================
+// Activities
+// ============================================================================
+
+export async function getActivities(
+  filters?: CrmActivityFilters
+): Promise<ActionResult<CrmActivityWithRelations[]>> {
+  const { error, supabase, user } = await requireCrmAccess("read");
+  if (error) return { success: false, error };
+
+  let query = supabase!
+    .from("crm_activities")
+    .select(ACTIVITY_SELECT)
+    .eq("is_deleted", false)
+    .order("activity_date", { ascending: false })
+    .order("created_at", { ascending: false })
+    .limit(200);
+
+  if (filters?.brand_id) query = query.eq("brand_id", filters.brand_id);
+  if (filters?.architecture_firm_id) {
+    query = query.eq("architecture_firm_id", filters.architecture_firm_id);
+  }
+  if (filters?.contact_id) query = query.eq("contact_id", filters.contact_id);
+  if (filters?.opportunity_id) query = query.eq("opportunity_id", filters.opportunity_id);
+  if (filters?.activity_type) query = query.eq("activity_type", filters.activity_type);
+  if (filters?.mine) query = query.eq("user_id", user!.id);
+  if (filters?.follow_ups) {
+    query = query.is("follow_up_completed_at", null).not("next_action_date", "is", null);
+    if (filters.follow_ups === "due") {
+      query = query.lte("next_action_date", new Date().toISOString().split("T")[0]);
+    }
+  }
+
+  const { data, error: dbError } = await query;
+
+  if (dbError) return { success: false, error: dbError.message };
+  return { success: true, data: (data || []) as unknown as CrmActivityWithRelations[] };
+}
+
+export async function createActivity(
+  input: ActivityFormData
+): Promise<ActionResult<{ id: string }>> {
+  const { error, supabase, user } = await requireCrmAccess("write");
+  if (error) return { success: false, error };
+
+  const built = buildActivityPayload(input);
+  if ("error" in built) return { success: false, error: built.error };
+
+  const { data, error: dbError } = await supabase!
+    .from("crm_activities")
+    .insert({ ...built.payload, user_id: user!.id })
+    .select("id")
+    .single();
+
+  if (dbError) return { success: false, error: dbError.message };
+
+  // Keep the contact's last interaction date current (never move it backwards)
+  if (built.payload.contact_id) {
+    await supabase!
+      .from("crm_contacts")
+      .update({ last_interaction_date: built.payload.activity_date })
+      .eq("id", built.payload.contact_id)
+      .or(
+        `last_interaction_date.is.null,last_interaction_date.lt.${built.payload.activity_date}`
+      );
+  }
+
+  await logActivity({
+    action: ACTIVITY_ACTIONS.CRM_ACTIVITY_CREATED,
+    entityType: "crm_activity",
+    entityId: data.id,
+    details: { type: built.payload.activity_type, title: built.payload.title },
+  });
+
+  revalidatePath("/crm");
+  return { success: true, data: { id: data.id } };
+}
+
+export async function updateActivity(
+  id: string,
+  input: ActivityFormData
+): Promise<ActionResult> {
+  const { error, supabase } = await requireCrmAccess("write");
+  if (error) return { success: false, error };
+
+  const built = buildActivityPayload(input);
+  if ("error" in built) return { success: false, error: built.error };
+
+  const { error: dbError } = await supabase!
+    .from("crm_activities")
+    .update(built.payload)
+    .eq("id", id);
+
+  if (dbError) return { success: false, error: dbError.message };
+
+  await logActivity({
+    action: ACTIVITY_ACTIONS.CRM_ACTIVITY_UPDATED,
+    entityType: "crm_activity",
+    entityId: id,
+    details: { type: built.payload.activity_type, title: built.payload.title },
+  });
+
+  revalidatePath("/crm");
+  return { success: true };
+}
+
+/**
+ * Close an activity's follow-up. It drops off My Tasks and the reminder cron.
+ */
+export async function completeFollowUp(id: string): Promise<ActionResult> {
+  const { error, supabase } = await requireCrmAccess("write");
+  if (error) return { success: false, error };
+
+  const { data, error: dbError } = await supabase!
+    .from("crm_activities")
+    .update({ follow_up_completed_at: new Date().toISOString() })
+    .eq("id", id)
+    .is("follow_up_completed_at", null)
+    .select("id, title, next_action")
+    .maybeSingle();
+
+  if (dbError) return { success: false, error: dbError.message };
+  if (!data) return { success: false, error: "Follow-up not found or already completed" };
+
+  await logActivity({
+    action: ACTIVITY_ACTIONS.CRM_FOLLOW_UP_COMPLETED,
+    entityType: "crm_activity",
+    entityId: id,
+    details: { title: data.title, next_action: data.next_action },
+  });
+
+  revalidatePath("/crm");
+  revalidatePath("/dashboard");
+  return { success: true };
+}
+
+export async function deleteActivity(id: string): Promise<ActionResult> {
+  const { error, supabase } = await requireCrmAccess("delete");
+  if (error) return { success: false, error };
+
+  const { error: dbError } = await supabase!
+    .from("crm_activities")
+    .update({ is_deleted: true })
+    .eq("id", id);
+
+  if (dbError) return { success: false, error: dbError.message };
+
+  await logActivity({
+    action: ACTIVITY_ACTIONS.CRM_ACTIVITY_DELETED,
+    entityType: "crm_activity",
+    entityId: id,
+  });
+
+  revalidatePath("/crm");
+  return { success: true };
+}
+
+// ============================================================================
+// Brand ↔ Firm Links
+// ============================================================================
+
+export async function linkBrandToFirm(
+  input: BrandFirmLinkFormData
+): Promise<ActionResult<{ id: string }>> {
+  const { error, supabase } = await requireCrmAccess("write");
+  if (error) return { success: false, error };
+
+  const parsed = brandFirmLinkSchema.safeParse(input);
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0]?.message || "Brand and firm are required" };
+  }
+  const { brand_id: brandId, architecture_firm_id: firmId } = parsed.data;
+
+  const { data, error: dbError } = await supabase!
+    .from("crm_brand_firm_links")
+    .insert({
+      brand_id: brandId,
+      architecture_firm_id: firmId,
+      relationship_type: cleanText(parsed.data.relationship_type),
+      notes: cleanText(parsed.data.notes),
+    })
+    .select("id")
+    .single();
+
+  if (dbError) {
+    if (dbError.code === "23505")
+      return { success: false, error: "This brand and firm are already linked" };
+    return { success: false, error: dbError.message };
+  }
+
+  await logActivity({
+    action: ACTIVITY_ACTIONS.CRM_BRAND_FIRM_LINKED,
+    entityType: "crm_brand_firm_link",
+    entityId: data.id,
+    details: { brandId, firmId },
+  });
+
+  revalidatePath("/crm");
+  return { success: true, data: { id: data.id } };
+}
+
+export async function updateBrandFirmLink(
+  id: string,
+  input: BrandFirmLinkUpdateData
+): Promise<ActionResult> {
+  const { error, supabase } = await requireCrmAccess("write");
+  if (error) return { success: false, error };
+
+  const parsed = brandFirmLinkUpdateSchema.safeParse(input);
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0]?.message || "Invalid link" };
+  }
+
+  const relationshipType = cleanText(parsed.data.relationship_type);
+  const { error: dbError } = await supabase!
+    .from("crm_brand_firm_links")
+    .update({
+      relationship_type: relationshipType,
+      notes: cleanText(parsed.data.notes),
+    })
+    .eq("id", id);
+
+  if (dbError) return { success: false, error: dbError.message };
+
+  await logActivity({
+    action: ACTIVITY_ACTIONS.CRM_BRAND_FIRM_LINK_UPDATED,
+    entityType: "crm_brand_firm_link",
+    entityId: id,
+    details: { relationshipType },
+  });
+
+  revalidatePath("/crm");
+  return { success: true };
+}
+
+export async function unlinkBrandFromFirm(id: string): Promise<ActionResult> {
+  const { error, supabase } = await requireCrmAccess("delete");
+  if (error) return { success: false, error };
+
+  // Links have no is_deleted column — remove the row
+  const { error: dbError } = await supabase!
+    .from("crm_brand_firm_links")
+    .delete()
+    .eq("id", id);
+
+  if (dbError) return { success: false, error: dbError.message };
+
+  await logActivity({
+    action: ACTIVITY_ACTIONS.CRM_BRAND_FIRM_UNLINKED,
+    entityType: "crm_brand_firm_link",
+    entityId: id,
+  });
+
+  revalidatePath("/crm");
+  return { success: true };
+}
+
+// ============================================================================
+// Sales Forecast
+// ============================================================================
+
+async function fetchForecastOpportunities(supabase: CrmClient) {
+  return supabase
+    .from("crm_opportunities")
+    .select(
+      `
+      id, opportunity_code, title, stage, estimated_value, currency, probability,
+      expected_close_date, loss_reason,
+      brand:crm_brands!crm_opportunities_brand_id_fkey(name, tier),
+      architecture_firm:crm_architecture_firms!crm_opportunities_architecture_firm_id_fkey(name)
+    `
+    )
+    .eq("is_deleted", false)
+    .order("expected_close_date", { ascending: true, nullsFirst: false });
+}
+
+/**
+ * Opportunities shaped for buildCrmForecast. Aggregation runs on the client
+ * so switching currency doesn't refetch.
+ */
+export async function getForecastOpportunities(): Promise<ActionResult<ForecastOpportunity[]>> {
+  const { error, supabase } = await requireCrmAccess("read");
+  if (error) return { success: false, error };
+
+  const { data, error: dbError } = await fetchForecastOpportunities(supabase!);
+
+  if (dbError) return { success: false, error: dbError.message };
+  return { success: true, data: (data || []) as unknown as ForecastOpportunity[] };
+}
+
+export async function exportCrmForecastToExcel(currency: string): Promise<ActionResult<string>> {
+  const { error, supabase } = await requireCrmAccess("read");
+  if (error) return { success: false, error };
+  if (!CRM_CURRENCIES.includes(currency as CrmCurrency)) {
+    return { success: false, error: "Invalid currency" };
+  }
+
+  const { data, error: dbError } = await fetchForecastOpportunities(supabase!);
+  if (dbError) return { success: false, error: dbError.message };
+
+  const opportunities = (data || []) as unknown as ForecastOpportunity[];
+  const forecast = buildCrmForecast(opportunities, currency);
+
+  const { generateCrmForecastExcel } = await import("@/lib/excel/crm-export");
+  const buffer = await generateCrmForecastExcel(
+    forecast,
+    opportunities.filter((o) => (o.currency || "USD") === currency)
+  );
+  return { success: true, data: buffer.toString("base64") };
+}
@@ -17,6 +17,8 @@ export interface TaskSummary {
   rejectedDrawings: number;
   draftReports: number;
   overdueMilestones: number;
+  /** The user's own CRM follow-ups due today or earlier */
+  crmFollowUps: number;
   total: number;
 }
 
@@ -28,6 +30,9 @@ export interface AtRiskProject {
   client_name: string | null;
   overdueCount: number;
   rejectedDrawingsCount: number;
+  /** Open snags past their target fix date (SLA breaches) */
+  overdueSnagsCount: number;
+  criticalOverdueSnagsCount: number;
   riskLevel: "high" | "medium" | "low";
 }
 
@@ -153,14 +158,30 @@ export async function getMyTasks(projectIds?: string[], ctx?: RequestContext): P
   const supabase = ctx?.supabase ?? await createClient();
   const now = new Date().toISOString();
 
-  // If filtering by projects and no projects assigned, return zeros
+  // CRM follow-ups belong to the user, not a project, so count them before the project filter
+  const userId = ctx?.user.id ?? (await supabase.auth.getUser()).data.user?.id;
+  let crmFollowUps = 0;
+  if (userId) {
+    const followUpsResult = await supabase
+      .from("crm_activities")
+      .select("*", { count: "exact", head: true })
+      .eq("user_id", userId)
+      .eq("is_deleted", false)
+      .is("follow_up_completed_at", null)
+      .lte("next_action_date", now.split("T")[0]);
+    throwOnError(followUpsResult, "getMyTasks/crmFollowUps");
+    crmFollowUps = followUpsResult.count || 0;
+  }
+
+  // If filtering by projects and no projects assigned, only CRM follow-ups remain
   if (projectIds && projectIds.length === 0) {
     return {
       pendingMaterialApprovals: 0,
       rejectedDrawings: 0,
       draftReports: 0,
       overdueMilestones: 0,
-      total: 0,
+      crmFollowUps,
+      total: crmFollowUps,
     };
   }
 
@@ -232,13 +253,15 @@ export async function getMyTasks(projectIds?: string[], ctx?: RequestContext): P
     (pendingMaterialApprovals || 0) +
     rejectedDrawingsCount +
     (draftReports || 0) +
-    (overdueMilestones || 0);
+    (overdueMilestones || 0) +
+    crmFollowUps;
 
   return {
     pendingMaterialApprovals: pendingMaterialApprovals || 0,
     rejectedDrawings: rejectedDrawingsCount,
     draftReports: draftReports || 0,
     overdueMilestones: overdueMilestones || 0,
+    crmFollowUps,
     total,
   };
 }
@@ -296,9 +319,11 @@ export async function getAtRiskProjects(projectIds?: string[], ctx?: RequestCont
   const clientMap = new Map(clients?.map(c => [c.id, c.company_name]) || []);
 
   // Get risk data in parallel
+  const today = now.split("T")[0];
   const [
     { data: overdueMilestones },
     { data: rejectedDrawings },
+    { data: overdueSnags },
   ] = await Promise.all([
     // Overdue milestones per project
     supabase
@@ -312,6 +337,14 @@ export async function getAtRiskProjects(projectIds?: string[], ctx?: RequestCont
       .from("drawings")
       .select("item_id")
       .eq("status", "rejected"),
+    // Snag SLA breaches: open snags past target_fix_date
+    supabase
+      .from("snagging")
+      .select("project_id, severity")
+      .in("project_id", fetchedProjectIds)
+      .eq("is_deleted", false)
+      .eq("is_resolved", false)
+      .lt("target_fix_date", today),
   ]);
 
   // Get project_ids for rejected drawings via scope_items
@@ -337,20 +370,30 @@ export async function getAtRiskProjects(projectIds?: string[], ctx?: RequestCont
     overdueByProject.set(milestone.project_id, count + 1);
   });
 
+  // Count snag SLA breaches per project (total + critical)
+  const overdueSnagsByProject = new Map<string, { total: number; critical: number }>();
+  overdueSnags?.forEach((snag) => {
+    const counts = overdueSnagsByProject.get(snag.project_id) || { total: 0, critical: 0 };
+    counts.total += 1;
+    if (snag.severity === "critical") counts.critical += 1;
+    overdueSnagsByProject.set(snag.project_id, counts);
+  });
+
   // Build at-risk projects list
   const atRiskProjects: AtRiskProject[] = [];
 
   for (const project of projects) {
     const overdueCount = overdueByProject.get(project.id) || 0;
     const rejectedCount = rejectedByProject.get(project.id) || 0;
+    const snagCounts = overdueSnagsByProject.get(project.id) || { total: 0, critical: 0 };
 
     // Only include projects with actual risk indicators
-    if (overdueCount > 0 || rejectedCount > 0) {
-      // Determine risk level
+    if (overdueCount > 0 || rejectedCount > 0 || snagCounts.total > 0) {
+      // Determine risk level (an overdue critical snag blocks handover)
       let riskLevel: "high" | "medium" | "low" = "low";
-      if (overdueCount >= 5 || rejectedCount >= 3) {
+      if (overdueCount >= 5 || rejectedCount >= 3 || snagCounts.critical >= 1) {
         riskLevel = "high";
-      } else if (overdueCount >= 2 || rejectedCount >= 1) {
+      } else if (overdueCount >= 2 || rejectedCount >= 1 || snagCounts.total >= 3) {
         riskLevel = "medium";
       }
 
@@ -362,6 +405,8 @@ export async function getAtRiskProjects(projectIds?: string[], ctx?: RequestCont
         client_name: project.client_id ? clientMap.get(project.client_id) || null : null,
         overdueCount,
         rejectedDrawingsCount: rejectedCount,
+        overdueSnagsCount: snagCounts.total,
+        criticalOverdueSnagsCount: snagCounts.critical,
         riskLevel,
       });
     }
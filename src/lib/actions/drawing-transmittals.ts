@@ -0,0 +1,290 @@
+"use server";
+
+/**
+ * Drawing Transmittal Server Actions
+ *
+ * Transmittals are recorded by sendDrawingsToClient (drawings.ts); this file
+ * reads them back, lets recipients acknowledge receipt and exports the
+ * project drawing register.
+ */
+
+import { createClient } from "@/lib/supabase/server";
+import { logActivity } from "@/lib/activity-log/actions";
+import { ACTIVITY_ACTIONS } from "@/lib/activity-log/constants";
+import { notifyProjectPMs } from "@/lib/notifications/actions";
+import {
+  buildDrawingRegister,
+  type DrawingRegisterSource,
+  type TransmittalPurpose,
+} from "@/lib/drawing-transmittals";
+
+export interface ActionResult<T = void> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+export interface DrawingTransmittal {
+  id: string;
+  projectId: string;
+  code: string;
+  purpose: TransmittalPurpose;
+  notes: string | null;
+  sentAt: string;
+  sentByName: string | null;
+  items: {
+    id: string;
+    drawingId: string | null;
+    itemCode: string;
+    itemName: string;
+    revision: string | null;
+    fileName: string | null;
+  }[];
+  recipients: {
+    id: string;
+    userId: string | null;
+    name: string;
+    email: string | null;
+    acknowledgedAt: string | null;
+    isMe: boolean;
+  }[];
+}
+
+const TRANSMITTAL_SELECT = `
+  id, project_id, transmittal_code, purpose, notes, sent_at,
+  sender:users!drawing_transmittals_sent_by_fkey(name),
+  drawing_transmittal_items(id, drawing_id, item_code, item_name, revision, file_name),
+  drawing_transmittal_recipients(id, user_id, name, email, acknowledged_at)
+`;
+
+interface TransmittalRow {
+  id: string;
+  project_id: string;
+  transmittal_code: string | null;
+  purpose: string;
+  notes: string | null;
+  sent_at: string;
+  sender: { name: string } | null;
+  drawing_transmittal_items: {
+    id: string;
+    drawing_id: string | null;
+    item_code: string;
+    item_name: string;
+    revision: string | null;
+    file_name: string | null;
+  }[];
+  drawing_transmittal_recipients: {
+    id: string;
+    user_id: string | null;
+    name: string;
+    email: string | null;
+    acknowledged_at: string | null;
+  }[];
+}
+
+function toTransmittal(row: TransmittalRow, userId: string): DrawingTransmittal {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    code: row.transmittal_code ?? "",
+    purpose: row.purpose as TransmittalPurpose,
+    notes: row.notes,
+    sentAt: row.sent_at,
+    sentByName: row.sender?.name ?? null,
+    items: [...row.drawing_transmittal_items]
+      .sort((a, b) => a.item_code.localeCompare(b.item_code, undefined, { numeric: true }))
+      .map((i) => ({
+        id: i.id,
+        drawingId: i.drawing_id,
+        itemCode: i.item_code,
+        itemName: i.item_name,
+        revision: i.revision,
+        fileName: i.file_name,
+      })),
+    recipients: row.drawing_transmittal_recipients.map((r) => ({
+      id: r.id,
+      userId: r.user_id,
+      name: r.name,
+      email: r.email,
+      acknowledgedAt: r.acknowledged_at,
+      isMe: r.user_id === userId,
+    })),
+  };
+}
+
+/**
+ * A project's transmittals, newest first
+ */
+export async function getDrawingTransmittals(projectId: string): Promise<DrawingTransmittal[]> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  const { data, error } = await supabase
+    .from("drawing_transmittals")
+    .select(TRANSMITTAL_SELECT)
+    .eq("project_id", projectId)
+    .order("sent_at", { ascending: false });
+
+  if (error) {
+    console.error("[getDrawingTransmittals] Failed:", error.message);
+    return [];
+  }
+
+  return ((data || []) as unknown as TransmittalRow[]).map((row) => toTransmittal(row, user.id));
+}
+
+/**
+ * One transmittal, for the page the transmittal email links to
+ */
+export async function getDrawingTransmittal(transmittalId: string): Promise<DrawingTransmittal | null> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return null;
+
+  const { data } = await supabase
+    .from("drawing_transmittals")
+    .select(TRANSMITTAL_SELECT)
+    .eq("id", transmittalId)
+    .maybeSingle();
+
+  return data ? toTransmittal(data as unknown as TransmittalRow, user.id) : null;
+}
+
+/**
+ * Acknowledge receipt of a transmittal as one of its recipients.
+ * Repeating it keeps the first acknowledgement time.
+ */
+export async function acknowledgeDrawingTransmittal(
+  transmittalId: string
+): Promise<ActionResult<{ acknowledgedAt: string }>> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const { data: transmittal } = await supabase
+    .from("drawing_transmittals")
+    .select("id, project_id, transmittal_code, drawing_transmittal_recipients(user_id, acknowledged_at)")
+    .eq("id", transmittalId)
+    .maybeSingle();
+  if (!transmittal) return { success: false, error: "Transmittal not found" };
+
+  const previous = transmittal.drawing_transmittal_recipients.find((r) => r.user_id === user.id);
+  if (!previous) return { success: false, error: "You are not a recipient of this transmittal" };
+  if (previous.acknowledged_at) {
+    return { success: true, data: { acknowledgedAt: previous.acknowledged_at } };
+  }
+
+  const { data: acknowledgedAt, error } = await supabase.rpc("acknowledge_drawing_transmittal", {
+    p_transmittal_id: transmittalId,
+  });
+
+  if (error || !acknowledgedAt) {
+    console.error("[acknowledgeDrawingTransmittal] Failed:", error?.message);
+    return { success: false, error: error?.message || "Failed to acknowledge transmittal" };
+  }
+
+  const { data: userData } = await supabase.from("users").select("name").eq("id", user.id).single();
+  const code = transmittal.transmittal_code ?? "transmittal";
+
+  await Promise.all([
+    logActivity({
+      action: ACTIVITY_ACTIONS.DRAWING_TRANSMITTAL_ACKNOWLEDGED,
+      entityType: "drawing_transmittal",
+      entityId: transmittalId,
+      projectId: transmittal.project_id,
+      details: { name: code },
+    }),
+    notifyProjectPMs({
+      projectId: transmittal.project_id,
+      excludeUserId: user.id,
+      type: "drawing_transmittal_acknowledged",
+      title: `${userData?.name || "The client"} acknowledged ${code}`,
+    }),
+  ]);
+
+  return { success: true, data: { acknowledgedAt } };
+}
+
+/**
+ * Project drawing register as an Excel workbook (base64): every production
+ * item with its drawing status, revisions and the transmittals that carried it.
+ * Not available to clients, since it lists drawings not yet sent to them.
+ */
+export async function exportDrawingRegister(
+  projectId: string
+): Promise<ActionResult<{ base64: string; fileName: string }>> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const { data: userData } = await supabase
+    .from("users")
+    .select("role")
+    .eq("id", user.id)
+    .single();
+  if (!userData || userData.role === "client") {
+    return { success: false, error: "The drawing register is not available to clients" };
+  }
+
+  const [projectResult, itemsResult, transmittalsResult] = await Promise.all([
+    supabase.from("projects").select("name, project_code").eq("id", projectId).single(),
+    supabase
+      .from("scope_items")
+      .select("id, item_code, name, drawings(id, status, current_revision, drawing_revisions(revision, created_at))")
+      .eq("project_id", projectId)
+      .eq("item_path", "production")
+      .eq("is_deleted", false),
+    supabase
+      .from("drawing_transmittals")
+      .select("transmittal_code, purpose, sent_at, drawing_transmittal_items(drawing_id, revision)")
+      .eq("project_id", projectId),
+  ]);
+
+  if (!projectResult.data) return { success: false, error: "Project not found" };
+  if (itemsResult.error) return { success: false, error: itemsResult.error.message };
+
+  const issuesByDrawing = new Map<string, DrawingRegisterSource["issues"]>();
+  for (const t of transmittalsResult.data || []) {
+    for (const item of t.drawing_transmittal_items) {
+      if (!item.drawing_id) continue;
+      const list = issuesByDrawing.get(item.drawing_id) || [];
+      list.push({
+        code: t.transmittal_code ?? "",
+        purpose: t.purpose as TransmittalPurpose,
+        sentAt: t.sent_at,
+        revision: item.revision,
+      });
+      issuesByDrawing.set(item.drawing_id, list);
+    }
+  }
+
+  const rows = buildDrawingRegister(
+    (itemsResult.data || []).map((item) => {
+      const drawing = item.drawings;
+      return {
+        itemCode: item.item_code,
+        itemName: item.name,
+        status: drawing?.status ?? null,
+        currentRevision: drawing?.current_revision ?? null,
+        revisions: (drawing?.drawing_revisions || []).map((r) => ({
+          revision: r.revision,
+          createdAt: r.created_at ?? "",
+        })),
+        issues: drawing ? issuesByDrawing.get(drawing.id) || [] : [],
+      };
+    })
+  );
+
+  const { project_code: projectCode, name: projectName } = projectResult.data;
+  const { generateDrawingRegisterExcel } = await import("@/lib/excel/drawing-register-export");
+  const buffer = await generateDrawingRegisterExcel({ projectCode, projectName, rows });
+
+  return {
+    success: true,
+    data: {
+      base64: buffer.toString("base64"),
+      fileName: `${projectCode}_Drawing_Register_${new Date().toISOString().split("T")[0]}.xlsx`,
+    },
+  };
+}
@@ -3,40 +3,75 @@
 /**
  * Drawings Server Actions
  *
- * Handles sending drawings to clients (single and bulk),
- * PM override approval with server-side validation,
- * including email notifications and activity logging.
+ * Handles sending drawings to clients (single and bulk) under a numbered
+ * transmittal, PM override approval with server-side validation, and the
+ * project's internal approval chain, including email notifications and
+ * activity logging. drawing_status transitions are checked here against
+ * DRAWING_STATUS_TRANSITIONS.
  */
 
 import { createClient, type RequestContext } from "@/lib/supabase/server";
 import { logActivity } from "@/lib/activity-log/actions";
 import { ACTIVITY_ACTIONS } from "@/lib/activity-log/constants";
-import { notifyProjectPMs } from "@/lib/notifications/actions";
+import { notifyProjectPMs, notifyProjectUsers } from "@/lib/notifications/actions";
 import { DrawingSentToClientEmail } from "@/emails/drawing-sent-to-client-email";
 import { getSiteUrl } from "@/lib/platform/env";
 import { getResendClient } from "@/lib/platform/mail";
+import { drawingMarkupListSchema } from "@/lib/validations";
+import type { DrawingMarkup } from "@/lib/drawing-markup";
+import {
+  TRANSMITTAL_PURPOSE_LABELS,
+  isTransmittalPurpose,
+  type TransmittalPurpose,
+} from "@/lib/drawing-transmittals";
+import {
+  CHAIN_APPROVER_ROLE_LABELS,
+  canReviewStep,
+  canTransitionDrawing,
+  isChainApproverRole,
+  isReadyForClient,
+  resolveInternalReview,
+  validateApprovalChain,
+  type ApprovalChainStep,
+  type InternalReview,
+  type InternalReviewState,
+} from "@/lib/drawing-approval-chain";
+import type { Json } from "@/types/database";
 
 interface SendDrawingsResult {
   success: boolean;
   sentCount: number;
   emailsSent: number;
   emailsFailed: number;
+  transmittalId?: string;
+  transmittalCode?: string;
   error?: string;
 }
 
+interface SendDrawingsOptions {
+  /** Defaults to for_approval, the only purpose that changes drawing status */
+  purpose?: TransmittalPurpose;
+  notes?: string;
+}
+
 /**
- * Send drawings to client for review/approval.
- * Works for both single and bulk sends.
+ * Send drawings to client for review/approval, or issue them for
+ * construction / information. Works for both single and bulk sends.
  *
- * 1. Updates drawing statuses to "sent_to_client"
- * 2. Updates scope item statuses to "awaiting_approval"
- * 3. Creates in-app notifications for client users
- * 4. Sends email notifications via Resend
- * 5. Logs activity
+ * 1. Checks each revision has cleared the project's internal approval chain
+ *    (for approval only)
+ * 2. Records a numbered transmittal with the revisions sent and recipients,
+ *    and in the same transaction updates drawing statuses to "sent_to_client"
+ *    (for approval only); the send fails if either cannot be written
+ * 3. Updates scope item statuses to "awaiting_approval" (for approval only)
+ * 4. Creates in-app notifications for client users
+ * 5. Sends email notifications via Resend, linking to the transmittal
+ * 6. Logs activity
  */
 export async function sendDrawingsToClient(
   projectId: string,
   drawingIds: string[],
+  options: SendDrawingsOptions = {},
   ctx?: RequestContext
 ): Promise<SendDrawingsResult> {
   const supabase = ctx?.supabase ?? await createClient();
@@ -51,10 +86,16 @@ export async function sendDrawingsToClient(
     return { success: false, sentCount: 0, emailsSent: 0, emailsFailed: 0, error: "No drawings selected" };
   }
 
-  // 2. Fetch drawing + item details
+  const purpose = options.purpose ?? "for_approval";
+  if (!isTransmittalPurpose(purpose)) {
+    return { success: false, sentCount: 0, emailsSent: 0, emailsFailed: 0, error: "Invalid transmittal purpose" };
+  }
+  const forApproval = purpose === "for_approval";
+
+  // 2. Fetch drawing + item details, with the project each drawing belongs to
   const { data: drawingsData, error: drawingsError } = await supabase
     .from("drawings")
-    .select("id, item_id, current_revision")
+    .select("id, item_id, status, current_revision, scope_items!inner(project_id)")
     .in("id", drawingIds);
 
   if (drawingsError || !drawingsData || drawingsData.length === 0) {
@@ -62,6 +103,15 @@ export async function sendDrawingsToClient(
     return { success: false, sentCount: 0, emailsSent: 0, emailsFailed: 0, error: "Drawings not found" };
   }
 
+  // The approval chain and recipients come from projectId, so every drawing
+  // must belong to that project
+  if (
+    drawingsData.length !== new Set(drawingIds).size ||
+    drawingsData.some((d) => d.scope_items.project_id !== projectId)
+  ) {
+    return { success: false, sentCount: 0, emailsSent: 0, emailsFailed: 0, error: "Drawings do not belong to this project" };
+  }
+
   const itemIds = drawingsData.map((d) => d.item_id);
 
   // Get scope item details for notifications
@@ -72,30 +122,28 @@ export async function sendDrawingsToClient(
 
   const itemMap = new Map((itemsData || []).map((i) => [i.id, i]));
 
-  // 3. Batch update drawings — set status to "sent_to_client"
-  const now = new Date().toISOString();
-  const { error: updateDrawingsError } = await supabase
-    .from("drawings")
-    .update({ status: "sent_to_client", sent_to_client_at: now })
-    .in("id", drawingIds);
-
-  if (updateDrawingsError) {
-    console.error("[sendDrawingsToClient] Error updating drawings:", updateDrawingsError.message);
-    return { success: false, sentCount: 0, emailsSent: 0, emailsFailed: 0, error: updateDrawingsError.message };
-  }
-
-  // 4. Batch update scope items — set status to "awaiting_approval"
-  const { error: updateItemsError } = await supabase
-    .from("scope_items")
-    .update({ status: "awaiting_approval" })
-    .in("id", itemIds);
+  if (forApproval) {
+    // Only uploaded revisions that cleared the internal chain (or re-sends) can go
+    const reviewStates = await loadInternalReviewStates(supabase, projectId, drawingsData);
+    const blocked = drawingsData.filter((d) => {
+      if (!canTransitionDrawing(d.status, "sent_to_client")) return true;
+      const state = reviewStates.get(d.id);
+      return d.status === "uploaded" && !!state && !isReadyForClient(state);
+    });
 
-  if (updateItemsError) {
-    console.error("[sendDrawingsToClient] Error updating scope items:", updateItemsError.message);
-    // Continue — drawings are already updated, this is non-blocking
+    if (blocked.length > 0) {
+      const codes = blocked.map((d) => itemMap.get(d.item_id)?.item_code || "drawing").join(", ");
+      return {
+        success: false,
+        sentCount: 0,
+        emailsSent: 0,
+        emailsFailed: 0,
+        error: `Not ready for client approval: ${codes}. Drawings must be uploaded and pass the internal approval chain first.`,
+      };
+    }
   }
 
-  // 5. Get project details + sender name + client users
+  // 3. Get project details + sender name + client users
   const [projectResult, senderResult, assignmentsResult] = await Promise.all([
     supabase
       .from("projects")
@@ -119,78 +167,134 @@ export async function sendDrawingsToClient(
   let emailsSent = 0;
   let emailsFailed = 0;
 
-  if (assignedUserIds.length > 0) {
-    const { data: clientUsers } = await supabase
-      .from("users")
-      .select("id, name, email, role")
-      .in("id", assignedUserIds)
-      .eq("role", "client")
-      .eq("is_active", true);
-
-    const clients = clientUsers || [];
-
-    if (clients.length > 0) {
-      const itemCodes = drawingsData
-        .map((d) => itemMap.get(d.item_id)?.item_code)
-        .filter((code): code is string => !!code);
-      const itemNames = drawingsData
-        .map((d) => itemMap.get(d.item_id)?.name)
-        .filter((name): name is string => !!name);
-
-      // 6. Create in-app notifications for client users
-      const notifications = clients.map((client) => ({
-        user_id: client.id,
-        type: "drawing_sent",
-        title: `${senderName} sent ${drawingIds.length} drawing${drawingIds.length !== 1 ? "s" : ""} for review`,
-        message: `${drawingIds.length} drawing${drawingIds.length !== 1 ? "s" : ""} awaiting your approval for ${projectName}`,
-        project_id: projectId,
-      }));
-
-      const { error: notifError } = await supabase
-        .from("notifications")
-        .insert(notifications);
-      if (notifError) {
-        console.error("[sendDrawingsToClient] Failed to create notifications:", notifError.message);
-      }
+  const { data: clientUsers } = assignedUserIds.length > 0
+    ? await supabase
+        .from("users")
+        .select("id, name, email, role")
+        .in("id", assignedUserIds)
+        .eq("role", "client")
+        .eq("is_active", true)
+    : { data: [] };
+
+  const clients = clientUsers || [];
+
+  // 4. Record the transmittal and, for approval, mark the drawings sent in the
+  // same transaction (resetting the reminder stage restarts the
+  // approval-reminders cadence). A failure here stops the send.
+  const transmittal = await recordTransmittal(supabase, {
+    projectId,
+    purpose,
+    notes: options.notes?.trim() || null,
+    markSent: forApproval,
+    drawings: drawingsData.map((d) => ({
+      ...d,
+      item_code: itemMap.get(d.item_id)?.item_code || "",
+      item_name: itemMap.get(d.item_id)?.name || "",
+    })),
+    recipients: clients,
+  });
+
+  if (!transmittal) {
+    return {
+      success: false,
+      sentCount: 0,
+      emailsSent: 0,
+      emailsFailed: 0,
+      error: "Could not record the transmittal — nothing was sent. Please try again.",
+    };
+  }
+
+  if (forApproval) {
+    // 5. Batch update scope items — set status to "awaiting_approval"
+    const { error: updateItemsError } = await supabase
+      .from("scope_items")
+      .update({ status: "awaiting_approval" })
+      .in("id", itemIds);
+
+    if (updateItemsError) {
+      console.error("[sendDrawingsToClient] Error updating scope items:", updateItemsError.message);
+      // Continue — drawings are already updated, this is non-blocking
+    }
+  }
 
-      // 7. Send email notifications via Resend batch API
-      const resend = getResendClient();
-      if (resend) {
-        const siteUrl = getSiteUrl();
-        const drawingsPageUrl = `${siteUrl}/projects/${projectId}?tab=drawings`;
-
-        const usersWithEmail = clients.filter((c) => c.email);
-
-        if (usersWithEmail.length > 0) {
-          const emailRequests = usersWithEmail.map((client) => ({
-            from: "Formula Contract <noreply@formulacontractpm.com>",
-            to: client.email,
-            subject: `Drawings Awaiting Your Approval: ${projectName}`,
-            react: DrawingSentToClientEmail({
-              userName: client.name,
-              projectName,
-              projectCode,
-              drawingCount: drawingIds.length,
-              itemCodes,
-              itemNames,
-              senderName,
-              drawingsPageUrl,
-            }),
-          }));
-
-          try {
-            const { error: batchError } = await resend.batch.send(emailRequests);
-
-            if (batchError) {
-              console.error("[sendDrawingsToClient] Batch email failed:", batchError);
-              emailsFailed = usersWithEmail.length;
-            } else {
-              emailsSent = usersWithEmail.length;
-            }
-          } catch (emailError) {
-            console.error("[sendDrawingsToClient] Batch email error:", emailError);
+  const purposeLabel = TRANSMITTAL_PURPOSE_LABELS[purpose].toLowerCase();
+  const drawingsNoun = `drawing${drawingIds.length !== 1 ? "s" : ""}`;
+
+  if (clients.length > 0) {
+    const itemCodes = drawingsData
+      .map((d) => itemMap.get(d.item_id)?.item_code)
+      .filter((code): code is string => !!code);
+    const itemNames = drawingsData
+      .map((d) => itemMap.get(d.item_id)?.name)
+      .filter((name): name is string => !!name);
+
+    // 6. Create in-app notifications for client users
+    const notifications = clients.map((client) => ({
+      user_id: client.id,
+      type: "drawing_sent",
+      title: forApproval
+        ? `${senderName} sent ${drawingIds.length} ${drawingsNoun} for review`
+        : `${senderName} issued ${drawingIds.length} ${drawingsNoun} ${purposeLabel}`,
+      message: forApproval
+        ? `${drawingIds.length} ${drawingsNoun} awaiting your approval for ${projectName}`
+        : `${drawingIds.length} ${drawingsNoun} issued ${purposeLabel} on ${projectName}`,
+      project_id: projectId,
+    }));
+
+    const { error: notifError } = await supabase
+      .from("notifications")
+      .insert(notifications);
+    if (notifError) {
+      console.error("[sendDrawingsToClient] Failed to create notifications:", notifError.message);
+    }
+
+    // 7. Send email notifications via Resend batch API
+    const resend = getResendClient();
+    if (resend) {
+      const siteUrl = getSiteUrl();
+      const drawingsPageUrl = `${siteUrl}/projects/${projectId}?tab=drawings`;
+      const transmittalUrl = `${siteUrl}/projects/${projectId}/transmittals/${transmittal.id}`;
+
+      const subject = [
+        transmittal.code,
+        `${forApproval ? "Drawings Awaiting Your Approval" : `Drawings Issued ${TRANSMITTAL_PURPOSE_LABELS[purpose]}`}: ${projectName}`,
+      ].filter(Boolean).join(" — ");
+
+      const usersWithEmail = clients.filter((c) => c.email);
+
+      if (usersWithEmail.length > 0) {
+        const emailRequests = usersWithEmail.map((client) => ({
+          from: "Formula Contract <noreply@formulacontractpm.com>",
+          to: client.email,
+          subject,
+          react: DrawingSentToClientEmail({
+            userName: client.name,
+            projectName,
+            projectCode,
+            drawingCount: drawingIds.length,
+            itemCodes,
+            itemNames,
+            senderName,
+            drawingsPageUrl,
+            purpose,
+            transmittalCode: transmittal.code,
+            transmittalUrl,
+            notes: options.notes?.trim() || undefined,
+          }),
+        }));
+
+        try {
+          const { error: batchError } = await resend.batch.send(emailRequests);
+
+          if (batchError) {
+            console.error("[sendDrawingsToClient] Batch email failed:", batchError);
             emailsFailed = usersWithEmail.length;
+          } else {
+            emailsSent = usersWithEmail.length;
           }
+        } catch (emailError) {
+          console.error("[sendDrawingsToClient] Batch email error:", emailError);
+          emailsFailed = usersWithEmail.length;
         }
       }
     }
@@ -213,6 +317,8 @@ export async function sendDrawingsToClient(
       drawing_count: drawingIds.length,
       item_codes: itemCodes,
       drawing_ids: drawingIds,
+      purpose,
+      transmittal_code: transmittal.code,
     },
   });
 
@@ -223,9 +329,65 @@ export async function sendDrawingsToClient(
     sentCount: drawingIds.length,
     emailsSent,
     emailsFailed,
+    transmittalId: transmittal.id,
+    transmittalCode: transmittal.code,
   };
 }
 
+/**
+ * Insert the transmittal with snapshots of the current revision of each
+ * drawing and of each recipient, all in one transaction — with markSent, the
+ * drawings move to "sent_to_client" in that transaction too. Returns null (and
+ * logs) if it could not be written; nothing is left behind in that case.
+ */
+async function recordTransmittal(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  input: {
+    projectId: string;
+    purpose: TransmittalPurpose;
+    notes: string | null;
+    markSent: boolean;
+    drawings: { id: string; current_revision: string | null; item_code: string; item_name: string }[];
+    recipients: { id: string; name: string; email: string | null }[];
+  }
+): Promise<{ id: string; code: string } | null> {
+  const { data: revisions, error: revisionsError } = await supabase
+    .from("drawing_revisions")
+    .select("drawing_id, revision, file_name")
+    .in("drawing_id", input.drawings.map((d) => d.id));
+
+  if (revisionsError) {
+    console.error("[sendDrawingsToClient] Failed to load revisions for transmittal:", revisionsError.message);
+    return null;
+  }
+
+  const { data: transmittal, error } = await supabase
+    .rpc("record_drawing_transmittal", {
+      p_project_id: input.projectId,
+      p_purpose: input.purpose,
+      p_notes: input.notes ?? undefined,
+      p_mark_sent: input.markSent,
+      p_items: input.drawings.map((d) => ({
+        drawing_id: d.id,
+        item_code: d.item_code,
+        item_name: d.item_name,
+        revision: d.current_revision,
+        file_name:
+          (revisions || []).find((r) => r.drawing_id === d.id && r.revision === d.current_revision)
+            ?.file_name ?? null,
+      })),
+      p_recipients: input.recipients.map((r) => ({ user_id: r.id, name: r.name, email: r.email })),
+    })
+    .single();
+
+  if (error || !transmittal) {
+    console.error("[sendDrawingsToClient] Failed to record transmittal:", error?.message);
+    return null;
+  }
+
+  return { id: transmittal.id, code: transmittal.transmittal_code ?? "" };
+}
+
 interface OverrideResult {
   success: boolean;
   error?: string;
@@ -242,7 +404,8 @@ interface OverrideResult {
  * Now enforced server-side:
  * 1. Validates authentication
  * 2. Validates override reason is non-empty
- * 3. Updates drawing status to approved with override metadata
+ * 3. Updates drawing status to approved with override metadata, from
+ *    sent_to_client or rejected only
  * 4. Updates scope item status to approved
  * 5. Logs activity
  */
@@ -270,6 +433,19 @@ export async function overrideDrawingApproval(
 
   const trimmedReason = overrideReason.trim();
 
+  const { data: current } = await supabase
+    .from("drawings")
+    .select("status")
+    .eq("id", drawingId)
+    .single();
+
+  if (!current) {
+    return { success: false, error: "Drawing not found" };
+  }
+  if (!canTransitionDrawing(current.status, "approved")) {
+    return { success: false, error: "Only drawings with the client or rejected by them can be overridden" };
+  }
+
   // 3. Update drawing with override
   const { error: drawingError } = await supabase
     .from("drawings")
@@ -362,7 +538,8 @@ export async function getDrawingDownloadUrls(
 
 /**
  * Get all drawings for a project's scope items (both production and procurement).
- * Used by the drawings tab and overview for lazy loading.
+ * Used by the drawings tab and overview for lazy loading. Uploaded drawings
+ * carry where their revision is in the internal approval chain.
  */
 export async function getProjectDrawings(projectId: string, ctx?: RequestContext) {
   const supabase = ctx?.supabase ?? await createClient();
@@ -380,20 +557,28 @@ export async function getProjectDrawings(projectId: string, ctx?: RequestContext
   const { data } = await supabase
     .from("drawings")
     .select(`
-      id, item_id, status, current_revision, sent_to_client_at, created_at, updated_at,
+      id, item_id, status, current_revision, sent_to_client_at, approval_reminder_stage, created_at, updated_at,
       drawing_revisions(uploaded_by, created_at, users:uploaded_by(name))
     `)
     .in("item_id", itemIds)
     .order("created_at", { referencedTable: "drawing_revisions", ascending: false });
 
+  const drawings = data || [];
+  const reviewStates = await loadInternalReviewStates(
+    supabase,
+    projectId,
+    drawings.filter((d) => d.status === "uploaded")
+  );
+
   // Extract the latest revision's uploader for each drawing
-  return (data || []).map((d) => {
+  return drawings.map((d) => {
     const revisions = (d.drawing_revisions || []) as { uploaded_by: string; created_at: string; users: { name: string } | null }[];
     const latestRev = revisions[0] || null;
     return {
       ...d,
       uploaded_by_name: latestRev?.users?.name || null,
       uploaded_revision_at: latestRev?.created_at || null,
+      internal_review: reviewStates.get(d.id) ?? null,
       drawing_revisions: undefined,
     };
   });
@@ -496,6 +681,7 @@ export async function deleteDrawing(
 
 /**
  * Approve or reject a drawing. Called by the client user.
+ * Only valid while the drawing is sent_to_client.
  * Creates notifications for all PMs on the project.
  */
 export async function approveOrRejectDrawing(input: {
@@ -512,6 +698,17 @@ export async function approveOrRejectDrawing(input: {
   const { data: { user } } = await supabase.auth.getUser();
   if (!user) return { success: false, error: "Not authenticated" };
 
+  const { data: current } = await supabase
+    .from("drawings")
+    .select("status")
+    .eq("id", input.drawingId)
+    .single();
+
+  if (!current) return { success: false, error: "Drawing not found" };
+  if (!canTransitionDrawing(current.status, input.action)) {
+    return { success: false, error: "This drawing is not awaiting a client response" };
+  }
+
   // Upload markup file if provided
   let markupUrl: string | null = null;
   if (input.markupFileData) {
@@ -624,6 +821,485 @@ export async function approveOrRejectDrawing(input: {
   return { success: true, newItemStatus };
 }
 
+// ============================================================================
+// Internal Approval Chain (checks before the client sees a revision)
+// ============================================================================
+
+type ServerSupabase = Awaited<ReturnType<typeof createClient>>;
+
+const INTERNAL_REVIEW_COLUMNS =
+  "drawing_id, revision, step_order, step_name, decision, comments, reviewed_at, users:reviewed_by(name)";
+
+interface InternalReviewRow {
+  drawing_id: string;
+  revision: string;
+  step_order: number;
+  step_name: string;
+  decision: string;
+  comments: string | null;
+  reviewed_at: string;
+  users: { name: string } | null;
+}
+
+function toInternalReview(row: InternalReviewRow): InternalReview {
+  return {
+    revision: row.revision,
+    stepOrder: row.step_order,
+    stepName: row.step_name,
+    decision: row.decision === "rejected" ? "rejected" : "approved",
+    comments: row.comments,
+    reviewedByName: row.users?.name ?? null,
+    reviewedAt: row.reviewed_at,
+  };
+}
+
+async function loadApprovalChain(supabase: ServerSupabase, projectId: string): Promise<ApprovalChainStep[]> {
+  const { data } = await supabase
+    .from("drawing_approval_steps")
+    .select("step_order, name, approver_role")
+    .eq("project_id", projectId)
+    .order("step_order");
+
+  return (data || []).flatMap((s) =>
+    isChainApproverRole(s.approver_role)
+      ? [{ stepOrder: s.step_order, name: s.name, approverRole: s.approver_role }]
+      : []
+  );
+}
+
+/** Chain state of each drawing's current revision, keyed by drawing id */
+async function loadInternalReviewStates(
+  supabase: ServerSupabase,
+  projectId: string,
+  drawings: { id: string; current_revision: string | null }[]
+): Promise<Map<string, InternalReviewState>> {
+  const states = new Map<string, InternalReviewState>();
+  if (drawings.length === 0) return states;
+
+  const steps = await loadApprovalChain(supabase, projectId);
+  const { data } = steps.length > 0
+    ? await supabase
+        .from("drawing_internal_reviews")
+        .select(INTERNAL_REVIEW_COLUMNS)
+        .in("drawing_id", drawings.map((d) => d.id))
+    : { data: [] };
+  const rows = (data || []) as unknown as InternalReviewRow[];
+
+  for (const drawing of drawings) {
+    const reviews = rows
+      .filter((r) => r.drawing_id === drawing.id && r.revision === drawing.current_revision)
+      .map(toInternalReview);
+    states.set(drawing.id, resolveInternalReview(steps, reviews));
+  }
+  return states;
+}
+
+/** The project's internal approval chain, in order. Empty when there is none. */
+export async function getDrawingApprovalChain(projectId: string): Promise<ApprovalChainStep[]> {
+  const supabase = await createClient();
+  return loadApprovalChain(supabase, projectId);
+}
+
+/**
+ * Replace the project's internal approval chain. PM/Admin only.
+ * Revisions already part-way through keep their sign-offs by position.
+ */
+export async function updateDrawingApprovalChain(
+  projectId: string,
+  steps: Pick<ApprovalChainStep, "name" | "approverRole">[]
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const { data: profile } = await supabase
+    .from("users")
+    .select("role")
+    .eq("id", user.id)
+    .single();
+
+  if (!profile || !["admin", "pm"].includes(profile.role)) {
+    return { success: false, error: "Only admins and PMs can change the approval chain" };
+  }
+
+  const validationError = validateApprovalChain(steps);
+  if (validationError) return { success: false, error: validationError };
+
+  // One transaction: a failed insert keeps the old chain instead of leaving none
+  const { error } = await supabase.rpc("replace_drawing_approval_chain", {
+    p_project_id: projectId,
+    p_steps: steps.map((step) => ({ name: step.name.trim(), approver_role: step.approverRole })),
+  });
+
+  if (error) return { success: false, error: error.message };
+
+  await logActivity({
+    action: ACTIVITY_ACTIONS.DRAWING_APPROVAL_CHAIN_UPDATED,
+    entityType: "project",
+    entityId: projectId,
+    projectId,
+    details: {
+      steps: steps.map((s) => `${s.name.trim()} (${CHAIN_APPROVER_ROLE_LABELS[s.approverRole]})`),
+    },
+  });
+
+  return { success: true };
+}
+
+export interface DrawingInternalReviewSummary {
+  revision: string;
+  steps: ApprovalChainStep[];
+  /** Decisions on the current revision, oldest first */
+  reviews: InternalReview[];
+  state: InternalReviewState;
+  /** Whether the current user can act on the pending step */
+  canReview: boolean;
+}
+
+/** Where a drawing's current revision is in the chain, with its sign-offs */
+export async function getDrawingInternalReview(drawingId: string): Promise<DrawingInternalReviewSummary | null> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return null;
+
+  const [{ data: drawing }, { data: profile }] = await Promise.all([
+    supabase
+      .from("drawings")
+      .select("id, item_id, current_revision")
+      .eq("id", drawingId)
+      .single(),
+    supabase.from("users").select("role").eq("id", user.id).single(),
+  ]);
+
+  if (!drawing?.current_revision || !profile || profile.role === "client") return null;
+
+  const { data: item } = await supabase
+    .from("scope_items")
+    .select("project_id")
+    .eq("id", drawing.item_id)
+    .single();
+
+  if (!item) return null;
+
+  const [steps, { data: rows }] = await Promise.all([
+    loadApprovalChain(supabase, item.project_id),
+    supabase
+      .from("drawing_internal_reviews")
+      .select(INTERNAL_REVIEW_COLUMNS)
+      .eq("drawing_id", drawingId)
+      .eq("revision", drawing.current_revision)
+      .order("reviewed_at"),
+  ]);
+
+  const reviews = ((rows || []) as unknown as InternalReviewRow[]).map(toInternalReview);
+  const state = resolveInternalReview(steps, reviews);
+
+  return {
+    revision: drawing.current_revision,
+    steps,
+    reviews,
+    state,
+    canReview: !!state.currentStep && canReviewStep(state.currentStep, profile.role),
+  };
+}
+
+/**
+ * Approve or reject the pending internal step on a drawing's current revision.
+ *
+ * Only the step's role (or an admin) can act, and only while the drawing is
+ * uploaded. Approving hands the revision to the next step's approvers, or
+ * tells the PMs it is ready for the client; rejecting stops the chain and
+ * tells the PMs and the drafter, who uploads a new revision.
+ */
+export async function reviewDrawingStep(input: {
+  drawingId: string;
+  decision: "approved" | "rejected";
+  comments?: string;
+}): Promise<{ success: boolean; error?: string; state?: InternalReviewState }> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const comments = input.comments?.trim() || null;
+  if (input.decision === "rejected" && !comments) {
+    return { success: false, error: "Please explain why the drawing is rejected" };
+  }
+
+  const [{ data: drawing }, { data: profile }] = await Promise.all([
+    supabase
+      .from("drawings")
+      .select("id, item_id, status, current_revision")
+      .eq("id", input.drawingId)
+      .single(),
+    supabase.from("users").select("role").eq("id", user.id).single(),
+  ]);
+
+  if (!drawing?.current_revision) return { success: false, error: "Drawing not found" };
+  if (!profile || profile.role === "client") {
+    return { success: false, error: "Clients review drawings once they are sent to them" };
+  }
+  if (drawing.status !== "uploaded") {
+    return { success: false, error: "Only uploaded revisions go through the internal approval chain" };
+  }
+
+  const { data: item } = await supabase
+    .from("scope_items")
+    .select("project_id, item_code")
+    .eq("id", drawing.item_id)
+    .single();
+
+  if (!item) return { success: false, error: "Scope item not found" };
+
+  const revision = drawing.current_revision;
+  const [steps, { data: rows }] = await Promise.all([
+    loadApprovalChain(supabase, item.project_id),
+    supabase
+      .from("drawing_internal_reviews")
+      .select(INTERNAL_REVIEW_COLUMNS)
+      .eq("drawing_id", drawing.id)
+      .eq("revision", revision),
+  ]);
+
+  const reviews = ((rows || []) as unknown as InternalReviewRow[]).map(toInternalReview);
+  const before = resolveInternalReview(steps, reviews);
+  const step = before.currentStep;
+  if (!step) {
+    return {
+      success: false,
+      error: before.status === "rejected"
+        ? `Rev ${revision} was rejected at ${before.rejection?.stepName}. Upload a new revision to restart the chain.`
+        : "This revision has no internal step waiting",
+    };
+  }
+  if (!canReviewStep(step, profile.role)) {
+    return { success: false, error: `${step.name} is signed off by ${CHAIN_APPROVER_ROLE_LABELS[step.approverRole]}` };
+  }
+
+  const reviewedAt = new Date().toISOString();
+  const { error: insertError } = await supabase
+    .from("drawing_internal_reviews")
+    .insert({
+      drawing_id: drawing.id,
+      revision,
+      step_order: step.stepOrder,
+      step_name: step.name,
+      approver_role: step.approverRole,
+      decision: input.decision,
+      comments,
+      reviewed_by: user.id,
+      reviewed_at: reviewedAt,
+    });
+
+  if (insertError) return { success: false, error: insertError.message };
+
+  const reviewerName = user.user_metadata?.name || "A team member";
+  const after = resolveInternalReview(steps, [
+    ...reviews,
+    {
+      revision,
+      stepOrder: step.stepOrder,
+      stepName: step.name,
+      decision: input.decision,
+      comments,
+      reviewedByName: reviewerName,
+      reviewedAt,
+    },
+  ]);
+
+  await logActivity({
+    action: input.decision === "rejected"
+      ? ACTIVITY_ACTIONS.DRAWING_INTERNAL_REJECTED
+      : ACTIVITY_ACTIONS.DRAWING_INTERNAL_APPROVED,
+    entityType: "drawing",
+    entityId: drawing.id,
+    projectId: item.project_id,
+    details: {
+      item_code: item.item_code,
+      revision,
+      step: step.name,
+      comments: comments || undefined,
+    },
+  });
+
+  const label = `${item.item_code} Rev ${revision}`;
+  try {
+    if (input.decision === "rejected") {
+      const { data: latestRevision } = await supabase
+        .from("drawing_revisions")
+        .select("uploaded_by")
+        .eq("drawing_id", drawing.id)
+        .eq("revision", revision)
+        .single();
+
+      await notifyProjectUsers({
+        projectId: item.project_id,
+        roles: ["pm", "admin"],
+        userIds: latestRevision?.uploaded_by ? [latestRevision.uploaded_by] : [],
+        excludeUserId: user.id,
+        type: "drawing_review_rejected",
+        title: `${reviewerName} rejected ${label} at ${step.name}`,
+        message: comments || undefined,
+        drawingId: drawing.id,
+        itemId: drawing.item_id,
+      });
+    } else if (after.currentStep) {
+      await notifyProjectUsers({
+        projectId: item.project_id,
+        roles: [after.currentStep.approverRole],
+        excludeUserId: user.id,
+        type: "drawing_review_requested",
+        title: `${label} is ready for ${after.currentStep.name}`,
+        message: `${reviewerName} signed off ${step.name}`,
+        drawingId: drawing.id,
+        itemId: drawing.item_id,
+      });
+    } else {
+      await notifyProjectPMs({
+        projectId: item.project_id,
+        excludeUserId: user.id,
+        type: "drawing_review_completed",
+        title: `${label} passed internal approval and can be sent to the client`,
+        message: `${reviewerName} signed off ${step.name}`,
+        drawingId: drawing.id,
+        itemId: drawing.item_id,
+      });
+    }
+  } catch (notifError) {
+    console.error("[reviewDrawingStep] Notification failed:", notifError);
+  }
+
+  return { success: true, state: after };
+}
+
+// ============================================================================
+// Drawing Markup (in-browser annotations per revision)
+// ============================================================================
+
+export interface DrawingMarkupLayer {
+  authorId: string;
+  authorName: string;
+  authorRole: string | null;
+  /** The caller's own, editable layer */
+  isMine: boolean;
+  annotations: DrawingMarkup[];
+  updatedAt: string;
+}
+
+export interface DrawingMarkupRevision {
+  id: string;
+  revision: string;
+  fileUrl: string;
+  fileName: string;
+  layers: DrawingMarkupLayer[];
+}
+
+/**
+ * All revisions of a drawing with everyone's markup layers, newest revision
+ * first — the viewer edits the current one and overlays the one before it.
+ */
+export async function getDrawingMarkups(drawingId: string): Promise<DrawingMarkupRevision[]> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  const { data: revisions } = await supabase
+    .from("drawing_revisions")
+    .select("id, revision, file_url, file_name, created_at")
+    .eq("drawing_id", drawingId)
+    .order("created_at", { ascending: false });
+
+  if (!revisions || revisions.length === 0) return [];
+
+  const { data: markups } = await supabase
+    .from("drawing_revision_markups")
+    .select("revision_id, author_id, annotations, updated_at, users:author_id(name, role)")
+    .in("revision_id", revisions.map((r) => r.id));
+
+  return revisions.map((r) => ({
+    id: r.id,
+    revision: r.revision,
+    fileUrl: r.file_url,
+    fileName: r.file_name,
+    layers: (markups || [])
+      .filter((m) => m.revision_id === r.id)
+      .map((m) => {
+        const author = m.users as { name: string; role: string } | null;
+        return {
+          authorId: m.author_id,
+          authorName: author?.name || "Unknown",
+          authorRole: author?.role || null,
+          isMine: m.author_id === user.id,
+          annotations: (m.annotations as unknown as DrawingMarkup[]) || [],
+          updatedAt: m.updated_at,
+        };
+      }),
+  }));
+}
+
+/**
+ * Save the caller's markup layer on a revision. An empty list removes it.
+ * Clients, PMs and admins only; annotations are validated server-side.
+ */
+export async function saveDrawingMarkup(input: {
+  drawingId: string;
+  revision: string;
+  annotations: DrawingMarkup[];
+}): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const { data: userData } = await supabase
+    .from("users")
+    .select("role")
+    .eq("id", user.id)
+    .single();
+  if (!userData || !["admin", "pm", "client"].includes(userData.role)) {
+    return { success: false, error: "Only clients, PMs and admins can mark up drawings" };
+  }
+
+  const parsed = drawingMarkupListSchema.safeParse(input.annotations);
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0]?.message || "Invalid markup" };
+  }
+
+  const { data: revision } = await supabase
+    .from("drawing_revisions")
+    .select("id")
+    .eq("drawing_id", input.drawingId)
+    .eq("revision", input.revision)
+    .single();
+  if (!revision) return { success: false, error: "Revision not found" };
+
+  if (parsed.data.length === 0) {
+    const { error } = await supabase
+      .from("drawing_revision_markups")
+      .delete()
+      .eq("revision_id", revision.id)
+      .eq("author_id", user.id);
+    return error ? { success: false, error: error.message } : { success: true };
+  }
+
+  const { error } = await supabase
+    .from("drawing_revision_markups")
+    .upsert(
+      {
+        revision_id: revision.id,
+        author_id: user.id,
+        annotations: parsed.data as unknown as Json,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "revision_id,author_id" }
+    );
+
+  if (error) {
+    console.error("[saveDrawingMarkup] Failed:", error.message);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
 // ============================================================================
 // Material Approval (client action → server action migration)
 // ============================================================================
@@ -716,7 +1392,8 @@ export async function approveOrRejectMaterial(input: {
 // ============================================================================
 
 /**
- * Notify other PMs on the project that a drawing was uploaded.
+ * Notify other PMs on the project that a drawing was uploaded, and the
+ * approvers of the first internal step when the project has a chain.
  * Called from drawing-upload-sheet after successful upload.
  * Excludes the uploader from the notification.
  */
@@ -724,6 +1401,7 @@ export async function notifyDrawingUploaded(input: {
   projectId: string;
   itemCode: string;
   revision: string;
+  drawingId?: string;
 }): Promise<void> {
   const supabase = await createClient();
   const { data: { user } } = await supabase.auth.getUser();
@@ -737,7 +1415,21 @@ export async function notifyDrawingUploaded(input: {
       excludeUserId: user.id,
       type: "drawing_uploaded",
       title: `${uploaderName} uploaded drawing for ${input.itemCode} (Rev ${input.revision})`,
+      drawingId: input.drawingId,
     });
+
+    const [firstStep] = await loadApprovalChain(supabase, input.projectId);
+    if (firstStep) {
+      await notifyProjectUsers({
+        projectId: input.projectId,
+        roles: [firstStep.approverRole],
+        excludeUserId: user.id,
+        type: "drawing_review_requested",
+        title: `${input.itemCode} Rev ${input.revision} is ready for ${firstStep.name}`,
+        message: `Uploaded by ${uploaderName}`,
+        drawingId: input.drawingId,
+      });
+    }
   } catch (err) {
     console.error("[notifyDrawingUploaded] Failed:", err);
   }
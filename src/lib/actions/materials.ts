@@ -59,6 +59,8 @@ export interface Material {
   status: "pending" | "approved" | "rejected";
   images: string[] | null;
   is_deleted: boolean;
+  sent_to_client_at: string | null;
+  approval_reminder_stage: number;
   created_at: string;
   updated_at: string;
 }
@@ -95,6 +97,8 @@ export async function getMaterials(
         status,
         images,
         is_deleted,
+        sent_to_client_at,
+        approval_reminder_stage,
         created_at,
         updated_at,
         item_materials(item_id)
@@ -143,6 +147,8 @@ export async function getMaterial(
         status,
         images,
         is_deleted,
+        sent_to_client_at,
+        approval_reminder_stage,
         created_at,
         updated_at,
         item_materials(item_id)
@@ -695,9 +701,15 @@ export async function updateMaterialStatus(
       return { success: false, error: "Not authenticated" };
     }
 
+    // Back to pending means back in front of the client: restart the
+    // approval-reminders clock for the new round of review
     const { error } = await supabase
       .from("materials")
-      .update({ status })
+      .update(
+        status === "pending"
+          ? { status, sent_to_client_at: new Date().toISOString(), approval_reminder_stage: 0 }
+          : { status }
+      )
       .eq("id", materialId);
 
     if (error) {
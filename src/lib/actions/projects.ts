@@ -1,6 +1,10 @@
 "use server";
 
 import { createClient } from "@/lib/supabase/server";
+import {
+  validateApprovalCadence,
+  type ApprovalReminderCadence,
+} from "@/lib/approval-reminders";
 
 /**
  * Get the next available project code (preview without consuming)
@@ -37,3 +41,40 @@ export async function getNextProjectCode(): Promise<string> {
 
   return "2605";
 }
+
+/**
+ * Set how long drawings and materials may wait on the client before the
+ * approval-reminders cron nudges them and then escalates to the PM.
+ * A null step switches it off for the project.
+ */
+export async function updateApprovalReminderCadence(
+  projectId: string,
+  cadence: ApprovalReminderCadence
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const { data: userData } = await supabase.from("users").select("role").eq("id", user.id).single();
+  if (!userData || !["admin", "pm"].includes(userData.role)) {
+    return { success: false, error: "Only PM and Admin can change approval reminders" };
+  }
+
+  const invalid = validateApprovalCadence(cadence);
+  if (invalid) return { success: false, error: invalid };
+
+  const { error } = await supabase
+    .from("projects")
+    .update({
+      approval_reminder_days: cadence.reminderDays,
+      approval_escalation_days: cadence.escalationDays,
+    })
+    .eq("id", projectId);
+
+  if (error) {
+    console.error("[updateApprovalReminderCadence] Failed:", error.message);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
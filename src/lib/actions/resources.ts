@@ -0,0 +1,237 @@
+"use server";
+
+/**
+ * Gantt Resource Server Actions
+ *
+ * Company-wide crews/equipment that timeline tasks are allocated to, and the
+ * cross-project load feed for the resource histogram (/timeline/resources).
+ * Task allocations themselves are written with the task in timelines.ts.
+ * Auth: admin/pm manage resources; every internal role can read load.
+ */
+
+import { createClient } from "@/lib/supabase/server";
+import type { HolidayPeriod } from "@/lib/holiday-calendar";
+import { RESOURCE_TYPE_LABELS, type ResourceAllocationRow, type ResourceType } from "@/lib/resource-loading";
+import type { ActionResult } from "./timelines";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface GanttResource {
+  id: string;
+  name: string;
+  resource_type: ResourceType;
+  capacity_percent: number;
+  color: string | null;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface GanttResourceInput {
+  name: string;
+  resource_type: ResourceType;
+  capacity_percent?: number;
+  color?: string | null;
+  is_active?: boolean;
+}
+
+export interface ResourceLoadData {
+  rows: ResourceAllocationRow[];
+  companyHolidays: HolidayPeriod[];
+  /** Project closures, only for projects the viewer can read */
+  projectHolidays: Record<string, HolidayPeriod[]>;
+}
+
+const RESOURCE_NAME_MAX = 80;
+const LOAD_RANGE_MAX_DAYS = 400;
+
+function validateResourceInput(input: Partial<GanttResourceInput>): string | null {
+  if (input.name !== undefined) {
+    const name = input.name.trim();
+    if (!name) return "Resource name is required";
+    if (name.length > RESOURCE_NAME_MAX) return `Resource name must be ${RESOURCE_NAME_MAX} characters or less`;
+  }
+  if (input.resource_type !== undefined && !(input.resource_type in RESOURCE_TYPE_LABELS)) {
+    return "Unknown resource type";
+  }
+  if (
+    input.capacity_percent !== undefined &&
+    (!Number.isInteger(input.capacity_percent) || input.capacity_percent < 1 || input.capacity_percent > 1000)
+  ) {
+    return "Capacity must be between 1% and 1000%";
+  }
+  return null;
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+export async function getGanttResources(): Promise<GanttResource[]> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  const { data, error } = await supabase
+    .from("gantt_resources")
+    .select("*")
+    .order("is_active", { ascending: false })
+    .order("name");
+
+  if (error) {
+    console.error("Error fetching gantt resources:", error);
+    return [];
+  }
+
+  return (data || []) as GanttResource[];
+}
+
+/**
+ * Every allocation overlapping from..to on live projects, plus the holiday
+ * calendars needed to know which of those days are actually worked.
+ */
+export async function getResourceLoad(from: string, to: string): Promise<ActionResult<ResourceLoadData>> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(from) || !/^\d{4}-\d{2}-\d{2}$/.test(to) || to < from) {
+    return { success: false, error: "Invalid date range" };
+  }
+  const days = (new Date(to).getTime() - new Date(from).getTime()) / 86400000;
+  if (days > LOAD_RANGE_MAX_DAYS) {
+    return { success: false, error: "Date range is limited to about a year" };
+  }
+
+  const { data, error } = await supabase.rpc("get_gantt_resource_load", { p_from: from, p_to: to });
+  if (error) {
+    console.error("Error fetching resource load:", error);
+    return { success: false, error: error.message };
+  }
+
+  const rows = (data || []) as ResourceAllocationRow[];
+  const projectIds = [...new Set(rows.map((r) => r.project_id))];
+
+  // RLS returns company rows plus closures of projects the viewer is assigned to
+  let holidayQuery = supabase
+    .from("gantt_holidays")
+    .select("project_id, name, start_date, end_date, category")
+    .lte("start_date", to)
+    .gte("end_date", from);
+  holidayQuery = projectIds.length > 0
+    ? holidayQuery.or(`project_id.is.null,project_id.in.(${projectIds.join(",")})`)
+    : holidayQuery.is("project_id", null);
+  const { data: holidays } = await holidayQuery;
+
+  const companyHolidays: HolidayPeriod[] = [];
+  const projectHolidays: Record<string, HolidayPeriod[]> = {};
+  for (const { project_id, ...period } of (holidays || []) as Array<HolidayPeriod & { project_id: string | null }>) {
+    if (project_id === null) companyHolidays.push(period);
+    else (projectHolidays[project_id] ??= []).push(period);
+  }
+
+  return { success: true, data: { rows, companyHolidays, projectHolidays } };
+}
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+export async function createGanttResource(input: GanttResourceInput): Promise<ActionResult<GanttResource>> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const { data: userData } = await supabase.from("users").select("role").eq("id", user.id).single();
+  if (!userData || !["admin", "pm"].includes(userData.role)) {
+    return { success: false, error: "Only PM and Admin can manage resources" };
+  }
+
+  const invalid = validateResourceInput(input);
+  if (invalid) return { success: false, error: invalid };
+
+  const { data, error } = await supabase
+    .from("gantt_resources")
+    .insert({
+      name: input.name.trim(),
+      resource_type: input.resource_type,
+      capacity_percent: input.capacity_percent ?? 100,
+      color: input.color || null,
+      is_active: input.is_active ?? true,
+      created_by: user.id,
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    console.error("Error creating gantt resource:", error);
+    const duplicate = error?.code === "23505";
+    return { success: false, error: duplicate ? "A resource with this name already exists" : error?.message || "Create failed" };
+  }
+
+  return { success: true, data: data as GanttResource };
+}
+
+export async function updateGanttResource(
+  resourceId: string,
+  input: Partial<GanttResourceInput>
+): Promise<ActionResult<GanttResource>> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const { data: userData } = await supabase.from("users").select("role").eq("id", user.id).single();
+  if (!userData || !["admin", "pm"].includes(userData.role)) {
+    return { success: false, error: "Only PM and Admin can manage resources" };
+  }
+
+  const invalid = validateResourceInput(input);
+  if (invalid) return { success: false, error: invalid };
+
+  const updateData: Record<string, unknown> = { updated_at: new Date().toISOString() };
+  if (input.name !== undefined) updateData.name = input.name.trim();
+  if (input.resource_type !== undefined) updateData.resource_type = input.resource_type;
+  if (input.capacity_percent !== undefined) updateData.capacity_percent = input.capacity_percent;
+  if (input.color !== undefined) updateData.color = input.color || null;
+  if (input.is_active !== undefined) updateData.is_active = input.is_active;
+
+  const { data, error } = await supabase
+    .from("gantt_resources")
+    .update(updateData)
+    .eq("id", resourceId)
+    .select()
+    .single();
+
+  if (error || !data) {
+    console.error("Error updating gantt resource:", error);
+    const duplicate = error?.code === "23505";
+    return { success: false, error: duplicate ? "A resource with this name already exists" : error?.message || "Update failed" };
+  }
+
+  return { success: true, data: data as GanttResource };
+}
+
+/**
+ * Delete a resource and its task allocations. Resources with history are
+ * usually better deactivated (is_active = false), which keeps allocations.
+ */
+export async function deleteGanttResource(resourceId: string): Promise<ActionResult> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const { data: userData } = await supabase.from("users").select("role").eq("id", user.id).single();
+  if (!userData || !["admin", "pm"].includes(userData.role)) {
+    return { success: false, error: "Only PM and Admin can manage resources" };
+  }
+
+  const { error } = await supabase.from("gantt_resources").delete().eq("id", resourceId);
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
@@ -1,41 +1,178 @@
 "use server";
 
 /**
- * Snagging Server Actions — query functions for project snagging items
+ * Snagging Server Actions
+ *
+ * Punch-list lifecycle for project snags:
+ * - Create / edit / soft-delete
+ * - Assign to a responsible user
+ * - Resolve with "after" photos, reopen with a reason
+ * - Severity / category triage with a target fix date (SLA)
+ *
+ * Every change is activity-logged. Assignees and project PMs get in-app notifications.
+ * Auth: admin/pm/production can write (matches snagging RLS).
  */
 
 import { createClient } from "@/lib/supabase/server";
+import { logActivity } from "@/lib/activity-log/actions";
+import { ACTIVITY_ACTIONS } from "@/lib/activity-log/constants";
+import { createNotification, notifyProjectPMs } from "@/lib/notifications/actions";
+import { sanitizeText } from "@/lib/sanitize";
+import {
+  SNAG_SEVERITIES,
+  SNAG_CATEGORIES,
+  defaultTargetFixDate,
+  type SnagSeverity,
+  type SnagCategory,
+} from "@/lib/snagging";
+import type { ActionResult } from "./scope-items";
+
+// ============================================================================
+// Types
+// ============================================================================
 
 export interface Snagging {
   id: string;
   project_id: string;
   item_id: string | null;
+  area_id: string | null;
+  assigned_to: string | null;
   description: string;
+  severity: SnagSeverity;
+  category: SnagCategory | null;
+  target_fix_date: string | null;
   photos: string[] | null;
+  resolution_photos: string[] | null;
   is_resolved: boolean;
   resolved_at: string | null;
   resolved_by: string | null;
   resolution_notes: string | null;
+  reopened_at: string | null;
+  reopen_count: number;
   created_by: string | null;
   created_at: string;
   item?: { item_code: string; name: string } | null;
+  area?: { area_code: string; name: string; floor: string } | null;
   creator?: { name: string } | null;
   resolver?: { name: string } | null;
+  assignee?: { name: string } | null;
+}
+
+export interface SnaggingInput {
+  description: string;
+  item_id?: string | null;
+  area_id?: string | null;
+  assigned_to?: string | null;
+  severity?: SnagSeverity;
+  category?: SnagCategory | null;
+  /** YYYY-MM-DD; defaults to report date + severity SLA */
+  target_fix_date?: string | null;
+  photos?: string[];
+}
+
+export interface SnaggingResolveInput {
+  resolution_notes?: string | null;
+  resolution_photos?: string[];
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const SNAGGING_WRITE_ROLES = ["admin", "pm", "production"];
+
+async function requireWriteAccess(): Promise<{ supabase: Awaited<ReturnType<typeof createClient>>; userId: string }> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new Error("Not authenticated");
+  }
+
+  const { data: userData } = await supabase
+    .from("users")
+    .select("role")
+    .eq("id", user.id)
+    .single();
+
+  if (!userData || !SNAGGING_WRITE_ROLES.includes(userData.role)) {
+    throw new Error("Insufficient permissions");
+  }
+
+  return { supabase, userId: user.id };
+}
+
+/** Load the fields needed for logging/notifications; excludes soft-deleted snags */
+async function getSnagForUpdate(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  snagId: string
+) {
+  const { data } = await supabase
+    .from("snagging")
+    .select("id, project_id, description, assigned_to, is_resolved, reopen_count")
+    .eq("id", snagId)
+    .eq("is_deleted", false)
+    .single();
+  return data;
+}
+
+/** Validate severity/category values coming from the client */
+function validateTriage(input: Partial<SnaggingInput>): string | null {
+  if (input.severity !== undefined && !SNAG_SEVERITIES.includes(input.severity)) {
+    return "Invalid severity";
+  }
+  if (input.category && !SNAG_CATEGORIES.includes(input.category)) {
+    return "Invalid category";
+  }
+  return null;
+}
+
+/** Shorten a snag description for notification titles */
+function snagLabel(description: string): string {
+  return description.length > 60 ? `${description.slice(0, 57)}...` : description;
+}
+
+/** In-app notification to the snag's assignee (skipped when the actor is the assignee) */
+async function notifyAssignee(
+  assigneeId: string | null,
+  actorId: string,
+  projectId: string,
+  type: string,
+  title: string,
+  message?: string
+): Promise<void> {
+  if (!assigneeId || assigneeId === actorId) return;
+  await createNotification({
+    userId: assigneeId,
+    type,
+    title,
+    message,
+    projectId,
+  });
 }
 
-/** Get all snagging items for a project with joins */
+// ============================================================================
+// Queries
+// ============================================================================
+
+/** Get all (non-deleted) snagging items for a project with joins */
 export async function getSnaggingItems(projectId: string): Promise<Snagging[]> {
   const supabase = await createClient();
   const { data, error } = await supabase
     .from("snagging")
     .select(`
-      id, project_id, item_id, description, photos, is_resolved,
-      resolved_at, resolved_by, resolution_notes, created_by, created_at,
+      id, project_id, item_id, area_id, assigned_to, description, severity, category, target_fix_date,
+      photos, resolution_photos,
+      is_resolved, resolved_at, resolved_by, resolution_notes, reopened_at, reopen_count,
+      created_by, created_at,
       item:scope_items!snagging_item_id_fkey(item_code, name),
+      area:project_areas!snagging_area_id_fkey(area_code, name, floor),
       creator:users!snagging_created_by_fkey(name),
-      resolver:users!snagging_resolved_by_fkey(name)
+      resolver:users!snagging_resolved_by_fkey(name),
+      assignee:users!snagging_assigned_to_fkey(name)
     `)
     .eq("project_id", projectId)
+    .eq("is_deleted", false)
     .order("created_at", { ascending: false });
 
   if (error) {
@@ -44,3 +181,371 @@ export async function getSnaggingItems(projectId: string): Promise<Snagging[]> {
   }
   return (data || []) as unknown as Snagging[];
 }
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+/**
+ * Report a new snag
+ */
+export async function createSnaggingItem(
+  projectId: string,
+  input: SnaggingInput
+): Promise<ActionResult<{ id: string }>> {
+  try {
+    const { supabase, userId } = await requireWriteAccess();
+
+    const description = sanitizeText(input.description.trim());
+    if (!description) {
+      return { success: false, error: "Description is required" };
+    }
+
+    const triageError = validateTriage(input);
+    if (triageError) {
+      return { success: false, error: triageError };
+    }
+    const severity = input.severity ?? "minor";
+
+    const { data: created, error } = await supabase
+      .from("snagging")
+      .insert({
+        project_id: projectId,
+        description,
+        item_id: input.item_id || null,
+        area_id: input.area_id || null,
+        assigned_to: input.assigned_to || null,
+        severity,
+        category: input.category || null,
+        target_fix_date: input.target_fix_date || defaultTargetFixDate(severity),
+        photos: input.photos && input.photos.length > 0 ? input.photos : null,
+        created_by: userId,
+      })
+      .select("id")
+      .single();
+
+    if (error || !created) {
+      console.error("Failed to create snagging item:", error);
+      return { success: false, error: error?.message || "Failed to create snag" };
+    }
+
+    await logActivity({
+      action: ACTIVITY_ACTIONS.SNAGGING_CREATED,
+      entityType: "snagging",
+      entityId: created.id,
+      projectId,
+      details: { description, severity, assigned_to: input.assigned_to || null },
+    });
+
+    await Promise.all([
+      notifyAssignee(
+        input.assigned_to || null,
+        userId,
+        projectId,
+        "snag_assigned",
+        `Snag assigned to you: ${snagLabel(description)}`
+      ),
+      notifyProjectPMs({
+        projectId,
+        excludeUserId: userId,
+        type: "snag_reported",
+        title: severity === "critical"
+          ? `Critical snag reported: ${snagLabel(description)}`
+          : `New snag reported: ${snagLabel(description)}`,
+        itemId: input.item_id || undefined,
+      }),
+    ]);
+
+    return { success: true, data: { id: created.id } };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : "Unknown error" };
+  }
+}
+
+/**
+ * Edit a snag's details (description, item, area, triage, photos).
+ * Assignment changes go through assignSnaggingItem so the new assignee is notified.
+ */
+export async function updateSnaggingItem(
+  snagId: string,
+  input: Partial<SnaggingInput> & { resolution_notes?: string | null }
+): Promise<ActionResult> {
+  try {
+    const { supabase } = await requireWriteAccess();
+
+    const existing = await getSnagForUpdate(supabase, snagId);
+    if (!existing) {
+      return { success: false, error: "Snag not found" };
+    }
+
+    const triageError = validateTriage(input);
+    if (triageError) {
+      return { success: false, error: triageError };
+    }
+
+    const updateData: Record<string, unknown> = {};
+    if (input.description !== undefined) {
+      const description = sanitizeText(input.description.trim());
+      if (!description) return { success: false, error: "Description is required" };
+      updateData.description = description;
+    }
+    if (input.item_id !== undefined) updateData.item_id = input.item_id || null;
+    if (input.area_id !== undefined) updateData.area_id = input.area_id || null;
+    if (input.severity !== undefined) updateData.severity = input.severity;
+    if (input.category !== undefined) updateData.category = input.category || null;
+    if (input.target_fix_date !== undefined) {
+      updateData.target_fix_date = input.target_fix_date || null;
+      // A new deadline gets a fresh escalation window
+      updateData.escalated_at = null;
+    }
+    if (input.photos !== undefined) updateData.photos = input.photos.length > 0 ? input.photos : null;
+    if (input.resolution_notes !== undefined) {
+      updateData.resolution_notes = input.resolution_notes ? sanitizeText(input.resolution_notes.trim()) : null;
+    }
+
+    const { error } = await supabase
+      .from("snagging")
+      .update(updateData)
+      .eq("id", snagId);
+
+    if (error) {
+      console.error("Failed to update snagging item:", error);
+      return { success: false, error: error.message };
+    }
+
+    await logActivity({
+      action: ACTIVITY_ACTIONS.SNAGGING_UPDATED,
+      entityType: "snagging",
+      entityId: snagId,
+      projectId: existing.project_id,
+      details: { updated_fields: Object.keys(updateData) },
+    });
+
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : "Unknown error" };
+  }
+}
+
+/**
+ * Assign (or unassign with null) the user responsible for fixing a snag
+ */
+export async function assignSnaggingItem(
+  snagId: string,
+  assigneeId: string | null
+): Promise<ActionResult> {
+  try {
+    const { supabase, userId } = await requireWriteAccess();
+
+    const existing = await getSnagForUpdate(supabase, snagId);
+    if (!existing) {
+      return { success: false, error: "Snag not found" };
+    }
+    if (existing.assigned_to === assigneeId) {
+      return { success: true };
+    }
+
+    const { error } = await supabase
+      .from("snagging")
+      .update({ assigned_to: assigneeId })
+      .eq("id", snagId);
+
+    if (error) {
+      console.error("Failed to assign snagging item:", error);
+      return { success: false, error: error.message };
+    }
+
+    await logActivity({
+      action: ACTIVITY_ACTIONS.SNAGGING_ASSIGNED,
+      entityType: "snagging",
+      entityId: snagId,
+      projectId: existing.project_id,
+      details: { from: existing.assigned_to, to: assigneeId },
+    });
+
+    await notifyAssignee(
+      assigneeId,
+      userId,
+      existing.project_id,
+      "snag_assigned",
+      `Snag assigned to you: ${snagLabel(existing.description)}`
+    );
+
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : "Unknown error" };
+  }
+}
+
+/**
+ * Mark a snag as resolved, optionally attaching "after" photos and notes
+ */
+export async function resolveSnaggingItem(
+  snagId: string,
+  input: SnaggingResolveInput = {}
+): Promise<ActionResult> {
+  try {
+    const { supabase, userId } = await requireWriteAccess();
+
+    const existing = await getSnagForUpdate(supabase, snagId);
+    if (!existing) {
+      return { success: false, error: "Snag not found" };
+    }
+    if (existing.is_resolved) {
+      return { success: false, error: "Snag is already resolved" };
+    }
+
+    const resolutionNotes = input.resolution_notes ? sanitizeText(input.resolution_notes.trim()) : null;
+
+    const { error } = await supabase
+      .from("snagging")
+      .update({
+        is_resolved: true,
+        resolved_at: new Date().toISOString(),
+        resolved_by: userId,
+        resolution_notes: resolutionNotes,
+        resolution_photos: input.resolution_photos && input.resolution_photos.length > 0
+          ? input.resolution_photos
+          : null,
+      })
+      .eq("id", snagId);
+
+    if (error) {
+      console.error("Failed to resolve snagging item:", error);
+      return { success: false, error: error.message };
+    }
+
+    await logActivity({
+      action: ACTIVITY_ACTIONS.SNAGGING_RESOLVED,
+      entityType: "snagging",
+      entityId: snagId,
+      projectId: existing.project_id,
+      details: {
+        description: existing.description,
+        resolution_notes: resolutionNotes,
+        photo_count: input.resolution_photos?.length || 0,
+      },
+    });
+
+    await notifyProjectPMs({
+      projectId: existing.project_id,
+      excludeUserId: userId,
+      type: "snag_resolved",
+      title: `Snag resolved: ${snagLabel(existing.description)}`,
+      message: resolutionNotes || undefined,
+    });
+
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : "Unknown error" };
+  }
+}
+
+/**
+ * Reopen a resolved snag (e.g. the fix failed inspection).
+ * Resolution fields are cleared; the reason is kept in the activity log.
+ */
+export async function reopenSnaggingItem(
+  snagId: string,
+  reason?: string
+): Promise<ActionResult> {
+  try {
+    const { supabase, userId } = await requireWriteAccess();
+
+    const existing = await getSnagForUpdate(supabase, snagId);
+    if (!existing) {
+      return { success: false, error: "Snag not found" };
+    }
+    if (!existing.is_resolved) {
+      return { success: false, error: "Snag is not resolved" };
+    }
+
+    const sanitizedReason = reason ? sanitizeText(reason.trim()) : null;
+
+    const { error } = await supabase
+      .from("snagging")
+      .update({
+        is_resolved: false,
+        resolved_at: null,
+        resolved_by: null,
+        resolution_notes: null,
+        resolution_photos: null,
+        reopened_at: new Date().toISOString(),
+        reopen_count: (existing.reopen_count || 0) + 1,
+        // A reopened snag that misses its date again should escalate again
+        escalated_at: null,
+      })
+      .eq("id", snagId);
+
+    if (error) {
+      console.error("Failed to reopen snagging item:", error);
+      return { success: false, error: error.message };
+    }
+
+    await logActivity({
+      action: ACTIVITY_ACTIONS.SNAGGING_REOPENED,
+      entityType: "snagging",
+      entityId: snagId,
+      projectId: existing.project_id,
+      details: { description: existing.description, reason: sanitizedReason },
+    });
+
+    await Promise.all([
+      notifyAssignee(
+        existing.assigned_to,
+        userId,
+        existing.project_id,
+        "snag_reopened",
+        `Snag reopened: ${snagLabel(existing.description)}`,
+        sanitizedReason || undefined
+      ),
+      notifyProjectPMs({
+        projectId: existing.project_id,
+        excludeUserId: userId,
+        type: "snag_reopened",
+        title: `Snag reopened: ${snagLabel(existing.description)}`,
+        message: sanitizedReason || undefined,
+      }),
+    ]);
+
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : "Unknown error" };
+  }
+}
+
+/**
+ * Soft-delete a snag (kept for audit, hidden from lists)
+ */
+export async function deleteSnaggingItem(snagId: string): Promise<ActionResult> {
+  try {
+    const { supabase } = await requireWriteAccess();
+
+    const existing = await getSnagForUpdate(supabase, snagId);
+    if (!existing) {
+      return { success: false, error: "Snag not found" };
+    }
+
+    const { error } = await supabase
+      .from("snagging")
+      .update({ is_deleted: true })
+      .eq("id", snagId);
+
+    if (error) {
+      console.error("Failed to delete snagging item:", error);
+      return { success: false, error: error.message };
+    }
+
+    await logActivity({
+      action: ACTIVITY_ACTIONS.SNAGGING_DELETED,
+      entityType: "snagging",
+      entityId: snagId,
+      projectId: existing.project_id,
+      details: { description: existing.description },
+    });
+
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : "Unknown error" };
+  }
+}
@@ -10,6 +10,46 @@
  */
 
 import { createClient } from "@/lib/supabase/server";
+import {
+  type InterchangeLink,
+  type InterchangeSchedule,
+  type InterchangeTask,
+  type ScheduleFileFormat,
+  type ScheduleImportMode,
+  buildInterchangeSchedule,
+  buildMspdiXml,
+  buildXer,
+  isDayString,
+  matchPhaseKey,
+  planScheduleImport,
+} from "@/lib/schedule-interchange";
+import {
+  type HolidayCategory,
+  type HolidayDates,
+  type HolidayPeriod,
+  HOLIDAY_CATEGORY_LABELS,
+  NO_HOLIDAYS,
+  expandHolidayDates,
+} from "@/lib/holiday-calendar";
+import {
+  type GeneratedSchedule,
+  type GeneratorScopeItem,
+  type PhaseDurations,
+  type ScheduleGeneratorOptions,
+  normalizePhaseDurations,
+  planGeneratedSchedule,
+} from "@/lib/schedule-generator";
+import { type LinkedScopeStatus, type ProgressSource, averageScopeProgress } from "@/lib/gantt-progress";
+import {
+  type GanttChangeAction,
+  type GanttChangeRow,
+  type TimelineHistoryEntry,
+  HISTORY_LIMIT,
+  describeItemUpdate,
+  diffRow,
+  findUndoRedoTargets,
+} from "@/lib/gantt-history";
+import type { Json, TablesUpdate } from "@/types/database";
 // NOTE: revalidatePath removed from timeline actions.
 // React Query handles client-side cache invalidation via onSettled.
 // revalidatePath was causing 5s full-page server re-renders on every action.
@@ -22,6 +62,8 @@ export type GanttItemType = "phase" | "task" | "milestone";
 export type PhaseKey = "design" | "production" | "procurement" | "shipping" | "installation";
 export type DependencyType = 0 | 1 | 2 | 3;
 export type Priority = 1 | 2 | 3 | 4;
+/** Fixed-date rules on a task or milestone (gantt_items.constraint_type) */
+export type ConstraintType = "must_start_on" | "start_no_earlier_than" | "finish_no_later_than";
 
 export interface GanttItem {
   id: string;
@@ -39,13 +81,25 @@ export interface GanttItem {
   completed_at: string | null;
   color: string | null;
   description?: string | null;
+  constraint_type?: ConstraintType | null;
+  /** yyyy-MM-dd; set together with constraint_type */
+  constraint_date?: string | null;
   created_by: string | null;
   created_at: string | null;
   updated_at: string | null;
   // Computed
   progress?: number;
+  progress_source?: ProgressSource;
   children?: GanttItem[];
   linked_scope_item_ids?: string[];
+  resource_allocations?: GanttResourceAllocation[];
+}
+
+/** Crew/resource booked on a task (gantt_item_resources) */
+export interface GanttResourceAllocation {
+  resource_id: string;
+  /** Share of the resource's working day, 1–100 */
+  allocation_percent: number;
 }
 
 export interface GanttDependency {
@@ -72,7 +126,12 @@ export interface GanttItemInput {
   progress_override?: number | null;
   is_completed?: boolean;
   description?: string | null;
+  /** null clears the constraint; both fields are sent together */
+  constraint_type?: ConstraintType | null;
+  constraint_date?: string | null;
   linked_scope_item_ids?: string[];
+  /** Replaces the task's allocations when provided (tasks only) */
+  resource_allocations?: GanttResourceAllocation[];
 }
 
 export interface GanttDependencyInput {
@@ -83,10 +142,49 @@ export interface GanttDependencyInput {
   lag_days?: number;
 }
 
+export interface TimelineBaseline {
+  id: string;
+  project_id: string;
+  name: string;
+  description: string | null;
+  created_by: string | null;
+  created_at: string;
+  creator?: { name: string } | null;
+  item_count?: number;
+}
+
+export interface TimelineBaselineItem {
+  id: string;
+  baseline_id: string;
+  /** null once the live task has been deleted — the snapshot row remains */
+  gantt_item_id: string | null;
+  item_name: string;
+  item_type: GanttItemType;
+  start_date: string;
+  end_date: string;
+  progress: number;
+}
+
+export interface GanttHoliday extends HolidayPeriod {
+  id: string;
+  /** null = company calendar */
+  project_id: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface ProjectHolidayCalendar {
+  useCompanyHolidays: boolean;
+  company: GanttHoliday[];
+  project: GanttHoliday[];
+}
+
 export interface ActionResult<T = void> {
   success: boolean;
   error?: string;
   data?: T;
+  /** Change-log entry the write was recorded under — pass to propagateDependencyDates */
+  changeId?: string;
 }
 
 // ============================================================================
@@ -101,11 +199,119 @@ const FIXED_PHASES: Array<{ key: PhaseKey; name: string; order: number; color: s
   { key: "installation", name: "Installation",       order: 5, color: "#16a34a" },
 ];
 
+/** Drop duplicates and clamp percentages so the DB CHECK never rejects a save */
+function sanitizeAllocations(allocations: GanttResourceAllocation[]): GanttResourceAllocation[] {
+  const byResource = new Map<string, number>();
+  for (const a of allocations) {
+    if (!a?.resource_id) continue;
+    const pct = Math.round(Number(a.allocation_percent));
+    byResource.set(a.resource_id, Number.isFinite(pct) ? Math.min(100, Math.max(1, pct)) : 100);
+  }
+  return [...byResource].map(([resource_id, allocation_percent]) => ({ resource_id, allocation_percent }));
+}
+
 function average(values: number[]): number {
   if (values.length === 0) return 0;
   return Math.round(values.reduce((a, b) => a + b, 0) / values.length);
 }
 
+// Change log (lib/gantt-history.ts). Logging never fails the edit itself — a
+// write that couldn't be recorded just can't be undone.
+async function recordTimelineChange(
+  supabase: ServerClient,
+  entry: {
+    projectId: string;
+    userId: string;
+    action: GanttChangeAction;
+    description: string;
+    changes: GanttChangeRow[];
+  }
+): Promise<string | undefined> {
+  if (entry.changes.length === 0) return undefined;
+  const { data, error } = await supabase
+    .from("gantt_change_log")
+    .insert({
+      project_id: entry.projectId,
+      user_id: entry.userId,
+      action: entry.action,
+      description: entry.description,
+      changes: entry.changes as unknown as Json,
+    })
+    .select("id")
+    .single();
+  if (error || !data) {
+    console.error("Error recording timeline change:", error);
+    return undefined;
+  }
+  return data.id;
+}
+
+/**
+ * Write a bulk change (schedule import, generation) in one transaction that
+ * also records it as a single history entry (migration 087). Rows apply in
+ * order; updates and deletes only need `id` and, for updates, `after`.
+ */
+async function applyTimelineChanges(
+  supabase: ServerClient,
+  entry: {
+    projectId: string;
+    action: GanttChangeAction;
+    description: string;
+    changes: GanttChangeRow[];
+    workingDays?: number | null;
+  }
+): Promise<{ changeId?: string; error?: string }> {
+  const { data, error } = await supabase.rpc("apply_gantt_changes", {
+    p_project_id: entry.projectId,
+    p_action: entry.action,
+    p_description: entry.description,
+    p_changes: entry.changes as unknown as Json,
+    p_working_days: entry.workingDays ?? undefined,
+  });
+  if (error) {
+    if (error.message.includes("change_conflict")) {
+      return { error: "The timeline changed while this was being saved — nothing was written. Please try again." };
+    }
+    console.error("Error applying timeline changes:", error);
+    return { error: error.message };
+  }
+  return { changeId: data ?? undefined };
+}
+
+/** Fold follow-up rows (cascaded date moves) into an existing entry */
+async function appendTimelineChange(
+  supabase: ServerClient,
+  changeId: string,
+  changes: GanttChangeRow[],
+  note: string
+): Promise<boolean> {
+  const { data: entry } = await supabase
+    .from("gantt_change_log")
+    .select("description, changes")
+    .eq("id", changeId)
+    .maybeSingle();
+  if (!entry) return false;
+  const { error } = await supabase
+    .from("gantt_change_log")
+    .update({
+      description: `${entry.description} — ${note}`,
+      changes: [...((entry.changes as unknown as GanttChangeRow[]) || []), ...changes] as unknown as Json,
+    })
+    .eq("id", changeId);
+  if (error) console.error("Error appending timeline change:", error);
+  return !error;
+}
+
+/** `"Source" → "Target"` for a dependency's history description */
+async function dependencyLabel(
+  supabase: ServerClient,
+  dep: { source_id: string; target_id: string }
+): Promise<string> {
+  const { data: ends } = await supabase.from("gantt_items").select("id, name").in("id", [dep.source_id, dep.target_id]);
+  const name = (id: string) => ends?.find((e) => e.id === id)?.name ?? "deleted task";
+  return `"${name(dep.source_id)}" → "${name(dep.target_id)}"`;
+}
+
 // ============================================================================
 // Queries
 // ============================================================================
@@ -129,31 +335,54 @@ export async function getTimelineItems(projectId: string): Promise<GanttItem[]>
     return [];
   }
 
-  // Fetch linked scope items and their production percentage (exclude soft-deleted)
+  // Fetch linked scope items with the status fields progress is read from (exclude soft-deleted)
   const { data: links } = await supabase
     .from("gantt_item_scope_items")
-    .select("gantt_item_id, scope_item_id, scope_items!inner(production_percentage, is_deleted)")
+    .select(`
+      gantt_item_id,
+      scope_item_id,
+      scope_items!inner(
+        production_percentage, procurement_status, is_shipped, is_installed, is_deleted,
+        drawings(status, not_required_at, pm_override)
+      )
+    `)
     .in("gantt_item_id", items.map((i) => i.id));
 
-  const scopeMap = new Map<string, number[]>();
+  const scopeMap = new Map<string, LinkedScopeStatus[]>();
   const scopeIdsMap = new Map<string, string[]>();
-  (links || []).forEach((l: {
+  ((links || []) as unknown as Array<{
     gantt_item_id: string;
     scope_item_id: string;
-    scope_items: { production_percentage: number | null; is_deleted: boolean | null };
-  }) => {
+    scope_items: Omit<LinkedScopeStatus, "drawing"> & {
+      is_deleted: boolean | null;
+      drawings: LinkedScopeStatus["drawing"] | Array<NonNullable<LinkedScopeStatus["drawing"]>>;
+    };
+  }>).forEach((l) => {
     // Skip soft-deleted scope items
-    if (l.scope_items?.is_deleted) return;
+    if (!l.scope_items || l.scope_items.is_deleted) return;
 
-    const pct = l.scope_items?.production_percentage ?? 0;
+    const { drawings, ...scope } = l.scope_items;
     const arr = scopeMap.get(l.gantt_item_id) || [];
-    arr.push(pct);
+    arr.push({ ...scope, drawing: (Array.isArray(drawings) ? drawings[0] : drawings) ?? null });
     scopeMap.set(l.gantt_item_id, arr);
     const ids = scopeIdsMap.get(l.gantt_item_id) || [];
     ids.push(l.scope_item_id);
     scopeIdsMap.set(l.gantt_item_id, ids);
   });
 
+  // Crew/resource allocations
+  const { data: allocationRows } = await supabase
+    .from("gantt_item_resources")
+    .select("gantt_item_id, resource_id, allocation_percent")
+    .in("gantt_item_id", items.map((i) => i.id));
+
+  const allocationMap = new Map<string, GanttResourceAllocation[]>();
+  (allocationRows || []).forEach((a) => {
+    const arr = allocationMap.get(a.gantt_item_id) || [];
+    arr.push({ resource_id: a.resource_id, allocation_percent: a.allocation_percent });
+    allocationMap.set(a.gantt_item_id, arr);
+  });
+
   // Build children map
   const childrenMap = new Map<string, GanttItem[]>();
   items.forEach((item) => {
@@ -164,43 +393,46 @@ export async function getTimelineItems(projectId: string): Promise<GanttItem[]>
     }
   });
 
-  // Compute base progress for each item (milestones, linked scope, override)
-  const baseProgress = new Map<string, number>();
+  // Base progress: milestone flag, then the manual override, then linked scope items
+  const baseProgress = new Map<string, { progress: number; source: ProgressSource }>();
   items.forEach((item) => {
     const linked = scopeMap.get(item.id) || [];
-    let progress = 0;
     if (item.item_type === "milestone") {
-      progress = item.is_completed ? 100 : 0;
-    } else if (linked.length > 0) {
-      progress = average(linked);
+      baseProgress.set(item.id, { progress: item.is_completed ? 100 : 0, source: "milestone" });
     } else if (item.progress_override !== null && item.progress_override !== undefined) {
-      progress = item.progress_override;
+      baseProgress.set(item.id, { progress: item.progress_override, source: "override" });
+    } else if (linked.length > 0) {
+      baseProgress.set(item.id, {
+        progress: averageScopeProgress(item.phase_key as PhaseKey | null, linked),
+        source: "scope",
+      });
+    } else {
+      baseProgress.set(item.id, { progress: 0, source: "none" });
     }
-    baseProgress.set(item.id, progress);
   });
 
   const itemsById = new Map<string, GanttItem>();
   items.forEach((item) => {
+    const base = baseProgress.get(item.id)!;
     itemsById.set(item.id, {
       ...(item as GanttItem),
       linked_scope_item_ids: scopeIdsMap.get(item.id) || [],
-      progress: baseProgress.get(item.id) || 0,
+      resource_allocations: allocationMap.get(item.id) || [],
+      progress: base.progress,
+      progress_source: base.source,
     });
   });
 
-  // Compute progress from children when no linked scope items exist
+  // Roll up through parent_id: a parent with nothing of its own averages its children
   const computeProgress = (itemId: string): number => {
     const item = itemsById.get(itemId);
     if (!item) return 0;
-    if (item.item_type === "milestone") return item.progress || 0;
+    if (item.progress_source !== "none") return item.progress || 0;
 
-    const linked = scopeMap.get(item.id) || [];
     const children = childrenMap.get(item.id) || [];
-    if (children.length > 0 && linked.length === 0) {
-      const childProgress = children.map((c) => computeProgress(c.id));
-      const avg = average(childProgress);
-      item.progress = avg;
-      return avg;
+    if (children.length > 0) {
+      item.progress = average(children.map((c) => computeProgress(c.id)));
+      item.progress_source = "children";
     }
     return item.progress || 0;
   };
@@ -238,7 +470,10 @@ export async function getTimelineItems(projectId: string): Promise<GanttItem[]>
       );
       item.start_date = minStart;
       item.end_date = maxEnd;
-      item.progress = average(phaseTasks.map((c) => c.progress || 0));
+      if (item.progress_source !== "override") {
+        item.progress = average(phaseTasks.map((c) => c.progress || 0));
+        item.progress_source = "phase";
+      }
       return;
     }
 
@@ -327,6 +562,19 @@ export async function getTimelineDependencies(projectId: string): Promise<GanttD
 // Mutations
 // ============================================================================
 
+const CONSTRAINT_TYPES: ConstraintType[] = ["must_start_on", "start_no_earlier_than", "finish_no_later_than"];
+
+/** Constraint type and date travel together; returns an error message or null */
+function validateConstraint(input: Partial<GanttItemInput>): string | null {
+  if (!input.constraint_type) return null;
+  if (!CONSTRAINT_TYPES.includes(input.constraint_type)) return "Unknown constraint type";
+  if (!input.constraint_date || !/^\d{4}-\d{2}-\d{2}$/.test(input.constraint_date)) {
+    return "Pick a date for the constraint";
+  }
+  if (input.item_type === "phase") return "Phases cannot have date constraints";
+  return null;
+}
+
 export async function createTimelineItem(input: GanttItemInput): Promise<ActionResult<GanttItem>> {
   const supabase = await createClient();
   const { data: { user } } = await supabase.auth.getUser();
@@ -342,6 +590,9 @@ export async function createTimelineItem(input: GanttItemInput): Promise<ActionR
     return { success: false, error: "Phases are fixed and cannot be created manually" };
   }
 
+  const constraintError = validateConstraint(input);
+  if (constraintError) return { success: false, error: constraintError };
+
   // Next sort order (scoped to parent)
   const parentId = input.parent_id || null;
   let orderQuery = supabase
@@ -356,8 +607,8 @@ export async function createTimelineItem(input: GanttItemInput): Promise<ActionR
 
   const nextOrder = (maxOrder?.sort_order || 0) + 1;
 
-  const { data: created, error } = await (supabase
-    .from("gantt_items") as any)
+  const { data: created, error } = await supabase
+    .from("gantt_items")
     .insert({
       project_id: input.project_id,
       name: input.name,
@@ -372,6 +623,8 @@ export async function createTimelineItem(input: GanttItemInput): Promise<ActionR
       is_completed: input.is_completed ?? false,
       color: input.color || null,
       description: input.description || null,
+      constraint_type: input.constraint_type ?? null,
+      constraint_date: input.constraint_type ? input.constraint_date : null,
       created_by: user.id,
     })
     .select()
@@ -382,21 +635,57 @@ export async function createTimelineItem(input: GanttItemInput): Promise<ActionR
     return { success: false, error: error?.message || "Create failed" };
   }
 
+  const changes: GanttChangeRow[] = [{ table: "gantt_items", op: "insert", id: created.id, after: created }];
+
   if (input.linked_scope_item_ids && input.linked_scope_item_ids.length > 0) {
     const links = input.linked_scope_item_ids.map((scopeId) => ({
       gantt_item_id: created.id,
       scope_item_id: scopeId,
     }));
-    await supabase.from("gantt_item_scope_items").insert(links);
+    const { data: insertedLinks } = await supabase.from("gantt_item_scope_items").insert(links).select();
+    for (const row of insertedLinks || []) {
+      changes.push({ table: "gantt_item_scope_items", op: "insert", id: row.id, after: row });
+    }
+  }
+
+  const allocations = input.item_type === "task" ? sanitizeAllocations(input.resource_allocations || []) : [];
+  if (allocations.length > 0) {
+    const { data: insertedAllocations } = await supabase
+      .from("gantt_item_resources")
+      .insert(allocations.map((a) => ({ ...a, gantt_item_id: created.id, created_by: user.id })))
+      .select();
+    for (const row of insertedAllocations || []) {
+      changes.push({ table: "gantt_item_resources", op: "insert", id: row.id, after: row });
+    }
   }
 
+  const changeId = await recordTimelineChange(supabase, {
+    projectId: input.project_id,
+    userId: user.id,
+    action: "create_item",
+    description: `Added ${input.item_type} "${input.name}"`,
+    changes,
+  });
+
   // revalidatePath removed — React Query handles cache
-  return { success: true, data: created };
+  return { success: true, data: created as GanttItem, changeId };
 }
 
+const STALE_ITEM_ERROR =
+  "This item was changed by someone else — your edit was not saved. Review the latest version and try again.";
+const STALE_DEPENDENCY_ERROR =
+  "This link was changed by someone else — your edit was not saved. Review the latest version and try again.";
+
 export async function updateTimelineItem(
   timelineId: string,
-  input: Partial<GanttItemInput>
+  input: Partial<GanttItemInput>,
+  options: {
+    /**
+     * updated_at the caller last saw. When set, the write only lands if the
+     * row is unchanged since — otherwise a stale-edit error is returned.
+     */
+    expectedUpdatedAt?: string | null;
+  } = {}
 ): Promise<ActionResult<GanttItem>> {
   const supabase = await createClient();
   const { data: { user } } = await supabase.auth.getUser();
@@ -407,14 +696,18 @@ export async function updateTimelineItem(
     return { success: false, error: "Only PM and Admin can update timeline items" };
   }
 
+  // Full row: its values become the "before" side of the change-log entry
   const { data: existing } = await supabase
     .from("gantt_items")
-    .select("project_id")
+    .select("*")
     .eq("id", timelineId)
     .single();
 
   if (!existing) return { success: false, error: "Timeline item not found" };
 
+  const constraintError = validateConstraint(input);
+  if (constraintError) return { success: false, error: constraintError };
+
   // Circular parent protection: walk ancestor chain to ensure no loops
   if (input.parent_id !== undefined && input.parent_id !== null) {
     const MAX_DEPTH = 5;
@@ -439,7 +732,7 @@ export async function updateTimelineItem(
     }
   }
 
-  const updateData: Record<string, unknown> = {};
+  const updateData: TablesUpdate<"gantt_items"> = {};
   if (input.name !== undefined) updateData.name = input.name;
   if (input.item_type !== undefined) updateData.item_type = input.item_type;
   if (input.start_date !== undefined) updateData.start_date = input.start_date;
@@ -451,55 +744,129 @@ export async function updateTimelineItem(
   if (input.color !== undefined) updateData.color = input.color;
   if (input.description !== undefined) updateData.description = input.description;
   if (input.phase_key !== undefined) updateData.phase_key = input.phase_key;
+  if (input.constraint_type !== undefined) {
+    updateData.constraint_type = input.constraint_type;
+    updateData.constraint_date = input.constraint_type ? input.constraint_date : null;
+  }
 
-  const { data: updated, error } = await (supabase
-    .from("gantt_items") as any)
+  let updateQuery = supabase
+    .from("gantt_items")
     .update(updateData)
-    .eq("id", timelineId)
-    .select()
-    .single();
+    .eq("id", timelineId);
+  // Optimistic concurrency: updated_at is bumped by trigger on every write
+  if (options.expectedUpdatedAt) {
+    updateQuery = updateQuery.eq("updated_at", options.expectedUpdatedAt);
+  }
+  const { data: updated, error } = await updateQuery.select().maybeSingle();
+
+  if (!error && !updated && options.expectedUpdatedAt) {
+    return { success: false, error: STALE_ITEM_ERROR };
+  }
 
   if (error || !updated) {
     console.error("Error updating gantt item:", error);
     return { success: false, error: error?.message || "Update failed" };
   }
 
+  const changes: GanttChangeRow[] = [];
+  const itemChange = diffRow("gantt_items", timelineId, existing, updated);
+  if (itemChange) changes.push(itemChange);
+
   // If phase_key changed, cascade the label to all descendants (subtask tree).
   // This matches the right-click Set Phase behavior and keeps parent-selects-children
   // consistency regardless of which UI surface triggered the change.
   if (input.phase_key !== undefined) {
     const descendantIds: string[] = [];
     let frontier: string[] = [timelineId];
+    const previousPhase = new Map<string, string | null>();
     while (frontier.length > 0) {
       const { data: children } = await supabase
         .from("gantt_items")
-        .select("id")
+        .select("id, phase_key")
         .in("parent_id", frontier);
       if (!children || children.length === 0) break;
       const ids = children.map((c) => c.id);
+      children.forEach((c) => previousPhase.set(c.id, c.phase_key));
       descendantIds.push(...ids);
       frontier = ids;
     }
     if (descendantIds.length > 0) {
-      await (supabase.from("gantt_items") as any)
+      const { error: cascadeError } = await supabase.from("gantt_items")
         .update({ phase_key: input.phase_key })
         .in("id", descendantIds);
+      if (!cascadeError) {
+        for (const id of descendantIds) {
+          const change = diffRow("gantt_items", id, { phase_key: previousPhase.get(id) }, { phase_key: input.phase_key });
+          if (change) changes.push(change);
+        }
+      }
     }
   }
 
   if (input.linked_scope_item_ids !== undefined) {
-    await supabase.from("gantt_item_scope_items").delete().eq("gantt_item_id", timelineId);
+    const { data: removedLinks } = await supabase
+      .from("gantt_item_scope_items")
+      .delete()
+      .eq("gantt_item_id", timelineId)
+      .select();
+    let insertedLinks: typeof removedLinks = [];
     if (input.linked_scope_item_ids.length > 0) {
       const links = input.linked_scope_item_ids.map((scopeId) => ({
         gantt_item_id: timelineId,
         scope_item_id: scopeId,
       }));
-      await supabase.from("gantt_item_scope_items").insert(links);
+      ({ data: insertedLinks } = await supabase.from("gantt_item_scope_items").insert(links).select());
+    }
+    // Re-saving the same links is not a change worth an undo step
+    const before = new Set((removedLinks || []).map((l) => l.scope_item_id));
+    const after = new Set((insertedLinks || []).map((l) => l.scope_item_id));
+    if (before.size !== after.size || [...before].some((id) => !after.has(id))) {
+      for (const row of removedLinks || []) {
+        changes.push({ table: "gantt_item_scope_items", op: "delete", id: row.id, before: row });
+      }
+      for (const row of insertedLinks || []) {
+        changes.push({ table: "gantt_item_scope_items", op: "insert", id: row.id, after: row });
+      }
+    }
+  }
+
+  if (input.resource_allocations !== undefined) {
+    const { data: removedAllocations } = await supabase
+      .from("gantt_item_resources")
+      .delete()
+      .eq("gantt_item_id", timelineId)
+      .select();
+    let insertedAllocations: typeof removedAllocations = [];
+    const allocations = updated.item_type === "task" ? sanitizeAllocations(input.resource_allocations) : [];
+    if (allocations.length > 0) {
+      ({ data: insertedAllocations } = await supabase
+        .from("gantt_item_resources")
+        .insert(allocations.map((a) => ({ ...a, gantt_item_id: timelineId, created_by: user.id })))
+        .select());
+    }
+    const key = (a: { resource_id: string; allocation_percent: number }) => `${a.resource_id}:${a.allocation_percent}`;
+    const before = new Set((removedAllocations || []).map(key));
+    const after = new Set((insertedAllocations || []).map(key));
+    if (before.size !== after.size || [...before].some((k) => !after.has(k))) {
+      for (const row of removedAllocations || []) {
+        changes.push({ table: "gantt_item_resources", op: "delete", id: row.id, before: row });
+      }
+      for (const row of insertedAllocations || []) {
+        changes.push({ table: "gantt_item_resources", op: "insert", id: row.id, after: row });
+      }
     }
   }
 
+  const changeId = await recordTimelineChange(supabase, {
+    projectId: existing.project_id,
+    userId: user.id,
+    action: "update_item",
+    description: describeItemUpdate(updated.name, Object.keys(itemChange?.after ?? {})),
+    changes,
+  });
+
   // revalidatePath removed — React Query handles cache
-  return { success: true, data: updated };
+  return { success: true, data: updated as GanttItem, changeId };
 }
 
 export async function deleteTimelineItem(timelineId: string): Promise<ActionResult> {
@@ -514,7 +881,7 @@ export async function deleteTimelineItem(timelineId: string): Promise<ActionResu
 
   const { data: existing } = await supabase
     .from("gantt_items")
-    .select("project_id, parent_id, item_type")
+    .select("*")
     .eq("id", timelineId)
     .single();
   if (!existing) return { success: false, error: "Timeline item not found" };
@@ -524,6 +891,17 @@ export async function deleteTimelineItem(timelineId: string): Promise<ActionResu
     return { success: false, error: "Fixed phases cannot be deleted" };
   }
 
+  // Everything the delete takes with it, so undo can put it back
+  const [{ data: children }, { data: links }, { data: scopeLinks }, { data: allocations }] = await Promise.all([
+    supabase.from("gantt_items").select("id").eq("parent_id", timelineId),
+    supabase
+      .from("gantt_dependencies")
+      .select("*")
+      .or(`source_id.eq.${timelineId},target_id.eq.${timelineId}`),
+    supabase.from("gantt_item_scope_items").select("*").eq("gantt_item_id", timelineId),
+    supabase.from("gantt_item_resources").select("*").eq("gantt_item_id", timelineId),
+  ]);
+
   // No manual reparent: the parent_id FK is ON DELETE SET NULL, so children
   // automatically become top-level when their parent is deleted. This avoids
   // RLS/UPDATE race conditions when bulk-deleting a parent + its children in
@@ -534,8 +912,30 @@ export async function deleteTimelineItem(timelineId: string): Promise<ActionResu
     return { success: false, error: error.message };
   }
 
+  // Undo walks this list backwards: item first, then what hangs off it
+  const changes: GanttChangeRow[] = [
+    ...(children || []).map((c): GanttChangeRow => ({
+      table: "gantt_items",
+      op: "update",
+      id: c.id,
+      before: { parent_id: timelineId },
+      after: { parent_id: null },
+    })),
+    ...(allocations || []).map((row): GanttChangeRow => ({ table: "gantt_item_resources", op: "delete", id: row.id, before: row })),
+    ...(scopeLinks || []).map((row): GanttChangeRow => ({ table: "gantt_item_scope_items", op: "delete", id: row.id, before: row })),
+    ...(links || []).map((row): GanttChangeRow => ({ table: "gantt_dependencies", op: "delete", id: row.id, before: row })),
+    { table: "gantt_items", op: "delete", id: timelineId, before: existing },
+  ];
+  const changeId = await recordTimelineChange(supabase, {
+    projectId: existing.project_id,
+    userId: user.id,
+    action: "delete_item",
+    description: `Deleted ${existing.item_type} "${existing.name}"`,
+    changes,
+  });
+
   // revalidatePath removed — React Query handles cache
-  return { success: true };
+  return { success: true, changeId };
 }
 
 /**
@@ -552,7 +952,8 @@ export async function deleteTimelineItem(timelineId: string): Promise<ActionResu
  */
 export async function setTaskPhase(
   taskId: string,
-  phaseKey: PhaseKey
+  phaseKey: PhaseKey,
+  options: { expectedUpdatedAt?: string | null } = {}
 ): Promise<ActionResult<{ updatedCount: number }>> {
   const supabase = await createClient();
   const { data: { user } } = await supabase.auth.getUser();
@@ -565,7 +966,7 @@ export async function setTaskPhase(
 
   const { data: task } = await supabase
     .from("gantt_items")
-    .select("id, item_type")
+    .select("id, item_type, name, project_id, phase_key")
     .eq("id", taskId)
     .single();
   if (!task) return { success: false, error: "Task not found" };
@@ -575,27 +976,53 @@ export async function setTaskPhase(
 
   // Collect all descendants via BFS on parent_id
   const descendantIds: string[] = [];
+  const previousPhase = new Map<string, string | null>([[taskId, task.phase_key]]);
   let frontier: string[] = [taskId];
   while (frontier.length > 0) {
     const { data: children } = await supabase
       .from("gantt_items")
-      .select("id")
+      .select("id, phase_key")
       .in("parent_id", frontier);
     if (!children || children.length === 0) break;
     const ids = children.map((c) => c.id);
+    children.forEach((c) => previousPhase.set(c.id, c.phase_key));
     descendantIds.push(...ids);
     frontier = ids;
   }
 
-  // Update target + descendants with the new phase_key in one go
-  const allIds = [taskId, ...descendantIds];
-  const { error } = await (supabase
-    .from("gantt_items") as any)
+  // Target first, so a stale phase change stops before touching descendants
+  let targetQuery = supabase
+    .from("gantt_items")
     .update({ phase_key: phaseKey })
-    .in("id", allIds);
-  if (error) return { success: false, error: error.message };
+    .eq("id", taskId);
+  if (options.expectedUpdatedAt) {
+    targetQuery = targetQuery.eq("updated_at", options.expectedUpdatedAt);
+  }
+  const { data: updatedTarget, error: targetError } = await targetQuery.select("id").maybeSingle();
+  if (targetError) return { success: false, error: targetError.message };
+  if (!updatedTarget) return { success: false, error: STALE_ITEM_ERROR };
+
+  const allIds = [taskId, ...descendantIds];
+  if (descendantIds.length > 0) {
+    const { error } = await supabase
+      .from("gantt_items")
+      .update({ phase_key: phaseKey })
+      .in("id", descendantIds);
+    if (error) return { success: false, error: error.message };
+  }
 
-  return { success: true, data: { updatedCount: allIds.length } };
+  const phaseName = FIXED_PHASES.find((p) => p.key === phaseKey)?.name ?? phaseKey;
+  const changeId = await recordTimelineChange(supabase, {
+    projectId: task.project_id,
+    userId: user.id,
+    action: "set_phase",
+    description: `Set phase of "${task.name}" to ${phaseName}`,
+    changes: allIds
+      .map((id) => diffRow("gantt_items", id, { phase_key: previousPhase.get(id) }, { phase_key: phaseKey }))
+      .filter((c): c is GanttChangeRow => c !== null),
+  });
+
+  return { success: true, data: { updatedCount: allIds.length }, changeId };
 }
 
 // ============================================================================
@@ -683,41 +1110,57 @@ function topologicalSort(
  * Mirrors `addWorkingDays` from gantt-types.ts — duplicated here because this
  * file is "use server" and can't import client-side modules freely.
  */
-function addWorkingDaysServer(date: Date, days: number, mask: number): Date {
+function addWorkingDaysServer(
+  date: Date,
+  days: number,
+  mask: number,
+  holidays: HolidayDates = NO_HOLIDAYS
+): Date {
   const result = new Date(date);
   const fullMask = 127;
   if (days === 0) return result;
-  if ((mask & fullMask) === fullMask) {
-    result.setDate(result.getDate() + days);
+  if ((mask & fullMask) === fullMask && holidays.size === 0) {
+    result.setUTCDate(result.getUTCDate() + days);
     return result;
   }
   const direction = days > 0 ? 1 : -1;
   let remaining = Math.abs(days);
   while (remaining > 0) {
-    result.setDate(result.getDate() + direction);
-    if ((mask & (1 << result.getDay())) !== 0) remaining--;
+    result.setUTCDate(result.getUTCDate() + direction);
+    if (isWorkingDayServer(result, mask, holidays)) remaining--;
   }
   return result;
 }
 
 /** Count working days between two dates (inclusive) under the given mask. */
-function workingDaysBetweenServer(start: Date, end: Date, mask: number): number {
+function workingDaysBetweenServer(
+  start: Date,
+  end: Date,
+  mask: number,
+  holidays: HolidayDates = NO_HOLIDAYS
+): number {
   const fullMask = 127;
-  const a = new Date(start); a.setHours(0, 0, 0, 0);
-  const b = new Date(end); b.setHours(0, 0, 0, 0);
+  const a = new Date(start); a.setUTCHours(0, 0, 0, 0);
+  const b = new Date(end); b.setUTCHours(0, 0, 0, 0);
   if (a > b) return 0;
-  if ((mask & fullMask) === fullMask) {
+  if ((mask & fullMask) === fullMask && holidays.size === 0) {
     return Math.round((b.getTime() - a.getTime()) / 86400000) + 1;
   }
   let count = 0;
   const cursor = new Date(a);
   while (cursor <= b) {
-    if ((mask & (1 << cursor.getDay())) !== 0) count++;
-    cursor.setDate(cursor.getDate() + 1);
+    if (isWorkingDayServer(cursor, mask, holidays)) count++;
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
   }
   return count;
 }
 
+/** Server dates are parsed from "yyyy-MM-dd" as UTC, so key them the same way */
+function isWorkingDayServer(date: Date, mask: number, holidays: HolidayDates): boolean {
+  if ((mask & (1 << date.getUTCDay())) === 0) return false;
+  return holidays.size === 0 || !holidays.has(date.toISOString().split("T")[0]);
+}
+
 /**
  * Calculate the constrained date for a target based on dependency type + lag.
  * Returns the earliest allowed start or end date for the target.
@@ -730,17 +1173,18 @@ function calculateConstrainedDate(
   lagDays: number,
   sourceStart: Date,
   sourceEnd: Date,
-  mask: number
+  mask: number,
+  holidays: HolidayDates
 ): { constrainedStart?: Date; constrainedEnd?: Date } {
   switch (depType) {
     case 0: // FS: target starts after source finishes
-      return { constrainedStart: addWorkingDaysServer(sourceEnd, lagDays, mask) };
+      return { constrainedStart: addWorkingDaysServer(sourceEnd, lagDays, mask, holidays) };
     case 1: // SS: target starts when source starts
-      return { constrainedStart: addWorkingDaysServer(sourceStart, lagDays, mask) };
+      return { constrainedStart: addWorkingDaysServer(sourceStart, lagDays, mask, holidays) };
     case 2: // FF: target finishes when source finishes
-      return { constrainedEnd: addWorkingDaysServer(sourceEnd, lagDays, mask) };
+      return { constrainedEnd: addWorkingDaysServer(sourceEnd, lagDays, mask, holidays) };
     case 3: // SF: target finishes when source starts
-      return { constrainedEnd: addWorkingDaysServer(sourceStart, lagDays, mask) };
+      return { constrainedEnd: addWorkingDaysServer(sourceStart, lagDays, mask, holidays) };
     default:
       return {};
   }
@@ -750,24 +1194,34 @@ function calculateConstrainedDate(
  * Propagate dependency dates for a project.
  * Loads all items + deps, computes new dates via topological sort,
  * batch-updates changed items. 3 queries total.
+ *
+ * Date constraints apply after the dependencies: must-start-on pins the start
+ * (even against a predecessor — the timeline flags that conflict), and
+ * start-no-earlier-than holds the start back to its date. Finish-no-later-than
+ * is a deadline only; nothing is moved to meet it.
+ *
+ * Pass the changeId of the edit that triggered the run to fold the moved dates
+ * into its history entry (one undo step); without it they get their own entry.
  */
 export async function propagateDependencyDates(
-  projectId: string
+  projectId: string,
+  options: { changeId?: string } = {}
 ): Promise<ActionResult<{ updatedCount: number }>> {
   const supabase = await createClient();
 
   // Query 0: project working-days mask (defaults to Mon-Fri = 62 if column absent)
-  const { data: projectRow } = await (supabase as any)
+  const { data: projectRow } = await supabase
     .from("projects")
     .select("gantt_working_days")
     .eq("id", projectId)
     .maybeSingle();
   const mask: number = projectRow?.gantt_working_days ?? 62;
+  const holidays = await loadProjectHolidayDates(supabase, projectId);
 
   // Query 1: all items for this project
   const { data: items, error: itemsError } = await supabase
     .from("gantt_items")
-    .select("id, start_date, end_date, item_type")
+    .select("id, start_date, end_date, item_type, constraint_type, constraint_date")
     .eq("project_id", projectId);
 
   if (itemsError || !items) {
@@ -784,16 +1238,25 @@ export async function propagateDependencyDates(
     return { success: false, error: depsError?.message || "Failed to load dependencies" };
   }
 
-  if (deps.length === 0) return { success: true, data: { updatedCount: 0 } };
+  const hasConstraints = items.some((i) => i.constraint_type && i.constraint_date);
+  if (deps.length === 0 && !hasConstraints) return { success: true, data: { updatedCount: 0 } };
 
   // Build item lookup
   const itemMap = new Map<string, { start: Date; end: Date; type: string }>();
+  const storedDates = new Map(items.map((i) => [i.id, { start_date: i.start_date, end_date: i.end_date }]));
+  const constraints = new Map<string, { type: ConstraintType; date: Date }>();
   for (const item of items) {
     itemMap.set(item.id, {
       start: new Date(item.start_date),
       end: new Date(item.end_date),
       type: item.item_type,
     });
+    if (item.constraint_type && item.constraint_date && item.item_type !== "phase") {
+      constraints.set(item.id, {
+        type: item.constraint_type as ConstraintType,
+        date: new Date(item.constraint_date),
+      });
+    }
   }
 
   // Topological sort — process sources before targets
@@ -820,15 +1283,16 @@ export async function propagateDependencyDates(
     // Skip phases — they don't get auto-scheduled
     if (item.type === "phase") continue;
 
-    const incoming = incomingDeps.get(itemId);
-    if (!incoming || incoming.length === 0) continue;
+    const incoming = incomingDeps.get(itemId) || [];
+    const constraint = constraints.get(itemId);
+    if (incoming.length === 0 && !constraint) continue;
 
     // Preserve working-day duration under the active mask. If mask was set
     // after the task was created, we honor the original intent (how many
     // working days the task spans), not the raw calendar gap.
     const workingDuration = Math.max(
       1,
-      workingDaysBetweenServer(item.start, item.end, mask)
+      workingDaysBetweenServer(item.start, item.end, mask, holidays)
     );
     let newStart = item.start;
     let newEnd = item.end;
@@ -850,7 +1314,8 @@ export async function propagateDependencyDates(
         dep.lag_days,
         source.start,
         source.end,
-        mask
+        mask,
+        holidays
       );
 
       if (constraint.constrainedStart) {
@@ -869,10 +1334,19 @@ export async function propagateDependencyDates(
       newStart = tightestStart;
       // End = start + (workingDuration - 1) working days, so end inclusive
       // matches the original working-day count.
-      newEnd = addWorkingDaysServer(newStart, workingDuration - 1, mask);
+      newEnd = addWorkingDaysServer(newStart, workingDuration - 1, mask, holidays);
     } else if (tightestEnd) {
       newEnd = tightestEnd;
-      newStart = addWorkingDaysServer(newEnd, -(workingDuration - 1), mask);
+      newStart = addWorkingDaysServer(newEnd, -(workingDuration - 1), mask, holidays);
+    }
+
+    if (
+      constraint &&
+      (constraint.type === "must_start_on" ||
+        (constraint.type === "start_no_earlier_than" && newStart < constraint.date))
+    ) {
+      newStart = constraint.date;
+      newEnd = addWorkingDaysServer(newStart, workingDuration - 1, mask, holidays);
     }
 
     // Only record if dates actually changed
@@ -902,6 +1376,30 @@ export async function propagateDependencyDates(
     if (failed.length > 0) {
       console.error("Some date updates failed:", failed.map((f) => f.error));
     }
+
+    const changes = updates
+      .filter((_, i) => !results[i].error)
+      .map((u) =>
+        diffRow("gantt_items", u.id, storedDates.get(u.id) ?? {}, { start_date: u.start_date, end_date: u.end_date })
+      )
+      .filter((c): c is GanttChangeRow => c !== null);
+    const moved = `${changes.length} dependent task${changes.length !== 1 ? "s" : ""}`;
+    const appended =
+      changes.length > 0 &&
+      !!options.changeId &&
+      (await appendTimelineChange(supabase, options.changeId, changes, `${moved} rescheduled`));
+    if (changes.length > 0 && !appended) {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (user) {
+        await recordTimelineChange(supabase, {
+          projectId,
+          userId: user.id,
+          action: "propagate",
+          description: `Rescheduled ${moved}`,
+          changes,
+        });
+      }
+    }
   }
 
   return { success: true, data: { updatedCount: updates.length } };
@@ -934,8 +1432,8 @@ export async function createTimelineDependency(
     { data: sourceChildren },
     { data: targetChildren },
   ] = await Promise.all([
-    supabase.from("gantt_items").select("id, item_type").eq("id", input.source_id).single(),
-    supabase.from("gantt_items").select("id, item_type").eq("id", input.target_id).single(),
+    supabase.from("gantt_items").select("id, item_type, name").eq("id", input.source_id).single(),
+    supabase.from("gantt_items").select("id, item_type, name").eq("id", input.target_id).single(),
     supabase.from("gantt_items").select("id").eq("parent_id", input.source_id).limit(1),
     supabase.from("gantt_items").select("id").eq("parent_id", input.target_id).limit(1),
   ]);
@@ -980,13 +1478,22 @@ export async function createTimelineDependency(
     return { success: false, error: error?.message || "Failed to create dependency" };
   }
 
+  const changeId = await recordTimelineChange(supabase, {
+    projectId: input.project_id,
+    userId: user.id,
+    action: "create_dependency",
+    description: `Linked "${sourceItem.name}" → "${targetItem.name}"`,
+    changes: [{ table: "gantt_dependencies", op: "insert", id: created.id, after: created }],
+  });
+
   // revalidatePath removed — React Query handles cache
-  return { success: true, data: created };
+  return { success: true, data: created, changeId };
 }
 
 export async function updateTimelineDependency(
   dependencyId: string,
-  updates: { dependency_type?: DependencyType; lag_days?: number }
+  updates: { dependency_type?: DependencyType; lag_days?: number },
+  options: { expected?: { dependency_type: number; lag_days: number } } = {}
 ): Promise<ActionResult<GanttDependency>> {
   const supabase = await createClient();
   const { data: { user } } = await supabase.auth.getUser();
@@ -999,31 +1506,54 @@ export async function updateTimelineDependency(
 
   const { data: existing } = await supabase
     .from("gantt_dependencies")
-    .select("project_id")
+    .select("*")
     .eq("id", dependencyId)
     .single();
 
   if (!existing) return { success: false, error: "Dependency not found" };
 
-  const { data: updated, error } = await supabase
+  // Links have no updated_at, so compare-and-set on the values the user saw
+  let updateQuery = supabase
     .from("gantt_dependencies")
     .update({
       dependency_type: updates.dependency_type,
       lag_days: updates.lag_days,
     })
-    .eq("id", dependencyId)
-    .select()
-    .single();
+    .eq("id", dependencyId);
+  if (options.expected) {
+    updateQuery = updateQuery
+      .eq("dependency_type", options.expected.dependency_type)
+      .eq("lag_days", options.expected.lag_days);
+  }
+  const { data: updated, error } = await updateQuery.select().maybeSingle();
+
+  if (!error && !updated && options.expected) {
+    return { success: false, error: STALE_DEPENDENCY_ERROR };
+  }
 
   if (error || !updated) {
     return { success: false, error: error?.message || "Failed to update dependency" };
   }
 
+  const change = diffRow("gantt_dependencies", dependencyId, existing, updated);
+  const changeId = change
+    ? await recordTimelineChange(supabase, {
+        projectId: existing.project_id,
+        userId: user.id,
+        action: "update_dependency",
+        description: `Changed link ${await dependencyLabel(supabase, existing)}`,
+        changes: [change],
+      })
+    : undefined;
+
   // revalidatePath removed — React Query handles cache
-  return { success: true, data: updated };
+  return { success: true, data: updated, changeId };
 }
 
-export async function deleteTimelineDependency(dependencyId: string): Promise<ActionResult> {
+export async function deleteTimelineDependency(
+  dependencyId: string,
+  options: { expected?: { dependency_type: number; lag_days: number } } = {}
+): Promise<ActionResult> {
   const supabase = await createClient();
   const { data: { user } } = await supabase.auth.getUser();
   if (!user) return { success: false, error: "Not authenticated" };
@@ -1035,19 +1565,39 @@ export async function deleteTimelineDependency(dependencyId: string): Promise<Ac
 
   const { data: existing } = await supabase
     .from("gantt_dependencies")
-    .select("project_id")
+    .select("*")
     .eq("id", dependencyId)
     .single();
 
-  if (!existing) return { success: false, error: "Dependency not found" };
+  if (!existing) {
+    return { success: false, error: options.expected ? STALE_DEPENDENCY_ERROR : "Dependency not found" };
+  }
 
-  const { error } = await supabase.from("gantt_dependencies").delete().eq("id", dependencyId);
+  const label = await dependencyLabel(supabase, existing);
+  let deleteQuery = supabase.from("gantt_dependencies").delete().eq("id", dependencyId);
+  if (options.expected) {
+    deleteQuery = deleteQuery
+      .eq("dependency_type", options.expected.dependency_type)
+      .eq("lag_days", options.expected.lag_days);
+  }
+  const { data: deleted, error } = await deleteQuery.select("id");
   if (error) {
     return { success: false, error: error.message };
   }
+  if (options.expected && (!deleted || deleted.length === 0)) {
+    return { success: false, error: STALE_DEPENDENCY_ERROR };
+  }
+
+  const changeId = await recordTimelineChange(supabase, {
+    projectId: existing.project_id,
+    userId: user.id,
+    action: "delete_dependency",
+    description: `Removed link ${label}`,
+    changes: [{ table: "gantt_dependencies", op: "delete", id: dependencyId, before: existing }],
+  });
 
   // revalidatePath removed — React Query handles cache
-  return { success: true };
+  return { success: true, changeId };
 }
 
 // ============================================================================
@@ -1063,7 +1613,7 @@ export async function getProjectWorkingDays(projectId: string): Promise<number>
   const { data: { user } } = await supabase.auth.getUser();
   if (!user) return 62;
 
-  const { data } = await (supabase as any)
+  const { data } = await supabase
     .from("projects")
     .select("gantt_working_days")
     .eq("id", projectId)
@@ -1101,12 +1651,13 @@ export async function setProjectWorkingDays(
   }
 
   // Load current mask so we can compute each task's pre-existing working-day count
-  const { data: projectRow } = await (supabase as any)
+  const { data: projectRow } = await supabase
     .from("projects")
     .select("gantt_working_days")
     .eq("id", projectId)
     .maybeSingle();
   const oldMask: number = projectRow?.gantt_working_days ?? 62;
+  const holidays = await loadProjectHolidayDates(supabase, projectId);
 
   // Load all non-phase items (phases are derived, don't auto-adjust)
   const { data: items, error: itemsError } = await supabase
@@ -1127,10 +1678,10 @@ export async function setProjectWorkingDays(
 
     const start = new Date(item.start_date);
     const end = new Date(item.end_date);
-    const oldDuration = workingDaysBetweenServer(start, end, oldMask);
+    const oldDuration = workingDaysBetweenServer(start, end, oldMask, holidays);
     if (oldDuration <= 0) continue;
 
-    const newEnd = addWorkingDaysServer(start, oldDuration - 1, clamped);
+    const newEnd = addWorkingDaysServer(start, oldDuration - 1, clamped, holidays);
     const newEndStr = newEnd.toISOString().split("T")[0];
     if (newEndStr !== item.end_date) {
       updates.push({ id: item.id, end_date: newEndStr });
@@ -1138,7 +1689,7 @@ export async function setProjectWorkingDays(
   }
 
   // Persist the new mask first so subsequent dependency propagation sees it
-  const { error: updErr } = await (supabase as any)
+  const { error: updErr } = await supabase
     .from("projects")
     .update({ gantt_working_days: clamped })
     .eq("id", projectId);
@@ -1163,3 +1714,962 @@ export async function setProjectWorkingDays(
   return { success: true, data: { updatedCount: updates.length } };
 }
 
+// ============================================================================
+// Holiday Calendars
+//
+// gantt_holidays rows with project_id NULL form the company calendar; rows
+// with a project_id are project closures. A project sees the company calendar
+// unless projects.gantt_use_company_holidays is off. Adding or removing a
+// holiday doesn't move existing bars — callers re-run propagateDependencyDates
+// so linked tasks respect the new calendar.
+// ============================================================================
+
+const HOLIDAY_NAME_MAX = 100;
+const HOLIDAY_BATCH_MAX = 200;
+const HOLIDAY_PERIOD_MAX_DAYS = 366;
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>;
+
+async function loadProjectHolidayDates(supabase: ServerClient, projectId: string): Promise<HolidayDates> {
+  const { data: projectRow } = await supabase
+    .from("projects")
+    .select("gantt_use_company_holidays")
+    .eq("id", projectId)
+    .maybeSingle();
+  const useCompany: boolean = projectRow?.gantt_use_company_holidays ?? true;
+
+  const { data, error } = await supabase
+    .from("gantt_holidays")
+    .select("start_date, end_date")
+    .or(useCompany ? `project_id.eq.${projectId},project_id.is.null` : `project_id.eq.${projectId}`);
+
+  if (error) {
+    console.error("Error loading holiday calendar:", error);
+    return NO_HOLIDAYS;
+  }
+  return expandHolidayDates(data || []);
+}
+
+export async function getProjectHolidayCalendar(projectId: string): Promise<ProjectHolidayCalendar> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return { useCompanyHolidays: true, company: [], project: [] };
+
+  const [{ data: projectRow }, { data, error }] = await Promise.all([
+    supabase
+      .from("projects")
+      .select("gantt_use_company_holidays")
+      .eq("id", projectId)
+      .maybeSingle(),
+    supabase
+      .from("gantt_holidays")
+      .select("*")
+      .or(`project_id.eq.${projectId},project_id.is.null`)
+      .order("start_date"),
+  ]);
+
+  if (error) {
+    console.error("Error fetching holiday calendar:", error);
+  }
+
+  const rows = (data || []) as GanttHoliday[];
+  return {
+    useCompanyHolidays: projectRow?.gantt_use_company_holidays ?? true,
+    company: rows.filter((h) => h.project_id === null),
+    project: rows.filter((h) => h.project_id !== null),
+  };
+}
+
+/**
+ * Add holidays to the company calendar (projectId null, Admin only) or to a
+ * project calendar. Periods already in the calendar (same start date and
+ * name) are skipped, so presets can be re-applied safely.
+ */
+export async function createGanttHolidays(
+  projectId: string | null,
+  periods: HolidayPeriod[]
+): Promise<ActionResult<{ created: number; skipped: number }>> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const { data: userData } = await supabase.from("users").select("role").eq("id", user.id).single();
+  if (projectId === null && userData?.role !== "admin") {
+    return { success: false, error: "Only Admin can change the company calendar" };
+  }
+  if (!userData || !["admin", "pm"].includes(userData.role)) {
+    return { success: false, error: "Only PM and Admin can change holidays" };
+  }
+
+  if (!Array.isArray(periods) || periods.length === 0) {
+    return { success: false, error: "No holidays to add" };
+  }
+  if (periods.length > HOLIDAY_BATCH_MAX) {
+    return { success: false, error: `At most ${HOLIDAY_BATCH_MAX} holidays can be added at once` };
+  }
+
+  const rows: Array<HolidayPeriod & { project_id: string | null; created_by: string }> = [];
+  for (const period of periods) {
+    const name = String(period.name ?? "").trim();
+    if (!name) return { success: false, error: "Holiday name is required" };
+    if (name.length > HOLIDAY_NAME_MAX) {
+      return { success: false, error: `Holiday name must be ${HOLIDAY_NAME_MAX} characters or less` };
+    }
+    if (!isDayString(period.start_date) || !isDayString(period.end_date)) {
+      return { success: false, error: `Invalid dates for "${name}"` };
+    }
+    if (period.end_date < period.start_date) {
+      return { success: false, error: `"${name}" ends before it starts` };
+    }
+    const lengthDays =
+      (new Date(period.end_date).getTime() - new Date(period.start_date).getTime()) / 86400000 + 1;
+    if (lengthDays > HOLIDAY_PERIOD_MAX_DAYS) {
+      return { success: false, error: `"${name}" is longer than a year` };
+    }
+    const category: HolidayCategory = period.category in HOLIDAY_CATEGORY_LABELS ? period.category : "other";
+    rows.push({
+      project_id: projectId,
+      name,
+      start_date: period.start_date,
+      end_date: period.end_date,
+      category,
+      created_by: user.id,
+    });
+  }
+
+  // The unique index is on an expression, so upsert can't target it — filter instead
+  let existingQuery = supabase.from("gantt_holidays").select("name, start_date");
+  existingQuery = projectId === null
+    ? existingQuery.is("project_id", null)
+    : existingQuery.eq("project_id", projectId);
+  const { data: existing } = await existingQuery;
+  const seen = new Set((existing || []).map((h) => `${h.start_date}|${h.name}`));
+  const fresh = rows.filter((row) => {
+    const key = `${row.start_date}|${row.name}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  if (fresh.length > 0) {
+    const { error } = await supabase.from("gantt_holidays").insert(fresh);
+    if (error) {
+      console.error("Error creating holidays:", error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  return { success: true, data: { created: fresh.length, skipped: rows.length - fresh.length } };
+}
+
+export async function deleteGanttHoliday(holidayId: string): Promise<ActionResult> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const { data: userData } = await supabase.from("users").select("role").eq("id", user.id).single();
+  if (!userData || !["admin", "pm"].includes(userData.role)) {
+    return { success: false, error: "Only PM and Admin can change holidays" };
+  }
+
+  const { data: holiday } = await supabase
+    .from("gantt_holidays")
+    .select("project_id")
+    .eq("id", holidayId)
+    .maybeSingle();
+  if (!holiday) return { success: false, error: "Holiday not found" };
+  if (holiday.project_id === null && userData.role !== "admin") {
+    return { success: false, error: "Only Admin can change the company calendar" };
+  }
+
+  const { error } = await supabase.from("gantt_holidays").delete().eq("id", holidayId);
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+export async function setProjectUsesCompanyHolidays(
+  projectId: string,
+  enabled: boolean
+): Promise<ActionResult> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const { data: userData } = await supabase.from("users").select("role").eq("id", user.id).single();
+  if (!userData || !["admin", "pm"].includes(userData.role)) {
+    return { success: false, error: "Only PM and Admin can change holidays" };
+  }
+
+  const { error } = await supabase
+    .from("projects")
+    .update({ gantt_use_company_holidays: enabled })
+    .eq("id", projectId);
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+// ============================================================================
+// Schedule Baselines
+//
+// A baseline is an immutable snapshot of every gantt_items start/end (plus
+// name/type, so rows survive task deletion). The Gantt overlays the selected
+// baseline as ghost bars and the table shows start/finish variance.
+// ============================================================================
+
+const BASELINE_NAME_MAX = 100;
+
+export async function getTimelineBaselines(projectId: string): Promise<TimelineBaseline[]> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  const { data, error } = await supabase
+    .from("gantt_baselines")
+    .select("id, project_id, name, description, created_by, created_at, creator:users!gantt_baselines_created_by_fkey(name), items:gantt_baseline_items(count)")
+    .eq("project_id", projectId)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    console.error("Error fetching gantt baselines:", error);
+    return [];
+  }
+
+  return (data || []).map((row) => {
+    const { items, ...baseline } = row as typeof row & { items: { count: number }[] };
+    return { ...baseline, item_count: items?.[0]?.count ?? 0 } as TimelineBaseline;
+  });
+}
+
+export async function getTimelineBaselineItems(baselineId: string): Promise<TimelineBaselineItem[]> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  const { data, error } = await supabase
+    .from("gantt_baseline_items")
+    .select("*")
+    .eq("baseline_id", baselineId);
+
+  if (error) {
+    console.error("Error fetching gantt baseline items:", error);
+    return [];
+  }
+
+  return (data || []) as TimelineBaselineItem[];
+}
+
+export async function createTimelineBaseline(
+  projectId: string,
+  input: { name: string; description?: string | null }
+): Promise<ActionResult<TimelineBaseline>> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const { data: userData } = await supabase.from("users").select("role").eq("id", user.id).single();
+  if (!userData || !["admin", "pm"].includes(userData.role)) {
+    return { success: false, error: "Only PM and Admin can save baselines" };
+  }
+
+  const name = input.name?.trim();
+  if (!name) return { success: false, error: "Baseline name is required" };
+  if (name.length > BASELINE_NAME_MAX) {
+    return { success: false, error: `Baseline name must be ${BASELINE_NAME_MAX} characters or less` };
+  }
+
+  // Reuse the item query so the snapshot captures computed (scope-linked) progress
+  const items = await getTimelineItems(projectId);
+  const snapshotItems = items.filter((i) => !i.id.startsWith("temp-"));
+  if (snapshotItems.length === 0) {
+    return { success: false, error: "There are no timeline items to baseline yet" };
+  }
+
+  const { data: baseline, error } = await supabase
+    .from("gantt_baselines")
+    .insert({
+      project_id: projectId,
+      name,
+      description: input.description?.trim() || null,
+      created_by: user.id,
+    })
+    .select()
+    .single();
+
+  if (error || !baseline) {
+    console.error("Error creating gantt baseline:", error);
+    return { success: false, error: error?.message || "Failed to save baseline" };
+  }
+
+  const { error: itemsError } = await supabase.from("gantt_baseline_items").insert(
+    snapshotItems.map((item) => ({
+      baseline_id: baseline.id,
+      gantt_item_id: item.id,
+      item_name: item.name,
+      item_type: item.item_type,
+      start_date: item.start_date,
+      end_date: item.end_date,
+      progress: Math.round(item.progress ?? 0),
+    }))
+  );
+
+  if (itemsError) {
+    // Don't leave an empty header behind
+    await supabase.from("gantt_baselines").delete().eq("id", baseline.id);
+    console.error("Error snapshotting gantt baseline items:", itemsError);
+    return { success: false, error: itemsError.message };
+  }
+
+  return { success: true, data: { ...baseline, item_count: snapshotItems.length } };
+}
+
+export async function deleteTimelineBaseline(baselineId: string): Promise<ActionResult> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const { data: userData } = await supabase.from("users").select("role").eq("id", user.id).single();
+  if (!userData || !["admin", "pm"].includes(userData.role)) {
+    return { success: false, error: "Only PM and Admin can delete baselines" };
+  }
+
+  const { error } = await supabase.from("gantt_baselines").delete().eq("id", baselineId);
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+// ============================================================================
+// Schedule Interchange (MS Project XML / Primavera XER)
+//
+// Files are parsed in the browser (MSPDI needs DOMParser) and the neutral
+// schedule is posted here; the import plan is recomputed against fresh data
+// so the preview can't drift from what gets written.
+// ============================================================================
+
+const IMPORT_MAX_TASKS = 2000;
+const IMPORT_MAX_LINKS = 5000;
+const IMPORT_NAME_MAX = 255;
+
+export async function exportTimelineSchedule(
+  projectId: string,
+  format: ScheduleFileFormat
+): Promise<ActionResult<{ fileName: string; content: string }>> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const { data: project } = await supabase
+    .from("projects")
+    .select("name, project_code")
+    .eq("id", projectId)
+    .single();
+  if (!project) return { success: false, error: "Project not found" };
+
+  const [items, dependencies, mask] = await Promise.all([
+    getTimelineItems(projectId),
+    getTimelineDependencies(projectId),
+    getProjectWorkingDays(projectId),
+  ]);
+
+  const schedule = buildInterchangeSchedule(items, dependencies, mask, project.name);
+  const baseName = `${project.project_code || "Project"}_Timeline_${new Date().toISOString().split("T")[0]}`;
+
+  return format === "xer"
+    ? { success: true, data: { fileName: `${baseName}.xer`, content: buildXer(schedule, project.project_code) } }
+    : { success: true, data: { fileName: `${baseName}.xml`, content: buildMspdiXml(schedule) } };
+}
+
+/** Drop anything the client-side parser shouldn't have produced */
+function sanitizeSchedule(input: InterchangeSchedule): InterchangeSchedule | null {
+  if (!input || !Array.isArray(input.tasks) || !Array.isArray(input.links)) return null;
+
+  const tasks: InterchangeTask[] = [];
+  const uids = new Set<string>();
+  for (const t of input.tasks) {
+    if (!t || typeof t.uid !== "string" || uids.has(t.uid)) continue;
+    if (!isDayString(t.start) || !isDayString(t.end)) continue;
+    const name = typeof t.name === "string" ? t.name.trim().slice(0, IMPORT_NAME_MAX) : "";
+    if (!name) continue;
+    uids.add(t.uid);
+    tasks.push({
+      uid: t.uid,
+      name,
+      type: t.type === "milestone" ? "milestone" : "task",
+      phaseKey: matchPhaseKey(t.phaseKey),
+      parentUid: typeof t.parentUid === "string" && uids.has(t.parentUid) ? t.parentUid : null,
+      start: t.start,
+      end: t.end < t.start ? t.start : t.end,
+      priority: ([1, 2, 3, 4].includes(t.priority) ? t.priority : 2) as Priority,
+      progress: Math.min(100, Math.max(0, Math.round(Number(t.progress) || 0))),
+      description: typeof t.description === "string" ? t.description.slice(0, 2000) : null,
+    });
+  }
+
+  const links: InterchangeLink[] = input.links
+    .filter((l) => l && uids.has(l.sourceUid) && uids.has(l.targetUid) && [0, 1, 2, 3].includes(l.type))
+    .map((l) => ({
+      sourceUid: l.sourceUid,
+      targetUid: l.targetUid,
+      type: l.type,
+      lagDays: Math.max(-365, Math.min(365, Math.round(Number(l.lagDays) || 0))),
+    }));
+
+  const mask = Number(input.workingDaysMask) & 127;
+  return {
+    projectName: typeof input.projectName === "string" ? input.projectName : null,
+    workingDaysMask: mask > 0 ? mask : null,
+    tasks,
+    links,
+    warnings: [],
+  };
+}
+
+/**
+ * Apply a parsed MS Project / Primavera schedule to the timeline.
+ *
+ * Merge updates matched tasks and adds new ones; replace also deletes tasks
+ * and links missing from the file. File dates are kept as-is (no dependency
+ * propagation) so the imported plan matches the source tool. Everything is
+ * written in one transaction and can be undone as a single history entry.
+ */
+export async function importTimelineSchedule(
+  projectId: string,
+  input: InterchangeSchedule,
+  options: { mode: ScheduleImportMode; applyCalendar: boolean }
+): Promise<ActionResult<{
+  created: number;
+  updated: number;
+  deleted: number;
+  linksCreated: number;
+  linksUpdated: number;
+  linksRemoved: number;
+  linksSkipped: number;
+}>> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const { data: userData } = await supabase.from("users").select("role").eq("id", user.id).single();
+  if (!userData || !["admin", "pm"].includes(userData.role)) {
+    return { success: false, error: "Only PM and Admin can import schedules" };
+  }
+
+  const schedule = sanitizeSchedule(input);
+  if (!schedule || schedule.tasks.length === 0) {
+    return { success: false, error: "The file contains no dated tasks to import" };
+  }
+  if (schedule.tasks.length > IMPORT_MAX_TASKS || schedule.links.length > IMPORT_MAX_LINKS) {
+    return {
+      success: false,
+      error: `Schedules are limited to ${IMPORT_MAX_TASKS} tasks and ${IMPORT_MAX_LINKS} links`,
+    };
+  }
+
+  const [items, dependencies, currentMask] = await Promise.all([
+    getTimelineItems(projectId),
+    getTimelineDependencies(projectId),
+    getProjectWorkingDays(projectId),
+  ]);
+  const plan = planScheduleImport(items, dependencies, schedule, {
+    mode: options.mode === "replace" ? "replace" : "merge",
+    currentWorkingDays: currentMask,
+    applyCalendar: !!options.applyCalendar,
+  });
+
+  // Creates — ids are assigned up front so children can point at new parents
+  const idByUid = new Map<string, string>(Object.entries(plan.matched));
+  plan.creates.forEach((task) => idByUid.set(task.uid, crypto.randomUUID()));
+  const resolveParent = (uid: string | null | undefined) => (uid ? idByUid.get(uid) ?? null : null);
+
+  const maxOrder = items.reduce((max, i) => Math.max(max, i.sort_order || 0), 0);
+  const creates = plan.creates.map((task, index): GanttChangeRow => ({
+    table: "gantt_items",
+    op: "insert",
+    id: idByUid.get(task.uid)!,
+    after: {
+      id: idByUid.get(task.uid)!,
+      project_id: projectId,
+      name: task.name,
+      item_type: task.type,
+      phase_key: task.phaseKey,
+      parent_id: resolveParent(task.parentUid),
+      sort_order: maxOrder + index + 1,
+      start_date: task.start,
+      end_date: task.type === "milestone" ? task.start : task.end,
+      priority: task.priority,
+      progress_override: task.type === "task" && task.progress > 0 ? task.progress : null,
+      is_completed: task.type === "milestone" && task.progress >= 100,
+      description: task.description,
+      created_by: user.id,
+    },
+  }));
+
+  const updates = plan.updates.map((u): GanttChangeRow => {
+    const data: TablesUpdate<"gantt_items"> = { ...u.patch };
+    if (u.parentUid !== undefined) data.parent_id = resolveParent(u.parentUid);
+    return { table: "gantt_items", op: "update", id: u.itemId, after: data };
+  });
+
+  // New links — skip any that would close a cycle with what is left
+  const removedIds = new Set(plan.links.remove.map((l) => l.dependencyId));
+  const deletedIds = new Set(plan.deletes.map((d) => d.id));
+  const graph = dependencies
+    .filter((d) => !removedIds.has(d.id) && !deletedIds.has(d.source_id) && !deletedIds.has(d.target_id))
+    .map((d) => ({ source_id: d.source_id, target_id: d.target_id }));
+  const newLinks: GanttChangeRow[] = [];
+  let cyclic = 0;
+  for (const link of plan.links.create) {
+    const sourceId = idByUid.get(link.sourceUid);
+    const targetId = idByUid.get(link.targetUid);
+    if (!sourceId || !targetId) continue;
+    if (detectCycle(sourceId, targetId, graph)) {
+      cyclic++;
+      continue;
+    }
+    graph.push({ source_id: sourceId, target_id: targetId });
+    const id = crypto.randomUUID();
+    newLinks.push({
+      table: "gantt_dependencies",
+      op: "insert",
+      id,
+      after: {
+        id,
+        project_id: projectId,
+        source_id: sourceId,
+        target_id: targetId,
+        dependency_type: link.type,
+        lag_days: link.lagDays,
+        created_by: user.id,
+      },
+    });
+  }
+
+  // Removed links go first so deleted tasks don't take them along; parents
+  // are created before their children; new links last, once both ends exist
+  const changes: GanttChangeRow[] = [
+    ...plan.links.remove.map((l): GanttChangeRow => ({ table: "gantt_dependencies", op: "delete", id: l.dependencyId })),
+    ...plan.links.update.map((l): GanttChangeRow => ({
+      table: "gantt_dependencies",
+      op: "update",
+      id: l.dependencyId,
+      after: { dependency_type: l.link.type, lag_days: l.link.lagDays },
+    })),
+    ...creates,
+    ...updates,
+    ...plan.deletes.map((d): GanttChangeRow => ({ table: "gantt_items", op: "delete", id: d.id })),
+    ...newLinks,
+  ];
+
+  const summary = [`${creates.length} added`, `${updates.length} updated`];
+  if (plan.deletes.length > 0) summary.push(`${plan.deletes.length} removed`);
+  // The file's dates were scheduled on its own calendar, so it is applied with them
+  const { changeId, error } = await applyTimelineChanges(supabase, {
+    projectId,
+    action: "import_schedule",
+    description: `Imported schedule (${summary.join(", ")})`,
+    changes,
+    workingDays: plan.calendar?.to ?? null,
+  });
+  if (error) return { success: false, error };
+
+  return {
+    success: true,
+    data: {
+      created: creates.length,
+      updated: updates.length,
+      deleted: plan.deletes.length,
+      linksCreated: newLinks.length,
+      linksUpdated: plan.links.update.length,
+      linksRemoved: plan.links.remove.length,
+      linksSkipped: plan.links.skipped + cyclic,
+    },
+    changeId,
+  };
+}
+
+// ============================================================================
+// Schedule generation (from scope items)
+// ============================================================================
+
+export type TimelineGenerationOptions = Pick<ScheduleGeneratorOptions, "startDate" | "durations" | "grouping">;
+
+const DRAWING_DONE_STATUSES = ["approved", "approved_with_comments"];
+
+/** Last-used phase durations for the project, or the defaults */
+export async function getProjectPhaseDurations(projectId: string): Promise<PhaseDurations> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return normalizePhaseDurations(null);
+
+  const { data } = await supabase
+    .from("projects")
+    .select("gantt_default_durations")
+    .eq("id", projectId)
+    .maybeSingle();
+
+  return normalizePhaseDurations(data?.gantt_default_durations as Partial<Record<string, unknown>> | null);
+}
+
+async function planTimelineGeneration(
+  supabase: ServerClient,
+  projectId: string,
+  options: TimelineGenerationOptions
+): Promise<ActionResult<{ schedule: GeneratedSchedule; items: GanttItem[] }>> {
+  if (!isDayString(options.startDate)) return { success: false, error: "Invalid start date" };
+
+  const { data: project } = await supabase
+    .from("projects")
+    .select("installation_date")
+    .eq("id", projectId)
+    .single();
+  if (!project) return { success: false, error: "Project not found" };
+
+  const { data: scopeItems, error } = await supabase
+    .from("scope_items")
+    .select("id, item_code, name, item_path, expected_delivery_date, production_percentage, procurement_status, is_shipped, is_installed")
+    .eq("project_id", projectId)
+    .eq("is_deleted", false)
+    .is("parent_id", null)
+    .order("item_code");
+  if (error) return { success: false, error: error.message };
+
+  // Drawings are one per item; approved / not required / PM-overridden means design is done
+  const { data: drawings } = await supabase
+    .from("drawings")
+    .select("item_id, status, not_required_at, pm_override, scope_items!inner(project_id)")
+    .eq("scope_items.project_id", projectId);
+  const drawingDone = new Set(
+    (drawings || [])
+      .filter((d) => DRAWING_DONE_STATUSES.includes(d.status) || !!d.not_required_at || !!d.pm_override)
+      .map((d) => d.item_id)
+  );
+
+  const [items, mask, holidays] = await Promise.all([
+    getTimelineItems(projectId),
+    getProjectWorkingDays(projectId),
+    loadProjectHolidayDates(supabase, projectId),
+  ]);
+  const scheduled = new Set(items.flatMap((i) => i.linked_scope_item_ids || []));
+
+  const inputs: GeneratorScopeItem[] = (scopeItems || []).map((si) => ({
+    id: si.id,
+    item_code: si.item_code,
+    name: si.name,
+    item_path: si.item_path === "procurement" ? "procurement" : "production",
+    expected_delivery_date: si.expected_delivery_date,
+    production_percentage: si.production_percentage,
+    procurement_status: si.procurement_status,
+    is_shipped: si.is_shipped,
+    is_installed: si.is_installed,
+    drawingDone: drawingDone.has(si.id),
+    alreadyScheduled: scheduled.has(si.id),
+  }));
+
+  const schedule = planGeneratedSchedule(inputs, {
+    startDate: options.startDate,
+    durations: normalizePhaseDurations(options.durations),
+    grouping: options.grouping === "phase" ? "phase" : "item",
+    workingDays: mask,
+    holidays,
+    installationDate: project.installation_date,
+  });
+
+  return { success: true, data: { schedule, items } };
+}
+
+export async function previewTimelineGeneration(
+  projectId: string,
+  options: TimelineGenerationOptions
+): Promise<ActionResult<GeneratedSchedule>> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const result = await planTimelineGeneration(supabase, projectId, options);
+  if (!result.success) return { success: false, error: result.error };
+  return { success: true, data: result.data!.schedule };
+}
+
+/**
+ * Append a generated schedule to the timeline: tasks (phase summaries first),
+ * their scope item links and FS dependencies, written in one transaction as a
+ * single history entry. Existing tasks are untouched and items already linked
+ * to a task are skipped, so running it again only adds what is new. The
+ * durations used are remembered on the project.
+ */
+export async function generateTimelineFromScope(
+  projectId: string,
+  options: TimelineGenerationOptions
+): Promise<ActionResult<{ created: number; links: number; skipped: number; warnings: string[] }>> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const { data: userData } = await supabase.from("users").select("role").eq("id", user.id).single();
+  if (!userData || !["admin", "pm"].includes(userData.role)) {
+    return { success: false, error: "Only PM and Admin can generate schedules" };
+  }
+  const result = await planTimelineGeneration(supabase, projectId, options);
+  if (!result.success) return { success: false, error: result.error };
+  const { schedule, items } = result.data!;
+
+  if (schedule.tasks.length === 0) {
+    return { success: false, error: "No scope items left to schedule" };
+  }
+  if (schedule.tasks.length > IMPORT_MAX_TASKS) {
+    return { success: false, error: `Generated schedules are limited to ${IMPORT_MAX_TASKS} tasks` };
+  }
+
+  const idByKey = new Map(schedule.tasks.map((t) => [t.key, crypto.randomUUID()]));
+  const maxOrder = items.reduce((max, i) => Math.max(max, i.sort_order || 0), 0);
+  const rows = schedule.tasks.map((task, index) => ({
+    id: idByKey.get(task.key)!,
+    project_id: projectId,
+    name: task.name.slice(0, IMPORT_NAME_MAX),
+    item_type: "task" as const,
+    phase_key: task.phaseKey,
+    parent_id: task.parentKey ? idByKey.get(task.parentKey) ?? null : null,
+    sort_order: maxOrder + index + 1,
+    start_date: task.start,
+    end_date: task.end,
+    priority: 2,
+    created_by: user.id,
+  }));
+  const scopeLinks = schedule.tasks.flatMap((task) =>
+    task.scopeItemIds.map((scopeId) => ({
+      id: crypto.randomUUID(),
+      gantt_item_id: idByKey.get(task.key)!,
+      scope_item_id: scopeId,
+    }))
+  );
+  const dependencies = schedule.links.map((link) => ({
+    id: crypto.randomUUID(),
+    project_id: projectId,
+    source_id: idByKey.get(link.sourceKey)!,
+    target_id: idByKey.get(link.targetKey)!,
+    dependency_type: 0,
+    lag_days: link.lagDays,
+    created_by: user.id,
+  }));
+
+  // Summaries before their children; links once both ends exist
+  const { changeId, error } = await applyTimelineChanges(supabase, {
+    projectId,
+    action: "generate_schedule",
+    description: `Generated schedule from scope (${rows.length} task${rows.length !== 1 ? "s" : ""})`,
+    changes: [
+      ...[...rows.filter((r) => !r.parent_id), ...rows.filter((r) => r.parent_id)].map(
+        (row): GanttChangeRow => ({ table: "gantt_items", op: "insert", id: row.id, after: row })
+      ),
+      ...scopeLinks.map((row): GanttChangeRow => ({ table: "gantt_item_scope_items", op: "insert", id: row.id, after: row })),
+      ...dependencies.map((row): GanttChangeRow => ({ table: "gantt_dependencies", op: "insert", id: row.id, after: row })),
+    ],
+  });
+  if (error) return { success: false, error };
+
+  // Remembering the durations is a convenience; the schedule stands without it
+  const warnings: string[] = [];
+  const { error: durationsError } = await supabase
+    .from("projects")
+    .update({ gantt_default_durations: normalizePhaseDurations(options.durations) })
+    .eq("id", projectId);
+  if (durationsError) {
+    console.error("Error saving default phase durations:", durationsError);
+    warnings.push("The phase durations used could not be saved as this project's defaults.");
+  }
+
+  return {
+    success: true,
+    data: { created: rows.length, links: dependencies.length, skipped: schedule.skipped.length, warnings },
+    changeId,
+  };
+}
+
+// ============================================================================
+// Scenario apply
+// ============================================================================
+
+/**
+ * Changes from a what-if scenario. Each row carries the live value the
+ * scenario was cloned from so the apply can detect edits made in between.
+ */
+export interface TimelineScenarioChanges {
+  items: { id: string; start_date: string; end_date: string; expected_start: string; expected_end: string }[];
+  dependencies: {
+    id: string;
+    dependency_type: DependencyType;
+    lag_days: number;
+    expected_type: DependencyType;
+    expected_lag: number;
+  }[];
+}
+
+/** Write a scenario's task dates and dependency changes in one transaction */
+export async function applyTimelineScenario(
+  projectId: string,
+  changes: TimelineScenarioChanges
+): Promise<ActionResult<{ updatedCount: number }>> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const { data: userData } = await supabase.from("users").select("role").eq("id", user.id).single();
+  if (!userData || !["admin", "pm"].includes(userData.role)) {
+    return { success: false, error: "Only PM and Admin can apply scenarios" };
+  }
+
+  if (changes.items.length === 0 && changes.dependencies.length === 0) {
+    return { success: false, error: "The scenario has no changes to apply" };
+  }
+
+  const { data, error } = await supabase.rpc("apply_gantt_scenario", {
+    p_project_id: projectId,
+    p_items: changes.items,
+    p_dependencies: changes.dependencies,
+  });
+
+  if (error) {
+    if (error.message.includes("scenario_conflict")) {
+      return {
+        success: false,
+        error: "The live schedule changed since this scenario was started — discard it and start again",
+      };
+    }
+    console.error("Error applying timeline scenario:", error);
+    return { success: false, error: error.message };
+  }
+
+  const changeId = await recordTimelineChange(supabase, {
+    projectId,
+    userId: user.id,
+    action: "apply_scenario",
+    description: `Applied what-if scenario (${changes.items.length + changes.dependencies.length} changes)`,
+    changes: [
+      ...changes.items.map((i): GanttChangeRow => ({
+        table: "gantt_items",
+        op: "update",
+        id: i.id,
+        before: { start_date: i.expected_start, end_date: i.expected_end },
+        after: { start_date: i.start_date, end_date: i.end_date },
+      })),
+      ...changes.dependencies.map((d): GanttChangeRow => ({
+        table: "gantt_dependencies",
+        op: "update",
+        id: d.id,
+        before: { dependency_type: d.expected_type, lag_days: d.expected_lag },
+        after: { dependency_type: d.dependency_type, lag_days: d.lag_days },
+      })),
+    ],
+  });
+
+  // The scenario already propagated its own edits; this settles anything it didn't model
+  await propagateDependencyDates(projectId, { changeId });
+
+  return { success: true, data: { updatedCount: data ?? 0 }, changeId };
+}
+
+// ============================================================================
+// Change History (undo / redo)
+//
+// Entries are written by the tracked actions above (see recordTimelineChange);
+// lib/gantt-history.ts has the undo/redo ordering rules.
+// ============================================================================
+
+export async function getTimelineHistory(projectId: string): Promise<TimelineHistoryEntry[]> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  const { data, error } = await supabase
+    .from("gantt_change_log")
+    .select("id, action, description, changes, user_id, undone_at, undone_by, created_at")
+    .eq("project_id", projectId)
+    .order("created_at", { ascending: false })
+    .limit(HISTORY_LIMIT);
+
+  if (error || !data) {
+    console.error("Error fetching timeline history:", error);
+    return [];
+  }
+
+  const userIds = [
+    ...new Set(data.flatMap((e) => [e.user_id, e.undone_by]).filter((id): id is string => !!id)),
+  ];
+  const { data: users } = userIds.length
+    ? await supabase.from("users").select("id, name").in("id", userIds)
+    : { data: [] as { id: string; name: string }[] };
+  const names = new Map((users || []).map((u) => [u.id, u.name]));
+
+  return data.map((e) => ({
+    id: e.id,
+    action: e.action as TimelineHistoryEntry["action"],
+    description: e.description,
+    rowCount: Array.isArray(e.changes) ? e.changes.length : 0,
+    user: e.user_id ? { id: e.user_id, name: names.get(e.user_id) || "Unknown" } : null,
+    createdAt: e.created_at,
+    undoneAt: e.undone_at,
+    undoneBy: e.undone_by ? names.get(e.undone_by) || "Unknown" : null,
+  }));
+}
+
+async function revertTimelineChange(
+  projectId: string,
+  redo: boolean
+): Promise<ActionResult<{ description: string }>> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const { data: userData } = await supabase.from("users").select("role").eq("id", user.id).single();
+  if (!userData || !["admin", "pm"].includes(userData.role)) {
+    return { success: false, error: "Only PM and Admin can undo timeline changes" };
+  }
+
+  const { data: entries } = await supabase
+    .from("gantt_change_log")
+    .select("id, description, undone_at")
+    .eq("project_id", projectId)
+    .order("created_at", { ascending: false })
+    .limit(HISTORY_LIMIT);
+
+  const history = (entries || []).map((e) => ({ ...e, undoneAt: e.undone_at }));
+  const { undoId, redoId } = findUndoRedoTargets(history);
+  const target = history.find((e) => e.id === (redo ? redoId : undoId));
+  if (!target) return { success: false, error: redo ? "Nothing to redo" : "Nothing to undo" };
+
+  const { error } = await supabase.rpc("revert_gantt_change", { p_change_id: target.id, p_redo: redo });
+  if (error) {
+    if (error.message.includes("change_conflict")) {
+      return {
+        success: false,
+        error: `Can't ${redo ? "redo" : "undo"} "${target.description}" — the items it touched have been changed since`,
+      };
+    }
+    if (error.message.includes("change_state")) {
+      return { success: false, error: "Someone else just changed the history — try again" };
+    }
+    console.error("Error reverting timeline change:", error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true, data: { description: target.description } };
+}
+
+/** Revert the newest live history entry, cascaded date moves included */
+export async function undoTimelineChange(projectId: string): Promise<ActionResult<{ description: string }>> {
+  return revertTimelineChange(projectId, false);
+}
+
+/** Re-apply the entry undone most recently, if no edit has come after it */
+export async function redoTimelineChange(projectId: string): Promise<ActionResult<{ description: string }>> {
+  return revertTimelineChange(projectId, true);
+}
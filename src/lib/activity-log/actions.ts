@@ -24,6 +24,7 @@ const CLIENT_VISIBLE_ACTIONS = [
   ACTIVITY_ACTIONS.DRAWING_SENT_TO_CLIENT,
   ACTIVITY_ACTIONS.DRAWING_APPROVED,
   ACTIVITY_ACTIONS.DRAWING_REJECTED,
+  ACTIVITY_ACTIONS.DRAWING_TRANSMITTAL_ACKNOWLEDGED,
   ACTIVITY_ACTIONS.MATERIAL_SENT_TO_CLIENT,
   ACTIVITY_ACTIONS.MATERIAL_APPROVED,
   ACTIVITY_ACTIONS.MATERIAL_REJECTED,
@@ -27,6 +27,10 @@ export const ACTIVITY_ACTIONS = {
   DRAWING_PM_OVERRIDE: "drawing_pm_override",
   DRAWING_MARKED_NOT_REQUIRED: "drawing_marked_not_required",
   DRAWING_DELETED: "drawing_deleted",
+  DRAWING_TRANSMITTAL_ACKNOWLEDGED: "drawing_transmittal_acknowledged",
+  DRAWING_INTERNAL_APPROVED: "drawing_internal_approved",
+  DRAWING_INTERNAL_REJECTED: "drawing_internal_rejected",
+  DRAWING_APPROVAL_CHAIN_UPDATED: "drawing_approval_chain_updated",
 
   // Material actions
   MATERIAL_CREATED: "material_created",
@@ -53,11 +57,42 @@ export const ACTIVITY_ACTIONS = {
   MILESTONE_COMPLETED: "milestone_completed",
   MILESTONE_DELETED: "milestone_deleted",
 
+  // Snagging actions
+  SNAGGING_CREATED: "snagging_created",
+  SNAGGING_UPDATED: "snagging_updated",
+  SNAGGING_ASSIGNED: "snagging_assigned",
+  SNAGGING_RESOLVED: "snagging_resolved",
+  SNAGGING_REOPENED: "snagging_reopened",
+  SNAGGING_DELETED: "snagging_deleted",
+
   // Area actions
   AREA_CREATED: "area_created",
   AREA_UPDATED: "area_updated",
   AREA_DELETED: "area_deleted",
 
+  // CRM actions
+  CRM_BRAND_CREATED: "crm_brand_created",
+  CRM_BRAND_UPDATED: "crm_brand_updated",
+  CRM_BRAND_DELETED: "crm_brand_deleted",
+  CRM_FIRM_CREATED: "crm_firm_created",
+  CRM_FIRM_UPDATED: "crm_firm_updated",
+  CRM_FIRM_DELETED: "crm_firm_deleted",
+  CRM_CONTACT_CREATED: "crm_contact_created",
+  CRM_CONTACT_UPDATED: "crm_contact_updated",
+  CRM_CONTACT_DELETED: "crm_contact_deleted",
+  CRM_OPPORTUNITY_CREATED: "crm_opportunity_created",
+  CRM_OPPORTUNITY_UPDATED: "crm_opportunity_updated",
+  CRM_OPPORTUNITY_STAGE_CHANGED: "crm_opportunity_stage_changed",
+  CRM_OPPORTUNITY_DELETED: "crm_opportunity_deleted",
+  CRM_OPPORTUNITY_CONVERTED: "crm_opportunity_converted",
+  CRM_ACTIVITY_CREATED: "crm_activity_created",
+  CRM_ACTIVITY_UPDATED: "crm_activity_updated",
+  CRM_ACTIVITY_DELETED: "crm_activity_deleted",
+  CRM_FOLLOW_UP_COMPLETED: "crm_follow_up_completed",
+  CRM_BRAND_FIRM_LINKED: "crm_brand_firm_linked",
+  CRM_BRAND_FIRM_LINK_UPDATED: "crm_brand_firm_link_updated",
+  CRM_BRAND_FIRM_UNLINKED: "crm_brand_firm_unlinked",
+
   // Bulk actions
   ITEMS_IMPORTED: "items_imported",
   DRAWINGS_BULK_SENT_TO_CLIENT: "drawings_bulk_sent_to_client",
@@ -0,0 +1,91 @@
+/**
+ * Client Approval Reminder Utilities
+ *
+ * Shared (client + server) rules for chasing drawings and materials that are
+ * waiting on the client:
+ * - Per-project cadence (nudge after N days, escalate after M days)
+ * - Ageing in whole days since the item went to the client
+ * - Which reminder stage an item is due for, used by the approval-reminders cron
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Days after sending before the client is nudged and before the nudge is
+ * escalated. A null step is switched off for the project.
+ */
+export interface ApprovalReminderCadence {
+  reminderDays: number | null;
+  escalationDays: number | null;
+}
+
+/**
+ * Stored on drawings/materials as approval_reminder_stage.
+ * 0 = nothing sent yet, 1 = client nudged, 2 = escalated.
+ */
+export type ApprovalReminderStage = 0 | 1 | 2;
+
+export type ApprovalAgeingTone = "ok" | "due" | "overdue";
+
+export const DEFAULT_APPROVAL_CADENCE: ApprovalReminderCadence = {
+  reminderDays: 3,
+  escalationDays: 7,
+};
+
+/** Longest cadence step the settings accept */
+export const MAX_APPROVAL_CADENCE_DAYS = 90;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/** Whole days an item has been waiting on the client, or null if never sent */
+export function approvalAgeDays(sentAt: string | null | undefined, now: Date = new Date()): number | null {
+  if (!sentAt) return null;
+  const diff = now.getTime() - new Date(sentAt).getTime();
+  return Math.max(0, Math.floor(diff / MS_PER_DAY));
+}
+
+/**
+ * The highest reminder stage an item of this age has reached.
+ * An item that is already past the escalation point skips the nudge.
+ */
+export function dueReminderStage(
+  ageDays: number,
+  cadence: ApprovalReminderCadence
+): ApprovalReminderStage {
+  if (cadence.escalationDays !== null && ageDays >= cadence.escalationDays) return 2;
+  if (cadence.reminderDays !== null && ageDays >= cadence.reminderDays) return 1;
+  return 0;
+}
+
+/** Colour band for the ageing column: before nudge, nudged, past escalation */
+export function approvalAgeingTone(
+  ageDays: number,
+  cadence: ApprovalReminderCadence
+): ApprovalAgeingTone {
+  const stage = dueReminderStage(ageDays, cadence);
+  return stage === 2 ? "overdue" : stage === 1 ? "due" : "ok";
+}
+
+/** Validation message for a cadence, or null when it can be saved */
+export function validateApprovalCadence(cadence: ApprovalReminderCadence): string | null {
+  for (const days of [cadence.reminderDays, cadence.escalationDays]) {
+    if (days === null) continue;
+    if (!Number.isInteger(days) || days < 1 || days > MAX_APPROVAL_CADENCE_DAYS) {
+      return `Days must be whole numbers between 1 and ${MAX_APPROVAL_CADENCE_DAYS}`;
+    }
+  }
+  if (
+    cadence.reminderDays !== null &&
+    cadence.escalationDays !== null &&
+    cadence.escalationDays <= cadence.reminderDays
+  ) {
+    return "Escalation must come after the first reminder";
+  }
+  return null;
+}
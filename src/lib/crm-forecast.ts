@@ -0,0 +1,188 @@
+/**
+ * CRM Sales Forecast
+ *
+ * Shared (client + server) aggregation of CRM opportunities into a weighted
+ * pipeline forecast and win/loss analytics. Used by the /crm/forecast page
+ * and its Excel export.
+ *
+ * - Weighted value = estimated_value × probability / 100 (open opportunities only)
+ * - Win rate       = won / (won + lost)
+ * - Values are never converted between currencies; every figure is for one currency.
+ */
+
+import { BRAND_TIERS, OPPORTUNITY_STAGES } from "@/types/crm";
+import type { CrmBrandTier, CrmOpportunityStage } from "@/types/crm";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ForecastOpportunity {
+  id: string;
+  opportunity_code: string;
+  title: string;
+  stage: CrmOpportunityStage;
+  estimated_value: number | null;
+  currency: string | null;
+  probability: number | null;
+  expected_close_date: string | null;
+  loss_reason: string | null;
+  brand: { name: string; tier: CrmBrandTier } | null;
+  architecture_firm: { name: string } | null;
+}
+
+export interface ForecastBucket {
+  key: string;
+  label: string;
+  count: number;
+  value: number;
+  weighted: number;
+}
+
+export interface LossReasonBucket {
+  reason: string;
+  count: number;
+  value: number;
+}
+
+export interface CrmForecast {
+  currency: string;
+  totals: {
+    openCount: number;
+    pipelineValue: number;
+    weightedValue: number;
+    wonCount: number;
+    wonValue: number;
+    lostCount: number;
+    lostValue: number;
+    /** won / (won + lost), 0–100; null until something has closed */
+    winRate: number | null;
+    /** Open opportunities without an expected close date */
+    undatedCount: number;
+  };
+  byStage: ForecastBucket[];
+  byTier: ForecastBucket[];
+  byMonth: ForecastBucket[];
+  lossReasons: LossReasonBucket[];
+  /** Opportunities in other currencies, left out of every figure */
+  excludedCount: number;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const CLOSED_STAGES: CrmOpportunityStage[] = ["won", "lost"];
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+export const NO_TIER_KEY = "none";
+export const UNSPECIFIED_LOSS_REASON = "Not specified";
+
+export function weightedValue(opportunity: Pick<ForecastOpportunity, "estimated_value" | "probability">): number {
+  const value = opportunity.estimated_value || 0;
+  const probability = Math.min(Math.max(opportunity.probability || 0, 0), 100);
+  return (value * probability) / 100;
+}
+
+function monthLabel(key: string): string {
+  const [year, month] = key.split("-");
+  return `${MONTHS[parseInt(month) - 1]} ${year.slice(2)}`;
+}
+
+function addTo(bucket: ForecastBucket, opportunity: ForecastOpportunity) {
+  bucket.count += 1;
+  bucket.value += opportunity.estimated_value || 0;
+  bucket.weighted += weightedValue(opportunity);
+}
+
+function emptyBucket(key: string, label: string): ForecastBucket {
+  return { key, label, count: 0, value: 0, weighted: 0 };
+}
+
+// ============================================================================
+// Aggregation
+// ============================================================================
+
+/**
+ * Aggregate opportunities in `currency` into the forecast.
+ * Open opportunities whose close month has passed are reported under the
+ * current month — they are still expected, just late.
+ */
+export function buildCrmForecast(
+  opportunities: ForecastOpportunity[],
+  currency: string,
+  today: Date = new Date()
+): CrmForecast {
+  const inCurrency = opportunities.filter((o) => (o.currency || "USD") === currency);
+  const open = inCurrency.filter((o) => !CLOSED_STAGES.includes(o.stage));
+  const won = inCurrency.filter((o) => o.stage === "won");
+  const lost = inCurrency.filter((o) => o.stage === "lost");
+  const sum = (list: ForecastOpportunity[]) => list.reduce((s, o) => s + (o.estimated_value || 0), 0);
+
+  // Stage — open stages in pipeline order
+  const byStage = OPPORTUNITY_STAGES.filter((s) => !CLOSED_STAGES.includes(s.value)).map((s) => {
+    const bucket = emptyBucket(s.value, s.label);
+    open.filter((o) => o.stage === s.value).forEach((o) => addTo(bucket, o));
+    return bucket;
+  });
+
+  // Brand tier — plus a bucket for firm-only opportunities
+  const byTier = [
+    ...BRAND_TIERS.map((t) => emptyBucket(t.value, t.label)),
+    emptyBucket(NO_TIER_KEY, "No brand"),
+  ];
+  for (const o of open) {
+    const bucket = byTier.find((b) => b.key === (o.brand?.tier ?? NO_TIER_KEY))!;
+    addTo(bucket, o);
+  }
+
+  // Expected close month
+  const currentMonth = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, "0")}`;
+  const months = new Map<string, ForecastBucket>();
+  let undatedCount = 0;
+  for (const o of open) {
+    if (!o.expected_close_date) {
+      undatedCount += 1;
+      continue;
+    }
+    const closeMonth = o.expected_close_date.slice(0, 7);
+    const key = closeMonth < currentMonth ? currentMonth : closeMonth;
+    if (!months.has(key)) months.set(key, emptyBucket(key, monthLabel(key)));
+    addTo(months.get(key)!, o);
+  }
+  const byMonth = [...months.values()].sort((a, b) => a.key.localeCompare(b.key));
+
+  // Loss reasons — free text, grouped case-insensitively
+  const reasons = new Map<string, LossReasonBucket>();
+  for (const o of lost) {
+    const reason = o.loss_reason?.trim() || UNSPECIFIED_LOSS_REASON;
+    const key = reason.toLowerCase();
+    const bucket = reasons.get(key) || { reason, count: 0, value: 0 };
+    bucket.count += 1;
+    bucket.value += o.estimated_value || 0;
+    reasons.set(key, bucket);
+  }
+  const lossReasons = [...reasons.values()].sort((a, b) => b.count - a.count || b.value - a.value);
+
+  const closedCount = won.length + lost.length;
+
+  return {
+    currency,
+    totals: {
+      openCount: open.length,
+      pipelineValue: sum(open),
+      weightedValue: open.reduce((s, o) => s + weightedValue(o), 0),
+      wonCount: won.length,
+      wonValue: sum(won),
+      lostCount: lost.length,
+      lostValue: sum(lost),
+      winRate: closedCount > 0 ? Math.round((won.length / closedCount) * 100) : null,
+      undatedCount,
+    },
+    byStage,
+    byTier,
+    byMonth,
+    lossReasons,
+    excludedCount: opportunities.length - inCurrency.length,
+  };
+}
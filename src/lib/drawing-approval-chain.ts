@@ -0,0 +1,139 @@
+/**
+ * Drawing Approval Chain Utilities
+ *
+ * Shared (client + server) rules for a drawing's path to the client:
+ * - Which drawing_status transitions the server actions allow
+ * - The project's internal approval chain (e.g. production check, then PM)
+ * - Where a revision is in that chain, worked out from its review log
+ */
+
+import type { DrawingStatus, UserRole } from "@/types/database";
+
+// ============================================================================
+// Status Transitions
+// ============================================================================
+
+/**
+ * Allowed drawing_status moves. Every uploaded status can go back to
+ * uploaded, which is what a new revision does.
+ */
+export const DRAWING_STATUS_TRANSITIONS: Record<DrawingStatus, readonly DrawingStatus[]> = {
+  not_uploaded: ["uploaded", "not_required"],
+  uploaded: ["uploaded", "sent_to_client"],
+  // Re-sending a revision that is already with the client is a chase, not a move
+  sent_to_client: ["sent_to_client", "approved", "approved_with_comments", "rejected", "uploaded"],
+  // Rejected drawings can still be approved through a PM override
+  rejected: ["uploaded", "approved"],
+  approved: ["uploaded"],
+  approved_with_comments: ["uploaded"],
+  not_required: ["uploaded"],
+};
+
+export function canTransitionDrawing(from: DrawingStatus, to: DrawingStatus): boolean {
+  return DRAWING_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+// ============================================================================
+// Approval Chain
+// ============================================================================
+
+/** Roles a chain step can be assigned to — clients are always the final step */
+export const CHAIN_APPROVER_ROLES = ["production", "pm", "procurement", "management", "admin"] as const;
+export type ChainApproverRole = (typeof CHAIN_APPROVER_ROLES)[number];
+
+export const CHAIN_APPROVER_ROLE_LABELS: Record<ChainApproverRole, string> = {
+  production: "Production",
+  pm: "Project Manager",
+  procurement: "Procurement",
+  management: "Management",
+  admin: "Admin",
+};
+
+export const MAX_APPROVAL_CHAIN_STEPS = 10;
+
+export interface ApprovalChainStep {
+  /** 1-based position in the chain */
+  stepOrder: number;
+  name: string;
+  approverRole: ChainApproverRole;
+}
+
+export interface InternalReview {
+  revision: string;
+  stepOrder: number;
+  stepName: string;
+  decision: "approved" | "rejected";
+  comments: string | null;
+  reviewedByName: string | null;
+  reviewedAt: string;
+}
+
+/**
+ * not_required — the project has no chain
+ * pending      — waiting on currentStep
+ * rejected     — a step rejected this revision; a new revision restarts the chain
+ * complete     — every step approved, the revision can go to the client
+ */
+export type InternalReviewStatus = "not_required" | "pending" | "rejected" | "complete";
+
+export interface InternalReviewState {
+  status: InternalReviewStatus;
+  currentStep: ApprovalChainStep | null;
+  rejection: InternalReview | null;
+}
+
+export function isChainApproverRole(role: string): role is ChainApproverRole {
+  return (CHAIN_APPROVER_ROLES as readonly string[]).includes(role);
+}
+
+/**
+ * Where a revision stands in the chain. `reviews` must all be for that
+ * revision. Approvals are matched to steps by position, so a step appended
+ * to the chain after a revision was checked still has to sign it off.
+ */
+export function resolveInternalReview(
+  steps: ApprovalChainStep[],
+  reviews: InternalReview[]
+): InternalReviewState {
+  if (steps.length === 0) {
+    return { status: "not_required", currentStep: null, rejection: null };
+  }
+
+  const rejection = reviews
+    .filter((r) => r.decision === "rejected")
+    .sort((a, b) => b.reviewedAt.localeCompare(a.reviewedAt))[0];
+  if (rejection) {
+    return { status: "rejected", currentStep: null, rejection };
+  }
+
+  const approved = new Set(reviews.filter((r) => r.decision === "approved").map((r) => r.stepOrder));
+  const currentStep = [...steps]
+    .sort((a, b) => a.stepOrder - b.stepOrder)
+    .find((s) => !approved.has(s.stepOrder));
+
+  return currentStep
+    ? { status: "pending", currentStep, rejection: null }
+    : { status: "complete", currentStep: null, rejection: null };
+}
+
+/** Whether a revision in this state may be sent to the client for approval */
+export function isReadyForClient(state: InternalReviewState): boolean {
+  return state.status === "not_required" || state.status === "complete";
+}
+
+/** Admins can act on any step; everyone else only on steps for their role */
+export function canReviewStep(step: ApprovalChainStep, userRole: UserRole | string): boolean {
+  return userRole === "admin" || step.approverRole === userRole;
+}
+
+/** Validation message for a chain, or null when it can be saved */
+export function validateApprovalChain(steps: Pick<ApprovalChainStep, "name" | "approverRole">[]): string | null {
+  if (steps.length > MAX_APPROVAL_CHAIN_STEPS) {
+    return `A chain can have at most ${MAX_APPROVAL_CHAIN_STEPS} steps`;
+  }
+  for (const step of steps) {
+    if (!step.name.trim()) return "Every step needs a name";
+    if (!isChainApproverRole(step.approverRole)) return "Invalid approver role";
+  }
+  return null;
+}
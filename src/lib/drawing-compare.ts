@@ -0,0 +1,159 @@
+/**
+ * Drawing revision comparison
+ *
+ * Both revisions are rendered to canvases of the same pixel size and compared
+ * on "ink" (darkness composited on white), so colour-only changes from a new
+ * PDF export don't light up the whole sheet:
+ *
+ *   removed  ink in the older revision only  → red
+ *   added    ink in the newer revision only  → blue
+ *   common   ink in both                     → faint grey
+ *
+ * Changed pixels are bucketed into a coarse grid and neighbouring cells are
+ * merged into boxes, so the overlay can ring each changed region.
+ */
+
+export interface CompareRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DrawingDiff {
+  /** RGBA pixels of the overlay image */
+  pixels: Uint8ClampedArray;
+  /** 1 where the revisions differ */
+  mask: Uint8Array;
+  changedPixels: number;
+}
+
+/** Grid cell (px) used to group changed pixels into regions */
+export const DIFF_CELL_SIZE = 16;
+
+/** Ink difference (0–255) below which anti-aliasing noise is ignored */
+const INK_THRESHOLD = 64;
+
+const REMOVED_RGB = [220, 38, 38]; // red-600
+const ADDED_RGB = [37, 99, 235]; // blue-600
+
+/** Darkness of one RGBA pixel laid over white, 0 (paper) – 255 (black) */
+function ink(data: Uint8ClampedArray, i: number): number {
+  const luminance = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  return ((255 - luminance) * data[i + 3]) / 255;
+}
+
+/**
+ * Overlay image and change mask for two same-sized renders. `before` is the
+ * older revision.
+ */
+export function diffDrawings(
+  before: Uint8ClampedArray,
+  after: Uint8ClampedArray,
+  width: number,
+  height: number
+): DrawingDiff {
+  const count = width * height;
+  const pixels = new Uint8ClampedArray(count * 4);
+  const mask = new Uint8Array(count);
+  let changedPixels = 0;
+
+  for (let p = 0; p < count; p++) {
+    const i = p * 4;
+    const a = ink(before, i);
+    const b = ink(after, i);
+    let rgb: number[];
+
+    if (a - b > INK_THRESHOLD) {
+      rgb = REMOVED_RGB;
+      mask[p] = 1;
+      changedPixels++;
+    } else if (b - a > INK_THRESHOLD) {
+      rgb = ADDED_RGB;
+      mask[p] = 1;
+      changedPixels++;
+    } else {
+      // Unchanged: keep the drawing readable but quiet
+      const shade = 255 - Math.max(a, b) * 0.35;
+      rgb = [shade, shade, shade];
+    }
+
+    pixels[i] = rgb[0];
+    pixels[i + 1] = rgb[1];
+    pixels[i + 2] = rgb[2];
+    pixels[i + 3] = 255;
+  }
+
+  return { pixels, mask, changedPixels };
+}
+
+/**
+ * Boxes around the changed areas of `mask`. Cells with fewer than
+ * `minPixels` changed pixels are treated as noise; touching cells (including
+ * diagonals) merge into one region.
+ */
+export function changedRegions(
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  cellSize = DIFF_CELL_SIZE,
+  minPixels = 4
+): CompareRegion[] {
+  const columns = Math.ceil(width / cellSize);
+  const rows = Math.ceil(height / cellSize);
+  const counts = new Uint32Array(columns * rows);
+
+  for (let y = 0; y < height; y++) {
+    const row = Math.floor(y / cellSize) * columns;
+    for (let x = 0; x < width; x++) {
+      if (mask[y * width + x]) counts[row + Math.floor(x / cellSize)]++;
+    }
+  }
+
+  const seen = new Uint8Array(columns * rows);
+  const regions: CompareRegion[] = [];
+
+  for (let start = 0; start < counts.length; start++) {
+    if (seen[start] || counts[start] < minPixels) continue;
+    let minCol = columns;
+    let maxCol = -1;
+    let minRow = rows;
+    let maxRow = -1;
+    const stack = [start];
+    seen[start] = 1;
+
+    while (stack.length > 0) {
+      const cell = stack.pop()!;
+      const col = cell % columns;
+      const row = Math.floor(cell / columns);
+      minCol = Math.min(minCol, col);
+      maxCol = Math.max(maxCol, col);
+      minRow = Math.min(minRow, row);
+      maxRow = Math.max(maxRow, row);
+
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const c = col + dx;
+          const r = row + dy;
+          if (c < 0 || r < 0 || c >= columns || r >= rows) continue;
+          const next = r * columns + c;
+          if (!seen[next] && counts[next] >= minPixels) {
+            seen[next] = 1;
+            stack.push(next);
+          }
+        }
+      }
+    }
+
+    const x = minCol * cellSize;
+    const y = minRow * cellSize;
+    regions.push({
+      x,
+      y,
+      width: Math.min(width, (maxCol + 1) * cellSize) - x,
+      height: Math.min(height, (maxRow + 1) * cellSize) - y,
+    });
+  }
+
+  return regions;
+}
@@ -0,0 +1,362 @@
+/**
+ * Drawing Markup — structured annotations on a drawing revision
+ *
+ * Clients and PMs mark up a revision in the browser (drawing-markup-viewer):
+ * clouds, arrows, text callouts, dimensions and stamps. Each person's markups
+ * are stored per drawing_revisions row (drawing_revision_markups, migration
+ * 082) and flattened into a PDF for client_markup_url when the client responds.
+ *
+ * Coordinates are fractions of the page (0–1, origin top-left) so markups
+ * line up at any zoom — and on the next revision of the same sheet, where the
+ * PM sees them as an overlay.
+ */
+
+export type MarkupTool = "cloud" | "arrow" | "text" | "dimension" | "stamp";
+
+export type MarkupStamp = "approved" | "approved_with_comments" | "rejected" | "reviewed";
+
+export interface MarkupPoint {
+  x: number;
+  y: number;
+}
+
+interface MarkupBase {
+  id: string;
+  /** 1-based page number */
+  page: number;
+  color: string;
+}
+
+export type DrawingMarkup =
+  | (MarkupBase & { type: "cloud"; from: MarkupPoint; to: MarkupPoint })
+  | (MarkupBase & { type: "arrow"; from: MarkupPoint; to: MarkupPoint })
+  /** Callout: leader from the point being discussed to the text */
+  | (MarkupBase & { type: "text"; from: MarkupPoint; to: MarkupPoint; text: string })
+  | (MarkupBase & { type: "dimension"; from: MarkupPoint; to: MarkupPoint; text: string })
+  | (MarkupBase & { type: "stamp"; at: MarkupPoint; stamp: MarkupStamp; date: string });
+
+export const MARKUP_TOOL_LABELS: Record<MarkupTool, string> = {
+  cloud: "Cloud",
+  arrow: "Arrow",
+  text: "Text callout",
+  dimension: "Dimension",
+  stamp: "Stamp",
+};
+
+export const MARKUP_STAMP_LABELS: Record<MarkupStamp, string> = {
+  approved: "APPROVED",
+  approved_with_comments: "APPROVED AS NOTED",
+  rejected: "REJECTED",
+  reviewed: "REVIEWED",
+};
+
+export const MARKUP_STAMP_COLORS: Record<MarkupStamp, string> = {
+  approved: "#16a34a", // green-600
+  approved_with_comments: "#d97706", // amber-600
+  rejected: "#dc2626", // red-600
+  reviewed: "#2563eb", // blue-600
+};
+
+/** Pen colours offered in the viewer; red first, as on paper */
+export const MARKUP_COLORS = ["#dc2626", "#2563eb", "#16a34a", "#9333ea", "#111827"];
+
+/** Markups from an earlier revision are drawn faded so they read as context */
+export const OVERLAY_OPACITY = 0.45;
+
+// ============================================================================
+// Geometry — in page pixels for a given rendered size
+// ============================================================================
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export function toPixels(point: MarkupPoint, width: number, height: number): MarkupPoint {
+  return { x: point.x * width, y: point.y * height };
+}
+
+export function toFraction(point: MarkupPoint, width: number, height: number): MarkupPoint {
+  return {
+    x: Math.min(1, Math.max(0, point.x / width)),
+    y: Math.min(1, Math.max(0, point.y / height)),
+  };
+}
+
+function normalizeRect(a: MarkupPoint, b: MarkupPoint): Rect {
+  return {
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(b.x - a.x),
+    height: Math.abs(b.y - a.y),
+  };
+}
+
+/**
+ * Centres of the scallops around a revision cloud, clockwise from the top-left
+ * corner. Each side gets a whole number of arcs so the corners meet cleanly.
+ */
+export function cloudScallops(rect: Rect, radius: number): MarkupPoint[] {
+  const centers: MarkupPoint[] = [];
+  const side = (from: MarkupPoint, to: MarkupPoint) => {
+    const length = Math.hypot(to.x - from.x, to.y - from.y);
+    const count = Math.max(1, Math.round(length / (radius * 2)));
+    for (let i = 0; i < count; i++) {
+      const t = (i + 0.5) / count;
+      centers.push({ x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t });
+    }
+  };
+  const tl = { x: rect.x, y: rect.y };
+  const tr = { x: rect.x + rect.width, y: rect.y };
+  const br = { x: rect.x + rect.width, y: rect.y + rect.height };
+  const bl = { x: rect.x, y: rect.y + rect.height };
+  side(tl, tr);
+  side(tr, br);
+  side(br, bl);
+  side(bl, tl);
+  return centers;
+}
+
+/** The two back corners of an arrowhead whose tip is at `to` */
+export function arrowHead(from: MarkupPoint, to: MarkupPoint, size: number): [MarkupPoint, MarkupPoint] {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  const spread = Math.PI / 7;
+  return [
+    { x: to.x - size * Math.cos(angle - spread), y: to.y - size * Math.sin(angle - spread) },
+    { x: to.x - size * Math.cos(angle + spread), y: to.y - size * Math.sin(angle + spread) },
+  ];
+}
+
+function distanceToSegment(p: MarkupPoint, a: MarkupPoint, b: MarkupPoint): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+/** Stroke widths and text sizes scale with the rendered page so paper and screen match */
+function unit(width: number): number {
+  return Math.max(1, width / 600);
+}
+
+/**
+ * The top-most markup under a pixel position on `page`, or null. Lines are
+ * hit near the stroke, clouds and stamps anywhere inside their box.
+ */
+export function hitTestMarkup(
+  markups: DrawingMarkup[],
+  page: number,
+  point: MarkupPoint,
+  width: number,
+  height: number
+): DrawingMarkup | null {
+  const tolerance = 6 * unit(width);
+  for (let i = markups.length - 1; i >= 0; i--) {
+    const markup = markups[i];
+    if (markup.page !== page) continue;
+    if (markup.type === "stamp") {
+      const box = stampBox(markup, width, height);
+      if (
+        point.x >= box.x - tolerance &&
+        point.x <= box.x + box.width + tolerance &&
+        point.y >= box.y - tolerance &&
+        point.y <= box.y + box.height + tolerance
+      ) {
+        return markup;
+      }
+      continue;
+    }
+    const from = toPixels(markup.from, width, height);
+    const to = toPixels(markup.to, width, height);
+    if (markup.type === "cloud") {
+      const rect = normalizeRect(from, to);
+      if (
+        point.x >= rect.x - tolerance &&
+        point.x <= rect.x + rect.width + tolerance &&
+        point.y >= rect.y - tolerance &&
+        point.y <= rect.y + rect.height + tolerance
+      ) {
+        return markup;
+      }
+    } else if (distanceToSegment(point, from, to) <= tolerance) {
+      return markup;
+    } else if (markup.type === "text" && Math.hypot(point.x - to.x, point.y - to.y) <= tolerance * 4) {
+      return markup;
+    }
+  }
+  return null;
+}
+
+function stampBox(markup: Extract<DrawingMarkup, { type: "stamp" }>, width: number, height: number): Rect {
+  const u = unit(width);
+  const center = toPixels(markup.at, width, height);
+  const boxWidth = Math.max(140, MARKUP_STAMP_LABELS[markup.stamp].length * 11) * u;
+  const boxHeight = 46 * u;
+  return { x: center.x - boxWidth / 2, y: center.y - boxHeight / 2, width: boxWidth, height: boxHeight };
+}
+
+// ============================================================================
+// Painting — one routine for the on-screen overlay and the flattened PDF
+// ============================================================================
+
+/**
+ * Draw the markups for `page` onto a canvas already holding the rendered
+ * page at `width` × `height` pixels.
+ */
+export function paintMarkups(
+  ctx: CanvasRenderingContext2D,
+  markups: DrawingMarkup[],
+  page: number,
+  width: number,
+  height: number,
+  options: { opacity?: number; selectedId?: string | null } = {}
+): void {
+  const u = unit(width);
+  ctx.save();
+  ctx.globalAlpha = options.opacity ?? 1;
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+
+  for (const markup of markups) {
+    if (markup.page !== page) continue;
+    ctx.strokeStyle = markup.color;
+    ctx.fillStyle = markup.color;
+    ctx.lineWidth = 2 * u;
+
+    switch (markup.type) {
+      case "cloud": {
+        const rect = normalizeRect(toPixels(markup.from, width, height), toPixels(markup.to, width, height));
+        const radius = 9 * u;
+        for (const c of cloudScallops(rect, radius)) {
+          // Outward half of each circle; the insides overlap into a clean edge
+          const angle = Math.atan2(c.y - (rect.y + rect.height / 2), c.x - (rect.x + rect.width / 2));
+          ctx.beginPath();
+          ctx.arc(c.x, c.y, radius, angle - Math.PI / 2 - 0.4, angle + Math.PI / 2 + 0.4);
+          ctx.stroke();
+        }
+        break;
+      }
+      case "arrow": {
+        const from = toPixels(markup.from, width, height);
+        const to = toPixels(markup.to, width, height);
+        drawLine(ctx, from, to);
+        fillArrowHead(ctx, from, to, 14 * u);
+        break;
+      }
+      case "text": {
+        const from = toPixels(markup.from, width, height);
+        const to = toPixels(markup.to, width, height);
+        drawLine(ctx, to, from);
+        fillArrowHead(ctx, to, from, 10 * u);
+        drawTextBox(ctx, markup.text, to, u);
+        break;
+      }
+      case "dimension": {
+        const from = toPixels(markup.from, width, height);
+        const to = toPixels(markup.to, width, height);
+        ctx.lineWidth = 1.5 * u;
+        drawLine(ctx, from, to);
+        fillArrowHead(ctx, to, from, 10 * u);
+        fillArrowHead(ctx, from, to, 10 * u);
+        // Extension ticks at both ends, square to the line
+        const angle = Math.atan2(to.y - from.y, to.x - from.x) + Math.PI / 2;
+        const tick = 8 * u;
+        for (const end of [from, to]) {
+          drawLine(
+            ctx,
+            { x: end.x - tick * Math.cos(angle), y: end.y - tick * Math.sin(angle) },
+            { x: end.x + tick * Math.cos(angle), y: end.y + tick * Math.sin(angle) }
+          );
+        }
+        if (markup.text) {
+          const mid = { x: (from.x + to.x) / 2, y: (from.y + to.y) / 2 };
+          ctx.font = `600 ${13 * u}px sans-serif`;
+          ctx.textAlign = "center";
+          ctx.textBaseline = "bottom";
+          const labelWidth = ctx.measureText(markup.text).width;
+          ctx.save();
+          ctx.globalAlpha *= 0.85;
+          ctx.fillStyle = "#ffffff";
+          ctx.fillRect(mid.x - labelWidth / 2 - 3 * u, mid.y - 18 * u, labelWidth + 6 * u, 16 * u);
+          ctx.restore();
+          ctx.fillText(markup.text, mid.x, mid.y - 3 * u);
+        }
+        break;
+      }
+      case "stamp": {
+        const box = stampBox(markup, width, height);
+        const color = MARKUP_STAMP_COLORS[markup.stamp];
+        ctx.strokeStyle = color;
+        ctx.fillStyle = color;
+        ctx.lineWidth = 3 * u;
+        ctx.strokeRect(box.x, box.y, box.width, box.height);
+        ctx.textAlign = "center";
+        ctx.textBaseline = "middle";
+        ctx.font = `700 ${16 * u}px sans-serif`;
+        ctx.fillText(MARKUP_STAMP_LABELS[markup.stamp], box.x + box.width / 2, box.y + box.height * 0.38);
+        ctx.font = `500 ${10 * u}px sans-serif`;
+        ctx.fillText(markup.date, box.x + box.width / 2, box.y + box.height * 0.75);
+        break;
+      }
+    }
+
+    if (markup.id === options.selectedId) {
+      const bounds = markupBounds(markup, width, height);
+      ctx.save();
+      ctx.globalAlpha = 1;
+      ctx.strokeStyle = "#0ea5e9"; // sky-500
+      ctx.lineWidth = 1;
+      ctx.setLineDash([4, 3]);
+      ctx.strokeRect(bounds.x - 6 * u, bounds.y - 6 * u, bounds.width + 12 * u, bounds.height + 12 * u);
+      ctx.restore();
+    }
+  }
+
+  ctx.restore();
+}
+
+function markupBounds(markup: DrawingMarkup, width: number, height: number): Rect {
+  if (markup.type === "stamp") return stampBox(markup, width, height);
+  return normalizeRect(toPixels(markup.from, width, height), toPixels(markup.to, width, height));
+}
+
+function drawLine(ctx: CanvasRenderingContext2D, from: MarkupPoint, to: MarkupPoint) {
+  ctx.beginPath();
+  ctx.moveTo(from.x, from.y);
+  ctx.lineTo(to.x, to.y);
+  ctx.stroke();
+}
+
+function fillArrowHead(ctx: CanvasRenderingContext2D, from: MarkupPoint, to: MarkupPoint, size: number) {
+  const [left, right] = arrowHead(from, to, size);
+  ctx.beginPath();
+  ctx.moveTo(to.x, to.y);
+  ctx.lineTo(left.x, left.y);
+  ctx.lineTo(right.x, right.y);
+  ctx.closePath();
+  ctx.fill();
+}
+
+function drawTextBox(ctx: CanvasRenderingContext2D, text: string, at: MarkupPoint, u: number) {
+  const size = 13 * u;
+  const padding = 5 * u;
+  const lines = text.split("\n");
+  ctx.font = `500 ${size}px sans-serif`;
+  const boxWidth = Math.max(...lines.map((line) => ctx.measureText(line).width)) + padding * 2;
+  const boxHeight = lines.length * size * 1.25 + padding * 2;
+
+  ctx.save();
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(at.x, at.y - boxHeight / 2, boxWidth, boxHeight);
+  ctx.restore();
+  ctx.lineWidth = 1.5 * u;
+  ctx.strokeRect(at.x, at.y - boxHeight / 2, boxWidth, boxHeight);
+  ctx.textAlign = "left";
+  ctx.textBaseline = "top";
+  lines.forEach((line, i) => {
+    ctx.fillText(line, at.x + padding, at.y - boxHeight / 2 + padding + i * size * 1.25);
+  });
+}
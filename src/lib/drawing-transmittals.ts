@@ -0,0 +1,94 @@
+/**
+ * Drawing Transmittal Utilities
+ *
+ * Shared (client + server) definitions for drawing transmittals:
+ * - Transmittal purposes and their labels
+ * - Drawing status labels as printed on the register
+ * - The project drawing register: one row per drawing with its revision
+ *   and issue history, built from scope items, revisions and transmittals
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const TRANSMITTAL_PURPOSES = ["for_approval", "for_construction", "for_information"] as const;
+export type TransmittalPurpose = (typeof TRANSMITTAL_PURPOSES)[number];
+
+export interface DrawingRegisterSource {
+  itemCode: string;
+  itemName: string;
+  /** Null when no drawing has been started for the item */
+  status: string | null;
+  currentRevision: string | null;
+  revisions: { revision: string; createdAt: string }[];
+  /** Every transmittal that carried this drawing */
+  issues: { code: string; purpose: TransmittalPurpose; sentAt: string; revision: string | null }[];
+}
+
+export interface DrawingRegisterRow {
+  itemCode: string;
+  itemName: string;
+  status: string;
+  currentRevision: string;
+  revisionCount: number;
+  lastUploadedAt: string | null;
+  /** Revisions issued so far, oldest first, e.g. "A, B" */
+  issuedRevisions: string;
+  lastTransmittal: string;
+  lastPurpose: string;
+  lastIssuedAt: string | null;
+}
+
+// ============================================================================
+// Labels
+// ============================================================================
+
+export const TRANSMITTAL_PURPOSE_LABELS: Record<TransmittalPurpose, string> = {
+  for_approval: "For Approval",
+  for_construction: "For Construction",
+  for_information: "For Information",
+};
+
+export const DRAWING_STATUS_LABELS: Record<string, string> = {
+  not_uploaded: "Not Uploaded",
+  uploaded: "Uploaded",
+  sent_to_client: "Awaiting Client",
+  approved: "Approved",
+  approved_with_comments: "Approved w/ Comments",
+  rejected: "Rejected",
+  not_required: "Not Required",
+};
+
+export function isTransmittalPurpose(value: unknown): value is TransmittalPurpose {
+  return TRANSMITTAL_PURPOSES.includes(value as TransmittalPurpose);
+}
+
+// ============================================================================
+// Register
+// ============================================================================
+
+/** Register rows in item-code order; items without a drawing are kept */
+export function buildDrawingRegister(sources: DrawingRegisterSource[]): DrawingRegisterRow[] {
+  return [...sources]
+    .sort((a, b) => a.itemCode.localeCompare(b.itemCode, undefined, { numeric: true }))
+    .map((source) => {
+      const revisions = [...source.revisions].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+      const issues = [...source.issues].sort((a, b) => a.sentAt.localeCompare(b.sentAt));
+      const lastIssue = issues[issues.length - 1];
+      const issuedRevisions = [...new Set(issues.map((i) => i.revision).filter((r): r is string => !!r))];
+
+      return {
+        itemCode: source.itemCode,
+        itemName: source.itemName,
+        status: DRAWING_STATUS_LABELS[source.status ?? "not_uploaded"] ?? source.status ?? "",
+        currentRevision: source.currentRevision ?? "-",
+        revisionCount: revisions.length,
+        lastUploadedAt: revisions[revisions.length - 1]?.createdAt ?? null,
+        issuedRevisions: issuedRevisions.join(", "),
+        lastTransmittal: lastIssue?.code ?? "",
+        lastPurpose: lastIssue ? TRANSMITTAL_PURPOSE_LABELS[lastIssue.purpose] : "",
+        lastIssuedAt: lastIssue?.sentAt ?? null,
+      };
+    });
+}
@@ -0,0 +1,175 @@
+/**
+ * CRM Forecast Excel Export
+ *
+ * Server-side workbook for the /crm/forecast page: summary, weighted pipeline
+ * by stage / brand tier / close month, win-loss analysis and the opportunity list.
+ * Styling comes from the finance export helpers so every export looks the same.
+ */
+
+import ExcelJS from "exceljs";
+import { applyCellBorders, applyHeaderStyle, formatDate } from "./finance-export";
+import { weightedValue } from "@/lib/crm-forecast";
+import type { CrmForecast, ForecastBucket, ForecastOpportunity } from "@/lib/crm-forecast";
+import { OPPORTUNITY_STAGES } from "@/types/crm";
+
+const MONEY_FORMAT = "#,##0.00";
+
+function addBucketSheet(
+  workbook: ExcelJS.Workbook,
+  name: string,
+  groupHeader: string,
+  buckets: ForecastBucket[]
+) {
+  const sheet = workbook.addWorksheet(name, {
+    views: [{ state: "frozen", ySplit: 1 }],
+  });
+
+  sheet.columns = [
+    { header: groupHeader, key: "label", width: 22 },
+    { header: "Opportunities", key: "count", width: 14 },
+    { header: "Pipeline Value", key: "value", width: 18 },
+    { header: "Weighted Value", key: "weighted", width: 18 },
+  ];
+  applyHeaderStyle(sheet.getRow(1));
+
+  for (const bucket of buckets) {
+    const row = sheet.addRow(bucket);
+    applyCellBorders(row);
+    row.getCell("value").numFmt = MONEY_FORMAT;
+    row.getCell("weighted").numFmt = MONEY_FORMAT;
+  }
+
+  const total = sheet.addRow({
+    label: "Total",
+    count: buckets.reduce((s, b) => s + b.count, 0),
+    value: buckets.reduce((s, b) => s + b.value, 0),
+    weighted: buckets.reduce((s, b) => s + b.weighted, 0),
+  });
+  applyCellBorders(total);
+  total.font = { bold: true };
+  total.getCell("value").numFmt = MONEY_FORMAT;
+  total.getCell("weighted").numFmt = MONEY_FORMAT;
+}
+
+export async function generateCrmForecastExcel(
+  forecast: CrmForecast,
+  opportunities: ForecastOpportunity[]
+): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = "Formula Contract";
+  workbook.created = new Date();
+
+  // Summary
+  const summary = workbook.addWorksheet("Summary");
+  summary.columns = [
+    { header: "Metric", key: "metric", width: 28 },
+    { header: `Value (${forecast.currency})`, key: "value", width: 20 },
+  ];
+  applyHeaderStyle(summary.getRow(1));
+
+  const { totals } = forecast;
+  const summaryRows: { metric: string; value: number | string; money?: boolean }[] = [
+    { metric: "Open opportunities", value: totals.openCount },
+    { metric: "Pipeline value", value: totals.pipelineValue, money: true },
+    { metric: "Weighted forecast", value: totals.weightedValue, money: true },
+    { metric: "Won", value: totals.wonCount },
+    { metric: "Won value", value: totals.wonValue, money: true },
+    { metric: "Lost", value: totals.lostCount },
+    { metric: "Lost value", value: totals.lostValue, money: true },
+    { metric: "Win rate", value: totals.winRate === null ? "—" : `${totals.winRate}%` },
+    { metric: "Open without close date", value: totals.undatedCount },
+  ];
+  for (const item of summaryRows) {
+    const row = summary.addRow({ metric: item.metric, value: item.value });
+    applyCellBorders(row);
+    if (item.money) row.getCell("value").numFmt = MONEY_FORMAT;
+  }
+  if (forecast.excludedCount > 0) {
+    summary.addRow([]);
+    summary.addRow({
+      metric: `${forecast.excludedCount} opportunities in other currencies are not included.`,
+    }).font = { italic: true, color: { argb: "FF6B7280" } };
+  }
+
+  addBucketSheet(workbook, "By Stage", "Stage", forecast.byStage);
+  addBucketSheet(workbook, "By Brand Tier", "Brand Tier", forecast.byTier);
+  addBucketSheet(workbook, "By Close Month", "Close Month", forecast.byMonth);
+
+  // Win / loss
+  const losses = workbook.addWorksheet("Loss Reasons", {
+    views: [{ state: "frozen", ySplit: 1 }],
+  });
+  losses.columns = [
+    { header: "Loss Reason", key: "reason", width: 36 },
+    { header: "Opportunities", key: "count", width: 14 },
+    { header: "Share of Losses", key: "share", width: 16 },
+    { header: "Lost Value", key: "value", width: 18 },
+  ];
+  applyHeaderStyle(losses.getRow(1));
+  for (const reason of forecast.lossReasons) {
+    const row = losses.addRow({
+      ...reason,
+      share: totals.lostCount > 0 ? reason.count / totals.lostCount : 0,
+    });
+    applyCellBorders(row);
+    row.getCell("share").numFmt = "0%";
+    row.getCell("value").numFmt = MONEY_FORMAT;
+  }
+
+  // Opportunity list
+  const list = workbook.addWorksheet("Opportunities", {
+    views: [{ state: "frozen", ySplit: 1 }],
+  });
+  list.columns = [
+    { header: "Code", key: "opportunity_code", width: 12 },
+    { header: "Title", key: "title", width: 32 },
+    { header: "Brand", key: "brand", width: 20 },
+    { header: "Firm", key: "firm", width: 20 },
+    { header: "Stage", key: "stage", width: 14 },
+    { header: "Expected Close", key: "expected_close_date", width: 15 },
+    { header: "Value", key: "estimated_value", width: 16 },
+    { header: "Probability %", key: "probability", width: 13 },
+    { header: "Weighted", key: "weighted", width: 16 },
+    { header: "Loss Reason", key: "loss_reason", width: 28 },
+  ];
+  applyHeaderStyle(list.getRow(1));
+
+  opportunities.forEach((o, idx) => {
+    const isOpen = o.stage !== "won" && o.stage !== "lost";
+    const row = list.addRow({
+      opportunity_code: o.opportunity_code,
+      title: o.title,
+      brand: o.brand?.name || "",
+      firm: o.architecture_firm?.name || "",
+      stage: OPPORTUNITY_STAGES.find((s) => s.value === o.stage)?.label || o.stage,
+      expected_close_date: o.expected_close_date ? formatDate(o.expected_close_date) : "",
+      estimated_value: o.estimated_value ?? "",
+      probability: o.probability ?? "",
+      weighted: isOpen ? weightedValue(o) : "",
+      loss_reason: o.loss_reason || "",
+    });
+    applyCellBorders(row);
+
+    // Zebra striping
+    if (idx % 2 === 1) {
+      row.eachCell((cell) => {
+        cell.fill = {
+          type: "pattern",
+          pattern: "solid",
+          fgColor: { argb: "FFF9FAFB" },
+        };
+      });
+    }
+
+    row.getCell("estimated_value").numFmt = MONEY_FORMAT;
+    row.getCell("weighted").numFmt = MONEY_FORMAT;
+  });
+
+  list.autoFilter = {
+    from: { row: 1, column: 1 },
+    to: { row: opportunities.length + 1, column: 10 },
+  };
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return Buffer.from(buffer);
+}
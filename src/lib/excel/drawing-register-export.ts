@@ -0,0 +1,57 @@
+/**
+ * Drawing Register Excel Export
+ *
+ * Server-side workbook listing every production drawing on a project with its
+ * status, revision history and the last transmittal that issued it.
+ * Styling comes from the finance export helpers so every export looks the same.
+ */
+
+import ExcelJS from "exceljs";
+import { applyCellBorders, applyHeaderStyle, formatDate } from "./finance-export";
+import type { DrawingRegisterRow } from "@/lib/drawing-transmittals";
+
+export async function generateDrawingRegisterExcel(input: {
+  projectCode: string;
+  projectName: string;
+  rows: DrawingRegisterRow[];
+}): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = "Formula Contract";
+  workbook.created = new Date();
+
+  const sheet = workbook.addWorksheet("Drawing Register", {
+    views: [{ state: "frozen", ySplit: 1 }],
+    headerFooter: { oddHeader: `${input.projectCode} — ${input.projectName} — Drawing Register` },
+  });
+
+  sheet.columns = [
+    { header: "Item Code", key: "itemCode", width: 14 },
+    { header: "Description", key: "itemName", width: 32 },
+    { header: "Current Rev", key: "currentRevision", width: 12 },
+    { header: "Status", key: "status", width: 22 },
+    { header: "Revisions", key: "revisionCount", width: 11 },
+    { header: "Last Uploaded", key: "lastUploadedAt", width: 14 },
+    { header: "Revisions Issued", key: "issuedRevisions", width: 16 },
+    { header: "Last Transmittal", key: "lastTransmittal", width: 18 },
+    { header: "Purpose", key: "lastPurpose", width: 18 },
+    { header: "Issued On", key: "lastIssuedAt", width: 13 },
+  ];
+  applyHeaderStyle(sheet.getRow(1));
+
+  for (const row of input.rows) {
+    const added = sheet.addRow({
+      ...row,
+      lastUploadedAt: row.lastUploadedAt ? formatDate(row.lastUploadedAt) : "",
+      lastIssuedAt: row.lastIssuedAt ? formatDate(row.lastIssuedAt) : "",
+    });
+    applyCellBorders(added);
+  }
+
+  sheet.autoFilter = {
+    from: { row: 1, column: 1 },
+    to: { row: input.rows.length + 1, column: sheet.columns.length },
+  };
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return Buffer.from(buffer);
+}
@@ -60,7 +60,7 @@ interface PaymentScheduleRow {
   last_payment_amount: number | null;
 }
 
-// Shared styles
+// Shared styles — the header/border helpers are reused by the other Excel exports
 const HEADER_FILL: ExcelJS.Fill = {
   type: "pattern",
   pattern: "solid",
@@ -86,7 +86,7 @@ const BORDER_STYLE: Partial<ExcelJS.Borders> = {
   right: { style: "thin", color: { argb: "FFE5E7EB" } },
 };
 
-function applyHeaderStyle(row: ExcelJS.Row) {
+export function applyHeaderStyle(row: ExcelJS.Row) {
   row.eachCell((cell) => {
     cell.fill = HEADER_FILL;
     cell.font = HEADER_FONT;
@@ -96,14 +96,14 @@ function applyHeaderStyle(row: ExcelJS.Row) {
   row.height = 28;
 }
 
-function applyCellBorders(row: ExcelJS.Row) {
+export function applyCellBorders(row: ExcelJS.Row) {
   row.eachCell((cell) => {
     cell.border = BORDER_STYLE;
     cell.alignment = { vertical: "middle" };
   });
 }
 
-function formatDate(dateStr: string): string {
+export function formatDate(dateStr: string): string {
   const d = new Date(dateStr);
   return `${String(d.getDate()).padStart(2, "0")}.${String(d.getMonth() + 1).padStart(2, "0")}.${d.getFullYear()}`;
 }
@@ -0,0 +1,121 @@
+/**
+ * Timeline change history
+ *
+ * Each tracked timeline write is stored as one gantt_change_log entry holding
+ * the before/after values of every row it touched (migration 081). History is
+ * linear per project: undo reverts the newest live entry, redo re-applies the
+ * entry undone most recently, and a fresh edit after an undo drops the redo
+ * path — the same rules the old in-memory stacks used, but shared by everyone
+ * on the project and kept across reloads.
+ */
+
+export type GanttChangeTable =
+  | "gantt_items"
+  | "gantt_dependencies"
+  | "gantt_item_scope_items"
+  | "gantt_item_resources";
+
+export type GanttChangeAction =
+  | "create_item"
+  | "update_item"
+  | "delete_item"
+  | "set_phase"
+  | "create_dependency"
+  | "update_dependency"
+  | "delete_dependency"
+  | "propagate"
+  | "apply_scenario"
+  | "import_schedule"
+  | "generate_schedule";
+
+type RowValues = Record<string, unknown>;
+
+/** One row-level change inside an entry */
+export interface GanttChangeRow {
+  table: GanttChangeTable;
+  op: "insert" | "update" | "delete";
+  id: string;
+  /** Full row for deletes, changed columns for updates */
+  before?: RowValues;
+  /** Full row for inserts, changed columns for updates */
+  after?: RowValues;
+}
+
+export interface TimelineHistoryEntry {
+  id: string;
+  action: GanttChangeAction;
+  description: string;
+  /** Rows touched, including cascaded date moves */
+  rowCount: number;
+  user: { id: string; name: string } | null;
+  createdAt: string;
+  undoneAt: string | null;
+  undoneBy: string | null;
+}
+
+/** Entries listed in the history panel — and how far back undo reaches */
+export const HISTORY_LIMIT = 50;
+
+/** Timestamps move on every write and must not take part in conflict checks */
+const VOLATILE_COLUMNS = new Set(["created_at", "updated_at"]);
+
+/**
+ * The update row for the columns that actually changed, or null when nothing
+ * did. `after` may be a partial row; only its keys are compared.
+ */
+export function diffRow(
+  table: GanttChangeTable,
+  id: string,
+  before: RowValues,
+  after: RowValues
+): GanttChangeRow | null {
+  const from: RowValues = {};
+  const to: RowValues = {};
+  for (const key of Object.keys(after)) {
+    if (VOLATILE_COLUMNS.has(key)) continue;
+    const prev = before[key] ?? null;
+    const next = after[key] ?? null;
+    if (prev === next) continue;
+    from[key] = prev;
+    to[key] = next;
+  }
+  return Object.keys(to).length > 0 ? { table, op: "update", id, before: from, after: to } : null;
+}
+
+/** Short label for an item edit, picked from what changed */
+export function describeItemUpdate(name: string, changedColumns: string[]): string {
+  const changed = new Set(changedColumns);
+  const only = (...columns: string[]) => [...changed].every((c) => columns.includes(c));
+  if (changed.size === 0) return `Edited "${name}"`;
+  if (only("start_date", "end_date")) return `Moved "${name}"`;
+  if (only("priority")) return `Changed priority of "${name}"`;
+  if (only("color")) return `Changed colour of "${name}"`;
+  if (only("phase_key")) return `Changed phase of "${name}"`;
+  if (only("parent_id")) return `Moved "${name}" under a new parent`;
+  if (only("is_completed", "completed_at")) return `Updated completion of "${name}"`;
+  return `Edited "${name}"`;
+}
+
+/**
+ * Which entry undo and redo act on. `entries` is newest first.
+ *
+ *   undo → the newest entry not yet undone
+ *   redo → of the undone entries newer than that one, the one undone most
+ *          recently. An entry undone before a later edit was recorded has an
+ *          older undone_at than that edit's, so it is never picked — the edit
+ *          cut it off.
+ */
+export function findUndoRedoTargets(
+  entries: Pick<TimelineHistoryEntry, "id" | "undoneAt">[]
+): { undoId: string | null; redoId: string | null } {
+  const firstLive = entries.findIndex((e) => !e.undoneAt);
+  const undoId = firstLive >= 0 ? entries[firstLive].id : null;
+  const undoneAbove = firstLive >= 0 ? firstLive : entries.length;
+
+  // Ties go to the older entry, which is the one redo would reach first
+  let redo: Pick<TimelineHistoryEntry, "id" | "undoneAt"> | null = null;
+  for (const entry of entries.slice(0, undoneAbove)) {
+    if (!redo || entry.undoneAt!.localeCompare(redo.undoneAt!) >= 0) redo = entry;
+  }
+  return { undoId, redoId: redo?.id ?? null };
+}
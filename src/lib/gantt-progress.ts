@@ -0,0 +1,105 @@
+/**
+ * Gantt task progress
+ *
+ * A task linked to scope items takes its progress from their status, read
+ * through the task's phase: a shipping task is done when its items have
+ * shipped, no matter how far production got. A manual override on the task
+ * (gantt_items.progress_override) replaces the computed value; parents
+ * without links average their children.
+ */
+
+import type { PhaseKey } from "@/lib/actions/timelines";
+
+export type ProgressSource = "milestone" | "override" | "scope" | "children" | "phase" | "none";
+
+/** Linked scope item fields that drive progress */
+export interface LinkedScopeStatus {
+  production_percentage: number | null;
+  procurement_status: string | null;
+  is_shipped: boolean | null;
+  is_installed: boolean | null;
+  drawing: { status: string; not_required_at: string | null; pm_override: boolean | null } | null;
+}
+
+const PROCUREMENT_PROGRESS: Record<string, number> = {
+  pm_approval: 0,
+  not_ordered: 0,
+  ordered: 50,
+  received: 100,
+};
+
+const DRAWING_PROGRESS: Record<string, number> = {
+  not_uploaded: 0,
+  uploaded: 25,
+  rejected: 25,
+  sent_to_client: 50,
+  approved: 100,
+  approved_with_comments: 100,
+};
+
+/** What the computed value is read from, per phase (tooltip wording) */
+const PHASE_BASIS: Record<PhaseKey, string> = {
+  design: "drawing approval",
+  production: "production %",
+  procurement: "procurement status",
+  shipping: "shipment",
+  installation: "installation",
+};
+
+function clampPercent(value: number): number {
+  return Math.min(100, Math.max(0, Math.round(value)));
+}
+
+/** 0-100 for one linked scope item, judged by the phase the task belongs to */
+export function scopeItemPhaseProgress(phaseKey: PhaseKey | null | undefined, item: LinkedScopeStatus): number {
+  // Later stages imply the earlier ones are finished
+  if (item.is_installed) return 100;
+
+  switch (phaseKey) {
+    case "installation":
+      return 0;
+    case "shipping":
+      return item.is_shipped ? 100 : 0;
+    case "procurement":
+      return item.is_shipped ? 100 : PROCUREMENT_PROGRESS[item.procurement_status ?? ""] ?? 0;
+    case "design": {
+      const drawing = item.drawing;
+      if (!drawing) return 0;
+      if (drawing.not_required_at || drawing.pm_override) return 100;
+      return DRAWING_PROGRESS[drawing.status] ?? 0;
+    }
+    default:
+      // Production and unlabelled tasks follow the production percentage
+      return item.is_shipped ? 100 : clampPercent(item.production_percentage ?? 0);
+  }
+}
+
+export function averageScopeProgress(phaseKey: PhaseKey | null | undefined, items: LinkedScopeStatus[]): number {
+  if (items.length === 0) return 0;
+  const total = items.reduce((sum, item) => sum + scopeItemPhaseProgress(phaseKey, item), 0);
+  return Math.round(total / items.length);
+}
+
+/** One-line explanation of where a task's progress comes from */
+export function describeProgressSource(
+  source: ProgressSource | undefined,
+  options: { phaseKey?: PhaseKey | null; linkedCount?: number; childCount?: number } = {}
+): string | null {
+  switch (source) {
+    case "override":
+      return "Set manually";
+    case "scope": {
+      const count = options.linkedCount ?? 0;
+      const basis = PHASE_BASIS[options.phaseKey ?? "production"];
+      return `From ${count} linked item${count !== 1 ? "s" : ""} · ${basis}`;
+    }
+    case "children": {
+      const count = options.childCount ?? 0;
+      return `Average of ${count} subtask${count !== 1 ? "s" : ""}`;
+    }
+    case "phase":
+      return "Average of phase tasks";
+    default:
+      return null;
+  }
+}
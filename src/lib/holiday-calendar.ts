@@ -0,0 +1,127 @@
+/**
+ * Holiday calendars for Gantt scheduling
+ *
+ * Non-working periods layered on top of the weekday bitmask
+ * (projects.gantt_working_days). Company rows (project_id NULL) apply to every
+ * project that uses the company calendar; project rows add site-specific
+ * closures. Scheduling code only sees the expanded set of "yyyy-MM-dd" keys.
+ */
+
+export type HolidayCategory = "public" | "religious" | "shutdown" | "other";
+
+export const HOLIDAY_CATEGORY_LABELS: Record<HolidayCategory, string> = {
+  public: "Public holiday",
+  religious: "Religious holiday",
+  shutdown: "Shutdown",
+  other: "Other",
+};
+
+/** One non-working period, inclusive on both ends (matches gantt_holidays columns) */
+export interface HolidayPeriod {
+  name: string;
+  start_date: string;
+  end_date: string;
+  category: HolidayCategory;
+}
+
+/** Expanded non-working dates, keyed "yyyy-MM-dd" */
+export type HolidayDates = ReadonlySet<string>;
+
+export const NO_HOLIDAYS: HolidayDates = new Set<string>();
+
+/** Local-date key used by HolidayDates lookups */
+export function holidayKey(date: Date): string {
+  const m = String(date.getMonth() + 1).padStart(2, "0");
+  const d = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${m}-${d}`;
+}
+
+function parseKey(value: string): Date {
+  const [y, m, d] = value.split("-").map(Number);
+  return new Date(y, m - 1, d);
+}
+
+/** Longest single period we expand — guards against a typo'd end year */
+const MAX_PERIOD_DAYS = 366;
+
+export function expandHolidayDates(periods: Array<Pick<HolidayPeriod, "start_date" | "end_date">>): Set<string> {
+  const dates = new Set<string>();
+  for (const period of periods) {
+    const cursor = parseKey(period.start_date);
+    const end = parseKey(period.end_date);
+    for (let i = 0; cursor <= end && i < MAX_PERIOD_DAYS; i++) {
+      dates.add(holidayKey(cursor));
+      cursor.setDate(cursor.getDate() + 1);
+    }
+  }
+  return dates;
+}
+
+export function isHoliday(date: Date, holidays: HolidayDates | undefined): boolean {
+  return !!holidays && holidays.size > 0 && holidays.has(holidayKey(date));
+}
+
+// ============================================================================
+// Turkish public holidays
+//
+// Fixed-date holidays come from Law 2429. Ramazan and Kurban Bayramı follow
+// the lunar calendar as published by Diyanet, so only announced years are
+// listed. Arife (the eve) is an official half day from 13:00; it is left as a
+// working day unless `includeEves` is set, since the schedule is day-granular.
+// ============================================================================
+
+const TR_FIXED: Array<{ month: number; day: number; name: string }> = [
+  { month: 1, day: 1, name: "New Year's Day" },
+  { month: 4, day: 23, name: "National Sovereignty and Children's Day" },
+  { month: 5, day: 1, name: "Labour and Solidarity Day" },
+  { month: 5, day: 19, name: "Commemoration of Atatürk, Youth and Sports Day" },
+  { month: 7, day: 15, name: "Democracy and National Unity Day" },
+  { month: 8, day: 30, name: "Victory Day" },
+  { month: 10, day: 29, name: "Republic Day" },
+];
+
+/** First day of each Bayram; Ramazan lasts 3 days, Kurban 4 */
+const TR_RELIGIOUS: Record<number, { ramazan: string; kurban: string }> = {
+  2025: { ramazan: "2025-03-30", kurban: "2025-06-06" },
+  2026: { ramazan: "2026-03-20", kurban: "2026-05-27" },
+  2027: { ramazan: "2027-03-09", kurban: "2027-05-16" },
+  2028: { ramazan: "2028-02-26", kurban: "2028-05-05" },
+};
+
+export const TURKISH_RELIGIOUS_HOLIDAY_YEARS = Object.keys(TR_RELIGIOUS).map(Number);
+
+function shiftKey(value: string, days: number): string {
+  const date = parseKey(value);
+  date.setDate(date.getDate() + days);
+  return holidayKey(date);
+}
+
+export function turkishPublicHolidays(year: number, options: { includeEves?: boolean } = {}): HolidayPeriod[] {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const periods: HolidayPeriod[] = TR_FIXED.map((h) => {
+    const date = `${year}-${pad(h.month)}-${pad(h.day)}`;
+    return { name: h.name, start_date: date, end_date: date, category: "public" };
+  });
+  if (options.includeEves) {
+    const eve = `${year}-10-28`;
+    periods.push({ name: "Republic Day Eve", start_date: eve, end_date: eve, category: "public" });
+  }
+
+  const religious = TR_RELIGIOUS[year];
+  if (religious) {
+    const feasts = [
+      { name: "Ramadan Feast (Ramazan Bayramı)", start: religious.ramazan, days: 3 },
+      { name: "Feast of Sacrifice (Kurban Bayramı)", start: religious.kurban, days: 4 },
+    ];
+    for (const feast of feasts) {
+      periods.push({
+        name: feast.name,
+        start_date: options.includeEves ? shiftKey(feast.start, -1) : feast.start,
+        end_date: shiftKey(feast.start, feast.days - 1),
+        category: "religious",
+      });
+    }
+  }
+
+  return periods.sort((a, b) => a.start_date.localeCompare(b.start_date));
+}
@@ -1,6 +1,7 @@
 "use server";
 
 import { createClient, createServiceRoleClient } from "@/lib/supabase/server";
+import type { UserRole } from "@/types/database";
 export interface Notification {
   id: string;
   user_id: string;
@@ -203,12 +204,30 @@ export async function notifyProjectPMs(data: {
   itemId?: string;
   drawingId?: string;
   materialId?: string;
+}): Promise<void> {
+  await notifyProjectUsers({ ...data, roles: ["pm", "admin"] });
+}
+
+/**
+ * Notify the users assigned to a project who hold one of `roles`, plus any
+ * assigned users listed in `userIds` (e.g. the person whose work was reviewed).
+ */
+export async function notifyProjectUsers(data: {
+  projectId: string;
+  roles: UserRole[];
+  userIds?: string[];
+  excludeUserId?: string;
+  type: string;
+  title: string;
+  message?: string;
+  itemId?: string;
+  drawingId?: string;
+  materialId?: string;
 }): Promise<void> {
   // Use service role to bypass RLS — client users can't query project_assignments
   // for PM users, and we need to insert notifications for other users (not self)
   const supabase = createServiceRoleClient();
 
-  // Get all PM/admin users assigned to this project
   const { data: assignments } = await supabase
     .from("project_assignments")
     .select("user_id")
@@ -221,16 +240,16 @@ export async function notifyProjectPMs(data: {
   const { data: users } = await supabase
     .from("users")
     .select("id, role")
-    .in("id", userIds)
-    .in("role", ["pm", "admin"]);
+    .in("id", userIds);
 
-  const pmUserIds = (users || [])
+  const recipientIds = (users || [])
+    .filter((u) => data.roles.includes(u.role) || data.userIds?.includes(u.id))
     .map((u) => u.id)
     .filter((id) => id !== data.excludeUserId);
 
-  if (pmUserIds.length === 0) return;
+  if (recipientIds.length === 0) return;
 
-  const notifications = pmUserIds.map((userId) => ({
+  const notifications = recipientIds.map((userId) => ({
     user_id: userId,
     type: data.type,
     title: data.title,
@@ -245,6 +264,6 @@ export async function notifyProjectPMs(data: {
   const { error } = await supabase.from("notifications").insert(notifications);
 
   if (error) {
-    console.error("[notifyProjectPMs] Failed to create notifications:", error.message);
+    console.error("[notifyProjectUsers] Failed to create notifications:", error.message);
   }
 }
@@ -0,0 +1,124 @@
+/**
+ * Drawing Markup PDF
+ *
+ * Loads a drawing revision (PDF via pdf.js, or a single image) page by page
+ * for the markup viewer, and flattens markups onto it for client_markup_url:
+ * - Each page is rendered at print resolution with the markups painted on top
+ * - Pages keep the original sheet size, so the result prints like the drawing
+ *
+ * Client-side only — uses canvas and loads pdf.js / jsPDF on demand.
+ */
+
+import { paintMarkups, type DrawingMarkup } from "@/lib/drawing-markup";
+
+/** A revision file the viewer can page through, PDF or image alike */
+export interface DrawingDocument {
+  pageCount: number;
+  /** Page size in points at scale 1 */
+  pageSize: (page: number) => Promise<{ width: number; height: number }>;
+  /** Render a page into `canvas`, sized to `scale` × the page size */
+  renderPage: (page: number, canvas: HTMLCanvasElement, scale: number) => Promise<void>;
+  destroy: () => void;
+}
+
+/** Pixels per point when flattening — about 150 dpi */
+const FLATTEN_SCALE = 2;
+
+const IMAGE_EXTENSIONS = ["jpg", "jpeg", "png", "gif", "webp"];
+
+export function isImageDrawing(fileName: string): boolean {
+  const extension = fileName.split(".").pop()?.toLowerCase() ?? "";
+  return IMAGE_EXTENSIONS.includes(extension);
+}
+
+async function loadPdfDocument(url: string): Promise<DrawingDocument> {
+  const pdfjs = await import("pdfjs-dist");
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = new URL(
+      "pdfjs-dist/build/pdf.worker.min.mjs",
+      import.meta.url
+    ).toString();
+  }
+
+  const pdf = await pdfjs.getDocument({ url }).promise;
+  return {
+    pageCount: pdf.numPages,
+    pageSize: async (page) => {
+      const viewport = (await pdf.getPage(page)).getViewport({ scale: 1 });
+      return { width: viewport.width, height: viewport.height };
+    },
+    renderPage: async (page, canvas, scale) => {
+      const pdfPage = await pdf.getPage(page);
+      const viewport = pdfPage.getViewport({ scale });
+      canvas.width = Math.floor(viewport.width);
+      canvas.height = Math.floor(viewport.height);
+      await pdfPage.render({ canvas, viewport }).promise;
+    },
+    destroy: () => void pdf.destroy(),
+  };
+}
+
+async function loadImageDocument(url: string): Promise<DrawingDocument> {
+  const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new window.Image();
+    img.crossOrigin = "anonymous"; // keep the canvas exportable for flattening
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not load drawing image"));
+    img.src = url;
+  });
+
+  return {
+    pageCount: 1,
+    pageSize: async () => ({ width: image.naturalWidth, height: image.naturalHeight }),
+    renderPage: async (_page, canvas, scale) => {
+      canvas.width = Math.floor(image.naturalWidth * scale);
+      canvas.height = Math.floor(image.naturalHeight * scale);
+      const ctx = canvas.getContext("2d");
+      ctx?.drawImage(image, 0, 0, canvas.width, canvas.height);
+    },
+    destroy: () => {},
+  };
+}
+
+/** Open a revision file for viewing or flattening */
+export function loadDrawingDocument(url: string, fileName: string): Promise<DrawingDocument> {
+  return isImageDrawing(fileName) ? loadImageDocument(url) : loadPdfDocument(url);
+}
+
+/**
+ * Flatten markups onto the revision file and return the PDF as a data URI,
+ * ready for approveOrRejectDrawing's markupFileData.
+ */
+export async function flattenDrawingMarkup(options: {
+  fileUrl: string;
+  fileName: string;
+  markups: DrawingMarkup[];
+}): Promise<string> {
+  const { fileUrl, fileName, markups } = options;
+  const [{ jsPDF }, drawing] = await Promise.all([import("jspdf"), loadDrawingDocument(fileUrl, fileName)]);
+
+  try {
+    let doc: import("jspdf").jsPDF | null = null;
+    const canvas = document.createElement("canvas");
+
+    for (let page = 1; page <= drawing.pageCount; page++) {
+      const { width, height } = await drawing.pageSize(page);
+      const orientation = width > height ? "landscape" : "portrait";
+      if (!doc) {
+        doc = new jsPDF({ orientation, unit: "pt", format: [width, height] });
+      } else {
+        doc.addPage([width, height], orientation);
+      }
+
+      await drawing.renderPage(page, canvas, FLATTEN_SCALE);
+      const ctx = canvas.getContext("2d");
+      if (ctx) paintMarkups(ctx, markups, page, canvas.width, canvas.height);
+      doc.addImage(canvas.toDataURL("image/jpeg", 0.9), "JPEG", 0, 0, width, height);
+    }
+
+    if (!doc) throw new Error("Drawing has no pages");
+    return doc.output("datauristring");
+  } finally {
+    drawing.destroy();
+  }
+}
@@ -0,0 +1,410 @@
+/**
+ * Baseline Comparison PDF Generator
+ *
+ * Schedule variance report for one saved baseline:
+ * - Summary strip: finish shift, slipped / ahead / added / removed counts
+ * - One row per task: baseline vs current dates, start & finish variance
+ * - Variance in working days (+ later than baseline, − earlier)
+ * - Landscape A4, same print-friendly styling as the snag list PDF
+ */
+
+type BaselineReportStatus = "slipped" | "ahead" | "on-baseline" | "added" | "removed";
+
+export interface BaselineReportRow {
+  name: string;
+  type: "phase" | "task" | "milestone";
+  depth: number;
+  baselineStart: Date | null;
+  baselineEnd: Date | null;
+  currentStart: Date | null;
+  currentEnd: Date | null;
+  startVariance: number | null;
+  finishVariance: number | null;
+  status: BaselineReportStatus;
+}
+
+export interface GenerateBaselineReportPdfOptions {
+  projectName: string;
+  projectCode: string;
+  baselineName: string;
+  baselineCreatedAt: Date;
+  /** Rows in Gantt order — build them with compareWithBaseline() */
+  rows: BaselineReportRow[];
+  summary: {
+    slipped: number;
+    ahead: number;
+    added: number;
+    removed: number;
+    maxSlip: number;
+    baselineFinish: Date | null;
+    currentFinish: Date | null;
+    finishVariance: number | null;
+  };
+}
+
+// ============================================================================
+// Colors — print-friendly palette (matches generate-snag-list-pdf.ts)
+// ============================================================================
+const COLORS = {
+  teal: "#14b8a6",
+  tealDark: "#0d9488",
+  tealSlim: "#5eead4",
+  textPrimary: "#1f2937",
+  textSecondary: "#4b5563",
+  textMuted: "#6b7280",
+  textLight: "#9ca3af",
+  border: "#e5e7eb",
+  headerFill: "#f3f4f6",
+  late: "#dc2626",
+  early: "#16a34a",
+  added: "#2563eb",
+};
+
+// ============================================================================
+// Layout constants (mm)
+// ============================================================================
+const MARGIN = 14;
+const FOOTER_HEIGHT = 12;
+const ROW_HEIGHT = 6;
+const HEADER_ROW_HEIGHT = 7;
+
+const STATUS_LABELS: Record<BaselineReportStatus, string> = {
+  slipped: "Slipped",
+  ahead: "Ahead",
+  "on-baseline": "On baseline",
+  added: "Added",
+  removed: "Removed",
+};
+
+/** Column layout — widths sum to the landscape content width (269mm) */
+const COLUMNS = [
+  { key: "index", label: "#", width: 9 },
+  { key: "name", label: "Task", width: 84 },
+  { key: "type", label: "Type", width: 18 },
+  { key: "baselineStart", label: "Baseline Start", width: 24 },
+  { key: "baselineEnd", label: "Baseline Finish", width: 24 },
+  { key: "currentStart", label: "Current Start", width: 24 },
+  { key: "currentEnd", label: "Current Finish", width: 24 },
+  { key: "startVariance", label: "Start Var.", width: 18 },
+  { key: "finishVariance", label: "Finish Var.", width: 18 },
+  { key: "status", label: "Status", width: 26 },
+] as const;
+
+function fmtDate(d: Date | null): string {
+  if (!d) return "—";
+  return `${String(d.getDate()).padStart(2, "0")}.${String(d.getMonth() + 1).padStart(2, "0")}.${d.getFullYear()}`;
+}
+
+function fmtVariance(days: number | null): string {
+  if (days === null) return "—";
+  return days > 0 ? `+${days}d` : `${days}d`;
+}
+
+function varianceColor(days: number | null): string {
+  if (days === null || days === 0) return COLORS.textMuted;
+  return days > 0 ? COLORS.late : COLORS.early;
+}
+
+/**
+ * Internal PDF generation — creates the jsPDF document
+ */
+async function generateBaselineReportDocument(options: GenerateBaselineReportPdfOptions): Promise<{
+  doc: import("jspdf").jsPDF;
+  fileName: string;
+}> {
+  const { projectName, projectCode, baselineName, baselineCreatedAt, rows, summary } = options;
+
+  // Dynamic imports (client-side only)
+  const [{ jsPDF }, { loadRobotoFonts }] = await Promise.all([
+    import("jspdf"),
+    import("@/lib/fonts/roboto-loader"),
+  ]);
+
+  const doc = new jsPDF({ orientation: "landscape", unit: "mm", format: "a4" });
+  const fontFamily = await loadRobotoFonts(doc);
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - MARGIN * 2;
+  const maxContentY = pageHeight - MARGIN - FOOTER_HEIGHT;
+
+  const now = new Date();
+  const printedOn = fmtDate(now);
+
+  let y = MARGIN;
+
+  // ------------------------------------------------------------------
+  // Page 1 header — brand, project, baseline
+  // ------------------------------------------------------------------
+  function drawPage1Header() {
+    doc.setFontSize(13);
+    doc.setTextColor(COLORS.tealDark);
+    doc.setFont(fontFamily, "bold");
+    doc.text("Formula Contract", MARGIN, y + 4);
+
+    doc.setFontSize(11);
+    doc.setTextColor(COLORS.textPrimary);
+    doc.text(projectName, MARGIN, y + 10);
+
+    doc.setFontSize(8);
+    doc.setTextColor(COLORS.textMuted);
+    doc.setFont(fontFamily, "normal");
+    doc.text(`${projectCode}  •  Baseline Comparison`, MARGIN, y + 14.5);
+
+    const rx = pageWidth - MARGIN;
+    doc.setFontSize(6);
+    doc.setTextColor(COLORS.tealDark);
+    doc.setFont(fontFamily, "bold");
+    doc.text("BASELINE", rx, y + 2, { align: "right" });
+
+    doc.setFontSize(10);
+    doc.setTextColor(COLORS.textPrimary);
+    doc.text(baselineName, rx, y + 6.5, { align: "right" });
+
+    doc.setFontSize(6.5);
+    doc.setTextColor(COLORS.textMuted);
+    doc.setFont(fontFamily, "normal");
+    doc.text(`Saved ${fmtDate(baselineCreatedAt)}`, rx, y + 10, { align: "right" });
+    doc.text(`Printed ${printedOn}`, rx, y + 13, { align: "right" });
+
+    y += 17;
+    doc.setFillColor(COLORS.teal);
+    doc.rect(MARGIN, y, contentWidth, 0.7, "F");
+    y += 6;
+  }
+
+  // ------------------------------------------------------------------
+  // Page 2+ header — compact single line
+  // ------------------------------------------------------------------
+  function drawContinuationHeader() {
+    const ty = y + 4;
+    doc.setFontSize(8);
+    doc.setTextColor(COLORS.tealDark);
+    doc.setFont(fontFamily, "bold");
+    doc.text("Formula Contract", MARGIN, ty);
+
+    doc.setFontSize(7);
+    doc.setTextColor(COLORS.textMuted);
+    doc.setFont(fontFamily, "normal");
+    doc.text(
+      `${projectName}  •  ${projectCode}  •  Baseline Comparison — ${baselineName}`,
+      pageWidth - MARGIN,
+      ty,
+      { align: "right" }
+    );
+
+    y += 7;
+    doc.setFillColor(COLORS.tealSlim);
+    doc.rect(MARGIN, y, contentWidth, 0.4, "F");
+    y += 5;
+  }
+
+  function drawFooter(pageNum: number, totalPages: number) {
+    const fy = pageHeight - MARGIN - 3;
+    doc.setDrawColor(COLORS.border);
+    doc.setLineWidth(0.3);
+    doc.line(MARGIN, fy - 4, pageWidth - MARGIN, fy - 4);
+
+    doc.setFontSize(6);
+    doc.setFont(fontFamily, "bold");
+    doc.setTextColor(COLORS.tealDark);
+    doc.text("Formula Contract", MARGIN, fy);
+
+    doc.setFont(fontFamily, "normal");
+    doc.setTextColor(COLORS.textLight);
+    doc.text(`Printed ${printedOn}`, pageWidth / 2, fy, { align: "center" });
+
+    doc.setTextColor(COLORS.textMuted);
+    doc.text(`Page ${pageNum} of ${totalPages}`, pageWidth - MARGIN, fy, { align: "right" });
+  }
+
+  function checkPageBreak(neededHeight: number): boolean {
+    if (y + neededHeight > maxContentY) {
+      doc.addPage();
+      y = MARGIN;
+      drawContinuationHeader();
+      drawTableHeader();
+      return true;
+    }
+    return false;
+  }
+
+  // ------------------------------------------------------------------
+  // Summary strip — five boxes across the page
+  // ------------------------------------------------------------------
+  function drawSummary() {
+    const boxes: { label: string; value: string; note: string; color: string }[] = [
+      {
+        label: "PROJECT FINISH",
+        value: fmtVariance(summary.finishVariance),
+        note: `${fmtDate(summary.baselineFinish)} → ${fmtDate(summary.currentFinish)}`,
+        color: varianceColor(summary.finishVariance),
+      },
+      {
+        label: "SLIPPED",
+        value: String(summary.slipped),
+        note: summary.maxSlip > 0 ? `Largest slip +${summary.maxSlip}d` : "No task finishes later",
+        color: summary.slipped > 0 ? COLORS.late : COLORS.textPrimary,
+      },
+      {
+        label: "AHEAD",
+        value: String(summary.ahead),
+        note: "Finishing earlier than baseline",
+        color: summary.ahead > 0 ? COLORS.early : COLORS.textPrimary,
+      },
+      {
+        label: "ADDED",
+        value: String(summary.added),
+        note: "Not in the baseline",
+        color: COLORS.textPrimary,
+      },
+      {
+        label: "REMOVED",
+        value: String(summary.removed),
+        note: "Deleted since the baseline",
+        color: COLORS.textPrimary,
+      },
+    ];
+
+    const gap = 3;
+    const boxW = (contentWidth - gap * (boxes.length - 1)) / boxes.length;
+    const boxH = 15;
+    boxes.forEach((box, i) => {
+      const x = MARGIN + i * (boxW + gap);
+      doc.setDrawColor(COLORS.border);
+      doc.setLineWidth(0.3);
+      doc.rect(x, y, boxW, boxH);
+
+      doc.setFontSize(6);
+      doc.setTextColor(COLORS.tealDark);
+      doc.setFont(fontFamily, "bold");
+      doc.text(box.label, x + 3, y + 4);
+
+      doc.setFontSize(12);
+      doc.setTextColor(box.color);
+      doc.text(box.value, x + 3, y + 10);
+
+      doc.setFontSize(6.5);
+      doc.setTextColor(COLORS.textMuted);
+      doc.setFont(fontFamily, "normal");
+      doc.text(box.note, x + 3, y + 13.3);
+    });
+    y += boxH + 6;
+  }
+
+  function drawTableHeader() {
+    doc.setFillColor(COLORS.headerFill);
+    doc.rect(MARGIN, y, contentWidth, HEADER_ROW_HEIGHT, "F");
+
+    doc.setFontSize(7);
+    doc.setTextColor(COLORS.textSecondary);
+    doc.setFont(fontFamily, "bold");
+    let x = MARGIN;
+    for (const col of COLUMNS) {
+      doc.text(col.label, x + 2, y + 4.6);
+      x += col.width;
+    }
+    y += HEADER_ROW_HEIGHT;
+  }
+
+  function drawRow(row: BaselineReportRow, index: number) {
+    checkPageBreak(ROW_HEIGHT);
+    const ty = y + 4;
+
+    const cells: Record<(typeof COLUMNS)[number]["key"], { text: string; color: string }> = {
+      index: { text: String(index), color: COLORS.textLight },
+      name: { text: row.name, color: row.status === "removed" ? COLORS.textLight : COLORS.textPrimary },
+      type: { text: row.type === "milestone" ? "Milestone" : "Task", color: COLORS.textMuted },
+      baselineStart: { text: fmtDate(row.baselineStart), color: COLORS.textSecondary },
+      baselineEnd: { text: fmtDate(row.baselineEnd), color: COLORS.textSecondary },
+      currentStart: { text: fmtDate(row.currentStart), color: COLORS.textPrimary },
+      currentEnd: { text: fmtDate(row.currentEnd), color: COLORS.textPrimary },
+      startVariance: { text: fmtVariance(row.startVariance), color: varianceColor(row.startVariance) },
+      finishVariance: { text: fmtVariance(row.finishVariance), color: varianceColor(row.finishVariance) },
+      status: {
+        text: STATUS_LABELS[row.status],
+        color:
+          row.status === "slipped"
+            ? COLORS.late
+            : row.status === "ahead"
+            ? COLORS.early
+            : row.status === "added"
+            ? COLORS.added
+            : COLORS.textMuted,
+      },
+    };
+
+    doc.setFontSize(7);
+    doc.setFont(fontFamily, "normal");
+    let x = MARGIN;
+    for (const col of COLUMNS) {
+      const cell = cells[col.key];
+      doc.setTextColor(cell.color);
+      if (col.key === "name") {
+        const indent = Math.min(row.depth, 4) * 3;
+        const maxW = col.width - 4 - indent;
+        let text = cell.text;
+        if (doc.getTextWidth(text) > maxW) {
+          while (text.length > 1 && doc.getTextWidth(`${text}…`) > maxW) text = text.slice(0, -1);
+          text = `${text}…`;
+        }
+        doc.text(text, x + 2 + indent, ty);
+      } else {
+        doc.text(cell.text, x + 2, ty);
+      }
+      x += col.width;
+    }
+
+    doc.setDrawColor(COLORS.border);
+    doc.setLineWidth(0.2);
+    doc.line(MARGIN, y + ROW_HEIGHT, MARGIN + contentWidth, y + ROW_HEIGHT);
+    y += ROW_HEIGHT;
+  }
+
+  // ====================================================================
+  // BUILD PDF
+  // ====================================================================
+
+  drawPage1Header();
+  drawSummary();
+
+  if (rows.length === 0) {
+    doc.setFontSize(9);
+    doc.setTextColor(COLORS.textMuted);
+    doc.setFont(fontFamily, "normal");
+    doc.text("Neither the baseline nor the current schedule has any tasks.", MARGIN, y);
+  } else {
+    drawTableHeader();
+    rows.forEach((row, i) => drawRow(row, i + 1));
+  }
+
+  const totalPages = doc.internal.pages.length - 1;
+  for (let p = 1; p <= totalPages; p++) {
+    doc.setPage(p);
+    drawFooter(p, totalPages);
+  }
+
+  const safeName = baselineName.replace(/[^a-zA-Z0-9-_]+/g, "_").replace(/^_+|_+$/g, "") || "Baseline";
+  const fileName = `${projectCode}_Baseline_${safeName}_${now.toISOString().split("T")[0]}.pdf`;
+  return { doc, fileName };
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Generate the baseline comparison PDF and trigger browser download
+ */
+export async function downloadBaselineReportPdf(
+  options: GenerateBaselineReportPdfOptions
+): Promise<boolean> {
+  try {
+    const { doc, fileName } = await generateBaselineReportDocument(options);
+    doc.save(fileName);
+    return true;
+  } catch (error) {
+    console.error("Error generating baseline comparison PDF:", error);
+    return false;
+  }
+}
@@ -0,0 +1,246 @@
+/**
+ * Gantt Chart PDF Generator
+ *
+ * Prints the timeline exactly as it is on screen — same view mode and zoom:
+ * - Landscape A3 or A4, cut into sheets on whole columns and whole rows
+ * - Every sheet repeats the task sidebar and the date header
+ * - Sheets run left → right through the dates, then down to the next rows,
+ *   each labelled with its row range and position so they can be taped together
+ */
+
+import {
+  drawGanttTile,
+  tileGanttPrintLayout,
+  tileSize,
+  type GanttPainter,
+  type GanttPrintLayout,
+} from "@/components/gantt/gantt-print";
+
+export type GanttPdfPaper = "a3" | "a4";
+
+export interface GenerateGanttPdfOptions {
+  /** Built with buildGanttPrintLayout() from the current view */
+  layout: GanttPrintLayout;
+  paper: GanttPdfPaper;
+  title: string;
+  subtitle?: string;
+  /** e.g. "Week view · 125%" */
+  viewLabel: string;
+  /** File name without date or extension */
+  fileBaseName: string;
+}
+
+// ============================================================================
+// Colors — print-friendly palette (matches generate-snag-list-pdf.ts)
+// ============================================================================
+const COLORS = {
+  teal: "#14b8a6",
+  tealDark: "#0d9488",
+  textPrimary: "#1f2937",
+  textMuted: "#6b7280",
+  textLight: "#9ca3af",
+  border: "#e5e7eb",
+};
+
+// ============================================================================
+// Layout constants (mm)
+// ============================================================================
+const MARGIN = 12;
+const PAGE_HEADER_HEIGHT = 16;
+const FOOTER_HEIGHT = 10;
+/** Millimetres per screen pixel — keeps on-screen proportions legible on paper */
+const SCALE = 0.25;
+/** jsPDF font sizes are points; painter sizes are screen px */
+const PT_PER_MM = 72 / 25.4;
+
+const PAPER_SIZES: Record<GanttPdfPaper, { width: number; height: number }> = {
+  a3: { width: 420, height: 297 },
+  a4: { width: 297, height: 210 },
+};
+
+function fmtDate(d: Date): string {
+  return `${String(d.getDate()).padStart(2, "0")}.${String(d.getMonth() + 1).padStart(2, "0")}.${d.getFullYear()}`;
+}
+
+/**
+ * Internal PDF generation — creates the jsPDF document
+ */
+async function generateGanttDocument(options: GenerateGanttPdfOptions): Promise<{
+  doc: import("jspdf").jsPDF;
+  fileName: string;
+}> {
+  const { layout, paper, title, subtitle, viewLabel, fileBaseName } = options;
+
+  // Dynamic imports (client-side only)
+  const [{ jsPDF }, { loadRobotoFonts }] = await Promise.all([
+    import("jspdf"),
+    import("@/lib/fonts/roboto-loader"),
+  ]);
+
+  const doc = new jsPDF({ orientation: "landscape", unit: "mm", format: paper });
+  const fontFamily = await loadRobotoFonts(doc);
+
+  const { width: pageWidth, height: pageHeight } = PAPER_SIZES[paper];
+  const contentWidth = pageWidth - MARGIN * 2;
+  const chartTop = MARGIN + PAGE_HEADER_HEIGHT;
+  const chartHeight = pageHeight - chartTop - MARGIN - FOOTER_HEIGHT;
+
+  const now = new Date();
+  const printedOn = fmtDate(now);
+
+  // Sheet size in layout px: the sidebar and date header come off the top
+  const probe = tileSize(layout, { x: 0, width: 0, rowStart: 0, rowEnd: 0, pageRow: 0, pageColumn: 0 });
+  const tiles = tileGanttPrintLayout(
+    layout,
+    contentWidth / SCALE - probe.width,
+    chartHeight / SCALE - probe.height
+  );
+  const sheetColumns = Math.max(...tiles.map((t) => t.pageColumn)) + 1;
+  const sheetRows = Math.max(...tiles.map((t) => t.pageRow)) + 1;
+
+  // ------------------------------------------------------------------
+  // Painter — layout px → mm, offset to the chart area
+  // ------------------------------------------------------------------
+  const mm = (px: number) => px * SCALE;
+  const px = (value: number) => MARGIN + mm(value);
+  const py = (value: number) => chartTop + mm(value);
+  const setFont = (size: number, bold?: boolean) => {
+    doc.setFont(fontFamily, bold ? "bold" : "normal");
+    doc.setFontSize(mm(size) * PT_PER_MM);
+  };
+
+  const painter: GanttPainter = {
+    rect(x, y, w, h, fill) {
+      doc.setFillColor(fill);
+      doc.rect(px(x), py(y), mm(w), mm(h), "F");
+    },
+    line(x1, y1, x2, y2, color, width = 1) {
+      doc.setDrawColor(color);
+      doc.setLineWidth(mm(width));
+      doc.line(px(x1), py(y1), px(x2), py(y2));
+    },
+    polygon(points, fill) {
+      doc.setFillColor(fill);
+      const [first, ...rest] = points;
+      const segments = rest.map(([x, y], i) => {
+        const [prevX, prevY] = i === 0 ? first : rest[i - 1];
+        return [mm(x - prevX), mm(y - prevY)];
+      });
+      doc.lines(segments, px(first[0]), py(first[1]), [1, 1], "F", true);
+    },
+    text(value, x, y, style) {
+      if (!value) return;
+      setFont(style.size, style.bold);
+      doc.setTextColor(style.color);
+      doc.text(value, px(x), py(y), { align: style.align ?? "left", baseline: "middle" });
+    },
+    measure(value, size, bold) {
+      setFont(size, bold);
+      return doc.getTextWidth(value) / SCALE;
+    },
+    clip(x, y, w, h, draw) {
+      doc.saveGraphicsState();
+      doc.rect(px(x), py(y), mm(w), mm(h), null);
+      doc.clip();
+      doc.discardPath();
+      draw();
+      doc.restoreGraphicsState();
+    },
+  };
+
+  // ------------------------------------------------------------------
+  // Page header — brand, title, which part of the chart this sheet is
+  // ------------------------------------------------------------------
+  function drawPageHeader(tile: (typeof tiles)[number]) {
+    let y = MARGIN;
+    doc.setFontSize(8);
+    doc.setTextColor(COLORS.tealDark);
+    doc.setFont(fontFamily, "bold");
+    doc.text("Formula Contract", MARGIN, y + 3);
+
+    doc.setFontSize(11);
+    doc.setTextColor(COLORS.textPrimary);
+    doc.text(title, MARGIN, y + 8.5);
+
+    doc.setFontSize(7);
+    doc.setTextColor(COLORS.textMuted);
+    doc.setFont(fontFamily, "normal");
+    doc.text([subtitle, viewLabel].filter(Boolean).join("  •  "), MARGIN, y + 12);
+
+    const rx = pageWidth - MARGIN;
+    doc.setFontSize(6);
+    doc.setTextColor(COLORS.tealDark);
+    doc.setFont(fontFamily, "bold");
+    doc.text("SHEET", rx, y + 3, { align: "right" });
+
+    doc.setFontSize(9);
+    doc.setTextColor(COLORS.textPrimary);
+    doc.text(
+      sheetRows > 1 ? `Row ${tile.pageRow + 1} / ${sheetRows}  ·  Part ${tile.pageColumn + 1} / ${sheetColumns}` : `Part ${tile.pageColumn + 1} / ${sheetColumns}`,
+      rx,
+      y + 8,
+      { align: "right" }
+    );
+
+    doc.setFontSize(6.5);
+    doc.setTextColor(COLORS.textMuted);
+    doc.setFont(fontFamily, "normal");
+    doc.text(`Rows ${tile.rowStart + 1}–${tile.rowEnd} of ${layout.rows.length}`, rx, y + 12, { align: "right" });
+
+    y += PAGE_HEADER_HEIGHT - 2;
+    doc.setFillColor(COLORS.teal);
+    doc.rect(MARGIN, y, contentWidth, 0.5, "F");
+  }
+
+  function drawFooter(pageNum: number, totalPages: number) {
+    const fy = pageHeight - MARGIN - 1;
+    doc.setDrawColor(COLORS.border);
+    doc.setLineWidth(0.3);
+    doc.line(MARGIN, fy - 4, pageWidth - MARGIN, fy - 4);
+
+    doc.setFontSize(6);
+    doc.setFont(fontFamily, "bold");
+    doc.setTextColor(COLORS.tealDark);
+    doc.text("Formula Contract", MARGIN, fy);
+
+    doc.setFont(fontFamily, "normal");
+    doc.setTextColor(COLORS.textLight);
+    doc.text(`Printed ${printedOn}`, pageWidth / 2, fy, { align: "center" });
+
+    doc.setTextColor(COLORS.textMuted);
+    doc.text(`Page ${pageNum} of ${totalPages}`, pageWidth - MARGIN, fy, { align: "right" });
+  }
+
+  // ====================================================================
+  // BUILD PDF
+  // ====================================================================
+
+  tiles.forEach((tile, i) => {
+    if (i > 0) doc.addPage();
+    drawPageHeader(tile);
+    drawGanttTile(painter, layout, tile);
+    drawFooter(i + 1, tiles.length);
+  });
+
+  const safeName = fileBaseName.replace(/[^a-zA-Z0-9-_]+/g, "_").replace(/^_+|_+$/g, "") || "Timeline";
+  const fileName = `${safeName}_${paper.toUpperCase()}_${now.toISOString().split("T")[0]}.pdf`;
+  return { doc, fileName };
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Generate the tiled Gantt PDF and trigger browser download
+ */
+export async function downloadGanttPdf(options: GenerateGanttPdfOptions): Promise<boolean> {
+  try {
+    const { doc, fileName } = await generateGanttDocument(options);
+    doc.save(fileName);
+    return true;
+  } catch (error) {
+    console.error("Error generating Gantt PDF:", error);
+    return false;
+  }
+}
@@ -0,0 +1,414 @@
+/**
+ * Snag List PDF Generator
+ *
+ * Printable punch list for client walk-downs:
+ * - Open snags grouped by floor, then by project area
+ * - Up to two photo thumbnails per snag
+ * - Severity, scope item, responsible user and fix-by date
+ * - Sign-off boxes per snag (contractor fixed / client accepted)
+ * - Same print-friendly styling as the report PDF (teal accents, light header)
+ */
+
+import type { Snagging } from "@/lib/actions/snagging";
+import {
+  SNAG_SEVERITY_LABELS,
+  SNAG_CATEGORY_LABELS,
+  groupSnagListByArea,
+  snagDaysOverdue,
+  type SnagListArea,
+} from "@/lib/snagging";
+import {
+  calculateFitDimensions,
+  loadImageWithDimensions,
+} from "./image-helpers";
+
+export interface GenerateSnagListPdfOptions {
+  projectName: string;
+  projectCode: string;
+  /** Snags to print; resolved snags are skipped */
+  snags: Snagging[];
+  /** Project areas in display order (floor, sort_order, name) */
+  areas: SnagListArea[];
+}
+
+// ============================================================================
+// Colors — print-friendly palette (matches generate-report-pdf.ts)
+// ============================================================================
+const COLORS = {
+  teal: "#14b8a6",
+  tealDark: "#0d9488",
+  tealSlim: "#5eead4",
+  textPrimary: "#1f2937",
+  textSecondary: "#4b5563",
+  textMuted: "#6b7280",
+  textLight: "#9ca3af",
+  border: "#e5e7eb",
+  borderDark: "#9ca3af",
+  placeholder: "#f0f1f3",
+  critical: "#dc2626",
+  major: "#d97706",
+  minor: "#6b7280",
+};
+
+// ============================================================================
+// Layout constants (mm)
+// ============================================================================
+const MARGIN = 14;
+const FOOTER_HEIGHT = 12;
+const ROW_HEIGHT = 34;
+const THUMB_SIZE = 24;
+const THUMB_GAP = 2;
+const SIGNOFF_WIDTH = 46;
+
+function fmtDate(d: string): string {
+  const dt = new Date(d);
+  return `${String(dt.getDate()).padStart(2, "0")}.${String(dt.getMonth() + 1).padStart(2, "0")}.${dt.getFullYear()}`;
+}
+
+/**
+ * Internal PDF generation — creates the jsPDF document
+ */
+async function generateSnagListDocument(options: GenerateSnagListPdfOptions): Promise<{
+  doc: import("jspdf").jsPDF;
+  fileName: string;
+}> {
+  const { projectName, projectCode } = options;
+  const groups = groupSnagListByArea(options.snags, options.areas);
+  const openSnags = groups.flatMap((g) => g.snags);
+
+  // Dynamic imports (client-side only)
+  const [{ jsPDF }, { loadRobotoFonts }] = await Promise.all([
+    import("jspdf"),
+    import("@/lib/fonts/roboto-loader"),
+  ]);
+
+  const doc = new jsPDF({ orientation: "portrait", unit: "mm", format: "a4" });
+  const fontFamily = await loadRobotoFonts(doc);
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - MARGIN * 2;
+  const maxContentY = pageHeight - MARGIN - FOOTER_HEIGHT;
+
+  const now = new Date();
+  const printedOn = fmtDate(now.toISOString());
+  const criticalCount = openSnags.filter((s) => s.severity === "critical").length;
+  const overdueCount = openSnags.filter((s) => snagDaysOverdue(s, now) > 0).length;
+
+  let y = MARGIN;
+
+  // ------------------------------------------------------------------
+  // Page 1 header — brand, project, summary counts
+  // ------------------------------------------------------------------
+  function drawPage1Header() {
+    doc.setFontSize(13);
+    doc.setTextColor(COLORS.tealDark);
+    doc.setFont(fontFamily, "bold");
+    doc.text("Formula Contract", MARGIN, y + 4);
+
+    doc.setFontSize(11);
+    doc.setTextColor(COLORS.textPrimary);
+    doc.text(projectName, MARGIN, y + 10);
+
+    doc.setFontSize(8);
+    doc.setTextColor(COLORS.textMuted);
+    doc.setFont(fontFamily, "normal");
+    doc.text(`${projectCode}  •  Snag List`, MARGIN, y + 14.5);
+
+    const rx = pageWidth - MARGIN;
+    doc.setFontSize(6);
+    doc.setTextColor(COLORS.tealDark);
+    doc.setFont(fontFamily, "bold");
+    doc.text("PRINTED", rx, y + 2, { align: "right" });
+
+    doc.setFontSize(10);
+    doc.setTextColor(COLORS.textPrimary);
+    doc.text(printedOn, rx, y + 6.5, { align: "right" });
+
+    doc.setFontSize(6.5);
+    doc.setTextColor(COLORS.textMuted);
+    doc.setFont(fontFamily, "normal");
+    doc.text(`${openSnags.length} open snag${openSnags.length !== 1 ? "s" : ""}`, rx, y + 10, { align: "right" });
+    doc.text(`${criticalCount} critical  •  ${overdueCount} past SLA`, rx, y + 13, { align: "right" });
+
+    y += 17;
+    doc.setFillColor(COLORS.teal);
+    doc.rect(MARGIN, y, contentWidth, 0.7, "F");
+    y += 7;
+  }
+
+  // ------------------------------------------------------------------
+  // Page 2+ header — compact single line
+  // ------------------------------------------------------------------
+  function drawContinuationHeader() {
+    const ty = y + 4;
+    doc.setFontSize(8);
+    doc.setTextColor(COLORS.tealDark);
+    doc.setFont(fontFamily, "bold");
+    doc.text("Formula Contract", MARGIN, ty);
+
+    doc.setFontSize(7);
+    doc.setTextColor(COLORS.textMuted);
+    doc.setFont(fontFamily, "normal");
+    doc.text(`${projectName}  •  ${projectCode}  •  Snag List`, pageWidth - MARGIN, ty, { align: "right" });
+
+    y += 7;
+    doc.setFillColor(COLORS.tealSlim);
+    doc.rect(MARGIN, y, contentWidth, 0.4, "F");
+    y += 5;
+  }
+
+  function drawFooter(pageNum: number, totalPages: number) {
+    const fy = pageHeight - MARGIN - 3;
+    doc.setDrawColor(COLORS.border);
+    doc.setLineWidth(0.3);
+    doc.line(MARGIN, fy - 4, pageWidth - MARGIN, fy - 4);
+
+    doc.setFontSize(6);
+    doc.setFont(fontFamily, "bold");
+    doc.setTextColor(COLORS.tealDark);
+    doc.text("Formula Contract", MARGIN, fy);
+
+    doc.setFont(fontFamily, "normal");
+    doc.setTextColor(COLORS.textLight);
+    doc.text(`Printed ${printedOn}`, pageWidth / 2, fy, { align: "center" });
+
+    doc.setTextColor(COLORS.textMuted);
+    doc.text(`Page ${pageNum} of ${totalPages}`, pageWidth - MARGIN, fy, { align: "right" });
+  }
+
+  function checkPageBreak(neededHeight: number): boolean {
+    if (y + neededHeight > maxContentY) {
+      doc.addPage();
+      y = MARGIN;
+      drawContinuationHeader();
+      return true;
+    }
+    return false;
+  }
+
+  function drawFloorHeading(floor: string) {
+    doc.setFontSize(10);
+    doc.setTextColor(COLORS.teal);
+    doc.setFont(fontFamily, "bold");
+    doc.text(floor.toUpperCase(), MARGIN, y + 4);
+    y += 6;
+    doc.setFillColor(COLORS.textPrimary);
+    doc.rect(MARGIN, y, contentWidth, 0.4, "F");
+    y += 4;
+  }
+
+  function drawAreaHeading(label: string, count: number) {
+    doc.setFontSize(8.5);
+    doc.setTextColor(COLORS.textPrimary);
+    doc.setFont(fontFamily, "bold");
+    doc.text(label, MARGIN, y + 3);
+    doc.setFont(fontFamily, "normal");
+    doc.setTextColor(COLORS.textMuted);
+    doc.text(`${count} snag${count !== 1 ? "s" : ""}`, pageWidth - MARGIN, y + 3, { align: "right" });
+    y += 6;
+  }
+
+  // ------------------------------------------------------------------
+  // Thumbnail — fit inside a square frame, centered on a light background
+  // ------------------------------------------------------------------
+  async function drawThumbnail(url: string, x: number, ty: number) {
+    doc.setFillColor(COLORS.placeholder);
+    doc.rect(x, ty, THUMB_SIZE, THUMB_SIZE, "F");
+
+    const image = await loadImageWithDimensions(url);
+    if (!image) {
+      doc.setFontSize(6);
+      doc.setTextColor(COLORS.textLight);
+      doc.text("Photo", x + THUMB_SIZE / 2, ty + THUMB_SIZE / 2, { align: "center" });
+      return;
+    }
+
+    const { width, height } = calculateFitDimensions(image.width, image.height, THUMB_SIZE, THUMB_SIZE);
+    doc.addImage(
+      image.base64,
+      "JPEG",
+      x + (THUMB_SIZE - width) / 2,
+      ty + (THUMB_SIZE - height) / 2,
+      width,
+      height
+    );
+  }
+
+  // ------------------------------------------------------------------
+  // Sign-off box: checkbox + label + signature/date line
+  // ------------------------------------------------------------------
+  function drawSignOffBox(label: string, x: number, by: number, h: number) {
+    doc.setDrawColor(COLORS.borderDark);
+    doc.setLineWidth(0.25);
+    doc.rect(x, by, SIGNOFF_WIDTH, h);
+    doc.rect(x + 2, by + 2, 3, 3);
+
+    doc.setFontSize(6.5);
+    doc.setTextColor(COLORS.textSecondary);
+    doc.setFont(fontFamily, "bold");
+    doc.text(label, x + 6.5, by + 4.5);
+
+    doc.setFont(fontFamily, "normal");
+    doc.setFontSize(5.5);
+    doc.setTextColor(COLORS.textLight);
+    doc.line(x + 2, by + h - 3, x + SIGNOFF_WIDTH * 0.6, by + h - 3);
+    doc.text("Signature", x + 2, by + h - 1);
+    doc.line(x + SIGNOFF_WIDTH * 0.65, by + h - 3, x + SIGNOFF_WIDTH - 2, by + h - 3);
+    doc.text("Date", x + SIGNOFF_WIDTH * 0.65, by + h - 1);
+  }
+
+  async function drawSnagRow(snag: Snagging, index: number) {
+    checkPageBreak(ROW_HEIGHT + 2);
+    const top = y;
+
+    doc.setDrawColor(COLORS.border);
+    doc.setLineWidth(0.3);
+    doc.rect(MARGIN, top, contentWidth, ROW_HEIGHT);
+
+    // --- Thumbnails (left) ---
+    const photos = (snag.photos || []).slice(0, 2);
+    const thumbsX = MARGIN + 3;
+    const thumbY = top + (ROW_HEIGHT - THUMB_SIZE) / 2;
+    if (photos.length === 0) {
+      doc.setFillColor(COLORS.placeholder);
+      doc.rect(thumbsX, thumbY, THUMB_SIZE, THUMB_SIZE, "F");
+      doc.setFontSize(6);
+      doc.setTextColor(COLORS.textLight);
+      doc.setFont(fontFamily, "normal");
+      doc.text("No photo", thumbsX + THUMB_SIZE / 2, thumbY + THUMB_SIZE / 2, { align: "center" });
+    }
+    for (let p = 0; p < photos.length; p++) {
+      try {
+        await drawThumbnail(photos[p], thumbsX + p * (THUMB_SIZE + THUMB_GAP), thumbY);
+      } catch {
+        // Leave the placeholder frame drawn by drawThumbnail
+      }
+    }
+
+    // --- Details (middle) ---
+    const textX = thumbsX + 2 * THUMB_SIZE + THUMB_GAP + 4;
+    const signX = MARGIN + contentWidth - SIGNOFF_WIDTH - 3;
+    const textW = signX - textX - 4;
+
+    doc.setFontSize(9);
+    doc.setTextColor(COLORS.teal);
+    doc.setFont(fontFamily, "bold");
+    const numStr = String(index).padStart(2, "0");
+    doc.text(numStr, textX, top + 5.5);
+    const numW = doc.getTextWidth(numStr) + 2;
+
+    doc.setFontSize(6.5);
+    doc.setTextColor(COLORS[snag.severity]);
+    const severity = SNAG_SEVERITY_LABELS[snag.severity].toUpperCase();
+    doc.text(severity, textX + numW, top + 5.5);
+    let metaX = textX + numW + doc.getTextWidth(severity) + 2;
+
+    if (snag.category) {
+      doc.setTextColor(COLORS.textMuted);
+      doc.setFont(fontFamily, "normal");
+      doc.text(SNAG_CATEGORY_LABELS[snag.category], metaX, top + 5.5);
+      metaX += doc.getTextWidth(SNAG_CATEGORY_LABELS[snag.category]) + 2;
+    }
+    if (snag.item) {
+      doc.setTextColor(COLORS.textMuted);
+      doc.setFont(fontFamily, "normal");
+      doc.text(snag.item.item_code, metaX, top + 5.5);
+    }
+
+    doc.setFontSize(8);
+    doc.setTextColor(COLORS.textPrimary);
+    doc.setFont(fontFamily, "normal");
+    const descLines = (doc.splitTextToSize(snag.description, textW) as string[]).slice(0, 4);
+    for (let l = 0; l < descLines.length; l++) {
+      doc.text(descLines[l], textX, top + 10.5 + l * 3.6);
+    }
+
+    const daysOverdue = snagDaysOverdue(snag, now);
+    doc.setFontSize(6.5);
+    doc.setTextColor(COLORS.textMuted);
+    doc.text(
+      `Responsible: ${snag.assignee?.name ?? "Unassigned"}  •  Reported ${fmtDate(snag.created_at)}`,
+      textX,
+      top + ROW_HEIGHT - 6.5
+    );
+    if (snag.target_fix_date) {
+      doc.setTextColor(daysOverdue > 0 ? COLORS.critical : COLORS.textMuted);
+      doc.text(
+        `Fix by ${fmtDate(snag.target_fix_date)}${daysOverdue > 0 ? ` (${daysOverdue}d overdue)` : ""}`,
+        textX,
+        top + ROW_HEIGHT - 3
+      );
+    }
+
+    // --- Sign-off boxes (right) ---
+    const boxH = (ROW_HEIGHT - 6) / 2;
+    drawSignOffBox("Fixed — Contractor", signX, top + 2, boxH);
+    drawSignOffBox("Accepted — Client", signX, top + 4 + boxH, boxH);
+
+    y = top + ROW_HEIGHT + 2;
+  }
+
+  // ====================================================================
+  // BUILD PDF
+  // ====================================================================
+
+  drawPage1Header();
+
+  if (openSnags.length === 0) {
+    doc.setFontSize(9);
+    doc.setTextColor(COLORS.textMuted);
+    doc.setFont(fontFamily, "normal");
+    doc.text("There are no open snags on this project.", MARGIN, y);
+  }
+
+  let currentFloor: string | null = null;
+  let snagNumber = 0;
+
+  for (const group of groups) {
+    // Keep headings with at least the first row
+    const headingH = (group.floor !== currentFloor ? 10 : 0) + 6;
+    checkPageBreak(headingH + ROW_HEIGHT + 2);
+
+    if (group.floor !== currentFloor) {
+      drawFloorHeading(group.floor);
+      currentFloor = group.floor;
+    }
+    drawAreaHeading(group.areaLabel, group.snags.length);
+
+    for (const snag of group.snags) {
+      snagNumber++;
+      await drawSnagRow(snag, snagNumber);
+    }
+    y += 3;
+  }
+
+  const totalPages = doc.internal.pages.length - 1;
+  for (let p = 1; p <= totalPages; p++) {
+    doc.setPage(p);
+    drawFooter(p, totalPages);
+  }
+
+  const fileName = `${projectCode}_Snag_List_${now.toISOString().split("T")[0]}.pdf`;
+  return { doc, fileName };
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Generate the snag list PDF and trigger browser download
+ */
+export async function downloadSnagListPdf(
+  options: GenerateSnagListPdfOptions
+): Promise<boolean> {
+  try {
+    const { doc, fileName } = await generateSnagListDocument(options);
+    doc.save(fileName);
+    return true;
+  } catch (error) {
+    console.error("Error generating snag list PDF:", error);
+    return false;
+  }
+}
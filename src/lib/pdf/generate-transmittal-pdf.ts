@@ -0,0 +1,397 @@
+/**
+ * Drawing Transmittal PDF Generator
+ *
+ * Numbered transmittal sheet for the client's document control:
+ * - Transmittal number, date, sender, recipients
+ * - Purpose tick boxes (for approval / for construction / for information)
+ * - Drawing schedule: item code, description, revision, file
+ * - Acknowledgement block per recipient — the in-app acknowledgement time,
+ *   or signature and date lines when still outstanding
+ * - Same print-friendly styling as the snag list PDF (teal accents, light header)
+ */
+
+import type { DrawingTransmittal } from "@/lib/actions/drawing-transmittals";
+import { TRANSMITTAL_PURPOSES, TRANSMITTAL_PURPOSE_LABELS } from "@/lib/drawing-transmittals";
+
+export interface GenerateTransmittalPdfOptions {
+  projectName: string;
+  projectCode: string;
+  transmittal: DrawingTransmittal;
+}
+
+// ============================================================================
+// Colors — print-friendly palette (matches generate-snag-list-pdf.ts)
+// ============================================================================
+const COLORS = {
+  teal: "#14b8a6",
+  tealDark: "#0d9488",
+  tealSlim: "#5eead4",
+  textPrimary: "#1f2937",
+  textSecondary: "#4b5563",
+  textMuted: "#6b7280",
+  textLight: "#9ca3af",
+  border: "#e5e7eb",
+  borderDark: "#9ca3af",
+  headerFill: "#f3f4f6",
+};
+
+// ============================================================================
+// Layout constants (mm)
+// ============================================================================
+const MARGIN = 14;
+const FOOTER_HEIGHT = 12;
+const TABLE_ROW_HEIGHT = 7;
+const ACK_ROW_HEIGHT = 14;
+
+function fmtDate(d: string): string {
+  const dt = new Date(d);
+  return `${String(dt.getDate()).padStart(2, "0")}.${String(dt.getMonth() + 1).padStart(2, "0")}.${dt.getFullYear()}`;
+}
+
+function fmtDateTime(d: string): string {
+  const dt = new Date(d);
+  return `${fmtDate(d)} ${String(dt.getHours()).padStart(2, "0")}:${String(dt.getMinutes()).padStart(2, "0")}`;
+}
+
+/**
+ * Internal PDF generation — creates the jsPDF document
+ */
+async function generateTransmittalDocument(options: GenerateTransmittalPdfOptions): Promise<{
+  doc: import("jspdf").jsPDF;
+  fileName: string;
+}> {
+  const { projectName, projectCode, transmittal } = options;
+
+  // Dynamic imports (client-side only)
+  const [{ jsPDF }, { loadRobotoFonts }] = await Promise.all([
+    import("jspdf"),
+    import("@/lib/fonts/roboto-loader"),
+  ]);
+
+  const doc = new jsPDF({ orientation: "portrait", unit: "mm", format: "a4" });
+  const fontFamily = await loadRobotoFonts(doc);
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - MARGIN * 2;
+  const maxContentY = pageHeight - MARGIN - FOOTER_HEIGHT;
+  const issuedOn = fmtDate(transmittal.sentAt);
+
+  // Drawing schedule columns: No. | Item | Description | Rev | File
+  const columns = [
+    { label: "No.", width: 10 },
+    { label: "Item Code", width: 28 },
+    { label: "Description", width: 66 },
+    { label: "Rev", width: 12 },
+    { label: "File", width: contentWidth - 116 },
+  ];
+
+  let y = MARGIN;
+
+  // ------------------------------------------------------------------
+  // Page 1 header — brand, project, transmittal number
+  // ------------------------------------------------------------------
+  function drawPage1Header() {
+    doc.setFontSize(13);
+    doc.setTextColor(COLORS.tealDark);
+    doc.setFont(fontFamily, "bold");
+    doc.text("Formula Contract", MARGIN, y + 4);
+
+    doc.setFontSize(11);
+    doc.setTextColor(COLORS.textPrimary);
+    doc.text(projectName, MARGIN, y + 10);
+
+    doc.setFontSize(8);
+    doc.setTextColor(COLORS.textMuted);
+    doc.setFont(fontFamily, "normal");
+    doc.text(`${projectCode}  •  Drawing Transmittal`, MARGIN, y + 14.5);
+
+    const rx = pageWidth - MARGIN;
+    doc.setFontSize(6);
+    doc.setTextColor(COLORS.tealDark);
+    doc.setFont(fontFamily, "bold");
+    doc.text("TRANSMITTAL", rx, y + 2, { align: "right" });
+
+    doc.setFontSize(12);
+    doc.setTextColor(COLORS.textPrimary);
+    doc.text(transmittal.code, rx, y + 8, { align: "right" });
+
+    doc.setFontSize(7);
+    doc.setTextColor(COLORS.textMuted);
+    doc.setFont(fontFamily, "normal");
+    doc.text(`Issued ${issuedOn}`, rx, y + 12.5, { align: "right" });
+
+    y += 17;
+    doc.setFillColor(COLORS.teal);
+    doc.rect(MARGIN, y, contentWidth, 0.7, "F");
+    y += 7;
+  }
+
+  // ------------------------------------------------------------------
+  // Page 2+ header — compact single line
+  // ------------------------------------------------------------------
+  function drawContinuationHeader() {
+    const ty = y + 4;
+    doc.setFontSize(8);
+    doc.setTextColor(COLORS.tealDark);
+    doc.setFont(fontFamily, "bold");
+    doc.text("Formula Contract", MARGIN, ty);
+
+    doc.setFontSize(7);
+    doc.setTextColor(COLORS.textMuted);
+    doc.setFont(fontFamily, "normal");
+    doc.text(`${projectName}  •  ${transmittal.code}`, pageWidth - MARGIN, ty, { align: "right" });
+
+    y += 7;
+    doc.setFillColor(COLORS.tealSlim);
+    doc.rect(MARGIN, y, contentWidth, 0.4, "F");
+    y += 5;
+  }
+
+  function drawFooter(pageNum: number, totalPages: number) {
+    const fy = pageHeight - MARGIN - 3;
+    doc.setDrawColor(COLORS.border);
+    doc.setLineWidth(0.3);
+    doc.line(MARGIN, fy - 4, pageWidth - MARGIN, fy - 4);
+
+    doc.setFontSize(6);
+    doc.setFont(fontFamily, "bold");
+    doc.setTextColor(COLORS.tealDark);
+    doc.text("Formula Contract", MARGIN, fy);
+
+    doc.setFont(fontFamily, "normal");
+    doc.setTextColor(COLORS.textLight);
+    doc.text(transmittal.code, pageWidth / 2, fy, { align: "center" });
+
+    doc.setTextColor(COLORS.textMuted);
+    doc.text(`Page ${pageNum} of ${totalPages}`, pageWidth - MARGIN, fy, { align: "right" });
+  }
+
+  function checkPageBreak(neededHeight: number): boolean {
+    if (y + neededHeight > maxContentY) {
+      doc.addPage();
+      y = MARGIN;
+      drawContinuationHeader();
+      return true;
+    }
+    return false;
+  }
+
+  function drawSectionHeading(label: string) {
+    doc.setFontSize(8);
+    doc.setTextColor(COLORS.teal);
+    doc.setFont(fontFamily, "bold");
+    doc.text(label.toUpperCase(), MARGIN, y + 3);
+    y += 5;
+  }
+
+  // ------------------------------------------------------------------
+  // From / To / Purpose block
+  // ------------------------------------------------------------------
+  function drawDetails() {
+    const labelW = 22;
+    const recipients = transmittal.recipients.map((r) => r.name).join(", ") || "—";
+
+    const rows: [string, string][] = [
+      ["From", transmittal.sentByName ?? "Formula Contract"],
+      ["To", recipients],
+      ["Date", issuedOn],
+    ];
+
+    doc.setFontSize(8);
+    for (const [label, value] of rows) {
+      doc.setFont(fontFamily, "bold");
+      doc.setTextColor(COLORS.textSecondary);
+      doc.text(label, MARGIN, y + 3);
+      doc.setFont(fontFamily, "normal");
+      doc.setTextColor(COLORS.textPrimary);
+      const lines = doc.splitTextToSize(value, contentWidth - labelW) as string[];
+      doc.text(lines, MARGIN + labelW, y + 3);
+      y += Math.max(1, lines.length) * 3.6 + 1.5;
+    }
+
+    // Purpose tick boxes
+    doc.setFont(fontFamily, "bold");
+    doc.setTextColor(COLORS.textSecondary);
+    doc.text("Purpose", MARGIN, y + 3);
+    let px = MARGIN + labelW;
+    doc.setFont(fontFamily, "normal");
+    for (const purpose of TRANSMITTAL_PURPOSES) {
+      doc.setDrawColor(COLORS.borderDark);
+      doc.setLineWidth(0.25);
+      doc.rect(px, y + 0.6, 3, 3);
+      if (purpose === transmittal.purpose) {
+        doc.setFillColor(COLORS.tealDark);
+        doc.rect(px + 0.6, y + 1.2, 1.8, 1.8, "F");
+      }
+      doc.setTextColor(purpose === transmittal.purpose ? COLORS.textPrimary : COLORS.textMuted);
+      const label = TRANSMITTAL_PURPOSE_LABELS[purpose];
+      doc.text(label, px + 4.5, y + 3);
+      px += doc.getTextWidth(label) + 12;
+    }
+    y += 8;
+
+    if (transmittal.notes) {
+      drawSectionHeading("Notes");
+      doc.setFontSize(8);
+      doc.setFont(fontFamily, "normal");
+      doc.setTextColor(COLORS.textPrimary);
+      const lines = doc.splitTextToSize(transmittal.notes, contentWidth) as string[];
+      for (const line of lines) {
+        checkPageBreak(4);
+        doc.text(line, MARGIN, y + 3);
+        y += 3.6;
+      }
+      y += 4;
+    }
+  }
+
+  // ------------------------------------------------------------------
+  // Drawing schedule
+  // ------------------------------------------------------------------
+  function drawTableHeader() {
+    doc.setFillColor(COLORS.headerFill);
+    doc.rect(MARGIN, y, contentWidth, TABLE_ROW_HEIGHT, "F");
+    doc.setFontSize(7);
+    doc.setFont(fontFamily, "bold");
+    doc.setTextColor(COLORS.textSecondary);
+    let x = MARGIN;
+    for (const col of columns) {
+      doc.text(col.label, x + 1.5, y + 4.6);
+      x += col.width;
+    }
+    y += TABLE_ROW_HEIGHT;
+  }
+
+  function fit(text: string, width: number): string {
+    if (doc.getTextWidth(text) <= width) return text;
+    let fitted = text;
+    while (fitted.length > 1 && doc.getTextWidth(`${fitted}…`) > width) fitted = fitted.slice(0, -1);
+    return `${fitted}…`;
+  }
+
+  function drawSchedule() {
+    drawSectionHeading(`Drawings (${transmittal.items.length})`);
+    drawTableHeader();
+
+    transmittal.items.forEach((item, index) => {
+      if (checkPageBreak(TABLE_ROW_HEIGHT)) drawTableHeader();
+
+      doc.setDrawColor(COLORS.border);
+      doc.setLineWidth(0.2);
+      doc.line(MARGIN, y + TABLE_ROW_HEIGHT, MARGIN + contentWidth, y + TABLE_ROW_HEIGHT);
+
+      const cells = [
+        String(index + 1).padStart(2, "0"),
+        item.itemCode,
+        item.itemName,
+        item.revision ?? "-",
+        item.fileName ?? "-",
+      ];
+      doc.setFontSize(7.5);
+      let x = MARGIN;
+      cells.forEach((cell, c) => {
+        doc.setFont(fontFamily, c === 1 || c === 3 ? "bold" : "normal");
+        doc.setTextColor(c === 4 ? COLORS.textMuted : COLORS.textPrimary);
+        doc.text(fit(cell, columns[c].width - 3), x + 1.5, y + 4.6);
+        x += columns[c].width;
+      });
+      y += TABLE_ROW_HEIGHT;
+    });
+    y += 6;
+  }
+
+  // ------------------------------------------------------------------
+  // Acknowledgement block
+  // ------------------------------------------------------------------
+  function drawAcknowledgements() {
+    checkPageBreak(5 + ACK_ROW_HEIGHT);
+    drawSectionHeading("Acknowledgement of receipt");
+
+    if (transmittal.recipients.length === 0) {
+      doc.setFontSize(8);
+      doc.setFont(fontFamily, "normal");
+      doc.setTextColor(COLORS.textMuted);
+      doc.text("No client recipients were assigned when this transmittal was issued.", MARGIN, y + 3);
+      y += 6;
+      return;
+    }
+
+    for (const recipient of transmittal.recipients) {
+      checkPageBreak(ACK_ROW_HEIGHT + 2);
+      doc.setDrawColor(COLORS.border);
+      doc.setLineWidth(0.3);
+      doc.rect(MARGIN, y, contentWidth, ACK_ROW_HEIGHT);
+
+      doc.setFontSize(8);
+      doc.setFont(fontFamily, "bold");
+      doc.setTextColor(COLORS.textPrimary);
+      doc.text(recipient.name, MARGIN + 3, y + 5);
+      if (recipient.email) {
+        doc.setFont(fontFamily, "normal");
+        doc.setFontSize(6.5);
+        doc.setTextColor(COLORS.textMuted);
+        doc.text(recipient.email, MARGIN + 3, y + 9);
+      }
+
+      const rightX = MARGIN + contentWidth / 2;
+      if (recipient.acknowledgedAt) {
+        doc.setFontSize(7.5);
+        doc.setFont(fontFamily, "bold");
+        doc.setTextColor(COLORS.tealDark);
+        doc.text("Received", rightX, y + 5);
+        doc.setFont(fontFamily, "normal");
+        doc.setTextColor(COLORS.textSecondary);
+        doc.text(`Acknowledged in Formula Contract on ${fmtDateTime(recipient.acknowledgedAt)}`, rightX, y + 9);
+      } else {
+        doc.setFontSize(5.5);
+        doc.setTextColor(COLORS.textLight);
+        doc.setDrawColor(COLORS.borderDark);
+        doc.setLineWidth(0.25);
+        const lineY = y + ACK_ROW_HEIGHT - 4;
+        doc.line(rightX, lineY, rightX + 40, lineY);
+        doc.text("Signature", rightX, lineY + 2.5);
+        doc.line(rightX + 46, lineY, MARGIN + contentWidth - 3, lineY);
+        doc.text("Date", rightX + 46, lineY + 2.5);
+      }
+      y += ACK_ROW_HEIGHT + 2;
+    }
+  }
+
+  // ====================================================================
+  // BUILD PDF
+  // ====================================================================
+
+  drawPage1Header();
+  drawDetails();
+  drawSchedule();
+  drawAcknowledgements();
+
+  const totalPages = doc.internal.pages.length - 1;
+  for (let p = 1; p <= totalPages; p++) {
+    doc.setPage(p);
+    drawFooter(p, totalPages);
+  }
+
+  return { doc, fileName: `${transmittal.code}.pdf` };
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Generate the transmittal PDF and trigger browser download
+ */
+export async function downloadTransmittalPdf(
+  options: GenerateTransmittalPdfOptions
+): Promise<boolean> {
+  try {
+    const { doc, fileName } = await generateTransmittalDocument(options);
+    doc.save(fileName);
+    return true;
+  } catch (error) {
+    console.error("Error generating transmittal PDF:", error);
+    return false;
+  }
+}
@@ -433,15 +433,17 @@ describe("useUpdateTimelineDependency", () => {
       result.current.mutate({
         dependencyId: "dep-001",
         updates: { dependency_type: 1, lag_days: 2 },
+        expected: { dependency_type: 0, lag_days: 0 },
       });
     });
 
     await waitFor(() => expect(result.current.isSuccess).toBe(true));
 
-    expect(mockUpdateTimelineDependency).toHaveBeenCalledWith("dep-001", {
-      dependency_type: 1,
-      lag_days: 2,
-    });
+    expect(mockUpdateTimelineDependency).toHaveBeenCalledWith(
+      "dep-001",
+      { dependency_type: 1, lag_days: 2 },
+      { expected: { dependency_type: 0, lag_days: 0 } }
+    );
     expect(toast.success).toHaveBeenCalledWith("Dependency updated");
   });
 });
@@ -463,12 +465,12 @@ describe("useDeleteTimelineDependency", () => {
     );
 
     await act(async () => {
-      result.current.mutate("dep-001");
+      result.current.mutate({ dependencyId: "dep-001" });
     });
 
     await waitFor(() => expect(result.current.isSuccess).toBe(true));
 
-    expect(mockDeleteTimelineDependency).toHaveBeenCalledWith("dep-001");
+    expect(mockDeleteTimelineDependency).toHaveBeenCalledWith("dep-001", { expected: undefined });
     expect(toast.success).toHaveBeenCalledWith("Dependency deleted");
   });
 
@@ -487,7 +489,7 @@ describe("useDeleteTimelineDependency", () => {
     );
 
     await act(async () => {
-      result.current.mutate("dep-001");
+      result.current.mutate({ dependencyId: "dep-001" });
     });
 
     await waitFor(() => expect(result.current.isError).toBe(true));
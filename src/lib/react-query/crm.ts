@@ -0,0 +1,617 @@
+"use client";
+
+/**
+ * CRM React Query Hooks
+ *
+ * Query key factory + hooks for brands, architecture firms, contacts,
+ * opportunities, activities and brand ↔ firm links.
+ */
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  getCrmLookups,
+  // Brands
+  getBrands,
+  getBrand,
+  createBrand,
+  updateBrand,
+  deleteBrand,
+  // Firms
+  getFirms,
+  getFirm,
+  createFirm,
+  updateFirm,
+  deleteFirm,
+  // Contacts
+  getContacts,
+  createContact,
+  updateContact,
+  deleteContact,
+  // Opportunities
+  getOpportunities,
+  createOpportunity,
+  updateOpportunity,
+  updateOpportunityStage,
+  deleteOpportunity,
+  convertOpportunityToProject,
+  // Activities
+  getActivities,
+  createActivity,
+  updateActivity,
+  completeFollowUp,
+  deleteActivity,
+  // Links
+  linkBrandToFirm,
+  unlinkBrandFromFirm,
+  // Forecast
+  getForecastOpportunities,
+  exportCrmForecastToExcel,
+} from "@/lib/actions/crm";
+import type {
+  CrmActivityFilters,
+  CrmContactFilters,
+  CrmOpportunityStage,
+  CrmOpportunityWithRelations,
+} from "@/types/crm";
+import type {
+  ActivityFormData,
+  BrandFirmLinkFormData,
+  BrandFormData,
+  ContactFormData,
+  ConvertOpportunityFormData,
+  FirmFormData,
+  OpportunityFormData,
+} from "@/lib/validations/crm";
+
+// ============================================================================
+// Query Key Factory
+// ============================================================================
+
+const STALE_TIME = 60_000; // 60 seconds
+
+export const crmKeys = {
+  all: ["crm"] as const,
+  lookups: () => [...crmKeys.all, "lookups"] as const,
+  brands: () => [...crmKeys.all, "brands"] as const,
+  brandList: () => [...crmKeys.brands(), "list"] as const,
+  brandDetail: (id: string) => [...crmKeys.brands(), "detail", id] as const,
+  firms: () => [...crmKeys.all, "firms"] as const,
+  firmList: () => [...crmKeys.firms(), "list"] as const,
+  firmDetail: (id: string) => [...crmKeys.firms(), "detail", id] as const,
+  contacts: () => [...crmKeys.all, "contacts"] as const,
+  contactList: (filters?: CrmContactFilters) => [...crmKeys.contacts(), "list", filters] as const,
+  opportunities: () => [...crmKeys.all, "opportunities"] as const,
+  activities: () => [...crmKeys.all, "activities"] as const,
+  activityList: (filters?: CrmActivityFilters) => [...crmKeys.activities(), "list", filters] as const,
+  // Under opportunities so every opportunity write refreshes the forecast
+  forecast: () => [...crmKeys.opportunities(), "forecast"] as const,
+};
+
+// Brand and firm detail pages embed contacts, opportunities, links and
+// activities, so any CRM write refreshes both entity trees.
+function invalidateRelated(queryClient: ReturnType<typeof useQueryClient>) {
+  queryClient.invalidateQueries({ queryKey: crmKeys.brands() });
+  queryClient.invalidateQueries({ queryKey: crmKeys.firms() });
+}
+
+// ============================================================================
+// Lookup Hooks
+// ============================================================================
+
+export function useCrmLookups() {
+  return useQuery({
+    queryKey: crmKeys.lookups(),
+    queryFn: async () => {
+      const result = await getCrmLookups();
+      if (!result.success) throw new Error(result.error || "Failed to fetch CRM lookups");
+      return result.data!;
+    },
+    staleTime: STALE_TIME,
+  });
+}
+
+// ============================================================================
+// Brand Hooks
+// ============================================================================
+
+export function useBrands() {
+  return useQuery({
+    queryKey: crmKeys.brandList(),
+    queryFn: async () => {
+      const result = await getBrands();
+      if (!result.success) throw new Error(result.error || "Failed to fetch brands");
+      return result.data!;
+    },
+    staleTime: STALE_TIME,
+  });
+}
+
+export function useBrand(id: string) {
+  return useQuery({
+    queryKey: crmKeys.brandDetail(id),
+    queryFn: async () => {
+      const result = await getBrand(id);
+      if (!result.success) throw new Error(result.error || "Failed to fetch brand");
+      return result.data!;
+    },
+    staleTime: STALE_TIME,
+    enabled: !!id,
+  });
+}
+
+export function useCreateBrand() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (input: BrandFormData) => {
+      const result = await createBrand(input);
+      if (!result.success) throw new Error(result.error || "Failed to create brand");
+      return result.data!;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: crmKeys.brands() });
+      queryClient.invalidateQueries({ queryKey: crmKeys.lookups() });
+      toast.success("Brand created");
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+}
+
+export function useUpdateBrand() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, ...input }: BrandFormData & { id: string }) => {
+      const result = await updateBrand(id, input);
+      if (!result.success) throw new Error(result.error || "Failed to update brand");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: crmKeys.brands() });
+      queryClient.invalidateQueries({ queryKey: crmKeys.lookups() });
+      toast.success("Brand updated");
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+}
+
+export function useDeleteBrand() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const result = await deleteBrand(id);
+      if (!result.success) throw new Error(result.error || "Failed to delete brand");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: crmKeys.brands() });
+      queryClient.invalidateQueries({ queryKey: crmKeys.lookups() });
+      toast.success("Brand deleted");
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+}
+
+// ============================================================================
+// Firm Hooks
+// ============================================================================
+
+export function useFirms() {
+  return useQuery({
+    queryKey: crmKeys.firmList(),
+    queryFn: async () => {
+      const result = await getFirms();
+      if (!result.success) throw new Error(result.error || "Failed to fetch firms");
+      return result.data!;
+    },
+    staleTime: STALE_TIME,
+  });
+}
+
+export function useFirm(id: string) {
+  return useQuery({
+    queryKey: crmKeys.firmDetail(id),
+    queryFn: async () => {
+      const result = await getFirm(id);
+      if (!result.success) throw new Error(result.error || "Failed to fetch firm");
+      return result.data!;
+    },
+    staleTime: STALE_TIME,
+    enabled: !!id,
+  });
+}
+
+export function useCreateFirm() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (input: FirmFormData) => {
+      const result = await createFirm(input);
+      if (!result.success) throw new Error(result.error || "Failed to create firm");
+      return result.data!;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: crmKeys.firms() });
+      queryClient.invalidateQueries({ queryKey: crmKeys.lookups() });
+      toast.success("Firm created");
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+}
+
+export function useUpdateFirm() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, ...input }: FirmFormData & { id: string }) => {
+      const result = await updateFirm(id, input);
+      if (!result.success) throw new Error(result.error || "Failed to update firm");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: crmKeys.firms() });
+      queryClient.invalidateQueries({ queryKey: crmKeys.lookups() });
+      toast.success("Firm updated");
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+}
+
+export function useDeleteFirm() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const result = await deleteFirm(id);
+      if (!result.success) throw new Error(result.error || "Failed to delete firm");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: crmKeys.firms() });
+      queryClient.invalidateQueries({ queryKey: crmKeys.lookups() });
+      toast.success("Firm deleted");
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+}
+
+// ============================================================================
+// Contact Hooks
+// ============================================================================
+
+export function useContacts(filters?: CrmContactFilters) {
+  return useQuery({
+    queryKey: crmKeys.contactList(filters),
+    queryFn: async () => {
+      const result = await getContacts(filters);
+      if (!result.success) throw new Error(result.error || "Failed to fetch contacts");
+      return result.data!;
+    },
+    staleTime: STALE_TIME,
+  });
+}
+
+export function useCreateContact() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (input: ContactFormData) => {
+      const result = await createContact(input);
+      if (!result.success) throw new Error(result.error || "Failed to create contact");
+      return result.data!;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: crmKeys.contacts() });
+      invalidateRelated(queryClient);
+      toast.success("Contact created");
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+}
+
+export function useUpdateContact() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, ...input }: ContactFormData & { id: string }) => {
+      const result = await updateContact(id, input);
+      if (!result.success) throw new Error(result.error || "Failed to update contact");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: crmKeys.contacts() });
+      invalidateRelated(queryClient);
+      toast.success("Contact updated");
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+}
+
+export function useDeleteContact() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const result = await deleteContact(id);
+      if (!result.success) throw new Error(result.error || "Failed to delete contact");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: crmKeys.contacts() });
+      invalidateRelated(queryClient);
+      toast.success("Contact deleted");
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+}
+
+// ============================================================================
+// Opportunity Hooks
+// ============================================================================
+
+export function useOpportunities() {
+  return useQuery({
+    queryKey: crmKeys.opportunities(),
+    queryFn: async () => {
+      const result = await getOpportunities();
+      if (!result.success) throw new Error(result.error || "Failed to fetch opportunities");
+      return result.data!;
+    },
+    staleTime: STALE_TIME,
+  });
+}
+
+export function useCreateOpportunity() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (input: OpportunityFormData) => {
+      const result = await createOpportunity(input);
+      if (!result.success) throw new Error(result.error || "Failed to create opportunity");
+      return result.data!;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: crmKeys.opportunities() });
+      invalidateRelated(queryClient);
+      toast.success("Opportunity created");
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+}
+
+export function useUpdateOpportunity() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, ...input }: OpportunityFormData & { id: string }) => {
+      const result = await updateOpportunity(id, input);
+      if (!result.success) throw new Error(result.error || "Failed to update opportunity");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: crmKeys.opportunities() });
+      invalidateRelated(queryClient);
+      toast.success("Opportunity updated");
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+}
+
+/**
+ * Kanban stage change with an optimistic move — the card lands in the new
+ * column immediately and snaps back if the server rejects the update.
+ */
+export function useUpdateOpportunityStage() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({
+      id,
+      stage,
+      lossReason,
+    }: {
+      id: string;
+      stage: CrmOpportunityStage;
+      lossReason?: string | null;
+    }) => {
+      const result = await updateOpportunityStage(id, stage, lossReason);
+      if (!result.success) throw new Error(result.error || "Failed to move opportunity");
+    },
+    onMutate: async ({ id, stage }) => {
+      await queryClient.cancelQueries({ queryKey: crmKeys.opportunities() });
+      const previous = queryClient.getQueryData<CrmOpportunityWithRelations[]>(
+        crmKeys.opportunities()
+      );
+      queryClient.setQueryData<CrmOpportunityWithRelations[]>(crmKeys.opportunities(), (old) =>
+        old?.map((o) => (o.id === id ? { ...o, stage } : o))
+      );
+      return { previous };
+    },
+    onError: (error: Error, _vars, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(crmKeys.opportunities(), context.previous);
+      }
+      toast.error(error.message);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: crmKeys.opportunities() });
+      invalidateRelated(queryClient);
+    },
+  });
+}
+
+export function useDeleteOpportunity() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const result = await deleteOpportunity(id);
+      if (!result.success) throw new Error(result.error || "Failed to delete opportunity");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: crmKeys.opportunities() });
+      invalidateRelated(queryClient);
+      toast.success("Opportunity deleted");
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+}
+
+export function useConvertOpportunity() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, ...input }: ConvertOpportunityFormData & { id: string }) => {
+      const result = await convertOpportunityToProject(id, input);
+      if (!result.success) throw new Error(result.error || "Failed to convert opportunity");
+      return result.data!;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: crmKeys.opportunities() });
+      queryClient.invalidateQueries({ queryKey: crmKeys.lookups() });
+      invalidateRelated(queryClient);
+      toast.success(`Project ${data.projectCode} created`);
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+}
+
+// ============================================================================
+// Activity Hooks
+// ============================================================================
+
+export function useActivities(filters?: CrmActivityFilters) {
+  return useQuery({
+    queryKey: crmKeys.activityList(filters),
+    queryFn: async () => {
+      const result = await getActivities(filters);
+      if (!result.success) throw new Error(result.error || "Failed to fetch activities");
+      return result.data!;
+    },
+    staleTime: STALE_TIME,
+  });
+}
+
+export function useCreateActivity() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (input: ActivityFormData) => {
+      const result = await createActivity(input);
+      if (!result.success) throw new Error(result.error || "Failed to log activity");
+      return result.data!;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: crmKeys.activities() });
+      queryClient.invalidateQueries({ queryKey: crmKeys.contacts() });
+      invalidateRelated(queryClient);
+      toast.success("Activity logged");
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+}
+
+export function useUpdateActivity() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, ...input }: ActivityFormData & { id: string }) => {
+      const result = await updateActivity(id, input);
+      if (!result.success) throw new Error(result.error || "Failed to update activity");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: crmKeys.activities() });
+      invalidateRelated(queryClient);
+      toast.success("Activity updated");
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+}
+
+export function useCompleteFollowUp() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const result = await completeFollowUp(id);
+      if (!result.success) throw new Error(result.error || "Failed to complete follow-up");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: crmKeys.activities() });
+      invalidateRelated(queryClient);
+      toast.success("Follow-up completed");
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+}
+
+export function useDeleteActivity() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const result = await deleteActivity(id);
+      if (!result.success) throw new Error(result.error || "Failed to delete activity");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: crmKeys.activities() });
+      invalidateRelated(queryClient);
+      toast.success("Activity deleted");
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+}
+
+// ============================================================================
+// Brand ↔ Firm Link Hooks
+// ============================================================================
+
+export function useLinkBrandToFirm() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (input: BrandFirmLinkFormData) => {
+      const result = await linkBrandToFirm(input);
+      if (!result.success) throw new Error(result.error || "Failed to link firm");
+      return result.data!;
+    },
+    onSuccess: () => {
+      invalidateRelated(queryClient);
+      toast.success("Link added");
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+}
+
+export function useUnlinkBrandFromFirm() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const result = await unlinkBrandFromFirm(id);
+      if (!result.success) throw new Error(result.error || "Failed to remove link");
+    },
+    onSuccess: () => {
+      invalidateRelated(queryClient);
+      toast.success("Link removed");
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+}
+
+// ============================================================================
+// Forecast Hooks
+// ============================================================================
+
+export function useForecastOpportunities() {
+  return useQuery({
+    queryKey: crmKeys.forecast(),
+    queryFn: async () => {
+      const result = await getForecastOpportunities();
+      if (!result.success) throw new Error(result.error || "Failed to fetch forecast");
+      return result.data!;
+    },
+    staleTime: STALE_TIME,
+  });
+}
+
+export function useExportCrmForecast() {
+  return useMutation({
+    mutationFn: async (currency: string) => {
+      const result = await exportCrmForecastToExcel(currency);
+      if (!result.success) throw new Error(result.error || "Failed to export forecast");
+      return { base64: result.data!, currency };
+    },
+    onSuccess: ({ base64, currency }) => {
+      const bytes = Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+      const blob = new Blob([bytes], {
+        type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `Formula_CRM_Forecast_${currency}_${new Date().toISOString().split("T")[0]}.xlsx`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+      toast.success("Forecast exported");
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+}
@@ -0,0 +1,173 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  getDrawingApprovalChain,
+  getDrawingInternalReview,
+  getDrawingMarkups,
+  reviewDrawingStep,
+  saveDrawingMarkup,
+  updateDrawingApprovalChain,
+} from "@/lib/actions/drawings";
+import {
+  acknowledgeDrawingTransmittal,
+  getDrawingTransmittals,
+} from "@/lib/actions/drawing-transmittals";
+import type { DrawingMarkup } from "@/lib/drawing-markup";
+import type { ApprovalChainStep } from "@/lib/drawing-approval-chain";
+import { projectTabKeys } from "./project-tabs";
+
+// ============================================================================
+// Query Keys
+// ============================================================================
+
+export const drawingKeys = {
+  all: ["drawings"] as const,
+  markups: (drawingId: string) => [...drawingKeys.all, "markups", drawingId] as const,
+  transmittals: (projectId: string) => [...drawingKeys.all, "transmittals", projectId] as const,
+  approvalChain: (projectId: string) => [...drawingKeys.all, "approval-chain", projectId] as const,
+  internalReview: (drawingId: string) => [...drawingKeys.all, "internal-review", drawingId] as const,
+};
+
+// ============================================================================
+// Markup Hooks
+// ============================================================================
+
+/** Revisions of a drawing with every author's markup layer, newest first */
+export function useDrawingMarkups(drawingId: string | null) {
+  return useQuery({
+    queryKey: drawingKeys.markups(drawingId ?? ""),
+    queryFn: () => getDrawingMarkups(drawingId!),
+    enabled: !!drawingId,
+    staleTime: 30 * 1000,
+  });
+}
+
+/** Save the current user's markup layer on one revision */
+export function useSaveDrawingMarkup(drawingId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: { revision: string; annotations: DrawingMarkup[] }) => {
+      const result = await saveDrawingMarkup({ drawingId, ...input });
+      if (!result.success) {
+        throw new Error(result.error || "Failed to save markup");
+      }
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to save markup");
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: drawingKeys.markups(drawingId) });
+    },
+  });
+}
+
+// ============================================================================
+// Transmittal Hooks
+// ============================================================================
+
+/** A project's transmittals, newest first */
+export function useDrawingTransmittals(projectId: string, enabled = true) {
+  return useQuery({
+    queryKey: drawingKeys.transmittals(projectId),
+    queryFn: () => getDrawingTransmittals(projectId),
+    enabled,
+    staleTime: 30 * 1000,
+  });
+}
+
+/** Acknowledge receipt of a transmittal as the current user */
+export function useAcknowledgeTransmittal(projectId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (transmittalId: string) => {
+      const result = await acknowledgeDrawingTransmittal(transmittalId);
+      if (!result.success) {
+        throw new Error(result.error || "Failed to acknowledge transmittal");
+      }
+      return result.data!;
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to acknowledge transmittal");
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: drawingKeys.transmittals(projectId) });
+    },
+  });
+}
+
+// ============================================================================
+// Approval Chain Hooks
+// ============================================================================
+
+/** The project's internal approval chain, in order */
+export function useDrawingApprovalChain(projectId: string, enabled = true) {
+  return useQuery({
+    queryKey: drawingKeys.approvalChain(projectId),
+    queryFn: () => getDrawingApprovalChain(projectId),
+    enabled,
+    staleTime: 60 * 1000,
+  });
+}
+
+/** Replace the project's internal approval chain */
+export function useUpdateDrawingApprovalChain(projectId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (steps: Pick<ApprovalChainStep, "name" | "approverRole">[]) => {
+      const result = await updateDrawingApprovalChain(projectId, steps);
+      if (!result.success) {
+        throw new Error(result.error || "Failed to update approval chain");
+      }
+    },
+    onSuccess: () => {
+      toast.success("Approval chain updated");
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to update approval chain");
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: drawingKeys.approvalChain(projectId) });
+      queryClient.invalidateQueries({ queryKey: [...drawingKeys.all, "internal-review"] });
+      queryClient.invalidateQueries({ queryKey: projectTabKeys.drawings(projectId) });
+    },
+  });
+}
+
+/** Where a drawing's current revision is in the internal approval chain */
+export function useDrawingInternalReview(drawingId: string | null) {
+  return useQuery({
+    queryKey: drawingKeys.internalReview(drawingId ?? ""),
+    queryFn: () => getDrawingInternalReview(drawingId!),
+    enabled: !!drawingId,
+    staleTime: 30 * 1000,
+  });
+}
+
+/** Approve or reject the pending internal step on a drawing */
+export function useReviewDrawingStep(drawingId: string, projectId?: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: { decision: "approved" | "rejected"; comments?: string }) => {
+      const result = await reviewDrawingStep({ drawingId, ...input });
+      if (!result.success) {
+        throw new Error(result.error || "Failed to record review");
+      }
+      return result.state!;
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to record review");
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: drawingKeys.internalReview(drawingId) });
+      if (projectId) {
+        queryClient.invalidateQueries({ queryKey: projectTabKeys.drawings(projectId) });
+      }
+    },
+  });
+}
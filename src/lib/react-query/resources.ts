@@ -0,0 +1,139 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  getGanttResources,
+  getResourceLoad,
+  createGanttResource,
+  updateGanttResource,
+  deleteGanttResource,
+  type GanttResourceInput,
+} from "@/lib/actions/resources";
+import { timelineKeys } from "./timelines";
+
+// ============================================================================
+// Query Keys
+// ============================================================================
+
+export const resourceKeys = {
+  all: ["gantt-resources"] as const,
+  list: () => [...resourceKeys.all, "list"] as const,
+  loads: () => [...resourceKeys.all, "load"] as const,
+  load: (from: string, to: string) => [...resourceKeys.loads(), from, to] as const,
+};
+
+// ============================================================================
+// Query Hooks
+// ============================================================================
+
+/**
+ * Hook for fetching all crews/resources (active first)
+ */
+export function useGanttResources() {
+  return useQuery({
+    queryKey: resourceKeys.list(),
+    queryFn: () => getGanttResources(),
+    staleTime: 5 * 60 * 1000, // resource definitions change rarely
+  });
+}
+
+/**
+ * Hook for fetching cross-project allocations between two dates
+ */
+export function useResourceLoad(from: string, to: string) {
+  return useQuery({
+    queryKey: resourceKeys.load(from, to),
+    queryFn: async () => {
+      const result = await getResourceLoad(from, to);
+      if (!result.success) {
+        throw new Error(result.error || "Failed to load resource allocations");
+      }
+      return result.data!;
+    },
+    enabled: !!from && !!to,
+    // Allocations are edited from each project's timeline; refetch whenever the page opens
+    staleTime: 0,
+  });
+}
+
+// ============================================================================
+// Mutation Hooks
+// ============================================================================
+
+/**
+ * Hook for adding a crew/resource
+ */
+export function useCreateGanttResource() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: GanttResourceInput) => {
+      const result = await createGanttResource(input);
+      if (!result.success) {
+        throw new Error(result.error || "Failed to create resource");
+      }
+      return result.data!;
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+    onSuccess: (data) => {
+      toast.success(`"${data.name}" added`);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: resourceKeys.list() });
+    },
+  });
+}
+
+/**
+ * Hook for editing a resource (name, type, capacity, active flag)
+ */
+export function useUpdateGanttResource() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ resourceId, input }: { resourceId: string; input: Partial<GanttResourceInput> }) => {
+      const result = await updateGanttResource(resourceId, input);
+      if (!result.success) {
+        throw new Error(result.error || "Failed to update resource");
+      }
+      return result.data!;
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+    onSettled: () => {
+      // Capacity drives the over-allocation flags
+      queryClient.invalidateQueries({ queryKey: resourceKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook for deleting a resource; its task allocations cascade
+ */
+export function useDeleteGanttResource() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (resourceId: string) => {
+      const result = await deleteGanttResource(resourceId);
+      if (!result.success) {
+        throw new Error(result.error || "Failed to delete resource");
+      }
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+    onSuccess: () => {
+      toast.success("Resource deleted");
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: resourceKeys.all });
+      // Allocations were removed from tasks on every project
+      queryClient.invalidateQueries({ queryKey: timelineKeys.lists() });
+    },
+  });
+}
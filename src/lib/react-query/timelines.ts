@@ -14,6 +14,25 @@ import {
   propagateDependencyDates,
   setTaskPhase,
   setProjectWorkingDays,
+  getTimelineBaselines,
+  getTimelineBaselineItems,
+  createTimelineBaseline,
+  deleteTimelineBaseline,
+  exportTimelineSchedule,
+  importTimelineSchedule,
+  getProjectHolidayCalendar,
+  createGanttHolidays,
+  deleteGanttHoliday,
+  setProjectUsesCompanyHolidays,
+  getProjectPhaseDurations,
+  previewTimelineGeneration,
+  generateTimelineFromScope,
+  applyTimelineScenario,
+  getTimelineHistory,
+  undoTimelineChange,
+  redoTimelineChange,
+  type TimelineGenerationOptions,
+  type TimelineScenarioChanges,
   type GanttItem as TimelineItem,
   type GanttItemInput as TimelineItemInput,
   type GanttDependency as TimelineDependency,
@@ -21,6 +40,12 @@ import {
   type DependencyType,
   type PhaseKey,
 } from "@/lib/actions/timelines";
+import type {
+  InterchangeSchedule,
+  ScheduleFileFormat,
+  ScheduleImportMode,
+} from "@/lib/schedule-interchange";
+import type { HolidayPeriod } from "@/lib/holiday-calendar";
 
 // ============================================================================
 // Query Keys
@@ -36,6 +61,15 @@ export const timelineKeys = {
   list: (projectId: string) => [...timelineKeys.lists(), projectId] as const,
   dependencies: () => [...timelineKeys.all, "dependencies"] as const,
   dependencyList: (projectId: string) => [...timelineKeys.dependencies(), projectId] as const,
+  baselines: (projectId: string) => [...timelineKeys.all, "baselines", projectId] as const,
+  baselineItems: (baselineId: string) => [...timelineKeys.all, "baseline-items", baselineId] as const,
+  holidays: () => [...timelineKeys.all, "holidays"] as const,
+  holidayCalendar: (projectId: string) => [...timelineKeys.holidays(), projectId] as const,
+  phaseDurations: (projectId: string) => [...timelineKeys.all, "phase-durations", projectId] as const,
+  history: (projectId: string) => [...timelineKeys.all, "history", projectId] as const,
+  generationPreviews: (projectId: string) => [...timelineKeys.all, "generation-preview", projectId] as const,
+  generationPreview: (projectId: string, options: TimelineGenerationOptions) =>
+    [...timelineKeys.generationPreviews(projectId), options] as const,
 };
 
 // ============================================================================
@@ -83,7 +117,7 @@ export function useCreateTimelineItem(projectId: string) {
       if (!result.success) {
         throw new Error(result.error || "Failed to create timeline item");
       }
-      return result.data!;
+      return { item: result.data!, changeId: result.changeId };
     },
     // Optimistic update - add temporary item immediately
     onMutate: async (input) => {
@@ -114,6 +148,8 @@ export function useCreateTimelineItem(projectId: string) {
         updated_at: new Date().toISOString(),
         progress: 0,
         description: input.description || null,
+        constraint_type: input.constraint_type ?? null,
+        constraint_date: input.constraint_type ? input.constraint_date : null,
         linked_scope_item_ids: input.linked_scope_item_ids || [],
       };
 
@@ -130,11 +166,16 @@ export function useCreateTimelineItem(projectId: string) {
       }
       toast.error(error.message);
     },
-    onSuccess: () => {
+    onSuccess: async ({ changeId }, input) => {
+      // A start constraint may move the new item straight away
+      if (input.constraint_type === "must_start_on" || input.constraint_type === "start_no_earlier_than") {
+        await propagateDependencyDates(projectId, { changeId });
+      }
       toast.success("Timeline item created");
     },
     onSettled: () => {
       queryClient.invalidateQueries({ queryKey: timelineKeys.list(projectId) });
+      queryClient.invalidateQueries({ queryKey: timelineKeys.history(projectId) });
     },
   });
 }
@@ -150,15 +191,18 @@ export function useUpdateTimelineItem(projectId: string) {
     mutationFn: async ({
       timelineId,
       input,
+      expectedUpdatedAt,
     }: {
       timelineId: string;
       input: Partial<TimelineItemInput>;
+      /** Reject the save if someone else changed the item since this value was read */
+      expectedUpdatedAt?: string | null;
     }) => {
-      const result = await updateTimelineItem(timelineId, input);
+      const result = await updateTimelineItem(timelineId, input, { expectedUpdatedAt });
       if (!result.success) {
         throw new Error(result.error || "Failed to update timeline item");
       }
-      return result.data!;
+      return { item: result.data!, changeId: result.changeId };
     },
     // Optimistic update - apply changes immediately
     onMutate: async ({ timelineId, input }) => {
@@ -185,8 +229,18 @@ export function useUpdateTimelineItem(projectId: string) {
                   color: input.color !== undefined ? input.color : item.color,
                   phase_key: input.phase_key !== undefined ? input.phase_key : item.phase_key,
                   priority: input.priority ?? item.priority,
-                  progress_override: input.progress_override ?? item.progress_override,
+                  // null clears the manual override
+                  progress_override:
+                    input.progress_override !== undefined ? input.progress_override : item.progress_override,
                   is_completed: input.is_completed ?? item.is_completed,
+                  constraint_type:
+                    input.constraint_type !== undefined ? input.constraint_type : item.constraint_type,
+                  constraint_date:
+                    input.constraint_type !== undefined
+                      ? input.constraint_type
+                        ? input.constraint_date
+                        : null
+                      : item.constraint_date,
                   linked_scope_item_ids: input.linked_scope_item_ids ?? item.linked_scope_item_ids,
                 }
               : item
@@ -202,9 +256,9 @@ export function useUpdateTimelineItem(projectId: string) {
       }
       toast.error(error.message);
     },
-    onSuccess: async () => {
-      // Magnetic chain: propagate date changes to dependent tasks
-      const result = await propagateDependencyDates(projectId);
+    onSuccess: async ({ changeId }) => {
+      // Magnetic chain: propagate date changes to dependent tasks (same undo step)
+      const result = await propagateDependencyDates(projectId, { changeId });
       if (result.success && result.data && result.data.updatedCount > 0) {
         toast.success(`Timeline item updated — ${result.data.updatedCount} dependent task${result.data.updatedCount !== 1 ? "s" : ""} rescheduled`);
       } else {
@@ -213,6 +267,7 @@ export function useUpdateTimelineItem(projectId: string) {
     },
     onSettled: () => {
       queryClient.invalidateQueries({ queryKey: timelineKeys.list(projectId) });
+      queryClient.invalidateQueries({ queryKey: timelineKeys.history(projectId) });
     },
   });
 }
@@ -250,6 +305,7 @@ export function useSetProjectWorkingDays(projectId: string) {
     onSettled: () => {
       queryClient.invalidateQueries({ queryKey: timelineKeys.list(projectId) });
       queryClient.invalidateQueries({ queryKey: timelineKeys.dependencyList(projectId) });
+      queryClient.invalidateQueries({ queryKey: timelineKeys.history(projectId) });
     },
   });
 }
@@ -261,8 +317,17 @@ export function useSetTaskPhase(projectId: string) {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async ({ taskId, phaseKey }: { taskId: string; phaseKey: PhaseKey }) => {
-      const result = await setTaskPhase(taskId, phaseKey);
+    mutationFn: async ({
+      taskId,
+      phaseKey,
+      expectedUpdatedAt,
+    }: {
+      taskId: string;
+      phaseKey: PhaseKey;
+      /** Reject the change if someone else changed the task since this value was read */
+      expectedUpdatedAt?: string | null;
+    }) => {
+      const result = await setTaskPhase(taskId, phaseKey, { expectedUpdatedAt });
       if (!result.success) {
         throw new Error(result.error || "Failed to change phase");
       }
@@ -280,6 +345,7 @@ export function useSetTaskPhase(projectId: string) {
     },
     onSettled: () => {
       queryClient.invalidateQueries({ queryKey: timelineKeys.list(projectId) });
+      queryClient.invalidateQueries({ queryKey: timelineKeys.history(projectId) });
     },
   });
 }
@@ -296,6 +362,7 @@ export function useDeleteTimelineItem(projectId: string) {
       if (!result.success) {
         throw new Error(result.error || "Failed to delete timeline item");
       }
+      return result.changeId;
     },
     // Optimistic update - remove immediately
     onMutate: async (timelineId) => {
@@ -321,9 +388,9 @@ export function useDeleteTimelineItem(projectId: string) {
       }
       toast.error(error.message);
     },
-    onSuccess: async () => {
+    onSuccess: async (changeId) => {
       // Magnetic consistency: re-align after task removal (cascades delete its deps too)
-      const result = await propagateDependencyDates(projectId);
+      const result = await propagateDependencyDates(projectId, { changeId });
       if (result.success && result.data && result.data.updatedCount > 0) {
         toast.success(`Timeline item deleted — ${result.data.updatedCount} task${result.data.updatedCount !== 1 ? "s" : ""} rescheduled`);
       } else {
@@ -334,6 +401,7 @@ export function useDeleteTimelineItem(projectId: string) {
       queryClient.invalidateQueries({ queryKey: timelineKeys.list(projectId) });
       // Also invalidate dependencies as they may reference the deleted item
       queryClient.invalidateQueries({ queryKey: timelineKeys.dependencyList(projectId) });
+      queryClient.invalidateQueries({ queryKey: timelineKeys.history(projectId) });
     },
   });
 }
@@ -370,7 +438,7 @@ export function useCreateTimelineDependency(projectId: string) {
       if (!result.success) {
         throw new Error(result.error || "Failed to create dependency");
       }
-      return result.data!;
+      return { dependency: result.data!, changeId: result.changeId };
     },
     // Optimistic update - add temporary dependency immediately
     onMutate: async (input) => {
@@ -405,9 +473,9 @@ export function useCreateTimelineDependency(projectId: string) {
       }
       toast.error(error.message);
     },
-    onSuccess: async () => {
+    onSuccess: async ({ changeId }) => {
       // Propagate dates through the dependency chain
-      const result = await propagateDependencyDates(projectId);
+      const result = await propagateDependencyDates(projectId, { changeId });
       if (result.success && result.data && result.data.updatedCount > 0) {
         toast.success(`Dependency created — ${result.data.updatedCount} task${result.data.updatedCount !== 1 ? "s" : ""} rescheduled`);
       } else {
@@ -418,6 +486,7 @@ export function useCreateTimelineDependency(projectId: string) {
       // Invalidate both deps AND items (dates may have changed)
       queryClient.invalidateQueries({ queryKey: timelineKeys.dependencyList(projectId) });
       queryClient.invalidateQueries({ queryKey: timelineKeys.list(projectId) });
+      queryClient.invalidateQueries({ queryKey: timelineKeys.history(projectId) });
     },
   });
 }
@@ -433,15 +502,18 @@ export function useUpdateTimelineDependency(projectId: string) {
     mutationFn: async ({
       dependencyId,
       updates,
+      expected,
     }: {
       dependencyId: string;
       updates: { dependency_type?: DependencyType; lag_days?: number };
+      /** The link as the user saw it — the save is rejected if it has changed since */
+      expected?: { dependency_type: number; lag_days: number };
     }) => {
-      const result = await updateTimelineDependency(dependencyId, updates);
+      const result = await updateTimelineDependency(dependencyId, updates, { expected });
       if (!result.success) {
         throw new Error(result.error || "Failed to update dependency");
       }
-      return result.data!;
+      return { dependency: result.data!, changeId: result.changeId };
     },
     // Optimistic update - apply changes immediately
     onMutate: async ({ dependencyId, updates }) => {
@@ -475,9 +547,9 @@ export function useUpdateTimelineDependency(projectId: string) {
       }
       toast.error(error.message);
     },
-    onSuccess: async () => {
+    onSuccess: async ({ changeId }) => {
       // Re-propagate dates after type/lag change
-      const result = await propagateDependencyDates(projectId);
+      const result = await propagateDependencyDates(projectId, { changeId });
       if (result.success && result.data && result.data.updatedCount > 0) {
         toast.success(`Dependency updated — ${result.data.updatedCount} task${result.data.updatedCount !== 1 ? "s" : ""} rescheduled`);
       } else {
@@ -487,6 +559,7 @@ export function useUpdateTimelineDependency(projectId: string) {
     onSettled: () => {
       queryClient.invalidateQueries({ queryKey: timelineKeys.dependencyList(projectId) });
       queryClient.invalidateQueries({ queryKey: timelineKeys.list(projectId) });
+      queryClient.invalidateQueries({ queryKey: timelineKeys.history(projectId) });
     },
   });
 }
@@ -498,14 +571,22 @@ export function useDeleteTimelineDependency(projectId: string) {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (dependencyId: string) => {
-      const result = await deleteTimelineDependency(dependencyId);
+    mutationFn: async ({
+      dependencyId,
+      expected,
+    }: {
+      dependencyId: string;
+      /** The link as the user saw it — the delete is rejected if it has changed since */
+      expected?: { dependency_type: number; lag_days: number };
+    }) => {
+      const result = await deleteTimelineDependency(dependencyId, { expected });
       if (!result.success) {
         throw new Error(result.error || "Failed to delete dependency");
       }
+      return result.changeId;
     },
     // Optimistic update - remove immediately
-    onMutate: async (dependencyId) => {
+    onMutate: async ({ dependencyId }) => {
       await queryClient.cancelQueries({ queryKey: timelineKeys.dependencyList(projectId) });
 
       const previousDeps = queryClient.getQueryData<TimelineDependency[]>(
@@ -528,9 +609,9 @@ export function useDeleteTimelineDependency(projectId: string) {
       }
       toast.error(error.message);
     },
-    onSuccess: async () => {
+    onSuccess: async (changeId) => {
       // Magnetic consistency: re-align remaining constraints after removal
-      const result = await propagateDependencyDates(projectId);
+      const result = await propagateDependencyDates(projectId, { changeId });
       if (result.success && result.data && result.data.updatedCount > 0) {
         toast.success(`Dependency deleted — ${result.data.updatedCount} task${result.data.updatedCount !== 1 ? "s" : ""} rescheduled`);
       } else {
@@ -540,7 +621,428 @@ export function useDeleteTimelineDependency(projectId: string) {
     onSettled: () => {
       queryClient.invalidateQueries({ queryKey: timelineKeys.dependencyList(projectId) });
       queryClient.invalidateQueries({ queryKey: timelineKeys.list(projectId) });
+      queryClient.invalidateQueries({ queryKey: timelineKeys.history(projectId) });
+    },
+  });
+}
+
+// ============================================================================
+// Schedule Baselines
+// ============================================================================
+
+/**
+ * Hook for fetching the saved baselines of a project (newest first)
+ */
+export function useTimelineBaselines(projectId: string) {
+  return useQuery({
+    queryKey: timelineKeys.baselines(projectId),
+    queryFn: () => getTimelineBaselines(projectId),
+    enabled: !!projectId,
+    staleTime: 5 * 60 * 1000, // baselines only change when one is saved/deleted
+  });
+}
+
+/**
+ * Hook for fetching the snapshot rows of one baseline.
+ * Snapshots are immutable, so they never go stale.
+ */
+export function useTimelineBaselineItems(baselineId: string | null) {
+  return useQuery({
+    queryKey: timelineKeys.baselineItems(baselineId ?? ""),
+    queryFn: () => getTimelineBaselineItems(baselineId!),
+    enabled: !!baselineId,
+    staleTime: Infinity,
+  });
+}
+
+/**
+ * Hook for saving the current schedule as a named baseline
+ */
+export function useCreateTimelineBaseline(projectId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: { name: string; description?: string | null }) => {
+      const result = await createTimelineBaseline(projectId, input);
+      if (!result.success) {
+        throw new Error(result.error || "Failed to save baseline");
+      }
+      return result.data!;
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+    onSuccess: (data) => {
+      toast.success(`Baseline "${data.name}" saved — ${data.item_count} items`);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: timelineKeys.baselines(projectId) });
+    },
+  });
+}
+
+/**
+ * Hook for deleting a baseline (its snapshot rows cascade)
+ */
+export function useDeleteTimelineBaseline(projectId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (baselineId: string) => {
+      const result = await deleteTimelineBaseline(baselineId);
+      if (!result.success) {
+        throw new Error(result.error || "Failed to delete baseline");
+      }
+      return baselineId;
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+    onSuccess: (baselineId) => {
+      queryClient.removeQueries({ queryKey: timelineKeys.baselineItems(baselineId) });
+      toast.success("Baseline deleted");
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: timelineKeys.baselines(projectId) });
+    },
+  });
+}
+
+// ============================================================================
+// Schedule Interchange Hooks
+// ============================================================================
+
+const SCHEDULE_MIME_TYPES: Record<ScheduleFileFormat, string> = {
+  mspdi: "application/xml",
+  xer: "text/plain",
+};
+
+/**
+ * Hook for downloading the timeline as MS Project XML or Primavera XER
+ */
+export function useExportTimelineSchedule(projectId: string) {
+  return useMutation({
+    mutationFn: async (format: ScheduleFileFormat) => {
+      const result = await exportTimelineSchedule(projectId, format);
+      if (!result.success) {
+        throw new Error(result.error || "Failed to export schedule");
+      }
+      return { ...result.data!, format };
+    },
+    onSuccess: ({ fileName, content, format }) => {
+      const blob = new Blob([content], { type: `${SCHEDULE_MIME_TYPES[format]};charset=utf-8` });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = fileName;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+      toast.success(format === "xer" ? "Primavera XER exported" : "MS Project XML exported");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+}
+
+/**
+ * Hook for applying a parsed schedule file (merge or replace)
+ */
+export function useImportTimelineSchedule(projectId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      schedule,
+      mode,
+      applyCalendar,
+    }: {
+      schedule: InterchangeSchedule;
+      mode: ScheduleImportMode;
+      applyCalendar: boolean;
+    }) => {
+      const result = await importTimelineSchedule(projectId, schedule, { mode, applyCalendar });
+      if (!result.success) {
+        throw new Error(result.error || "Failed to import schedule");
+      }
+      return result.data!;
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+    onSuccess: (data) => {
+      const parts = [`${data.created} added`, `${data.updated} updated`];
+      if (data.deleted > 0) parts.push(`${data.deleted} removed`);
+      parts.push(`${data.linksCreated + data.linksUpdated} link${data.linksCreated + data.linksUpdated !== 1 ? "s" : ""}`);
+      toast.success(`Schedule imported — ${parts.join(", ")}`);
+      if (data.linksSkipped > 0) {
+        toast.warning(`${data.linksSkipped} link${data.linksSkipped !== 1 ? "s were" : " was"} skipped`);
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: timelineKeys.list(projectId) });
+      queryClient.invalidateQueries({ queryKey: timelineKeys.dependencyList(projectId) });
+      queryClient.invalidateQueries({ queryKey: timelineKeys.history(projectId) });
+    },
+  });
+}
+
+// ============================================================================
+// Schedule Generation Hooks
+// ============================================================================
+
+/**
+ * Hook for the project's remembered phase durations (defaults until first use)
+ */
+export function useProjectPhaseDurations(projectId: string, enabled = true) {
+  return useQuery({
+    queryKey: timelineKeys.phaseDurations(projectId),
+    queryFn: () => getProjectPhaseDurations(projectId),
+    enabled: !!projectId && enabled,
+  });
+}
+
+/**
+ * Hook for previewing what "Generate schedule" would add with these options
+ */
+export function useTimelineGenerationPreview(projectId: string, options: TimelineGenerationOptions, enabled = true) {
+  return useQuery({
+    queryKey: timelineKeys.generationPreview(projectId, options),
+    queryFn: async () => {
+      const result = await previewTimelineGeneration(projectId, options);
+      if (!result.success) {
+        throw new Error(result.error || "Failed to preview schedule");
+      }
+      return result.data!;
+    },
+    enabled: !!projectId && enabled,
+    // Scope items change outside the timeline; always plan from fresh data
+    staleTime: 0,
+  });
+}
+
+/**
+ * Hook for generating tasks and FS links from the project's scope items
+ */
+export function useGenerateTimelineFromScope(projectId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (options: TimelineGenerationOptions) => {
+      const result = await generateTimelineFromScope(projectId, options);
+      if (!result.success) {
+        throw new Error(result.error || "Failed to generate schedule");
+      }
+      return result.data!;
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+    onSuccess: (data) => {
+      toast.success(
+        `Schedule generated — ${data.created} task${data.created !== 1 ? "s" : ""}, ${data.links} link${data.links !== 1 ? "s" : ""}`
+      );
+      data.warnings.forEach((warning) => toast.warning(warning));
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: timelineKeys.list(projectId) });
+      queryClient.invalidateQueries({ queryKey: timelineKeys.dependencyList(projectId) });
+      queryClient.invalidateQueries({ queryKey: timelineKeys.phaseDurations(projectId) });
+      queryClient.invalidateQueries({ queryKey: timelineKeys.generationPreviews(projectId) });
+      queryClient.invalidateQueries({ queryKey: timelineKeys.history(projectId) });
+    },
+  });
+}
+
+/**
+ * Hook for applying a what-if scenario to the live schedule
+ */
+export function useApplyTimelineScenario(projectId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (changes: TimelineScenarioChanges) => {
+      const result = await applyTimelineScenario(projectId, changes);
+      if (!result.success) {
+        throw new Error(result.error || "Failed to apply scenario");
+      }
+      return result.data!;
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+    onSuccess: () => {
+      toast.success("Scenario applied to the live schedule");
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: timelineKeys.list(projectId) });
+      queryClient.invalidateQueries({ queryKey: timelineKeys.dependencyList(projectId) });
+      queryClient.invalidateQueries({ queryKey: timelineKeys.history(projectId) });
+    },
+  });
+}
+
+// ============================================================================
+// Change History (server-side undo / redo)
+// ============================================================================
+
+/**
+ * Hook for the project's timeline change log, newest first
+ */
+export function useTimelineHistory(projectId: string) {
+  return useQuery({
+    queryKey: timelineKeys.history(projectId),
+    queryFn: () => getTimelineHistory(projectId),
+    enabled: !!projectId,
+    staleTime: 30 * 1000,
+  });
+}
+
+function useRevertTimelineChange(projectId: string, redo: boolean) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const result = redo ? await redoTimelineChange(projectId) : await undoTimelineChange(projectId);
+      if (!result.success) {
+        throw new Error(result.error || `Failed to ${redo ? "redo" : "undo"}`);
+      }
+      return result.data!;
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+    onSuccess: (data) => {
+      toast.success(`${redo ? "Redid" : "Undid"}: ${data.description}`);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: timelineKeys.list(projectId) });
+      queryClient.invalidateQueries({ queryKey: timelineKeys.dependencyList(projectId) });
+      queryClient.invalidateQueries({ queryKey: timelineKeys.history(projectId) });
     },
   });
 }
 
+/**
+ * Hook for undoing the newest timeline change (with its cascaded date moves)
+ */
+export function useUndoTimelineChange(projectId: string) {
+  return useRevertTimelineChange(projectId, false);
+}
+
+/**
+ * Hook for redoing the change undone most recently
+ */
+export function useRedoTimelineChange(projectId: string) {
+  return useRevertTimelineChange(projectId, true);
+}
+
+// ============================================================================
+// Holiday Calendar Hooks
+// ============================================================================
+
+/**
+ * Hook for fetching the company + project holidays that apply to a project
+ */
+export function useProjectHolidayCalendar(projectId: string) {
+  return useQuery({
+    queryKey: timelineKeys.holidayCalendar(projectId),
+    queryFn: () => getProjectHolidayCalendar(projectId),
+    enabled: !!projectId,
+    staleTime: 5 * 60 * 1000, // calendars change rarely
+  });
+}
+
+/**
+ * Shared settle step for calendar edits: dependency lags now skip (or count)
+ * different dates, so re-run propagation before refetching. Company edits
+ * touch every project's calendar, hence the prefix invalidation.
+ */
+function useHolidayCalendarSettled(projectId: string) {
+  const queryClient = useQueryClient();
+  return async () => {
+    await propagateDependencyDates(projectId);
+    queryClient.invalidateQueries({ queryKey: timelineKeys.holidays() });
+    queryClient.invalidateQueries({ queryKey: timelineKeys.list(projectId) });
+    queryClient.invalidateQueries({ queryKey: timelineKeys.dependencyList(projectId) });
+  };
+}
+
+/**
+ * Hook for adding holidays to the project calendar, or to the company
+ * calendar when `scope` is "company" (Admin only). Duplicates are skipped.
+ */
+export function useCreateGanttHolidays(projectId: string) {
+  const onSettled = useHolidayCalendarSettled(projectId);
+
+  return useMutation({
+    mutationFn: async ({ scope, periods }: { scope: "company" | "project"; periods: HolidayPeriod[] }) => {
+      const result = await createGanttHolidays(scope === "company" ? null : projectId, periods);
+      if (!result.success) {
+        throw new Error(result.error || "Failed to add holidays");
+      }
+      return result.data!;
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+    onSuccess: (data) => {
+      if (data.created === 0) {
+        toast.info("These holidays are already in the calendar");
+      } else {
+        const skipped = data.skipped > 0 ? ` (${data.skipped} already present)` : "";
+        toast.success(`${data.created} holiday${data.created !== 1 ? "s" : ""} added${skipped}`);
+      }
+    },
+    onSettled,
+  });
+}
+
+/**
+ * Hook for removing a holiday from either calendar
+ */
+export function useDeleteGanttHoliday(projectId: string) {
+  const onSettled = useHolidayCalendarSettled(projectId);
+
+  return useMutation({
+    mutationFn: async (holidayId: string) => {
+      const result = await deleteGanttHoliday(holidayId);
+      if (!result.success) {
+        throw new Error(result.error || "Failed to remove holiday");
+      }
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+    onSuccess: () => {
+      toast.success("Holiday removed");
+    },
+    onSettled,
+  });
+}
+
+/**
+ * Hook for switching the company calendar on or off for a project
+ */
+export function useSetProjectUsesCompanyHolidays(projectId: string) {
+  const onSettled = useHolidayCalendarSettled(projectId);
+
+  return useMutation({
+    mutationFn: async (enabled: boolean) => {
+      const result = await setProjectUsesCompanyHolidays(projectId, enabled);
+      if (!result.success) {
+        throw new Error(result.error || "Failed to update calendar");
+      }
+      return enabled;
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+    onSuccess: (enabled) => {
+      toast.success(enabled ? "Company holidays applied" : "Company holidays ignored for this project");
+    },
+    onSettled,
+  });
+}
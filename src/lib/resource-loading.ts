@@ -0,0 +1,179 @@
+/**
+ * Cross-project resource loading
+ *
+ * Turns allocation rows from get_gantt_resource_load() into a per-resource,
+ * per-day load (sum of allocation % on that day) and buckets it for the
+ * histogram. A task only loads its crew on days its own project works —
+ * weekday mask plus the holiday calendar that project uses.
+ */
+
+import { type HolidayDates, NO_HOLIDAYS, holidayKey } from "@/lib/holiday-calendar";
+
+export type ResourceType = "production" | "installation" | "equipment" | "subcontractor";
+
+export const RESOURCE_TYPE_LABELS: Record<ResourceType, string> = {
+  production: "Production crew",
+  installation: "Installation crew",
+  equipment: "Equipment",
+  subcontractor: "Subcontractor",
+};
+
+/** One row of get_gantt_resource_load() */
+export interface ResourceAllocationRow {
+  allocation_id: string;
+  resource_id: string;
+  allocation_percent: number;
+  gantt_item_id: string;
+  /** Name, code and slug are null on projects the viewer is not assigned to */
+  item_name: string | null;
+  start_date: string;
+  end_date: string;
+  project_id: string;
+  project_code: string | null;
+  project_name: string | null;
+  project_slug: string | null;
+  project_status: string;
+  working_days: number | null;
+  use_company_holidays: boolean;
+  /** Whether the viewer can see and open the project's timeline */
+  is_assigned: boolean;
+}
+
+export interface ResourceLoadDay {
+  date: string;
+  /** Sum of allocation % booked on this day */
+  load: number;
+  allocationIds: string[];
+}
+
+export interface ResourceLoad {
+  resourceId: string;
+  capacity: number;
+  days: Map<string, ResourceLoadDay>;
+  peak: number;
+  overAllocatedDays: string[];
+}
+
+export interface ResourceLoadBucket {
+  start: Date;
+  end: Date;
+  /** Highest single-day load in the bucket */
+  peak: number;
+  /** Mean load over the bucket's days (calendar days, not only loaded ones) */
+  average: number;
+  overAllocated: boolean;
+  allocationIds: string[];
+}
+
+export interface ResourceCalendars {
+  companyHolidays?: HolidayDates;
+  projectHolidays?: ReadonlyMap<string, HolidayDates>;
+}
+
+const DEFAULT_WORKING_DAYS = 62;
+
+function parseDay(value: string): Date {
+  const [y, m, d] = value.split("-").map(Number);
+  return new Date(y, m - 1, d);
+}
+
+function worksOn(date: Date, row: ResourceAllocationRow, calendars: ResourceCalendars): boolean {
+  const mask = row.working_days ?? DEFAULT_WORKING_DAYS;
+  if ((mask & (1 << date.getDay())) === 0) return false;
+  const key = holidayKey(date);
+  if (row.use_company_holidays && (calendars.companyHolidays ?? NO_HOLIDAYS).has(key)) return false;
+  return !calendars.projectHolidays?.get(row.project_id)?.has(key);
+}
+
+/**
+ * Daily load per resource between `from` and `to` (inclusive, "yyyy-MM-dd").
+ * Resources without allocations are still returned so the histogram can show
+ * idle crews.
+ */
+export function computeResourceLoad(
+  resources: Array<{ id: string; capacity_percent: number }>,
+  rows: ResourceAllocationRow[],
+  range: { from: string; to: string },
+  calendars: ResourceCalendars = {}
+): Map<string, ResourceLoad> {
+  const result = new Map<string, ResourceLoad>();
+  for (const resource of resources) {
+    result.set(resource.id, {
+      resourceId: resource.id,
+      capacity: resource.capacity_percent,
+      days: new Map(),
+      peak: 0,
+      overAllocatedDays: [],
+    });
+  }
+
+  for (const row of rows) {
+    const load = result.get(row.resource_id);
+    if (!load) continue;
+    const first = row.start_date > range.from ? row.start_date : range.from;
+    const last = row.end_date < range.to ? row.end_date : range.to;
+    const end = parseDay(last);
+    for (const cursor = parseDay(first); cursor <= end; cursor.setDate(cursor.getDate() + 1)) {
+      if (!worksOn(cursor, row, calendars)) continue;
+      const key = holidayKey(cursor);
+      const day = load.days.get(key) ?? { date: key, load: 0, allocationIds: [] };
+      day.load += row.allocation_percent;
+      day.allocationIds.push(row.allocation_id);
+      load.days.set(key, day);
+    }
+  }
+
+  for (const load of result.values()) {
+    for (const day of load.days.values()) {
+      load.peak = Math.max(load.peak, day.load);
+      if (day.load > load.capacity) load.overAllocatedDays.push(day.date);
+    }
+    load.overAllocatedDays.sort();
+  }
+
+  return result;
+}
+
+/**
+ * Group a resource's daily load into day or ISO-week (Mon–Sun) buckets
+ * covering `from`..`to`.
+ */
+export function bucketResourceLoad(
+  load: ResourceLoad,
+  range: { from: string; to: string },
+  unit: "day" | "week"
+): ResourceLoadBucket[] {
+  const buckets: ResourceLoadBucket[] = [];
+  const last = parseDay(range.to);
+  const cursor = parseDay(range.from);
+  if (unit === "week") cursor.setDate(cursor.getDate() - ((cursor.getDay() + 6) % 7));
+
+  while (cursor <= last) {
+    const start = new Date(cursor);
+    const length = unit === "week" ? 7 : 1;
+    let peak = 0;
+    let total = 0;
+    const ids = new Set<string>();
+    for (let i = 0; i < length; i++) {
+      const day = load.days.get(holidayKey(cursor));
+      if (day) {
+        peak = Math.max(peak, day.load);
+        total += day.load;
+        day.allocationIds.forEach((id) => ids.add(id));
+      }
+      cursor.setDate(cursor.getDate() + 1);
+    }
+    const end = new Date(cursor);
+    end.setDate(end.getDate() - 1);
+    buckets.push({
+      start,
+      end,
+      peak,
+      average: Math.round(total / length),
+      overAllocated: peak > load.capacity,
+      allocationIds: [...ids],
+    });
+  }
+
+  return buckets;
+}
@@ -0,0 +1,366 @@
+/**
+ * Schedule generator
+ *
+ * Drafts a timeline from a project's scope items. Production items run
+ * design → production → shipping → installation, procurement items run
+ * procurement → installation; work that is already done (approved drawings,
+ * finished production, shipped or received goods) is left out. Each step is
+ * tied to the previous one with an FS link whose lag reproduces the planned
+ * gap, so dependency propagation leaves the generated dates where they are.
+ *
+ * Pure planning only — timelines.ts writes the result.
+ */
+
+import type { PhaseKey } from "@/lib/actions/timelines";
+import { type HolidayDates, NO_HOLIDAYS, isHoliday } from "@/lib/holiday-calendar";
+import { formatDay, parseDay, phaseLabel } from "@/lib/schedule-interchange";
+
+/** Working days per phase */
+export type PhaseDurations = Record<PhaseKey, number>;
+
+export const DEFAULT_PHASE_DURATIONS: PhaseDurations = {
+  design: 10,
+  production: 20,
+  procurement: 15,
+  shipping: 5,
+  installation: 10,
+};
+
+export const PHASE_DURATION_MAX = 365;
+
+/** "item": one summary per phase with a task per scope item; "phase": one task per phase */
+export type ScheduleGrouping = "item" | "phase";
+
+/** A top-level scope item plus the facts the generator needs about it */
+export interface GeneratorScopeItem {
+  id: string;
+  item_code: string;
+  name: string;
+  item_path: "production" | "procurement";
+  expected_delivery_date: string | null;
+  production_percentage: number | null;
+  procurement_status: string | null;
+  is_shipped: boolean | null;
+  is_installed: boolean | null;
+  /** Shop drawing approved, not required, or overridden by the PM */
+  drawingDone: boolean;
+  /** Already linked to a timeline task — regenerating would duplicate it */
+  alreadyScheduled: boolean;
+}
+
+export interface ScheduleGeneratorOptions {
+  /** yyyy-MM-dd — first working day on or after this is day one */
+  startDate: string;
+  durations: PhaseDurations;
+  grouping: ScheduleGrouping;
+  /** Working-days bitmask (bit 0 = Sun .. bit 6 = Sat) */
+  workingDays: number;
+  holidays?: HolidayDates;
+  /** projects.installation_date — installation never starts before it */
+  installationDate?: string | null;
+}
+
+export interface GeneratedTask {
+  key: string;
+  parentKey: string | null;
+  name: string;
+  phaseKey: PhaseKey;
+  /** yyyy-MM-dd */
+  start: string;
+  /** yyyy-MM-dd (inclusive) */
+  end: string;
+  scopeItemIds: string[];
+}
+
+/** Finish-to-start link; lagDays is in working days */
+export interface GeneratedLink {
+  sourceKey: string;
+  targetKey: string;
+  lagDays: number;
+}
+
+export interface GeneratedSchedule {
+  /** Parents before their children */
+  tasks: GeneratedTask[];
+  links: GeneratedLink[];
+  skipped: Array<{ itemId: string; itemCode: string; reason: string }>;
+  warnings: string[];
+}
+
+const PHASE_ORDER: PhaseKey[] = ["design", "production", "procurement", "shipping", "installation"];
+
+/** Clamp user-entered durations to whole working days the schedule can use */
+export function normalizePhaseDurations(input: Partial<Record<string, unknown>> | null | undefined): PhaseDurations {
+  const result = { ...DEFAULT_PHASE_DURATIONS };
+  for (const key of PHASE_ORDER) {
+    const value = Math.round(Number(input?.[key]));
+    if (Number.isFinite(value) && value >= 1) result[key] = Math.min(PHASE_DURATION_MAX, value);
+  }
+  return result;
+}
+
+// ============================================================================
+// Calendar
+// ============================================================================
+
+class WorkCalendar {
+  constructor(private mask: number, private holidays: HolidayDates) {
+    // A mask with no days would never find a working day
+    if ((this.mask & 127) === 0) this.mask = 127;
+  }
+
+  works(date: Date): boolean {
+    return (this.mask & (1 << date.getDay())) !== 0 && !isHoliday(date, this.holidays);
+  }
+
+  /** The date itself when worked, else the next (direction 1) or previous (-1) working day */
+  snap(date: Date, direction: 1 | -1): Date {
+    const result = new Date(date);
+    while (!this.works(result)) result.setDate(result.getDate() + direction);
+    return result;
+  }
+
+  add(date: Date, days: number): Date {
+    const result = new Date(date);
+    const direction = days > 0 ? 1 : -1;
+    for (let remaining = Math.abs(days); remaining > 0; ) {
+      result.setDate(result.getDate() + direction);
+      if (this.works(result)) remaining--;
+    }
+    return result;
+  }
+
+  /** Working days after `from` up to and including `to` — the FS lag that lands on `to` */
+  lagBetween(from: Date, to: Date): number {
+    let count = 0;
+    const cursor = new Date(from);
+    while (cursor < to) {
+      cursor.setDate(cursor.getDate() + 1);
+      if (this.works(cursor)) count++;
+    }
+    return count;
+  }
+}
+
+interface PlannedStep {
+  phaseKey: PhaseKey;
+  start: Date;
+  end: Date;
+  /** FS lag from the previous step */
+  lag: number;
+}
+
+function stepsFor(item: GeneratorScopeItem): PhaseKey[] {
+  if (item.item_path === "procurement") {
+    return item.procurement_status === "received" || item.is_shipped
+      ? ["installation"]
+      : ["procurement", "installation"];
+  }
+  if (item.is_shipped) return ["installation"];
+  if ((item.production_percentage ?? 0) >= 100) return ["shipping", "installation"];
+  return item.drawingDone
+    ? ["production", "shipping", "installation"]
+    : ["design", "production", "shipping", "installation"];
+}
+
+function skipReason(item: GeneratorScopeItem): string | null {
+  if (item.is_installed) return "Already installed";
+  if (item.alreadyScheduled) return "Already linked to a timeline task";
+  return null;
+}
+
+// ============================================================================
+// Planner
+// ============================================================================
+
+export function planGeneratedSchedule(
+  items: GeneratorScopeItem[],
+  options: ScheduleGeneratorOptions
+): GeneratedSchedule {
+  const calendar = new WorkCalendar(options.workingDays, options.holidays ?? NO_HOLIDAYS);
+  const durations = normalizePhaseDurations(options.durations);
+  const dayOne = calendar.snap(parseDay(options.startDate), 1);
+  const installFloor = options.installationDate
+    ? calendar.snap(parseDay(options.installationDate), 1)
+    : null;
+
+  const skipped: GeneratedSchedule["skipped"] = [];
+  const warnings: string[] = [];
+  const lateDeliveries: string[] = [];
+
+  const chains: Array<{ item: GeneratorScopeItem; steps: PlannedStep[] }> = [];
+  for (const item of items) {
+    const reason = skipReason(item);
+    if (reason) {
+      skipped.push({ itemId: item.id, itemCode: item.item_code, reason });
+      continue;
+    }
+
+    const steps: PlannedStep[] = [];
+    for (const phaseKey of stepsFor(item)) {
+      const previous = steps[steps.length - 1];
+      // FS with no lag: the next step starts on the day the previous one ends
+      let start = previous ? new Date(previous.end) : new Date(dayOne);
+      let end = calendar.add(start, durations[phaseKey] - 1);
+
+      if (phaseKey === "procurement" && item.expected_delivery_date) {
+        const delivery = calendar.snap(parseDay(item.expected_delivery_date), -1);
+        if (delivery < start) {
+          lateDeliveries.push(item.item_code);
+        } else {
+          // Lead time is driven by the supplier's date, not the default duration
+          end = delivery;
+          const leadStart = calendar.add(end, -(durations.procurement - 1));
+          start = leadStart > start ? leadStart : start;
+        }
+      }
+
+      if (phaseKey === "installation" && installFloor && installFloor > start) {
+        start = new Date(installFloor);
+        end = calendar.add(start, durations.installation - 1);
+      }
+
+      const lag = previous ? calendar.lagBetween(previous.end, start) : 0;
+      steps.push({ phaseKey, start, end, lag });
+    }
+    chains.push({ item, steps });
+  }
+
+  if (lateDeliveries.length > 0) {
+    warnings.push(
+      `Expected delivery is before the start date for ${lateDeliveries.join(", ")} — default procurement duration used`
+    );
+  }
+  if (chains.length === 0 && items.length > 0) {
+    warnings.push("Every scope item is already installed or scheduled");
+  }
+
+  const { tasks, links } =
+    options.grouping === "phase"
+      ? groupByPhase(chains, { calendar, durations, dayOne, installFloor })
+      : groupByItem(chains);
+  return { tasks, links, skipped, warnings };
+}
+
+function groupByItem(chains: Array<{ item: GeneratorScopeItem; steps: PlannedStep[] }>) {
+  const tasks: GeneratedTask[] = [];
+  const links: GeneratedLink[] = [];
+
+  for (const phaseKey of PHASE_ORDER) {
+    const children = chains.flatMap(({ item, steps }) =>
+      steps.filter((s) => s.phaseKey === phaseKey).map((step) => ({ item, step }))
+    );
+    if (children.length === 0) continue;
+
+    const summaryKey = `phase:${phaseKey}`;
+    const starts = children.map((c) => c.step.start.getTime());
+    const ends = children.map((c) => c.step.end.getTime());
+    tasks.push({
+      key: summaryKey,
+      parentKey: null,
+      name: phaseLabel(phaseKey),
+      phaseKey,
+      start: formatDay(new Date(Math.min(...starts))),
+      end: formatDay(new Date(Math.max(...ends))),
+      scopeItemIds: [],
+    });
+    for (const { item, step } of children) {
+      tasks.push({
+        key: `${phaseKey}:${item.id}`,
+        parentKey: summaryKey,
+        name: `${item.item_code} — ${item.name}`,
+        phaseKey,
+        start: formatDay(step.start),
+        end: formatDay(step.end),
+        scopeItemIds: [item.id],
+      });
+    }
+  }
+
+  for (const { item, steps } of chains) {
+    for (let i = 1; i < steps.length; i++) {
+      links.push({
+        sourceKey: `${steps[i - 1].phaseKey}:${item.id}`,
+        targetKey: `${steps[i].phaseKey}:${item.id}`,
+        lagDays: steps[i].lag,
+      });
+    }
+  }
+
+  return { tasks, links };
+}
+
+/**
+ * One task per phase, covering every item that needs it. Phases run back to
+ * back along the production chain; procurement starts on day one and lasts
+ * until the latest delivery, and installation waits for both.
+ */
+function groupByPhase(
+  chains: Array<{ item: GeneratorScopeItem; steps: PlannedStep[] }>,
+  context: { calendar: WorkCalendar; durations: PhaseDurations; dayOne: Date; installFloor: Date | null }
+) {
+  const { calendar, durations, dayOne, installFloor } = context;
+  const itemIds = new Map<PhaseKey, string[]>();
+  let procurementEnd: Date | null = null;
+  for (const { item, steps } of chains) {
+    for (const step of steps) {
+      const ids = itemIds.get(step.phaseKey) ?? [];
+      ids.push(item.id);
+      itemIds.set(step.phaseKey, ids);
+      if (step.phaseKey === "procurement" && (!procurementEnd || step.end > procurementEnd)) {
+        procurementEnd = step.end;
+      }
+    }
+  }
+
+  const tasks: GeneratedTask[] = [];
+  const links: GeneratedLink[] = [];
+  const planned = new Map<PhaseKey, { start: Date; end: Date }>();
+  let chainEnd: PhaseKey | null = null;
+
+  for (const phaseKey of PHASE_ORDER) {
+    const ids = itemIds.get(phaseKey);
+    if (!ids) continue;
+
+    const sources: PhaseKey[] =
+      phaseKey === "procurement"
+        ? []
+        : phaseKey === "installation"
+          ? [chainEnd, planned.has("procurement") ? ("procurement" as const) : null].filter(
+              (key): key is PhaseKey => key !== null
+            )
+          : chainEnd
+            ? [chainEnd]
+            : [];
+
+    let start = new Date(dayOne);
+    for (const key of sources) {
+      const sourceEnd = planned.get(key)!.end;
+      if (sourceEnd > start) start = new Date(sourceEnd);
+    }
+    if (phaseKey === "installation" && installFloor && installFloor > start) start = new Date(installFloor);
+    const defaultEnd = calendar.add(start, durations[phaseKey] - 1);
+    const end = phaseKey === "procurement" && procurementEnd && procurementEnd > defaultEnd ? procurementEnd : defaultEnd;
+
+    planned.set(phaseKey, { start, end });
+    if (phaseKey !== "procurement") chainEnd = phaseKey;
+    tasks.push({
+      key: `phase:${phaseKey}`,
+      parentKey: null,
+      name: phaseLabel(phaseKey),
+      phaseKey,
+      start: formatDay(start),
+      end: formatDay(end),
+      scopeItemIds: ids,
+    });
+    for (const key of sources) {
+      links.push({
+        sourceKey: `phase:${key}`,
+        targetKey: `phase:${phaseKey}`,
+        lagDays: calendar.lagBetween(planned.get(key)!.end, start),
+      });
+    }
+  }
+
+  return { tasks, links };
+}
@@ -0,0 +1,290 @@
+/**
+ * Schedule import plan
+ *
+ * Diffs a parsed schedule against the current timeline. The same plan drives
+ * the preview in the import dialog (client) and the apply step in
+ * importTimelineSchedule (server, recomputed from fresh data).
+ *
+ * - merge: matched tasks are updated, new ones created, nothing is deleted
+ * - replace: additionally deletes tasks and links the file doesn't contain
+ *
+ * Matching: a file uid equal to an existing id (our own exports) wins, then
+ * an unmatched task with the same name and type.
+ */
+
+import type {
+  DependencyType,
+  GanttDependency,
+  GanttItem,
+  GanttItemInput,
+  Priority,
+} from "@/lib/actions/timelines";
+import type { InterchangeLink, InterchangeSchedule, InterchangeTask } from "./schedule";
+import { phaseLabel, summaryUids } from "./schedule";
+
+export type ScheduleImportMode = "merge" | "replace";
+
+export type ScheduleChangeField = "name" | "dates" | "phase" | "priority" | "progress" | "parent";
+
+export interface ScheduleFieldChange {
+  field: ScheduleChangeField;
+  from: string;
+  to: string;
+}
+
+export interface PlannedItemUpdate {
+  itemId: string;
+  uid: string;
+  name: string;
+  changes: ScheduleFieldChange[];
+  patch: Partial<GanttItemInput>;
+  /** File uid of the new parent (null = top level); undefined when the parent is unchanged */
+  parentUid?: string | null;
+}
+
+export interface PlannedLinkUpdate {
+  dependencyId: string;
+  link: InterchangeLink;
+  from: { type: DependencyType; lagDays: number };
+}
+
+export interface ScheduleImportPlan {
+  mode: ScheduleImportMode;
+  /** File uid → existing gantt_items id */
+  matched: Record<string, string>;
+  /** New tasks, parents before children */
+  creates: InterchangeTask[];
+  updates: PlannedItemUpdate[];
+  unchanged: number;
+  deletes: Array<{ id: string; name: string }>;
+  links: {
+    create: InterchangeLink[];
+    update: PlannedLinkUpdate[];
+    remove: Array<{ dependencyId: string }>;
+    /** Links touching summary tasks — dependencies must join leaf tasks */
+    skipped: number;
+  };
+  calendar: { from: number; to: number } | null;
+  warnings: string[];
+}
+
+const LINK_LABELS: Record<DependencyType, string> = { 0: "FS", 1: "SS", 2: "FF", 3: "SF" };
+const PRIORITY_LABELS: Record<Priority, string> = { 1: "Low", 2: "Normal", 3: "High", 4: "Critical" };
+
+export function formatLink(type: DependencyType, lagDays: number): string {
+  const lag = lagDays === 0 ? "" : lagDays > 0 ? `+${lagDays}d` : `${lagDays}d`;
+  return `${LINK_LABELS[type] ?? "FS"}${lag}`;
+}
+
+const nameKey = (type: string, name: string) => `${type}:${name.trim().toLowerCase().replace(/\s+/g, " ")}`;
+
+function currentProgress(item: GanttItem): number {
+  if (item.item_type === "milestone") return item.is_completed ? 100 : 0;
+  return Math.round(item.progress ?? item.progress_override ?? 0);
+}
+
+export function planScheduleImport(
+  existingItems: GanttItem[],
+  existingDependencies: GanttDependency[],
+  schedule: InterchangeSchedule,
+  options: { mode: ScheduleImportMode; currentWorkingDays: number; applyCalendar: boolean }
+): ScheduleImportPlan {
+  const { mode } = options;
+  const byId = new Map(existingItems.map((i) => [i.id, i]));
+  const work = existingItems.filter((i) => i.item_type !== "phase");
+  const parentIds = new Set(work.map((i) => i.parent_id).filter(Boolean) as string[]);
+  // A task directly under a legacy phase item counts as top level
+  const effectiveParent = (item: GanttItem) =>
+    item.parent_id && byId.get(item.parent_id)?.item_type !== "phase" ? item.parent_id : null;
+
+  // --- Match file tasks to existing items ---------------------------------
+  const matched: Record<string, string> = {};
+  const taken = new Set<string>();
+  for (const task of schedule.tasks) {
+    const existing = byId.get(task.uid);
+    if (existing && existing.item_type !== "phase" && !taken.has(existing.id)) {
+      matched[task.uid] = existing.id;
+      taken.add(existing.id);
+    }
+  }
+  const byName = new Map<string, GanttItem[]>();
+  for (const item of work) {
+    if (taken.has(item.id)) continue;
+    const key = nameKey(item.item_type, item.name);
+    byName.set(key, [...(byName.get(key) || []), item]);
+  }
+  for (const task of schedule.tasks) {
+    if (matched[task.uid]) continue;
+    const candidates = byName.get(nameKey(task.type, task.name));
+    const candidate = candidates?.find((c) => !taken.has(c.id));
+    if (candidate) {
+      matched[task.uid] = candidate.id;
+      taken.add(candidate.id);
+    }
+  }
+
+  // --- Item creates / updates ---------------------------------------------
+  const creates: InterchangeTask[] = [];
+  const updates: PlannedItemUpdate[] = [];
+  let unchanged = 0;
+  const nameOfUid = (uid: string | null) =>
+    uid ? schedule.tasks.find((t) => t.uid === uid)?.name ?? "—" : "Top level";
+
+  for (const task of schedule.tasks) {
+    const itemId = matched[task.uid];
+    const existing = itemId ? byId.get(itemId) : undefined;
+    if (!existing) {
+      creates.push(task);
+      continue;
+    }
+
+    const changes: ScheduleFieldChange[] = [];
+    const patch: Partial<GanttItemInput> = {};
+    let parentUid: string | null | undefined;
+
+    if (existing.name !== task.name) {
+      changes.push({ field: "name", from: existing.name, to: task.name });
+      patch.name = task.name;
+    }
+    const end = task.type === "milestone" ? task.start : task.end;
+    if (existing.start_date !== task.start || existing.end_date !== end) {
+      changes.push({
+        field: "dates",
+        from: `${existing.start_date} → ${existing.end_date}`,
+        to: `${task.start} → ${end}`,
+      });
+      patch.start_date = task.start;
+      patch.end_date = end;
+    }
+    // Files without phase info leave the label alone
+    if (task.phaseKey && (existing.phase_key ?? null) !== task.phaseKey) {
+      changes.push({
+        field: "phase",
+        from: existing.phase_key ? phaseLabel(existing.phase_key) : "None",
+        to: phaseLabel(task.phaseKey),
+      });
+      patch.phase_key = task.phaseKey;
+    }
+    if ((existing.priority || 2) !== task.priority) {
+      changes.push({
+        field: "priority",
+        from: PRIORITY_LABELS[(existing.priority || 2) as Priority] ?? String(existing.priority),
+        to: PRIORITY_LABELS[task.priority],
+      });
+      patch.priority = task.priority;
+    }
+    // Scope-linked and parent tasks roll their progress up — don't override it
+    const rollsUp = (existing.linked_scope_item_ids?.length ?? 0) > 0 || parentIds.has(existing.id);
+    if (!rollsUp && currentProgress(existing) !== Math.round(task.progress)) {
+      changes.push({ field: "progress", from: `${currentProgress(existing)}%`, to: `${Math.round(task.progress)}%` });
+      if (existing.item_type === "milestone") patch.is_completed = task.progress >= 100;
+      else patch.progress_override = Math.round(task.progress);
+    }
+    const currentParent = effectiveParent(existing);
+    const targetParentId = task.parentUid ? matched[task.parentUid] ?? null : null;
+    const parentChanged = task.parentUid
+      ? !targetParentId || targetParentId !== currentParent
+      : currentParent !== null;
+    if (parentChanged) {
+      const currentParentName = currentParent ? byId.get(currentParent)?.name ?? "—" : "Top level";
+      changes.push({ field: "parent", from: currentParentName, to: nameOfUid(task.parentUid) });
+      parentUid = task.parentUid;
+    }
+
+    if (changes.length === 0) {
+      unchanged++;
+    } else {
+      updates.push({ itemId: existing.id, uid: task.uid, name: existing.name, changes, patch, parentUid });
+    }
+  }
+
+  const deletes =
+    mode === "replace"
+      ? work.filter((i) => !taken.has(i.id)).map((i) => ({ id: i.id, name: i.name }))
+      : [];
+  const deletedIds = new Set(deletes.map((d) => d.id));
+
+  // --- Links -----------------------------------------------------------------
+  const summaries = summaryUids(schedule);
+  // Existing parents stay parents unless replace removes all their children
+  const survivingParents = new Set(
+    work.filter((i) => i.parent_id && !deletedIds.has(i.id)).map((i) => i.parent_id as string)
+  );
+  const resolve = (uid: string) => matched[uid] ?? null;
+  const existingByPair = new Map(existingDependencies.map((d) => [`${d.source_id}|${d.target_id}`, d]));
+
+  const create: InterchangeLink[] = [];
+  const update: PlannedLinkUpdate[] = [];
+  const keptDependencyIds = new Set<string>();
+  const seenPairs = new Set<string>();
+  let skipped = 0;
+
+  for (const link of schedule.links) {
+    const sourceId = resolve(link.sourceUid);
+    const targetId = resolve(link.targetUid);
+    const isSummary = (uid: string, id: string | null) =>
+      summaries.has(uid) || (id !== null && survivingParents.has(id));
+    if (
+      link.sourceUid === link.targetUid ||
+      isSummary(link.sourceUid, sourceId) ||
+      isSummary(link.targetUid, targetId)
+    ) {
+      skipped++;
+      continue;
+    }
+    const pairKey = `${link.sourceUid}|${link.targetUid}`;
+    if (seenPairs.has(pairKey)) continue;
+    seenPairs.add(pairKey);
+
+    const existing = sourceId && targetId ? existingByPair.get(`${sourceId}|${targetId}`) : undefined;
+    if (!existing) {
+      create.push(link);
+      continue;
+    }
+    keptDependencyIds.add(existing.id);
+    if (existing.dependency_type !== link.type || (existing.lag_days || 0) !== link.lagDays) {
+      update.push({
+        dependencyId: existing.id,
+        link,
+        from: { type: existing.dependency_type as DependencyType, lagDays: existing.lag_days || 0 },
+      });
+    }
+  }
+
+  // Dependencies on deleted tasks cascade with them; only drop the ones between kept tasks
+  const remove =
+    mode === "replace"
+      ? existingDependencies
+          .filter(
+            (d) => !keptDependencyIds.has(d.id) && !deletedIds.has(d.source_id) && !deletedIds.has(d.target_id)
+          )
+          .map((d) => ({ dependencyId: d.id }))
+      : [];
+
+  const calendar =
+    options.applyCalendar &&
+    schedule.workingDaysMask !== null &&
+    schedule.workingDaysMask !== options.currentWorkingDays
+      ? { from: options.currentWorkingDays, to: schedule.workingDaysMask }
+      : null;
+
+  const warnings = [...schedule.warnings];
+  if (skipped > 0) {
+    warnings.push(
+      `${skipped} link${skipped === 1 ? "" : "s"} on summary tasks skipped — dependencies must connect leaf tasks`
+    );
+  }
+
+  return {
+    mode,
+    matched,
+    creates,
+    updates,
+    unchanged,
+    deletes,
+    links: { create, update, remove, skipped },
+    calendar,
+    warnings,
+  };
+}
+
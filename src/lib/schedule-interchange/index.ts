@@ -0,0 +1,4 @@
+export * from "./schedule";
+export { buildMspdiXml, parseMspdiXml } from "./mspdi";
+export { buildXer, parseXer, p6GuidToUuid, uuidToP6Guid } from "./xer";
+export * from "./import-plan";
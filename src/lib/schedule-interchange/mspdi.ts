@@ -0,0 +1,447 @@
+/**
+ * MS Project XML (MSPDI) reader / writer
+ *
+ * - Phases are written as outline-level-1 summary tasks, and also stored in a
+ *   "Phase" text field (Text1) so they survive re-outlining in MS Project
+ * - Task GUID carries our gantt_items id, which lets a re-import match rows
+ * - Link types: MSPDI 0=FF 1=FS 2=SF 3=SS; ours 0=FS 1=SS 2=FF 3=SF
+ * - Lag is stored in tenths of a minute (4800 = one 8h working day)
+ * - WeekDays of the project calendar map to our working-days bitmask
+ */
+
+import type { DependencyType, PhaseKey } from "@/lib/actions/timelines";
+import {
+  type InterchangeLink,
+  type InterchangeSchedule,
+  type InterchangeTask,
+  DEFAULT_WORKING_DAYS,
+  HOURS_PER_DAY,
+  SCHEDULE_PHASES,
+  matchPhaseKey,
+  phaseLabel,
+  priorityFromMsp,
+  priorityToMsp,
+  summaryUids,
+  workingDaysInclusive,
+} from "./schedule";
+
+const MSPDI_NAMESPACE = "http://schemas.microsoft.com/project";
+/** Task Text1 custom field */
+const PHASE_FIELD_ID = "188743731";
+
+/** Ours (index) → MSPDI link type */
+const TO_MSP_LINK: Record<DependencyType, number> = { 0: 1, 1: 3, 2: 0, 3: 2 };
+/** MSPDI link type (index) → ours */
+const FROM_MSP_LINK: DependencyType[] = [2, 0, 3, 1];
+
+const TENTHS_PER_WORKING_DAY = HOURS_PER_DAY * 60 * 10;
+const TENTHS_PER_ELAPSED_DAY = 24 * 60 * 10;
+/** LagFormat values for elapsed units (em, eh, ed, ew, emo) */
+const ELAPSED_LAG_FORMATS = new Set([4, 6, 8, 10, 12]);
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function el(name: string, value: string | number): string {
+  return `<${name}>${typeof value === "number" ? value : escapeXml(value)}</${name}>`;
+}
+
+// ============================================================================
+// Writer
+// ============================================================================
+
+interface OutlineEntry {
+  kind: "phase" | "task";
+  phaseKey: PhaseKey | null;
+  task?: InterchangeTask;
+  level: number;
+  outlineNumber: string;
+  start: string;
+  end: string;
+}
+
+/** Order tasks under their phase summary, each subtree kept contiguous */
+function buildOutline(schedule: InterchangeSchedule): OutlineEntry[] {
+  const children = new Map<string | null, InterchangeTask[]>();
+  for (const t of schedule.tasks) {
+    const list = children.get(t.parentUid) || [];
+    list.push(t);
+    children.set(t.parentUid, list);
+  }
+
+  const subtreeRange = (task: InterchangeTask): { start: string; end: string } => {
+    let { start, end } = task;
+    for (const c of children.get(task.uid) || []) {
+      const r = subtreeRange(c);
+      if (r.start < start) start = r.start;
+      if (r.end > end) end = r.end;
+    }
+    return { start, end };
+  };
+
+  const entries: OutlineEntry[] = [];
+  const pushSubtree = (task: InterchangeTask, level: number, outlineNumber: string) => {
+    const range = subtreeRange(task);
+    entries.push({ kind: "task", phaseKey: task.phaseKey, task, level, outlineNumber, ...range });
+    (children.get(task.uid) || []).forEach((c, i) => pushSubtree(c, level + 1, `${outlineNumber}.${i + 1}`));
+  };
+
+  const roots = children.get(null) || [];
+  let top = 0;
+  for (const phase of SCHEDULE_PHASES) {
+    const phaseRoots = roots.filter((t) => t.phaseKey === phase.key);
+    if (phaseRoots.length === 0) continue;
+    top++;
+    const ranges = phaseRoots.map(subtreeRange);
+    entries.push({
+      kind: "phase",
+      phaseKey: phase.key,
+      level: 1,
+      outlineNumber: String(top),
+      start: ranges.reduce((m, r) => (r.start < m ? r.start : m), ranges[0].start),
+      end: ranges.reduce((m, r) => (r.end > m ? r.end : m), ranges[0].end),
+    });
+    const phaseNumber = top;
+    phaseRoots.forEach((t, i) => pushSubtree(t, 2, `${phaseNumber}.${i + 1}`));
+  }
+  for (const t of roots.filter((r) => !r.phaseKey)) {
+    top++;
+    pushSubtree(t, 1, String(top));
+  }
+  return entries;
+}
+
+function weekDaysXml(mask: number): string {
+  const days: string[] = [];
+  for (let bit = 0; bit < 7; bit++) {
+    const working = (mask & (1 << bit)) !== 0;
+    days.push(
+      "<WeekDay>" +
+        el("DayType", bit + 1) +
+        el("DayWorking", working ? 1 : 0) +
+        (working
+          ? "<WorkingTimes>" +
+            "<WorkingTime><FromTime>08:00:00</FromTime><ToTime>12:00:00</ToTime></WorkingTime>" +
+            "<WorkingTime><FromTime>13:00:00</FromTime><ToTime>17:00:00</ToTime></WorkingTime>" +
+            "</WorkingTimes>"
+          : "") +
+        "</WeekDay>"
+    );
+  }
+  return days.join("");
+}
+
+function durationXml(hours: number): string {
+  return `PT${hours}H0M0S`;
+}
+
+/** Serialize a schedule as an MSPDI document MS Project can open directly */
+export function buildMspdiXml(schedule: InterchangeSchedule): string {
+  const mask = schedule.workingDaysMask ?? DEFAULT_WORKING_DAYS;
+  const outline = buildOutline(schedule);
+  const summaries = summaryUids(schedule);
+  const workingDayCount = [0, 1, 2, 3, 4, 5, 6].filter((b) => (mask & (1 << b)) !== 0).length;
+
+  // Integer UIDs: 0 is the project summary task
+  const uidByTask = new Map<string, number>();
+  outline.forEach((entry, i) => {
+    if (entry.task) uidByTask.set(entry.task.uid, i + 1);
+  });
+  const predecessors = new Map<string, InterchangeLink[]>();
+  for (const link of schedule.links) {
+    if (!uidByTask.has(link.sourceUid) || !uidByTask.has(link.targetUid)) continue;
+    const list = predecessors.get(link.targetUid) || [];
+    list.push(link);
+    predecessors.set(link.targetUid, list);
+  }
+
+  const projectStart = outline.reduce((m, e) => (e.start < m ? e.start : m), outline[0]?.start ?? "");
+  const projectEnd = outline.reduce((m, e) => (e.end > m ? e.end : m), outline[0]?.end ?? "");
+  const name = schedule.projectName || "Timeline";
+
+  const tasksXml: string[] = [
+    "<Task>" +
+      el("UID", 0) +
+      el("ID", 0) +
+      el("Name", name) +
+      el("OutlineNumber", "0") +
+      el("OutlineLevel", 0) +
+      (projectStart ? el("Start", `${projectStart}T08:00:00`) + el("Finish", `${projectEnd}T17:00:00`) : "") +
+      el("Summary", 1) +
+      "</Task>",
+  ];
+
+  outline.forEach((entry, i) => {
+    const uid = i + 1;
+    const task = entry.task;
+    const isMilestone = task?.type === "milestone";
+    const isSummary = entry.kind === "phase" || summaries.has(task!.uid);
+    const hours = isMilestone ? 0 : workingDaysInclusive(entry.start, entry.end, mask) * HOURS_PER_DAY;
+    const links = task ? predecessors.get(task.uid) || [] : [];
+    const phaseKey = entry.phaseKey;
+
+    tasksXml.push(
+      "<Task>" +
+        el("UID", uid) +
+        (task ? el("GUID", task.uid) : "") +
+        el("ID", uid) +
+        el("Name", task ? task.name : phaseLabel(phaseKey!)) +
+        el("Type", isSummary ? 1 : 0) +
+        el("IsNull", 0) +
+        el("OutlineNumber", entry.outlineNumber) +
+        el("OutlineLevel", entry.level) +
+        el("Priority", priorityToMsp(task?.priority ?? 2)) +
+        el("Start", `${entry.start}T08:00:00`) +
+        el("Finish", isMilestone ? `${entry.start}T08:00:00` : `${entry.end}T17:00:00`) +
+        el("Duration", durationXml(hours)) +
+        el("DurationFormat", 7) +
+        el("Milestone", isMilestone ? 1 : 0) +
+        el("Summary", isSummary ? 1 : 0) +
+        el("PercentComplete", task ? Math.round(task.progress) : 0) +
+        (task?.description ? el("Notes", task.description) : "") +
+        links
+          .map(
+            (l) =>
+              "<PredecessorLink>" +
+              el("PredecessorUID", uidByTask.get(l.sourceUid)!) +
+              el("Type", TO_MSP_LINK[l.type]) +
+              el("CrossProject", 0) +
+              el("LinkLag", Math.round(l.lagDays * TENTHS_PER_WORKING_DAY)) +
+              el("LagFormat", 7) +
+              "</PredecessorLink>"
+          )
+          .join("") +
+        (phaseKey
+          ? "<ExtendedAttribute>" + el("FieldID", PHASE_FIELD_ID) + el("Value", phaseLabel(phaseKey)) + "</ExtendedAttribute>"
+          : "") +
+        "</Task>"
+    );
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    `<Project xmlns="${MSPDI_NAMESPACE}">`,
+    el("SaveVersion", 14),
+    el("Name", `${name}.xml`),
+    el("Title", name),
+    el("ScheduleFromStart", 1),
+    projectStart ? el("StartDate", `${projectStart}T08:00:00`) : "",
+    projectEnd ? el("FinishDate", `${projectEnd}T17:00:00`) : "",
+    el("CalendarUID", 1),
+    el("DefaultStartTime", "08:00:00"),
+    el("DefaultFinishTime", "17:00:00"),
+    el("MinutesPerDay", HOURS_PER_DAY * 60),
+    el("MinutesPerWeek", HOURS_PER_DAY * 60 * workingDayCount),
+    el("DaysPerMonth", 20),
+    "<ExtendedAttributes><ExtendedAttribute>" +
+      el("FieldID", PHASE_FIELD_ID) +
+      el("FieldName", "Text1") +
+      el("Alias", "Phase") +
+      "</ExtendedAttribute></ExtendedAttributes>",
+    "<Calendars><Calendar>" +
+      el("UID", 1) +
+      el("Name", "Standard") +
+      el("IsBaseCalendar", 1) +
+      el("BaseCalendarUID", -1) +
+      `<WeekDays>${weekDaysXml(mask)}</WeekDays>` +
+      "</Calendar></Calendars>",
+    `<Tasks>${tasksXml.join("")}</Tasks>`,
+    "</Project>",
+    "",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+// ============================================================================
+// Reader
+// ============================================================================
+
+function childElements(parent: Element, name: string): Element[] {
+  return Array.from(parent.children).filter((c) => c.localName === name);
+}
+
+function childText(parent: Element, name: string): string | null {
+  const child = childElements(parent, name)[0];
+  return child ? (child.textContent ?? "").trim() : null;
+}
+
+function childNumber(parent: Element, name: string): number | null {
+  const text = childText(parent, name);
+  if (text === null || text === "") return null;
+  const n = Number(text);
+  return Number.isFinite(n) ? n : null;
+}
+
+/** "2026-03-06T17:00:00" → "2026-03-06"; a midnight finish belongs to the previous day */
+function dayPart(value: string | null, isFinish: boolean): string | null {
+  if (!value) return null;
+  const match = /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2}))?/.exec(value);
+  if (!match) return null;
+  const [, y, m, d, hh, mm] = match;
+  if (isFinish && hh === "00" && mm === "00") {
+    const prev = new Date(Number(y), Number(m) - 1, Number(d) - 1);
+    return `${prev.getFullYear()}-${String(prev.getMonth() + 1).padStart(2, "0")}-${String(prev.getDate()).padStart(2, "0")}`;
+  }
+  return `${y}-${m}-${d}`;
+}
+
+function readCalendarMask(project: Element): number | null {
+  const calendarsEl = childElements(project, "Calendars")[0];
+  if (!calendarsEl) return null;
+  const calendars = childElements(calendarsEl, "Calendar");
+  const uid = childText(project, "CalendarUID");
+  const calendar =
+    calendars.find((c) => childText(c, "UID") === uid) ??
+    calendars.find((c) => childText(c, "IsBaseCalendar") === "1") ??
+    calendars[0];
+  const weekDaysEl = calendar ? childElements(calendar, "WeekDays")[0] : undefined;
+  if (!weekDaysEl) return null;
+
+  let mask = 0;
+  let seen = false;
+  for (const day of childElements(weekDaysEl, "WeekDay")) {
+    const dayType = childNumber(day, "DayType");
+    // DayType 0 is an exception period, 1-7 = Sunday-Saturday
+    if (dayType === null || dayType < 1 || dayType > 7) continue;
+    seen = true;
+    if (childText(day, "DayWorking") === "1") mask |= 1 << (dayType - 1);
+  }
+  return seen && mask !== 0 ? mask : null;
+}
+
+function readPhaseFieldId(project: Element): string | null {
+  const defsEl = childElements(project, "ExtendedAttributes")[0];
+  if (!defsEl) return null;
+  const def = childElements(defsEl, "ExtendedAttribute").find(
+    (d) => (childText(d, "Alias") ?? "").toLowerCase() === "phase"
+  );
+  return def ? childText(def, "FieldID") : null;
+}
+
+/**
+ * Parse an MSPDI document. Throws when the text is not MS Project XML.
+ * Summary tasks named after a phase become that phase (not a task).
+ */
+export function parseMspdiXml(xml: string): InterchangeSchedule {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  const project = doc.documentElement;
+  if (!project || project.localName !== "Project" || doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("Not a Microsoft Project XML file");
+  }
+
+  const warnings: string[] = [];
+  const phaseFieldId = readPhaseFieldId(project);
+  const tasksEl = childElements(project, "Tasks")[0];
+  const taskEls = tasksEl ? childElements(tasksEl, "Task") : [];
+
+  interface RawTask {
+    uid: string;
+    level: number;
+    isPhase: PhaseKey | null;
+    task: InterchangeTask | null;
+    predecessors: Element[];
+  }
+
+  const raw: RawTask[] = [];
+  const stack: RawTask[] = [];
+  let skippedUndated = 0;
+
+  for (const taskEl of taskEls) {
+    const uid = childText(taskEl, "UID");
+    const level = childNumber(taskEl, "OutlineLevel") ?? 1;
+    if (!uid || level < 1 || childText(taskEl, "IsNull") === "1") continue;
+
+    while (stack.length > 0 && stack[stack.length - 1].level >= level) stack.pop();
+    const parent = stack[stack.length - 1] ?? null;
+
+    const name = childText(taskEl, "Name") || "Untitled task";
+    const isSummary = childText(taskEl, "Summary") === "1";
+    const phaseAttr = phaseFieldId
+      ? childElements(taskEl, "ExtendedAttribute").find((a) => childText(a, "FieldID") === phaseFieldId)
+      : undefined;
+    const fieldPhase = phaseAttr ? matchPhaseKey(childText(phaseAttr, "Value")) : null;
+    const inheritedPhase = parent ? parent.isPhase ?? parent.task?.phaseKey ?? null : null;
+
+    // A summary task named after a phase is that phase — its children inherit it
+    const namedPhase = isSummary ? matchPhaseKey(name) : null;
+    if (namedPhase) {
+      const entry: RawTask = { uid, level, isPhase: namedPhase, task: null, predecessors: [] };
+      raw.push(entry);
+      stack.push(entry);
+      continue;
+    }
+
+    const start = dayPart(childText(taskEl, "Start"), false);
+    const finish = dayPart(childText(taskEl, "Finish"), true);
+    if (!start || !finish) {
+      skippedUndated++;
+      continue;
+    }
+
+    const duration = childText(taskEl, "Duration");
+    const isMilestone =
+      childText(taskEl, "Milestone") === "1" ||
+      (!isSummary && duration !== null && /^PT0H0M0S$/.test(duration));
+
+    const task: InterchangeTask = {
+      uid: childText(taskEl, "GUID") || uid,
+      name,
+      type: isMilestone ? "milestone" : "task",
+      phaseKey: fieldPhase ?? inheritedPhase,
+      parentUid: parent?.task ? parent.task.uid : null,
+      start,
+      end: isMilestone ? start : finish < start ? start : finish,
+      priority: priorityFromMsp(childNumber(taskEl, "Priority") ?? 500),
+      progress: Math.min(100, Math.max(0, Math.round(childNumber(taskEl, "PercentComplete") ?? 0))),
+      description: childText(taskEl, "Notes") || null,
+    };
+    const entry: RawTask = { uid, level, isPhase: null, task, predecessors: childElements(taskEl, "PredecessorLink") };
+    raw.push(entry);
+    stack.push(entry);
+  }
+
+  if (skippedUndated > 0) {
+    warnings.push(`${skippedUndated} task${skippedUndated === 1 ? "" : "s"} without start/finish dates skipped`);
+  }
+
+  const byFileUid = new Map(raw.filter((r) => r.task).map((r) => [r.uid, r.task!]));
+  const links: InterchangeLink[] = [];
+  let skippedLinks = 0;
+  for (const entry of raw) {
+    if (!entry.task) continue;
+    for (const linkEl of entry.predecessors) {
+      const source = byFileUid.get(childText(linkEl, "PredecessorUID") ?? "");
+      const mspType = childNumber(linkEl, "Type") ?? 1;
+      const lagFormat = childNumber(linkEl, "LagFormat") ?? 7;
+      if (!source || mspType < 0 || mspType > 3 || lagFormat === 19 || lagFormat === 20) {
+        skippedLinks++;
+        continue;
+      }
+      const perDay = ELAPSED_LAG_FORMATS.has(lagFormat) ? TENTHS_PER_ELAPSED_DAY : TENTHS_PER_WORKING_DAY;
+      links.push({
+        sourceUid: source.uid,
+        targetUid: entry.task.uid,
+        type: FROM_MSP_LINK[mspType],
+        lagDays: Math.round((childNumber(linkEl, "LinkLag") ?? 0) / perDay),
+      });
+    }
+  }
+  if (skippedLinks > 0) {
+    warnings.push(`${skippedLinks} link${skippedLinks === 1 ? "" : "s"} to phases, other projects or with % lag skipped`);
+  }
+
+  return {
+    projectName: childText(project, "Title") || childText(project, "Name")?.replace(/\.xml$/i, "") || null,
+    workingDaysMask: readCalendarMask(project),
+    tasks: raw.filter((r) => r.task).map((r) => r.task!),
+    links,
+    warnings,
+  };
+}
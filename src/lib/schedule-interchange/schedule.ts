@@ -0,0 +1,219 @@
+/**
+ * Schedule interchange — shared model
+ *
+ * MS Project (MSPDI XML) and Primavera (XER) files are read into, and written
+ * from, one neutral shape so the import preview / merge logic doesn't care
+ * which tool produced the file.
+ *
+ * Phases are labels in our timeline (tasks carry phase_key), so they never
+ * appear as tasks here: writers emit them as summary tasks / WBS nodes and
+ * readers fold matching summaries back into each task's phaseKey.
+ */
+
+import type {
+  DependencyType,
+  GanttDependency,
+  GanttItem,
+  PhaseKey,
+  Priority,
+} from "@/lib/actions/timelines";
+
+export type ScheduleFileFormat = "mspdi" | "xer";
+
+export interface InterchangeTask {
+  /** Id within the source file. On our own exports this is the gantt_items id. */
+  uid: string;
+  name: string;
+  type: "task" | "milestone";
+  phaseKey: PhaseKey | null;
+  parentUid: string | null;
+  /** yyyy-MM-dd */
+  start: string;
+  /** yyyy-MM-dd (inclusive) */
+  end: string;
+  priority: Priority;
+  /** 0-100 */
+  progress: number;
+  description: string | null;
+}
+
+export interface InterchangeLink {
+  sourceUid: string;
+  targetUid: string;
+  type: DependencyType;
+  /** Working days */
+  lagDays: number;
+}
+
+export interface InterchangeSchedule {
+  projectName: string | null;
+  /** Working-days bitmask (bit 0 = Sun .. bit 6 = Sat); null when the file has no calendar */
+  workingDaysMask: number | null;
+  /** Tasks in outline (pre-order) sequence — parents before their children */
+  tasks: InterchangeTask[];
+  links: InterchangeLink[];
+  /** Things the reader skipped or approximated, shown in the import preview */
+  warnings: string[];
+}
+
+// ============================================================================
+// Phases
+// ============================================================================
+
+export const SCHEDULE_PHASES: Array<{ key: PhaseKey; label: string }> = [
+  { key: "design", label: "Design/Shopdrawing" },
+  { key: "production", label: "Production" },
+  { key: "procurement", label: "Procurement" },
+  { key: "shipping", label: "Shipment" },
+  { key: "installation", label: "Installation" },
+];
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/** Resolve a summary-task name / custom-field value to one of our fixed phases */
+export function matchPhaseKey(value: string | null | undefined): PhaseKey | null {
+  if (!value) return null;
+  const n = normalize(value);
+  if (!n) return null;
+  const match = SCHEDULE_PHASES.find((p) => normalize(p.key) === n || normalize(p.label) === n);
+  return match?.key ?? null;
+}
+
+export function phaseLabel(key: PhaseKey): string {
+  return SCHEDULE_PHASES.find((p) => p.key === key)?.label ?? key;
+}
+
+// ============================================================================
+// Calendar helpers (yyyy-MM-dd strings, local dates)
+// ============================================================================
+
+export const HOURS_PER_DAY = 8;
+export const DEFAULT_WORKING_DAYS = 62; // Mon-Fri
+
+export function parseDay(value: string): Date {
+  const [y, m, d] = value.split("-").map(Number);
+  return new Date(y, m - 1, d);
+}
+
+export function formatDay(date: Date): string {
+  const m = String(date.getMonth() + 1).padStart(2, "0");
+  const d = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${m}-${d}`;
+}
+
+export function isDayString(value: unknown): value is string {
+  return typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(parseDay(value).getTime());
+}
+
+/** Working days from start to end, inclusive; at least 1 */
+export function workingDaysInclusive(start: string, end: string, mask: number): number {
+  const a = parseDay(start);
+  const b = parseDay(end);
+  if (b < a) return 1;
+  let count = 0;
+  const cursor = new Date(a);
+  while (cursor <= b) {
+    if ((mask & (1 << cursor.getDay())) !== 0) count++;
+    cursor.setDate(cursor.getDate() + 1);
+  }
+  return Math.max(1, count);
+}
+
+// ============================================================================
+// Priority — both tools use a wider scale than our 1-4
+// ============================================================================
+
+const MSP_PRIORITY: Record<Priority, number> = { 1: 300, 2: 500, 3: 700, 4: 900 };
+
+export function priorityToMsp(priority: Priority): number {
+  return MSP_PRIORITY[priority] ?? 500;
+}
+
+/** MS Project priority is 0-1000 with 500 = Medium */
+export function priorityFromMsp(value: number): Priority {
+  if (!Number.isFinite(value)) return 2;
+  if (value < 400) return 1;
+  if (value < 600) return 2;
+  if (value < 800) return 3;
+  return 4;
+}
+
+// ============================================================================
+// Timeline → interchange
+// ============================================================================
+
+/**
+ * Build the neutral schedule from a project's timeline as returned by
+ * getTimelineItems / getTimelineDependencies. Phase items are dropped (their
+ * key lives on each task) and tasks whose parent is a phase become roots.
+ */
+export function buildInterchangeSchedule(
+  items: GanttItem[],
+  dependencies: GanttDependency[],
+  workingDaysMask: number,
+  projectName: string | null
+): InterchangeSchedule {
+  const byId = new Map(items.map((i) => [i.id, i]));
+  const work = items.filter((i) => i.item_type !== "phase");
+  const workIds = new Set(work.map((i) => i.id));
+
+  const children = new Map<string | null, GanttItem[]>();
+  for (const item of work) {
+    const parentId = item.parent_id && workIds.has(item.parent_id) ? item.parent_id : null;
+    const list = children.get(parentId) || [];
+    list.push(item);
+    children.set(parentId, list);
+  }
+
+  // Pre-order so parents always precede their children
+  const tasks: InterchangeTask[] = [];
+  const visit = (parentId: string | null, inheritedPhase: PhaseKey | null) => {
+    const list = (children.get(parentId) || []).sort(
+      (a, b) => a.sort_order - b.sort_order || a.start_date.localeCompare(b.start_date)
+    );
+    for (const item of list) {
+      const legacyPhase = item.parent_id ? byId.get(item.parent_id) : undefined;
+      const phaseKey =
+        item.phase_key ??
+        (legacyPhase?.item_type === "phase" ? legacyPhase.phase_key ?? null : null) ??
+        inheritedPhase;
+      tasks.push({
+        uid: item.id,
+        name: item.name,
+        type: item.item_type === "milestone" ? "milestone" : "task",
+        phaseKey,
+        parentUid: parentId,
+        start: item.start_date,
+        end: item.item_type === "milestone" ? item.start_date : item.end_date,
+        priority: (item.priority || 2) as Priority,
+        progress:
+          item.item_type === "milestone"
+            ? item.is_completed
+              ? 100
+              : 0
+            : Math.round(item.progress ?? item.progress_override ?? 0),
+        description: item.description ?? null,
+      });
+      visit(item.id, phaseKey);
+    }
+  };
+  visit(null, null);
+
+  const links: InterchangeLink[] = dependencies
+    .filter((d) => workIds.has(d.source_id) && workIds.has(d.target_id))
+    .map((d) => ({
+      sourceUid: d.source_id,
+      targetUid: d.target_id,
+      type: d.dependency_type as DependencyType,
+      lagDays: d.lag_days || 0,
+    }));
+
+  return { projectName, workingDaysMask, tasks, links, warnings: [] };
+}
+
+/** Uids of tasks that have children in the file (summary tasks) */
+export function summaryUids(schedule: InterchangeSchedule): Set<string> {
+  const set = new Set<string>();
+  for (const t of schedule.tasks) if (t.parentUid) set.add(t.parentUid);
+  return set;
+}
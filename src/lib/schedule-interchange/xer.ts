@@ -0,0 +1,485 @@
+/**
+ * Primavera P6 XER reader / writer
+ *
+ * XER is tab-separated: `%T` names a table, `%F` lists its fields and each
+ * `%R` is one row. We use PROJECT, CALENDAR, PROJWBS, TASK and TASKPRED.
+ *
+ * - P6 has no task hierarchy, only WBS: phases and our parent tasks are
+ *   written as WBS nodes, leaf tasks/milestones as TASK rows (WBS nodes
+ *   carry no priority, so parent tasks come back as Normal)
+ * - TASK/PROJWBS guid carries our gantt_items id (P6 guid = base64 of the
+ *   16 UUID bytes), so a round-trip import can match rows
+ * - Lag is in hours (lag_hr_cnt) against the calendar's day_hr_cnt
+ * - The calendar's DaysOfWeek block maps to our working-days bitmask
+ */
+
+import type { DependencyType, PhaseKey, Priority } from "@/lib/actions/timelines";
+import {
+  type InterchangeLink,
+  type InterchangeSchedule,
+  type InterchangeTask,
+  DEFAULT_WORKING_DAYS,
+  HOURS_PER_DAY,
+  SCHEDULE_PHASES,
+  formatDay,
+  matchPhaseKey,
+  phaseLabel,
+  summaryUids,
+  workingDaysInclusive,
+} from "./schedule";
+
+const LINK_TYPES: Record<DependencyType, string> = { 0: "PR_FS", 1: "PR_SS", 2: "PR_FF", 3: "PR_SF" };
+
+const PRIORITY_TYPES: Record<Priority, string> = {
+  1: "PT_Low",
+  2: "PT_Normal",
+  3: "PT_High",
+  4: "PT_Top",
+};
+
+const PRIORITY_FROM_XER: Record<string, Priority> = {
+  PT_Lowest: 1,
+  PT_Low: 1,
+  PT_Normal: 2,
+  PT_High: 3,
+  PT_Top: 4,
+};
+
+// ============================================================================
+// GUID helpers — P6 stores a GUID as 22 base64 chars
+// ============================================================================
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function uuidToP6Guid(uuid: string): string {
+  if (!UUID_RE.test(uuid)) return "";
+  const hex = uuid.replace(/-/g, "");
+  let binary = "";
+  for (let i = 0; i < 32; i += 2) binary += String.fromCharCode(parseInt(hex.slice(i, i + 2), 16));
+  return btoa(binary).replace(/=+$/, "");
+}
+
+export function p6GuidToUuid(guid: string): string | null {
+  if (!/^[A-Za-z0-9+/]{22}$/.test(guid)) return null;
+  let hex = "";
+  try {
+    const binary = atob(`${guid}==`);
+    for (let i = 0; i < binary.length; i++) hex += binary.charCodeAt(i).toString(16).padStart(2, "0");
+  } catch {
+    return null;
+  }
+  if (hex.length !== 32) return null;
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+// ============================================================================
+// Calendar data — P6's nested "(0||name(attrs)(children))" notation
+// ============================================================================
+
+function calendarData(mask: number): string {
+  const days: string[] = [];
+  for (let bit = 0; bit < 7; bit++) {
+    const working = (mask & (1 << bit)) !== 0;
+    days.push(
+      working
+        ? `(0||${bit + 1}()((0||0(s|08:00|f|12:00)())(0||1(s|13:00|f|17:00)())))`
+        : `(0||${bit + 1}()())`
+    );
+  }
+  return `(0||CalendarData()((0||DaysOfWeek()(${days.join("")}))(0||VIEW(ShowTotal|Y)())(0||Exceptions()())))`;
+}
+
+/** Working-days bitmask from clndr_data; a day works if it has any s|..|f|.. shift */
+function maskFromCalendarData(data: string): number | null {
+  const start = data.indexOf("DaysOfWeek()");
+  if (start < 0) return null;
+  const block = data.slice(start);
+  let mask = 0;
+  let seen = false;
+  for (let day = 1; day <= 7; day++) {
+    const marker = new RegExp(`\\(0\\|\\|${day}\\(\\)\\(`);
+    const found = marker.exec(block);
+    if (!found) continue;
+    seen = true;
+    const rest = block.slice(found.index + found[0].length);
+    const next = /\(0\|\|[1-7]\(\)\(|Exceptions\(\)|VIEW\(/.exec(rest);
+    const body = next ? rest.slice(0, next.index) : rest;
+    if (/s\|\d{1,2}:\d{2}/.test(body)) mask |= 1 << (day - 1);
+  }
+  return seen && mask !== 0 ? mask : null;
+}
+
+// ============================================================================
+// Writer
+// ============================================================================
+
+function xerValue(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return "";
+  return String(value).replace(/[\t\r\n]+/g, " ");
+}
+
+function table(name: string, fields: string[], rows: Array<Array<string | number | null>>): string[] {
+  return [
+    `%T\t${name}`,
+    `%F\t${fields.join("\t")}`,
+    ...rows.map((r) => `%R\t${r.map(xerValue).join("\t")}`),
+  ];
+}
+
+/** Serialize a schedule as a single-project XER file */
+export function buildXer(schedule: InterchangeSchedule, projectCode: string): string {
+  const mask = schedule.workingDaysMask ?? DEFAULT_WORKING_DAYS;
+  const workingDayCount = [0, 1, 2, 3, 4, 5, 6].filter((b) => (mask & (1 << b)) !== 0).length;
+  const today = formatDay(new Date());
+  const projId = 1;
+  const clndrId = 1;
+  const rootWbsId = 100;
+  const code = projectCode || "TIMELINE";
+  const summaries = summaryUids(schedule);
+
+  const starts = schedule.tasks.map((t) => t.start).sort();
+  const ends = schedule.tasks.map((t) => t.end).sort();
+  const projectStart = starts[0] ?? today;
+  const projectEnd = ends[ends.length - 1] ?? today;
+
+  // WBS: project root → phases → parent tasks (nested)
+  const wbsRows: Array<Array<string | number | null>> = [
+    [rootWbsId, projId, null, code, schedule.projectName || code, 0, "Y", ""],
+  ];
+  const phaseWbs = new Map<PhaseKey, number>();
+  let nextWbs = rootWbsId + 1;
+  SCHEDULE_PHASES.forEach((phase, i) => {
+    if (!schedule.tasks.some((t) => t.phaseKey === phase.key)) return;
+    phaseWbs.set(phase.key, nextWbs);
+    wbsRows.push([nextWbs++, projId, rootWbsId, phase.key.toUpperCase(), phaseLabel(phase.key), i + 1, "N", ""]);
+  });
+  const taskWbs = new Map<string, number>();
+  const wbsFor = (task: InterchangeTask): number => {
+    if (task.parentUid && taskWbs.has(task.parentUid)) return taskWbs.get(task.parentUid)!;
+    return (task.phaseKey && phaseWbs.get(task.phaseKey)) || rootWbsId;
+  };
+
+  const taskRows: Array<Array<string | number | null>> = [];
+  const taskIds = new Map<string, number>();
+  let nextTask = 1000;
+  schedule.tasks.forEach((task, i) => {
+    if (summaries.has(task.uid)) {
+      taskWbs.set(task.uid, nextWbs);
+      wbsRows.push([nextWbs++, projId, wbsFor(task), `WBS${i + 1}`, task.name, i + 1, "N", uuidToP6Guid(task.uid)]);
+      return;
+    }
+    const id = nextTask++;
+    taskIds.set(task.uid, id);
+    const isMilestone = task.type === "milestone";
+    const end = isMilestone ? task.start : task.end;
+    const hours = isMilestone ? 0 : workingDaysInclusive(task.start, end, mask) * HOURS_PER_DAY;
+    const startStamp = `${task.start} 08:00`;
+    const endStamp = isMilestone ? startStamp : `${end} 17:00`;
+    taskRows.push([
+      id,
+      projId,
+      wbsFor(task),
+      clndrId,
+      `A${id}`,
+      task.name,
+      isMilestone ? "TT_Mile" : "TT_Task",
+      task.progress >= 100 ? "TK_Complete" : task.progress > 0 ? "TK_Active" : "TK_NotStart",
+      PRIORITY_TYPES[task.priority] ?? "PT_Normal",
+      "CP_Phys",
+      Math.round(task.progress),
+      hours,
+      startStamp,
+      endStamp,
+      startStamp,
+      endStamp,
+      uuidToP6Guid(task.uid),
+    ]);
+  });
+
+  const predRows: Array<Array<string | number | null>> = [];
+  schedule.links.forEach((link, i) => {
+    const taskId = taskIds.get(link.targetUid);
+    const predId = taskIds.get(link.sourceUid);
+    if (!taskId || !predId) return;
+    predRows.push([5000 + i, taskId, predId, projId, projId, LINK_TYPES[link.type], link.lagDays * HOURS_PER_DAY]);
+  });
+
+  const lines = [
+    `ERMHDR\t19.12\t${today}\tProject\tadmin\tadmin\tdbxDatabaseNoName\tProject Management\tUSD`,
+    ...table(
+      "PROJECT",
+      ["proj_id", "proj_short_name", "clndr_id", "plan_start_date", "scd_end_date", "last_recalc_date"],
+      [[projId, code, clndrId, `${projectStart} 08:00`, `${projectEnd} 17:00`, `${today} 00:00`]]
+    ),
+    ...table(
+      "CALENDAR",
+      ["clndr_id", "default_flag", "clndr_name", "proj_id", "clndr_type", "day_hr_cnt", "week_hr_cnt", "clndr_data"],
+      [[clndrId, "Y", "Standard", null, "CA_Base", HOURS_PER_DAY, HOURS_PER_DAY * workingDayCount, calendarData(mask)]]
+    ),
+    ...table(
+      "PROJWBS",
+      ["wbs_id", "proj_id", "parent_wbs_id", "wbs_short_name", "wbs_name", "seq_num", "proj_node_flag", "guid"],
+      wbsRows
+    ),
+    ...table(
+      "TASK",
+      [
+        "task_id",
+        "proj_id",
+        "wbs_id",
+        "clndr_id",
+        "task_code",
+        "task_name",
+        "task_type",
+        "status_code",
+        "priority_type",
+        "complete_pct_type",
+        "phys_complete_pct",
+        "target_drtn_hr_cnt",
+        "target_start_date",
+        "target_end_date",
+        "early_start_date",
+        "early_end_date",
+        "guid",
+      ],
+      taskRows
+    ),
+    ...table(
+      "TASKPRED",
+      ["task_pred_id", "task_id", "pred_task_id", "proj_id", "pred_proj_id", "pred_type", "lag_hr_cnt"],
+      predRows
+    ),
+    "%E",
+    "",
+  ];
+  return lines.join("\r\n");
+}
+
+// ============================================================================
+// Reader
+// ============================================================================
+
+type XerRow = Record<string, string>;
+
+function readTables(text: string): Map<string, XerRow[]> {
+  const tables = new Map<string, XerRow[]>();
+  let current: XerRow[] | null = null;
+  let fields: string[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    if (line.startsWith("%T\t")) {
+      current = [];
+      tables.set(line.slice(3).trim(), current);
+      fields = [];
+    } else if (line.startsWith("%F\t")) {
+      fields = line.slice(3).split("\t").map((f) => f.trim());
+    } else if (line.startsWith("%R\t") && current) {
+      const values = line.slice(3).split("\t");
+      const row: XerRow = {};
+      fields.forEach((f, i) => (row[f] = (values[i] ?? "").trim()));
+      current.push(row);
+    }
+  }
+  return tables;
+}
+
+/** "2026-03-06 17:00" → "2026-03-06"; a 00:00 finish belongs to the previous day */
+function xerDay(value: string | undefined, isFinish: boolean): string | null {
+  if (!value) return null;
+  const match = /^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2}))?/.exec(value);
+  if (!match) return null;
+  const [, y, m, d, hh, mm] = match;
+  if (isFinish && hh === "00" && mm === "00") {
+    return formatDay(new Date(Number(y), Number(m) - 1, Number(d) - 1));
+  }
+  return `${y}-${m}-${d}`;
+}
+
+/**
+ * Parse an XER export. Throws when the text is not XER. Only the first
+ * project in the file is read.
+ */
+export function parseXer(text: string): InterchangeSchedule {
+  if (!text.startsWith("ERMHDR")) {
+    throw new Error("Not a Primavera XER file");
+  }
+  const tables = readTables(text);
+  const warnings: string[] = [];
+
+  const projects = tables.get("PROJECT") || [];
+  const project = projects[0];
+  if (!project) throw new Error("The XER file contains no project");
+  if (projects.length > 1) {
+    warnings.push(`File contains ${projects.length} projects — only ${project.proj_short_name || "the first"} was read`);
+  }
+  const projId = project.proj_id;
+
+  // Calendar: the project's default, else the global default, else the first
+  const calendars = tables.get("CALENDAR") || [];
+  const calendar =
+    calendars.find((c) => c.clndr_id === project.clndr_id) ??
+    calendars.find((c) => c.default_flag === "Y") ??
+    calendars[0];
+  const hoursPerDay = Number(calendar?.day_hr_cnt) > 0 ? Number(calendar!.day_hr_cnt) : HOURS_PER_DAY;
+
+  // WBS tree → phase per node, parent tasks for non-phase nodes
+  const wbsRows = (tables.get("PROJWBS") || []).filter((w) => w.proj_id === projId);
+  const wbsById = new Map(wbsRows.map((w) => [w.wbs_id, w]));
+  const wbsPhase = new Map<string, PhaseKey | null>();
+  const phaseOf = (wbsId: string | undefined, depth = 0): PhaseKey | null => {
+    if (!wbsId || depth > 50) return null;
+    if (wbsPhase.has(wbsId)) return wbsPhase.get(wbsId)!;
+    const wbs = wbsById.get(wbsId);
+    const key = wbs ? matchPhaseKey(wbs.wbs_name) ?? matchPhaseKey(wbs.wbs_short_name) ?? phaseOf(wbs.parent_wbs_id, depth + 1) : null;
+    wbsPhase.set(wbsId, key);
+    return key;
+  };
+  const isGroupingNode = (wbs: XerRow) => wbs.proj_node_flag === "Y" || matchPhaseKey(wbs.wbs_name) !== null || matchPhaseKey(wbs.wbs_short_name) !== null;
+
+  const taskRows = (tables.get("TASK") || [])
+    .filter((t) => t.proj_id === projId)
+    .filter((t) => t.task_type !== "TT_WBS");
+
+  const wbsUid = (wbs: XerRow) => p6GuidToUuid(wbs.guid ?? "") ?? `wbs-${wbs.wbs_id}`;
+  const parentWbsTask = (wbsId: string | undefined): XerRow | null => {
+    const wbs = wbsId ? wbsById.get(wbsId) : undefined;
+    return wbs && !isGroupingNode(wbs) ? wbs : null;
+  };
+
+  // Dates per WBS node, from the tasks beneath it
+  const tasks: InterchangeTask[] = [];
+  const leafTasks: Array<{ row: XerRow; task: InterchangeTask }> = [];
+  let skippedUndated = 0;
+  for (const row of taskRows) {
+    const start = xerDay(row.act_start_date || row.early_start_date || row.target_start_date, false);
+    const end = xerDay(row.act_end_date || row.early_end_date || row.target_end_date, true);
+    if (!start || !end) {
+      skippedUndated++;
+      continue;
+    }
+    const isMilestone = row.task_type === "TT_Mile" || row.task_type === "TT_FinMile";
+    const parent = parentWbsTask(row.wbs_id);
+    const progress = Number(row.phys_complete_pct);
+    leafTasks.push({
+      row,
+      task: {
+        uid: p6GuidToUuid(row.guid ?? "") ?? `task-${row.task_id}`,
+        name: row.task_name || row.task_code || "Untitled task",
+        type: isMilestone ? "milestone" : "task",
+        phaseKey: phaseOf(row.wbs_id),
+        parentUid: parent ? wbsUid(parent) : null,
+        start: isMilestone && row.task_type === "TT_FinMile" ? end : start,
+        end: isMilestone ? (row.task_type === "TT_FinMile" ? end : start) : end < start ? start : end,
+        priority: PRIORITY_FROM_XER[row.priority_type] ?? 2,
+        progress:
+          row.status_code === "TK_Complete"
+            ? 100
+            : Number.isFinite(progress)
+            ? Math.min(100, Math.max(0, Math.round(progress)))
+            : 0,
+        description: null,
+      },
+    });
+  }
+  if (skippedUndated > 0) {
+    warnings.push(`${skippedUndated} activit${skippedUndated === 1 ? "y" : "ies"} without dates skipped`);
+  }
+
+  // Non-phase WBS nodes that hold activities become parent tasks
+  const usedWbs = new Set<string>();
+  const markUsed = (wbsId: string | undefined, depth = 0) => {
+    const wbs = parentWbsTask(wbsId);
+    if (!wbs || usedWbs.has(wbs.wbs_id) || depth > 50) return;
+    usedWbs.add(wbs.wbs_id);
+    markUsed(wbs.parent_wbs_id, depth + 1);
+  };
+  leafTasks.forEach(({ row }) => markUsed(row.wbs_id));
+
+  const rangeByWbs = new Map<string, { start: string; end: string }>();
+  const widen = (wbsId: string | undefined, start: string, end: string, depth = 0) => {
+    const wbs = parentWbsTask(wbsId);
+    if (!wbs || depth > 50) return;
+    const r = rangeByWbs.get(wbs.wbs_id);
+    rangeByWbs.set(wbs.wbs_id, {
+      start: !r || start < r.start ? start : r.start,
+      end: !r || end > r.end ? end : r.end,
+    });
+    widen(wbs.parent_wbs_id, start, end, depth + 1);
+  };
+  leafTasks.forEach(({ row, task }) => widen(row.wbs_id, task.start, task.end));
+
+  // Emit in outline order: WBS (by seq_num) with its activities beneath
+  const byParentWbs = new Map<string, XerRow[]>();
+  for (const wbs of wbsRows) {
+    const list = byParentWbs.get(wbs.parent_wbs_id) || [];
+    list.push(wbs);
+    byParentWbs.set(wbs.parent_wbs_id, list);
+  }
+  const tasksByWbs = new Map<string, InterchangeTask[]>();
+  for (const { row, task } of leafTasks) {
+    const list = tasksByWbs.get(row.wbs_id) || [];
+    list.push(task);
+    tasksByWbs.set(row.wbs_id, list);
+  }
+  const emitted = new Set<string>();
+  const emitWbs = (wbsId: string, depth = 0) => {
+    if (emitted.has(wbsId) || depth > 50) return;
+    emitted.add(wbsId);
+    const wbs = wbsById.get(wbsId);
+    if (wbs && usedWbs.has(wbsId)) {
+      const range = rangeByWbs.get(wbsId)!;
+      const parent = parentWbsTask(wbs.parent_wbs_id);
+      tasks.push({
+        uid: wbsUid(wbs),
+        name: wbs.wbs_name || wbs.wbs_short_name,
+        type: "task",
+        phaseKey: phaseOf(wbsId),
+        parentUid: parent ? wbsUid(parent) : null,
+        start: range.start,
+        end: range.end,
+        priority: 2,
+        progress: 0,
+        description: null,
+      });
+    }
+    const children = (byParentWbs.get(wbsId) || []).sort((a, b) => Number(a.seq_num) - Number(b.seq_num));
+    children.forEach((c) => emitWbs(c.wbs_id, depth + 1));
+    tasks.push(...(tasksByWbs.get(wbsId) || []));
+  };
+  wbsRows.filter((w) => !wbsById.has(w.parent_wbs_id)).forEach((w) => emitWbs(w.wbs_id));
+  // Activities under unknown WBS ids (or none) go last
+  for (const { row, task } of leafTasks) {
+    if (!emitted.has(row.wbs_id)) tasks.push(task);
+  }
+
+  const uidByTaskId = new Map(leafTasks.map(({ row, task }) => [row.task_id, task.uid]));
+  const linkTypes = Object.entries(LINK_TYPES) as Array<[string, string]>;
+  const links: InterchangeLink[] = [];
+  let skippedLinks = 0;
+  for (const pred of tables.get("TASKPRED") || []) {
+    const sourceUid = uidByTaskId.get(pred.pred_task_id);
+    const targetUid = uidByTaskId.get(pred.task_id);
+    const type = linkTypes.find(([, v]) => v === pred.pred_type)?.[0];
+    if (!sourceUid || !targetUid || type === undefined) {
+      if (pred.proj_id === projId || uidByTaskId.has(pred.task_id)) skippedLinks++;
+      continue;
+    }
+    links.push({
+      sourceUid,
+      targetUid,
+      type: Number(type) as DependencyType,
+      lagDays: Math.round((Number(pred.lag_hr_cnt) || 0) / hoursPerDay),
+    });
+  }
+  if (skippedLinks > 0) {
+    warnings.push(`${skippedLinks} relationship${skippedLinks === 1 ? "" : "s"} to other projects skipped`);
+  }
+
+  return {
+    projectName:
+      wbsRows.find((w) => w.proj_node_flag === "Y")?.wbs_name || project.proj_short_name || null,
+    workingDaysMask: calendar?.clndr_data ? maskFromCalendarData(calendar.clndr_data) : null,
+    tasks,
+    links,
+    warnings,
+  };
+}
@@ -0,0 +1,163 @@
+/**
+ * Snagging SLA Utilities
+ *
+ * Shared (client + server) definitions for snag triage:
+ * - Severity levels and their default fix windows
+ * - Defect categories
+ * - SLA breach helpers used by the snagging tab, dashboard and escalation cron
+ * - Floor → area grouping for the printable snag list
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const SNAG_SEVERITIES = ["minor", "major", "critical"] as const;
+export type SnagSeverity = (typeof SNAG_SEVERITIES)[number];
+
+export const SNAG_CATEGORIES = [
+  "finish",
+  "damage",
+  "dimension",
+  "hardware",
+  "installation",
+  "missing",
+  "other",
+] as const;
+export type SnagCategory = (typeof SNAG_CATEGORIES)[number];
+
+// ============================================================================
+// Labels & defaults
+// ============================================================================
+
+export const SNAG_SEVERITY_LABELS: Record<SnagSeverity, string> = {
+  minor: "Minor",
+  major: "Major",
+  critical: "Critical",
+};
+
+export const SNAG_CATEGORY_LABELS: Record<SnagCategory, string> = {
+  finish: "Finish / Surface",
+  damage: "Damage",
+  dimension: "Dimension / Fit",
+  hardware: "Hardware",
+  installation: "Installation",
+  missing: "Missing Part",
+  other: "Other",
+};
+
+/** Default calendar days to fix a snag, by severity */
+export const SNAG_SLA_DAYS: Record<SnagSeverity, number> = {
+  minor: 14,
+  major: 7,
+  critical: 2,
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Format a Date as a local YYYY-MM-DD string (matches Postgres DATE columns) */
+function toDateString(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, "0");
+  const d = String(date.getDate()).padStart(2, "0");
+  return `${y}-${m}-${d}`;
+}
+
+/** Default target fix date for a new snag: report date + severity SLA */
+export function defaultTargetFixDate(severity: SnagSeverity, from: Date = new Date()): string {
+  const target = new Date(from);
+  target.setDate(target.getDate() + SNAG_SLA_DAYS[severity]);
+  return toDateString(target);
+}
+
+/**
+ * Days past the target fix date for an open snag.
+ * Returns 0 when resolved, on time, or without a target date.
+ */
+export function snagDaysOverdue(
+  snag: { is_resolved: boolean; target_fix_date: string | null },
+  today: Date = new Date()
+): number {
+  if (snag.is_resolved || !snag.target_fix_date) return 0;
+  const todayStr = toDateString(today);
+  if (snag.target_fix_date >= todayStr) return 0;
+  const diff = new Date(todayStr).getTime() - new Date(snag.target_fix_date).getTime();
+  return Math.round(diff / (1000 * 60 * 60 * 24));
+}
+
+/** True when an open snag is past its target fix date */
+export function isSnagOverdue(
+  snag: { is_resolved: boolean; target_fix_date: string | null },
+  today: Date = new Date()
+): boolean {
+  return snagDaysOverdue(snag, today) > 0;
+}
+
+// ============================================================================
+// Snag list (printout)
+// ============================================================================
+
+export interface SnagListArea {
+  id: string;
+  area_code: string;
+  name: string;
+  floor: string;
+}
+
+export interface SnagListGroup<T> {
+  floor: string;
+  areaLabel: string;
+  snags: T[];
+}
+
+const NO_AREA_KEY = "__no_area__";
+
+/**
+ * Open snags grouped by floor → area, in the order the project areas are
+ * listed (floor, sort_order, name). Snags keep their given order within an
+ * area. Areas missing from the list (e.g. deleted since) follow, labelled from
+ * the snag's joined area; snags without an area go last under "No area".
+ */
+export function groupSnagListByArea<
+  T extends {
+    is_resolved: boolean;
+    area_id: string | null;
+    area?: { area_code: string; name: string; floor: string } | null;
+  },
+>(snags: T[], areas: SnagListArea[]): SnagListGroup<T>[] {
+  const byArea = new Map<string, T[]>();
+  for (const snag of snags) {
+    if (snag.is_resolved) continue;
+    const key = snag.area_id ?? NO_AREA_KEY;
+    const list = byArea.get(key) || [];
+    list.push(snag);
+    byArea.set(key, list);
+  }
+
+  const groups: SnagListGroup<T>[] = [];
+  for (const area of areas) {
+    const list = byArea.get(area.id);
+    if (!list) continue;
+    groups.push({ floor: area.floor, areaLabel: `${area.area_code} — ${area.name}`, snags: list });
+    byArea.delete(area.id);
+  }
+
+  for (const [key, list] of byArea) {
+    if (key === NO_AREA_KEY) continue;
+    const area = list[0].area;
+    groups.push({
+      floor: area?.floor ?? "Other",
+      areaLabel: area ? `${area.area_code} — ${area.name}` : "Unknown area",
+      snags: list,
+    });
+  }
+
+  const unassigned = byArea.get(NO_AREA_KEY);
+  if (unassigned) {
+    groups.push({ floor: "Unassigned", areaLabel: "No area", snags: unassigned });
+  }
+
+  return groups;
+}
@@ -10,6 +10,7 @@ const routePermissions: Record<string, string[]> = {
   "/projects": ["admin", "pm", "production", "procurement", "management", "client"], // Clients see assigned projects
   "/projects/new": ["admin", "pm"], // Only admin and PM can create projects
   "/clients": ["admin", "pm"],
+  "/crm": ["admin", "pm", "management"], // Business development — management is read-only (actions re-check)
   "/users": ["admin"],
   "/reports": ["admin", "pm", "management", "client"], // Clients see their project reports
   "/finance": ["admin", "management"], // Legacy project budgets dashboard (page also re-checks)
@@ -139,6 +139,43 @@ export const pmOverrideSchema = z.object({
   pm_override_reason: z.string().min(10, "Please provide a detailed reason (min 10 characters)"),
 });
 
+// Markup coordinates are page fractions (see lib/drawing-markup.ts)
+const markupPointSchema = z.object({
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+});
+
+const markupBaseSchema = z.object({
+  id: z.string().min(1).max(64),
+  page: z.number().int().min(1),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Invalid colour"),
+});
+
+export const drawingMarkupSchema = z.discriminatedUnion("type", [
+  markupBaseSchema.extend({ type: z.literal("cloud"), from: markupPointSchema, to: markupPointSchema }),
+  markupBaseSchema.extend({ type: z.literal("arrow"), from: markupPointSchema, to: markupPointSchema }),
+  markupBaseSchema.extend({
+    type: z.literal("text"),
+    from: markupPointSchema,
+    to: markupPointSchema,
+    text: z.string().trim().min(1, "Callout text is required").max(500),
+  }),
+  markupBaseSchema.extend({
+    type: z.literal("dimension"),
+    from: markupPointSchema,
+    to: markupPointSchema,
+    text: z.string().trim().max(50),
+  }),
+  markupBaseSchema.extend({
+    type: z.literal("stamp"),
+    at: markupPointSchema,
+    stamp: z.enum(["approved", "approved_with_comments", "rejected", "reviewed"]),
+    date: z.string().max(40),
+  }),
+]);
+
+export const drawingMarkupListSchema = z.array(drawingMarkupSchema).max(500, "Too many markups on one revision");
+
 // ============================================
 // Auth Schemas
 // ============================================
@@ -15,6 +15,7 @@ import {
   drawingApprovalSchema,
   pmOverrideSchema,
   drawingStatusSchema,
+  drawingMarkupListSchema,
   safeValidate,
   getFirstError,
   parseOptionalNumber,
@@ -361,6 +362,34 @@ describe("Validation Schemas", () => {
     });
   });
 
+  describe("drawingMarkupListSchema", () => {
+    const base = { id: "m1", page: 1, color: "#dc2626" };
+
+    it("should accept each markup type", () => {
+      const result = drawingMarkupListSchema.safeParse([
+        { ...base, type: "cloud", from: { x: 0.1, y: 0.1 }, to: { x: 0.3, y: 0.2 } },
+        { ...base, type: "arrow", from: { x: 0.1, y: 0.1 }, to: { x: 0.3, y: 0.2 } },
+        { ...base, type: "text", from: { x: 0.1, y: 0.1 }, to: { x: 0.3, y: 0.2 }, text: "Check radius" },
+        { ...base, type: "dimension", from: { x: 0.1, y: 0.5 }, to: { x: 0.6, y: 0.5 }, text: "1200 mm" },
+        { ...base, type: "stamp", at: { x: 0.8, y: 0.9 }, stamp: "approved", date: "12.03.2026" },
+      ]);
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject points off the page and empty callouts", () => {
+      expect(
+        drawingMarkupListSchema.safeParse([
+          { ...base, type: "arrow", from: { x: -0.1, y: 0 }, to: { x: 0.5, y: 0.5 } },
+        ]).success
+      ).toBe(false);
+      expect(
+        drawingMarkupListSchema.safeParse([
+          { ...base, type: "text", from: { x: 0, y: 0 }, to: { x: 0.5, y: 0.5 }, text: "  " },
+        ]).success
+      ).toBe(false);
+    });
+  });
+
   describe("pmOverrideSchema", () => {
     it("should accept reason with 10+ chars", () => {
       const result = pmOverrideSchema.safeParse({
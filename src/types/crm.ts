@@ -0,0 +1,319 @@
+/**
+ * CRM Module Types
+ *
+ * Type definitions for brands, architecture firms, contacts, pipeline
+ * opportunities, activities, and brand ↔ firm links (migration 049).
+ */
+
+// ============================================================================
+// Enums
+// ============================================================================
+
+export type CrmBrandTier = "luxury" | "mid_luxury" | "bridge";
+
+export type CrmPriority = "high" | "medium" | "low";
+
+export type CrmVendorListStatus =
+  | "not_applied"
+  | "applied"
+  | "under_review"
+  | "approved"
+  | "rejected";
+
+export type CrmConnectionStrength = "none" | "cold" | "warm" | "hot";
+
+export type CrmRelationshipStatus =
+  | "identified"
+  | "reached_out"
+  | "connected"
+  | "meeting_scheduled"
+  | "active_relationship";
+
+export type CrmOpportunityStage =
+  | "researched"
+  | "contacted"
+  | "sample_sent"
+  | "meeting"
+  | "proposal"
+  | "negotiation"
+  | "won"
+  | "lost";
+
+export type CrmActivityType =
+  | "email"
+  | "call"
+  | "meeting"
+  | "linkedin_message"
+  | "sample_sent"
+  | "vendor_application"
+  | "trade_show"
+  | "site_visit"
+  | "proposal_sent"
+  | "follow_up"
+  | "note";
+
+export type CrmCurrency = "TRY" | "USD" | "EUR";
+
+// ============================================================================
+// Base Row Types (match database columns)
+// ============================================================================
+
+export interface CrmBrand {
+  id: string;
+  brand_code: string;
+  name: string;
+  parent_group: string | null;
+  tier: CrmBrandTier;
+  segment: string | null;
+  store_count: number | null;
+  expansion_rate: string | null;
+  creative_director: string | null;
+  cd_changed_recently: boolean | null;
+  headquarters: string | null;
+  website: string | null;
+  annual_revenue: string | null;
+  notes: string | null;
+  priority: CrmPriority | null;
+  is_deleted: boolean | null;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+export interface CrmArchitectureFirm {
+  id: string;
+  firm_code: string;
+  name: string;
+  location: string | null;
+  specialty: string | null;
+  key_clients: string | null;
+  vendor_list_status: CrmVendorListStatus | null;
+  vendor_application_date: string | null;
+  website: string | null;
+  connection_strength: CrmConnectionStrength | null;
+  connection_notes: string | null;
+  notes: string | null;
+  priority: CrmPriority | null;
+  is_deleted: boolean | null;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+export interface CrmContact {
+  id: string;
+  contact_code: string;
+  first_name: string;
+  last_name: string;
+  title: string | null;
+  company: string | null;
+  email: string | null;
+  phone: string | null;
+  linkedin_url: string | null;
+  brand_id: string | null;
+  architecture_firm_id: string | null;
+  relationship_status: CrmRelationshipStatus | null;
+  source: string | null;
+  last_interaction_date: string | null;
+  notes: string | null;
+  is_deleted: boolean | null;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+export interface CrmOpportunity {
+  id: string;
+  opportunity_code: string;
+  title: string;
+  description: string | null;
+  brand_id: string | null;
+  architecture_firm_id: string | null;
+  stage: CrmOpportunityStage;
+  estimated_value: number | null;
+  currency: CrmCurrency | null;
+  probability: number | null;
+  expected_close_date: string | null;
+  assigned_to: string | null;
+  source: string | null;
+  loss_reason: string | null;
+  notes: string | null;
+  priority: CrmPriority | null;
+  is_deleted: boolean | null;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+export interface CrmActivity {
+  id: string;
+  activity_type: CrmActivityType;
+  title: string;
+  description: string | null;
+  activity_date: string;
+  brand_id: string | null;
+  architecture_firm_id: string | null;
+  contact_id: string | null;
+  opportunity_id: string | null;
+  user_id: string | null;
+  outcome: string | null;
+  next_action: string | null;
+  next_action_date: string | null;
+  /** Set when the follow-up (next_action / next_action_date) is done */
+  follow_up_completed_at: string | null;
+  /** Last day the follow-up reminder cron emailed the owner */
+  reminder_sent_on: string | null;
+  is_deleted: boolean | null;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+export interface CrmBrandFirmLink {
+  id: string;
+  brand_id: string;
+  architecture_firm_id: string;
+  relationship_type: string | null;
+  notes: string | null;
+}
+
+// ============================================================================
+// Extended Types (with joined relations)
+// ============================================================================
+
+type BrandRef = { id: string; name: string; brand_code: string } | null;
+type FirmRef = { id: string; name: string; firm_code: string } | null;
+
+export interface CrmBrandWithStats extends CrmBrand {
+  opportunity_count: number;
+  contact_count: number;
+}
+
+export interface CrmFirmWithStats extends CrmArchitectureFirm {
+  opportunity_count: number;
+  contact_count: number;
+}
+
+export interface CrmContactWithRelations extends CrmContact {
+  brand: BrandRef;
+  architecture_firm: FirmRef;
+}
+
+export interface CrmOpportunityWithRelations extends CrmOpportunity {
+  brand: BrandRef;
+  architecture_firm: FirmRef;
+  assigned_user: { id: string; name: string } | null;
+  /** Tender project created from this opportunity (see convertOpportunityToProject) */
+  project: { id: string; project_code: string; name: string; slug: string | null } | null;
+}
+
+export interface CrmActivityWithRelations extends CrmActivity {
+  brand: BrandRef;
+  architecture_firm: FirmRef;
+  user: { id: string; name: string } | null;
+  contact: { id: string; first_name: string; last_name: string } | null;
+  opportunity: { id: string; title: string; opportunity_code: string } | null;
+}
+
+export interface CrmBrandFirmLinkWithRelations extends CrmBrandFirmLink {
+  brand: BrandRef;
+  architecture_firm: FirmRef;
+}
+
+export interface CrmBrandDetail extends CrmBrand {
+  contacts: CrmContact[];
+  opportunities: CrmOpportunityWithRelations[];
+  firm_links: CrmBrandFirmLinkWithRelations[];
+  activities: CrmActivityWithRelations[];
+}
+
+export interface CrmFirmDetail extends CrmArchitectureFirm {
+  contacts: CrmContact[];
+  opportunities: CrmOpportunityWithRelations[];
+  brand_links: CrmBrandFirmLinkWithRelations[];
+  activities: CrmActivityWithRelations[];
+}
+
+// ============================================================================
+// Filter Types
+// ============================================================================
+
+export interface CrmContactFilters {
+  brand_id?: string;
+  architecture_firm_id?: string;
+  relationship_status?: CrmRelationshipStatus;
+}
+
+export interface CrmActivityFilters {
+  brand_id?: string;
+  architecture_firm_id?: string;
+  contact_id?: string;
+  opportunity_id?: string;
+  activity_type?: CrmActivityType;
+  /** Only activities with an open follow-up; "due" limits to today or earlier */
+  follow_ups?: "open" | "due";
+  /** Only activities logged by the current user */
+  mine?: boolean;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const BRAND_TIERS: { value: CrmBrandTier; label: string }[] = [
+  { value: "luxury", label: "Luxury" },
+  { value: "mid_luxury", label: "Mid-Luxury" },
+  { value: "bridge", label: "Bridge" },
+];
+
+export const CRM_PRIORITIES: { value: CrmPriority; label: string; color: string }[] = [
+  { value: "high", label: "High", color: "#ef4444" },
+  { value: "medium", label: "Medium", color: "#f59e0b" },
+  { value: "low", label: "Low", color: "#94a3b8" },
+];
+
+export const VENDOR_LIST_STATUSES: { value: CrmVendorListStatus; label: string; color: string }[] = [
+  { value: "not_applied", label: "Not Applied", color: "#94a3b8" },
+  { value: "applied", label: "Applied", color: "#60a5fa" },
+  { value: "under_review", label: "Under Review", color: "#f59e0b" },
+  { value: "approved", label: "Approved", color: "#22c55e" },
+  { value: "rejected", label: "Rejected", color: "#ef4444" },
+];
+
+export const CONNECTION_STRENGTHS: { value: CrmConnectionStrength; label: string; color: string }[] = [
+  { value: "none", label: "None", color: "#94a3b8" },
+  { value: "cold", label: "Cold", color: "#60a5fa" },
+  { value: "warm", label: "Warm", color: "#f59e0b" },
+  { value: "hot", label: "Hot", color: "#ef4444" },
+];
+
+export const RELATIONSHIP_STATUSES: { value: CrmRelationshipStatus; label: string; color: string }[] = [
+  { value: "identified", label: "Identified", color: "#94a3b8" },
+  { value: "reached_out", label: "Reached Out", color: "#60a5fa" },
+  { value: "connected", label: "Connected", color: "#8b5cf6" },
+  { value: "meeting_scheduled", label: "Meeting Scheduled", color: "#f59e0b" },
+  { value: "active_relationship", label: "Active Relationship", color: "#22c55e" },
+];
+
+/** Pipeline stages in board order (won/lost are the closed columns) */
+export const OPPORTUNITY_STAGES: { value: CrmOpportunityStage; label: string; color: string }[] = [
+  { value: "researched", label: "Researched", color: "#94a3b8" },
+  { value: "contacted", label: "Contacted", color: "#60a5fa" },
+  { value: "sample_sent", label: "Sample Sent", color: "#38bdf8" },
+  { value: "meeting", label: "Meeting", color: "#8b5cf6" },
+  { value: "proposal", label: "Proposal", color: "#f59e0b" },
+  { value: "negotiation", label: "Negotiation", color: "#f97316" },
+  { value: "won", label: "Won", color: "#22c55e" },
+  { value: "lost", label: "Lost", color: "#6b7280" },
+];
+
+export const ACTIVITY_TYPES: { value: CrmActivityType; label: string }[] = [
+  { value: "email", label: "Email" },
+  { value: "call", label: "Call" },
+  { value: "meeting", label: "Meeting" },
+  { value: "linkedin_message", label: "LinkedIn Message" },
+  { value: "sample_sent", label: "Sample Sent" },
+  { value: "vendor_application", label: "Vendor Application" },
+  { value: "trade_show", label: "Trade Show" },
+  { value: "site_visit", label: "Site Visit" },
+  { value: "proposal_sent", label: "Proposal Sent" },
+  { value: "follow_up", label: "Follow-up" },
+  { value: "note", label: "Note" },
+];
+
+export const CRM_CURRENCIES: CrmCurrency[] = ["USD", "EUR", "TRY"];
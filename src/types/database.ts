@@ -134,12 +134,14 @@ export type Database = {
           contact_id: string | null
           created_at: string | null
           description: string | null
+          follow_up_completed_at: string | null
           id: string
           is_deleted: boolean | null
           next_action: string | null
           next_action_date: string | null
           opportunity_id: string | null
           outcome: string | null
+          reminder_sent_on: string | null
           title: string
           updated_at: string | null
           user_id: string | null
@@ -152,12 +154,14 @@ export type Database = {
           contact_id?: string | null
           created_at?: string | null
           description?: string | null
+          follow_up_completed_at?: string | null
           id?: string
           is_deleted?: boolean | null
           next_action?: string | null
           next_action_date?: string | null
           opportunity_id?: string | null
           outcome?: string | null
+          reminder_sent_on?: string | null
           title: string
           updated_at?: string | null
           user_id?: string | null
@@ -170,12 +174,14 @@ export type Database = {
           contact_id?: string | null
           created_at?: string | null
           description?: string | null
+          follow_up_completed_at?: string | null
           id?: string
           is_deleted?: boolean | null
           next_action?: string | null
           next_action_date?: string | null
           opportunity_id?: string | null
           outcome?: string | null
+          reminder_sent_on?: string | null
           title?: string
           updated_at?: string | null
           user_id?: string | null
@@ -658,6 +664,137 @@ export type Database = {
           },
         ]
       }
+      drawing_approval_steps: {
+        Row: {
+          approver_role: Database["public"]["Enums"]["user_role"]
+          created_at: string
+          id: string
+          name: string
+          project_id: string
+          step_order: number
+        }
+        Insert: {
+          approver_role: Database["public"]["Enums"]["user_role"]
+          created_at?: string
+          id?: string
+          name: string
+          project_id: string
+          step_order: number
+        }
+        Update: {
+          approver_role?: Database["public"]["Enums"]["user_role"]
+          created_at?: string
+          id?: string
+          name?: string
+          project_id?: string
+          step_order?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "drawing_approval_steps_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      drawing_internal_reviews: {
+        Row: {
+          approver_role: Database["public"]["Enums"]["user_role"]
+          comments: string | null
+          decision: string
+          drawing_id: string
+          id: string
+          revision: string
+          reviewed_at: string
+          reviewed_by: string | null
+          step_name: string
+          step_order: number
+        }
+        Insert: {
+          approver_role: Database["public"]["Enums"]["user_role"]
+          comments?: string | null
+          decision: string
+          drawing_id: string
+          id?: string
+          revision: string
+          reviewed_at?: string
+          reviewed_by?: string | null
+          step_name: string
+          step_order: number
+        }
+        Update: {
+          approver_role?: Database["public"]["Enums"]["user_role"]
+          comments?: string | null
+          decision?: string
+          drawing_id?: string
+          id?: string
+          revision?: string
+          reviewed_at?: string
+          reviewed_by?: string | null
+          step_name?: string
+          step_order?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "drawing_internal_reviews_drawing_id_fkey"
+            columns: ["drawing_id"]
+            isOneToOne: false
+            referencedRelation: "drawings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "drawing_internal_reviews_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      drawing_revision_markups: {
+        Row: {
+          annotations: Json
+          author_id: string
+          created_at: string
+          id: string
+          revision_id: string
+          updated_at: string
+        }
+        Insert: {
+          annotations?: Json
+          author_id: string
+          created_at?: string
+          id?: string
+          revision_id: string
+          updated_at?: string
+        }
+        Update: {
+          annotations?: Json
+          author_id?: string
+          created_at?: string
+          id?: string
+          revision_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "drawing_revision_markups_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "drawing_revision_markups_revision_id_fkey"
+            columns: ["revision_id"]
+            isOneToOne: false
+            referencedRelation: "drawing_revisions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       drawing_revisions: {
         Row: {
           cad_file_name: string | null
@@ -746,8 +883,142 @@ export type Database = {
           },
         ]
       }
+      drawing_transmittal_items: {
+        Row: {
+          drawing_id: string | null
+          file_name: string | null
+          id: string
+          item_code: string
+          item_name: string
+          revision: string | null
+          transmittal_id: string
+        }
+        Insert: {
+          drawing_id?: string | null
+          file_name?: string | null
+          id?: string
+          item_code: string
+          item_name: string
+          revision?: string | null
+          transmittal_id: string
+        }
+        Update: {
+          drawing_id?: string | null
+          file_name?: string | null
+          id?: string
+          item_code?: string
+          item_name?: string
+          revision?: string | null
+          transmittal_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "drawing_transmittal_items_drawing_id_fkey"
+            columns: ["drawing_id"]
+            isOneToOne: false
+            referencedRelation: "drawings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "drawing_transmittal_items_transmittal_id_fkey"
+            columns: ["transmittal_id"]
+            isOneToOne: false
+            referencedRelation: "drawing_transmittals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      drawing_transmittal_recipients: {
+        Row: {
+          acknowledged_at: string | null
+          email: string | null
+          id: string
+          name: string
+          transmittal_id: string
+          user_id: string | null
+        }
+        Insert: {
+          acknowledged_at?: string | null
+          email?: string | null
+          id?: string
+          name: string
+          transmittal_id: string
+          user_id?: string | null
+        }
+        Update: {
+          acknowledged_at?: string | null
+          email?: string | null
+          id?: string
+          name?: string
+          transmittal_id?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "drawing_transmittal_recipients_transmittal_id_fkey"
+            columns: ["transmittal_id"]
+            isOneToOne: false
+            referencedRelation: "drawing_transmittals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "drawing_transmittal_recipients_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      drawing_transmittals: {
+        Row: {
+          id: string
+          notes: string | null
+          project_id: string
+          purpose: string
+          sent_at: string
+          sent_by: string | null
+          transmittal_code: string | null
+        }
+        Insert: {
+          id?: string
+          notes?: string | null
+          project_id: string
+          purpose: string
+          sent_at?: string
+          sent_by?: string | null
+          transmittal_code?: string | null
+        }
+        Update: {
+          id?: string
+          notes?: string | null
+          project_id?: string
+          purpose?: string
+          sent_at?: string
+          sent_by?: string | null
+          transmittal_code?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "drawing_transmittals_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "drawing_transmittals_sent_by_fkey"
+            columns: ["sent_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       drawings: {
         Row: {
+          approval_reminded_at: string | null
+          approval_reminder_stage: number
           approved_by: string | null
           client_comments: string | null
           client_response_at: string | null
@@ -767,6 +1038,8 @@ export type Database = {
           updated_at: string | null
         }
         Insert: {
+          approval_reminded_at?: string | null
+          approval_reminder_stage?: number
           approved_by?: string | null
           client_comments?: string | null
           client_response_at?: string | null
@@ -786,6 +1059,8 @@ export type Database = {
           updated_at?: string | null
         }
         Update: {
+          approval_reminded_at?: string | null
+          approval_reminder_stage?: number
           approved_by?: string | null
           client_comments?: string | null
           client_response_at?: string | null
@@ -1558,6 +1833,154 @@ export type Database = {
         }
         Relationships: []
       }
+      gantt_baseline_items: {
+        Row: {
+          baseline_id: string
+          end_date: string
+          gantt_item_id: string | null
+          id: string
+          item_name: string
+          item_type: string
+          progress: number
+          start_date: string
+        }
+        Insert: {
+          baseline_id: string
+          end_date: string
+          gantt_item_id?: string | null
+          id?: string
+          item_name: string
+          item_type: string
+          progress?: number
+          start_date: string
+        }
+        Update: {
+          baseline_id?: string
+          end_date?: string
+          gantt_item_id?: string | null
+          id?: string
+          item_name?: string
+          item_type?: string
+          progress?: number
+          start_date?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "gantt_baseline_items_baseline_id_fkey"
+            columns: ["baseline_id"]
+            isOneToOne: false
+            referencedRelation: "gantt_baselines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "gantt_baseline_items_gantt_item_id_fkey"
+            columns: ["gantt_item_id"]
+            isOneToOne: false
+            referencedRelation: "gantt_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      gantt_baselines: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          name: string
+          project_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          name: string
+          project_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          name?: string
+          project_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "gantt_baselines_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "gantt_baselines_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      gantt_change_log: {
+        Row: {
+          action: string
+          changes: Json
+          created_at: string
+          description: string
+          id: string
+          project_id: string
+          undone_at: string | null
+          undone_by: string | null
+          user_id: string | null
+        }
+        Insert: {
+          action: string
+          changes?: Json
+          created_at?: string
+          description: string
+          id?: string
+          project_id: string
+          undone_at?: string | null
+          undone_by?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          action?: string
+          changes?: Json
+          created_at?: string
+          description?: string
+          id?: string
+          project_id?: string
+          undone_at?: string | null
+          undone_by?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "gantt_change_log_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "gantt_change_log_undone_by_fkey"
+            columns: ["undone_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "gantt_change_log_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       gantt_dependencies: {
         Row: {
           created_at: string | null
@@ -1641,6 +2064,55 @@ export type Database = {
           },
         ]
       }
+      gantt_item_resources: {
+        Row: {
+          allocation_percent: number
+          created_at: string
+          created_by: string | null
+          gantt_item_id: string
+          id: string
+          resource_id: string
+        }
+        Insert: {
+          allocation_percent?: number
+          created_at?: string
+          created_by?: string | null
+          gantt_item_id: string
+          id?: string
+          resource_id: string
+        }
+        Update: {
+          allocation_percent?: number
+          created_at?: string
+          created_by?: string | null
+          gantt_item_id?: string
+          id?: string
+          resource_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "gantt_item_resources_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "gantt_item_resources_gantt_item_id_fkey"
+            columns: ["gantt_item_id"]
+            isOneToOne: false
+            referencedRelation: "gantt_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "gantt_item_resources_resource_id_fkey"
+            columns: ["resource_id"]
+            isOneToOne: false
+            referencedRelation: "gantt_resources"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       gantt_item_scope_items: {
         Row: {
           gantt_item_id: string
@@ -1688,12 +2160,63 @@ export type Database = {
           },
         ]
       }
+      gantt_holidays: {
+        Row: {
+          category: string
+          created_at: string
+          created_by: string | null
+          end_date: string
+          id: string
+          name: string
+          project_id: string | null
+          start_date: string
+        }
+        Insert: {
+          category?: string
+          created_at?: string
+          created_by?: string | null
+          end_date: string
+          id?: string
+          name: string
+          project_id?: string | null
+          start_date: string
+        }
+        Update: {
+          category?: string
+          created_at?: string
+          created_by?: string | null
+          end_date?: string
+          id?: string
+          name?: string
+          project_id?: string | null
+          start_date?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "gantt_holidays_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "gantt_holidays_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       gantt_items: {
         Row: {
           color: string | null
           completed_at: string | null
+          constraint_date: string | null
+          constraint_type: string | null
           created_at: string | null
           created_by: string | null
+          description: string | null
           end_date: string
           id: string
           is_completed: boolean | null
@@ -1711,8 +2234,11 @@ export type Database = {
         Insert: {
           color?: string | null
           completed_at?: string | null
+          constraint_date?: string | null
+          constraint_type?: string | null
           created_at?: string | null
           created_by?: string | null
+          description?: string | null
           end_date: string
           id?: string
           is_completed?: boolean | null
@@ -1730,8 +2256,11 @@ export type Database = {
         Update: {
           color?: string | null
           completed_at?: string | null
+          constraint_date?: string | null
+          constraint_type?: string | null
           created_at?: string | null
           created_by?: string | null
+          description?: string | null
           end_date?: string
           id?: string
           is_completed?: boolean | null
@@ -1791,6 +2320,50 @@ export type Database = {
           },
         ]
       }
+      gantt_resources: {
+        Row: {
+          capacity_percent: number
+          color: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          is_active: boolean
+          name: string
+          resource_type: string
+          updated_at: string
+        }
+        Insert: {
+          capacity_percent?: number
+          color?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          resource_type?: string
+          updated_at?: string
+        }
+        Update: {
+          capacity_percent?: number
+          color?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          resource_type?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "gantt_resources_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       item_materials: {
         Row: {
           created_at: string | null
@@ -1857,6 +2430,8 @@ export type Database = {
       }
       materials: {
         Row: {
+          approval_reminded_at: string | null
+          approval_reminder_stage: number
           approved_by: string | null
           client_comments: string | null
           client_response_at: string | null
@@ -1874,6 +2449,8 @@ export type Database = {
           updated_at: string | null
         }
         Insert: {
+          approval_reminded_at?: string | null
+          approval_reminder_stage?: number
           approved_by?: string | null
           client_comments?: string | null
           client_response_at?: string | null
@@ -1891,6 +2468,8 @@ export type Database = {
           updated_at?: string | null
         }
         Update: {
+          approval_reminded_at?: string | null
+          approval_reminder_stage?: number
           approved_by?: string | null
           client_comments?: string | null
           client_response_at?: string | null
@@ -2310,13 +2889,19 @@ export type Database = {
       }
       projects: {
         Row: {
+          approval_escalation_days: number | null
+          approval_reminder_days: number | null
           client_id: string | null
           contract_value_calculated: number | null
           contract_value_manual: number | null
           created_at: string | null
           created_by: string | null
+          crm_opportunity_id: string | null
           currency: Database["public"]["Enums"]["currency"]
           description: string | null
+          gantt_default_durations: Json | null
+          gantt_use_company_holidays: boolean
+          gantt_working_days: number
           id: string
           installation_date: string | null
           is_deleted: boolean | null
@@ -2332,13 +2917,19 @@ export type Database = {
           updated_at: string | null
         }
         Insert: {
+          approval_escalation_days?: number | null
+          approval_reminder_days?: number | null
           client_id?: string | null
           contract_value_calculated?: number | null
           contract_value_manual?: number | null
           created_at?: string | null
           created_by?: string | null
+          crm_opportunity_id?: string | null
           currency?: Database["public"]["Enums"]["currency"]
           description?: string | null
+          gantt_default_durations?: Json | null
+          gantt_use_company_holidays?: boolean
+          gantt_working_days?: number
           id?: string
           installation_date?: string | null
           is_deleted?: boolean | null
@@ -2354,13 +2945,19 @@ export type Database = {
           updated_at?: string | null
         }
         Update: {
+          approval_escalation_days?: number | null
+          approval_reminder_days?: number | null
           client_id?: string | null
           contract_value_calculated?: number | null
           contract_value_manual?: number | null
           created_at?: string | null
           created_by?: string | null
+          crm_opportunity_id?: string | null
           currency?: Database["public"]["Enums"]["currency"]
           description?: string | null
+          gantt_default_durations?: Json | null
+          gantt_use_company_holidays?: boolean
+          gantt_working_days?: number
           id?: string
           installation_date?: string | null
           is_deleted?: boolean | null
@@ -2411,6 +3008,20 @@ export type Database = {
             referencedRelation: "v_users"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "projects_crm_opportunity_id_fkey"
+            columns: ["crm_opportunity_id"]
+            isOneToOne: true
+            referencedRelation: "crm_opportunities"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "projects_crm_opportunity_id_fkey"
+            columns: ["crm_opportunity_id"]
+            isOneToOne: true
+            referencedRelation: "v_crm_opportunities"
+            referencedColumns: ["id"]
+          },
         ]
       }
       report_activity: {
@@ -2915,48 +3526,92 @@ export type Database = {
       }
       snagging: {
         Row: {
+          area_id: string | null
+          assigned_to: string | null
+          category: string | null
           created_at: string | null
           created_by: string | null
           description: string
+          escalated_at: string | null
           id: string
+          is_deleted: boolean
           is_resolved: boolean | null
           item_id: string | null
           photos: Json | null
           project_id: string
+          reopen_count: number
+          reopened_at: string | null
           resolution_notes: string | null
+          resolution_photos: Json | null
           resolved_at: string | null
           resolved_by: string | null
+          severity: string
+          target_fix_date: string | null
           updated_at: string | null
         }
         Insert: {
+          area_id?: string | null
+          assigned_to?: string | null
+          category?: string | null
           created_at?: string | null
           created_by?: string | null
           description: string
+          escalated_at?: string | null
           id?: string
+          is_deleted?: boolean
           is_resolved?: boolean | null
           item_id?: string | null
           photos?: Json | null
           project_id: string
+          reopen_count?: number
+          reopened_at?: string | null
           resolution_notes?: string | null
+          resolution_photos?: Json | null
           resolved_at?: string | null
           resolved_by?: string | null
+          severity?: string
+          target_fix_date?: string | null
           updated_at?: string | null
         }
         Update: {
+          area_id?: string | null
+          assigned_to?: string | null
+          category?: string | null
           created_at?: string | null
           created_by?: string | null
           description?: string
+          escalated_at?: string | null
           id?: string
+          is_deleted?: boolean
           is_resolved?: boolean | null
           item_id?: string | null
           photos?: Json | null
           project_id?: string
+          reopen_count?: number
+          reopened_at?: string | null
           resolution_notes?: string | null
+          resolution_photos?: Json | null
           resolved_at?: string | null
           resolved_by?: string | null
+          severity?: string
+          target_fix_date?: string | null
           updated_at?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "snagging_area_id_fkey"
+            columns: ["area_id"]
+            isOneToOne: false
+            referencedRelation: "project_areas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "snagging_assigned_to_fkey"
+            columns: ["assigned_to"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "snagging_created_by_fkey"
             columns: ["created_by"]
@@ -3402,6 +4057,16 @@ export type Database = {
           },
         ]
       }
+      gantt_phase_spans_view: {
+        Row: {
+          end_date: string | null
+          phase_key: Database["public"]["Enums"]["gantt_phase_key"] | null
+          project_id: string | null
+          start_date: string | null
+          task_count: number | null
+        }
+        Relationships: []
+      }
       v_activity_logs: {
         Row: {
           action: string | null
@@ -3847,11 +4512,49 @@ export type Database = {
       }
     }
     Functions: {
+      acknowledge_drawing_transmittal: {
+        Args: { p_transmittal_id: string }
+        Returns: string
+      }
+      apply_gantt_changes: {
+        Args: {
+          p_action: string
+          p_changes: Json
+          p_description: string
+          p_project_id: string
+          p_working_days?: number
+        }
+        Returns: string
+      }
+      apply_gantt_scenario: {
+        Args: { p_dependencies: Json; p_items: Json; p_project_id: string }
+        Returns: number
+      }
       can_approve_finance: { Args: never; Returns: boolean }
       generate_entity_code: { Args: { p_entity_type: string }; Returns: string }
       generate_report_code: { Args: { p_project_id: string }; Returns: string }
       generate_slug: { Args: { input_text: string }; Returns: string }
       get_cron_schedule: { Args: { job_name: string }; Returns: string }
+      get_gantt_resource_load: {
+        Args: { p_from: string; p_to: string }
+        Returns: {
+          allocation_id: string
+          allocation_percent: number
+          end_date: string
+          gantt_item_id: string
+          is_assigned: boolean
+          item_name: string | null
+          project_code: string | null
+          project_id: string
+          project_name: string | null
+          project_slug: string | null
+          project_status: string
+          resource_id: string
+          start_date: string
+          use_company_holidays: boolean
+          working_days: number | null
+        }[]
+      }
       get_item_project_id: {
         Args: { scope_item_uuid: string }
         Returns: string
@@ -3875,6 +4578,28 @@ export type Database = {
         Returns: boolean
       }
       preview_next_project_code: { Args: never; Returns: string }
+      record_drawing_transmittal: {
+        Args: {
+          p_items: Json
+          p_mark_sent?: boolean
+          p_notes?: string
+          p_project_id: string
+          p_purpose: string
+          p_recipients: Json
+        }
+        Returns: {
+          id: string
+          transmittal_code: string
+        }[]
+      }
+      replace_drawing_approval_chain: {
+        Args: { p_project_id: string; p_steps: Json }
+        Returns: number
+      }
+      revert_gantt_change: {
+        Args: { p_change_id: string; p_redo?: boolean }
+        Returns: number
+      }
       storage_project_id: { Args: { object_name: string }; Returns: string }
       update_cron_schedule: {
         Args: { job_name: string; new_schedule: string }
@@ -3892,7 +4617,7 @@ export type Database = {
         | "approved_with_comments"
         | "not_required"
       gantt_item_type: "phase" | "task" | "milestone"
-      gantt_phase_key: "design" | "production" | "shipping" | "installation"
+      gantt_phase_key: "design" | "production" | "procurement" | "shipping" | "installation"
       item_path: "production" | "procurement"
       item_status:
         | "pending"
@@ -4058,7 +4783,7 @@ export const Constants = {
         "not_required",
       ],
       gantt_item_type: ["phase", "task", "milestone"],
-      gantt_phase_key: ["design", "production", "shipping", "installation"],
+      gantt_phase_key: ["design", "production", "procurement", "shipping", "installation"],
       item_path: ["production", "procurement"],
       item_status: [
         "pending",
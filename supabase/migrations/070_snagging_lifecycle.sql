@@ -0,0 +1,34 @@
+-- ============================================================================
+-- Migration 070: Snagging Lifecycle
+--
+-- Extends snagging into a full punch-list lifecycle:
+--   assigned_to        — responsible user for the fix
+--   area_id            — optional project_areas link (floor/room)
+--   resolution_photos  — "after" photos attached on resolve (photos = "before")
+--   reopened_at/count  — reopen tracking
+--   is_deleted         — soft delete (matches scope_items / project_areas)
+-- ============================================================================
+
+ALTER TABLE public.snagging
+  ADD COLUMN IF NOT EXISTS assigned_to UUID REFERENCES users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS area_id UUID REFERENCES project_areas(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS resolution_photos JSONB DEFAULT '[]',
+  ADD COLUMN IF NOT EXISTS reopened_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS reopen_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS is_deleted BOOLEAN NOT NULL DEFAULT false;
+
+-- Open snags per assignee (my-snags lookups)
+CREATE INDEX IF NOT EXISTS idx_snagging_assigned_to
+  ON public.snagging (assigned_to)
+  WHERE is_deleted = false AND is_resolved = false;
+
+-- Area filter on the project snagging tab
+CREATE INDEX IF NOT EXISTS idx_snagging_area_id
+  ON public.snagging (area_id)
+  WHERE is_deleted = false;
+
+-- Replace the project/resolved index with one that skips soft-deleted rows
+DROP INDEX IF EXISTS idx_snagging_project_resolved;
+CREATE INDEX idx_snagging_project_resolved
+  ON public.snagging (project_id, is_resolved)
+  WHERE is_deleted = false;
@@ -0,0 +1,28 @@
+-- ============================================================================
+-- Migration 071: Snagging Severity, Category & SLA
+--
+-- Adds triage fields so a blocking defect stands out from a cosmetic one:
+--   severity         — minor / major / critical (drives the default SLA)
+--   category         — defect category (finish, damage, dimension, ...)
+--   target_fix_date  — SLA due date; open snags past this date are breached
+--   escalated_at     — set by the escalate-snags cron (one escalation per snag)
+-- ============================================================================
+
+ALTER TABLE public.snagging
+  ADD COLUMN IF NOT EXISTS severity TEXT NOT NULL DEFAULT 'minor'
+    CHECK (severity IN ('minor', 'major', 'critical')),
+  ADD COLUMN IF NOT EXISTS category TEXT
+    CHECK (category IN ('finish', 'damage', 'dimension', 'hardware', 'installation', 'missing', 'other')),
+  ADD COLUMN IF NOT EXISTS target_fix_date DATE,
+  ADD COLUMN IF NOT EXISTS escalated_at TIMESTAMPTZ;
+
+-- Backfill an SLA for existing open snags (minor = 14 days from report)
+UPDATE public.snagging
+SET target_fix_date = (created_at + INTERVAL '14 days')::date
+WHERE target_fix_date IS NULL
+  AND is_resolved = false;
+
+-- SLA breach lookups (dashboard at-risk + escalation cron)
+CREATE INDEX IF NOT EXISTS idx_snagging_open_target_fix_date
+  ON public.snagging (target_fix_date, severity)
+  WHERE is_deleted = false AND is_resolved = false;
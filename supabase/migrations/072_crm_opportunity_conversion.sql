@@ -0,0 +1,17 @@
+-- ============================================================================
+-- Migration 072: CRM Opportunity → Project Conversion
+--
+-- A won crm_opportunities row can be converted into a tender project.
+--   projects.crm_opportunity_id — originating opportunity (back-reference)
+--
+-- The unique index makes the relation one-to-one, so an opportunity converts
+-- at most once and PostgREST embeds it as a single object in both directions.
+-- ============================================================================
+
+ALTER TABLE public.projects
+  ADD COLUMN IF NOT EXISTS crm_opportunity_id UUID
+    REFERENCES crm_opportunities(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_projects_crm_opportunity_id
+  ON public.projects (crm_opportunity_id)
+  WHERE crm_opportunity_id IS NOT NULL;
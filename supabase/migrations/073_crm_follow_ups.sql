@@ -0,0 +1,20 @@
+-- ============================================================================
+-- Migration 073: CRM Follow-ups
+--
+-- An activity's next_action / next_action_date is the follow-up its author owes.
+-- These columns let a follow-up be closed and reminded about:
+--   follow_up_completed_at — set when the follow-up is done (drops off My Tasks)
+--   reminder_sent_on       — last day the crm-follow-ups cron emailed the owner
+--                            (one reminder per follow-up per day)
+-- ============================================================================
+
+ALTER TABLE public.crm_activities
+  ADD COLUMN IF NOT EXISTS follow_up_completed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS reminder_sent_on DATE;
+
+-- Open follow-ups per owner (dashboard My Tasks + reminder cron)
+CREATE INDEX IF NOT EXISTS idx_crm_activities_open_follow_ups
+  ON public.crm_activities (user_id, next_action_date)
+  WHERE is_deleted = false
+    AND follow_up_completed_at IS NULL
+    AND next_action_date IS NOT NULL;
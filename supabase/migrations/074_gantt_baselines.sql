@@ -0,0 +1,83 @@
+-- ============================================================================
+-- Migration 074: Gantt schedule baselines (reintroduced)
+--
+-- Named snapshots of every gantt_items start/end so the timeline can show
+-- "what slipped since kickoff". Replaces the 057 tables dropped in 065:
+--   - gantt_item_id is ON DELETE SET NULL (was CASCADE) and the item's name and
+--     type are copied into the snapshot, so a baseline stays a permanent record
+--     even after tasks are deleted from the live schedule.
+--   - Baselines are immutable; only the header can be renamed or deleted.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.gantt_baselines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  description text,
+  created_by uuid REFERENCES public.users(id),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.gantt_baseline_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  baseline_id uuid NOT NULL REFERENCES public.gantt_baselines(id) ON DELETE CASCADE,
+  gantt_item_id uuid REFERENCES public.gantt_items(id) ON DELETE SET NULL,
+  item_name text NOT NULL,
+  item_type text NOT NULL,
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  progress integer NOT NULL DEFAULT 0,
+  UNIQUE (baseline_id, gantt_item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_gantt_baselines_project
+  ON public.gantt_baselines (project_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_gantt_baseline_items_baseline
+  ON public.gantt_baseline_items (baseline_id);
+CREATE INDEX IF NOT EXISTS idx_gantt_baseline_items_item
+  ON public.gantt_baseline_items (gantt_item_id);
+
+ALTER TABLE public.gantt_baselines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.gantt_baseline_items ENABLE ROW LEVEL SECURITY;
+
+-- Baselines: read by anyone assigned to the project, written by PM/Admin
+CREATE POLICY "gantt_baselines_select" ON public.gantt_baselines FOR SELECT
+  USING (is_assigned_to_project(project_id));
+
+CREATE POLICY "gantt_baselines_insert" ON public.gantt_baselines FOR INSERT
+  WITH CHECK (
+    (SELECT get_user_role()) IN ('admin', 'pm')
+    AND is_assigned_to_project(project_id)
+  );
+
+CREATE POLICY "gantt_baselines_update" ON public.gantt_baselines FOR UPDATE
+  USING (
+    (SELECT get_user_role()) IN ('admin', 'pm')
+    AND is_assigned_to_project(project_id)
+  );
+
+CREATE POLICY "gantt_baselines_delete" ON public.gantt_baselines FOR DELETE
+  USING (
+    (SELECT get_user_role()) IN ('admin', 'pm')
+    AND is_assigned_to_project(project_id)
+  );
+
+-- Baseline items: visibility and inserts follow the parent baseline
+CREATE POLICY "gantt_baseline_items_select" ON public.gantt_baseline_items FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.gantt_baselines b
+      WHERE b.id = baseline_id
+        AND is_assigned_to_project(b.project_id)
+    )
+  );
+
+CREATE POLICY "gantt_baseline_items_insert" ON public.gantt_baseline_items FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.gantt_baselines b
+      WHERE b.id = baseline_id
+        AND (SELECT get_user_role()) IN ('admin', 'pm')
+        AND is_assigned_to_project(b.project_id)
+    )
+  );
@@ -0,0 +1,71 @@
+-- ============================================================================
+-- Migration 075: Holiday calendars for Gantt scheduling
+--
+-- The working-days bitmask (069) only knows weekdays. gantt_holidays adds
+-- dated non-working periods on top of it:
+--   - project_id NULL  → company calendar, applies to every project that has
+--     gantt_use_company_holidays = true (public holidays, Bayram closures)
+--   - project_id set   → project calendar (site shutdowns, client closures)
+-- A row covers start_date..end_date inclusive, so a 3.5-day Bayram or a
+-- two-week factory shutdown is one row.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.gantt_holidays (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid REFERENCES public.projects(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  category text NOT NULL DEFAULT 'public'
+    CHECK (category IN ('public', 'religious', 'shutdown', 'other')),
+  created_by uuid REFERENCES public.users(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (end_date >= start_date)
+);
+
+-- Re-applying a preset must not duplicate rows
+CREATE UNIQUE INDEX IF NOT EXISTS uq_gantt_holidays_scope_date_name
+  ON public.gantt_holidays (
+    COALESCE(project_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    start_date,
+    name
+  );
+CREATE INDEX IF NOT EXISTS idx_gantt_holidays_project
+  ON public.gantt_holidays (project_id, start_date);
+
+ALTER TABLE public.projects
+  ADD COLUMN IF NOT EXISTS gantt_use_company_holidays boolean NOT NULL DEFAULT true;
+
+ALTER TABLE public.gantt_holidays ENABLE ROW LEVEL SECURITY;
+
+-- Company rows are visible to everyone signed in; project rows follow the project
+CREATE POLICY "gantt_holidays_select" ON public.gantt_holidays FOR SELECT
+  USING (
+    (project_id IS NULL AND auth.uid() IS NOT NULL)
+    OR is_assigned_to_project(project_id)
+  );
+
+-- Company calendar is Admin-only; project calendars are PM/Admin
+CREATE POLICY "gantt_holidays_insert" ON public.gantt_holidays FOR INSERT
+  WITH CHECK (
+    CASE
+      WHEN project_id IS NULL THEN (SELECT get_user_role()) = 'admin'
+      ELSE (SELECT get_user_role()) IN ('admin', 'pm') AND is_assigned_to_project(project_id)
+    END
+  );
+
+CREATE POLICY "gantt_holidays_update" ON public.gantt_holidays FOR UPDATE
+  USING (
+    CASE
+      WHEN project_id IS NULL THEN (SELECT get_user_role()) = 'admin'
+      ELSE (SELECT get_user_role()) IN ('admin', 'pm') AND is_assigned_to_project(project_id)
+    END
+  );
+
+CREATE POLICY "gantt_holidays_delete" ON public.gantt_holidays FOR DELETE
+  USING (
+    CASE
+      WHEN project_id IS NULL THEN (SELECT get_user_role()) = 'admin'
+      ELSE (SELECT get_user_role()) IN ('admin', 'pm') AND is_assigned_to_project(project_id)
+    END
+  );
@@ -0,0 +1,168 @@
+-- ============================================================================
+-- Migration 076: Crews / resources and task allocations
+--
+-- Gantt schedules are per project, so a shared installation crew booked by
+-- three projects in the same week is invisible. This adds:
+--   - gantt_resources: company-wide crews and equipment. capacity_percent is
+--     how much work the resource can take per working day (100 = one crew,
+--     200 = a pool of two interchangeable crews).
+--   - gantt_item_resources: task → resource assignments with an allocation
+--     percentage (50 = half of the crew's day).
+--   - get_gantt_resource_load(): cross-project allocation rows for the
+--     resource histogram. gantt_items RLS only shows assigned projects, but
+--     over-allocation is only visible across all of them, so the function is
+--     SECURITY DEFINER and limited to internal roles.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.gantt_resources (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  resource_type text NOT NULL DEFAULT 'installation'
+    CHECK (resource_type IN ('production', 'installation', 'equipment', 'subcontractor')),
+  capacity_percent integer NOT NULL DEFAULT 100
+    CHECK (capacity_percent BETWEEN 1 AND 1000),
+  color text,
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES public.users(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_gantt_resources_name
+  ON public.gantt_resources (lower(name));
+
+CREATE TABLE IF NOT EXISTS public.gantt_item_resources (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  gantt_item_id uuid NOT NULL REFERENCES public.gantt_items(id) ON DELETE CASCADE,
+  resource_id uuid NOT NULL REFERENCES public.gantt_resources(id) ON DELETE CASCADE,
+  allocation_percent integer NOT NULL DEFAULT 100
+    CHECK (allocation_percent BETWEEN 1 AND 100),
+  created_by uuid REFERENCES public.users(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (gantt_item_id, resource_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_gantt_item_resources_resource
+  ON public.gantt_item_resources (resource_id);
+
+ALTER TABLE public.gantt_resources ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.gantt_item_resources ENABLE ROW LEVEL SECURITY;
+
+-- Resources: visible to every internal role, maintained by PM/Admin
+CREATE POLICY "gantt_resources_select" ON public.gantt_resources FOR SELECT
+  USING (auth.uid() IS NOT NULL AND (SELECT get_user_role()) <> 'client');
+
+CREATE POLICY "gantt_resources_insert" ON public.gantt_resources FOR INSERT
+  WITH CHECK ((SELECT get_user_role()) IN ('admin', 'pm'));
+
+CREATE POLICY "gantt_resources_update" ON public.gantt_resources FOR UPDATE
+  USING ((SELECT get_user_role()) IN ('admin', 'pm'));
+
+CREATE POLICY "gantt_resources_delete" ON public.gantt_resources FOR DELETE
+  USING ((SELECT get_user_role()) IN ('admin', 'pm'));
+
+-- Assignments follow the task's project, like gantt_items
+CREATE POLICY "gantt_item_resources_select" ON public.gantt_item_resources FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.gantt_items i
+      WHERE i.id = gantt_item_id
+        AND is_assigned_to_project(i.project_id)
+    )
+  );
+
+CREATE POLICY "gantt_item_resources_insert" ON public.gantt_item_resources FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.gantt_items i
+      WHERE i.id = gantt_item_id
+        AND (SELECT get_user_role()) IN ('admin', 'pm')
+        AND is_assigned_to_project(i.project_id)
+    )
+  );
+
+CREATE POLICY "gantt_item_resources_update" ON public.gantt_item_resources FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.gantt_items i
+      WHERE i.id = gantt_item_id
+        AND (SELECT get_user_role()) IN ('admin', 'pm')
+        AND is_assigned_to_project(i.project_id)
+    )
+  );
+
+CREATE POLICY "gantt_item_resources_delete" ON public.gantt_item_resources FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.gantt_items i
+      WHERE i.id = gantt_item_id
+        AND (SELECT get_user_role()) IN ('admin', 'pm')
+        AND is_assigned_to_project(i.project_id)
+    )
+  );
+
+-- ----------------------------------------------------------------------------
+-- Cross-project load: every allocation overlapping [p_from, p_to] on projects
+-- that are still live. Returns each project's working-days mask so the client
+-- counts load only on days that project actually works. The task and project
+-- names are NULL for projects the caller is not assigned to — the load counts,
+-- what the project is does not.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_gantt_resource_load(p_from date, p_to date)
+RETURNS TABLE (
+  allocation_id uuid,
+  resource_id uuid,
+  allocation_percent integer,
+  gantt_item_id uuid,
+  item_name text,
+  start_date date,
+  end_date date,
+  project_id uuid,
+  project_code text,
+  project_name text,
+  project_slug text,
+  project_status text,
+  working_days smallint,
+  use_company_holidays boolean,
+  is_assigned boolean
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR get_user_role() = 'client' THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    a.id,
+    a.resource_id,
+    a.allocation_percent,
+    i.id,
+    CASE WHEN acc.assigned THEN i.name END,
+    i.start_date,
+    i.end_date,
+    p.id,
+    CASE WHEN acc.assigned THEN p.project_code END,
+    CASE WHEN acc.assigned THEN p.name END,
+    CASE WHEN acc.assigned THEN p.slug END,
+    p.status::text,
+    p.gantt_working_days,
+    p.gantt_use_company_holidays,
+    acc.assigned
+  FROM public.gantt_item_resources a
+  JOIN public.gantt_items i ON i.id = a.gantt_item_id
+  JOIN public.projects p ON p.id = i.project_id
+  CROSS JOIN LATERAL (SELECT is_assigned_to_project(p.id) AS assigned) acc
+  WHERE i.start_date <= p_to
+    AND i.end_date >= p_from
+    AND i.item_type = 'task'
+    AND p.is_deleted = false
+    AND p.status IN ('tender', 'active', 'on_hold');
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_gantt_resource_load(date, date) TO authenticated;
@@ -0,0 +1,7 @@
+-- Per-project default phase durations for "Generate schedule".
+-- Working days keyed by phase_key, e.g.
+--   {"design": 10, "production": 20, "procurement": 15, "shipping": 5, "installation": 10}
+-- NULL = use the application defaults. Saved each time a schedule is
+-- generated so the next run starts from the PM's last choices.
+ALTER TABLE public.projects
+  ADD COLUMN IF NOT EXISTS gantt_default_durations jsonb;
@@ -0,0 +1,73 @@
+-- ============================================================================
+-- Migration 078: Apply a what-if scenario in one transaction
+--
+-- The timeline's scenario mode edits a client-side copy of the schedule. On
+-- apply, every changed task date and dependency is written here so the live
+-- schedule never ends up half-updated. Each row carries the value the PM
+-- started from; if anything was edited in the meantime the whole apply is
+-- rolled back with 'scenario_conflict'.
+--
+-- p_items:        [{ id, start_date, end_date, expected_start, expected_end }]
+-- p_dependencies: [{ id, dependency_type, lag_days, expected_type, expected_lag }]
+--
+-- SECURITY INVOKER: the gantt_items / gantt_dependencies RLS policies decide
+-- what the caller may write.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.apply_gantt_scenario(
+  p_project_id uuid,
+  p_items jsonb,
+  p_dependencies jsonb
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_row jsonb;
+  v_found integer;
+  v_count integer := 0;
+BEGIN
+  IF auth.uid() IS NULL OR get_user_role() NOT IN ('admin', 'pm') THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  FOR v_row IN SELECT * FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb))
+  LOOP
+    UPDATE public.gantt_items
+    SET start_date = (v_row->>'start_date')::date,
+        end_date = (v_row->>'end_date')::date
+    WHERE id = (v_row->>'id')::uuid
+      AND project_id = p_project_id
+      AND item_type <> 'phase'
+      AND start_date = (v_row->>'expected_start')::date
+      AND end_date = (v_row->>'expected_end')::date;
+    GET DIAGNOSTICS v_found = ROW_COUNT;
+    IF v_found = 0 THEN
+      RAISE EXCEPTION 'scenario_conflict' USING DETAIL = v_row->>'id';
+    END IF;
+    v_count := v_count + 1;
+  END LOOP;
+
+  FOR v_row IN SELECT * FROM jsonb_array_elements(COALESCE(p_dependencies, '[]'::jsonb))
+  LOOP
+    UPDATE public.gantt_dependencies
+    SET dependency_type = (v_row->>'dependency_type')::smallint,
+        lag_days = (v_row->>'lag_days')::integer
+    WHERE id = (v_row->>'id')::uuid
+      AND project_id = p_project_id
+      AND dependency_type = (v_row->>'expected_type')::smallint
+      AND lag_days = (v_row->>'expected_lag')::integer;
+    GET DIAGNOSTICS v_found = ROW_COUNT;
+    IF v_found = 0 THEN
+      RAISE EXCEPTION 'scenario_conflict' USING DETAIL = v_row->>'id';
+    END IF;
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.apply_gantt_scenario(uuid, jsonb, jsonb) TO authenticated;
@@ -0,0 +1,25 @@
+-- ============================================================================
+-- Migration 079: Date constraints on Gantt items
+--
+-- Dependencies only push tasks later; fixed dates such as a mall opening or a
+-- site handover need their own rule. A task or milestone may carry one:
+--   - must_start_on          → start pinned to constraint_date
+--   - start_no_earlier_than  → start never before constraint_date
+--   - finish_no_later_than   → deadline; flagged (not moved) when missed
+-- propagateDependencyDates applies the first two while rescheduling; the
+-- timeline reports any constraint the current dates break.
+-- ============================================================================
+
+ALTER TABLE public.gantt_items
+  ADD COLUMN IF NOT EXISTS constraint_type text
+    CHECK (constraint_type IN ('must_start_on', 'start_no_earlier_than', 'finish_no_later_than')),
+  ADD COLUMN IF NOT EXISTS constraint_date date;
+
+-- Type and date are set and cleared together; phases are never constrained
+ALTER TABLE public.gantt_items
+  DROP CONSTRAINT IF EXISTS gantt_items_constraint_pair_check;
+ALTER TABLE public.gantt_items
+  ADD CONSTRAINT gantt_items_constraint_pair_check CHECK (
+    (constraint_type IS NULL AND constraint_date IS NULL)
+    OR (constraint_type IS NOT NULL AND constraint_date IS NOT NULL AND item_type <> 'phase')
+  );
@@ -0,0 +1,32 @@
+-- ============================================================================
+-- Migration 080: Realtime for collaborative timeline editing
+--
+-- Open timelines subscribe to postgres_changes on gantt_items and
+-- gantt_dependencies (filtered by project_id) so edits by one PM appear for
+-- everyone else straight away. Realtime cannot filter DELETE events, and on
+-- RLS tables their old record carries only the primary key (even with
+-- REPLICA IDENTITY FULL) — clients match the id against the rows they loaded.
+--
+-- Stale writes are rejected in updateTimelineItem by matching updated_at,
+-- which the update_gantt_items_updated_at trigger (045) bumps on every update.
+-- ============================================================================
+
+ALTER TABLE public.gantt_items REPLICA IDENTITY FULL;
+ALTER TABLE public.gantt_dependencies REPLICA IDENTITY FULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'gantt_items'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.gantt_items;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'gantt_dependencies'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.gantt_dependencies;
+  END IF;
+END $$;
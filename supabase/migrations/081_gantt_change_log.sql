@@ -0,0 +1,162 @@
+-- ============================================================================
+-- Migration 081: Timeline change log (server-side undo history)
+--
+-- Every tracked timeline write (item create/edit/delete, phase changes,
+-- dependency edits, scenario apply, schedule import and generation) records
+-- one row here, with each affected row's before/after values in `changes`.
+-- The dependency-date propagation a write triggers is appended to that same
+-- entry, so undo reverts the edit and its cascade together.
+--
+-- changes: [{ table, op: insert|update|delete, id, before, after }]
+--   insert → after is the full new row       (undo deletes it)
+--   delete → before is the full old row      (undo re-inserts it)
+--   update → before/after hold only the columns that changed
+--
+-- Undo/redo run through revert_gantt_change() so a whole entry lands or none
+-- of it does. An update or delete is only applied while the row still holds
+-- the values the entry left behind (timestamps aside); otherwise
+-- 'change_conflict' rolls everything back.
+-- Working-day and holiday calendar changes are not recorded.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.gantt_change_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  action text NOT NULL
+    CHECK (action IN (
+      'create_item', 'update_item', 'delete_item', 'set_phase',
+      'create_dependency', 'update_dependency', 'delete_dependency',
+      'propagate', 'apply_scenario', 'import_schedule', 'generate_schedule'
+    )),
+  description text NOT NULL,
+  changes jsonb NOT NULL DEFAULT '[]'::jsonb,
+  undone_at timestamptz,
+  undone_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_gantt_change_log_project
+  ON public.gantt_change_log (project_id, created_at DESC);
+
+ALTER TABLE public.gantt_change_log ENABLE ROW LEVEL SECURITY;
+
+-- Read by anyone assigned to the project; written by PM/Admin
+CREATE POLICY "gantt_change_log_select" ON public.gantt_change_log FOR SELECT
+  USING (is_assigned_to_project(project_id));
+
+CREATE POLICY "gantt_change_log_insert" ON public.gantt_change_log FOR INSERT
+  WITH CHECK (
+    (SELECT get_user_role()) IN ('admin', 'pm')
+    AND is_assigned_to_project(project_id)
+    AND user_id = auth.uid()
+  );
+
+-- Appending propagation to an entry and flipping undone_at
+CREATE POLICY "gantt_change_log_update" ON public.gantt_change_log FOR UPDATE
+  USING (
+    (SELECT get_user_role()) IN ('admin', 'pm')
+    AND is_assigned_to_project(project_id)
+  );
+
+-- ============================================================================
+-- revert_gantt_change: undo (p_redo = false) or redo (p_redo = true) an entry
+--
+-- SECURITY INVOKER: the RLS policies on the tracked tables decide what the
+-- caller may write, exactly as for the original edit.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.revert_gantt_change(
+  p_change_id uuid,
+  p_redo boolean DEFAULT false
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_log public.gantt_change_log%ROWTYPE;
+  v_row jsonb;
+  v_table text;
+  v_op text;
+  v_from jsonb;
+  v_to jsonb;
+  v_cols text;
+  v_values text;
+  v_found integer;
+  v_count integer := 0;
+BEGIN
+  IF auth.uid() IS NULL OR get_user_role() NOT IN ('admin', 'pm') THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  SELECT * INTO v_log FROM public.gantt_change_log WHERE id = p_change_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'change_not_found';
+  END IF;
+  -- Undo needs a live entry, redo an undone one
+  IF p_redo <> (v_log.undone_at IS NOT NULL) THEN
+    RAISE EXCEPTION 'change_state';
+  END IF;
+
+  -- Redo replays the rows in order; undo walks them backwards
+  FOR v_row IN
+    SELECT c.value
+    FROM jsonb_array_elements(v_log.changes) WITH ORDINALITY AS c(value, n)
+    ORDER BY CASE WHEN p_redo THEN c.n ELSE -c.n END
+  LOOP
+    v_table := v_row->>'table';
+    IF v_table NOT IN ('gantt_items', 'gantt_dependencies', 'gantt_item_scope_items', 'gantt_item_resources') THEN
+      RAISE EXCEPTION 'change_table' USING DETAIL = v_table;
+    END IF;
+
+    v_op := v_row->>'op';
+    IF p_redo THEN
+      v_from := v_row->'before';
+      v_to := v_row->'after';
+    ELSE
+      v_from := v_row->'after';
+      v_to := v_row->'before';
+      v_op := CASE v_op WHEN 'insert' THEN 'delete' WHEN 'delete' THEN 'insert' ELSE v_op END;
+    END IF;
+
+    IF v_op = 'insert' THEN
+      EXECUTE format(
+        'INSERT INTO public.%1$I SELECT * FROM jsonb_populate_record(NULL::public.%1$I, $1)',
+        v_table
+      ) USING v_to;
+    ELSIF v_op = 'delete' THEN
+      -- Only a row nobody has edited since; timestamps move on every write
+      EXECUTE format('DELETE FROM public.%I t WHERE t.id = $1 AND to_jsonb(t) @> $2', v_table)
+        USING (v_row->>'id')::uuid, COALESCE(v_from, '{}'::jsonb) - ARRAY['created_at', 'updated_at'];
+    ELSE
+      SELECT string_agg(format('%I', k), ', '), string_agg(format('r.%I', k), ', ')
+      INTO v_cols, v_values
+      FROM jsonb_object_keys(v_to) AS k;
+
+      EXECUTE format(
+        'UPDATE public.%1$I t SET (%2$s) = ('
+        || 'SELECT %3$s FROM jsonb_populate_record(NULL::public.%1$I, to_jsonb(t) || $1) r'
+        || ') WHERE t.id = $2 AND to_jsonb(t) @> $3',
+        v_table, v_cols, v_values
+      ) USING v_to, (v_row->>'id')::uuid, v_from;
+    END IF;
+
+    GET DIAGNOSTICS v_found = ROW_COUNT;
+    IF v_found = 0 THEN
+      RAISE EXCEPTION 'change_conflict' USING DETAIL = v_row->>'id';
+    END IF;
+    v_count := v_count + 1;
+  END LOOP;
+
+  UPDATE public.gantt_change_log
+  SET undone_at = CASE WHEN p_redo THEN NULL ELSE now() END,
+      undone_by = CASE WHEN p_redo THEN NULL ELSE auth.uid() END
+  WHERE id = p_change_id;
+
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.revert_gantt_change(uuid, boolean) TO authenticated;
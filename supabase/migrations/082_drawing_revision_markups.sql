@@ -0,0 +1,65 @@
+-- ============================================================================
+-- Migration 082: In-browser drawing markup
+--
+-- Structured annotations (clouds, arrows, text callouts, dimensions, stamps)
+-- drawn on a drawing revision in the app. One row per revision per author so
+-- a client's markups and a PM's replies never overwrite each other.
+--
+-- annotations: [{ id, type, page, color, ... }] — see src/lib/drawing-markup.ts.
+-- Points are fractions of the page, so a revision's markups can be laid over
+-- the next revision of the same sheet.
+--
+-- When the client responds, the markups are flattened into a PDF in the
+-- browser and stored on drawing_revisions.client_markup_url as before.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.drawing_revision_markups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  revision_id uuid NOT NULL REFERENCES public.drawing_revisions(id) ON DELETE CASCADE,
+  author_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  annotations jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (revision_id, author_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_drawing_revision_markups_revision
+  ON public.drawing_revision_markups (revision_id);
+
+ALTER TABLE public.drawing_revision_markups ENABLE ROW LEVEL SECURITY;
+
+-- Visible to everyone assigned to the drawing's project
+CREATE POLICY "View revision markups" ON public.drawing_revision_markups
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1
+    FROM public.drawing_revisions dr
+    JOIN public.drawings d ON d.id = dr.drawing_id
+    JOIN public.scope_items si ON si.id = d.item_id
+    WHERE dr.id = drawing_revision_markups.revision_id
+      AND si.is_deleted = false
+      AND is_assigned_to_project(si.project_id)
+  )
+);
+
+-- Clients, PMs and admins write only their own layer
+CREATE POLICY "Manage own revision markups" ON public.drawing_revision_markups
+FOR ALL
+USING (author_id = auth.uid())
+WITH CHECK (
+  author_id = auth.uid()
+  AND get_user_role() IN ('admin', 'pm', 'client')
+  AND EXISTS (
+    SELECT 1
+    FROM public.drawing_revisions dr
+    JOIN public.drawings d ON d.id = dr.drawing_id
+    JOIN public.scope_items si ON si.id = d.item_id
+    WHERE dr.id = drawing_revision_markups.revision_id
+      AND si.is_deleted = false
+      AND is_assigned_to_project(si.project_id)
+  )
+);
+
+COMMENT ON TABLE public.drawing_revision_markups IS
+  'In-app markup annotations per drawing revision and author.';
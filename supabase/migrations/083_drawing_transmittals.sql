@@ -0,0 +1,245 @@
+-- ============================================================================
+-- Migration 083: Drawing transmittals
+--
+-- A numbered record of every issue of drawings to the client, for the
+-- transmittal sheets the client's architects file:
+--   drawing_transmittals            one per send ({PROJECT_CODE}-TR-NNN)
+--   drawing_transmittal_items       the drawings and revisions it carried
+--   drawing_transmittal_recipients  who it went to, and when they acknowledged
+--
+-- Items and recipients are snapshots (revision, file name, recipient name and
+-- email at send time) so a transmittal reads the same after later uploads.
+--
+-- Transmittals are written whole through record_drawing_transmittal(), which
+-- also marks the drawings sent when the transmittal is for approval.
+-- Recipients acknowledge receipt through acknowledge_drawing_transmittal(),
+-- which only ever stamps the caller's own row.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.drawing_transmittals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  transmittal_code text,
+  purpose text NOT NULL
+    CHECK (purpose IN ('for_approval', 'for_construction', 'for_information')),
+  notes text,
+  sent_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  sent_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (project_id, transmittal_code)
+);
+
+CREATE TABLE IF NOT EXISTS public.drawing_transmittal_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  transmittal_id uuid NOT NULL REFERENCES public.drawing_transmittals(id) ON DELETE CASCADE,
+  drawing_id uuid REFERENCES public.drawings(id) ON DELETE SET NULL,
+  item_code text NOT NULL,
+  item_name text NOT NULL,
+  revision text,
+  file_name text
+);
+
+CREATE TABLE IF NOT EXISTS public.drawing_transmittal_recipients (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  transmittal_id uuid NOT NULL REFERENCES public.drawing_transmittals(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  name text NOT NULL,
+  email text,
+  acknowledged_at timestamptz,
+  UNIQUE (transmittal_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_drawing_transmittals_project
+  ON public.drawing_transmittals (project_id, sent_at DESC);
+CREATE INDEX IF NOT EXISTS idx_drawing_transmittal_items_transmittal
+  ON public.drawing_transmittal_items (transmittal_id);
+CREATE INDEX IF NOT EXISTS idx_drawing_transmittal_items_drawing
+  ON public.drawing_transmittal_items (drawing_id);
+CREATE INDEX IF NOT EXISTS idx_drawing_transmittal_recipients_transmittal
+  ON public.drawing_transmittal_recipients (transmittal_id);
+
+-- ----------------------------------------------------------------------------
+-- Numbering: {PROJECT_CODE}-TR-NNN, same scheme as report codes (migration 024)
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION set_drawing_transmittal_code()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_project_code TEXT;
+  v_next_num INTEGER;
+BEGIN
+  IF NEW.transmittal_code IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT project_code INTO v_project_code
+  FROM projects
+  WHERE id = NEW.project_id;
+
+  -- Serialise numbering within a project
+  PERFORM pg_advisory_xact_lock(hashtext('transmittal_' || NEW.project_id::TEXT)::BIGINT);
+
+  SELECT COALESCE(MAX(
+    NULLIF(SUBSTRING(transmittal_code FROM '-TR-([0-9]+)$'), '')::INTEGER
+  ), 0) + 1
+  INTO v_next_num
+  FROM drawing_transmittals
+  WHERE project_id = NEW.project_id;
+
+  NEW.transmittal_code := COALESCE(v_project_code, 'PRJ') || '-TR-' || LPAD(v_next_num::TEXT, 3, '0');
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_set_drawing_transmittal_code ON public.drawing_transmittals;
+CREATE TRIGGER trigger_set_drawing_transmittal_code
+  BEFORE INSERT ON public.drawing_transmittals
+  FOR EACH ROW
+  EXECUTE FUNCTION set_drawing_transmittal_code();
+
+-- ----------------------------------------------------------------------------
+-- RLS: read by anyone on the project, issued by PM/Admin
+-- ----------------------------------------------------------------------------
+ALTER TABLE public.drawing_transmittals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.drawing_transmittal_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.drawing_transmittal_recipients ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "drawing_transmittals_select" ON public.drawing_transmittals FOR SELECT
+  USING (is_assigned_to_project(project_id));
+
+CREATE POLICY "drawing_transmittals_insert" ON public.drawing_transmittals FOR INSERT
+  WITH CHECK (
+    (SELECT get_user_role()) IN ('admin', 'pm')
+    AND is_assigned_to_project(project_id)
+    AND sent_by = auth.uid()
+  );
+
+CREATE POLICY "drawing_transmittal_items_select" ON public.drawing_transmittal_items FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.drawing_transmittals t
+      WHERE t.id = drawing_transmittal_items.transmittal_id
+        AND is_assigned_to_project(t.project_id)
+    )
+  );
+
+CREATE POLICY "drawing_transmittal_items_insert" ON public.drawing_transmittal_items FOR INSERT
+  WITH CHECK (
+    (SELECT get_user_role()) IN ('admin', 'pm')
+    AND EXISTS (
+      SELECT 1 FROM public.drawing_transmittals t
+      WHERE t.id = drawing_transmittal_items.transmittal_id
+        AND is_assigned_to_project(t.project_id)
+    )
+  );
+
+CREATE POLICY "drawing_transmittal_recipients_select" ON public.drawing_transmittal_recipients FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.drawing_transmittals t
+      WHERE t.id = drawing_transmittal_recipients.transmittal_id
+        AND is_assigned_to_project(t.project_id)
+    )
+  );
+
+CREATE POLICY "drawing_transmittal_recipients_insert" ON public.drawing_transmittal_recipients FOR INSERT
+  WITH CHECK (
+    (SELECT get_user_role()) IN ('admin', 'pm')
+    AND EXISTS (
+      SELECT 1 FROM public.drawing_transmittals t
+      WHERE t.id = drawing_transmittal_recipients.transmittal_id
+        AND is_assigned_to_project(t.project_id)
+    )
+  );
+
+-- ----------------------------------------------------------------------------
+-- Record a transmittal with its items and recipients in one transaction, so a
+-- send never leaves a numbered transmittal with missing contents. With
+-- p_mark_sent the drawings move to sent_to_client in the same transaction, so
+-- a failed status update leaves no transmittal in the register either.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION record_drawing_transmittal(
+  p_project_id uuid,
+  p_purpose text,
+  p_items jsonb,
+  p_recipients jsonb,
+  p_notes text DEFAULT NULL,
+  p_mark_sent boolean DEFAULT false
+)
+RETURNS TABLE (id uuid, transmittal_code text)
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_id uuid;
+  v_code text;
+  v_updated integer;
+BEGIN
+  INSERT INTO drawing_transmittals (project_id, purpose, notes, sent_by)
+  VALUES (p_project_id, p_purpose, p_notes, auth.uid())
+  RETURNING drawing_transmittals.id, drawing_transmittals.transmittal_code INTO v_id, v_code;
+
+  INSERT INTO drawing_transmittal_items (transmittal_id, drawing_id, item_code, item_name, revision, file_name)
+  SELECT v_id, (i->>'drawing_id')::uuid, i->>'item_code', i->>'item_name', i->>'revision', i->>'file_name'
+  FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) AS i;
+
+  INSERT INTO drawing_transmittal_recipients (transmittal_id, user_id, name, email)
+  SELECT v_id, (r->>'user_id')::uuid, r->>'name', r->>'email'
+  FROM jsonb_array_elements(COALESCE(p_recipients, '[]'::jsonb)) AS r;
+
+  IF p_mark_sent THEN
+    UPDATE drawings
+    SET status = 'sent_to_client', sent_to_client_at = now()
+    WHERE drawings.id IN (
+      SELECT (i->>'drawing_id')::uuid
+      FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) AS i
+    );
+
+    -- RLS filters silently; every drawing on the transmittal must be marked
+    GET DIAGNOSTICS v_updated = ROW_COUNT;
+    IF v_updated <> jsonb_array_length(COALESCE(p_items, '[]'::jsonb)) THEN
+      RAISE EXCEPTION 'drawings_not_updated';
+    END IF;
+  END IF;
+
+  RETURN QUERY SELECT v_id, v_code;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_drawing_transmittal(uuid, text, jsonb, jsonb, text, boolean) TO authenticated;
+
+-- ----------------------------------------------------------------------------
+-- Acknowledge receipt — stamps only the caller's recipient row, once
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION acknowledge_drawing_transmittal(p_transmittal_id uuid)
+RETURNS timestamptz
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_acknowledged_at timestamptz;
+BEGIN
+  UPDATE drawing_transmittal_recipients
+  SET acknowledged_at = COALESCE(acknowledged_at, now())
+  WHERE transmittal_id = p_transmittal_id
+    AND user_id = auth.uid()
+  RETURNING acknowledged_at INTO v_acknowledged_at;
+
+  IF v_acknowledged_at IS NULL THEN
+    RAISE EXCEPTION 'not_a_recipient';
+  END IF;
+
+  RETURN v_acknowledged_at;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION acknowledge_drawing_transmittal(uuid) TO authenticated;
+
+COMMENT ON TABLE public.drawing_transmittals IS
+  'Numbered drawing issues to the client ({PROJECT_CODE}-TR-NNN) with purpose and notes.';
+COMMENT ON FUNCTION acknowledge_drawing_transmittal IS
+  'Marks the calling recipient as having received a transmittal; returns the acknowledgement time.';
@@ -0,0 +1,114 @@
+-- ============================================================================
+-- Migration 084: Client Approval Reminders
+--
+-- Drawings and materials waiting on the client are chased automatically by
+-- the approval-reminders cron:
+--   projects.approval_reminder_days    — nudge the client after N days (NULL = off)
+--   projects.approval_escalation_days  — escalate, copying the PM, after M days (NULL = off)
+--   approval_reminder_stage            — 0 none sent, 1 nudged, 2 escalated
+--   approval_reminded_at               — when the last reminder went out
+--
+-- The stage is reset to 0 whenever an item is (re)sent to the client, so every
+-- round of review gets its own reminders: for drawings by
+-- record_drawing_transmittal(), for materials by the app. Projects that
+-- existed before this migration keep reminders off until a PM turns them on.
+-- ============================================================================
+
+-- Added without a default so existing projects start with reminders off:
+-- items already waiting on their clients would otherwise all be chased on the
+-- first run. Projects created from now on get the 3 / 7 day cadence.
+ALTER TABLE public.projects
+  ADD COLUMN IF NOT EXISTS approval_reminder_days SMALLINT
+    CHECK (approval_reminder_days BETWEEN 1 AND 90),
+  ADD COLUMN IF NOT EXISTS approval_escalation_days SMALLINT
+    CHECK (approval_escalation_days BETWEEN 1 AND 90);
+
+ALTER TABLE public.projects
+  ALTER COLUMN approval_reminder_days SET DEFAULT 3,
+  ALTER COLUMN approval_escalation_days SET DEFAULT 7;
+
+ALTER TABLE public.projects
+  DROP CONSTRAINT IF EXISTS projects_approval_cadence_order;
+ALTER TABLE public.projects
+  ADD CONSTRAINT projects_approval_cadence_order
+    CHECK (
+      approval_reminder_days IS NULL
+      OR approval_escalation_days IS NULL
+      OR approval_escalation_days > approval_reminder_days
+    );
+
+ALTER TABLE public.drawings
+  ADD COLUMN IF NOT EXISTS approval_reminder_stage SMALLINT NOT NULL DEFAULT 0
+    CHECK (approval_reminder_stage BETWEEN 0 AND 2),
+  ADD COLUMN IF NOT EXISTS approval_reminded_at TIMESTAMPTZ;
+
+ALTER TABLE public.materials
+  ADD COLUMN IF NOT EXISTS approval_reminder_stage SMALLINT NOT NULL DEFAULT 0
+    CHECK (approval_reminder_stage BETWEEN 0 AND 2),
+  ADD COLUMN IF NOT EXISTS approval_reminded_at TIMESTAMPTZ;
+
+-- Cron lookups: only items still waiting and not yet escalated
+CREATE INDEX IF NOT EXISTS idx_drawings_awaiting_client
+  ON public.drawings (sent_to_client_at)
+  WHERE status = 'sent_to_client' AND approval_reminder_stage < 2;
+
+CREATE INDEX IF NOT EXISTS idx_materials_awaiting_client
+  ON public.materials (project_id)
+  WHERE status IN ('pending', 'sent_to_client') AND is_deleted = false AND approval_reminder_stage < 2;
+
+-- ----------------------------------------------------------------------------
+-- Drawings sent for approval restart the reminder cadence (migration 083's
+-- record_drawing_transmittal, plus the stage reset)
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION record_drawing_transmittal(
+  p_project_id uuid,
+  p_purpose text,
+  p_items jsonb,
+  p_recipients jsonb,
+  p_notes text DEFAULT NULL,
+  p_mark_sent boolean DEFAULT false
+)
+RETURNS TABLE (id uuid, transmittal_code text)
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_id uuid;
+  v_code text;
+  v_updated integer;
+BEGIN
+  INSERT INTO drawing_transmittals (project_id, purpose, notes, sent_by)
+  VALUES (p_project_id, p_purpose, p_notes, auth.uid())
+  RETURNING drawing_transmittals.id, drawing_transmittals.transmittal_code INTO v_id, v_code;
+
+  INSERT INTO drawing_transmittal_items (transmittal_id, drawing_id, item_code, item_name, revision, file_name)
+  SELECT v_id, (i->>'drawing_id')::uuid, i->>'item_code', i->>'item_name', i->>'revision', i->>'file_name'
+  FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) AS i;
+
+  INSERT INTO drawing_transmittal_recipients (transmittal_id, user_id, name, email)
+  SELECT v_id, (r->>'user_id')::uuid, r->>'name', r->>'email'
+  FROM jsonb_array_elements(COALESCE(p_recipients, '[]'::jsonb)) AS r;
+
+  IF p_mark_sent THEN
+    UPDATE drawings
+    SET status = 'sent_to_client', sent_to_client_at = now(), approval_reminder_stage = 0
+    WHERE drawings.id IN (
+      SELECT (i->>'drawing_id')::uuid
+      FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) AS i
+    );
+
+    GET DIAGNOSTICS v_updated = ROW_COUNT;
+    IF v_updated <> jsonb_array_length(COALESCE(p_items, '[]'::jsonb)) THEN
+      RAISE EXCEPTION 'drawings_not_updated';
+    END IF;
+  END IF;
+
+  RETURN QUERY SELECT v_id, v_code;
+END;
+$$;
+
+COMMENT ON COLUMN public.projects.approval_reminder_days IS
+  'Days a drawing/material may wait on the client before they are nudged. NULL disables the nudge.';
+COMMENT ON COLUMN public.projects.approval_escalation_days IS
+  'Days a drawing/material may wait on the client before the reminder is escalated to the PM. NULL disables escalation.';
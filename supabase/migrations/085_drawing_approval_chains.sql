@@ -0,0 +1,137 @@
+-- ============================================================================
+-- Migration 085: Drawing approval chains
+--
+-- Internal checks a drawing revision must pass before it can go to the client,
+-- configured per project (e.g. production engineer check, then PM approval):
+--   drawing_approval_steps     the project's ordered chain; no rows = no chain
+--   drawing_internal_reviews   one row per decision, per revision and step
+--
+-- While a revision is in its chain the drawing stays 'uploaded'; the chain's
+-- progress is read from the review log. A rejection stops the chain for that
+-- revision — the drafter uploads a new revision, which starts it again.
+--
+-- Reviews are an audit trail: rows are written by the approver and never
+-- updated or deleted. Steps are stored by role, so any user with that role on
+-- the project can act on the step (admins can act on every step). The chain
+-- is saved through replace_drawing_approval_chain, all steps at once.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.drawing_approval_steps (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  step_order SMALLINT NOT NULL CHECK (step_order BETWEEN 1 AND 10),
+  name text NOT NULL CHECK (length(btrim(name)) > 0),
+  approver_role user_role NOT NULL CHECK (approver_role <> 'client'),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (project_id, step_order)
+);
+
+CREATE TABLE IF NOT EXISTS public.drawing_internal_reviews (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  drawing_id uuid NOT NULL REFERENCES public.drawings(id) ON DELETE CASCADE,
+  revision text NOT NULL,
+  -- Snapshot of the step, so the log reads the same after the chain is edited
+  step_order SMALLINT NOT NULL,
+  step_name text NOT NULL,
+  approver_role user_role NOT NULL,
+  decision text NOT NULL CHECK (decision IN ('approved', 'rejected')),
+  comments text,
+  reviewed_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  reviewed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_drawing_internal_reviews_drawing
+  ON public.drawing_internal_reviews (drawing_id, revision, reviewed_at);
+
+-- ============================================================================
+-- RLS
+-- ============================================================================
+
+ALTER TABLE public.drawing_approval_steps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.drawing_internal_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "drawing_approval_steps_select" ON public.drawing_approval_steps FOR SELECT
+  USING (is_assigned_to_project(project_id));
+
+CREATE POLICY "drawing_approval_steps_manage" ON public.drawing_approval_steps FOR ALL
+  USING (
+    (SELECT get_user_role()) IN ('admin', 'pm')
+    AND is_assigned_to_project(project_id)
+  )
+  WITH CHECK (
+    (SELECT get_user_role()) IN ('admin', 'pm')
+    AND is_assigned_to_project(project_id)
+  );
+
+-- Internal reviews are not shown to clients
+CREATE POLICY "drawing_internal_reviews_select" ON public.drawing_internal_reviews FOR SELECT
+  USING (
+    (SELECT get_user_role()) <> 'client'
+    AND EXISTS (
+      SELECT 1 FROM public.drawings d
+      JOIN public.scope_items si ON si.id = d.item_id
+      WHERE d.id = drawing_internal_reviews.drawing_id
+        AND is_assigned_to_project(si.project_id)
+    )
+  );
+
+-- A decision must match a step of the project's chain as it stands, be made
+-- by that step's role (admins can act on any step) and be for the drawing's
+-- current revision. Which step is pending is checked by the server action.
+CREATE POLICY "drawing_internal_reviews_insert" ON public.drawing_internal_reviews FOR INSERT
+  WITH CHECK (
+    reviewed_by = auth.uid()
+    AND (
+      (SELECT get_user_role()) = 'admin'
+      OR approver_role = (SELECT get_user_role())
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.drawings d
+      JOIN public.scope_items si ON si.id = d.item_id
+      JOIN public.drawing_approval_steps s ON s.project_id = si.project_id
+      WHERE d.id = drawing_internal_reviews.drawing_id
+        AND d.current_revision = drawing_internal_reviews.revision
+        AND s.step_order = drawing_internal_reviews.step_order
+        AND s.approver_role = drawing_internal_reviews.approver_role
+        AND is_assigned_to_project(si.project_id)
+    )
+  );
+
+-- ============================================================================
+-- Replace a project's chain in one transaction, so a failed save never leaves
+-- the project with no chain (which would let drawings skip the checks)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.replace_drawing_approval_chain(
+  p_project_id uuid,
+  p_steps jsonb
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  IF auth.uid() IS NULL OR get_user_role() NOT IN ('admin', 'pm') THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  DELETE FROM public.drawing_approval_steps WHERE project_id = p_project_id;
+
+  INSERT INTO public.drawing_approval_steps (project_id, step_order, name, approver_role)
+  SELECT p_project_id, s.ordinality::smallint, btrim(s.value->>'name'), (s.value->>'approver_role')::user_role
+  FROM jsonb_array_elements(COALESCE(p_steps, '[]'::jsonb)) WITH ORDINALITY AS s(value, ordinality);
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.replace_drawing_approval_chain(uuid, jsonb) TO authenticated;
+
+COMMENT ON TABLE public.drawing_approval_steps IS
+  'Ordered internal approval chain a drawing revision passes before it can be sent to the client.';
+COMMENT ON TABLE public.drawing_internal_reviews IS
+  'Append-only log of internal approval chain decisions, per drawing revision and step.';
@@ -0,0 +1,29 @@
+-- ============================================================================
+-- Migration 086: Phase spans per project
+--
+-- The portfolio timeline draws one bar per project phase, spanning the tasks
+-- labelled with it. Rolling that up in SQL returns a handful of rows per
+-- project instead of every phase-labelled task, which across all projects
+-- quickly passes the API's row limit.
+--
+-- Security invoker, so gantt_items RLS decides which projects show up.
+-- ============================================================================
+
+DROP VIEW IF EXISTS public.gantt_phase_spans_view;
+CREATE VIEW public.gantt_phase_spans_view
+WITH (security_invoker = true)
+AS
+SELECT
+  gi.project_id,
+  gi.phase_key,
+  MIN(gi.start_date) AS start_date,
+  MAX(gi.end_date) AS end_date,
+  COUNT(*)::integer AS task_count
+FROM public.gantt_items gi
+WHERE gi.item_type NOT IN ('phase', 'milestone')
+  AND gi.phase_key IS NOT NULL
+GROUP BY gi.project_id, gi.phase_key;
+
+COMMENT ON VIEW public.gantt_phase_spans_view IS
+  'Start/end of each project phase, rolled up from the tasks labelled with it. Security invoker enabled.';
+GRANT SELECT ON public.gantt_phase_spans_view TO authenticated;
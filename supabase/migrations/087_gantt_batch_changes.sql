@@ -0,0 +1,177 @@
+-- ============================================================================
+-- Migration 087: Bulk timeline writes in one transaction
+--
+-- Schedule imports and schedule generation write many rows at once. They go
+-- through apply_gantt_changes() so a failure part-way leaves the timeline as
+-- it was, and the whole write lands as one gantt_change_log entry that undo
+-- reverts in one step.
+--
+-- p_changes: [{ table, op: insert|update|delete, id, after }], applied in order
+--   insert → after holds the new row's columns (others take their defaults)
+--   update → after holds the columns to set on row `id`
+--   delete → row `id`; deleting a task also logs what goes with it
+--            (child reparenting, resources, scope links, dependencies) the
+--            same way deleteTimelineItem does, so undo can put it all back
+-- p_working_days: optional new gantt_working_days for the project (imports
+--   that bring their own calendar); not part of the change log
+--
+-- Returns the change log entry id, or NULL when nothing changed.
+--
+-- SECURITY INVOKER: the RLS policies on the tracked tables decide what the
+-- caller may write, exactly as for single edits.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.apply_gantt_changes(
+  p_project_id uuid,
+  p_action text,
+  p_description text,
+  p_changes jsonb,
+  p_working_days smallint DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_row jsonb;
+  v_table text;
+  v_id uuid;
+  v_current jsonb;
+  v_from jsonb;
+  v_to jsonb;
+  v_cols text;
+  v_values text;
+  v_log jsonb := '[]'::jsonb;
+  v_change_id uuid;
+BEGIN
+  IF auth.uid() IS NULL OR get_user_role() NOT IN ('admin', 'pm') THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  IF p_working_days IS NOT NULL THEN
+    UPDATE public.projects SET gantt_working_days = p_working_days WHERE id = p_project_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'project_not_found';
+    END IF;
+  END IF;
+
+  FOR v_row IN
+    SELECT c.value
+    FROM jsonb_array_elements(COALESCE(p_changes, '[]'::jsonb)) WITH ORDINALITY AS c(value, n)
+    ORDER BY c.n
+  LOOP
+    v_table := v_row->>'table';
+    IF v_table NOT IN ('gantt_items', 'gantt_dependencies', 'gantt_item_scope_items', 'gantt_item_resources') THEN
+      RAISE EXCEPTION 'change_table' USING DETAIL = v_table;
+    END IF;
+
+    IF v_row->>'op' = 'insert' THEN
+      SELECT string_agg(format('%I', k), ', '), string_agg(format('r.%I', k), ', ')
+      INTO v_cols, v_values
+      FROM jsonb_object_keys(v_row->'after') AS k;
+
+      EXECUTE format(
+        'INSERT INTO public.%1$I (%2$s) '
+        || 'SELECT %3$s FROM jsonb_populate_record(NULL::public.%1$I, $1) r '
+        || 'RETURNING to_jsonb(%1$I.*)',
+        v_table, v_cols, v_values
+      ) INTO v_to USING v_row->'after';
+
+      -- Tasks and dependencies must land on this project
+      IF v_to ? 'project_id' AND (v_to->>'project_id')::uuid <> p_project_id THEN
+        RAISE EXCEPTION 'change_project' USING DETAIL = v_to->>'id';
+      END IF;
+
+      v_log := v_log || jsonb_build_array(jsonb_build_object(
+        'table', v_table, 'op', 'insert', 'id', v_to->>'id', 'after', v_to
+      ));
+
+    ELSIF v_row->>'op' IN ('update', 'delete') THEN
+      IF v_table NOT IN ('gantt_items', 'gantt_dependencies') THEN
+        RAISE EXCEPTION 'change_table' USING DETAIL = v_table;
+      END IF;
+      v_id := (v_row->>'id')::uuid;
+
+      EXECUTE format('SELECT to_jsonb(t) FROM public.%I t WHERE t.id = $1 AND t.project_id = $2 FOR UPDATE', v_table)
+        INTO v_current USING v_id, p_project_id;
+      IF v_current IS NULL THEN
+        RAISE EXCEPTION 'change_conflict' USING DETAIL = v_id::text;
+      END IF;
+
+      IF v_row->>'op' = 'update' THEN
+        -- Only the columns that actually change are logged
+        SELECT jsonb_object_agg(e.key, v_current->e.key), jsonb_object_agg(e.key, e.value)
+        INTO v_from, v_to
+        FROM jsonb_each(v_row->'after') AS e
+        WHERE e.key NOT IN ('id', 'project_id', 'created_at', 'updated_at')
+          AND (v_current->e.key) IS DISTINCT FROM e.value;
+        CONTINUE WHEN v_to IS NULL;
+
+        SELECT string_agg(format('%I', k), ', '), string_agg(format('r.%I', k), ', ')
+        INTO v_cols, v_values
+        FROM jsonb_object_keys(v_to) AS k;
+
+        EXECUTE format(
+          'UPDATE public.%1$I t SET (%2$s) = ('
+          || 'SELECT %3$s FROM jsonb_populate_record(NULL::public.%1$I, to_jsonb(t) || $1) r'
+          || ') WHERE t.id = $2 RETURNING to_jsonb(t)',
+          v_table, v_cols, v_values
+        ) INTO v_current USING v_to, v_id;
+
+        -- Log what was stored, after any casts
+        SELECT jsonb_object_agg(k, v_current->k) INTO v_to FROM jsonb_object_keys(v_to) AS k;
+        v_log := v_log || jsonb_build_array(jsonb_build_object(
+          'table', v_table, 'op', 'update', 'id', v_id, 'before', v_from, 'after', v_to
+        ));
+
+      ELSE
+        -- Undo walks the log backwards: the task first, then what hangs off it
+        IF v_table = 'gantt_items' THEN
+          v_log := v_log
+            || COALESCE((
+              SELECT jsonb_agg(jsonb_build_object(
+                'table', 'gantt_items', 'op', 'update', 'id', c.id,
+                'before', jsonb_build_object('parent_id', v_id),
+                'after', jsonb_build_object('parent_id', NULL)
+              ))
+              FROM public.gantt_items c WHERE c.parent_id = v_id
+            ), '[]'::jsonb)
+            || COALESCE((
+              SELECT jsonb_agg(jsonb_build_object('table', 'gantt_item_resources', 'op', 'delete', 'id', r.id, 'before', to_jsonb(r)))
+              FROM public.gantt_item_resources r WHERE r.gantt_item_id = v_id
+            ), '[]'::jsonb)
+            || COALESCE((
+              SELECT jsonb_agg(jsonb_build_object('table', 'gantt_item_scope_items', 'op', 'delete', 'id', s.id, 'before', to_jsonb(s)))
+              FROM public.gantt_item_scope_items s WHERE s.gantt_item_id = v_id
+            ), '[]'::jsonb)
+            || COALESCE((
+              SELECT jsonb_agg(jsonb_build_object('table', 'gantt_dependencies', 'op', 'delete', 'id', d.id, 'before', to_jsonb(d)))
+              FROM public.gantt_dependencies d WHERE d.source_id = v_id OR d.target_id = v_id
+            ), '[]'::jsonb);
+        END IF;
+
+        EXECUTE format('DELETE FROM public.%I WHERE id = $1', v_table) USING v_id;
+        v_log := v_log || jsonb_build_array(jsonb_build_object(
+          'table', v_table, 'op', 'delete', 'id', v_id, 'before', v_current
+        ));
+      END IF;
+
+    ELSE
+      RAISE EXCEPTION 'change_op' USING DETAIL = v_row->>'op';
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(v_log) = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.gantt_change_log (project_id, user_id, action, description, changes)
+  VALUES (p_project_id, auth.uid(), p_action, p_description, v_log)
+  RETURNING id INTO v_change_id;
+
+  RETURN v_change_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.apply_gantt_changes(uuid, text, text, jsonb, smallint) TO authenticated;